@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { isValidElement, type ReactElement, type ReactNode } from "react";
+import {
+  createRoutesFromChildren,
+  Navigate,
+  Routes,
+  type RouteObject,
+} from "react-router-dom";
+import { describe, expect, it } from "vitest";
+import App, { RequirePermission } from "./App";
+
+// Routes every signed-in admin may open; everything else needs a permission
+const PUBLIC_PATHS = ["/login"];
+
+type FlatRoute = RouteObject & { fullPath: string };
+
+const findRoutes = (node: ReactNode): ReactElement | null => {
+  if (!isValidElement(node)) return null;
+  if (node.type === Routes) return node;
+  const { children } = node.props as { children?: ReactNode };
+  for (const child of Array.isArray(children) ? children : [children]) {
+    const routes = findRoutes(child);
+    if (routes) return routes;
+  }
+  return null;
+};
+
+const flattenRoutes = (routes: RouteObject[], parentPath = ""): FlatRoute[] =>
+  routes.flatMap((route) => {
+    const fullPath = route.path?.startsWith("/")
+      ? route.path
+      : [parentPath, route.path].filter(Boolean).join("/");
+    return [
+      { ...route, fullPath },
+      ...flattenRoutes(route.children || [], fullPath),
+    ];
+  });
+
+const isRedirect = (route: FlatRoute) =>
+  isValidElement(route.element) && route.element.type === Navigate;
+
+describe("App routes", () => {
+  const routesElement = findRoutes(App());
+  const routes = flattenRoutes(
+    createRoutesFromChildren(
+      (routesElement?.props as { children?: ReactNode } | undefined)?.children
+    )
+  );
+
+  // Layouts render their child routes and the dashboard home gates each
+  // of its cards, so only leaf pages are checked
+  const pageRoutes = routes.filter(
+    (route) =>
+      !route.children?.length &&
+      !route.index &&
+      !isRedirect(route) &&
+      !PUBLIC_PATHS.includes(route.fullPath)
+  );
+
+  it("finds the route table", () => {
+    expect(pageRoutes.length).toBeGreaterThan(0);
+  });
+
+  it.each(pageRoutes.map((route) => [route.fullPath, route] as const))(
+    "%s declares its required permission",
+    (_, route) => {
+      expect(isValidElement(route.element)).toBe(true);
+      const element = route.element as ReactElement<{
+        permission: string | string[];
+      }>;
+      expect(element.type).toBe(RequirePermission);
+      expect([element.props.permission].flat().length).toBeGreaterThan(0);
+    }
+  );
+});
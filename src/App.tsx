@@ -9,6 +9,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 import { queryClient } from "./lib/queryClient";
 import { useAuthStore } from "./stores/auth-store";
+import { useAnyPermission } from "./hooks/use-authorization";
 import { LoginPage } from "./pages/login-page";
 import { DashboardLayout } from "./components/layout/dashboard-layout";
 import { DashboardHome } from "./pages/dashboard-home";
@@ -17,6 +18,7 @@ import { UsersPage } from "./pages/users-page";
 import { UniversitiesPage } from "./pages/universities-page";
 import { FacultiesPage } from "./pages/faculties-page";
 import { RolesPage } from "./pages/roles-page";
+import { RolePermissionMatrixPage } from "./pages/role-permission-matrix-page";
 import { CoursesPage } from "./pages/course/courses-page";
 import { CreateCourse } from "./pages/course/create-update-course";
 import { TopicsPage } from "./pages/course/topic/topics-page";
@@ -26,7 +28,11 @@ import { LoadingSpinner } from "./components/ui/loading-spinner";
 import { CourseFilesPage } from "./pages/course/course-files/course-files-page";
 import { TopicFilesPage } from "./pages/course/topic/topic-files-page";
 import { LessonFilesPage } from "./pages/course/lesson/lesson-files-page";
+import { LessonAnalyticsPage } from "./pages/course/lesson/lesson-analytics-page";
 import { EnrollmentsPage } from "./pages/enrollments-page";
+import { AnalyticsPage } from "./pages/analytics-page";
+import { AuditLogPage } from "./pages/audit-log-page";
+import { TranslationCoveragePage } from "./pages/translation-coverage-page";
 import { VideosLibraryPage } from "./pages/videos-library-page";
 import { QuizzesPage } from "./pages/quizzes-page";
 import { CreateUpdateQuiz } from "./pages/quiz/create-update-quiz";
@@ -38,6 +44,8 @@ import ContentItemsPage from "./pages/free-course/content-items-page";
 import CreateUpdateContentItem from "./pages/free-course/create-update-content-item";
 import { CourseProgressPage } from "./pages/progress/course-progress-page";
 import { CourseLeaderboardPage } from "./pages/progress/course-leaderboard-page";
+import { ForbiddenPage } from "./pages/forbidden-page";
+import type { PermissionName } from "./types/api";
 
 // Protected Route Component
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -69,6 +77,24 @@ function AuthRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// Permission Route Component (renders 403 unless the admin has any of the permissions)
+export function RequirePermission({
+  permission,
+  children,
+}: {
+  permission: PermissionName | PermissionName[];
+  children: React.ReactNode;
+}) {
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  const allowed = useAnyPermission(permissions);
+
+  if (!allowed) {
+    return <ForbiddenPage permissions={permissions} />;
+  }
+
+  return <>{children}</>;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
@@ -94,60 +120,286 @@ function App() {
             }
           >
             <Route index element={<DashboardHome />} />
-            <Route path="admins" element={<AdminsPage />} />
-            <Route path="roles" element={<RolesPage />} />
-            <Route path="users" element={<UsersPage />} />
-            <Route path="universities" element={<UniversitiesPage />} />
-            <Route path="faculties" element={<FacultiesPage />} />
-            <Route path="courses" element={<CoursesPage />} />
-            <Route path="enrollments" element={<EnrollmentsPage />} />
-            <Route path="quizzes" element={<QuizzesPage />} />
-            <Route path="quizzes/new" element={<CreateUpdateQuiz />} />
-            <Route path="quizzes/:id/edit" element={<CreateUpdateQuiz />} />
-            <Route path="videos-library" element={<VideosLibraryPage />} />
-            <Route path="free-courses" element={<FreeCoursesPage />} />
-            <Route path="free-courses/create" element={<CreateUpdateFreeCourse />} />
-            <Route path="free-courses/:id/edit" element={<CreateUpdateFreeCourse />} />
-            <Route path="free-courses/:freeCourseId/sections" element={<SectionsPage />} />
-            <Route path="free-courses/:freeCourseId/sections/create" element={<CreateUpdateSection />} />
-            <Route path="free-courses/:freeCourseId/sections/:sectionId/edit" element={<CreateUpdateSection />} />
-            <Route path="free-courses/:freeCourseId/sections/:sectionId/content" element={<ContentItemsPage />} />
-            <Route path="free-courses/:freeCourseId/sections/:sectionId/content/create" element={<CreateUpdateContentItem />} />
+            <Route
+              path="admins"
+              element={
+                <RequirePermission permission="read_admins">
+                  <AdminsPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="roles"
+              element={
+                <RequirePermission permission="read_roles">
+                  <RolesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="roles/matrix"
+              element={
+                <RequirePermission permission="read_roles">
+                  <RolePermissionMatrixPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="users"
+              element={
+                <RequirePermission permission="read_users">
+                  <UsersPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="universities"
+              element={
+                <RequirePermission permission="read_universities">
+                  <UniversitiesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="faculties"
+              element={
+                <RequirePermission permission="read_faculties">
+                  <FacultiesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="courses"
+              element={
+                <RequirePermission permission="read_courses">
+                  <CoursesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="enrollments"
+              element={
+                <RequirePermission permission="read_enrollments">
+                  <EnrollmentsPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="analytics"
+              element={
+                <RequirePermission permission="read_enrollments">
+                  <AnalyticsPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="audit-log"
+              element={
+                <RequirePermission permission="read_audit_logs">
+                  <AuditLogPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="translations"
+              element={
+                <RequirePermission permission="read_translations">
+                  <TranslationCoveragePage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="quizzes"
+              element={
+                <RequirePermission permission="read_quizzes">
+                  <QuizzesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="quizzes/new"
+              element={
+                <RequirePermission permission="create_quizzes">
+                  <CreateUpdateQuiz />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="quizzes/:id/edit"
+              element={
+                <RequirePermission permission="update_quizzes">
+                  <CreateUpdateQuiz />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="videos-library"
+              element={
+                <RequirePermission permission="read_video_library">
+                  <VideosLibraryPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses"
+              element={
+                <RequirePermission permission="read_free_courses">
+                  <FreeCoursesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/create"
+              element={
+                <RequirePermission permission="create_free_courses">
+                  <CreateUpdateFreeCourse />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/:id/edit"
+              element={
+                <RequirePermission permission="update_free_courses">
+                  <CreateUpdateFreeCourse />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/:freeCourseId/sections"
+              element={
+                <RequirePermission permission="read_sections">
+                  <SectionsPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/:freeCourseId/sections/create"
+              element={
+                <RequirePermission permission="create_sections">
+                  <CreateUpdateSection />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/:freeCourseId/sections/:sectionId/edit"
+              element={
+                <RequirePermission permission="update_sections">
+                  <CreateUpdateSection />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/:freeCourseId/sections/:sectionId/content"
+              element={
+                <RequirePermission permission="read_sections">
+                  <ContentItemsPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="free-courses/:freeCourseId/sections/:sectionId/content/create"
+              element={
+                <RequirePermission permission="create_sections">
+                  <CreateUpdateContentItem />
+                </RequirePermission>
+              }
+            />
             {/* Content item editing disabled - view only */}
-            <Route path="courses/new" element={<CreateCourse />} />
-            <Route path="courses/:id/edit" element={<CreateCourse />} />
-            <Route path="courses/:courseId/topics" element={<TopicsPage />} />
+            <Route
+              path="courses/new"
+              element={
+                <RequirePermission permission="create_courses">
+                  <CreateCourse />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="courses/:id/edit"
+              element={
+                <RequirePermission permission="update_courses">
+                  <CreateCourse />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="courses/:courseId/topics"
+              element={
+                <RequirePermission permission="read_topics">
+                  <TopicsPage />
+                </RequirePermission>
+              }
+            />
             <Route
               path="courses/:courseId/topics/:topicId/lessons"
-              element={<LessonsPage />}
+              element={
+                <RequirePermission permission="read_lessons">
+                  <LessonsPage />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/topics/:topicId/lessons/create"
-              element={<CreateUpdateLesson />}
+              element={
+                <RequirePermission permission="create_lessons">
+                  <CreateUpdateLesson />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/topics/:topicId/lessons/:lessonId/edit"
-              element={<CreateUpdateLesson />}
+              element={
+                <RequirePermission permission="update_lessons">
+                  <CreateUpdateLesson />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/files"
-              element={<CourseFilesPage />}
+              element={
+                <RequirePermission permission="read_attached_files">
+                  <CourseFilesPage />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/topics/:topicId/files"
-              element={<TopicFilesPage />}
+              element={
+                <RequirePermission permission="read_attached_files">
+                  <TopicFilesPage />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/topics/:topicId/lessons/:lessonId/files"
-              element={<LessonFilesPage />}
+              element={
+                <RequirePermission permission="read_attached_files">
+                  <LessonFilesPage />
+                </RequirePermission>
+              }
+            />
+            <Route
+              path="courses/:courseId/topics/:topicId/lessons/:lessonId/analytics"
+              element={
+                <RequirePermission permission="read_progress">
+                  <LessonAnalyticsPage />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/progress"
-              element={<CourseProgressPage />}
+              element={
+                <RequirePermission permission="read_progress">
+                  <CourseProgressPage />
+                </RequirePermission>
+              }
             />
             <Route
               path="courses/:courseId/leaderboard"
-              element={<CourseLeaderboardPage />}
+              element={
+                <RequirePermission permission="read_progress">
+                  <CourseLeaderboardPage />
+                </RequirePermission>
+              }
             />
           </Route>
 
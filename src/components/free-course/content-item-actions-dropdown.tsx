@@ -18,6 +18,7 @@ import {
 } from "../ui/alert-dialog";
 import { Button } from "../ui/button";
 import { useDeleteContentItem } from "../../hooks/use-content-items";
+import { useTranslation } from "../../hooks/use-translation";
 import { ViewContentItemDialog } from "./view-content-item-dialog";
 
 interface ContentItemActionsDropdownProps {
@@ -33,6 +34,7 @@ export function ContentItemActionsDropdown({
   contentId,
   contentTitle,
 }: ContentItemActionsDropdownProps) {
+  const { t } = useTranslation();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
   const deleteContentItem = useDeleteContentItem(freeCourseId, sectionId);
@@ -55,14 +57,14 @@ export function ContentItemActionsDropdown({
         <DropdownMenuContent align="end">
           <DropdownMenuItem onClick={() => setShowViewDialog(true)}>
             <Eye className="mr-2 h-4 w-4" />
-            View
+            {t("common.view")}
           </DropdownMenuItem>
           <DropdownMenuItem
             onClick={() => setShowDeleteDialog(true)}
             className="text-red-600 focus:text-red-600"
           >
             <Trash2 className="mr-2 h-4 w-4" />
-            Delete
+            {t("common.delete")}
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
@@ -78,20 +80,21 @@ export function ContentItemActionsDropdown({
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t("freeCourses.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the content item "{contentTitle}".
-              This action cannot be undone.
+              {t("contentItems.deleteDescription", { name: contentTitle })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDelete}
               className="bg-red-600 hover:bg-red-700"
               disabled={deleteContentItem.isPending}
             >
-              {deleteContentItem.isPending ? "Deleting..." : "Delete"}
+              {deleteContentItem.isPending
+                ? t("common.deleting")
+                : t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -19,6 +19,7 @@ import {
 } from "../ui/alert-dialog";
 import { Button } from "../ui/button";
 import { useDeleteSection } from "../../hooks/use-sections";
+import { useTranslation } from "../../hooks/use-translation";
 
 interface SectionActionsDropdownProps {
   freeCourseId: string;
@@ -31,6 +32,7 @@ export function SectionActionsDropdown({
   sectionId,
   sectionName,
 }: SectionActionsDropdownProps) {
+  const { t } = useTranslation();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const deleteSection = useDeleteSection(freeCourseId);
 
@@ -56,7 +58,7 @@ export function SectionActionsDropdown({
               className="flex items-center"
             >
               <Eye className="mr-2 h-4 w-4" />
-              View Content
+              {t("sections.viewContent")}
             </Link>
           </DropdownMenuItem>
           <DropdownMenuItem asChild>
@@ -65,7 +67,7 @@ export function SectionActionsDropdown({
               className="flex items-center"
             >
               <Edit className="mr-2 h-4 w-4" />
-              Edit
+              {t("common.edit")}
             </Link>
           </DropdownMenuItem>
           <DropdownMenuItem
@@ -73,7 +75,7 @@ export function SectionActionsDropdown({
             className="text-red-600 focus:text-red-600"
           >
             <Trash2 className="mr-2 h-4 w-4" />
-            Delete
+            {t("common.delete")}
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
@@ -81,20 +83,21 @@ export function SectionActionsDropdown({
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t("freeCourses.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the section "{sectionName}" and all
-              its content items. This action cannot be undone.
+              {t("sections.deleteDescription", { name: sectionName })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDelete}
               className="bg-red-600 hover:bg-red-700"
               disabled={deleteSection.isPending}
             >
-              {deleteSection.isPending ? "Deleting..." : "Delete"}
+              {deleteSection.isPending
+                ? t("common.deleting")
+                : t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
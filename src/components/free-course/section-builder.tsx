@@ -1,9 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import {
   Select,
   SelectContent,
@@ -20,6 +19,7 @@ import {
 } from "@/components/ui/accordion"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
+import { LocalizedField } from "@/components/shared/localized-field"
 import {
   Plus,
   Trash2,
@@ -32,9 +32,16 @@ import {
 import type { Section, ContentItem, ContentItemType } from "@/types/api"
 import { useVideosForSelect } from "@/hooks/use-videos-library"
 import { useQuizzesForSelect } from "@/hooks/use-quizzes"
-import { UploadService, type UploadProgress } from "@/services/upload-service"
+import { useLocalizedText } from "@/hooks/use-localized-text"
+import { UploadService } from "@/services/upload-service"
 import { UploadProgressCard } from "@/components/ui/upload-progress"
+import { useUploadStore } from "@/stores/upload-store"
+import {
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation"
 import { toast } from "sonner"
+import { useTranslation } from "@/hooks/use-translation"
 
 interface SectionBuilderProps {
   sections: Section[]
@@ -42,7 +49,9 @@ interface SectionBuilderProps {
 }
 
 export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
+  const { t } = useTranslation()
   const [expandedSections, setExpandedSections] = useState<string[]>([])
+  const localizeText = useLocalizedText()
 
   // Video library query
   const { data: videosData } = useVideosForSelect("lesson")
@@ -50,18 +59,19 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
   // Quiz library query
   const { data: quizzesData } = useQuizzesForSelect()
 
-  // File upload state tracking per content item
-  const [uploadingFiles, setUploadingFiles] = useState<
-    Record<
-      string,
-      {
-        file: File
-        progress: UploadProgress | null
-        status: "idle" | "uploading" | "completed" | "error"
-        error: string | null
-      }
-    >
-  >({})
+  // Upload queue task per content item
+  const [uploadTaskIds, setUploadTaskIds] = useState<Record<string, string>>(
+    {}
+  )
+  const { tasks: uploadTasks, enqueue, cancel } = useUploadStore()
+  const getUploadTask = (itemId: string) =>
+    uploadTasks.find((task) => task.id === uploadTaskIds[itemId])
+
+  // Uploads finish after later edits, so they attach to the latest sections
+  const latestRef = useRef({ sections, onChange })
+  useEffect(() => {
+    latestRef.current = { sections, onChange }
+  })
 
   const addSection = () => {
     const newSection: Section = {
@@ -82,33 +92,6 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
     onChange(updated)
   }
 
-  const updateSectionTitle = (
-    index: number,
-    lang: "en" | "ar" | "he",
-    value: string
-  ) => {
-    const updated = [...sections]
-    updated[index] = {
-      ...updated[index],
-      title: { ...updated[index].title, [lang]: value },
-    }
-    onChange(updated)
-  }
-
-  const updateSectionDescription = (
-    index: number,
-    lang: "en" | "ar" | "he",
-    value: string
-  ) => {
-    const updated = [...sections]
-    const currentDescription = updated[index].description || { en: "" }
-    updated[index] = {
-      ...updated[index],
-      description: { ...currentDescription, [lang]: value },
-    }
-    onChange(updated)
-  }
-
   const deleteSection = (index: number) => {
     const updated = sections.filter((_, i) => i !== index)
     // Reorder remaining sections
@@ -147,33 +130,12 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
     onChange(updated)
   }
 
-  const updateContentTitle = (
-    sectionIndex: number,
-    contentIndex: number,
-    lang: "en" | "ar" | "he",
-    value: string
-  ) => {
-    const updated = [...sections]
-    updated[sectionIndex].contentItems[contentIndex] = {
-      ...updated[sectionIndex].contentItems[contentIndex],
-      title: {
-        ...updated[sectionIndex].contentItems[contentIndex].title,
-        [lang]: value,
-      },
-    }
-    onChange(updated)
-  }
-
   const deleteContentItem = (sectionIndex: number, contentIndex: number) => {
     const updated = [...sections]
     const itemId = updated[sectionIndex].contentItems[contentIndex]._id
 
-    // Clean up upload state if exists
-    if (uploadingFiles[itemId]) {
-      const newUploadingFiles = { ...uploadingFiles }
-      delete newUploadingFiles[itemId]
-      setUploadingFiles(newUploadingFiles)
-    }
+    // Stop an upload that is still running for this item
+    clearUpload(itemId)
 
     updated[sectionIndex].contentItems = updated[
       sectionIndex
@@ -185,6 +147,44 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
     onChange(updated)
   }
 
+  const clearUpload = (itemId: string) => {
+    const taskId = uploadTaskIds[itemId]
+    if (!taskId) return
+    cancel(taskId)
+    setUploadTaskIds((prev) => {
+      const next = { ...prev }
+      delete next[itemId]
+      return next
+    })
+  }
+
+  // Sets the uploaded file on the content item, wherever it has moved to
+  const attachUploadedFile = (itemId: string, key: string) => {
+    const { sections: current, onChange: update } = latestRef.current
+    update(
+      current.map((section) => ({
+        ...section,
+        contentItems: section.contentItems.map((item) =>
+          item._id === itemId ? { ...item, resourceId: key } : item
+        ),
+      }))
+    )
+  }
+
+  const renderUploadProgress = (itemId: string) => {
+    const task = getUploadTask(itemId)
+    if (!task) return null
+    return (
+      <UploadProgressCard
+        progress={task.progress}
+        fileName={`${task.file.name} (${UploadService.formatBytes(task.file.size)})`}
+        status={task.status}
+        error={task.error}
+      />
+    )
+  }
+
+  // The upload runs in the global upload queue and shows in the upload tray
   const handleFileSelect = async (
     sectionIndex: number,
     contentIndex: number,
@@ -193,63 +193,26 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
     const file = event.target.files?.[0]
     if (!file) return
 
-    const itemId = sections[sectionIndex].contentItems[contentIndex]._id
+    // Validate type, size and content before anything is uploaded
+    const errors = await validateUploadFile(file, "free-course-file")
+    if (errors.length > 0) {
+      errors.forEach((error) => toast.error(error))
+      return
+    }
 
-    // Initialize upload state
-    setUploadingFiles((prev) => ({
-      ...prev,
-      [itemId]: {
-        file,
-        progress: null,
-        status: "idle",
-        error: null,
+    const itemId = sections[sectionIndex].contentItems[contentIndex]._id
+    clearUpload(itemId)
+
+    const taskId = enqueue({
+      file,
+      uploadType: UploadService.getUploadType(file.type),
+      folder: "free-courses-content",
+      onComplete: (result) => {
+        attachUploadedFile(itemId, result.key)
+        toast.success(t("toast.fileUploaded"))
       },
-    }))
-
-    try {
-      // Update status to uploading
-      setUploadingFiles((prev) => ({
-        ...prev,
-        [itemId]: { ...prev[itemId], status: "uploading" },
-      }))
-
-      // Upload file
-      const uploadType = UploadService.getUploadType(file.type)
-      const result = await UploadService.uploadFileWithProgress(
-        file,
-        uploadType,
-        "free-courses-content",
-        (progress) => {
-          setUploadingFiles((prev) => ({
-            ...prev,
-            [itemId]: { ...prev[itemId], progress },
-          }))
-        }
-      )
-
-      // Update content item with uploaded file URL
-      updateContentItem(sectionIndex, contentIndex, "resourceId", result.key)
-
-      // Update status to completed
-      setUploadingFiles((prev) => ({
-        ...prev,
-        [itemId]: { ...prev[itemId], status: "completed" },
-      }))
-
-      toast.success("File uploaded successfully")
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "File upload failed"
-      setUploadingFiles((prev) => ({
-        ...prev,
-        [itemId]: {
-          ...prev[itemId],
-          status: "error",
-          error: errorMessage,
-        },
-      }))
-      toast.error(errorMessage)
-    }
+    })
+    setUploadTaskIds((prev) => ({ ...prev, [itemId]: taskId }))
   }
 
   const handleVideoSelect = (
@@ -284,10 +247,8 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
     }
   }
 
-  const getQuizTitle = (quiz: any): string => {
-    if (typeof quiz.title === "string") return quiz.title
-    return quiz.title?.en || quiz.title?.ar || quiz.title?.he || "Untitled Quiz"
-  }
+  const getQuizTitle = (quiz: any): string =>
+    localizeText(quiz.title, t("quizzes.untitled"))
 
   const getContentIcon = (type: ContentItemType) => {
     switch (type) {
@@ -304,25 +265,28 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <div>
-          <h3 className="text-lg font-semibold">Course Sections</h3>
+          <h3 className="text-lg font-semibold">
+            {t("sections.builderTitle")}
+          </h3>
           <p className="text-sm text-muted-foreground">
-            Organize your course content into sections with various content
-            types
+            {t("sections.builderDescription")}
           </p>
         </div>
         <Button type="button" onClick={addSection} variant="outline">
           <Plus className="mr-2 h-4 w-4" />
-          Add Section
+          {t("sections.add")}
         </Button>
       </div>
 
       {sections.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
-            <p className="text-muted-foreground mb-4">No sections added yet</p>
+            <p className="text-muted-foreground mb-4">
+              {t("sections.noneAdded")}
+            </p>
             <Button type="button" onClick={addSection}>
               <Plus className="mr-2 h-4 w-4" />
-              Add First Section
+              {t("sections.addFirst")}
             </Button>
           </CardContent>
         </Card>
@@ -339,15 +303,21 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                   <div className="flex items-center gap-3 flex-1">
                     <GripVertical className="h-5 w-5 text-muted-foreground" />
                     <div className="flex items-center gap-3 flex-1">
-                      <Badge variant="outline">Section {section.order}</Badge>
+                      <Badge variant="outline">
+                        {t("sections.number", { number: section.order ?? "" })}
+                      </Badge>
                       <span className="font-medium">
-                        {section.title.en || "Untitled Section"}
+                        {section.title.en || t("sections.untitled")}
                       </span>
                       <Badge variant="secondary" className="ml-auto">
-                        {section.contentItems.length} items
+                        {t("sections.itemCount", {
+                          count: section.contentItems.length,
+                        })}
                       </Badge>
                       {!section.isVisible && (
-                        <Badge variant="destructive">Hidden</Badge>
+                        <Badge variant="destructive">
+                          {t("sections.hidden")}
+                        </Badge>
                       )}
                     </div>
                   </div>
@@ -365,7 +335,7 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                             }
                           />
                           <Label htmlFor={`visible-${section._id}`}>
-                            Visible to students
+                            {t("sections.visibleToStudents")}
                           </Label>
                         </div>
                       </div>
@@ -380,103 +350,34 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                     </div>
 
                     <div className="grid gap-4">
-                      <div className="flex flex-col gap-2">
-                        <Label>Title (English) *</Label>
-                        <Input
-                          value={section.title.en}
-                          onChange={(e) =>
-                            updateSectionTitle(
-                              sectionIndex,
-                              "en",
-                              e.target.value
-                            )
-                          }
-                          placeholder="Enter section title in English"
-                        />
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Label>Title (Arabic)</Label>
-                        <Input
-                          value={section.title.ar || ""}
-                          onChange={(e) =>
-                            updateSectionTitle(
-                              sectionIndex,
-                              "ar",
-                              e.target.value
-                            )
-                          }
-                          placeholder="Enter section title in Arabic"
-                        />
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Label>Title (Hebrew)</Label>
-                        <Input
-                          value={section.title.he || ""}
-                          onChange={(e) =>
-                            updateSectionTitle(
-                              sectionIndex,
-                              "he",
-                              e.target.value
-                            )
-                          }
-                          placeholder="Enter section title in Hebrew"
-                        />
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Label>Description (English)</Label>
-                        <Textarea
-                          value={section.description?.en || ""}
-                          onChange={(e) =>
-                            updateSectionDescription(
-                              sectionIndex,
-                              "en",
-                              e.target.value
-                            )
-                          }
-                          placeholder="Enter section description in English"
-                          rows={3}
-                        />
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Label>Description (Arabic)</Label>
-                        <Textarea
-                          value={section.description?.ar || ""}
-                          onChange={(e) =>
-                            updateSectionDescription(
-                              sectionIndex,
-                              "ar",
-                              e.target.value
-                            )
-                          }
-                          placeholder="Enter section description in Arabic"
-                          rows={3}
-                        />
-                      </div>
-
-                      <div className="flex flex-col gap-2">
-                        <Label>Description (Hebrew)</Label>
-                        <Textarea
-                          value={section.description?.he || ""}
-                          onChange={(e) =>
-                            updateSectionDescription(
-                              sectionIndex,
-                              "he",
-                              e.target.value
-                            )
-                          }
-                          placeholder="Enter section description in Hebrew"
-                          rows={3}
-                        />
-                      </div>
+                      <LocalizedField
+                        name={`sections.${sectionIndex}.title`}
+                        label={t("common.title")}
+                        placeholder={t("sections.titlePlaceholder")}
+                        value={section.title}
+                        onChange={(value) =>
+                          updateSection(sectionIndex, "title", value)
+                        }
+                      />
+
+                      <LocalizedField
+                        name={`sections.${sectionIndex}.description`}
+                        label={t("common.description")}
+                        placeholder={t("sections.descriptionPlaceholder")}
+                        editor="textarea"
+                        required={false}
+                        value={section.description}
+                        onChange={(value) =>
+                          updateSection(sectionIndex, "description", value)
+                        }
+                      />
                     </div>
 
                     <div className="border-t pt-4">
                       <div className="flex items-center justify-between mb-4">
-                        <h4 className="font-semibold">Content Items</h4>
+                        <h4 className="font-semibold">
+                          {t("sections.contentItems")}
+                        </h4>
                         <Button
                           type="button"
                           variant="outline"
@@ -484,13 +385,13 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                           onClick={() => addContentItem(sectionIndex)}
                         >
                           <Plus className="mr-2 h-4 w-4" />
-                          Add Content
+                          {t("contentItems.add")}
                         </Button>
                       </div>
 
                       {section.contentItems.length === 0 ? (
                         <p className="text-sm text-muted-foreground text-center py-4">
-                          No content items added yet
+                          {t("contentItems.noneAdded")}
                         </p>
                       ) : (
                         <div className="space-y-3">
@@ -502,7 +403,9 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                     <div className="flex items-center gap-2">
                                       {getContentIcon(item.type)}
                                       <Badge variant="outline">
-                                        Item {item.order}
+                                        {t("contentItems.itemNumber", {
+                                          number: item.order ?? "",
+                                        })}
                                       </Badge>
                                     </div>
                                     <Button
@@ -522,7 +425,9 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
 
                                   <div className="grid gap-3">
                                     <div className="flex flex-col gap-2">
-                                      <Label>Content Type *</Label>
+                                      <Label>
+                                        {t("contentItems.typeRequired")}
+                                      </Label>
                                       <Select
                                         value={item.type}
                                         onValueChange={(value) =>
@@ -539,70 +444,37 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                         </SelectTrigger>
                                         <SelectContent>
                                           <SelectItem value="file">
-                                            File
+                                            {t("contentItems.typeFile")}
                                           </SelectItem>
                                           <SelectItem value="video">
-                                            Video
+                                            {t("contentItems.typeVideo")}
                                           </SelectItem>
                                           <SelectItem value="quiz">
-                                            Quiz
+                                            {t("contentItems.typeQuiz")}
                                           </SelectItem>
                                         </SelectContent>
                                       </Select>
                                     </div>
 
-                                    <div className="flex flex-col gap-2">
-                                      <Label>Title (English) *</Label>
-                                      <Input
-                                        value={item.title.en}
-                                        onChange={(e) =>
-                                          updateContentTitle(
-                                            sectionIndex,
-                                            contentIndex,
-                                            "en",
-                                            e.target.value
-                                          )
-                                        }
-                                        placeholder="Enter content title in English"
-                                      />
-                                    </div>
-
-                                    <div className="flex flex-col gap-2">
-                                      <Label>Title (Arabic)</Label>
-                                      <Input
-                                        value={item.title.ar || ""}
-                                        onChange={(e) =>
-                                          updateContentTitle(
-                                            sectionIndex,
-                                            contentIndex,
-                                            "ar",
-                                            e.target.value
-                                          )
-                                        }
-                                        placeholder="Enter content title in Arabic"
-                                      />
-                                    </div>
-
-                                    <div className="flex flex-col gap-2">
-                                      <Label>Title (Hebrew)</Label>
-                                      <Input
-                                        value={item.title.he || ""}
-                                        onChange={(e) =>
-                                          updateContentTitle(
-                                            sectionIndex,
-                                            contentIndex,
-                                            "he",
-                                            e.target.value
-                                          )
-                                        }
-                                        placeholder="Enter content title in Hebrew"
-                                      />
-                                    </div>
+                                    <LocalizedField
+                                      name={`sections.${sectionIndex}.contentItems.${contentIndex}.title`}
+                                      label={t("common.title")}
+                                      placeholder={t("contentItems.titlePlaceholder")}
+                                      value={item.title}
+                                      onChange={(value) =>
+                                        updateContentItem(
+                                          sectionIndex,
+                                          contentIndex,
+                                          "title",
+                                          value
+                                        )
+                                      }
+                                    />
 
                                     {item.type === "video" && (
                                       <div className="flex flex-col gap-2">
                                         <Label>
-                                          Select Video from Library *
+                                          {t("contentItems.videoFromLibraryRequired")}
                                         </Label>
                                         <Select
                                           value={item.resourceId || ""}
@@ -615,7 +487,9 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                           }
                                         >
                                           <SelectTrigger>
-                                            <SelectValue placeholder="Select a video from library" />
+                                            <SelectValue
+                                              placeholder={t("contentItems.selectVideoFromLibrary")}
+                                            />
                                           </SelectTrigger>
                                           <SelectContent>
                                             {videosData?.data?.map((video) => (
@@ -630,12 +504,13 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                         </Select>
                                         {item.resourceId && (
                                           <p className="text-xs text-muted-foreground">
-                                            Selected:{" "}
-                                            {
-                                              videosData?.data?.find(
-                                                (v) => v.id === item.resourceId
-                                              )?.name
-                                            }
+                                            {t("contentItems.selected", {
+                                              name:
+                                                videosData?.data?.find(
+                                                  (v) =>
+                                                    v.id === item.resourceId
+                                                )?.name ?? "",
+                                            })}
                                           </p>
                                         )}
                                       </div>
@@ -644,7 +519,7 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                     {item.type === "quiz" && (
                                       <div className="flex flex-col gap-2">
                                         <Label>
-                                          Select Quiz from Library *
+                                          {t("contentItems.quizFromLibraryRequired")}
                                         </Label>
                                         <Select
                                           value={item.resourceId || ""}
@@ -657,7 +532,9 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                           }
                                         >
                                           <SelectTrigger>
-                                            <SelectValue placeholder="Select a quiz from library" />
+                                            <SelectValue
+                                              placeholder={t("contentItems.selectQuizFromLibrary")}
+                                            />
                                           </SelectTrigger>
                                           <SelectContent>
                                             {quizzesData?.map((quiz) => (
@@ -672,18 +549,21 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                         </Select>
                                         {item.resourceId && (
                                           <p className="text-xs text-muted-foreground">
-                                            Selected:{" "}
-                                            {
-                                              quizzesData?.find(
-                                                (q) => q._id === item.resourceId
-                                              )?.title &&
-                                              getQuizTitle(
-                                                quizzesData.find(
+                                            {t("contentItems.selected", {
+                                              name:
+                                                (quizzesData?.find(
                                                   (q) =>
                                                     q._id === item.resourceId
-                                                )!
-                                              )
-                                            }
+                                                )?.title &&
+                                                  getQuizTitle(
+                                                    quizzesData.find(
+                                                      (q) =>
+                                                        q._id ===
+                                                        item.resourceId
+                                                    )!
+                                                  )) ||
+                                                "",
+                                            })}
                                           </p>
                                         )}
                                       </div>
@@ -691,12 +571,16 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
 
                                     {item.type === "file" && (
                                       <div className="flex flex-col gap-2">
-                                        <Label>Upload File *</Label>
+                                        <Label>
+                                          {t("contentItems.uploadFile")}
+                                        </Label>
                                         <div className="space-y-3">
                                           <div className="flex items-center gap-3">
                                             <Input
                                               type="file"
-                                              accept="*/*"
+                                              accept={getAcceptedExtensions(
+                                                "free-course-file"
+                                              )}
                                               onChange={(e) =>
                                                 handleFileSelect(
                                                   sectionIndex,
@@ -706,97 +590,25 @@ export function SectionBuilder({ sections, onChange }: SectionBuilderProps) {
                                               }
                                               className="flex-1"
                                             />
-                                            {uploadingFiles[item._id]?.file && (
+                                            {getUploadTask(item._id) && (
                                               <Button
                                                 type="button"
                                                 variant="outline"
                                                 size="sm"
-                                                onClick={() => {
-                                                  const newUploadingFiles = {
-                                                    ...uploadingFiles,
-                                                  }
-                                                  delete newUploadingFiles[
-                                                    item._id
-                                                  ]
-                                                  setUploadingFiles(
-                                                    newUploadingFiles
-                                                  )
-                                                }}
+                                                onClick={() =>
+                                                  clearUpload(item._id)
+                                                }
                                               >
                                                 <X className="h-4 w-4" />
                                               </Button>
                                             )}
                                           </div>
 
-                                          {uploadingFiles[item._id]?.file && (
-                                            <div className="text-sm text-gray-600">
-                                              Selected:{" "}
-                                              {
-                                                uploadingFiles[item._id].file
-                                                  .name
-                                              }{" "}
-                                              (
-                                              {UploadService.formatBytes(
-                                                uploadingFiles[item._id].file
-                                                  .size
-                                              )}
-                                              )
-                                            </div>
-                                          )}
-
-                                          {uploadingFiles[item._id]?.status ===
-                                            "uploading" &&
-                                            uploadingFiles[item._id]
-                                              .progress && (
-                                              <UploadProgressCard
-                                                progress={
-                                                  uploadingFiles[item._id]
-                                                    .progress!
-                                                }
-                                                fileName={
-                                                  uploadingFiles[item._id].file
-                                                    .name
-                                                }
-                                                status="uploading"
-                                              />
-                                            )}
-
-                                          {uploadingFiles[item._id]?.status ===
-                                            "completed" && (
-                                            <UploadProgressCard
-                                              progress={
-                                                uploadingFiles[item._id]
-                                                  .progress!
-                                              }
-                                              fileName={
-                                                uploadingFiles[item._id].file
-                                                  .name
-                                              }
-                                              status="completed"
-                                            />
-                                          )}
-
-                                          {uploadingFiles[item._id]?.status ===
-                                            "error" && (
-                                            <UploadProgressCard
-                                              progress={
-                                                uploadingFiles[item._id]
-                                                  .progress!
-                                              }
-                                              fileName={
-                                                uploadingFiles[item._id].file
-                                                  .name
-                                              }
-                                              status="error"
-                                              error={
-                                                uploadingFiles[item._id].error
-                                              }
-                                            />
-                                          )}
+                                          {renderUploadProgress(item._id)}
 
                                           {item.resourceId && (
                                             <p className="text-xs text-green-600">
-                                              ✓ File uploaded successfully
+                                              {t("contentItems.fileUploaded")}
                                             </p>
                                           )}
                                         </div>
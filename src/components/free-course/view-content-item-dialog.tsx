@@ -1,6 +1,11 @@
 import { useContentItem } from '@/hooks/use-content-items';
 import { useVideoLibrary } from '@/hooks/use-videos-library';
 import { useQuiz } from '@/hooks/use-quizzes';
+import { useLocalizedText } from '@/hooks/use-localized-text';
+import { useTranslation } from '@/hooks/use-translation';
+import { CONTENT_ITEM_TYPE_LABELS } from '@/lib/content-items';
+import type { LocalizedValue } from '@/lib/localized-text';
+import type { ContentItemType } from '@/types/api';
 import {
   Dialog,
   DialogContent,
@@ -27,6 +32,7 @@ export function ViewContentItemDialog({
   open,
   onOpenChange,
 }: ViewContentItemDialogProps) {
+  const { t } = useTranslation();
   const { data: contentItem, isLoading } = useContentItem(
     freeCourseId,
     sectionId,
@@ -47,10 +53,9 @@ export function ViewContentItemDialog({
       : ''
   );
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === 'string') return value;
-    return value?.en || value?.name?.en || 'N/A';
-  };
+  const localizeText = useLocalizedText();
+  const getDisplayName = (value: LocalizedValue) =>
+    localizeText(value, t('common.notAvailable'));
 
   const getContentTypeIcon = (type: string) => {
     switch (type) {
@@ -65,15 +70,15 @@ export function ViewContentItemDialog({
     }
   };
 
-  const getContentTypeBadge = (type: string) => {
+  const getContentTypeBadge = (type: ContentItemType) => {
     const variants: Record<string, any> = {
       file: 'default',
       video: 'secondary',
       quiz: 'outline',
     };
     return (
-      <Badge variant={variants[type] || 'default'} className="capitalize">
-        {type}
+      <Badge variant={variants[type] || 'default'}>
+        {t(CONTENT_ITEM_TYPE_LABELS[type])}
       </Badge>
     );
   };
@@ -100,7 +105,7 @@ export function ViewContentItemDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-3">
             {getContentTypeIcon(contentItem.type)}
-            View Content Item
+            {t('contentItems.view')}
           </DialogTitle>
         </DialogHeader>
 
@@ -109,7 +114,7 @@ export function ViewContentItemDialog({
           <div>
             <div>
               <label className="text-sm font-medium text-muted-foreground">
-                Content Type
+                {t('contentItems.type')}
               </label>
               <div className="mt-1">
                 {getContentTypeBadge(contentItem.type)}
@@ -122,7 +127,7 @@ export function ViewContentItemDialog({
           <div className="space-y-3">
             <div>
               <label className="text-sm font-medium text-muted-foreground">
-                Title (English)
+                {t('contentItems.titleEnglish')}
               </label>
               <p className="mt-1 text-base">{contentItem.title.en}</p>
             </div>
@@ -130,7 +135,7 @@ export function ViewContentItemDialog({
             {contentItem.title.ar && (
               <div>
                 <label className="text-sm font-medium text-muted-foreground">
-                  Title (Arabic)
+                  {t('common.titleAr')}
                 </label>
                 <p className="mt-1 text-base" dir="rtl">
                   {contentItem.title.ar}
@@ -141,7 +146,7 @@ export function ViewContentItemDialog({
             {contentItem.title.he && (
               <div>
                 <label className="text-sm font-medium text-muted-foreground">
-                  Title (Hebrew)
+                  {t('common.titleHe')}
                 </label>
                 <p className="mt-1 text-base" dir="rtl">
                   {contentItem.title.he}
@@ -153,7 +158,7 @@ export function ViewContentItemDialog({
           {/* Type-specific Information */}
           <div className="border-t pt-4">
             <label className="text-sm font-medium text-muted-foreground mb-3 block">
-              Content Details
+              {t('contentItems.contentDetails')}
             </label>
 
             {/* File Type */}
@@ -161,20 +166,21 @@ export function ViewContentItemDialog({
               <div className="space-y-2">
                 {contentItem.url && (
                   <div className="flex items-center gap-2">
-                    <span className="text-sm">File URL:</span>
+                    <span className="text-sm">{t('contentItems.fileUrl')}</span>
                     <a
                       href={contentItem.url}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-sm text-primary hover:underline flex items-center gap-1"
                     >
-                      View File <ExternalLink className="h-3 w-3" />
+                      {t('contentItems.viewFile')}{' '}
+                      <ExternalLink className="h-3 w-3" />
                     </a>
                   </div>
                 )}
                 {contentItem.resourceId && !contentItem.url && (
                   <div className="text-sm text-muted-foreground">
-                    File ID: {contentItem.resourceId}
+                    {t('contentItems.fileId', { id: contentItem.resourceId })}
                   </div>
                 )}
               </div>
@@ -185,7 +191,9 @@ export function ViewContentItemDialog({
               <div className="space-y-2">
                 {contentItem.resourceId && videoData?.data ? (
                   <div>
-                    <span className="text-sm font-medium">Video Library:</span>
+                    <span className="text-sm font-medium">
+                      {t('contentItems.videoLibrary')}
+                    </span>
                     <p className="text-sm mt-1">
                       {getDisplayName(videoData.data.name)}
                     </p>
@@ -196,13 +204,16 @@ export function ViewContentItemDialog({
                         rel="noopener noreferrer"
                         className="text-sm text-primary hover:underline flex items-center gap-1 mt-2"
                       >
-                        Watch Video <ExternalLink className="h-3 w-3" />
+                        {t('contentItems.watchVideo')}{' '}
+                        <ExternalLink className="h-3 w-3" />
                       </a>
                     )}
                   </div>
                 ) : contentItem.url ? (
                   <div>
-                    <span className="text-sm font-medium">External Video:</span>
+                    <span className="text-sm font-medium">
+                      {t('contentItems.externalVideo')}
+                    </span>
                     <a
                       href={contentItem.url}
                       target="_blank"
@@ -214,7 +225,7 @@ export function ViewContentItemDialog({
                   </div>
                 ) : (
                   <div className="text-sm text-muted-foreground">
-                    No video source available
+                    {t('contentItems.noVideoSource')}
                   </div>
                 )}
               </div>
@@ -225,24 +236,34 @@ export function ViewContentItemDialog({
               <div className="space-y-2">
                 {contentItem.resourceId && quizData?.data ? (
                   <div>
-                    <span className="text-sm font-medium">Quiz:</span>
+                    <span className="text-sm font-medium">
+                      {t('contentItems.quiz')}
+                    </span>
                     <p className="text-sm mt-1">
                       {getDisplayName(quizData.data.title)}
                     </p>
                     {quizData.data.questions && (
                       <p className="text-sm text-muted-foreground mt-1">
-                        {quizData.data.questions.length} questions
+                        {t('contentItems.questionCount', {
+                          count: quizData.data.questions.length,
+                        })}
                       </p>
                     )}
                     {quizData.data.passingScore && (
                       <p className="text-sm text-muted-foreground">
-                        Passing Score: {quizData.data.passingScore}%
+                        {t('contentItems.passingScore', {
+                          score: quizData.data.passingScore,
+                        })}
                       </p>
                     )}
                   </div>
                 ) : (
                   <div className="text-sm text-muted-foreground">
-                    Quiz ID: {contentItem.resourceId || 'Not specified'}
+                    {t('contentItems.quizId', {
+                      id:
+                        contentItem.resourceId ||
+                        t('contentItems.notSpecified'),
+                    })}
                   </div>
                 )}
               </div>
@@ -252,7 +273,7 @@ export function ViewContentItemDialog({
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Close
+            {t('common.close')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -8,6 +8,13 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   Sidebar,
   SidebarContent,
@@ -24,6 +31,9 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar"
 import { useAuthStore } from "@/stores/auth-store"
+import { usePermittedItems } from "@/hooks/use-authorization"
+import { IdleTimeoutDialog } from "@/components/layout/idle-timeout-dialog"
+import { UploadTray } from "@/components/layout/upload-tray"
 import {
   Home,
   Users,
@@ -35,92 +45,122 @@ import {
   Book,
   BookOpen,
   Video,
+  Languages,
   ClipboardCheck,
   BookText,
+  BarChart3,
+  History,
+  type LucideIcon,
 } from "lucide-react"
+import { useTranslation } from "@/hooks/use-translation"
+import { LANGUAGES, type Language, type TranslationKey } from "@/i18n"
+import type { PermissionName } from "@/types/api"
+
+interface NavigationItem {
+  name: TranslationKey
+  href: string
+  icon: LucideIcon
+  permission?: PermissionName
+}
 
-const navigation = [
-  { name: "Dashboard", href: "/dashboard", icon: Home },
+const navigation: NavigationItem[] = [
+  { name: "nav.dashboard", href: "/dashboard", icon: Home },
   {
-    name: "Admins",
+    name: "nav.admins",
     href: "/dashboard/admins",
     icon: ShieldCheck,
     permission: "read_admins",
   },
   {
-    name: "Roles",
+    name: "nav.roles",
     href: "/dashboard/roles",
     icon: Settings,
     permission: "read_roles",
   },
   {
-    name: "Users",
+    name: "nav.users",
     href: "/dashboard/users",
     icon: Users,
     permission: "read_users",
   },
   {
-    name: "Universities",
+    name: "nav.universities",
     href: "/dashboard/universities",
     icon: Building,
     permission: "read_universities",
   },
   {
-    name: "Faculties",
+    name: "nav.faculties",
     href: "/dashboard/faculties",
     icon: GraduationCap,
     permission: "read_faculties",
   },
   {
-    name: "Courses",
+    name: "nav.courses",
     href: "/dashboard/courses",
     icon: Book,
     permission: "read_courses",
   },
   {
-    name: "Free Courses",
+    name: "nav.freeCourses",
     href: "/dashboard/free-courses",
     icon: BookText,
-    permission: "read_courses",
+    permission: "read_free_courses",
   },
   {
-    name: "Enrollments",
+    name: "nav.enrollments",
     href: "/dashboard/enrollments",
     icon: BookOpen,
     permission: "read_enrollments",
   },
   {
-    name: "Quizzes",
+    name: "nav.analytics",
+    href: "/dashboard/analytics",
+    icon: BarChart3,
+    permission: "read_enrollments",
+  },
+  {
+    name: "nav.quizzes",
     href: "/dashboard/quizzes",
     icon: ClipboardCheck,
     permission: "read_quizzes",
   },
   {
-    name: "Videos Library",
+    name: "nav.videosLibrary",
     href: "/dashboard/videos-library",
     icon: Video,
     permission: "read_video_library",
   },
+  {
+    name: "nav.translations",
+    href: "/dashboard/translations",
+    icon: Languages,
+    permission: "read_translations",
+  },
+  {
+    name: "nav.auditLog",
+    href: "/dashboard/audit-log",
+    icon: History,
+    permission: "read_audit_logs",
+  },
 ]
 
 export function DashboardLayout() {
   const location = useLocation()
-  const { admin, logout, hasPermission } = useAuthStore()
+  const { admin, logout } = useAuthStore()
+  const { t, dir, language, setLanguage } = useTranslation()
 
   const handleLogout = () => {
     logout()
   }
 
-  const filteredNavigation = navigation.filter((item) => {
-    // If no permission is required, always show (e.g., Dashboard)
-    if (!item.permission) return true
-    return hasPermission(item.permission)
-  })
+  // Entries without a permission (e.g., Dashboard) are always shown
+  const filteredNavigation = usePermittedItems(navigation)
 
   return (
     <SidebarProvider>
       <div className="min-h-screen bg-gray-50 flex w-full">
-        <Sidebar collapsible="icon">
+        <Sidebar collapsible="icon" side={dir === "rtl" ? "right" : "left"}>
           <SidebarHeader>
             <div className="flex items-center justify-center p-2 lg:px-4 lg:py-2 min-h-12">
               <img src="/logo-small.png" alt="logo" className="w-6 lg:w-24" />
@@ -140,11 +180,14 @@ export function DashboardLayout() {
                         <SidebarMenuButton
                           asChild
                           isActive={isActive}
-                          tooltip={item.name}
+                          tooltip={{
+                            children: t(item.name),
+                            side: dir === "rtl" ? "left" : "right",
+                          }}
                         >
                           <Link to={item.href}>
                             <Icon className="h-4 w-4" />
-                            <span>{item.name}</span>
+                            <span>{t(item.name)}</span>
                           </Link>
                         </SidebarMenuButton>
                       </SidebarMenuItem>
@@ -168,7 +211,7 @@ export function DashboardLayout() {
                               "AD"}
                           </AvatarFallback>
                         </Avatar>
-                        <div className="flex flex-col items-start text-left">
+                        <div className="flex flex-col items-start text-start">
                           <span className="text-sm font-medium">
                             {admin?.userName}
                           </span>
@@ -192,8 +235,8 @@ export function DashboardLayout() {
                     </DropdownMenuLabel>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={handleLogout}>
-                      <LogOut className="mr-2 h-4 w-4" />
-                      <span>Log out</span>
+                      <LogOut className="me-2 h-4 w-4" />
+                      <span>{t("layout.logOut")}</span>
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -208,13 +251,31 @@ export function DashboardLayout() {
           {/* Header */}
           <header className="bg-white shadow-sm border-b">
             <div className="flex h-16 items-center gap-2 px-4">
-              <SidebarTrigger className="-ml-1" />
+              <SidebarTrigger className="-ms-1 rtl:rotate-180" />
               <div className="flex items-center flex-1">
                 <h1 className="text-2xl font-semibold text-gray-900">
-                  {navigation.find((nav) => nav.href === location.pathname)
-                    ?.name || "Dashboard"}
+                  {t(
+                    navigation.find((nav) => nav.href === location.pathname)
+                      ?.name || "nav.dashboard"
+                  )}
                 </h1>
               </div>
+              <Select
+                value={language}
+                onValueChange={(value) => setLanguage(value as Language)}
+              >
+                <SelectTrigger className="w-[140px]" aria-label={t("layout.language")}>
+                  <Languages className="h-4 w-4" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </header>
 
@@ -224,6 +285,9 @@ export function DashboardLayout() {
             <Outlet />
           </div>
         </SidebarInset>
+
+        <IdleTimeoutDialog />
+        <UploadTray />
       </div>
     </SidebarProvider>
   )
@@ -0,0 +1,60 @@
+import { useCallback } from "react"
+import { toast } from "sonner"
+import { Clock } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Progress } from "@/components/ui/progress"
+import { useIdleTimeout } from "@/hooks/use-idle-timeout"
+import { useTranslation } from "@/hooks/use-translation"
+import { IDLE_WARNING_MS } from "@/lib/session-config"
+import { useAuthStore } from "@/stores/auth-store"
+
+export function IdleTimeoutDialog() {
+  const { isAuthenticated, logout } = useAuthStore()
+  const { t } = useTranslation()
+
+  const handleTimeout = useCallback(() => {
+    logout()
+    toast.info(t("idle.loggedOut"))
+  }, [logout, t])
+
+  const { remainingMs, isWarning, stayActive } = useIdleTimeout(
+    isAuthenticated,
+    handleTimeout
+  )
+
+  const secondsLeft = Math.ceil(remainingMs / 1000)
+
+  return (
+    <AlertDialog open={isWarning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-orange-500" />
+            {t("idle.title")}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {t("idle.description", { seconds: secondsLeft })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Progress value={(remainingMs / IDLE_WARNING_MS) * 100} className="h-2" />
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => logout()}>
+            {t("idle.logOut")}
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={stayActive}>
+            {t("idle.stay")}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
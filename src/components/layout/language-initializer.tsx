@@ -0,0 +1,16 @@
+import { useEffect } from "react"
+import { useLanguageStore } from "@/stores/language-store"
+import { getDirection } from "@/i18n"
+
+// Mirrors the selected language on <html> so the whole app, including
+// portalled dialogs and menus, flips to right-to-left for Arabic and Hebrew
+export function LanguageInitializer() {
+  const language = useLanguageStore((state) => state.language)
+
+  useEffect(() => {
+    document.documentElement.lang = language
+    document.documentElement.dir = getDirection(language)
+  }, [language])
+
+  return null
+}
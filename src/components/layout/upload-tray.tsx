@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react"
+import {
+  ChevronDown,
+  ChevronUp,
+  Pause,
+  Play,
+  RotateCw,
+  Upload,
+  X,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { UploadProgressCard } from "@/components/ui/upload-progress"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  isUploadFinished,
+  useUploadStore,
+  type UploadTask,
+} from "@/stores/upload-store"
+
+/**
+ * Floating panel listing every upload of the session. It lives in the
+ * dashboard layout so uploads stay visible while the admin moves between pages.
+ */
+export function UploadTray() {
+  const { t } = useTranslation()
+  const { tasks, pause, resume, cancel, retry, dismiss, clearFinished } =
+    useUploadStore()
+  const [collapsed, setCollapsed] = useState(false)
+
+  const pendingCount = tasks.filter((task) => !isUploadFinished(task)).length
+  const finishedCount = tasks.length - pendingCount
+
+  // Leaving the app would drop every upload that has not finished yet
+  useEffect(() => {
+    if (pendingCount === 0) return
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+    }
+    window.addEventListener("beforeunload", handleBeforeUnload)
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload)
+  }, [pendingCount])
+
+  if (tasks.length === 0) return null
+
+  const renderActions = (task: UploadTask) => {
+    const action = (
+      label: string,
+      icon: React.ReactNode,
+      onClick: (id: string) => void
+    ) => (
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        title={label}
+        aria-label={label}
+        onClick={() => onClick(task.id)}
+      >
+        {icon}
+      </Button>
+    )
+
+    switch (task.status) {
+      case "queued":
+      case "uploading":
+        return (
+          <>
+            {action(t("uploads.pause"), <Pause className="h-4 w-4" />, pause)}
+            {action(t("uploads.cancel"), <X className="h-4 w-4" />, cancel)}
+          </>
+        )
+      case "paused":
+        return (
+          <>
+            {action(t("uploads.resume"), <Play className="h-4 w-4" />, resume)}
+            {action(t("uploads.cancel"), <X className="h-4 w-4" />, cancel)}
+          </>
+        )
+      case "error":
+      case "cancelled":
+        return (
+          <>
+            {action(t("uploads.retry"), <RotateCw className="h-4 w-4" />, retry)}
+            {action(t("uploads.dismiss"), <X className="h-4 w-4" />, dismiss)}
+          </>
+        )
+      case "completed":
+        return action(t("uploads.dismiss"), <X className="h-4 w-4" />, dismiss)
+      default:
+        return null
+    }
+  }
+
+  return (
+    <Card className="fixed bottom-4 end-4 z-50 w-[380px] max-w-[calc(100vw-2rem)] gap-0 py-0 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 border-b px-4 py-3">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Upload className="h-4 w-4" />
+          {t("uploads.title")}
+          {pendingCount > 0 && (
+            <span className="font-normal text-muted-foreground">
+              {t("uploads.active", { count: pendingCount })}
+            </span>
+          )}
+        </CardTitle>
+        <div className="flex items-center gap-1">
+          {finishedCount > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={clearFinished}
+            >
+              {t("uploads.clearFinished")}
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title={collapsed ? t("uploads.expand") : t("uploads.collapse")}
+            aria-label={collapsed ? t("uploads.expand") : t("uploads.collapse")}
+            onClick={() => setCollapsed(!collapsed)}
+          >
+            {collapsed ? (
+              <ChevronUp className="h-4 w-4" />
+            ) : (
+              <ChevronDown className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      {!collapsed && (
+        <CardContent className="max-h-[60vh] space-y-2 overflow-y-auto p-2">
+          {tasks.map((task) => (
+            <UploadProgressCard
+              key={task.id}
+              className="w-full shadow-none"
+              fileName={task.label}
+              progress={task.progress}
+              status={task.status}
+              error={task.error}
+              actions={renderActions(task)}
+            />
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -11,6 +11,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, AlertTriangle, Trash2 } from "lucide-react";
 import { useDeleteProgress } from "@/hooks/use-progress";
 import { toast } from "sonner";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface DeleteProgressDialogProps {
   isOpen: boolean;
@@ -27,6 +28,7 @@ export function DeleteProgressDialog({
   userName,
   courseName,
 }: DeleteProgressDialogProps) {
+  const { t } = useTranslation();
   const deleteProgressMutation = useDeleteProgress();
 
   const handleDelete = async () => {
@@ -34,10 +36,10 @@ export function DeleteProgressDialog({
       await deleteProgressMutation.mutateAsync({
         enrollmentId,
       });
-      toast.success("Progress deleted successfully");
+      toast.success(t("toast.progressDeleted"));
       onClose();
     } catch (error) {
-      toast.error("Failed to delete progress");
+      toast.error(t("toast.progressDeleteFailed"));
     }
   };
 
@@ -47,10 +49,10 @@ export function DeleteProgressDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Trash2 className="h-5 w-5 text-red-500" />
-            Delete Progress
+            {t("progress.deleteTitle")}
           </DialogTitle>
           <DialogDescription>
-            This will permanently delete progress data for this user.
+            {t("progress.deleteDescription")}
           </DialogDescription>
         </DialogHeader>
 
@@ -58,20 +60,20 @@ export function DeleteProgressDialog({
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              <strong>Warning:</strong> This action cannot be undone.
+              <strong>{t("common.warning")}</strong> {t("progress.deleteWarning")}
               <ul className="list-disc list-inside mt-2 space-y-1 text-sm">
-                <li>All progress data will be soft-deleted</li>
-                <li>Data will be retained for audit purposes</li>
-                <li>User will no longer see this progress</li>
-                <li>Enrollment record will remain active</li>
+                <li>{t("progress.deleteSoft")}</li>
+                <li>{t("progress.deleteRetained")}</li>
+                <li>{t("progress.deleteHidden")}</li>
+                <li>{t("progress.deleteKeepsEnrollment")}</li>
               </ul>
             </AlertDescription>
           </Alert>
 
           {userName && courseName && (
             <div className="bg-gray-50 p-3 rounded-md text-sm">
-              <p><strong>User:</strong> {userName}</p>
-              <p><strong>Course:</strong> {courseName}</p>
+              <p><strong>{t("common.userLabel")}</strong> {userName}</p>
+              <p><strong>{t("common.courseLabel")}</strong> {courseName}</p>
             </div>
           )}
         </div>
@@ -83,7 +85,7 @@ export function DeleteProgressDialog({
             onClick={onClose}
             disabled={deleteProgressMutation.isPending}
           >
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button
             type="button"
@@ -94,7 +96,7 @@ export function DeleteProgressDialog({
             {deleteProgressMutation.isPending && (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             )}
-            Delete Progress
+            {t("progress.deleteTitle")}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -12,6 +12,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, AlertTriangle, RotateCcw } from "lucide-react";
 import { useResetProgress } from "@/hooks/use-progress";
 import { toast } from "sonner";
+import { useTranslation } from "@/hooks/use-translation";
 
 interface ResetProgressDialogProps {
   isOpen: boolean;
@@ -30,6 +31,7 @@ export function ResetProgressDialog({
   userName,
   courseName,
 }: ResetProgressDialogProps) {
+  const { t } = useTranslation();
   const [confirmed, setConfirmed] = useState(false);
   const resetProgressMutation = useResetProgress();
 
@@ -39,11 +41,11 @@ export function ResetProgressDialog({
         enrollmentId,
         data: { userId },
       });
-      toast.success("Progress reset successfully");
+      toast.success(t("toast.progressReset"));
       setConfirmed(false);
       onClose();
     } catch (error) {
-      toast.error("Failed to reset progress");
+      toast.error(t("toast.progressResetFailed"));
     }
   };
 
@@ -60,10 +62,10 @@ export function ResetProgressDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <RotateCcw className="h-5 w-5 text-orange-500" />
-            Reset Progress
+            {t("progress.resetTitle")}
           </DialogTitle>
           <DialogDescription>
-            This action will reset all progress for this user in this course.
+            {t("progress.resetDescription")}
           </DialogDescription>
         </DialogHeader>
 
@@ -71,21 +73,21 @@ export function ResetProgressDialog({
           <Alert>
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              <strong>Warning:</strong> This will:
+              <strong>{t("common.warning")}</strong> {t("progress.resetWarning")}
               <ul className="list-disc list-inside mt-2 space-y-1 text-sm">
-                <li>Reset all lesson completion status</li>
-                <li>Clear all video watch progress</li>
-                <li>Reset time spent to zero</li>
-                <li>Remove course completion status</li>
-                <li>Preserve enrollment data</li>
+                <li>{t("progress.resetLessons")}</li>
+                <li>{t("progress.resetVideos")}</li>
+                <li>{t("progress.resetTime")}</li>
+                <li>{t("progress.resetCompletion")}</li>
+                <li>{t("progress.resetKeepsEnrollment")}</li>
               </ul>
             </AlertDescription>
           </Alert>
 
           {userName && courseName && (
             <div className="bg-gray-50 p-3 rounded-md text-sm">
-              <p><strong>User:</strong> {userName}</p>
-              <p><strong>Course:</strong> {courseName}</p>
+              <p><strong>{t("common.userLabel")}</strong> {userName}</p>
+              <p><strong>{t("common.courseLabel")}</strong> {courseName}</p>
             </div>
           )}
 
@@ -99,7 +101,7 @@ export function ResetProgressDialog({
                 className="h-4 w-4"
               />
               <label htmlFor="confirm-reset" className="text-sm cursor-pointer">
-                I understand this action will reset all progress
+                {t("progress.resetConfirm")}
               </label>
             </div>
           )}
@@ -112,7 +114,7 @@ export function ResetProgressDialog({
             onClick={handleClose}
             disabled={resetProgressMutation.isPending}
           >
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button
             type="button"
@@ -123,7 +125,7 @@ export function ResetProgressDialog({
             {resetProgressMutation.isPending && (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             )}
-            Reset Progress
+            {t("progress.resetTitle")}
           </Button>
         </DialogFooter>
       </DialogContent>
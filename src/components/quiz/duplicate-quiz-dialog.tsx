@@ -33,14 +33,15 @@ import { useCourses } from "@/hooks/use-courses";
 import { useTopics } from "@/hooks/use-topics";
 import { useLessons } from "@/hooks/use-lessons";
 import { useFreeCourses } from "@/hooks/use-free-courses";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import { QUIZ_ENTITY_SELECT_LABELS } from "@/lib/quizzes";
 import type { Quiz } from "@/types/api";
 
 // Form schema
 const duplicateQuizSchema = z.object({
-  quizType: z.enum(["course", "topic", "lesson", "freeCourse", "section"], {
-    required_error: "Quiz type is required",
-  }),
-  entityId: z.string().min(1, "Entity is required"),
+  quizType: z.enum(["course", "topic", "lesson", "freeCourse", "section"]),
+  entityId: z.string().min(1),
   newTitle: z
     .object({
       en: z.string().optional(),
@@ -63,6 +64,8 @@ export function DuplicateQuizDialog({
   onClose,
   quiz,
 }: DuplicateQuizDialogProps) {
+  const { t } = useTranslation();
+  const localizeText = useLocalizedText();
   const [selectedCourse, setSelectedCourse] = useState<string>("");
   const [selectedTopic, setSelectedTopic] = useState<string>("");
 
@@ -152,11 +155,8 @@ export function DuplicateQuizDialog({
     }
   };
 
-  const getEntityName = (entity: any) => {
-    if (typeof entity.name === "string") return entity.name;
-    if (typeof entity.title === "string") return entity.title;
-    return entity.name?.en || entity.title?.en || "Unnamed";
-  };
+  const getEntityName = (entity: any) =>
+    localizeText(entity.name ?? entity.title, t("quizzes.unnamed"));
 
   const quizType = form.watch("quizType");
 
@@ -166,13 +166,13 @@ export function DuplicateQuizDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Copy className="h-5 w-5" />
-            Duplicate Quiz
+            {t("quizzes.duplicate")}
           </DialogTitle>
           <DialogDescription>
-            Create a copy of this quiz and attach it to a different entity.
+            {t("quizzes.duplicateDescription")}
             {quiz && (
               <span className="block mt-2 text-sm font-medium text-foreground">
-                Source Quiz: {typeof quiz.title === "string" ? quiz.title : quiz.title?.en}
+                {t("quizzes.sourceQuiz", { title: localizeText(quiz.title) })}
               </span>
             )}
           </DialogDescription>
@@ -186,7 +186,7 @@ export function DuplicateQuizDialog({
               name="quizType"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Target Quiz Type</FormLabel>
+                  <FormLabel>{t("quizzes.targetType")}</FormLabel>
                   <Select
                     value={field.value}
                     onValueChange={(value) => {
@@ -198,15 +198,25 @@ export function DuplicateQuizDialog({
                   >
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select quiz type" />
+                        <SelectValue placeholder={t("quizzes.selectType")} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="course">Course Quiz</SelectItem>
-                      <SelectItem value="topic">Topic Quiz</SelectItem>
-                      <SelectItem value="lesson">Lesson Quiz</SelectItem>
-                      <SelectItem value="freeCourse">Free Course Quiz</SelectItem>
-                      <SelectItem value="section">Section Quiz</SelectItem>
+                      <SelectItem value="course">
+                        {t("quizzes.courseQuiz")}
+                      </SelectItem>
+                      <SelectItem value="topic">
+                        {t("quizzes.topicQuiz")}
+                      </SelectItem>
+                      <SelectItem value="lesson">
+                        {t("quizzes.lessonQuiz")}
+                      </SelectItem>
+                      <SelectItem value="freeCourse">
+                        {t("quizzes.freeCourseQuiz")}
+                      </SelectItem>
+                      <SelectItem value="section">
+                        {t("quizzes.sectionQuiz")}
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -218,7 +228,7 @@ export function DuplicateQuizDialog({
             {(quizType === "topic" || quizType === "lesson") && (
               <div className="space-y-4">
                 <div>
-                  <FormLabel>Select Course</FormLabel>
+                  <FormLabel>{t("quizzes.selectCourse")}</FormLabel>
                   <Select
                     value={selectedCourse}
                     onValueChange={(value) => {
@@ -228,7 +238,7 @@ export function DuplicateQuizDialog({
                     }}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select course" />
+                      <SelectValue placeholder={t("quizzes.selectCourse")} />
                     </SelectTrigger>
                     <SelectContent>
                       {coursesData?.data?.items.map((course) => (
@@ -245,7 +255,7 @@ export function DuplicateQuizDialog({
             {/* Topic Selection (for lesson) */}
             {quizType === "lesson" && selectedCourse && (
               <div>
-                <FormLabel>Select Topic</FormLabel>
+                <FormLabel>{t("quizzes.selectTopic")}</FormLabel>
                 <Select
                   value={selectedTopic}
                   onValueChange={(value) => {
@@ -254,7 +264,7 @@ export function DuplicateQuizDialog({
                   }}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select topic" />
+                    <SelectValue placeholder={t("quizzes.selectTopic")} />
                   </SelectTrigger>
                   <SelectContent>
                     {topicsData?.data?.items.map((topic) => (
@@ -275,14 +285,7 @@ export function DuplicateQuizDialog({
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>
-                      Select{" "}
-                      {quizType === "course"
-                        ? "Course"
-                        : quizType === "topic"
-                        ? "Topic"
-                        : quizType === "lesson"
-                        ? "Lesson"
-                        : "Free Course"}
+                      {t(QUIZ_ENTITY_SELECT_LABELS[quizType])}
                     </FormLabel>
                     <Select
                       value={field.value}
@@ -294,7 +297,9 @@ export function DuplicateQuizDialog({
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder={`Select ${quizType}`} />
+                          <SelectValue
+                            placeholder={t(QUIZ_ENTITY_SELECT_LABELS[quizType])}
+                          />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
@@ -314,7 +319,7 @@ export function DuplicateQuizDialog({
             {/* Optional New Title */}
             <div className="space-y-4 pt-4 border-t">
               <div className="text-sm font-medium">
-                Optional: Change Quiz Title
+                {t("quizzes.changeTitle")}
               </div>
 
               <FormField
@@ -322,9 +327,12 @@ export function DuplicateQuizDialog({
                 name="newTitle.en"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>English Title</FormLabel>
+                    <FormLabel>{t("quizzes.englishTitle")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Leave empty to keep original" {...field} />
+                      <Input
+                        placeholder={t("quizzes.keepOriginal")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -336,9 +344,12 @@ export function DuplicateQuizDialog({
                 name="newTitle.ar"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Arabic Title (Optional)</FormLabel>
+                    <FormLabel>{t("quizzes.arabicTitleOptional")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Leave empty to keep original" {...field} />
+                      <Input
+                        placeholder={t("quizzes.keepOriginal")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -350,9 +361,12 @@ export function DuplicateQuizDialog({
                 name="newTitle.he"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Hebrew Title (Optional)</FormLabel>
+                    <FormLabel>{t("quizzes.hebrewTitleOptional")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Leave empty to keep original" {...field} />
+                      <Input
+                        placeholder={t("quizzes.keepOriginal")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -367,7 +381,7 @@ export function DuplicateQuizDialog({
                 onClick={onClose}
                 disabled={duplicateQuizMutation.isPending}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 type="submit"
@@ -376,7 +390,7 @@ export function DuplicateQuizDialog({
                 {duplicateQuizMutation.isPending && (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 )}
-                Duplicate Quiz
+                {t("quizzes.duplicate")}
               </Button>
             </DialogFooter>
           </form>
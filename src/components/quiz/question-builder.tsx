@@ -3,7 +3,6 @@ import { Plus, Trash2, GripVertical, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
@@ -13,7 +12,9 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
-import type { Question, QuestionType } from "@/types/api";
+import { LocalizedField } from "@/components/shared/localized-field";
+import { useTranslation } from "@/hooks/use-translation";
+import type { LocalizedText, Question, QuestionType } from "@/types/api";
 
 interface QuestionBuilderProps {
   questions: Question[];
@@ -21,6 +22,7 @@ interface QuestionBuilderProps {
 }
 
 export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
+  const { t } = useTranslation();
   const [expandedQuestion, setExpandedQuestion] = useState<string>("");
 
   const addQuestion = () => {
@@ -52,35 +54,6 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
     onChange(updated);
   };
 
-  const updateQuestionText = (
-    index: number,
-    lang: "en" | "ar" | "he",
-    value: string
-  ) => {
-    const updated = [...questions];
-    updated[index] = {
-      ...updated[index],
-      question: { ...updated[index].question, [lang]: value },
-    };
-    onChange(updated);
-  };
-
-  const updateExplanation = (
-    index: number,
-    lang: "en" | "ar" | "he",
-    value: string
-  ) => {
-    const updated = [...questions];
-    updated[index] = {
-      ...updated[index],
-      explanation: {
-        ...(updated[index].explanation || { en: "" }),
-        [lang]: value,
-      },
-    };
-    onChange(updated);
-  };
-
   const addOption = (questionIndex: number) => {
     const updated = [...questions];
     const question = updated[questionIndex];
@@ -108,12 +81,11 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
   const updateOption = (
     questionIndex: number,
     optionIndex: number,
-    lang: "en" | "ar" | "he",
-    value: string
+    text: LocalizedText
   ) => {
     const updated = [...questions];
     const option = updated[questionIndex].options[optionIndex];
-    option.text = { ...option.text, [lang]: value };
+    option.text = text;
     onChange(updated);
   };
 
@@ -146,10 +118,10 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
   if (questions.length === 0) {
     return (
       <div className="text-center py-12 border-2 border-dashed rounded-lg">
-        <p className="text-gray-500 mb-4">No questions added yet</p>
+        <p className="text-gray-500 mb-4">{t("quizzes.noQuestions")}</p>
         <Button onClick={addQuestion}>
           <Plus className="h-4 w-4 mr-2" />
-          Add First Question
+          {t("quizzes.addFirstQuestion")}
         </Button>
       </div>
     );
@@ -194,15 +166,18 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
                     <div className="flex items-center gap-3 text-left">
                       <GripVertical className="h-4 w-4 text-gray-400" />
                       <span className="font-medium">
-                        Question {qIndex + 1}
+                        {t("quizzes.questionNumber", { number: qIndex + 1 })}
                         {question.question.en &&
                           `: ${question.question.en.substring(0, 50)}${
                             question.question.en.length > 50 ? "..." : ""
                           }`}
                       </span>
                       <span className="text-sm text-gray-500">
-                        ({question.points} point
-                        {question.points !== 1 ? "s" : ""})
+                        (
+                        {question.points === 1
+                          ? t("quizzes.onePoint")
+                          : t("quizzes.pointCount", { count: question.points })}
+                        )
                       </span>
                     </div>
                   </AccordionTrigger>
@@ -219,42 +194,21 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
                 <AccordionContent>
                   <div className="p-4 pt-0 space-y-4">
                     {/* Question Text */}
-                    <div>
-                      <Label>Question Text *</Label>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
-                        <div>
-                          <Input
-                            placeholder="English *"
-                            value={question.question.en}
-                            onChange={(e) =>
-                              updateQuestionText(qIndex, "en", e.target.value)
-                            }
-                          />
-                        </div>
-                        <div>
-                          <Input
-                            placeholder="Arabic"
-                            value={question.question.ar || ""}
-                            onChange={(e) =>
-                              updateQuestionText(qIndex, "ar", e.target.value)
-                            }
-                          />
-                        </div>
-                        <div>
-                          <Input
-                            placeholder="Hebrew"
-                            value={question.question.he || ""}
-                            onChange={(e) =>
-                              updateQuestionText(qIndex, "he", e.target.value)
-                            }
-                          />
-                        </div>
-                      </div>
-                    </div>
+                    <LocalizedField
+                      name={`questions.${qIndex}.question`}
+                      label={t("quizzes.questionText")}
+                      placeholder={t("quizzes.questionPlaceholder")}
+                      value={question.question}
+                      onChange={(value) =>
+                        updateQuestion(qIndex, "question", value)
+                      }
+                    />
 
                     {/* Points */}
                     <div>
-                      <Label htmlFor={`points-${qIndex}`}>Points</Label>
+                      <Label htmlFor={`points-${qIndex}`}>
+                        {t("quizzes.points")}
+                      </Label>
                       <Input
                         id={`points-${qIndex}`}
                         type="number"
@@ -277,7 +231,7 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
                     {/* Options */}
                     <div>
                       <div className="flex justify-between items-center mb-2">
-                        <Label>Answer Options *</Label>
+                        <Label>{t("quizzes.answerOptions")}</Label>
                         <Button
                           type="button"
                           variant="outline"
@@ -286,7 +240,7 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
                           disabled={question.options.length >= 6}
                         >
                           <Plus className="h-4 w-4 mr-2" />
-                          Add Option
+                          {t("quizzes.addOption")}
                         </Button>
                       </div>
 
@@ -304,48 +258,21 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
                               className="mt-2"
                             />
                             <div className="flex-1 space-y-2">
-                              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-                                <Input
-                                  placeholder="Option (English) *"
-                                  value={option.text.en}
-                                  onChange={(e) =>
-                                    updateOption(
-                                      qIndex,
-                                      oIndex,
-                                      "en",
-                                      e.target.value
-                                    )
-                                  }
-                                />
-                                <Input
-                                  placeholder="Option (Arabic)"
-                                  value={option.text.ar || ""}
-                                  onChange={(e) =>
-                                    updateOption(
-                                      qIndex,
-                                      oIndex,
-                                      "ar",
-                                      e.target.value
-                                    )
-                                  }
-                                />
-                                <Input
-                                  placeholder="Option (Hebrew)"
-                                  value={option.text.he || ""}
-                                  onChange={(e) =>
-                                    updateOption(
-                                      qIndex,
-                                      oIndex,
-                                      "he",
-                                      e.target.value
-                                    )
-                                  }
-                                />
-                              </div>
+                              <LocalizedField
+                                name={`questions.${qIndex}.options.${oIndex}`}
+                                label={t("quizzes.optionNumber", {
+                                  number: oIndex + 1,
+                                })}
+                                placeholder={t("quizzes.optionPlaceholder")}
+                                value={option.text}
+                                onChange={(value) =>
+                                  updateOption(qIndex, oIndex, value)
+                                }
+                              />
                               {option.isCorrect && (
                                 <div className="flex items-center gap-2 text-sm text-green-600">
                                   <Check className="h-4 w-4" />
-                                  Correct Answer
+                                  {t("quizzes.correctAnswer")}
                                 </div>
                               )}
                             </div>
@@ -362,42 +289,24 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
                         ))}
                       </div>
                       <p className="text-sm text-gray-500 mt-2">
-                        Check the box next to correct answer(s)
+                        {t("quizzes.correctAnswerHelp")}
                       </p>
                     </div>
 
                     <Separator />
 
                     {/* Explanation */}
-                    <div>
-                      <Label>Explanation (Optional)</Label>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
-                        <Textarea
-                          placeholder="English"
-                          value={question.explanation?.en || ""}
-                          onChange={(e) =>
-                            updateExplanation(qIndex, "en", e.target.value)
-                          }
-                          rows={2}
-                        />
-                        <Textarea
-                          placeholder="Arabic"
-                          value={question.explanation?.ar || ""}
-                          onChange={(e) =>
-                            updateExplanation(qIndex, "ar", e.target.value)
-                          }
-                          rows={2}
-                        />
-                        <Textarea
-                          placeholder="Hebrew"
-                          value={question.explanation?.he || ""}
-                          onChange={(e) =>
-                            updateExplanation(qIndex, "he", e.target.value)
-                          }
-                          rows={2}
-                        />
-                      </div>
-                    </div>
+                    <LocalizedField
+                      name={`questions.${qIndex}.explanation`}
+                      label={t("quizzes.explanation")}
+                      placeholder={t("quizzes.explanationPlaceholder")}
+                      editor="textarea"
+                      required={false}
+                      value={question.explanation}
+                      onChange={(value) =>
+                        updateQuestion(qIndex, "explanation", value)
+                      }
+                    />
                   </div>
                 </AccordionContent>
               </Card>
@@ -408,7 +317,7 @@ export function QuestionBuilder({ questions, onChange }: QuestionBuilderProps) {
 
       <Button type="button" onClick={addQuestion} className="w-full">
         <Plus className="h-4 w-4 mr-2" />
-        Add Question
+        {t("quizzes.addQuestion")}
       </Button>
     </div>
   );
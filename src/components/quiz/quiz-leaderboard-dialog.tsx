@@ -0,0 +1,214 @@
+import { useMemo, useState } from "react";
+import { Trophy } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExportButton } from "@/components/shared/export-button";
+import { useQuizLeaderboard } from "@/hooks/use-quizzes";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import { quizService } from "@/services/quiz-service";
+import {
+  FULL_LIST_EXPORT_LIMIT,
+  singlePageSource,
+} from "@/services/export-service";
+import { formatExportDate, localize, type ExportColumn } from "@/lib/export";
+import { translate } from "@/i18n";
+import type { Quiz, QuizLeaderboardEntry } from "@/types/api";
+
+interface QuizLeaderboardDialogProps {
+  quiz: Quiz | null;
+  onClose: () => void;
+}
+
+export function QuizLeaderboardDialog({
+  quiz,
+  onClose,
+}: QuizLeaderboardDialogProps) {
+  const { t, language } = useTranslation();
+  const localizeText = useLocalizedText();
+  const [limit, setLimit] = useState(10);
+  const { data, isLoading } = useQuizLeaderboard(quiz?._id || "", limit);
+  const entries = data?.data || [];
+
+  // Ranks follow the order returned by the API
+  const exportColumns = useMemo<ExportColumn<QuizLeaderboardEntry>[]>(
+    () => [
+      {
+        key: "quiz",
+        label: "quizLeaderboard.quiz",
+        value: (_, language) => localize(quiz?.title, language),
+        defaultSelected: false,
+      },
+      {
+        key: "student",
+        label: "common.student",
+        value: (entry) => entry.userId?.fullName,
+      },
+      { key: "email", label: "common.email", value: (entry) => entry.userId?.email },
+      { key: "bestScore", label: "quizLeaderboard.bestScore", value: (entry) => entry.bestScore },
+      {
+        key: "bestPercentage",
+        label: "quizLeaderboard.bestPercent",
+        value: (entry) => entry.bestPercentage,
+      },
+      {
+        key: "totalAttempts",
+        label: "quizLeaderboard.attempts",
+        value: (entry) => entry.totalAttempts,
+      },
+      {
+        key: "isPassed",
+        label: "quizLeaderboard.passed",
+        value: (entry, language) =>
+          translate(language, entry.isPassed ? "common.yes" : "common.no"),
+      },
+      {
+        key: "lastAttemptAt",
+        label: "quizLeaderboard.lastAttempt",
+        value: (entry) => formatExportDate(entry.lastAttemptAt),
+      },
+    ],
+    [quiz]
+  );
+
+  const fetchExportPage = useMemo(
+    () =>
+      singlePageSource(async () => {
+        if (!quiz) return [];
+        const response = await quizService.getQuizLeaderboard(
+          quiz._id,
+          FULL_LIST_EXPORT_LIMIT
+        );
+        return response.data || [];
+      }),
+    [quiz]
+  );
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[750px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5 text-yellow-500" />
+            {t("quizLeaderboard.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("quizLeaderboard.description", {
+              title: localizeText(quiz?.title, t("quizzes.untitled")),
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-end gap-2">
+          <ExportButton
+            resource="quizzes"
+            name="quiz-leaderboard"
+            size="sm"
+            columns={exportColumns}
+            fetchPage={fetchExportPage}
+          />
+          <Select
+            value={limit.toString()}
+            onValueChange={(value) => setLimit(parseInt(value))}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[10, 25, 50, 100].map((count) => (
+                <SelectItem key={count} value={count.toString()}>
+                  {t("common.top", { count })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">{t("leaderboard.rank")}</TableHead>
+                <TableHead>{t("common.student")}</TableHead>
+                <TableHead>{t("quizLeaderboard.bestScore")}</TableHead>
+                <TableHead>{t("quizLeaderboard.attempts")}</TableHead>
+                <TableHead>{t("common.status")}</TableHead>
+                <TableHead>{t("quizLeaderboard.lastAttempt")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    <TableCell colSpan={6}>
+                      <Skeleton className="h-6" />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    {t("quizLeaderboard.noAttempts")}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry, index) => (
+                  <TableRow key={entry.userId?._id || index}>
+                    <TableCell className="font-bold text-gray-500">
+                      #{index + 1}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.userId?.fullName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.userId?.email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {entry.bestScore} ({entry.bestPercentage}%)
+                    </TableCell>
+                    <TableCell>{entry.totalAttempts}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.isPassed ? "default" : "secondary"}>
+                        {entry.isPassed
+                          ? t("quizLeaderboard.passed")
+                          : t("quizLeaderboard.notPassed")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(entry.lastAttemptAt).toLocaleDateString(
+                        language,
+                        { year: "numeric", month: "short", day: "2-digit" }
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { cloneElement, isValidElement, type ReactNode } from "react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { getPermissionName, useHasPermission } from "@/hooks/use-authorization";
+import { useTranslation } from "@/hooks/use-translation";
+import type { PermissionAction, PermissionResource } from "@/types/api";
+
+interface CanProps {
+  action: PermissionAction;
+  resource: PermissionResource;
+  children: ReactNode;
+  // "hide" renders the fallback, "disable" keeps the child visible but disabled
+  mode?: "hide" | "disable";
+  fallback?: ReactNode;
+}
+
+export function Can({
+  action,
+  resource,
+  children,
+  mode = "hide",
+  fallback = null,
+}: CanProps) {
+  const allowed = useHasPermission(action, resource);
+  const { t } = useTranslation();
+
+  if (allowed) {
+    return <>{children}</>;
+  }
+
+  if (mode === "hide" || !isValidElement<{ disabled?: boolean }>(children)) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        {/* Disabled buttons swallow pointer events, so the wrapper hosts the tooltip */}
+        <span tabIndex={0} className="inline-flex cursor-not-allowed">
+          {cloneElement(children, { disabled: true })}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        {t("permissions.missing", {
+          permission: `${action} ${resource.replace(/_/g, " ")}`,
+          name: getPermissionName(action, resource),
+        })}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
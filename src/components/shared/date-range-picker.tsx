@@ -0,0 +1,83 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DATE_RANGE_PRESETS,
+  getPresetRange,
+  type DateRange,
+} from "@/lib/date-range";
+import { useTranslation } from "@/hooks/use-translation";
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const { t } = useTranslation();
+  const activePreset =
+    DATE_RANGE_PRESETS.find((p) => {
+      const range = getPresetRange(p.value);
+      return (
+        range.startDate === value.startDate && range.endDate === value.endDate
+      );
+    })?.value || "custom";
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label>{t("dateRange.range")}</Label>
+        <Select
+          value={activePreset}
+          onValueChange={(preset) => {
+            if (preset !== "custom") onChange(getPresetRange(preset));
+          }}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_RANGE_PRESETS.map((preset) => (
+              <SelectItem key={preset.value} value={preset.value}>
+                {t(preset.label)}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">{t("dateRange.custom")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="range-start">{t("dateRange.from")}</Label>
+        <Input
+          id="range-start"
+          type="date"
+          value={value.startDate}
+          max={value.endDate}
+          onChange={(e) =>
+            e.target.value && onChange({ ...value, startDate: e.target.value })
+          }
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="range-end">{t("dateRange.to")}</Label>
+        <Input
+          id="range-end"
+          type="date"
+          value={value.endDate}
+          min={value.startDate}
+          onChange={(e) =>
+            e.target.value && onChange({ ...value, endDate: e.target.value })
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { useExport } from "@/hooks/use-export";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  EXPORT_LANGUAGES,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportLanguage,
+} from "@/lib/export";
+import type { ExportPageFetcher } from "@/services/export-service";
+import type { PermissionResource } from "@/types/api";
+
+interface ExportButtonProps<T> {
+  // Export is only offered with the export_<resource> permission
+  resource: PermissionResource;
+  // Base file and sheet name, e.g. "users"
+  name: string;
+  title?: string;
+  columns: ExportColumn<T>[];
+  fetchPage: ExportPageFetcher<T>;
+  size?: "default" | "sm";
+}
+
+export function ExportButton<T>({
+  resource,
+  name,
+  title,
+  columns,
+  fetchPage,
+  size = "default",
+}: ExportButtonProps<T>) {
+  const canExport = useHasPermission("export", resource);
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [language, setLanguage] = useState<ExportLanguage>("en");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() =>
+    columns
+      .filter((column) => column.defaultSelected !== false)
+      .map((column) => column.key)
+  );
+
+  const { runExport, cancel, progress, isExporting } = useExport(fetchPage);
+
+  if (!canExport) return null;
+
+  const dialogTitle = title || t("export.title");
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedKeys((prev) =>
+      checked ? [...prev, key] : prev.filter((k) => k !== key)
+    );
+  };
+
+  const handleExport = async () => {
+    try {
+      const count = await runExport({
+        // Keep the column order from the definition, not the click order
+        columns: columns.filter((column) => selectedKeys.includes(column.key)),
+        format,
+        language,
+        name,
+      });
+      toast.success(t("export.success", { count }));
+      setOpen(false);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        toast.info(t("export.cancelled"));
+        return;
+      }
+      toast.error(error instanceof Error ? error.message : t("export.failed"));
+    }
+  };
+
+  const percent =
+    progress?.total && progress.total > 0
+      ? Math.round((progress.loaded / progress.total) * 100)
+      : undefined;
+
+  return (
+    <>
+      <Button variant="outline" size={size} onClick={() => setOpen(true)}>
+        <Download className="h-4 w-4 me-2" />
+        {dialogTitle}
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          if (isExporting) return;
+          setOpen(value);
+        }}
+      >
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{dialogTitle}</DialogTitle>
+            <DialogDescription>{t("export.description")}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t("export.format")}</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as ExportFormat)}
+                disabled={isExporting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="csv">CSV (.csv)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("export.language")}</Label>
+              <Select
+                value={language}
+                onValueChange={(value) => setLanguage(value as ExportLanguage)}
+                disabled={isExporting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_LANGUAGES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {t(option.label)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t("export.columns")}</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={isExporting}
+                onClick={() =>
+                  setSelectedKeys(
+                    selectedKeys.length === columns.length
+                      ? []
+                      : columns.map((column) => column.key)
+                  )
+                }
+              >
+                {selectedKeys.length === columns.length
+                  ? t("export.clearAll")
+                  : t("export.selectAll")}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-lg border p-3 max-h-60 overflow-y-auto">
+              {columns.map((column) => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${name}-${column.key}`}
+                    checked={selectedKeys.includes(column.key)}
+                    disabled={isExporting}
+                    onCheckedChange={(checked) =>
+                      toggleColumn(column.key, checked === true)
+                    }
+                  />
+                  <label
+                    htmlFor={`export-${name}-${column.key}`}
+                    className="text-sm cursor-pointer"
+                  >
+                    {t(column.label)}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isExporting && (
+            <div className="space-y-2">
+              <Progress value={percent ?? 0} />
+              <p className="text-xs text-muted-foreground">
+                {progress?.total
+                  ? t("export.fetchedOf", {
+                      loaded: progress.loaded,
+                      total: progress.total,
+                    })
+                  : t("export.fetched", { loaded: progress?.loaded ?? 0 })}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            {isExporting ? (
+              <Button variant="outline" onClick={cancel}>
+                {t("export.cancel")}
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                {t("common.close")}
+              </Button>
+            )}
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || selectedKeys.length === 0}
+            >
+              <Download className="h-4 w-4 me-2" />
+              {isExporting ? t("export.exporting") : t("export.title")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react"
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Loader2,
+  RotateCcw,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import {
+  useAttachedFilePreviewUrl,
+  useAttachedFileText,
+} from "@/hooks/use-attached-files"
+import { useLocalizedText } from "@/hooks/use-localized-text"
+import { useTranslation } from "@/hooks/use-translation"
+import type { TranslationKey } from "@/i18n"
+import { getFileExtension } from "@/lib/upload-validation"
+import { type AttachedFile } from "@/services/attached-files-service"
+
+type PreviewKind =
+  | "pdf"
+  | "image"
+  | "video"
+  | "audio"
+  | "text"
+  | "office"
+  | "none"
+
+const PREVIEW_KIND_LABELS: Record<PreviewKind, TranslationKey> = {
+  pdf: "filePreview.pdf",
+  image: "filePreview.image",
+  video: "filePreview.video",
+  audio: "filePreview.audio",
+  text: "filePreview.text",
+  office: "filePreview.office",
+  none: "filePreview.untitled",
+}
+
+const TEXT_EXTENSIONS = ["txt", "csv", "json", "md", "log", "xml"]
+// Office documents are recognised but not rendered: previewing them would
+// mean handing the presigned URL to a third-party viewer
+const OFFICE_EXTENSIONS = ["doc", "docx", "xls", "xlsx", "ppt", "pptx"]
+
+const ZOOM_STEP = 0.25
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 4
+
+const getPreviewKind = (file: AttachedFile): PreviewKind => {
+  const extension =
+    file.fileExtension?.replace(".", "").toLowerCase() ||
+    getFileExtension(file.fileUrl.split("?")[0])
+
+  if (file.fileType === "application/pdf" || extension === "pdf") return "pdf"
+  if (file.isImage || file.fileType.startsWith("image/")) return "image"
+  if (file.isVideo || file.fileType.startsWith("video/")) return "video"
+  if (file.fileType.startsWith("audio/")) return "audio"
+  if (file.fileType.startsWith("text/") || TEXT_EXTENSIONS.includes(extension)) {
+    return "text"
+  }
+  if (OFFICE_EXTENSIONS.includes(extension)) return "office"
+  return "none"
+}
+
+interface FilePreviewSheetProps {
+  files: AttachedFile[]
+  // Index of the previewed file; null closes the sheet
+  index: number | null
+  onIndexChange: (index: number | null) => void
+  onDownload?: (file: AttachedFile) => void
+}
+
+/**
+ * Side sheet previewing an entity's attached files in the browser, with
+ * next/previous navigation across the list
+ */
+export function FilePreviewSheet({
+  files,
+  index,
+  onIndexChange,
+  onDownload,
+}: FilePreviewSheetProps) {
+  const { t } = useTranslation()
+  const localizeText = useLocalizedText()
+  const file = index !== null ? files[index] ?? null : null
+  const kind = file ? getPreviewKind(file) : "none"
+  const { url, isLoading, isError } = useAttachedFilePreviewUrl(file)
+
+  const [zoom, setZoom] = useState(1)
+  const textQuery = useAttachedFileText(url, kind === "text")
+
+  const hasPrevious = index !== null && index > 0
+  const hasNext = index !== null && index < files.length - 1
+
+  // Every file starts at its original size
+  useEffect(() => {
+    setZoom(1)
+  }, [file?._id])
+
+  useEffect(() => {
+    if (index === null) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (["INPUT", "TEXTAREA", "VIDEO", "AUDIO"].includes(target.tagName)) {
+        return
+      }
+      if (event.key === "ArrowLeft" && index > 0) {
+        onIndexChange(index - 1)
+      } else if (event.key === "ArrowRight" && index < files.length - 1) {
+        onIndexChange(index + 1)
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [index, files.length, onIndexChange])
+
+  const renderMessage = (message: string) => (
+    <div className="flex h-full flex-col items-center justify-center gap-3 text-center text-sm text-muted-foreground">
+      <p>{message}</p>
+      {file && onDownload && (
+        <Button variant="outline" size="sm" onClick={() => onDownload(file)}>
+          <Download className="h-4 w-4 mr-2" />
+          {t("common.download")}
+        </Button>
+      )}
+    </div>
+  )
+
+  const renderPreview = () => {
+    if (!file) return null
+    if (isLoading) {
+      return (
+        <div className="flex h-full items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )
+    }
+    if (isError || !url) return renderMessage(t("filePreview.loadFailed"))
+
+    const name = localizeText(file.name, t("filePreview.untitled"))
+
+    switch (kind) {
+      case "pdf":
+        return (
+          // Paged with the browser viewer's own controls, which know where
+          // the document ends; the cross-origin frame cannot tell us
+          <iframe
+            src={url}
+            title={name}
+            className="h-full w-full rounded-md border"
+          />
+        )
+      case "image":
+        return (
+          <div className="h-full overflow-auto rounded-md border bg-muted/30">
+            <img
+              src={url}
+              alt={name}
+              className="mx-auto max-w-none origin-top-left"
+              style={{ width: `${zoom * 100}%` }}
+            />
+          </div>
+        )
+      case "video":
+        return (
+          <video
+            src={url}
+            controls
+            className="max-h-full w-full rounded-md bg-black"
+          />
+        )
+      case "audio":
+        return (
+          <div className="flex h-full items-center justify-center">
+            <audio src={url} controls className="w-full" />
+          </div>
+        )
+      case "text":
+        if (textQuery.isLoading) {
+          return (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )
+        }
+        if (textQuery.isError || !textQuery.data) {
+          return renderMessage(t("filePreview.contentsFailed"))
+        }
+        return (
+          <div className="h-full overflow-auto rounded-md border bg-muted/30">
+            <pre className="whitespace-pre-wrap break-words p-4 font-mono text-xs">
+              {textQuery.data.text}
+            </pre>
+            {textQuery.data.truncated && (
+              <p className="border-t p-3 text-xs text-muted-foreground">
+                {t("filePreview.truncated")}
+              </p>
+            )}
+          </div>
+        )
+      case "office":
+        return renderMessage(t("filePreview.officeUnavailable"))
+      default:
+        return renderMessage(t("filePreview.unavailable"))
+    }
+  }
+
+  const renderToolbar = () => {
+    if (kind === "image") {
+      return (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            title={t("filePreview.zoomOut")}
+            disabled={zoom <= MIN_ZOOM}
+            onClick={() => setZoom(Math.max(MIN_ZOOM, zoom - ZOOM_STEP))}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="min-w-12 text-center text-sm">
+            {Math.round(zoom * 100)}%
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            title={t("filePreview.zoomIn")}
+            disabled={zoom >= MAX_ZOOM}
+            onClick={() => setZoom(Math.min(MAX_ZOOM, zoom + ZOOM_STEP))}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t("filePreview.resetZoom")}
+            onClick={() => setZoom(1)}
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    }
+    return <div />
+  }
+
+  return (
+    <Sheet
+      open={!!file}
+      onOpenChange={(open) => {
+        if (!open) onIndexChange(null)
+      }}
+    >
+      <SheetContent className="w-full gap-0 sm:max-w-3xl">
+        {file && (
+          <>
+            <SheetHeader className="border-b pe-12">
+              <SheetTitle className="truncate">
+                {localizeText(file.name, t("filePreview.untitled"))}
+              </SheetTitle>
+              <SheetDescription>
+                {t(PREVIEW_KIND_LABELS[kind])} ·{" "}
+                {t("filePreview.position", {
+                  index: index! + 1,
+                  total: files.length,
+                })}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="flex items-center justify-between gap-2 border-b px-4 py-2">
+              {renderToolbar()}
+              {onDownload && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDownload(file)}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {t("common.download")}
+                </Button>
+              )}
+            </div>
+
+            <div className="min-h-0 flex-1 p-4">{renderPreview()}</div>
+
+            <div className="flex items-center justify-between border-t px-4 py-3">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!hasPrevious}
+                onClick={() => onIndexChange(index! - 1)}
+              >
+                <ChevronLeft className="h-4 w-4 mr-2" />
+                {t("common.previous")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!hasNext}
+                onClick={() => onIndexChange(index! + 1)}
+              >
+                {t("common.next")}
+                <ChevronRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  RefreshCw,
+  VideoOff,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  usePresignedVideoUrl,
+  useVideoUrlProbe,
+} from "@/hooks/use-videos-library";
+import {
+  getMediaErrorMessage,
+  getPresignedUrlExpiry,
+  isPlayableUrl,
+  LESSON_VIDEO_TRACKS,
+  type LessonVideoSource,
+  type LessonVideoTracks,
+} from "@/lib/lesson-video";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/video-metadata";
+import type { VideoType } from "@/types/api";
+
+type TrackStatus = "missing" | "loading" | "ok" | "expired" | "broken";
+
+interface TrackState {
+  status: TrackStatus;
+  playUrl?: string;
+  duration?: number;
+  error?: string;
+  expiresAt: Date | null;
+  // Playing a URL signed now instead of the one stored on the lesson
+  isFreshUrl: boolean;
+  canUseFreshUrl: boolean;
+}
+
+// Resolves what a track plays and whether it works. The stored URL is what
+// students are served; a fresh library URL is only used when asked for or
+// when the stored one has expired.
+function useTrackState(
+  source: LessonVideoSource | undefined,
+  preferFreshUrl: boolean
+): TrackState {
+  const storedUrl = isPlayableUrl(source?.url) ? source?.url : undefined;
+  const expiresAt = storedUrl ? getPresignedUrlExpiry(storedUrl) : null;
+  const isExpired = !!expiresAt && expiresAt.getTime() < Date.now();
+  const canUseFreshUrl = !!source?.videoId;
+  const isFreshUrl =
+    canUseFreshUrl && (preferFreshUrl || !storedUrl || isExpired);
+
+  const { t } = useTranslation();
+  const freshUrlQuery = usePresignedVideoUrl(source?.videoId || "", isFreshUrl);
+  const playUrl = isFreshUrl ? freshUrlQuery.data?.data?.videoUrl : storedUrl;
+  const probe = useVideoUrlProbe(playUrl);
+
+  const base = { playUrl, expiresAt, isFreshUrl, canUseFreshUrl };
+  if (!source) return { ...base, status: "missing" };
+  if (freshUrlQuery.isError) {
+    return { ...base, status: "broken", error: t("lessonVideo.signFailed") };
+  }
+  if (!playUrl) {
+    return isFreshUrl && freshUrlQuery.isLoading
+      ? { ...base, status: "loading" }
+      : { ...base, status: "broken", error: t("lessonVideo.noPlayableUrl") };
+  }
+  if (probe.isLoading) return { ...base, status: "loading" };
+  if (probe.isError) {
+    return { ...base, status: "broken", error: probe.error.message };
+  }
+  return {
+    ...base,
+    status: isExpired && !preferFreshUrl ? "expired" : "ok",
+    duration: probe.data?.duration,
+  };
+}
+
+const STATUS_ICONS: Record<TrackStatus, React.ReactNode> = {
+  missing: <VideoOff className="h-3.5 w-3.5 text-gray-400" />,
+  loading: <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />,
+  ok: <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />,
+  expired: <Clock className="h-3.5 w-3.5 text-amber-600" />,
+  broken: <XCircle className="h-3.5 w-3.5 text-red-600" />,
+};
+
+interface LessonVideoPlayerProps {
+  tracks: LessonVideoTracks;
+  className?: string;
+}
+
+/**
+ * Plays a lesson's recordings the way students get them, with a switch
+ * between the main, GVO and VVT tracks. Each track is checked up front so
+ * missing, expired and broken recordings show before anyone presses play.
+ */
+export function LessonVideoPlayer({ tracks, className }: LessonVideoPlayerProps) {
+  const { t, language } = useTranslation();
+  const [preferFresh, setPreferFresh] = useState<Record<VideoType, boolean>>({
+    main: false,
+    gvo: false,
+    vvt: false,
+  });
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+
+  const states: Record<VideoType, TrackState> = {
+    main: useTrackState(tracks.main, preferFresh.main),
+    gvo: useTrackState(tracks.gvo, preferFresh.gvo),
+    vvt: useTrackState(tracks.vvt, preferFresh.vvt),
+  };
+
+  const firstAvailable =
+    LESSON_VIDEO_TRACKS.find(({ type }) => tracks[type])?.type ?? "main";
+  const [activeType, setActiveType] = useState<VideoType>(firstAvailable);
+
+  // Follow the tracks when the lesson or the selected recordings change
+  useEffect(() => {
+    if (!tracks[activeType]) setActiveType(firstAvailable);
+  }, [tracks, activeType, firstAvailable]);
+
+  const active = states[activeType];
+  const activeSource = tracks[activeType];
+
+  useEffect(() => {
+    setPlaybackError(null);
+  }, [active.playUrl]);
+
+  const renderNotice = () => {
+    if (playbackError || active.status === "broken") {
+      return (
+        <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          <XCircle className="h-4 w-4 shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-medium">{t("lessonVideo.doesNotPlay")}</p>
+            <p>{playbackError || active.error}</p>
+          </div>
+          {active.canUseFreshUrl && !active.isFreshUrl && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPreferFresh({ ...preferFresh, [activeType]: true })}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {t("lessonVideo.tryFreshLink")}
+            </Button>
+          )}
+        </div>
+      );
+    }
+    if (active.expiresAt && active.expiresAt.getTime() < Date.now()) {
+      return (
+        <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+          <p>
+            {t("lessonVideo.linkExpired", {
+              date: active.expiresAt.toLocaleString(language),
+            })}
+            {active.isFreshUrl && ` ${t("lessonVideo.playingFreshLink")}`}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center gap-2" role="tablist">
+        {LESSON_VIDEO_TRACKS.map(({ type, label }) => {
+          const state = states[type];
+          return (
+            <Button
+              key={type}
+              type="button"
+              role="tab"
+              size="sm"
+              variant={activeType === type ? "default" : "outline"}
+              aria-selected={activeType === type}
+              disabled={state.status === "missing"}
+              onClick={() => setActiveType(type)}
+            >
+              <span
+                className={cn(
+                  "flex items-center rounded-full",
+                  activeType === type && "bg-white p-0.5"
+                )}
+              >
+                {STATUS_ICONS[state.status]}
+              </span>
+              <span className="ms-2">{t(label)}</span>
+              {state.duration !== undefined && state.duration > 0 && (
+                <span className="ms-2 text-xs opacity-75 tabular-nums">
+                  {formatDuration(state.duration)}
+                </span>
+              )}
+            </Button>
+          );
+        })}
+      </div>
+
+      {renderNotice()}
+
+      <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black">
+        {active.status === "missing" ? (
+          <div className="flex h-full items-center justify-center text-sm text-gray-300">
+            {t("lessonVideo.noRecordings")}
+          </div>
+        ) : active.playUrl ? (
+          <video
+            key={active.playUrl}
+            src={active.playUrl}
+            controls
+            className="h-full w-full"
+            onError={(event) =>
+              setPlaybackError(getMediaErrorMessage(event.currentTarget.error))
+            }
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-300" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span className="truncate">{activeSource?.name}</span>
+        <span className="flex items-center gap-3">
+          {active.duration !== undefined && active.duration > 0 && (
+            <span className="tabular-nums">
+              {t("lessonVideo.duration", {
+                duration: formatDuration(active.duration),
+              })}
+            </span>
+          )}
+          {active.expiresAt && !active.isFreshUrl && (
+            <span>
+              {t("lessonVideo.linkValidUntil", {
+                date: active.expiresAt.toLocaleString(language),
+              })}
+            </span>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
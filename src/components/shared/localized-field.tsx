@@ -0,0 +1,266 @@
+import { useState, type ReactNode } from "react";
+import {
+  useController,
+  type Control,
+  type FieldPath,
+  type FieldValues,
+} from "react-hook-form";
+import { Check, Circle, Columns3, PanelTop } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import RichTextEditor from "@/components/ui/RichTextEditor";
+import { useTranslation } from "@/hooks/use-translation";
+import { LANGUAGES, translateMessage, type Language } from "@/i18n";
+import { getTextDirection } from "@/lib/rtl-utils";
+import { isBlankText } from "@/lib/localized-text";
+import { cn } from "@/lib/utils";
+import type { LocalizedText } from "@/types/api";
+
+export type LocalizedFieldEditor = "input" | "textarea" | "rich-text";
+export type LocalizedFieldLayout = "tabs" | "side-by-side";
+
+type LocalizedFieldValue = Partial<LocalizedText> | null | undefined;
+type LocalizedFieldErrors = Partial<Record<Language, string | undefined>>;
+
+interface LocalizedFieldProps {
+  // Base field name; each language control is named "<name>.<language>"
+  name: string;
+  label: ReactNode;
+  value: LocalizedFieldValue;
+  onChange: (value: LocalizedText) => void;
+  onBlur?: () => void;
+  errors?: LocalizedFieldErrors;
+  editor?: LocalizedFieldEditor;
+  layout?: LocalizedFieldLayout;
+  // Shown with the language appended, e.g. "Enter topic name in Arabic"
+  placeholder?: string;
+  // Marks English as required in the label
+  required?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Edits one { en, ar, he } value, either one language at a time in tabs or
+ * all three side by side. Each language shows whether it has been filled in.
+ */
+export function LocalizedField({
+  name,
+  label,
+  value,
+  onChange,
+  onBlur,
+  errors,
+  editor = "input",
+  layout: initialLayout,
+  placeholder,
+  required = true,
+  disabled,
+  className,
+}: LocalizedFieldProps) {
+  const { t, language: uiLanguage } = useTranslation();
+  // Rich text editors are too wide to sit three in a row by default
+  const [layout, setLayout] = useState<LocalizedFieldLayout>(
+    initialLayout ?? (editor === "rich-text" ? "tabs" : "side-by-side")
+  );
+  const [activeLanguage, setActiveLanguage] = useState<Language>("en");
+
+  const filledCount = LANGUAGES.filter(
+    ({ value: language }) => !isBlankText(value?.[language])
+  ).length;
+
+  const handleChange = (language: Language, text: string) => {
+    onChange({
+      en: value?.en ?? "",
+      ar: value?.ar ?? "",
+      he: value?.he ?? "",
+      [language]: text,
+    });
+  };
+
+  const renderControl = (language: Language) => {
+    const controlName = `${name}.${language}`;
+    const text = value?.[language] ?? "";
+    const hint = placeholder
+      ? t("localizedField.placeholder", {
+          placeholder,
+          language: t(`language.${language}`),
+        })
+      : undefined;
+    const invalid = !!errors?.[language];
+
+    if (editor === "rich-text") {
+      return (
+        <div
+          dir={getTextDirection(controlName)}
+          className={cn(invalid && "rounded-md ring-1 ring-destructive")}
+        >
+          <RichTextEditor
+            value={text}
+            placeholder={hint}
+            readOnly={disabled}
+            onChange={(content) => handleChange(language, content)}
+            onBlur={onBlur}
+          />
+        </div>
+      );
+    }
+
+    const Control = editor === "textarea" ? Textarea : Input;
+    return (
+      <Control
+        id={controlName}
+        name={controlName}
+        value={text}
+        placeholder={hint}
+        disabled={disabled}
+        aria-invalid={invalid}
+        onChange={(e) => handleChange(language, e.target.value)}
+        onBlur={onBlur}
+      />
+    );
+  };
+
+  const renderError = (language: Language) =>
+    errors?.[language] ? (
+      <p className="text-destructive text-sm">
+        {translateMessage(uiLanguage, errors[language]!)}
+      </p>
+    ) : null;
+
+  const renderStatus = (language: Language) =>
+    isBlankText(value?.[language]) ? (
+      <Circle className="h-3 w-3 text-muted-foreground" />
+    ) : (
+      <Check className="h-3 w-3 text-green-600" />
+    );
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor={layout === "tabs" ? `${name}.${activeLanguage}` : undefined}
+            className={cn(errors?.en && "text-destructive")}
+          >
+            {label}
+            {required && " *"}
+          </Label>
+          <Badge
+            variant={filledCount === LANGUAGES.length ? "default" : "secondary"}
+          >
+            {t("localizedField.translated", {
+              count: filledCount,
+              total: LANGUAGES.length,
+            })}
+          </Badge>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          title={
+            layout === "tabs"
+              ? t("localizedField.sideBySide")
+              : t("localizedField.tabs")
+          }
+          onClick={() =>
+            setLayout(layout === "tabs" ? "side-by-side" : "tabs")
+          }
+        >
+          {layout === "tabs" ? (
+            <Columns3 className="h-4 w-4" />
+          ) : (
+            <PanelTop className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+
+      {layout === "tabs" ? (
+        <div className="space-y-2">
+          <div className="inline-flex rounded-md border p-0.5" role="tablist">
+            {LANGUAGES.map(({ value: language, label: languageLabel }) => (
+              <button
+                key={language}
+                type="button"
+                role="tab"
+                aria-selected={activeLanguage === language}
+                onClick={() => setActiveLanguage(language)}
+                className={cn(
+                  "flex items-center gap-1.5 rounded px-3 py-1 text-sm transition-colors",
+                  activeLanguage === language
+                    ? "bg-secondary font-medium"
+                    : "text-muted-foreground hover:text-foreground",
+                  errors?.[language] && "text-destructive"
+                )}
+              >
+                {renderStatus(language)}
+                {languageLabel}
+              </button>
+            ))}
+          </div>
+          {renderControl(activeLanguage)}
+          {renderError(activeLanguage)}
+        </div>
+      ) : (
+        <div className="grid gap-3 md:grid-cols-3">
+          {LANGUAGES.map(({ value: language, label: languageLabel }) => (
+            <div key={language} className="space-y-1">
+              <Label
+                htmlFor={`${name}.${language}`}
+                className="text-xs font-normal text-muted-foreground"
+              >
+                {renderStatus(language)}
+                {languageLabel}
+              </Label>
+              {renderControl(language)}
+              {renderError(language)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface LocalizedFormFieldProps<TFieldValues extends FieldValues>
+  extends Omit<
+    LocalizedFieldProps,
+    "name" | "value" | "onChange" | "onBlur" | "errors"
+  > {
+  control: Control<TFieldValues>;
+  name: FieldPath<TFieldValues>;
+}
+
+/**
+ * LocalizedField bound to a react-hook-form field holding { en, ar, he }
+ */
+export function LocalizedFormField<TFieldValues extends FieldValues>({
+  control,
+  name,
+  ...props
+}: LocalizedFormFieldProps<TFieldValues>) {
+  const { field, fieldState } = useController({ control, name });
+  // Errors of an object field are keyed by language
+  const error = fieldState.error as
+    | Partial<Record<Language, { message?: string }>>
+    | undefined;
+
+  return (
+    <LocalizedField
+      {...props}
+      name={name}
+      value={field.value}
+      onChange={field.onChange}
+      onBlur={field.onBlur}
+      errors={{
+        en: error?.en?.message,
+        ar: error?.ar?.message,
+        he: error?.he?.message,
+      }}
+    />
+  );
+}
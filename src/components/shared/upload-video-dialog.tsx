@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -27,35 +27,56 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Upload, X, FileVideo, AlertCircle } from "lucide-react";
+import {
+  Upload,
+  X,
+  FileVideo,
+  RotateCw,
+  Loader2,
+  AlertCircle,
+} from "lucide-react";
 import { toast } from "sonner";
 
 import { useCompleteVideoUpload } from "@/hooks/use-videos-library";
-import { videoLibraryService } from "@/services/videos-library-service";
-import { UploadProgressCard } from "@/components/ui/upload-progress";
-import type { UploadProgress } from "@/services/upload-service";
+import {
+  VIDEO_UPLOAD_FOLDER,
+  videoLibraryService,
+} from "@/services/videos-library-service";
+import {
+  MultipartUploadService,
+  type ResumableUploadInfo,
+} from "@/services/multipart-upload-service";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  extractVideoInfo,
+  formatDuration,
+  formatResolution,
+  type ExtractedVideoInfo,
+} from "@/lib/video-metadata";
+import {
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation";
 
 // Form schema
 const uploadVideoSchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(1, "English name is required")
-      .max(255, "English name cannot exceed 255 characters"),
+      .min(1)
+      .max(255),
     ar: z
       .string()
-      .max(255, "Arabic name cannot exceed 255 characters")
+      .max(255)
       .optional()
       .or(z.literal("")),
     he: z
       .string()
-      .max(255, "Hebrew name cannot exceed 255 characters")
+      .max(255)
       .optional()
       .or(z.literal("")),
   }),
-  entityType: z.enum(["lesson", "course"], {
-    required_error: "Entity type is required",
-  }),
+  entityType: z.enum(["lesson", "course"]),
 });
 
 type UploadVideoFormData = z.infer<typeof uploadVideoSchema>;
@@ -72,19 +93,31 @@ export function UploadVideoDialog({
   isOpen,
   onClose,
   entityType,
-  entityId,
   onVideoUploaded,
 }: UploadVideoDialogProps) {
+  const { t } = useTranslation();
   const [selectedVideo, setSelectedVideo] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(
-    null
+  const [resumableUpload, setResumableUpload] =
+    useState<ResumableUploadInfo | null>(null);
+  const [videoInfo, setVideoInfo] = useState<ExtractedVideoInfo | null>(null);
+  const [isReadingVideo, setIsReadingVideo] = useState(false);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  // Guards against a slow read finishing after another file was picked
+  const readingFileRef = useRef<File | null>(null);
+
+  const thumbnailPreview = useMemo(
+    () =>
+      videoInfo?.thumbnail ? URL.createObjectURL(videoInfo.thumbnail) : null,
+    [videoInfo]
+  );
+  useEffect(
+    () => () => {
+      if (thumbnailPreview) URL.revokeObjectURL(thumbnailPreview);
+    },
+    [thumbnailPreview]
   );
-  const [uploadStatus, setUploadStatus] = useState<
-    "idle" | "uploading" | "completed" | "error"
-  >("idle");
-  const [uploadError, setUploadError] = useState<string | null>(null);
 
-  const { completeUpload, isPending } = useCompleteVideoUpload();
+  const { completeUpload } = useCompleteVideoUpload();
 
   // Form
   const form = useForm<UploadVideoFormData>({
@@ -95,38 +128,48 @@ export function UploadVideoDialog({
     },
   });
 
+  const clearSelectedVideo = () => {
+    readingFileRef.current = null;
+    setSelectedVideo(null);
+    setResumableUpload(null);
+    setVideoInfo(null);
+    setIsReadingVideo(false);
+    setFileErrors([]);
+  };
+
   const handleClose = () => {
     // Reset form and state
     form.reset();
-    setSelectedVideo(null);
-    setUploadProgress(null);
-    setUploadStatus("idle");
-    setUploadError(null);
+    clearSelectedVideo();
     onClose();
   };
 
-  const handleVideoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleVideoSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Validate file type
-      if (!videoLibraryService.isValidVideoFile(file)) {
-        toast.error(
-          "Please select a valid video file (MP4, MPEG, MOV, AVI, WebM, OGG)"
-        );
-        return;
-      }
-
-      // Validate file size (max 500MB)
-      const maxSize = 500 * 1024 * 1024; // 500MB
-      if (file.size > maxSize) {
-        toast.error("Video file size cannot exceed 500MB");
+      // Validate type, size and content before anything is uploaded
+      const errors = await validateUploadFile(file, "lesson-video");
+      if (errors.length > 0) {
+        clearSelectedVideo();
+        setFileErrors(errors);
         return;
       }
 
+      setFileErrors([]);
       setSelectedVideo(file);
-      setUploadStatus("idle");
-      setUploadProgress(null);
-      setUploadError(null);
+      setVideoInfo(null);
+      setIsReadingVideo(true);
+      readingFileRef.current = file;
+      extractVideoInfo(file).then((info) => {
+        if (readingFileRef.current !== file) return;
+        setVideoInfo(info);
+        setIsReadingVideo(false);
+      });
+      setResumableUpload(
+        MultipartUploadService.getResumableUpload(file, VIDEO_UPLOAD_FOLDER)
+      );
 
       // Auto-fill English name if empty
       if (!form.getValues("name.en")) {
@@ -136,56 +179,27 @@ export function UploadVideoDialog({
     }
   };
 
-  const handleSubmit = async (data: UploadVideoFormData) => {
+  // The upload continues in the background upload tray
+  const handleSubmit = (data: UploadVideoFormData) => {
     if (!selectedVideo) {
-      toast.error("Please select a video file");
+      toast.error(t("toast.selectVideoFile"));
       return;
     }
 
-    try {
-      setUploadStatus("uploading");
-      setUploadError(null);
-
-      await completeUpload({
-        file: selectedVideo,
-        name: {
-          en: data.name.en,
-          ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
-          ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
-        },
-        entityType: data.entityType,
-        entityId,
-        onProgress: (progress) => {
-          // Convert the simple progress to UploadProgress format
-          const uploadProgressData: UploadProgress = {
-            percentage: progress.percentage,
-            uploadedBytes: progress.loaded,
-            totalBytes: progress.total,
-            startTime: Date.now(),
-            estimatedTimeRemaining: 0,
-            speed: 0,
-          };
-          setUploadProgress(uploadProgressData);
-        },
-      });
-
-      setUploadStatus("completed");
-      toast.success("Video uploaded successfully!");
+    completeUpload({
+      file: selectedVideo,
+      name: {
+        en: data.name.en,
+        ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
+        ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
+      },
+      entityType: data.entityType,
+      videoInfo,
+      onUploaded: onVideoUploaded,
+    });
 
-      if (onVideoUploaded) {
-        onVideoUploaded();
-      }
-
-      handleClose();
-    } catch (error) {
-      setUploadStatus("error");
-      setUploadError(
-        error instanceof Error ? error.message : "Failed to upload video"
-      );
-      toast.error(
-        error instanceof Error ? error.message : "Failed to upload video"
-      );
-    }
+    toast.info(t("toast.uploadQueued", { name: data.name.en }));
+    handleClose();
   };
 
   const getFileIcon = (fileType: string) => {
@@ -201,11 +215,10 @@ export function UploadVideoDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5" />
-            Upload Video to Library
+            {t("videoLibrary.uploadTitle")}
           </DialogTitle>
           <DialogDescription>
-            Upload a video file to the video library. The video will be
-            available for use in lessons and courses.
+            {t("videoLibrary.uploadDescription")}
           </DialogDescription>
         </DialogHeader>
 
@@ -221,10 +234,10 @@ export function UploadVideoDialog({
                 name="name.en"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Video Name (English) *</FormLabel>
+                    <FormLabel>{t("videoLibrary.nameEn")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter video name in English"
+                        placeholder={t("videoLibrary.namePlaceholderEn")}
                         {...field}
                       />
                     </FormControl>
@@ -238,10 +251,10 @@ export function UploadVideoDialog({
                 name="name.ar"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Video Name (Arabic)</FormLabel>
+                    <FormLabel>{t("videoLibrary.nameAr")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter video name in Arabic"
+                        placeholder={t("videoLibrary.namePlaceholderAr")}
                         {...field}
                       />
                     </FormControl>
@@ -255,10 +268,10 @@ export function UploadVideoDialog({
                 name="name.he"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Video Name (Hebrew)</FormLabel>
+                    <FormLabel>{t("videoLibrary.nameHe")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter video name in Hebrew"
+                        placeholder={t("videoLibrary.namePlaceholderHe")}
                         {...field}
                       />
                     </FormControl>
@@ -274,19 +287,25 @@ export function UploadVideoDialog({
               name="entityType"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Entity Type *</FormLabel>
+                  <FormLabel>{t("videoLibrary.entityTypeRequired")}</FormLabel>
                   <Select
                     onValueChange={field.onChange}
                     defaultValue={field.value}
                   >
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select entity type" />
+                        <SelectValue
+                          placeholder={t("videoLibrary.selectEntityType")}
+                        />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="course">Course</SelectItem>
-                      <SelectItem value="lesson">Lesson</SelectItem>
+                      <SelectItem value="course">
+                        {t("videoLibrary.course")}
+                      </SelectItem>
+                      <SelectItem value="lesson">
+                        {t("videoLibrary.lesson")}
+                      </SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -298,11 +317,10 @@ export function UploadVideoDialog({
             <div className="space-y-4">
               <div>
                 <FormLabel className="text-base font-medium">
-                  Video File *
+                  {t("videoLibrary.videoFile")}
                 </FormLabel>
                 <p className="text-sm text-gray-600 mb-3">
-                  Upload a video file (MP4, MPEG, MOV, AVI, WebM, OGG) - Max
-                  500MB
+                  {t("videoLibrary.videoFileHelp")}
                 </p>
               </div>
 
@@ -310,7 +328,7 @@ export function UploadVideoDialog({
                 <div className="flex items-center gap-3">
                   <Input
                     type="file"
-                    accept="video/*"
+                    accept={getAcceptedExtensions("lesson-video")}
                     onChange={handleVideoSelect}
                     className="flex-1"
                   />
@@ -319,21 +337,35 @@ export function UploadVideoDialog({
                       type="button"
                       variant="outline"
                       size="sm"
-                      onClick={() => {
-                        setSelectedVideo(null);
-                        setUploadStatus("idle");
-                        setUploadProgress(null);
-                        setUploadError(null);
-                      }}
+                      onClick={clearSelectedVideo}
                     >
                       <X className="h-4 w-4" />
                     </Button>
                   )}
                 </div>
 
+                {fileErrors.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 border border-red-200 rounded-lg bg-red-50">
+                    <AlertCircle className="h-5 w-5 shrink-0 text-red-500" />
+                    <ul className="space-y-1 text-sm text-red-700">
+                      {fileErrors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {selectedVideo && (
                   <div className="flex items-center gap-3 p-3 border rounded-lg bg-gray-50">
-                    {getFileIcon(selectedVideo.type)}
+                    {thumbnailPreview ? (
+                      <img
+                        src={thumbnailPreview}
+                        alt=""
+                        className="h-16 w-28 rounded object-cover bg-black"
+                      />
+                    ) : (
+                      getFileIcon(selectedVideo.type)
+                    )}
                     <div className="flex-1">
                       <div className="text-sm font-medium text-gray-900">
                         {selectedVideo.name}
@@ -341,61 +373,62 @@ export function UploadVideoDialog({
                       <div className="text-sm text-gray-600">
                         {videoLibraryService.formatBytes(selectedVideo.size)}
                       </div>
+                      {isReadingVideo ? (
+                        <div className="flex items-center gap-1 text-xs text-gray-500">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          {t("videoLibrary.readingDetails")}
+                        </div>
+                      ) : videoInfo?.metadata ? (
+                        <div className="text-xs text-gray-500">
+                          {[
+                            formatDuration(videoInfo.metadata.duration),
+                            formatResolution(
+                              videoInfo.metadata.width,
+                              videoInfo.metadata.height
+                            ),
+                            videoInfo.metadata.codec,
+                          ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-500">
+                          {t("videoLibrary.detailsUnavailable")}
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
 
-                {uploadStatus === "uploading" && uploadProgress && (
-                  <UploadProgressCard
-                    progress={uploadProgress}
-                    fileName={selectedVideo?.name || ""}
-                    status="uploading"
-                  />
-                )}
-
-                {uploadStatus === "completed" && (
-                  <UploadProgressCard
-                    progress={uploadProgress!}
-                    fileName={selectedVideo?.name || ""}
-                    status="completed"
-                  />
-                )}
-
-                {uploadStatus === "error" && uploadError && (
-                  <div className="flex items-center gap-2 p-3 border border-red-200 rounded-lg bg-red-50">
-                    <AlertCircle className="h-5 w-5 text-red-500" />
-                    <div className="text-sm text-red-700">{uploadError}</div>
+                {resumableUpload && (
+                  <div className="flex items-center gap-2 p-3 border border-blue-200 rounded-lg bg-blue-50">
+                    <RotateCw className="h-5 w-5 text-blue-500" />
+                    <div className="text-sm text-blue-700">
+                      {t("videoLibrary.resumeNotice", {
+                        percentage: resumableUpload.percentage,
+                        uploaded: videoLibraryService.formatBytes(
+                          resumableUpload.uploadedBytes
+                        ),
+                      })}
+                    </div>
                   </div>
                 )}
+
               </div>
             </div>
 
             <DialogFooter className="gap-2">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleClose}
-                disabled={isPending}
-              >
-                Cancel
+              <Button type="button" variant="outline" onClick={handleClose}>
+                {t("common.cancel")}
               </Button>
               <Button
                 type="submit"
-                disabled={
-                  isPending || !selectedVideo || uploadStatus === "uploading"
-                }
+                disabled={!selectedVideo || isReadingVideo}
               >
-                {isPending || uploadStatus === "uploading" ? (
-                  <>
-                    <Upload className="h-4 w-4 mr-2 animate-spin" />
-                    Uploading...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="h-4 w-4 mr-2" />
-                    Upload Video
-                  </>
-                )}
+                <Upload className="h-4 w-4 mr-2" />
+                {resumableUpload
+                  ? t("videoLibrary.resumeUpload")
+                  : t("videoLibrary.upload")}
               </Button>
             </DialogFooter>
           </form>
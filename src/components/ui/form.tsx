@@ -13,6 +13,8 @@ import {
 
 import { cn } from "@/lib/utils"
 import { Label } from "@/components/ui/label"
+import { useTranslation } from "@/hooks/use-translation"
+import { translateMessage } from "@/i18n"
 
 const Form = FormProvider
 
@@ -135,7 +137,10 @@ function FormDescription({ className, ...props }: React.ComponentProps<"p">) {
 
 function FormMessage({ className, ...props }: React.ComponentProps<"p">) {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message ?? "") : props.children
+  const { language } = useTranslation()
+  const body = error
+    ? translateMessage(language, String(error?.message ?? ""))
+    : props.children
 
   if (!body) {
     return null
@@ -1,21 +1,60 @@
+import type { ReactNode } from "react";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
-import { Upload, Clock, HardDrive, CheckCircle, XCircle } from "lucide-react";
+import {
+  Upload,
+  Clock,
+  HardDrive,
+  CheckCircle,
+  XCircle,
+  PauseCircle,
+  Loader2,
+  Ban,
+} from "lucide-react";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
 import type { UploadProgress } from "@/services/upload-service";
 
+export type UploadProgressStatus =
+  | "queued"
+  | "uploading"
+  | "paused"
+  | "processing"
+  | "completed"
+  | "error"
+  | "cancelled";
+
 interface UploadProgressProps {
-  progress: UploadProgress;
+  // Missing until the first bytes have been sent
+  progress: UploadProgress | null;
   fileName: string;
-  status: "uploading" | "completed" | "error";
+  status: UploadProgressStatus;
   error?: string | null;
+  // Buttons rendered next to the percentage, e.g. pause or retry
+  actions?: ReactNode;
+  className?: string;
 }
 
+const STATUS_LABELS: Record<UploadProgressStatus, TranslationKey> = {
+  queued: "uploads.queued",
+  uploading: "uploads.uploading",
+  paused: "uploads.paused",
+  processing: "uploads.processing",
+  completed: "uploads.completed",
+  error: "uploads.failed",
+  cancelled: "uploads.cancelled",
+};
+
 export function UploadProgressCard({
   progress,
   fileName,
   status,
   error,
+  actions,
+  className,
 }: UploadProgressProps) {
+  const { t } = useTranslation();
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -46,10 +85,16 @@ export function UploadProgressCard({
     switch (status) {
       case "uploading":
         return <Upload className="h-4 w-4 animate-pulse" />;
+      case "processing":
+        return <Loader2 className="h-4 w-4 animate-spin" />;
+      case "paused":
+        return <PauseCircle className="h-4 w-4 text-amber-500" />;
       case "completed":
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case "error":
         return <XCircle className="h-4 w-4 text-red-500" />;
+      case "cancelled":
+        return <Ban className="h-4 w-4 text-gray-400" />;
       default:
         return <Upload className="h-4 w-4" />;
     }
@@ -58,7 +103,10 @@ export function UploadProgressCard({
   const getStatusColor = () => {
     switch (status) {
       case "uploading":
+      case "processing":
         return "text-blue-600";
+      case "paused":
+        return "text-amber-600";
       case "completed":
         return "text-green-600";
       case "error":
@@ -69,23 +117,26 @@ export function UploadProgressCard({
   };
 
   return (
-    <Card className="w-full">
+    <Card className={className ?? "w-full"}>
       <CardContent className="p-4">
         <div className="flex items-center justify-between mb-3">
           <div className="flex items-center gap-2">
             {getStatusIcon()}
             <span className={`font-medium ${getStatusColor()}`}>
-              {status === "uploading" && "Uploading..."}
-              {status === "completed" && "Upload Complete"}
-              {status === "error" && "Upload Failed"}
+              {t(STATUS_LABELS[status])}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-gray-500">
+              {progress?.percentage ?? 0}%
             </span>
+            {actions}
           </div>
-          <span className="text-sm text-gray-500">{progress?.percentage}%</span>
         </div>
 
         <div className="mb-3">
           <div className="flex justify-between text-sm text-gray-600 mb-1">
-            <span>{fileName}</span>
+            <span className="truncate">{fileName}</span>
             <span>
               {formatBytes(progress?.uploadedBytes || 0)} /{" "}
               {formatBytes(progress?.totalBytes || 0)}
@@ -98,21 +149,21 @@ export function UploadProgressCard({
           <div className="grid grid-cols-3 gap-4 text-sm">
             <div className="flex items-center gap-1">
               <HardDrive className="h-3 w-3 text-gray-400" />
-              <span className="text-gray-600">Speed:</span>
+              <span className="text-gray-600">{t("uploads.speed")}</span>
               <span className="font-medium">
                 {formatSpeed(progress?.speed || 0)}
               </span>
             </div>
             <div className="flex items-center gap-1">
               <Clock className="h-3 w-3 text-gray-400" />
-              <span className="text-gray-600">ETA:</span>
+              <span className="text-gray-600">{t("uploads.eta")}</span>
               <span className="font-medium">
                 {formatTime(progress?.estimatedTimeRemaining || 0)}
               </span>
             </div>
             <div className="flex items-center gap-1">
               <Clock className="h-3 w-3 text-gray-400" />
-              <span className="text-gray-600">Elapsed:</span>
+              <span className="text-gray-600">{t("uploads.elapsed")}</span>
               <span className="font-medium">
                 {formatTime((Date.now() - (progress?.startTime || 0)) / 1000)}
               </span>
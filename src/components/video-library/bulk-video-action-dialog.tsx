@@ -0,0 +1,450 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useBulkVideoLibraryAction,
+  useVideoLibraryNames,
+  useVideoUsages,
+  type VideoBulkAction,
+  type VideoBulkFailure,
+} from "@/hooks/use-videos-library";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
+import { toLocalizedText } from "@/lib/localized-text";
+import { applyRenamePattern, RENAME_PLACEHOLDERS } from "@/lib/rename-pattern";
+import type { VideoLibrary } from "@/types/api";
+
+export type VideoBulkActionType = VideoBulkAction["type"];
+
+const ACTION_TITLES: Record<VideoBulkActionType, TranslationKey> = {
+  activate: "videoLibrary.activateTitle",
+  deactivate: "videoLibrary.deactivateTitle",
+  setEntityType: "videoLibrary.setEntityTypeTitle",
+  rename: "videoLibrary.renameTitle",
+  permanentDelete: "videoLibrary.permanentDeleteTitle",
+};
+
+const RENAME_PREVIEW_LIMIT = 5;
+
+interface BulkVideoActionDialogProps {
+  actionType: VideoBulkActionType | null;
+  videos: VideoLibrary[];
+  onClose: () => void;
+  // Called after a run with the videos that failed, to keep them selected
+  onFinished: (failed: VideoLibrary[]) => void;
+}
+
+/**
+ * Confirms a bulk action on the selected videos, runs it with progress and
+ * reports the videos that failed so they can be retried
+ */
+export function BulkVideoActionDialog({
+  actionType,
+  videos,
+  onClose,
+  onFinished,
+}: BulkVideoActionDialogProps) {
+  const { t } = useTranslation();
+  const runBulkAction = useBulkVideoLibraryAction();
+  const [entityType, setEntityType] = useState<"lesson" | "course">("lesson");
+  const [pattern, setPattern] = useState("{name}");
+  const [deleteAcknowledged, setDeleteAcknowledged] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState<{
+    succeeded: number;
+    failed: VideoBulkFailure[];
+  } | null>(null);
+  // The action of the last run, reused as is when retrying its failures
+  const [lastAction, setLastAction] = useState<VideoBulkAction | null>(null);
+
+  const isDelete = actionType === "permanentDelete";
+  const usageQueries = useVideoUsages(
+    isDelete ? videos.map((video) => video._id) : []
+  );
+  const isLoadingUsage = usageQueries.some((query) => query.isLoading);
+  const referencedVideos = videos
+    .map((video, index) => ({
+      video,
+      count: usageQueries[index]?.data?.data?.count || 0,
+    }))
+    .filter(({ count }) => count > 0);
+  // A failed usage check is not the same as "not used": these videos block
+  // the delete until their check succeeds or they are deselected
+  const uncheckedVideos = videos.filter(
+    (_, index) => usageQueries[index]?.isError
+  );
+  const retryUsageChecks = () =>
+    usageQueries.forEach((query) => {
+      if (query.isError) query.refetch();
+    });
+
+  // Every opening starts from a clean form
+  useEffect(() => {
+    if (!actionType) return;
+    setEntityType("lesson");
+    setPattern("{name}");
+    setDeleteAcknowledged(false);
+    setProgress({ completed: 0, total: 0 });
+    setResult(null);
+  }, [actionType]);
+
+  // The list shows names in one language; a rename works on the English name
+  // and keeps the others
+  const nameQueries = useVideoLibraryNames(
+    actionType === "rename" ? videos.map((video) => video._id) : []
+  );
+  const isLoadingNames = nameQueries.some((query) => query.isLoading);
+  const hasNameError = nameQueries.some((query) => query.isError);
+  const currentNames = videos.map((video, index) =>
+    toLocalizedText(nameQueries[index]?.data?.data?.name ?? video.name)
+  );
+
+  const renamedNames = videos.map((video, index) =>
+    applyRenamePattern(
+      pattern,
+      { name: currentNames[index].en, createdAt: video.createdAt },
+      index,
+      videos.length
+    )
+  );
+  const hasEmptyName = renamedNames.some((name) => !name);
+
+  const buildAction = (): VideoBulkAction | null => {
+    switch (actionType) {
+      case "setEntityType":
+        return { type: "setEntityType", entityType };
+      case "rename":
+        return {
+          type: "rename",
+          names: Object.fromEntries(
+            videos.map((video, index) => [
+              video._id,
+              { ...currentNames[index], en: renamedNames[index] },
+            ])
+          ),
+        };
+      case null:
+        return null;
+      default:
+        return { type: actionType };
+    }
+  };
+
+  const run = async (targets: VideoLibrary[], action: VideoBulkAction | null) => {
+    if (!action) return;
+    setLastAction(action);
+    setIsRunning(true);
+    setResult(null);
+    setProgress({ completed: 0, total: targets.length });
+    try {
+      const { succeeded, failed } = await runBulkAction({
+        videos: targets,
+        action,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      setResult({ succeeded: succeeded.length, failed });
+      onFinished(failed.map(({ video }) => video));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const canSubmit =
+    videos.length > 0 &&
+    !isRunning &&
+    !(
+      actionType === "rename" &&
+      (isLoadingNames || hasNameError || !pattern.trim() || hasEmptyName)
+    ) &&
+    !(
+      isDelete &&
+      (isLoadingUsage || uncheckedVideos.length > 0 || !deleteAcknowledged)
+    );
+
+  const renderForm = () => {
+    switch (actionType) {
+      case "setEntityType":
+        return (
+          <div className="space-y-2">
+            <Label>{t("videoLibrary.newEntityType")}</Label>
+            <Select
+              value={entityType}
+              onValueChange={(value) =>
+                setEntityType(value as "lesson" | "course")
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lesson">
+                  {t("videoLibrary.lesson")}
+                </SelectItem>
+                <SelectItem value="course">
+                  {t("videoLibrary.course")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case "rename":
+        if (isLoadingNames) {
+          return (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t("common.loading")}
+            </div>
+          );
+        }
+        if (hasNameError) {
+          return (
+            <p className="text-sm text-red-600">
+              {t("videoLibrary.namesLoadFailed")}
+            </p>
+          );
+        }
+        return (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="rename-pattern">
+                {t("videoLibrary.namePattern")}
+              </Label>
+              <Input
+                id="rename-pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={t("videoLibrary.namePatternPlaceholder")}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("videoLibrary.namePatternHelp", {
+                  placeholders: RENAME_PLACEHOLDERS.join(", "),
+                })}
+              </p>
+            </div>
+            <div className="rounded-md border text-sm">
+              {videos.slice(0, RENAME_PREVIEW_LIMIT).map((video, index) => (
+                <div
+                  key={video._id}
+                  className="flex items-center gap-2 border-b px-3 py-2 last:border-b-0"
+                >
+                  <span className="truncate text-muted-foreground">
+                    {currentNames[index].en}
+                  </span>
+                  <span className="text-muted-foreground">→</span>
+                  <span
+                    className={
+                      renamedNames[index] ? "truncate font-medium" : "text-red-600"
+                    }
+                  >
+                    {renamedNames[index] || t("videoLibrary.emptyName")}
+                  </span>
+                </div>
+              ))}
+              {videos.length > RENAME_PREVIEW_LIMIT && (
+                <div className="px-3 py-2 text-muted-foreground">
+                  {t("videoLibrary.andMore", {
+                    count: videos.length - RENAME_PREVIEW_LIMIT,
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      case "permanentDelete":
+        return isLoadingUsage ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t("videoLibrary.checkingUsage")}
+          </div>
+        ) : (
+          <div className="space-y-3 text-sm">
+            {uncheckedVideos.length > 0 && (
+              <div className="space-y-2 rounded-md border border-red-300 bg-red-50 p-3 text-red-900">
+                <div className="flex gap-2">
+                  <XCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <p>
+                    {t("videoLibrary.usageCheckFailed", {
+                      count: uncheckedVideos.length,
+                    })}
+                  </p>
+                </div>
+                <ul className="max-h-40 space-y-1 overflow-y-auto ps-6">
+                  {uncheckedVideos.map((video) => (
+                    <li key={video._id} className="truncate">
+                      {video.name}
+                    </li>
+                  ))}
+                </ul>
+                <Button variant="outline" size="sm" onClick={retryUsageChecks}>
+                  {t("videoLibrary.retryUsageCheck")}
+                </Button>
+              </div>
+            )}
+            {referencedVideos.length > 0 ? (
+              <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-900">
+                <div className="flex gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <p>
+                    {t("videoLibrary.stillUsed", {
+                      count: referencedVideos.length,
+                    })}
+                  </p>
+                </div>
+                <ul className="max-h-40 space-y-1 overflow-y-auto ps-6">
+                  {referencedVideos.map(({ video, count }) => (
+                    <li key={video._id} className="flex justify-between gap-2">
+                      <span className="truncate">{video.name}</span>
+                      <span className="shrink-0">
+                        {count === 1
+                          ? t("videoLibrary.onePlace")
+                          : t("videoLibrary.places", { count })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              uncheckedVideos.length === 0 && (
+                <p className="text-muted-foreground">
+                  {t("videoLibrary.noneUsed")}
+                </p>
+              )
+            )}
+            <label className="flex items-center gap-2">
+              <Checkbox
+                checked={deleteAcknowledged}
+                onCheckedChange={(checked) =>
+                  setDeleteAcknowledged(checked === true)
+                }
+              />
+              {t("videoLibrary.deleteAcknowledge")}
+            </label>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderResult = () =>
+    result && (
+      <div className="space-y-3 text-sm">
+        <div className="flex items-center gap-2 text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          {t("videoLibrary.succeeded", { count: result.succeeded })}
+        </div>
+        {result.failed.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-red-600">
+              <XCircle className="h-4 w-4" />
+              {t("videoLibrary.failed", { count: result.failed.length })}
+            </div>
+            <ul className="max-h-40 space-y-1 overflow-y-auto rounded-md border p-2">
+              {result.failed.map(({ video, error }) => (
+                <li key={video._id}>
+                  <span className="font-medium">{video.name}</span>
+                  <span className="text-muted-foreground">: {error}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+
+  return (
+    <Dialog
+      open={!!actionType}
+      onOpenChange={(open) => !open && !isRunning && onClose()}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{actionType && t(ACTION_TITLES[actionType])}</DialogTitle>
+          <DialogDescription>
+            {videos.length === 1
+              ? t("videoLibrary.selectedOne")
+              : t("videoLibrary.selectedMany", { count: videos.length })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isRunning ? (
+          <div className="space-y-2">
+            <Progress
+              value={
+                progress.total ? (progress.completed / progress.total) * 100 : 0
+              }
+              className="h-2"
+            />
+            <p className="text-sm text-muted-foreground">
+              {t("videoLibrary.processed", {
+                completed: progress.completed,
+                total: progress.total,
+              })}
+            </p>
+          </div>
+        ) : result ? (
+          renderResult()
+        ) : (
+          renderForm()
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <>
+              {result.failed.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    run(
+                      result.failed.map(({ video }) => video),
+                      lastAction
+                    )
+                  }
+                >
+                  {t("videoLibrary.retryFailed", {
+                    count: result.failed.length,
+                  })}
+                </Button>
+              )}
+              <Button onClick={onClose}>{t("common.close")}</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={isRunning}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                onClick={() => run(videos, buildAction())}
+                disabled={!canSubmit}
+                className={isDelete ? "bg-red-600 hover:bg-red-700" : undefined}
+              >
+                {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isDelete ? t("videoLibrary.deleteForever") : t("common.apply")}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
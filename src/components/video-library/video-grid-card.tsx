@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import { FileVideo } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { usePresignedVideoUrl } from "@/hooks/use-videos-library";
+import { useTranslation } from "@/hooks/use-translation";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/video-metadata";
+import type { VideoLibrary } from "@/types/api";
+
+interface VideoGridCardProps {
+  video: VideoLibrary;
+  details?: React.ReactNode;
+  actions?: React.ReactNode;
+  onOpen?: () => void;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+}
+
+/**
+ * Library video as a poster card. Hovering streams the video and moving the
+ * pointer across the poster scrubs through it.
+ */
+export function VideoGridCard({
+  video,
+  details,
+  actions,
+  onOpen,
+  selected,
+  onSelectedChange,
+}: VideoGridCardProps) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isHovering, setIsHovering] = useState(false);
+  const [hasHovered, setHasHovered] = useState(false);
+  const [scrubRatio, setScrubRatio] = useState(0);
+
+  // The URL is only requested once the card has been hovered
+  const { data: urlData } = usePresignedVideoUrl(video._id, hasHovered);
+  const previewUrl = urlData?.data?.videoUrl;
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(
+      1,
+      Math.max(0, (event.clientX - rect.left) / rect.width)
+    );
+    // Scrub from the leading edge in right-to-left layouts too
+    const directedRatio =
+      getComputedStyle(event.currentTarget).direction === "rtl"
+        ? 1 - ratio
+        : ratio;
+    setScrubRatio(directedRatio);
+
+    const element = videoRef.current;
+    if (element && Number.isFinite(element.duration)) {
+      element.currentTime = directedRatio * element.duration;
+    }
+  };
+
+  return (
+    <Card
+      className={cn(
+        "gap-0 overflow-hidden py-0",
+        selected && "ring-2 ring-blue-500"
+      )}
+    >
+      <div
+        className="relative aspect-video cursor-pointer bg-gray-100"
+        onPointerEnter={() => {
+          setIsHovering(true);
+          setHasHovered(true);
+        }}
+        onPointerLeave={() => setIsHovering(false)}
+        onPointerMove={handlePointerMove}
+        onClick={onOpen}
+      >
+        {video.thumbnailUrl ? (
+          <img
+            src={video.thumbnailUrl}
+            alt=""
+            loading="lazy"
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <FileVideo className="h-10 w-10 text-blue-500" />
+          </div>
+        )}
+
+        {isHovering && previewUrl && (
+          <video
+            ref={videoRef}
+            src={previewUrl}
+            muted
+            playsInline
+            preload="metadata"
+            className="absolute inset-0 h-full w-full bg-black object-contain"
+          />
+        )}
+
+        {isHovering && (
+          <div className="absolute inset-x-0 bottom-0 h-1 bg-black/30">
+            <div
+              className="h-full bg-red-500"
+              style={{ width: `${scrubRatio * 100}%` }}
+            />
+          </div>
+        )}
+
+        {onSelectedChange && (
+          <div
+            className="absolute top-2 start-2 rounded bg-white/90 p-1"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <Checkbox
+              checked={!!selected}
+              aria-label={t("videoLibrary.selectVideo", { name: video.name })}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            />
+          </div>
+        )}
+
+        {!!video.duration && (
+          <span className="absolute bottom-2 end-2 rounded bg-black/70 px-1.5 text-xs text-white tabular-nums">
+            {isHovering && previewUrl
+              ? `${formatDuration(scrubRatio * video.duration)} / `
+              : ""}
+            {formatDuration(video.duration)}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-2 p-3">
+        <div className="truncate font-medium" title={video.name}>
+          {video.name}
+        </div>
+        {details}
+        {actions && <div className="flex flex-wrap gap-1">{actions}</div>}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Filter, Search, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAdmins } from "@/hooks/use-admins";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  countActiveVideoLibraryFilters,
+  DEFAULT_VIDEO_LIBRARY_FILTERS,
+  type VideoLibraryFilters,
+} from "@/lib/video-library-filters";
+import { LANGUAGES } from "@/i18n";
+
+const VIDEO_TYPE_OPTIONS = [
+  { value: "video/mp4", label: "MP4" },
+  { value: "video/webm", label: "WebM" },
+  { value: "video/quicktime", label: "QuickTime (MOV)" },
+  { value: "video/x-matroska", label: "Matroska (MKV)" },
+  { value: "video/x-msvideo", label: "AVI" },
+  { value: "video/mpeg", label: "MPEG" },
+  { value: "video/ogg", label: "Ogg" },
+];
+
+interface VideoLibraryFilterPanelProps {
+  filters: VideoLibraryFilters;
+  onChange: (patch: Partial<VideoLibraryFilters>) => void;
+}
+
+/**
+ * Every filter the video library endpoint supports. The common ones are
+ * always shown; the rest sit behind "More filters" and open automatically
+ * when one of them is set.
+ */
+export function VideoLibraryFilterPanel({
+  filters,
+  onChange,
+}: VideoLibraryFilterPanelProps) {
+  const { t } = useTranslation();
+  const activeCount = countActiveVideoLibraryFilters(filters);
+  const hasAdvancedFilters =
+    filters.videoType !== "all" ||
+    filters.uploadedBy !== "all" ||
+    filters.fileSizeMinMb !== "" ||
+    filters.fileSizeMaxMb !== "" ||
+    filters.language !== "all";
+  const [showAdvanced, setShowAdvanced] = useState(hasAdvancedFilters);
+
+  const { data: adminsData } = useAdmins({ limit: 100 });
+
+  const resetFilters = () => {
+    const { view, limit } = filters;
+    onChange({ ...DEFAULT_VIDEO_LIBRARY_FILTERS, view, limit });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Filter className="h-5 w-5" />
+          {t("videoLibrary.filters")}
+          {activeCount > 0 && <Badge variant="secondary">{activeCount}</Badge>}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={resetFilters}>
+              <X className="h-4 w-4 mr-2" />
+              {t("common.reset")}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+          >
+            {showAdvanced ? (
+              <ChevronUp className="h-4 w-4 mr-2" />
+            ) : (
+              <ChevronDown className="h-4 w-4 mr-2" />
+            )}
+            {t("videoLibrary.moreFilters")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder={t("videoLibrary.searchPlaceholder")}
+                value={filters.search}
+                onChange={(e) => onChange({ search: e.target.value })}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <Select
+            value={filters.entityType}
+            onValueChange={(value) =>
+              onChange({ entityType: value as VideoLibraryFilters["entityType"] })
+            }
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder={t("videoLibrary.entityType")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("videoLibrary.allTypes")}</SelectItem>
+              <SelectItem value="course">{t("videoLibrary.course")}</SelectItem>
+              <SelectItem value="lesson">{t("videoLibrary.lesson")}</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.status}
+            onValueChange={(value) =>
+              onChange({ status: value as VideoLibraryFilters["status"] })
+            }
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder={t("videoLibrary.status")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("videoLibrary.allStatus")}</SelectItem>
+              <SelectItem value="active">{t("videoLibrary.active")}</SelectItem>
+              <SelectItem value="inactive">
+                {t("videoLibrary.inactive")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.usage}
+            onValueChange={(value) =>
+              onChange({ usage: value as VideoLibraryFilters["usage"] })
+            }
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder={t("videoLibrary.usage")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("videoLibrary.allVideos")}</SelectItem>
+              <SelectItem value="used">{t("videoLibrary.inUse")}</SelectItem>
+              <SelectItem value="orphaned">
+                {t("videoLibrary.orphaned")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {showAdvanced && (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label>{t("videoLibrary.videoFormat")}</Label>
+              <Select
+                value={filters.videoType}
+                onValueChange={(value) => onChange({ videoType: value })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={t("videoLibrary.videoFormat")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t("videoLibrary.allFormats")}
+                  </SelectItem>
+                  {VIDEO_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("videoLibrary.uploadedBy")}</Label>
+              <Select
+                value={filters.uploadedBy}
+                onValueChange={(value) => onChange({ uploadedBy: value })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={t("videoLibrary.uploadedBy")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("videoLibrary.anyone")}</SelectItem>
+                  {adminsData?.data?.items?.map((admin) => (
+                    <SelectItem key={admin._id} value={admin._id}>
+                      {admin.userName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("videoLibrary.fileSize")}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder={t("videoLibrary.min")}
+                  value={filters.fileSizeMinMb}
+                  onChange={(e) => onChange({ fileSizeMinMb: e.target.value })}
+                />
+                <span className="text-gray-400">–</span>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder={t("videoLibrary.max")}
+                  value={filters.fileSizeMaxMb}
+                  onChange={(e) => onChange({ fileSizeMaxMb: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("videoLibrary.nameLanguage")}</Label>
+              <Select
+                value={filters.language}
+                onValueChange={(value) =>
+                  onChange({ language: value as VideoLibraryFilters["language"] })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={t("videoLibrary.nameLanguage")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t("videoLibrary.defaultLanguage")}
+                  </SelectItem>
+                  {LANGUAGES.map(({ value }) => (
+                    <SelectItem key={value} value={value}>
+                      {t(`language.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
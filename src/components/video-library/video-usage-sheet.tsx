@@ -0,0 +1,149 @@
+import { Link } from "react-router-dom";
+import { BookOpen, GraduationCap, Link2Off, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
+import { useVideoUsage } from "@/hooks/use-videos-library";
+import type {
+  LessonVideoField,
+  VideoLibrary,
+  VideoUsageReference,
+} from "@/types/api";
+
+const LESSON_VIDEO_FIELD_LABELS: Record<LessonVideoField, TranslationKey> = {
+  main_recording_url: "videoLibrary.mainRecording",
+  recording_gvo_url: "videoLibrary.gvoRecording",
+  recording_vvt_url: "videoLibrary.vvtRecording",
+};
+
+interface VideoUsageSheetProps {
+  video: VideoLibrary | null;
+  onClose: () => void;
+}
+
+/**
+ * Side panel listing the lesson recordings and free-course content items
+ * that play a library video
+ */
+export function VideoUsageSheet({ video, onClose }: VideoUsageSheetProps) {
+  const { t } = useTranslation();
+  const localizeText = useLocalizedText();
+  const { data, isLoading, isError } = useVideoUsage(video?._id || null);
+  const references = data?.data?.references || [];
+
+  const lessonReferences = references.filter(
+    (reference) => reference.type === "lesson"
+  );
+  const freeCourseReferences = references.filter(
+    (reference) => reference.type === "free-course"
+  );
+
+  const renderReference = (reference: VideoUsageReference, index: number) => {
+    if (reference.type === "lesson") {
+      const { course, topic, lesson } = reference;
+      return (
+        <li key={`${lesson._id}-${reference.field}-${index}`}>
+          <Link
+            to={`/dashboard/courses/${course._id}/topics/${topic._id}/lessons/${lesson._id}/edit`}
+            className="block rounded-md border p-3 hover:bg-muted/50"
+            onClick={onClose}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {localizeText(lesson.name, t("videoLibrary.untitledLesson"))}
+              </span>
+              <Badge variant="outline">
+                {t(LESSON_VIDEO_FIELD_LABELS[reference.field])}
+              </Badge>
+            </div>
+            <div className="mt-1 text-sm text-muted-foreground">
+              {localizeText(course.name)} / {localizeText(topic.name)}
+            </div>
+          </Link>
+        </li>
+      );
+    }
+
+    const { freeCourse, section, contentItem } = reference;
+    return (
+      <li key={`${contentItem._id}-${index}`}>
+        <Link
+          to={`/dashboard/free-courses/${freeCourse._id}/sections/${section._id}/content`}
+          className="block rounded-md border p-3 hover:bg-muted/50"
+          onClick={onClose}
+        >
+          <div className="font-medium">
+            {localizeText(contentItem.title, t("videoLibrary.untitledItem"))}
+          </div>
+          <div className="mt-1 text-sm text-muted-foreground">
+            {localizeText(freeCourse.name)} / {localizeText(section.title)}
+          </div>
+        </Link>
+      </li>
+    );
+  };
+
+  const renderGroup = (
+    title: string,
+    icon: React.ReactNode,
+    items: VideoUsageReference[]
+  ) =>
+    items.length > 0 && (
+      <div className="space-y-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold">
+          {icon}
+          {title} ({items.length})
+        </h3>
+        <ul className="space-y-2">{items.map(renderReference)}</ul>
+      </div>
+    );
+
+  return (
+    <Sheet open={!!video} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader className="border-b">
+          <SheetTitle>{t("videoLibrary.usedIn")}</SheetTitle>
+          <SheetDescription className="truncate">{video?.name}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-6 overflow-y-auto px-4 pb-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : isError ? (
+            <p className="py-8 text-center text-sm text-red-600">
+              {t("videoLibrary.usageLoadFailed")}
+            </p>
+          ) : references.length === 0 ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              <Link2Off className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+              {t("videoLibrary.notUsed")}
+            </div>
+          ) : (
+            <>
+              {renderGroup(
+                t("videoLibrary.lessons"),
+                <GraduationCap className="h-4 w-4" />,
+                lessonReferences
+              )}
+              {renderGroup(
+                t("videoLibrary.freeCourses"),
+                <BookOpen className="h-4 w-4" />,
+                freeCourseReferences
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -11,6 +11,12 @@ import type {
   CreateAdminInput,
   UpdateAdminInput,
 } from "../types/api"
+import { AuditAction, AuditEntityType } from "../types/api"
+import {
+  useAuditRecorder,
+  fetchEntityBefore,
+  getEntityLabel,
+} from "./use-audit-log"
 
 // Query keys
 export const adminKeys = {
@@ -138,10 +144,23 @@ export const useDeleteAdmin = () => {
 // Hard delete admin mutation
 export const useHardDeleteAdmin = () => {
   const queryClient = useQueryClient()
+  const recordAudit = useAuditRecorder()
 
   return useMutation({
     mutationFn: (id: string) => adminService.hardDeleteAdmin(id),
-    onSuccess: () => {
+    onMutate: (id) =>
+      fetchEntityBefore(queryClient, adminKeys.all, id, () =>
+        adminService.getAdminById(id)
+      ),
+    onSuccess: (_, id, before) => {
+      recordAudit({
+        action: AuditAction.HARD_DELETE,
+        entityType: AuditEntityType.ADMIN,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: before ?? null,
+        after: null,
+      })
       queryClient.invalidateQueries({ queryKey: adminKeys.all })
     },
   })
@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
-import { attachedFilesService, type CreateAttachedFileInput, type UpdateAttachedFileInput } from "@/services/attached-files-service";
+import { t } from "@/i18n";
+import { attachedFilesService, type AttachedFile, type CreateAttachedFileInput, type UpdateAttachedFileInput } from "@/services/attached-files-service";
+import { UploadService } from "@/services/upload-service";
+import { useUploadStore, waitForUpload } from "@/stores/upload-store";
 
 // Hook to get attached files by entity
 export function useAttachedFiles(
@@ -27,6 +30,43 @@ export function useAttachedFile(
   });
 }
 
+// Hook to get a presigned URL for previewing a file. Files listed with
+// presigned URLs already carry one, so the request is only made when missing.
+export function useAttachedFilePreviewUrl(file: AttachedFile | null) {
+  const query = useQuery({
+    queryKey: ["attached-file-preview-url", file?._id],
+    queryFn: () => attachedFilesService.getPresignedDownloadUrl(file!._id),
+    enabled: !!file && !file.presignedDownloadUrl,
+    staleTime: 50 * 60 * 1000, // presigned URLs expire after an hour
+  });
+
+  return {
+    url: file?.presignedDownloadUrl || query.data?.data?.downloadUrl,
+    isLoading: query.isLoading,
+    isError: query.isError,
+  };
+}
+
+const TEXT_PREVIEW_BYTES = 512 * 1024; // 512KB
+
+// Hook to read the start of a text file for an inline preview
+export function useAttachedFileText(url: string | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: ["attached-file-text", url],
+    queryFn: async () => {
+      const response = await fetch(url!);
+      if (!response.ok) throw new Error(t("files.loadFailed", { status: response.status }));
+      const blob = await response.blob();
+      return {
+        text: await blob.slice(0, TEXT_PREVIEW_BYTES).text(),
+        truncated: blob.size > TEXT_PREVIEW_BYTES,
+      };
+    },
+    enabled: !!url && enabled,
+    staleTime: Infinity,
+  });
+}
+
 // Hook to get file statistics for an entity
 export function useEntityFileStats(
   entityType: "course" | "topic" | "lesson",
@@ -54,14 +94,149 @@ export function useCreateAttachedFile() {
       queryClient.invalidateQueries({ 
         queryKey: ["attached-files-stats", variables.entityType, variables.entityId] 
       });
-      toast.success("File attached successfully!");
+      toast.success(t("toast.fileAttached"));
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : "Failed to attach file");
+      toast.error(error instanceof Error ? error.message : t("toast.fileAttachFailed"));
     },
   });
 }
 
+// Hook to upload a file through the global upload queue and attach it to the
+// entity once it is stored. Returns the upload task id.
+export function useQueueAttachedFileUpload() {
+  const queryClient = useQueryClient();
+  const enqueue = useUploadStore((state) => state.enqueue);
+
+  return ({
+    file,
+    folder,
+    data,
+    onUploaded,
+  }: {
+    file: File;
+    folder: string;
+    data: Omit<CreateAttachedFileInput, "fileUrl" | "fileType">;
+    onUploaded?: () => void;
+  }) =>
+    enqueue({
+      file,
+      label: data.name.en,
+      uploadType: UploadService.getUploadType(file.type),
+      folder,
+      onComplete: async (uploadResult) => {
+        try {
+          await attachedFilesService.createAttachedFile({
+            ...data,
+            fileUrl: uploadResult.key, // Use the S3 key
+            fileType: file.type,
+          });
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : t("toast.fileAttachFailed"));
+          throw error;
+        }
+
+        queryClient.invalidateQueries({
+          queryKey: ["attached-files", data.entityType, data.entityId]
+        });
+        queryClient.invalidateQueries({
+          queryKey: ["attached-files-stats", data.entityType, data.entityId]
+        });
+        toast.success(t("toast.fileAttached"));
+        onUploaded?.();
+      },
+    });
+}
+
+export interface BulkUploadItem {
+  id: string;
+  file: File;
+  name: CreateAttachedFileInput["name"];
+  // Storage key of a file uploaded by an earlier attempt
+  fileUrl?: string;
+}
+
+export interface BulkUploadItemUpdate {
+  status: "uploading" | "saving" | "done" | "failed";
+  taskId?: string;
+  fileUrl?: string;
+  error?: string;
+}
+
+// Hook to upload many files in parallel through the upload queue. Each file's
+// record is created as soon as that file is stored, by the upload task itself,
+// so a paused upload still gets attached once it is resumed from the tray.
+// Progress is reported per item.
+export function useBulkUploadAttachedFiles() {
+  const queryClient = useQueryClient();
+  const enqueue = useUploadStore((state) => state.enqueue);
+
+  return async ({
+    items,
+    folder,
+    entityType,
+    entityId,
+    onItemUpdate,
+  }: {
+    items: BulkUploadItem[];
+    folder: string;
+    entityType: CreateAttachedFileInput["entityType"];
+    entityId: string;
+    onItemUpdate: (id: string, update: BulkUploadItemUpdate) => void;
+  }) => {
+    const getMessage = (reason: unknown) =>
+      reason instanceof Error ? reason.message : String(reason);
+
+    const createRecord = async (item: BulkUploadItem, fileUrl: string) => {
+      onItemUpdate(item.id, { status: "saving", fileUrl });
+      await attachedFilesService.createAttachedFile({
+        name: item.name,
+        fileUrl,
+        fileType: item.file.type,
+        entityType,
+        entityId,
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["attached-files", entityType, entityId]
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["attached-files-stats", entityType, entityId]
+      });
+    };
+
+    const results = await Promise.allSettled(
+      items.map(async (item) => {
+        // Already in storage from an earlier attempt; only the record is missing
+        if (item.fileUrl) return createRecord(item, item.fileUrl);
+
+        const taskId = enqueue({
+          file: item.file,
+          label: item.name.en,
+          uploadType: UploadService.getUploadType(item.file.type),
+          folder,
+          onComplete: (uploadResult) => createRecord(item, uploadResult.key),
+        });
+        onItemUpdate(item.id, { status: "uploading", taskId });
+        await waitForUpload(taskId);
+      })
+    );
+
+    results.forEach((result, index) => {
+      onItemUpdate(
+        items[index].id,
+        result.status === "fulfilled"
+          ? { status: "done" }
+          : { status: "failed", error: getMessage(result.reason) }
+      );
+    });
+
+    const succeeded = results.filter(
+      (result) => result.status === "fulfilled"
+    ).length;
+    return { succeeded, failed: items.length - succeeded };
+  };
+}
+
 // Hook to update an attached file
 export function useUpdateAttachedFile() {
   const queryClient = useQueryClient();
@@ -79,10 +254,10 @@ export function useUpdateAttachedFile() {
           queryKey: ["attached-files", file.entityType, file.entityId] 
         });
       }
-      toast.success("File updated successfully!");
+      toast.success(t("toast.fileUpdated"));
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : "Failed to update file");
+      toast.error(error instanceof Error ? error.message : t("toast.fileUpdateFailed"));
     },
   });
 }
@@ -98,10 +273,10 @@ export function useDeleteAttachedFile() {
       queryClient.invalidateQueries({ queryKey: ["attached-files"] });
       queryClient.invalidateQueries({ queryKey: ["attached-files-stats"] });
       queryClient.invalidateQueries({ queryKey: ["attached-file", fileId] });
-      toast.success("File deleted successfully!");
+      toast.success(t("toast.fileDeleted"));
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : "Failed to delete file");
+      toast.error(error instanceof Error ? error.message : t("toast.fileDeleteFailed"));
     },
   });
 }
@@ -112,7 +287,7 @@ export function usePresignedDownloadUrl() {
     mutationFn: ({ fileId, expiresIn }: { fileId: string; expiresIn?: number }) => 
       attachedFilesService.getPresignedDownloadUrl(fileId, expiresIn),
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : "Failed to generate download URL");
+      toast.error(error instanceof Error ? error.message : t("toast.fileDownloadFailed"));
     },
   });
 }
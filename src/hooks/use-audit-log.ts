@@ -0,0 +1,136 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  useQuery,
+  useQueryClient,
+  keepPreviousData,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
+import * as auditLogService from '../services/audit-log-service';
+import type { ApiResponse, AuditLogQueryParams, CreateAuditLogInput } from '../types/api';
+import { resolveLocalizedText, type LocalizedValue } from '../lib/localized-text';
+import { t } from '@/i18n';
+
+const AUDIT_RETRY_DELAY = 2 * 1000; // 2 seconds
+
+// Query keys
+export const auditLogKeys = {
+  all: ['audit-logs'] as const,
+  lists: () => [...auditLogKeys.all, 'list'] as const,
+  list: (params: AuditLogQueryParams) => [...auditLogKeys.lists(), params] as const,
+  details: () => [...auditLogKeys.all, 'detail'] as const,
+  detail: (id: string) => [...auditLogKeys.details(), id] as const,
+};
+
+// Get audit log entries with pagination and filters
+export const useAuditLogs = (params: AuditLogQueryParams = {}) => {
+  return useQuery({
+    queryKey: auditLogKeys.list(params),
+    queryFn: () => auditLogService.getAuditLogs(params),
+    placeholderData: keepPreviousData,
+  });
+};
+
+// Get a single audit log entry
+export const useAuditLog = (id: string) => {
+  return useQuery({
+    queryKey: auditLogKeys.detail(id),
+    queryFn: () => auditLogService.getAuditLogById(id),
+    enabled: !!id,
+  });
+};
+
+// Depth-first search for an object with the given _id inside cached query data
+const findById = (value: unknown, id: string, depth = 0): Record<string, unknown> | undefined => {
+  if (!value || typeof value !== 'object' || depth > 6) return undefined;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findById(item, id, depth + 1);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  if (record._id === id) return record;
+  for (const child of Object.values(record)) {
+    const found = findById(child, id, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// The current cached copy of an entity, or null when nothing is cached
+const getCachedEntity = (
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string
+): Record<string, unknown> | null => {
+  for (const [, data] of queryClient.getQueriesData({ queryKey })) {
+    const found = findById(data, id);
+    if (found) return { ...found };
+  }
+  return null;
+};
+
+/**
+ * Loads an entity right before a mutation changes it, so its audit entry has
+ * a "before" state even when the entity was never cached. Falls back to the
+ * cached copy when the request fails and never throws.
+ */
+export const fetchEntityBefore = async (
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string,
+  fetchEntity: () => Promise<ApiResponse<unknown>>
+): Promise<Record<string, unknown> | null> => {
+  try {
+    const { data } = await fetchEntity();
+    if (data && typeof data === 'object') return { ...(data as Record<string, unknown>) };
+  } catch {
+    // Fall back to whatever the cache holds
+  }
+  return getCachedEntity(queryClient, queryKey, id);
+};
+
+const createAuditLogWithRetry = async (entry: CreateAuditLogInput) => {
+  try {
+    await auditLogService.createAuditLog(entry);
+  } catch {
+    await new Promise((resolve) => setTimeout(resolve, AUDIT_RETRY_DELAY));
+    await auditLogService.createAuditLog(entry);
+  }
+};
+
+/**
+ * Returns a fire-and-forget recorder for audit entries. A failed write is
+ * retried once and then reported, without turning the successful mutation
+ * it belongs to into an error.
+ */
+export const useAuditRecorder = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (entry: CreateAuditLogInput) => {
+      createAuditLogWithRetry(entry)
+        .then(() => queryClient.invalidateQueries({ queryKey: auditLogKeys.all }))
+        .catch(() => toast.error(t('toast.auditWriteFailed')));
+    },
+    [queryClient]
+  );
+};
+
+// Human readable name for an entity snapshot (users, admins, named entities)
+export const getEntityLabel = (entity: Record<string, unknown> | null): string | undefined => {
+  if (!entity) return undefined;
+  const name = entity.fullName ?? entity.userName ?? entity.name ?? entity.title;
+  // Stored labels stay in English whatever language the admin is browsing in
+  return resolveLocalizedText(name as LocalizedValue) || undefined;
+};
+
+// Narrow a snapshot to the fields an update touched so the diff stays focused
+export const pickFields = (
+  entity: Record<string, unknown> | null,
+  fields: string[]
+): Record<string, unknown> | null =>
+  entity ? Object.fromEntries(fields.map((field) => [field, entity[field]])) : null;
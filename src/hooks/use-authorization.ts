@@ -0,0 +1,41 @@
+import { useShallow } from "zustand/react/shallow"
+import { useAuthStore } from "@/stores/auth-store"
+import type {
+  PermissionAction,
+  PermissionName,
+  PermissionResource,
+} from "@/types/api"
+
+// Build the permission name checked against the admin's role
+export const getPermissionName = (
+  action: PermissionAction,
+  resource: PermissionResource
+): PermissionName => `${action}_${resource}`
+
+// Check a single action on a resource for the current admin
+export const useHasPermission = (
+  action: PermissionAction,
+  resource: PermissionResource
+): boolean => {
+  const permission = getPermissionName(action, resource)
+  return useAuthStore((state) => state.hasPermission(permission))
+}
+
+// Check whether the current admin has any of the given permissions
+export const useAnyPermission = (permissions: PermissionName[]): boolean => {
+  return useAuthStore((state) => state.hasAnyPermission(permissions))
+}
+
+// Keep the items the current admin may see; items without a permission are
+// always kept (navigation entries, quick actions)
+export const usePermittedItems = <T extends { permission?: PermissionName }>(
+  items: T[]
+): T[] => {
+  return useAuthStore(
+    useShallow((state) =>
+      items.filter(
+        (item) => !item.permission || state.hasPermission(item.permission)
+      )
+    )
+  )
+}
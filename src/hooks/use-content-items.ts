@@ -2,6 +2,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { addContentToSection, getFreeCourseById,removeContentFromSection,updateSection } from '@/services/free-course-service';
 import type { CreateContentItemInput, ContentItem } from '@/types/api';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 
 // Query keys
 export const contentItemKeys = {
@@ -65,10 +66,10 @@ export function useCreateContentItem(freeCourseId: string, sectionId: string) {
       queryClient.invalidateQueries({ queryKey: contentItemKeys.bySection(freeCourseId, sectionId) });
       queryClient.invalidateQueries({ queryKey: ['sections', 'freeCourse', freeCourseId] });
       queryClient.invalidateQueries({ queryKey: ['freeCourses'] });
-      toast.success('Content item created successfully');
+      toast.success(t('toast.contentItemCreated'));
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to create content item');
+      toast.error(error.response?.data?.message || t('toast.contentItemCreateFailed'));
     },
   });
 }
@@ -104,10 +105,10 @@ export function useUpdateContentItem(freeCourseId: string, sectionId: string, co
       queryClient.invalidateQueries({ queryKey: contentItemKeys.detail(freeCourseId, sectionId, contentId) });
       queryClient.invalidateQueries({ queryKey: ['sections', 'freeCourse', freeCourseId] });
       queryClient.invalidateQueries({ queryKey: ['freeCourses'] });
-      toast.success('Content item updated successfully');
+      toast.success(t('toast.contentItemUpdated'));
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to update content item');
+      toast.error(error.response?.data?.message || t('toast.contentItemUpdateFailed'));
     },
   });
 }
@@ -125,10 +126,10 @@ export function useDeleteContentItem(freeCourseId: string, sectionId: string) {
       queryClient.invalidateQueries({ queryKey: contentItemKeys.bySection(freeCourseId, sectionId) });
       queryClient.invalidateQueries({ queryKey: ['sections', 'freeCourse', freeCourseId] });
       queryClient.invalidateQueries({ queryKey: ['freeCourses'] });
-      toast.success('Content item deleted successfully');
+      toast.success(t('toast.contentItemDeleted'));
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to delete content item');
+      toast.error(error.response?.data?.message || t('toast.contentItemDeleteFailed'));
     },
   });
 }
@@ -1,14 +1,38 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { enrollmentService } from '../services/enrollment-service'
+import { t } from '../i18n'
+import { AuditAction, AuditEntityType } from '../types/api'
 import type {
+  Enrollment,
   EnrollmentFilters,
   PaginationParams,
   RefundRequest
 } from '../types/api'
+import { useAuditRecorder, fetchEntityBefore } from './use-audit-log'
+import { resolveLocalizedText } from '../lib/localized-text'
+
+// Label enrollments in the audit log as "<student> · <course>"
+const getEnrollmentLabel = (enrollment: Record<string, unknown> | null) => {
+  if (!enrollment) return undefined
+  const { userId, courseId } = enrollment as Partial<Enrollment>
+  const courseName = resolveLocalizedText(courseId?.name)
+  return [userId?.fullName, courseName].filter(Boolean).join(' · ') || undefined
+}
+
+const pickPaymentFields = (enrollment?: Partial<Enrollment> | null) =>
+  enrollment
+    ? {
+        paymentStatus: enrollment.paymentStatus,
+        finalAmount: enrollment.finalAmount,
+        currency: enrollment.currency,
+        isActive: enrollment.isActive,
+      }
+    : null
 
 export function useEnrollments(params: PaginationParams & EnrollmentFilters = {}) {
   const queryClient = useQueryClient()
+  const recordAudit = useAuditRecorder()
 
   // Fetch enrollments
   const {
@@ -37,13 +61,26 @@ export function useEnrollments(params: PaginationParams & EnrollmentFilters = {}
   const refundMutation = useMutation({
     mutationFn: ({ enrollmentId, refundData }: { enrollmentId: string; refundData?: RefundRequest }) =>
       enrollmentService.adminRefundEnrollment(enrollmentId, refundData),
-    onSuccess: (data) => {
-      toast.success(data.message || 'Enrollment refunded successfully')
+    onMutate: ({ enrollmentId }) =>
+      fetchEntityBefore(queryClient, ['enrollments'], enrollmentId, () =>
+        enrollmentService.getEnrollmentById(enrollmentId)
+      ),
+    onSuccess: (data, { enrollmentId, refundData }, before) => {
+      recordAudit({
+        action: AuditAction.REFUND,
+        entityType: AuditEntityType.ENROLLMENT,
+        entityId: enrollmentId,
+        entityLabel: getEnrollmentLabel(before ?? null),
+        before: pickPaymentFields(before as Partial<Enrollment> | null),
+        after: pickPaymentFields(data.data),
+        metadata: refundData?.amount !== undefined ? { amount: refundData.amount } : undefined,
+      })
+      toast.success(data.message || t('toast.enrollmentRefunded'))
       queryClient.invalidateQueries({ queryKey: ['enrollments'] })
       queryClient.invalidateQueries({ queryKey: ['enrollment-stats'] })
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to refund enrollment')
+      toast.error(error.response?.data?.message || t('toast.enrollmentRefundFailed'))
     }
   })
 
@@ -51,13 +88,25 @@ export function useEnrollments(params: PaginationParams & EnrollmentFilters = {}
   const cancelMutation = useMutation({
     mutationFn: (enrollmentId: string) =>
       enrollmentService.adminCancelEnrollment(enrollmentId),
-    onSuccess: (data) => {
-      toast.success(data.message || 'Enrollment cancelled successfully')
+    onMutate: (enrollmentId) =>
+      fetchEntityBefore(queryClient, ['enrollments'], enrollmentId, () =>
+        enrollmentService.getEnrollmentById(enrollmentId)
+      ),
+    onSuccess: (data, enrollmentId, before) => {
+      recordAudit({
+        action: AuditAction.CANCEL,
+        entityType: AuditEntityType.ENROLLMENT,
+        entityId: enrollmentId,
+        entityLabel: getEnrollmentLabel(before ?? null),
+        before: pickPaymentFields(before as Partial<Enrollment> | null),
+        after: pickPaymentFields(data.data),
+      })
+      toast.success(data.message || t('toast.enrollmentCancelled'))
       queryClient.invalidateQueries({ queryKey: ['enrollments'] })
       queryClient.invalidateQueries({ queryKey: ['enrollment-stats'] })
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to cancel enrollment')
+      toast.error(error.response?.data?.message || t('toast.enrollmentCancelFailed'))
     }
   })
 
@@ -109,3 +158,22 @@ export function useEnrollmentStats(startDate?: string, endDate?: string) {
     staleTime: 10 * 60 * 1000, // 10 minutes
   })
 }
+
+// Hook for the most recent enrollments (dashboard activity feed)
+export function useRecentEnrollments(limit: number = 5, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['enrollments', 'recent', limit],
+    queryFn: () => enrollmentService.getAllEnrollments({ page: 1, limit, sort: '-createdAt' }),
+    enabled,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  })
+}
+
+// Hook for every enrollment in a date range (analytics charts)
+export function useEnrollmentAnalytics(startDate?: string, endDate?: string) {
+  return useQuery({
+    queryKey: ['enrollment-analytics', startDate, endDate],
+    queryFn: () => enrollmentService.getEnrollmentsInRange(startDate, endDate),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
@@ -0,0 +1,71 @@
+import { useCallback, useRef, useState } from "react"
+import { streamPages, type ExportPageFetcher } from "../services/export-service"
+import {
+  buildExportFile,
+  downloadBlob,
+  getExportFilename,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportLanguage,
+} from "../lib/export"
+
+export interface ExportProgress {
+  loaded: number
+  total?: number
+}
+
+interface RunExportOptions<T> {
+  columns: ExportColumn<T>[]
+  format: ExportFormat
+  language: ExportLanguage
+  name: string
+}
+
+/**
+ * Streams every page from a fetcher into a CSV or XLSX download
+ * @param fetchPage - Loads one page of rows
+ * @returns runExport resolves with the number of exported rows
+ */
+export function useExport<T>(fetchPage: ExportPageFetcher<T>) {
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const runExport = useCallback(
+    async ({ columns, format, language, name }: RunExportOptions<T>) => {
+      const controller = new AbortController()
+      abortRef.current = controller
+      setProgress({ loaded: 0 })
+
+      try {
+        const rows: T[] = []
+        for await (const page of streamPages(fetchPage, {
+          signal: controller.signal,
+        })) {
+          rows.push(...page.items)
+          setProgress({ loaded: rows.length, total: page.totalItems })
+        }
+
+        const file = buildExportFile(rows, columns, {
+          format,
+          language,
+          sheetName: name,
+        })
+        downloadBlob(file, getExportFilename(name, format))
+        return rows.length
+      } finally {
+        abortRef.current = null
+        setProgress(null)
+      }
+    },
+    [fetchPage]
+  )
+
+  const cancel = useCallback(() => abortRef.current?.abort(), [])
+
+  return {
+    runExport,
+    cancel,
+    progress,
+    isExporting: progress !== null,
+  }
+}
@@ -5,6 +5,12 @@ import type {
   UpdateFacultyInput,
   PaginationParams,
 } from "../types/api"
+import { AuditAction, AuditEntityType } from "../types/api"
+import {
+  useAuditRecorder,
+  fetchEntityBefore,
+  getEntityLabel,
+} from "./use-audit-log"
 
 // Query keys
 export const facultyKeys = {
@@ -112,10 +118,23 @@ export const useDeleteFaculty = () => {
 // Hard delete faculty mutation
 export const useHardDeleteFaculty = () => {
   const queryClient = useQueryClient()
+  const recordAudit = useAuditRecorder()
 
   return useMutation({
     mutationFn: (id: string) => facultyService.hardDeleteFaculty(id),
-    onSuccess: () => {
+    onMutate: (id) =>
+      fetchEntityBefore(queryClient, facultyKeys.all, id, () =>
+        facultyService.getFacultyById(id)
+      ),
+    onSuccess: (_, id, before) => {
+      recordAudit({
+        action: AuditAction.HARD_DELETE,
+        entityType: AuditEntityType.FACULTY,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: before ?? null,
+        after: null,
+      })
       // Invalidate and refetch faculty-related queries
       queryClient.invalidateQueries({ queryKey: facultyKeys.all })
     },
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  IDLE_TIMEOUT_MS,
+  IDLE_WARNING_MS,
+  LAST_ACTIVITY_KEY,
+} from "@/lib/session-config";
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
+
+// Avoid writing to localStorage on every mouse move
+const ACTIVITY_THROTTLE_MS = 5 * 1000;
+
+const getLastActivity = (): number => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : Date.now();
+};
+
+const recordActivity = () => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, Date.now().toString());
+};
+
+/**
+ * Tracks admin inactivity across all tabs and reports how long is left
+ * before the session should end.
+ * @param enabled - Only track while authenticated
+ * @param onTimeout - Called once the idle timeout has fully elapsed
+ */
+export function useIdleTimeout(enabled: boolean, onTimeout: () => void) {
+  const [remainingMs, setRemainingMs] = useState(IDLE_TIMEOUT_MS);
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    setRemainingMs(IDLE_TIMEOUT_MS);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    recordActivity();
+    let lastWrite = Date.now();
+
+    const handleActivity = () => {
+      const now = Date.now();
+      // Once the warning is showing only an explicit "stay" resets the timer
+      if (IDLE_TIMEOUT_MS - (now - getLastActivity()) <= IDLE_WARNING_MS) {
+        return;
+      }
+      if (now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      recordActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    const interval = window.setInterval(() => {
+      const remaining = IDLE_TIMEOUT_MS - (Date.now() - getLastActivity());
+      setRemainingMs(Math.max(remaining, 0));
+      if (remaining <= 0) {
+        window.clearInterval(interval);
+        onTimeout();
+      }
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      window.clearInterval(interval);
+    };
+  }, [enabled, onTimeout]);
+
+  return {
+    remainingMs,
+    isWarning: enabled && remainingMs <= IDLE_WARNING_MS,
+    stayActive,
+  };
+}
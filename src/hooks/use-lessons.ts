@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { lessonService } from "@/services/lesson-service"
+import { videoLibraryKeys } from "./use-videos-library"
 import type {
   CreateLessonInput,
   UpdateLessonInput,
@@ -88,6 +89,9 @@ export const useCreateLesson = () => {
 
       // Invalidate stats
       queryClient.invalidateQueries({ queryKey: lessonKeys.stats() })
+
+      // Recordings may have been linked or unlinked
+      queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() })
     },
   })
 }
@@ -123,6 +127,9 @@ export const useUpdateLesson = () => {
 
       // Invalidate stats
       queryClient.invalidateQueries({ queryKey: lessonKeys.stats() })
+
+      // Recordings may have been linked or unlinked
+      queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() })
     },
   })
 }
@@ -142,6 +149,9 @@ export const useDeleteLesson = () => {
 
       // Invalidate stats
       queryClient.invalidateQueries({ queryKey: lessonKeys.stats() })
+
+      // Recordings may have been linked or unlinked
+      queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() })
     },
   })
 }
@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import { useLanguageStore } from "@/stores/language-store";
+import {
+  LOCALIZED_FALLBACK_CHAINS,
+  resolveLocalizedText,
+  type LocalizedValue,
+} from "@/lib/localized-text";
+
+/**
+ * Returns a resolver for multilingual values in the admin's selected display
+ * language, falling back through the other languages when a translation is
+ * missing
+ */
+export function useLocalizedText() {
+  const language = useLanguageStore((state) => state.language);
+
+  return useCallback(
+    (value: LocalizedValue, fallback = "") =>
+      resolveLocalizedText(value, LOCALIZED_FALLBACK_CHAINS[language], fallback),
+    [language]
+  );
+}
@@ -9,6 +9,8 @@ import type {
   PaginationParams,
   CreatePermissionInput,
   UpdatePermissionInput,
+  PermissionAction,
+  PermissionResource,
 } from "../types/api"
 
 // Query keys
@@ -89,6 +91,34 @@ export const useCreatePermission = () => {
   })
 }
 
+// Create one permission per action for a resource the backend doesn't know yet
+export const useCreateResourcePermissions = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      resource,
+      actions,
+    }: {
+      resource: PermissionResource
+      actions: PermissionAction[]
+    }) =>
+      Promise.all(
+        actions.map((action) =>
+          permissionService.createPermission({
+            name: `${action}_${resource}`,
+            resource,
+            action,
+            description: `Can ${action} ${resource.replace(/_/g, " ")}`,
+          })
+        )
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: permissionKeys.all })
+    },
+  })
+}
+
 // Update permission mutation
 export const useUpdatePermission = () => {
   const queryClient = useQueryClient()
@@ -1,5 +1,11 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
 import { progressService } from "@/services/progress-service";
+import { AuditAction, AuditEntityType } from "@/types/api";
 import type {
   InitializeProgressRequest,
   MarkLessonViewedRequest,
@@ -8,7 +14,12 @@ import type {
   AddTimeSpentRequest,
   ResetProgressRequest,
   ProgressQueryParams,
+  Progress,
+  ProgressWithCourse,
+  ApiResponse,
 } from "@/types/api";
+import { createLessonVideoAnalyticsBuilder } from "@/lib/lesson-video-analytics";
+import { useAuditRecorder } from "./use-audit-log";
 
 // Query keys
 export const progressKeys = {
@@ -23,6 +34,32 @@ export const progressKeys = {
   lesson: (enrollmentId: string, lessonId: string) => [...progressKeys.all, "lesson", enrollmentId, lessonId] as const,
   statistics: (courseId: string) => [...progressKeys.all, "statistics", courseId] as const,
   leaderboard: (courseId: string, limit: number) => [...progressKeys.all, "leaderboard", courseId, limit] as const,
+  lessonVideoAnalytics: (courseId: string, lessonId: string) =>
+    [...progressKeys.all, "lesson-video-analytics", courseId, lessonId] as const,
+};
+
+// Headline numbers recorded in the audit log before a reset or delete. Loaded
+// fresh so the entry has them even when the progress was never cached.
+const fetchProgressSnapshot = async (
+  queryClient: QueryClient,
+  enrollmentId: string
+) => {
+  let progress: Progress | undefined;
+  try {
+    progress = (await progressService.getProgress(enrollmentId)).data?.progress;
+  } catch {
+    progress = queryClient.getQueryData<ApiResponse<ProgressWithCourse>>(
+      progressKeys.detail(enrollmentId)
+    )?.data?.progress;
+  }
+  if (!progress) return null;
+  return {
+    completedTopics: progress.completedTopics,
+    completedLessons: progress.completedLessons,
+    courseCompletionPercentage: progress.courseCompletionPercentage,
+    totalTimeSpent: progress.totalTimeSpent,
+    isCourseCompleted: progress.isCourseCompleted,
+  };
 };
 
 // Query Hooks
@@ -96,6 +133,21 @@ export const useCourseLeaderboard = (courseId: string, limit: number = 10) => {
   });
 };
 
+// Get video engagement for one lesson across every student of its course
+// (admin). Progress is aggregated page by page as it arrives.
+export const useLessonVideoAnalytics = (courseId: string, lessonId: string) => {
+  return useQuery({
+    queryKey: progressKeys.lessonVideoAnalytics(courseId, lessonId),
+    queryFn: async () => {
+      const builder = createLessonVideoAnalyticsBuilder(lessonId);
+      await progressService.forEachCourseProgressPage(courseId, builder.add);
+      return builder.build();
+    },
+    enabled: !!courseId && !!lessonId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
 // Get paginated progress list (admin)
 export const useProgressList = (params?: ProgressQueryParams) => {
   return useQuery({
@@ -223,11 +275,22 @@ export const useAddTimeSpent = () => {
 // Reset progress (admin)
 export const useResetProgress = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
 
   return useMutation({
     mutationFn: ({ enrollmentId, data }: { enrollmentId: string; data: ResetProgressRequest }) =>
       progressService.resetProgress(enrollmentId, data),
-    onSuccess: (_, { enrollmentId }) => {
+    onMutate: ({ enrollmentId }) =>
+      fetchProgressSnapshot(queryClient, enrollmentId),
+    onSuccess: (_, { enrollmentId, data }, before) => {
+      recordAudit({
+        action: AuditAction.RESET_PROGRESS,
+        entityType: AuditEntityType.PROGRESS,
+        entityId: enrollmentId,
+        before: before ?? null,
+        after: null,
+        metadata: { userId: data.userId },
+      });
       // Invalidate all progress queries
       queryClient.invalidateQueries({ queryKey: progressKeys.all });
       queryClient.invalidateQueries({ queryKey: progressKeys.detail(enrollmentId) });
@@ -239,11 +302,21 @@ export const useResetProgress = () => {
 // Delete progress (admin)
 export const useDeleteProgress = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
 
   return useMutation({
     mutationFn: ({ enrollmentId }: { enrollmentId: string }) =>
       progressService.deleteProgress(enrollmentId),
-    onSuccess: () => {
+    onMutate: ({ enrollmentId }) =>
+      fetchProgressSnapshot(queryClient, enrollmentId),
+    onSuccess: (_, { enrollmentId }, before) => {
+      recordAudit({
+        action: AuditAction.DELETE_PROGRESS,
+        entityType: AuditEntityType.PROGRESS,
+        entityId: enrollmentId,
+        before: before ?? null,
+        after: null,
+      });
       // Invalidate all progress queries
       queryClient.invalidateQueries({ queryKey: progressKeys.all });
       queryClient.invalidateQueries({ queryKey: progressKeys.lists() });
@@ -1,6 +1,12 @@
 import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import * as roleService from '../services/role-service';
 import type { PaginationParams, CreateRoleInput, UpdateRoleInput } from '../types/api';
+import { AuditAction, AuditEntityType } from '../types/api';
+import {
+  useAuditRecorder,
+  fetchEntityBefore,
+  getEntityLabel,
+} from './use-audit-log';
 
 // Query keys
 export const roleKeys = {
@@ -109,10 +115,23 @@ export const useDeleteRole = () => {
 // Hard delete role mutation
 export const useHardDeleteRole = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
   
   return useMutation({
     mutationFn: (id: string) => roleService.hardDeleteRole(id),
-    onSuccess: () => {
+    onMutate: (id) =>
+      fetchEntityBefore(queryClient, roleKeys.all, id, () =>
+        roleService.getRoleById(id)
+      ),
+    onSuccess: (_, id, before) => {
+      recordAudit({
+        action: AuditAction.HARD_DELETE,
+        entityType: AuditEntityType.ROLE,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: before ?? null,
+        after: null,
+      });
       queryClient.invalidateQueries({ queryKey: roleKeys.all });
     },
   });
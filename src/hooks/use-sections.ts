@@ -2,6 +2,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { addSection, getFreeCourseById,updateSection,deleteSection } from '@/services/free-course-service';
 import type { CreateSectionInput, UpdateSectionInput } from '@/types/api';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 
 // Query keys
 export const sectionKeys = {
@@ -54,10 +55,10 @@ export function useCreateSection(freeCourseId: string) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: sectionKeys.byFreeCourse(freeCourseId) });
       queryClient.invalidateQueries({ queryKey: ['freeCourses'] });
-      toast.success('Section created successfully');
+      toast.success(t('toast.sectionCreated'));
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to create section');
+      toast.error(error.response?.data?.message || t('toast.sectionCreateFailed'));
     },
   });
 }
@@ -75,10 +76,10 @@ export function useUpdateSection(freeCourseId: string, sectionId: string) {
       queryClient.invalidateQueries({ queryKey: sectionKeys.byFreeCourse(freeCourseId) });
       queryClient.invalidateQueries({ queryKey: sectionKeys.detail(freeCourseId, sectionId) });
       queryClient.invalidateQueries({ queryKey: ['freeCourses'] });
-      toast.success('Section updated successfully');
+      toast.success(t('toast.sectionUpdated'));
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to update section');
+      toast.error(error.response?.data?.message || t('toast.sectionUpdateFailed'));
     },
   });
 }
@@ -95,10 +96,10 @@ export function useDeleteSection(freeCourseId: string) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: sectionKeys.byFreeCourse(freeCourseId) });
       queryClient.invalidateQueries({ queryKey: ['freeCourses'] });
-      toast.success('Section deleted successfully');
+      toast.success(t('toast.sectionDeleted'));
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.message || 'Failed to delete section');
+      toast.error(error.response?.data?.message || t('toast.sectionDeleteFailed'));
     },
   });
 }
@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useHasPermission } from './use-authorization';
+import { useTranslation } from './use-translation';
+import { universityService } from '../services/university-service';
+import { facultyService } from '../services/faculty-service';
+import { paginatedSource, streamPages } from '../services/export-service';
+import {
+  collectTranslationFields,
+  type TranslationSources,
+} from '../lib/translation-coverage';
+import type { Course, FreeCourse, Lesson, Quiz, Topic } from '../types/api';
+
+const COVERAGE_PAGE_SIZE = 100;
+
+// Query keys
+export const translationCoverageKeys = {
+  all: ['translation-coverage'] as const,
+  source: (name: keyof TranslationSources) =>
+    [...translationCoverageKeys.all, name] as const,
+};
+
+// Walks every page of a list endpoint and returns the combined rows
+const loadAllPages = async <T>(url: string): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const page of streamPages(paginatedSource<T>(url), {
+    pageSize: COVERAGE_PAGE_SIZE,
+  })) {
+    items.push(...page.items);
+  }
+  return items;
+};
+
+const useCoverageSource = <T>(
+  name: keyof TranslationSources,
+  load: () => Promise<T[]>,
+  enabled: boolean
+) => {
+  return useQuery({
+    queryKey: translationCoverageKeys.source(name),
+    queryFn: load,
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+/**
+ * Loads every translatable entity the admin can read and flattens them into
+ * translation fields. Entity types without read access are left out.
+ */
+export const useTranslationCoverage = () => {
+  const { language } = useTranslation();
+  const canReadUniversities = useHasPermission('read', 'universities');
+  const canReadFaculties = useHasPermission('read', 'faculties');
+  const canReadCourses = useHasPermission('read', 'courses');
+  const canReadTopics = useHasPermission('read', 'topics');
+  const canReadLessons = useHasPermission('read', 'lessons');
+  const canReadQuizzes = useHasPermission('read', 'quizzes');
+  const canReadFreeCourses = useHasPermission('read', 'free_courses');
+
+  const universities = useCoverageSource(
+    'universities',
+    async () => (await universityService.getAllUniversities()).data || [],
+    canReadUniversities
+  );
+  const faculties = useCoverageSource(
+    'faculties',
+    async () => (await facultyService.getAllFaculties()).data || [],
+    canReadFaculties
+  );
+  const courses = useCoverageSource(
+    'courses',
+    () => loadAllPages<Course>('/dashboard/courses'),
+    canReadCourses
+  );
+  const topics = useCoverageSource(
+    'topics',
+    () => loadAllPages<Topic>('/dashboard/topics'),
+    canReadTopics
+  );
+  const lessons = useCoverageSource(
+    'lessons',
+    () => loadAllPages<Lesson>('/dashboard/lessons'),
+    canReadLessons
+  );
+  const quizzes = useCoverageSource(
+    'quizzes',
+    () => loadAllPages<Quiz>('/dashboard/quizzes'),
+    canReadQuizzes
+  );
+  const freeCourses = useCoverageSource(
+    'freeCourses',
+    () => loadAllPages<FreeCourse>('/dashboard/freecourses/admin/all'),
+    canReadFreeCourses
+  );
+
+  const queries = [universities, faculties, courses, topics, lessons, quizzes, freeCourses];
+
+  const fields = useMemo(
+    () =>
+      collectTranslationFields(
+        {
+          universities: universities.data,
+          faculties: faculties.data,
+          courses: courses.data,
+          topics: topics.data,
+          lessons: lessons.data,
+          quizzes: quizzes.data,
+          freeCourses: freeCourses.data,
+        },
+        language
+      ),
+    [
+      universities.data,
+      faculties.data,
+      courses.data,
+      topics.data,
+      lessons.data,
+      quizzes.data,
+      freeCourses.data,
+      language,
+    ]
+  );
+
+  return {
+    fields,
+    isLoading: queries.some((query) => query.isLoading),
+    isFetching: queries.some((query) => query.isFetching),
+    isError: queries.some((query) => query.isError),
+    refetch: () => queries.forEach((query) => query.refetch()),
+  };
+};
@@ -0,0 +1,25 @@
+import { useCallback } from "react";
+import { useLanguageStore } from "@/stores/language-store";
+import {
+  getDirection,
+  translate,
+  type TranslationKey,
+  type TranslationParams,
+} from "@/i18n";
+
+/**
+ * Returns a translate function bound to the selected language, so components
+ * re-render when the language is switched
+ */
+export function useTranslation() {
+  const language = useLanguageStore((state) => state.language);
+  const setLanguage = useLanguageStore((state) => state.setLanguage);
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) =>
+      translate(language, key, params),
+    [language]
+  );
+
+  return { t, language, dir: getDirection(language), setLanguage };
+}
@@ -5,6 +5,12 @@ import type {
   UpdateUniversityInput,
   PaginationParams,
 } from "../types/api"
+import { AuditAction, AuditEntityType } from "../types/api"
+import {
+  useAuditRecorder,
+  fetchEntityBefore,
+  getEntityLabel,
+} from "./use-audit-log"
 
 // Query keys
 const UNIVERSITY_QUERY_KEYS = {
@@ -118,10 +124,23 @@ export const useDeleteUniversity = () => {
 // Hook for hard deleting university
 export const useHardDeleteUniversity = () => {
   const queryClient = useQueryClient()
+  const recordAudit = useAuditRecorder()
 
   return useMutation({
     mutationFn: (id: string) => universityService.hardDeleteUniversity(id),
-    onSuccess: () => {
+    onMutate: (id) =>
+      fetchEntityBefore(queryClient, [UNIVERSITY_QUERY_KEYS.UNIVERSITIES], id, () =>
+        universityService.getUniversityById(id)
+      ),
+    onSuccess: (_, id, before) => {
+      recordAudit({
+        action: AuditAction.HARD_DELETE,
+        entityType: AuditEntityType.UNIVERSITY,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: before ?? null,
+        after: null,
+      })
       // Invalidate and refetch related queries
       queryClient.invalidateQueries({
         queryKey: [UNIVERSITY_QUERY_KEYS.UNIVERSITIES],
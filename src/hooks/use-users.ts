@@ -1,6 +1,13 @@
 import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import * as userService from '../services/user-service';
+import { AuditAction, AuditEntityType } from '../types/api';
 import type { PaginationParams, UpdateUserInput } from '../types/api';
+import {
+  useAuditRecorder,
+  fetchEntityBefore,
+  getEntityLabel,
+  pickFields,
+} from './use-audit-log';
 
 // Query keys
 export const userKeys = {
@@ -22,6 +29,16 @@ export const useUsers = (params: PaginationParams = {}) => {
   });
 };
 
+// Get the most recently registered users
+export const useRecentUsers = (limit: number = 5, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: [...userKeys.all, 'recent', limit],
+    queryFn: () => userService.getUsers({ page: 1, limit, sort: '-createdAt' }),
+    enabled,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
 // Get user by ID
 export const useUser = (id: string) => {
   return useQuery({
@@ -61,11 +78,22 @@ export const useSearchUsers = (params: PaginationParams = {}) => {
 // Update user mutation
 export const useUpdateUser = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
   
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: UpdateUserInput }) => 
       userService.updateUser(id, data),
-    onSuccess: (_, { id }) => {
+    onMutate: ({ id }) =>
+      fetchEntityBefore(queryClient, userKeys.all, id, () => userService.getUserById(id)),
+    onSuccess: (_, { id, data }, before) => {
+      recordAudit({
+        action: AuditAction.UPDATE,
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: pickFields(before ?? null, Object.keys(data)),
+        after: { ...data },
+      });
       queryClient.invalidateQueries({ queryKey: userKeys.detail(id) });
       queryClient.invalidateQueries({ queryKey: userKeys.all });
     },
@@ -75,10 +103,21 @@ export const useUpdateUser = () => {
 // Delete user mutation
 export const useDeleteUser = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
   
   return useMutation({
     mutationFn: (id: string) => userService.deleteUser(id),
-    onSuccess: () => {
+    onMutate: (id) =>
+      fetchEntityBefore(queryClient, userKeys.all, id, () => userService.getUserById(id)),
+    onSuccess: (_, id, before) => {
+      recordAudit({
+        action: AuditAction.DELETE,
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: before ?? null,
+        after: null,
+      });
       queryClient.invalidateQueries({ queryKey: userKeys.all });
     },
   });
@@ -87,11 +126,22 @@ export const useDeleteUser = () => {
 // Toggle user block mutation
 export const useToggleUserBlock = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
   
   return useMutation({
     mutationFn: ({ id, blocked }: { id: string; blocked: boolean }) => 
       userService.toggleUserBlock(id, blocked),
-    onSuccess: (_, { id }) => {
+    onMutate: ({ id }) =>
+      fetchEntityBefore(queryClient, userKeys.all, id, () => userService.getUserById(id)),
+    onSuccess: (_, { id, blocked }, before) => {
+      recordAudit({
+        action: blocked ? AuditAction.BLOCK : AuditAction.UNBLOCK,
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: { blocked: before?.blocked ?? !blocked },
+        after: { blocked },
+      });
       queryClient.invalidateQueries({ queryKey: userKeys.detail(id) });
       queryClient.invalidateQueries({ queryKey: userKeys.all });
     },
@@ -101,11 +151,21 @@ export const useToggleUserBlock = () => {
 // Remove user device mutation
 export const useRemoveUserDevice = () => {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
   
   return useMutation({
     mutationFn: ({ id, deviceId }: { id: string; deviceId: string }) => 
       userService.removeUserDevice(id, deviceId),
-    onSuccess: (_, { id }) => {
+    onMutate: ({ id }) =>
+      fetchEntityBefore(queryClient, userKeys.all, id, () => userService.getUserById(id)),
+    onSuccess: (_, { id, deviceId }, before) => {
+      recordAudit({
+        action: AuditAction.REMOVE_DEVICE,
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        metadata: { deviceId },
+      });
       queryClient.invalidateQueries({ queryKey: userKeys.devices(id) });
       queryClient.invalidateQueries({ queryKey: userKeys.detail(id) });
     },
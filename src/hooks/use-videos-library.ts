@@ -1,11 +1,29 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { videoLibraryService } from '@/services/videos-library-service';
+import {
+  VIDEO_THUMBNAIL_FOLDER,
+  VIDEO_UPLOAD_FOLDER,
+  videoLibraryService,
+} from '@/services/videos-library-service';
+import { isAbortError } from '@/services/multipart-upload-service';
+import { UploadService, type UploadProgress } from '@/services/upload-service';
+import { useUploadStore } from '@/stores/upload-store';
+import type { ExtractedVideoInfo } from '@/lib/video-metadata';
+import { isPlayableUrl, probeVideoUrl } from '@/lib/lesson-video';
+import { t } from '@/i18n';
 import type {
   CreateVideoLibraryInput,
+  LocalizedText,
   UpdateVideoLibraryInput,
+  VideoLibrary,
   VideoLibraryQueryParams,
 } from '@/types/api';
+import { AuditAction, AuditEntityType } from '@/types/api';
+import {
+  useAuditRecorder,
+  fetchEntityBefore,
+  getEntityLabel,
+} from './use-audit-log';
 
 // Query Keys
 export const videoLibraryKeys = {
@@ -15,6 +33,9 @@ export const videoLibraryKeys = {
   details: () => [...videoLibraryKeys.all, 'detail'] as const,
   detail: (id: string, params?: { language?: string; includePresignedUrls?: boolean }) => 
     [...videoLibraryKeys.details(), id, params] as const,
+  usage: (id: string) => [...videoLibraryKeys.all, 'usage', id] as const,
+  videoUrl: (id: string) => [...videoLibraryKeys.all, 'videoUrl', id] as const,
+  probe: (url: string) => [...videoLibraryKeys.all, 'probe', url] as const,
   stats: (entityType: string) => [...videoLibraryKeys.all, 'stats', entityType] as const,
   select: (entityType: string, language?: string) => 
     [...videoLibraryKeys.all, 'select', entityType, language] as const,
@@ -27,6 +48,8 @@ export function useVideoLibraries(params: VideoLibraryQueryParams = {}) {
   return useQuery({
     queryKey: videoLibraryKeys.list(params),
     queryFn: () => videoLibraryService.getVideoLibraries(params),
+    // Keeps the page mounted while filters change
+    placeholderData: keepPreviousData,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
@@ -47,6 +70,40 @@ export function useVideoLibrary(
   });
 }
 
+// Get the lessons and free-course content items that reference a video
+export function useVideoUsage(id: string | null) {
+  return useQuery({
+    queryKey: videoLibraryKeys.usage(id || ''),
+    queryFn: () => videoLibraryService.getVideoUsage(id!),
+    enabled: !!id,
+    // References change whenever lessons are edited; refetch on every open
+    staleTime: 0,
+  });
+}
+
+// Get the references of several videos at once, e.g. before a bulk delete
+export function useVideoUsages(ids: string[]) {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: videoLibraryKeys.usage(id),
+      queryFn: () => videoLibraryService.getVideoUsage(id),
+      staleTime: 0,
+    })),
+  });
+}
+
+// Get the names of several videos in every language, e.g. before a bulk
+// rename, which must not drop the Arabic and Hebrew names
+export function useVideoLibraryNames(ids: string[]) {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: videoLibraryKeys.detail(id, { language: 'all' }),
+      queryFn: () => videoLibraryService.getLocalizedVideoLibraryById(id),
+      staleTime: 0,
+    })),
+  });
+}
+
 // Get video statistics for an entity type
 export function useVideoLibraryStats(entityType: 'lesson' | 'course') {
   return useQuery({
@@ -102,7 +159,7 @@ export function useCreateVideoLibrary() {
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
     },
     onError: (error: Error) => {
-      toast.error(`Failed to create video library: ${error.message}`);
+      toast.error(t('toast.videoCreateFailed', { error: error.message }));
     },
   });
 }
@@ -118,14 +175,14 @@ export function useUpdateVideoLibrary() {
       params?: { language?: 'en' | 'ar' | 'he' | 'all' };
     }) => videoLibraryService.updateVideoLibrary(id, data, params),
     onSuccess: (_, variables) => {
-      toast.success('Video library updated successfully!');
+      toast.success(t('toast.videoUpdated'));
       // Invalidate and refetch related queries
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() });
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.detail(variables.id) });
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
     },
     onError: (error: Error) => {
-      toast.error(`Failed to update video library: ${error.message}`);
+      toast.error(t('toast.videoUpdateFailed', { error: error.message }));
     },
   });
 }
@@ -140,14 +197,14 @@ export function useSoftDeleteVideoLibrary() {
       params?: { language?: 'en' | 'ar' | 'he' | 'all' };
     }) => videoLibraryService.softDeleteVideoLibrary(id, params),
     onSuccess: (_, variables) => {
-      toast.success('Video library deleted successfully!');
+      toast.success(t('toast.videoDeleted'));
       // Invalidate and refetch related queries
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() });
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.detail(variables.id) });
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
     },
     onError: (error: Error) => {
-      toast.error(`Failed to delete video library: ${error.message}`);
+      toast.error(t('toast.videoDeleteFailed', { error: error.message }));
     },
   });
 }
@@ -155,17 +212,30 @@ export function useSoftDeleteVideoLibrary() {
 // Hard delete video library
 export function useHardDeleteVideoLibrary() {
   const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
 
   return useMutation({
     mutationFn: (id: string) => videoLibraryService.hardDeleteVideoLibrary(id),
-    onSuccess: () => {
-      toast.success('Video library permanently deleted!');
+    onMutate: (id) =>
+      fetchEntityBefore(queryClient, videoLibraryKeys.all, id, () =>
+        videoLibraryService.getVideoLibraryById(id)
+      ),
+    onSuccess: (_, id, before) => {
+      recordAudit({
+        action: AuditAction.HARD_DELETE,
+        entityType: AuditEntityType.VIDEO_LIBRARY,
+        entityId: id,
+        entityLabel: getEntityLabel(before ?? null),
+        before: before ?? null,
+        after: null,
+      });
+      toast.success(t('toast.videoHardDeleted'));
       // Invalidate and refetch video library queries
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() });
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
     },
     onError: (error: Error) => {
-      toast.error(`Failed to permanently delete video library: ${error.message}`);
+      toast.error(t('toast.videoHardDeleteFailed', { error: error.message }));
     },
   });
 }
@@ -176,11 +246,32 @@ export function useGetPresignedVideoUrl() {
     mutationFn: ({ id, expiresIn }: { id: string; expiresIn?: number }) =>
       videoLibraryService.getPresignedVideoUrl(id, expiresIn),
     onError: (error: Error) => {
-      toast.error(`Failed to get video URL: ${error.message}`);
+      toast.error(t('toast.videoUrlFailed', { error: error.message }));
     },
   });
 }
 
+// Get a presigned video URL as a cached query, e.g. for hover previews
+export function usePresignedVideoUrl(id: string, enabled = true) {
+  return useQuery({
+    queryKey: videoLibraryKeys.videoUrl(id),
+    queryFn: () => videoLibraryService.getPresignedVideoUrl(id, 3600), // 1 hour
+    enabled: !!id && enabled,
+    staleTime: 50 * 60 * 1000, // refetch before the URL expires
+  });
+}
+
+// Check that a video URL loads in the browser and read its duration
+export function useVideoUrlProbe(url: string | undefined) {
+  return useQuery({
+    queryKey: videoLibraryKeys.probe(url || ''),
+    queryFn: () => probeVideoUrl(url!),
+    enabled: isPlayableUrl(url),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
+
 // Upload video with progress
 export function useUploadVideo() {
   const queryClient = useQueryClient();
@@ -191,71 +282,213 @@ export function useUploadVideo() {
       entityType,
       entityId,
       onProgress,
+      signal,
     }: {
       file: File;
       entityType: 'lesson' | 'course';
       entityId?: string;
-      onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void;
-    }) => videoLibraryService.uploadVideoWithProgress(file, entityType, entityId, onProgress),
+      onProgress?: (progress: UploadProgress) => void;
+      signal?: AbortSignal;
+    }) => videoLibraryService.uploadVideoWithProgress(file, entityType, entityId, onProgress, signal),
     onSuccess: () => {
       // Invalidate and refetch video library queries
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() });
       queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
     },
     onError: (error: Error) => {
-      toast.error(`Failed to upload video: ${error.message}`);
+      // A paused upload is not a failure
+      if (isAbortError(error)) return;
+      toast.error(t('toast.videoUploadFailed', { error: error.message }));
     },
   });
 }
 
-// Complete video upload flow (upload + create record)
+// Uploads a captured poster frame next to its video. A missing thumbnail should
+// not fail the video, so errors only return undefined.
+const uploadVideoThumbnail = async (file: File, thumbnail: Blob) => {
+  try {
+    const thumbnailFile = new File(
+      [thumbnail],
+      `${file.name.replace(/\.[^/.]+$/, '')}.jpg`,
+      { type: 'image/jpeg' }
+    );
+    const result = await UploadService.uploadFileWithProgress(
+      thumbnailFile,
+      'image',
+      VIDEO_THUMBNAIL_FOLDER
+    );
+    return result.key;
+  } catch (error) {
+    console.error('Failed to upload video thumbnail:', error);
+    return undefined;
+  }
+};
+
+// Complete video upload flow (upload + create record). The upload runs in the
+// global upload queue, so it carries on after the dialog that started it closes
 export function useCompleteVideoUpload() {
-  const uploadMutation = useUploadVideo();
-  const createMutation = useCreateVideoLibrary();
+  const queryClient = useQueryClient();
+  const enqueue = useUploadStore((state) => state.enqueue);
 
-  const completeUpload = async ({
+  const completeUpload = ({
     file,
     name,
     entityType,
-    entityId,
-    onProgress,
+    videoInfo,
+    onUploaded,
   }: {
     file: File;
     name: { en: string; ar?: string; he?: string };
     entityType: 'lesson' | 'course';
-    entityId?: string;
-    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void;
-  }) => {
-    try {
-      // Upload file to S3
-      const uploadResult = await uploadMutation.mutateAsync({
-        file,
-        entityType,
-        entityId,
-        onProgress,
-      });
+    // Metadata and poster frame read in the browser before upload
+    videoInfo?: ExtractedVideoInfo | null;
+    onUploaded?: () => void;
+  }) =>
+    enqueue({
+      file,
+      label: name.en,
+      uploadType: UploadService.getUploadType(file.type),
+      folder: VIDEO_UPLOAD_FOLDER,
+      onComplete: async (uploadResult) => {
+        const metadata = videoInfo?.metadata;
+        const thumbnailUrl = videoInfo?.thumbnail
+          ? await uploadVideoThumbnail(file, videoInfo.thumbnail)
+          : undefined;
+
+        // Create video library record
+        const videoLibraryData: CreateVideoLibraryInput = {
+          name,
+          videoUrl: uploadResult.key, // Use the S3 key
+          videoType: file.type,
+          fileSize: file.size,
+          ...(metadata && {
+            duration: metadata.duration,
+            width: metadata.width,
+            height: metadata.height,
+            codec: metadata.codec,
+          }),
+          thumbnailUrl,
+          entityType,
+          uploadedBy: '', // This will be set by the backend from the authenticated user
+        };
+
+        try {
+          await videoLibraryService.createVideoLibrary(videoLibraryData);
+        } catch (error) {
+          toast.error(
+            t('toast.videoCreateFailed', {
+              error: error instanceof Error ? error.message : String(error),
+            })
+          );
+          throw error;
+        }
+
+        queryClient.invalidateQueries({ queryKey: videoLibraryKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
+        toast.success(t('toast.videoUploaded', { name: name.en }));
+        onUploaded?.();
+      },
+    });
+
+  return { completeUpload };
+}
+
+export type VideoBulkAction =
+  | { type: 'activate' }
+  | { type: 'deactivate' }
+  | { type: 'setEntityType'; entityType: 'lesson' | 'course' }
+  // New name per video ID in every language, resolved up front so a retry
+  // keeps the numbering
+  | { type: 'rename'; names: Record<string, LocalizedText> }
+  | { type: 'permanentDelete' };
+
+export interface VideoBulkFailure {
+  video: VideoLibrary;
+  error: string;
+}
+
+// Requests in flight at once, so large selections do not flood the API
+const BULK_CONCURRENCY = 3;
+
+// Apply one action to many videos through the single-video endpoints.
+// Every video is attempted; failures are collected instead of stopping the run.
+export function useBulkVideoLibraryAction() {
+  const queryClient = useQueryClient();
+  const recordAudit = useAuditRecorder();
 
-      // Create video library record
-      const videoLibraryData: CreateVideoLibraryInput = {
-        name,
-        videoUrl: uploadResult.key, // Use the S3 key
-        videoType: file.type,
-        fileSize: file.size,
-        entityType,
-        uploadedBy: '', // This will be set by the backend from the authenticated user
-      };
-
-      const videoLibrary = await createMutation.mutateAsync(videoLibraryData);
-      
-      return videoLibrary;
-    } catch (error) {
-      throw error;
+  const runAction = (action: VideoBulkAction, video: VideoLibrary) => {
+    switch (action.type) {
+      case 'activate':
+        return videoLibraryService.updateVideoLibrary(video._id, { isActive: true });
+      case 'deactivate':
+        return videoLibraryService.softDeleteVideoLibrary(video._id);
+      case 'setEntityType':
+        return videoLibraryService.updateVideoLibrary(video._id, { entityType: action.entityType });
+      case 'rename':
+        return videoLibraryService.updateVideoLibrary(video._id, {
+          name: action.names[video._id],
+        });
+      case 'permanentDelete':
+        return videoLibraryService.hardDeleteVideoLibrary(video._id).then(() =>
+          recordAudit({
+            action: AuditAction.HARD_DELETE,
+            entityType: AuditEntityType.VIDEO_LIBRARY,
+            entityId: video._id,
+            entityLabel: video.name,
+            before: { ...video },
+            after: null,
+          })
+        );
     }
   };
 
-  return {
-    completeUpload,
-    isPending: uploadMutation.isPending || createMutation.isPending,
-    error: uploadMutation.error || createMutation.error,
+  return async ({
+    videos,
+    action,
+    onProgress,
+  }: {
+    videos: VideoLibrary[];
+    action: VideoBulkAction;
+    onProgress?: (completed: number, total: number) => void;
+  }) => {
+    const succeeded: VideoLibrary[] = [];
+    const failed: VideoBulkFailure[] = [];
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < videos.length) {
+        const index = nextIndex++;
+        const video = videos[index];
+        try {
+          await runAction(action, video);
+          succeeded.push(video);
+        } catch (error) {
+          failed.push({
+            video,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        onProgress?.(succeeded.length + failed.length, videos.length);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(BULK_CONCURRENCY, videos.length) }, worker)
+    );
+
+    if (failed.length === 0) {
+      toast.success(t('toast.videoBulkCompleted', { count: succeeded.length }));
+    } else {
+      toast.error(
+        t('toast.videoBulkPartial', {
+          succeeded: succeeded.length,
+          total: videos.length,
+          failed: failed.length,
+        })
+      );
+    }
+
+    queryClient.invalidateQueries({ queryKey: videoLibraryKeys.all });
+    return { succeeded, failed };
   };
 }
@@ -0,0 +1,1474 @@
+import type { Translations } from "./en";
+
+export const ar: Translations = {
+  // Common
+  "common.close": "إغلاق",
+  "common.previous": "السابق",
+  "common.next": "التالي",
+  "common.loading": "جارٍ التحميل...",
+  "common.search": "بحث",
+  "common.download": "تنزيل",
+  "common.cancel": "إلغاء",
+  "common.apply": "تطبيق",
+  "common.reset": "إعادة تعيين",
+  "common.showing": "عرض {from} إلى {to} من أصل {total}",
+  "common.yes": "نعم",
+  "common.no": "لا",
+  "common.name": "الاسم",
+  "common.email": "البريد الإلكتروني",
+  "common.phone": "الهاتف",
+  "common.student": "الطالب",
+  "common.course": "الدورة",
+  "common.university": "الجامعة",
+  "common.faculty": "الكلية",
+  "common.active": "نشط",
+  "common.inactive": "غير نشط",
+  "common.status": "الحالة",
+  "common.actions": "الإجراءات",
+  "common.refresh": "تحديث",
+  "common.filters": "عوامل التصفية",
+  "common.notAvailable": "غير متوفر",
+  "common.created": "تاريخ الإنشاء",
+  "common.allStatuses": "كل الحالات",
+  "common.type": "النوع",
+  "common.title": "العنوان",
+  "common.description": "الوصف",
+  "common.view": "عرض",
+  "common.titleEn": "العنوان (بالإنجليزية) *",
+  "common.titleAr": "العنوان (بالعربية)",
+  "common.titleHe": "العنوان (بالعبرية)",
+  "common.descriptionEn": "الوصف (بالإنجليزية)",
+  "common.descriptionAr": "الوصف (بالعربية)",
+  "common.descriptionHe": "الوصف (بالعبرية)",
+  "common.edit": "تعديل",
+  "common.delete": "حذف",
+  "common.remove": "إزالة",
+  "common.updating": "جارٍ التحديث...",
+  "common.creating": "جارٍ الإنشاء...",
+  "common.deleting": "جارٍ الحذف...",
+  "common.saving": "جارٍ الحفظ...",
+  "common.never": "أبدًا",
+  "common.allStatus": "كل الحالات",
+  "common.filterByStatus": "التصفية حسب الحالة",
+  "common.languages": "اللغات",
+  "common.singleLanguage": "لغة واحدة",
+  "common.englishNameRequired": "الاسم بالإنجليزية *",
+  "common.arabicNameOptional": "الاسم بالعربية (اختياري)",
+  "common.hebrewNameOptional": "الاسم بالعبرية (اختياري)",
+  "common.softDelete": "حذف مؤقت",
+  "common.hardDelete": "حذف نهائي",
+  "common.permanentlyDelete": "حذف نهائيًا",
+  "common.clear": "مسح",
+  "common.clearFilters": "مسح عوامل التصفية",
+  "common.back": "رجوع",
+  "common.optional": "اختياري",
+  "common.unknown": "غير معروف",
+  "common.preview": "معاينة",
+  "common.size": "الحجم",
+  "common.pageOf": "الصفحة {page} من {total}",
+  "common.hoursMinutes": "{hours} س {minutes} د",
+  "common.minutes": "{minutes} د",
+  "common.seconds": "{seconds} ث",
+  "common.untitledCourse": "دورة بدون عنوان",
+  "common.inProgress": "قيد التقدم",
+  "common.completed": "مكتمل",
+  "common.warning": "تحذير:",
+  "common.userLabel": "المستخدم:",
+  "common.courseLabel": "الدورة:",
+  "common.top": "أفضل {count}",
+  "common.selectedFile": "المحدد: {name} ({size})",
+  "common.more": "+{count} أخرى",
+  "common.activeStatus": "حالة التفعيل",
+
+  // Languages
+  "language.en": "الإنجليزية",
+  "language.ar": "العربية",
+  "language.he": "العبرية",
+
+  // Navigation
+  "nav.dashboard": "لوحة التحكم",
+  "nav.admins": "المشرفون",
+  "nav.roles": "الأدوار",
+  "nav.users": "المستخدمون",
+  "nav.universities": "الجامعات",
+  "nav.faculties": "الكليات",
+  "nav.courses": "الدورات",
+  "nav.freeCourses": "الدورات المجانية",
+  "nav.enrollments": "الاشتراكات",
+  "nav.analytics": "التحليلات",
+  "nav.quizzes": "الاختبارات",
+  "nav.videosLibrary": "مكتبة الفيديو",
+  "nav.auditLog": "سجل التدقيق",
+  "nav.translations": "الترجمات",
+
+  // Layout
+  "layout.logOut": "تسجيل الخروج",
+  "layout.language": "اللغة",
+  "layout.toggleSidebar": "إظهار/إخفاء الشريط الجانبي",
+  "layout.sidebar": "الشريط الجانبي",
+  "layout.sidebarDescription": "يعرض الشريط الجانبي للجوال.",
+
+  // Idle timeout
+  "idle.title": "هل ما زلت هنا؟",
+  "idle.description":
+    "سيتم تسجيل خروجك خلال {seconds} ثانية بسبب عدم النشاط. ستفقد أي تغييرات غير محفوظة.",
+  "idle.logOut": "تسجيل الخروج",
+  "idle.stay": "البقاء متصلاً",
+  "idle.loggedOut": "تم تسجيل خروجك بسبب عدم النشاط",
+
+  // Login
+  "login.title": "تسجيل دخول المشرف",
+  "login.description": "سجّل الدخول إلى لوحة التحكم",
+  "login.login": "اسم المستخدم أو البريد الإلكتروني",
+  "login.loginPlaceholder": "أدخل اسم المستخدم أو البريد الإلكتروني",
+  "login.loginRequired": "اسم المستخدم أو البريد الإلكتروني مطلوب",
+  "login.password": "كلمة المرور",
+  "login.passwordPlaceholder": "أدخل كلمة المرور",
+  "login.passwordRequired": "كلمة المرور مطلوبة",
+  "login.submit": "تسجيل الدخول",
+  "login.submitting": "جارٍ تسجيل الدخول...",
+  "login.success": "تم تسجيل الدخول بنجاح!",
+  "login.failed": "فشل تسجيل الدخول",
+
+  // Forbidden
+  "forbidden.title": "تم رفض الوصول",
+  "forbidden.description":
+    "ليست لديك صلاحية لعرض هذه الصفحة. اطلب من المشرف العام منح دورك هذه الصلاحية إذا كنت بحاجة إليها.",
+  "forbidden.requires": "يتطلب",
+  "forbidden.or": "أو",
+  "forbidden.goBack": "رجوع",
+  "forbidden.backToDashboard": "العودة إلى لوحة التحكم",
+
+  // Permissions
+  "permissions.missing": "تحتاج إلى صلاحية \"{permission}\" ({name})",
+  "permissions.admins": "المسؤولون",
+  "permissions.roles": "الأدوار",
+  "permissions.permissions": "الصلاحيات",
+  "permissions.users": "المستخدمون",
+  "permissions.universities": "الجامعات",
+  "permissions.faculties": "الكليات",
+  "permissions.courses": "الدورات",
+  "permissions.freeCourses": "الدورات المجانية",
+  "permissions.sections": "الأقسام",
+  "permissions.topics": "المواضيع",
+  "permissions.lessons": "الدروس",
+  "permissions.quizzes": "الاختبارات",
+  "permissions.videoLibrary": "مكتبة الفيديو",
+  "permissions.attachedFiles": "الملفات المرفقة",
+  "permissions.enrollments": "التسجيلات",
+  "permissions.progress": "التقدم",
+  "permissions.auditLogs": "سجلات التدقيق",
+  "permissions.translations": "الترجمات",
+  "permissions.create": "إنشاء",
+  "permissions.read": "قراءة",
+  "permissions.update": "تحديث",
+  "permissions.delete": "حذف",
+  "permissions.export": "تصدير",
+  "permissions.import": "استيراد",
+
+  // Export
+  "export.title": "تصدير",
+  "export.description": "يتم تضمين جميع الصفحات المطابقة لعوامل التصفية الحالية.",
+  "export.format": "الصيغة",
+  "export.language": "لغة الأسماء",
+  "export.columns": "الأعمدة",
+  "export.selectAll": "تحديد الكل",
+  "export.clearAll": "إلغاء تحديد الكل",
+  "export.fetched": "تم جلب {loaded} صف...",
+  "export.fetchedOf": "تم جلب {loaded} من أصل {total} صف...",
+  "export.cancel": "إلغاء التصدير",
+  "export.exporting": "جارٍ التصدير...",
+  "export.success": "الصفوف المصدّرة: {count}",
+  "export.cancelled": "تم إلغاء التصدير",
+  "export.failed": "فشل التصدير",
+
+  // Date range
+  "dateRange.range": "النطاق",
+  "dateRange.last7Days": "آخر 7 أيام",
+  "dateRange.last30Days": "آخر 30 يومًا",
+  "dateRange.last90Days": "آخر 90 يومًا",
+  "dateRange.last12Months": "آخر 12 شهرًا",
+  "dateRange.custom": "نطاق مخصص",
+  "dateRange.from": "من",
+  "dateRange.to": "إلى",
+
+  // Localized fields
+  "localizedField.translated": "{count}/{total} لغات",
+  "localizedField.tabs": "عرض لغة واحدة في كل مرة",
+  "localizedField.sideBySide": "عرض اللغات جنباً إلى جنب",
+  "localizedField.placeholder": "{placeholder} باللغة {language}",
+
+  // Upload tray
+  "uploads.title": "التحميلات",
+  "uploads.active": "{count} قيد التنفيذ",
+  "uploads.pause": "إيقاف مؤقت",
+  "uploads.resume": "استئناف",
+  "uploads.cancel": "إلغاء",
+  "uploads.retry": "إعادة المحاولة",
+  "uploads.dismiss": "إخفاء",
+  "uploads.clearFinished": "مسح المكتملة",
+  "uploads.collapse": "طي",
+  "uploads.expand": "توسيع",
+  "uploads.queued": "في الانتظار",
+  "uploads.uploading": "جارٍ الرفع...",
+  "uploads.paused": "متوقف مؤقتًا",
+  "uploads.processing": "جارٍ المعالجة...",
+  "uploads.completed": "اكتمل الرفع",
+  "uploads.failed": "فشل الرفع",
+  "uploads.cancelled": "أُلغي",
+  "uploads.speed": "السرعة:",
+  "uploads.eta": "الوقت المتبقي:",
+  "uploads.elapsed": "المنقضي:",
+  "uploads.statusError": "فشل الرفع بالحالة: {status}",
+  "uploads.networkError": "فشل الرفع بسبب خطأ في الشبكة",
+  "uploads.partStatusError": "فشل رفع الجزء بالحالة: {status}",
+  "uploads.partNetworkError": "فشل رفع الجزء بسبب خطأ في الشبكة",
+  "uploads.missingEtag": "استجابة رفع الجزء تفتقد ترويسة ETag",
+  "uploads.missingPartUrl": "لا يوجد رابط رفع للجزء {number}",
+  "uploads.removed": "تمت إزالة الرفع",
+  "uploads.wasCancelled": "تم إلغاء الرفع",
+
+  // Toasts
+  "toast.fileAttached": "تم إرفاق الملف بنجاح!",
+  "toast.fileAttachFailed": "فشل إرفاق الملف",
+  "toast.fileUpdated": "تم تحديث الملف بنجاح!",
+  "toast.fileUpdateFailed": "فشل تحديث الملف",
+  "toast.fileDeleted": "تم حذف الملف بنجاح!",
+  "toast.fileDeleteFailed": "فشل حذف الملف",
+  "toast.fileDownloadFailed": "فشل إنشاء رابط التنزيل",
+  "toast.contentItemCreated": "تم إنشاء عنصر المحتوى بنجاح",
+  "toast.contentItemCreateFailed": "فشل إنشاء عنصر المحتوى",
+  "toast.contentItemUpdated": "تم تحديث عنصر المحتوى بنجاح",
+  "toast.contentItemUpdateFailed": "فشل تحديث عنصر المحتوى",
+  "toast.contentItemDeleted": "تم حذف عنصر المحتوى بنجاح",
+  "toast.contentItemDeleteFailed": "فشل حذف عنصر المحتوى",
+  "toast.sectionCreated": "تم إنشاء القسم بنجاح",
+  "toast.sectionCreateFailed": "فشل إنشاء القسم",
+  "toast.sectionUpdated": "تم تحديث القسم بنجاح",
+  "toast.sectionUpdateFailed": "فشل تحديث القسم",
+  "toast.sectionDeleted": "تم حذف القسم بنجاح",
+  "toast.sectionDeleteFailed": "فشل حذف القسم",
+  "toast.enrollmentRefunded": "تم استرداد الاشتراك بنجاح",
+  "toast.enrollmentRefundFailed": "فشل استرداد الاشتراك",
+  "toast.enrollmentCancelled": "تم إلغاء الاشتراك بنجاح",
+  "toast.enrollmentCancelFailed": "فشل إلغاء الاشتراك",
+  "toast.videoCreateFailed": "فشل إنشاء الفيديو: {error}",
+  "toast.videoUpdated": "تم تحديث الفيديو بنجاح!",
+  "toast.videoUpdateFailed": "فشل تحديث الفيديو: {error}",
+  "toast.videoDeleted": "تم حذف الفيديو بنجاح!",
+  "toast.videoDeleteFailed": "فشل حذف الفيديو: {error}",
+  "toast.videoHardDeleted": "تم حذف الفيديو نهائياً!",
+  "toast.videoHardDeleteFailed": "فشل حذف الفيديو نهائياً: {error}",
+  "toast.videoUrlFailed": "فشل الحصول على رابط الفيديو: {error}",
+  "toast.videoUploadFailed": "فشل رفع الفيديو: {error}",
+  "toast.videoUploaded": "تم رفع الفيديو \"{name}\" بنجاح!",
+  "toast.uploadQueued": "تمت إضافة \"{name}\" إلى قائمة التحميلات",
+  "toast.videoBulkCompleted": "تم تحديث {count} فيديو بنجاح!",
+  "toast.videoBulkPartial": "تم تحديث {succeeded} من {total} فيديو، وفشل {failed}",
+  "toast.auditWriteFailed": "تم حفظ التغيير ولكن تعذر تسجيله في سجل التدقيق",
+  "toast.selectVideoFile": "يرجى اختيار ملف فيديو",
+  "toast.selectFileToUpload": "يرجى اختيار ملف لرفعه",
+  "toast.fileUploaded": "تم رفع الملف بنجاح",
+  "toast.fileUploadFailed": "فشل رفع الملف",
+  "toast.filesAttached": "تم إرفاق {count} ملفات بنجاح!",
+  "toast.filesAttachedPartial": "تم إرفاق {succeeded} ملفات، وفشل {failed}",
+  "toast.imageUploadFailed": "فشل رفع الصورة",
+  "toast.progressReset": "تمت إعادة تعيين التقدم بنجاح",
+  "toast.progressResetFailed": "فشلت إعادة تعيين التقدم",
+  "toast.progressDeleted": "تم حذف التقدم بنجاح",
+  "toast.progressDeleteFailed": "فشل حذف التقدم",
+  "toast.userUpdated": "تم تحديث المستخدم بنجاح!",
+  "toast.userUpdateFailed": "فشل تحديث المستخدم",
+  "toast.userDeleted": "تم حذف المستخدم بنجاح!",
+  "toast.userDeleteFailed": "فشل حذف المستخدم",
+  "toast.userBlocked": "تم حظر المستخدم بنجاح!",
+  "toast.userUnblocked": "تم إلغاء حظر المستخدم بنجاح!",
+  "toast.userStatusFailed": "فشل تحديث حالة المستخدم",
+  "toast.deviceRemoved": "تمت إزالة الجهاز بنجاح!",
+  "toast.deviceRemoveFailed": "فشلت إزالة الجهاز",
+  "toast.adminCreated": "تم إنشاء المشرف بنجاح!",
+  "toast.adminCreateFailed": "فشل إنشاء المشرف",
+  "toast.adminUpdated": "تم تحديث المشرف بنجاح!",
+  "toast.adminUpdateFailed": "فشل تحديث المشرف",
+  "toast.adminDeleted": "تم حذف المشرف بنجاح!",
+  "toast.adminDeleteFailed": "فشل حذف المشرف",
+  "toast.adminActivated": "تم تفعيل المشرف بنجاح!",
+  "toast.adminDeactivated": "تم تعطيل المشرف بنجاح!",
+  "toast.adminStatusFailed": "فشل تحديث حالة المشرف",
+  "toast.passwordUpdated": "تم تحديث كلمة المرور بنجاح!",
+  "toast.passwordUpdateFailed": "فشل تحديث كلمة المرور",
+  "toast.roleCreated": "تم إنشاء الدور بنجاح!",
+  "toast.roleCreateFailed": "فشل إنشاء الدور",
+  "toast.roleUpdated": "تم تحديث الدور بنجاح!",
+  "toast.roleUpdateFailed": "فشل تحديث الدور",
+  "toast.roleDeleted": "تم حذف الدور نهائيًا!",
+  "toast.roleDeleteFailed": "فشل حذف الدور",
+  "toast.roleActivated": "تم تفعيل الدور بنجاح!",
+  "toast.roleDeactivated": "تم تعطيل الدور بنجاح!",
+  "toast.roleStatusFailed": "فشل تحديث حالة الدور",
+  "toast.roleNameLength": "يجب أن يتراوح اسم الدور بين 2 و50 حرفًا",
+  "toast.roleCloned": "تم إنشاء الدور \"{name}\" من \"{source}\"",
+  "toast.roleCloneFailed": "فشل نسخ الدور",
+  "toast.rolePermissionsUpdated": "تم تحديث الصلاحيات لـ {count} من الأدوار",
+  "toast.rolePermissionsFailed": "فشل تحديث {names}",
+  "toast.permissionsCreated": "تم إنشاء صلاحيات {resource}",
+  "toast.permissionsCreateFailed": "فشل إنشاء الصلاحيات",
+  "toast.universityCreated": "تم إنشاء الجامعة بنجاح!",
+  "toast.universityCreateFailed": "فشل إنشاء الجامعة",
+  "toast.universityUpdated": "تم تحديث الجامعة بنجاح!",
+  "toast.universityUpdateFailed": "فشل تحديث الجامعة",
+  "toast.universityDeleted": "تم حذف الجامعة بنجاح!",
+  "toast.universityDeleteFailed": "فشل حذف الجامعة",
+  "toast.universityHardDeleted": "تم حذف الجامعة نهائيًا!",
+  "toast.universityHardDeleteFailed": "فشل حذف الجامعة نهائيًا",
+  "toast.universityActivated": "تم تفعيل الجامعة بنجاح!",
+  "toast.universityDeactivated": "تم تعطيل الجامعة بنجاح!",
+  "toast.universityStatusFailed": "فشل تحديث حالة الجامعة",
+  "toast.facultyCreated": "تم إنشاء الكلية بنجاح!",
+  "toast.facultyCreateFailed": "فشل إنشاء الكلية",
+  "toast.facultyUpdated": "تم تحديث الكلية بنجاح!",
+  "toast.facultyUpdateFailed": "فشل تحديث الكلية",
+  "toast.facultyDeleted": "تم حذف الكلية بنجاح!",
+  "toast.facultyDeleteFailed": "فشل حذف الكلية",
+  "toast.facultyHardDeleted": "تم حذف الكلية نهائيًا!",
+  "toast.facultyHardDeleteFailed": "فشل حذف الكلية نهائيًا",
+  "toast.facultyActivated": "تم تفعيل الكلية بنجاح!",
+  "toast.facultyDeactivated": "تم تعطيل الكلية بنجاح!",
+  "toast.facultyStatusFailed": "فشل تحديث حالة الكلية",
+  "toast.courseCreated": "تم إنشاء الدورة بنجاح!",
+  "toast.courseUpdated": "تم تحديث الدورة بنجاح!",
+  "toast.courseSaveFailed": "فشل حفظ الدورة",
+  "toast.courseImageRequired": "صورة الدورة مطلوبة",
+  "toast.courseDeleted": "تم حذف الدورة بنجاح!",
+  "toast.courseDeleteFailed": "فشل حذف الدورة",
+  "toast.courseActivated": "تم تفعيل الدورة بنجاح!",
+  "toast.courseDeactivated": "تم تعطيل الدورة بنجاح!",
+  "toast.courseStatusFailed": "فشل تحديث حالة الدورة",
+  "toast.freeCourseCreated": "تم إنشاء الدورة المجانية بنجاح!",
+  "toast.freeCourseUpdated": "تم تحديث الدورة المجانية بنجاح!",
+  "toast.freeCourseSaveFailed": "فشل حفظ الدورة المجانية",
+  "toast.topicCreated": "تم إنشاء الموضوع بنجاح!",
+  "toast.topicCreateFailed": "فشل إنشاء الموضوع",
+  "toast.topicUpdated": "تم تحديث الموضوع بنجاح!",
+  "toast.topicUpdateFailed": "فشل تحديث الموضوع",
+  "toast.topicDeleted": "تم حذف الموضوع بنجاح!",
+  "toast.topicDeleteFailed": "فشل حذف الموضوع",
+  "toast.topicActivated": "تم تفعيل الموضوع بنجاح!",
+  "toast.topicDeactivated": "تم تعطيل الموضوع بنجاح!",
+  "toast.topicStatusFailed": "فشل تحديث حالة الموضوع",
+  "toast.topicsReordered": "تمت إعادة ترتيب المواضيع بنجاح!",
+  "toast.topicsReorderFailed": "فشلت إعادة ترتيب المواضيع",
+  "toast.lessonCreated": "تم إنشاء الدرس بنجاح!",
+  "toast.lessonUpdated": "تم تحديث الدرس بنجاح!",
+  "toast.lessonSaveFailed": "فشل حفظ الدرس",
+  "toast.lessonDeleted": "تم حذف الدرس بنجاح!",
+  "toast.lessonDeleteFailed": "فشل حذف الدرس",
+  "toast.lessonActivated": "تم تفعيل الدرس بنجاح!",
+  "toast.lessonDeactivated": "تم تعطيل الدرس بنجاح!",
+  "toast.lessonStatusFailed": "فشل تحديث حالة الدرس",
+  "toast.lessonsReordered": "تمت إعادة ترتيب الدروس بنجاح!",
+  "toast.lessonsReorderFailed": "فشلت إعادة ترتيب الدروس",
+  "toast.quizCreated": "تم إنشاء الاختبار بنجاح",
+  "toast.quizUpdated": "تم تحديث الاختبار بنجاح",
+  "toast.quizSaveFailed": "فشل حفظ الاختبار",
+  "toast.quizDeleted": "تم حذف الاختبار بنجاح",
+  "toast.quizDeleteFailed": "فشل حذف الاختبار",
+  "toast.quizQuestionRequired": "يرجى إضافة سؤال واحد على الأقل",
+  "toast.selectQuiz": "يرجى اختيار اختبار",
+  "toast.selectVideoOrUrl": "يرجى اختيار فيديو من المكتبة أو إدخال رابط فيديو",
+  "toast.videoPreviewFailed": "فشل تحميل معاينة الفيديو",
+  "toast.videoDownloadFailed": "فشل تنزيل الفيديو",
+  "toast.uploadDiscardFailed": "تعذّرت إزالة الأجزاء المرفوعة من \"{name}\" من التخزين",
+
+  // Validation
+  "validation.required": "هذا الحقل مطلوب",
+  "validation.minLength": "يجب ألا يقل عن {min} حرف",
+  "validation.maxLength": "يجب ألا يزيد عن {max} حرف",
+  "validation.min": "يجب ألا تقل القيمة عن {min}",
+  "validation.max": "يجب ألا تزيد القيمة عن {max}",
+  "validation.minItems": "اختر {min} على الأقل",
+  "validation.email": "أدخل بريداً إلكترونياً صالحاً",
+  "validation.url": "أدخل رابطاً صالحاً",
+  "validation.number": "أدخل رقماً صالحاً",
+  "validation.date": "أدخل تاريخاً صالحاً",
+  "validation.option": "اختر أحد الخيارات المتاحة",
+  "validation.invalid": "قيمة غير صالحة",
+  "validation.usernameCharacters": "استخدم الأحرف والأرقام والنقاط والشرطات والشرطات السفلية فقط",
+  "validation.usernameStart": "يجب أن يبدأ بحرف أو رقم",
+  "validation.usernameEnd": "يجب أن ينتهي بحرف أو رقم",
+  "validation.passwordComplexity": "يجب أن تحتوي على حرف كبير وحرف صغير ورقم وأحد الرموز @$!%*?&",
+  "validation.learningOutcomeRequired": "أضف مخرج تعلم واحدًا على الأقل",
+  "validation.entityRequired": "اختر المكان الذي يتبع له",
+  "validation.fileType": "يجب أن يكون {label} أحد الأنواع: {extensions}",
+  "validation.fileEmpty": "الملف \"{name}\" فارغ",
+  "validation.fileTooLarge": "لا يمكن أن يتجاوز {label} {size}",
+  "validation.fileContentMismatch": "لا يبدو أن \"{name}\" ملف ‎.{extension}. قد يكون تالفًا أو أُعيدت تسميته.",
+  "validation.fileUnreadable": "تعذرت قراءة \"{name}\"",
+  "validation.fileNameExists": "يوجد ملف باسم \"{name}\" بالفعل",
+  "validation.lessonVideo": "فيديو الدرس",
+  "validation.courseImage": "صورة الدورة",
+  "validation.attachedFile": "الملف المرفق",
+  "validation.freeCourseFile": "ملف الدورة المجانية",
+
+  // File preview
+  "filePreview.untitled": "ملف",
+  "filePreview.loadFailed": "فشل تحميل الملف.",
+  "filePreview.contentsFailed": "فشل تحميل محتوى الملف.",
+  "filePreview.truncated": "يُعرض بداية الملف فقط. نزّله لرؤية الباقي.",
+  "filePreview.unavailable": "المعاينة غير متاحة لهذا النوع من الملفات.",
+  "filePreview.officeUnavailable": "لا يمكن معاينة مستندات Office هنا. نزّل الملف لفتحه.",
+  "filePreview.zoomOut": "تصغير",
+  "filePreview.zoomIn": "تكبير",
+  "filePreview.resetZoom": "إعادة ضبط التكبير",
+  "filePreview.position": "{index} من {total}",
+  "filePreview.pdf": "مستند PDF",
+  "filePreview.image": "صورة",
+  "filePreview.video": "فيديو",
+  "filePreview.audio": "صوت",
+  "filePreview.text": "ملف نصي",
+  "filePreview.office": "مستند Office",
+
+  // Lesson video player
+  "lessonVideo.main": "الرئيسي",
+  "lessonVideo.gvo": "GVO",
+  "lessonVideo.vvt": "VVT",
+  "lessonVideo.signFailed": "فشل توقيع رابط جديد",
+  "lessonVideo.noPlayableUrl": "لا يحتوي التسجيل على رابط قابل للتشغيل",
+  "lessonVideo.doesNotPlay": "لا يمكن تشغيل هذا التسجيل",
+  "lessonVideo.tryFreshLink": "جرّب رابطًا جديدًا",
+  "lessonVideo.linkExpired": "انتهت صلاحية الرابط المحفوظ في هذا الدرس في {date}. يحصل الطلاب على هذا الرابط، لذا لا يمكنهم تشغيل التسجيل.",
+  "lessonVideo.playingFreshLink": "يتم تشغيل رابط موقّع حديثًا بدلًا منه.",
+  "lessonVideo.noRecordings": "لا توجد تسجيلات في هذا الدرس",
+  "lessonVideo.duration": "المدة {duration}",
+  "lessonVideo.linkValidUntil": "الرابط صالح حتى {date}",
+  "lessonVideo.loadTimeout": "انتهت مهلة تحميل الفيديو",
+  "lessonVideo.mediaAborted": "تم إيقاف التحميل",
+  "lessonVideo.mediaNetwork": "أوقف خطأ في الشبكة التنزيل",
+  "lessonVideo.mediaDecode": "الفيديو تالف أو يستخدم ترميزًا غير مدعوم",
+  "lessonVideo.mediaNotSupported": "الرابط معطّل أو منتهي الصلاحية أو ليس فيديو قابلًا للتشغيل",
+  "lessonVideo.mediaFailed": "تعذر تحميل الفيديو",
+
+  // Video library
+  "videoLibrary.activateTitle": "تفعيل الفيديوهات",
+  "videoLibrary.deactivateTitle": "إلغاء تفعيل الفيديوهات",
+  "videoLibrary.setEntityTypeTitle": "تغيير نوع الكيان",
+  "videoLibrary.renameTitle": "إعادة تسمية الفيديوهات",
+  "videoLibrary.permanentDeleteTitle": "حذف الفيديوهات نهائيًا",
+  "videoLibrary.selectedOne": "تم تحديد فيديو واحد",
+  "videoLibrary.selectedMany": "تم تحديد {count} فيديوهات",
+  "videoLibrary.newEntityType": "نوع الكيان الجديد",
+  "videoLibrary.lesson": "درس",
+  "videoLibrary.course": "دورة",
+  "videoLibrary.namePattern": "نمط الاسم",
+  "videoLibrary.namePatternPlaceholder": "مثال: الأسبوع {n} - {name}",
+  "videoLibrary.namePatternHelp": "العناصر النائبة: {placeholders}. ‏{n} هو الترتيب في التحديد و{date} تاريخ الرفع.",
+  "videoLibrary.emptyName": "(اسم فارغ)",
+  "videoLibrary.andMore": "و{count} أخرى",
+  "videoLibrary.namesLoadFailed": "تعذّر تحميل الأسماء الحالية للفيديوهات المحددة.",
+  "videoLibrary.checkingUsage": "جارٍ التحقق من أماكن استخدام هذه الفيديوهات...",
+  "videoLibrary.stillUsed": "لا يزال {count} من الفيديوهات المحددة قيد الاستخدام. ستفقد الدروس والدورات المجانية التي تشير إليها تسجيلها.",
+  "videoLibrary.onePlace": "مكان واحد",
+  "videoLibrary.places": "{count} أماكن",
+  "videoLibrary.noneUsed": "لا يُستخدم أي من الفيديوهات المحددة في درس أو دورة مجانية.",
+  "videoLibrary.usageCheckFailed": "تعذّر التحقق من أماكن استخدام {count} من الفيديوهات المحددة. أعد التحقق أو ألغِ تحديدها قبل الحذف.",
+  "videoLibrary.retryUsageCheck": "إعادة التحقق",
+  "videoLibrary.deleteAcknowledge": "أفهم أن الفيديوهات وملفاتها ستُحذف نهائيًا",
+  "videoLibrary.processed": "تمت معالجة {completed} من {total}",
+  "videoLibrary.succeeded": "نجح {count}",
+  "videoLibrary.failed": "فشل {count}",
+  "videoLibrary.retryFailed": "إعادة محاولة {count} فاشلة",
+  "videoLibrary.deleteForever": "حذف نهائي",
+  "videoLibrary.usedIn": "مستخدم في",
+  "videoLibrary.usageLoadFailed": "فشل تحميل أماكن استخدام هذا الفيديو.",
+  "videoLibrary.notUsed": "لا يُستخدم هذا الفيديو في أي درس أو دورة مجانية.",
+  "videoLibrary.showUsage": "عرض أماكن استخدام هذا الفيديو",
+  "videoLibrary.view": "عرض",
+  "videoLibrary.unused": "غير مستخدم",
+  "videoLibrary.checkingVideoUsage": "جارٍ التحقق من أماكن استخدام هذا الفيديو...",
+  "videoLibrary.videoUsageCheckFailed": "تعذّر التحقق من أماكن استخدام هذا الفيديو، لذا لا يمكن حذفه بعد.",
+  "videoLibrary.videoUsedOnce": "هذا الفيديو مستخدم في مكان واحد. لن يتمكن الطلاب من تشغيله هناك بعد الآن.",
+  "videoLibrary.videoUsed": "هذا الفيديو مستخدم في {count} أماكن. لن يتمكن الطلاب من تشغيله هناك بعد الآن.",
+  "videoLibrary.seeWhere": "عرض الأماكن",
+  "videoLibrary.deleteAnyway": "احذفه على أي حال",
+  "videoLibrary.lessons": "الدروس",
+  "videoLibrary.freeCourses": "الدورات المجانية",
+  "videoLibrary.untitledLesson": "درس بلا عنوان",
+  "videoLibrary.untitledItem": "عنصر بلا عنوان",
+  "videoLibrary.mainRecording": "التسجيل الرئيسي",
+  "videoLibrary.gvoRecording": "تسجيل GVO",
+  "videoLibrary.vvtRecording": "تسجيل VVT",
+  "videoLibrary.selectVideo": "تحديد {name}",
+  "videoLibrary.filters": "عوامل التصفية",
+  "videoLibrary.moreFilters": "مزيد من عوامل التصفية",
+  "videoLibrary.searchPlaceholder": "ابحث عن الفيديوهات بالاسم...",
+  "videoLibrary.entityType": "نوع الكيان",
+  "videoLibrary.allTypes": "كل الأنواع",
+  "videoLibrary.status": "الحالة",
+  "videoLibrary.allStatus": "كل الحالات",
+  "videoLibrary.active": "نشط",
+  "videoLibrary.inactive": "غير نشط",
+  "videoLibrary.usage": "الاستخدام",
+  "videoLibrary.allVideos": "كل الفيديوهات",
+  "videoLibrary.inUse": "قيد الاستخدام",
+  "videoLibrary.orphaned": "غير مستخدم (يتيم)",
+  "videoLibrary.videoFormat": "صيغة الفيديو",
+  "videoLibrary.allFormats": "كل الصيغ",
+  "videoLibrary.uploadedBy": "رفعه",
+  "videoLibrary.anyone": "أي شخص",
+  "videoLibrary.fileSize": "حجم الملف (ميغابايت)",
+  "videoLibrary.min": "الحد الأدنى",
+  "videoLibrary.max": "الحد الأقصى",
+  "videoLibrary.nameLanguage": "لغة الاسم",
+  "videoLibrary.defaultLanguage": "الافتراضي",
+  "videoLibrary.selected": "{count} محدد",
+  "videoLibrary.activate": "تفعيل",
+  "videoLibrary.deactivate": "إلغاء التفعيل",
+  "videoLibrary.changeType": "تغيير النوع",
+  "videoLibrary.rename": "إعادة تسمية",
+  "videoLibrary.loading": "جارٍ تحميل الفيديوهات...",
+  "videoLibrary.title": "مكتبة الفيديو",
+  "videoLibrary.subtitle": "أدر ملفات الفيديو ونظّمها للدورات والدروس.",
+  "videoLibrary.upload": "رفع فيديو",
+  "videoLibrary.totalVideos": "إجمالي الفيديوهات",
+  "videoLibrary.activeVideos": "الفيديوهات النشطة",
+  "videoLibrary.totalSize": "الحجم الإجمالي",
+  "videoLibrary.thisPage": "هذه الصفحة",
+  "videoLibrary.videos": "الفيديوهات",
+  "videoLibrary.videosDescription": "أدر ملفات مكتبة الفيديو",
+  "videoLibrary.tableView": "عرض الجدول",
+  "videoLibrary.gridView": "عرض الشبكة",
+  "videoLibrary.notFound": "لم يتم العثور على فيديوهات",
+  "videoLibrary.adjustFilters": "جرّب تعديل البحث أو عوامل التصفية.",
+  "videoLibrary.getStarted": "ابدأ برفع أول فيديو.",
+  "videoLibrary.selectPage": "تحديد جميع الفيديوهات في هذه الصفحة",
+  "videoLibrary.showingVideos": "عرض {from} إلى {to} من أصل {total} فيديو",
+  "videoLibrary.previewDescription": "معاينة الفيديو - {type}",
+  "videoLibrary.fileSizeLabel": "حجم الملف:",
+  "videoLibrary.entityTypeLabel": "نوع العنصر:",
+  "videoLibrary.createdLabel": "تاريخ الإنشاء:",
+  "videoLibrary.statusLabel": "الحالة:",
+  "videoLibrary.deleteTitle": "حذف الفيديو",
+  "videoLibrary.deleteDescription": "هل أنت متأكد من حذف \"{name}\"؟ سيؤدي هذا الإجراء إلى تعيين الفيديو كغير نشط.",
+  "videoLibrary.uploadTitle": "رفع فيديو إلى المكتبة",
+  "videoLibrary.uploadDescription": "ارفع ملف فيديو إلى مكتبة الفيديو. سيكون الفيديو متاحًا للاستخدام في الدروس والدورات.",
+  "videoLibrary.nameEn": "اسم الفيديو (بالإنجليزية) *",
+  "videoLibrary.nameAr": "اسم الفيديو (بالعربية)",
+  "videoLibrary.nameHe": "اسم الفيديو (بالعبرية)",
+  "videoLibrary.namePlaceholderEn": "أدخل اسم الفيديو بالإنجليزية",
+  "videoLibrary.namePlaceholderAr": "أدخل اسم الفيديو بالعربية",
+  "videoLibrary.namePlaceholderHe": "أدخل اسم الفيديو بالعبرية",
+  "videoLibrary.entityTypeRequired": "نوع العنصر *",
+  "videoLibrary.selectEntityType": "اختر نوع العنصر",
+  "videoLibrary.videoFile": "ملف الفيديو *",
+  "videoLibrary.videoFileHelp": "ارفع ملف فيديو (MP4 وMOV وWebM وMKV وAVI وMPEG وOGV) - بحد أقصى 5GB. تُستأنف عمليات الرفع الكبيرة من حيث توقفت إذا انقطع الاتصال.",
+  "videoLibrary.readingDetails": "جارٍ قراءة تفاصيل الفيديو...",
+  "videoLibrary.detailsUnavailable": "تعذّرت قراءة تفاصيل الفيديو في هذا المتصفح.",
+  "videoLibrary.resumeNotice": "توقف رفع سابق لهذا الملف عند {percentage}% ({uploaded}). سيُستأنف من هناك.",
+  "videoLibrary.resumeUpload": "استئناف الرفع",
+  "videoLibrary.uploadFailed": "فشل رفع الفيديو",
+
+  // Lesson analytics
+  "lessonAnalytics.title": "تحليلات الدرس",
+  "lessonAnalytics.back": "العودة إلى دروس الموضوع",
+  "lessonAnalytics.subtitle": "تفاعل الطلاب الذين لديهم تقدم مع الفيديو في \"{name}\"",
+  "lessonAnalytics.thisLesson": "هذا الدرس",
+  "lessonAnalytics.loadFailed": "فشل تحميل تقدم هذه الدورة",
+  "lessonAnalytics.noneWatched": "لم يشاهد أي من الطلاب الذين لديهم تقدم في هذه الدورة ({count}) هذا الدرس بعد",
+  "lessonAnalytics.noProgress": "لا يوجد تقدم لأي طالب في هذه الدورة بعد",
+  "lessonAnalytics.studentsWatched": "الطلاب الذين شاهدوا",
+  "lessonAnalytics.completedLesson": "أكمل {count} الدرس",
+  "lessonAnalytics.avgCompletion": "متوسط الإكمال",
+  "lessonAnalytics.rewatchRate": "معدل إعادة المشاهدة",
+  "lessonAnalytics.avgTimeSpent": "متوسط الوقت المستغرق",
+  "lessonAnalytics.dropOff": "نقاط التوقف",
+  "lessonAnalytics.dropOffDescription": "أين توقف الطلاب الذين لم يُكملوا التسجيل عن مشاهدته",
+  "lessonAnalytics.recordingUsage": "استخدام التسجيلات",
+  "lessonAnalytics.recordingUsageDescription": "كيف يشاهد الطلاب التسجيلات الرئيسية وGVO وVVT",
+  "lessonAnalytics.recording": "التسجيل",
+  "lessonAnalytics.viewers": "المشاهدون",
+  "lessonAnalytics.completed": "مكتمل",
+  "lessonAnalytics.rewatched": "أُعيدت مشاهدته",
+  "lessonAnalytics.avgPlays": "متوسط مرات التشغيل",
+  "lessonAnalytics.watchTime": "وقت المشاهدة",
+
+  // Users
+  "users.fullName": "الاسم الكامل",
+  "users.academicYear": "السنة الدراسية",
+  "users.semester": "الفصل الدراسي",
+  "users.blocked": "محظور",
+  "users.emailVerified": "البريد الإلكتروني مؤكد",
+  "users.devices": "الأجهزة",
+  "users.lastLogin": "آخر تسجيل دخول",
+  "users.joined": "تاريخ الانضمام",
+  "users.noPermission": "ليست لديك صلاحية لعرض المستخدمين.",
+  "users.title": "إدارة المستخدمين",
+  "users.subtitle": "إدارة حسابات الطلاب وتسجيلاتهم.",
+  "users.export": "تصدير المستخدمين",
+  "users.totalUsers": "إجمالي المستخدمين",
+  "users.verifiedUsers": "المستخدمون المؤكدون",
+  "users.unverifiedUsers": "المستخدمون غير المؤكدين",
+  "users.blockedUsers": "المستخدمون المحظورون",
+  "users.users": "المستخدمون",
+  "users.usersDescription": "إدارة حسابات الطلاب ومعلوماتهم.",
+  "users.searchPlaceholder": "البحث عن مستخدمين...",
+  "users.filterByStatus": "التصفية حسب الحالة",
+  "users.allStatus": "كل الحالات",
+  "users.filterByVerification": "التصفية حسب التأكيد",
+  "users.allVerification": "كل حالات التأكيد",
+  "users.verified": "مؤكد",
+  "users.unverified": "غير مؤكد",
+  "users.loading": "جارٍ تحميل المستخدمين...",
+  "users.notFound": "لم يتم العثور على مستخدمين.",
+  "users.viewDevices": "عرض الأجهزة",
+  "users.editTitle": "تعديل المستخدم",
+  "users.editDescription": "تحديث معلومات المستخدم.",
+  "users.fullNamePlaceholder": "أدخل الاسم الكامل",
+  "users.emailPlaceholder": "أدخل البريد الإلكتروني",
+  "users.phoneOptional": "الهاتف (اختياري)",
+  "users.phonePlaceholder": "أدخل رقم الهاتف",
+  "users.selectAcademicYear": "اختر السنة الدراسية",
+  "users.year1": "السنة الأولى",
+  "users.year2": "السنة الثانية",
+  "users.year3": "السنة الثالثة",
+  "users.year4": "السنة الرابعة",
+  "users.year5": "السنة الخامسة",
+  "users.year6": "السنة السادسة",
+  "users.selectSemester": "اختر الفصل الدراسي",
+  "users.fall": "الخريف",
+  "users.spring": "الربيع",
+  "users.summer": "الصيف",
+  "users.updateUser": "تحديث المستخدم",
+  "users.devicesTitle": "أجهزة المستخدم",
+  "users.devicesDescription": "إدارة أجهزة {name}",
+  "users.noDevices": "لا توجد أجهزة لهذا المستخدم.",
+  "users.deviceType": "النوع: {type}",
+  "users.deviceLastUsed": "آخر استخدام: {date}",
+  "users.deviceIp": "عنوان IP: {ip}",
+  "users.deleteTitle": "حذف المستخدم",
+  "users.deleteDescription": "هل أنت متأكد من حذف هذا المستخدم؟ لا يمكن التراجع عن هذا الإجراء.",
+  "users.removeDeviceTitle": "إزالة الجهاز",
+  "users.removeDeviceDescription": "هل أنت متأكد من إزالة هذا الجهاز؟ سيحتاج المستخدم إلى المصادقة مجددًا على هذا الجهاز.",
+
+  // Enrollments
+  "enrollments.accessType": "نوع الوصول",
+  "enrollments.fullCourse": "الدورة كاملة",
+  "enrollments.individualTopics": "مواضيع منفردة",
+  "enrollments.purchasedTopics": "المواضيع المشتراة",
+  "enrollments.totalAmount": "المبلغ الإجمالي",
+  "enrollments.discount": "الخصم",
+  "enrollments.amountPaid": "المبلغ المدفوع",
+  "enrollments.currency": "العملة",
+  "enrollments.paymentStatus": "حالة الدفع",
+  "enrollments.expires": "تاريخ الانتهاء",
+  "enrollments.enrolled": "تاريخ التسجيل",
+  "enrollments.pending": "قيد الانتظار",
+  "enrollments.completed": "مكتمل",
+  "enrollments.failed": "فشل",
+  "enrollments.refunded": "مسترد",
+  "enrollments.cancelled": "ملغى",
+  "enrollments.title": "التسجيلات",
+  "enrollments.subtitle": "إدارة تسجيلات الدورات ومتابعتها",
+  "enrollments.totalEnrollments": "إجمالي التسجيلات",
+  "enrollments.completedPayments": "المدفوعات المكتملة",
+  "enrollments.pendingPayments": "المدفوعات المعلقة",
+  "enrollments.totalRevenue": "إجمالي الإيرادات",
+  "enrollments.filtersDescription": "تصفية التسجيلات حسب معايير مختلفة",
+  "enrollments.searchPlaceholder": "البحث في التسجيلات...",
+  "enrollments.allAccessTypes": "كل أنواع الوصول",
+  "enrollments.fullAccess": "وصول كامل",
+  "enrollments.totalCount": "{count} تسجيلًا إجمالًا",
+  "enrollments.user": "المستخدم",
+  "enrollments.amount": "المبلغ",
+  "enrollments.notFound": "لم يتم العثور على تسجيلات",
+  "enrollments.discountAmount": "الخصم: {amount}",
+  "enrollments.cancelTitle": "إلغاء التسجيل",
+  "enrollments.cancelDescription": "هل أنت متأكد من إلغاء هذا التسجيل؟ لا يمكن التراجع عن هذا الإجراء.",
+  "enrollments.confirmCancel": "نعم، ألغِ التسجيل",
+  "enrollments.refund": "استرداد",
+  "enrollments.refundTitle": "استرداد التسجيل",
+  "enrollments.refundDescription": "معالجة استرداد لهذا التسجيل. اترك المبلغ فارغًا لاسترداد كامل.",
+  "enrollments.refundPlaceholder": "اتركه فارغًا لاسترداد كامل",
+  "enrollments.processRefund": "تنفيذ الاسترداد",
+
+  // Course leaderboard
+  "leaderboard.rank": "الترتيب",
+  "leaderboard.completionPercent": "نسبة الإكمال %",
+  "leaderboard.completedLessons": "الدروس المكتملة",
+  "leaderboard.totalLessons": "إجمالي الدروس",
+  "leaderboard.timeSpent": "الوقت المستغرق",
+  "leaderboard.courseCompleted": "أكمل الدورة",
+  "leaderboard.completedAt": "تاريخ الإكمال",
+  "leaderboard.title": "لوحة صدارة {course}",
+  "leaderboard.courseFallback": "الدورة",
+  "leaderboard.subtitle": "أفضل المتعلمين مرتبين حسب نسبة الإكمال والوقت المستغرق",
+  "leaderboard.backToProgress": "العودة إلى التقدم",
+  "leaderboard.lessonsCount": "{completed} / {total} دروس",
+  "leaderboard.user": "المستخدم",
+  "leaderboard.progress": "التقدم",
+  "leaderboard.lessons": "الدروس",
+  "leaderboard.noData": "لا تتوفر بيانات للوحة الصدارة",
+
+  // Quiz leaderboard
+  "quizLeaderboard.quiz": "الاختبار",
+  "quizLeaderboard.bestScore": "أفضل نتيجة",
+  "quizLeaderboard.bestPercent": "أفضل نسبة %",
+  "quizLeaderboard.attempts": "المحاولات",
+  "quizLeaderboard.passed": "ناجح",
+  "quizLeaderboard.lastAttempt": "آخر محاولة",
+  "quizLeaderboard.title": "لوحة صدارة الاختبار",
+  "quizLeaderboard.description": "{title} · أفضل محاولة لكل طالب",
+  "quizLeaderboard.noAttempts": "لا توجد محاولات بعد.",
+  "quizLeaderboard.notPassed": "لم ينجح",
+
+  // Dashboard home
+  "home.welcome": "مرحبًا بعودتك، {name}!",
+  "home.subtitle": "إليك ما يحدث في منصتك التعليمية اليوم.",
+  "home.totalStudents": "إجمالي الطلاب",
+  "home.verifiedBlocked": "{verified} مؤكد · {blocked} محظور",
+  "home.activeCourses": "الدورات النشطة",
+  "home.totalInactive": "{total} إجمالًا · {inactive} غير نشطة",
+  "home.enrollmentsThisMonth": "التسجيلات هذا الشهر",
+  "home.revenueThisMonth": "الإيرادات هذا الشهر",
+  "home.libraryVideos": "فيديوهات المكتبة",
+  "home.stored": "{size} مخزنة",
+  "home.noLastMonthData": "لا توجد بيانات للشهر الماضي",
+  "home.vsLastMonth": "مقارنة بالأيام نفسها من الشهر الماضي",
+  "home.enrolled": "{student} سجّل في \"{course}\" ({status})",
+  "home.aStudent": "طالب",
+  "home.aCourse": "دورة",
+  "home.registered": "سجّل {name} كطالب جديد",
+  "home.recentActivity": "النشاط الأخير",
+  "home.recentActivityDescription": "أحدث التسجيلات والاشتراكات",
+  "home.noActivity": "لا يوجد نشاط حديث",
+  "home.noActivityPermission": "ليست لديك صلاحية لعرض نشاط المنصة.",
+  "home.quickActions": "إجراءات سريعة",
+  "home.quickActionsDescription": "مهام شائعة قد ترغب في تنفيذها",
+  "home.noActions": "لا توجد إجراءات متاحة لدورك.",
+  "home.addUniversity": "إضافة جامعة جديدة",
+  "home.createAdmin": "إنشاء حساب مسؤول",
+  "home.manageRoles": "إدارة أدوار المستخدمين",
+  "home.reviewEnrollments": "مراجعة التسجيلات",
+
+  // Analytics
+  "analytics.title": "التحليلات",
+  "analytics.subtitle": "اتجاهات التسجيلات والإيرادات بمرور الوقت",
+  "analytics.totalEnrollments": "إجمالي التسجيلات",
+  "analytics.completedPayments": "المدفوعات المكتملة",
+  "analytics.pendingPayments": "المدفوعات المعلقة",
+  "analytics.totalRevenue": "إجمالي الإيرادات",
+  "analytics.enrollments": "التسجيلات",
+  "analytics.enrollmentsPerDay": "التسجيلات الجديدة يوميًا حسب نوع الوصول",
+  "analytics.enrollmentsPerWeek": "التسجيلات الجديدة أسبوعيًا حسب نوع الوصول",
+  "analytics.enrollmentsPerMonth": "التسجيلات الجديدة شهريًا حسب نوع الوصول",
+  "analytics.daily": "يومي",
+  "analytics.weekly": "أسبوعي",
+  "analytics.monthly": "شهري",
+  "analytics.weekOf": "أسبوع {date}",
+  "analytics.revenueByCurrency": "الإيرادات حسب العملة",
+  "analytics.revenuePerDay": "المدفوعات المكتملة يوميًا، عمود لكل عملة",
+  "analytics.revenuePerWeek": "المدفوعات المكتملة أسبوعيًا، عمود لكل عملة",
+  "analytics.revenuePerMonth": "المدفوعات المكتملة شهريًا، عمود لكل عملة",
+  "analytics.paymentStatus": "حالة الدفع",
+  "analytics.paymentStatusDescription": "التسجيلات حسب حالة الدفع",
+  "analytics.accessType": "نوع الوصول",
+  "analytics.accessTypeDescription": "شراء الدورة كاملة مقابل مواضيع منفردة",
+  "analytics.noEnrollments": "لا توجد تسجيلات في هذا النطاق",
+
+  // Admins
+  "admins.title": "إدارة المسؤولين",
+  "admins.subtitle": "إدارة حسابات المسؤولين وصلاحياتهم.",
+  "admins.create": "إنشاء مسؤول",
+  "admins.createTitle": "إنشاء مسؤول جديد",
+  "admins.createDescription": "إنشاء حساب مسؤول جديد.",
+  "admins.username": "اسم المستخدم",
+  "admins.usernamePlaceholder": "أدخل اسم المستخدم",
+  "admins.emailPlaceholder": "أدخل البريد الإلكتروني",
+  "admins.password": "كلمة المرور",
+  "admins.passwordPlaceholder": "أدخل كلمة المرور",
+  "admins.role": "الدور",
+  "admins.selectRole": "اختر دورًا",
+  "admins.phoneOptional": "الهاتف (اختياري)",
+  "admins.phonePlaceholder": "أدخل رقم الهاتف",
+  "admins.totalAdmins": "إجمالي المسؤولين",
+  "admins.activeAdmins": "المسؤولون النشطون",
+  "admins.inactiveAdmins": "المسؤولون غير النشطين",
+  "admins.administrators": "المسؤولون",
+  "admins.administratorsDescription": "إدارة حسابات المسؤولين وأدوارهم.",
+  "admins.searchPlaceholder": "البحث عن مسؤولين...",
+  "admins.lastLogin": "آخر تسجيل دخول",
+  "admins.loading": "جارٍ تحميل المسؤولين...",
+  "admins.notFound": "لم يتم العثور على مسؤولين.",
+  "admins.changePassword": "تغيير كلمة المرور",
+  "admins.editTitle": "تعديل المسؤول",
+  "admins.editDescription": "تحديث معلومات المسؤول.",
+  "admins.update": "تحديث المسؤول",
+  "admins.passwordDescription": "تحديث كلمة مرور المسؤول.",
+  "admins.newPassword": "كلمة المرور الجديدة",
+  "admins.newPasswordPlaceholder": "أدخل كلمة المرور الجديدة",
+  "admins.updatePassword": "تحديث كلمة المرور",
+  "admins.deleteTitle": "حذف المسؤول",
+  "admins.deleteDescription": "هل أنت متأكد من حذف هذا المسؤول؟ لا يمكن التراجع عن هذا الإجراء.",
+
+  // Roles
+  "roles.title": "إدارة الأدوار",
+  "roles.subtitle": "إدارة الأدوار وصلاحياتها.",
+  "roles.permissionMatrix": "مصفوفة الصلاحيات",
+  "roles.create": "إنشاء دور",
+  "roles.createTitle": "إنشاء دور جديد",
+  "roles.createDescription": "أنشئ دورًا جديدًا وامنحه الصلاحيات.",
+  "roles.roleName": "اسم الدور",
+  "roles.roleNamePlaceholder": "أدخل اسم الدور",
+  "roles.permissions": "الصلاحيات",
+  "roles.loadingPermissions": "جارٍ تحميل الصلاحيات...",
+  "roles.totalRoles": "إجمالي الأدوار",
+  "roles.activeRoles": "الأدوار النشطة",
+  "roles.inactiveRoles": "الأدوار غير النشطة",
+  "roles.roles": "الأدوار",
+  "roles.rolesDescription": "إدارة الأدوار والصلاحيات المرتبطة بها.",
+  "roles.searchPlaceholder": "البحث عن أدوار...",
+  "roles.loading": "جارٍ تحميل الأدوار...",
+  "roles.notFound": "لم يتم العثور على أدوار.",
+  "roles.editTitle": "تعديل الدور",
+  "roles.editDescription": "تحديث معلومات الدور وصلاحياته.",
+  "roles.update": "تحديث الدور",
+  "roles.selectAll": "تحديد كل الصلاحيات ({selected}/{total})",
+  "roles.noPermissionsYet": "· لا توجد صلاحيات بعد",
+  "roles.createPermissions": "إنشاء",
+  "roles.permissionCount": "{count} صلاحية",
+  "roles.backToRoles": "العودة إلى الأدوار",
+  "roles.matrixSubtitle": "قارن الصلاحيات وعدّلها لكل الأدوار.",
+  "roles.discard": "تجاهل",
+  "roles.reviewChanges": "مراجعة التغييرات",
+  "roles.matrixTitle": "الأدوار × الصلاحيات",
+  "roles.matrixDescription": "استخدم مربعات الصفوف والأعمدة لمنح الصلاحيات أو سحبها دفعة واحدة. الخلايا المميزة بها تغييرات غير محفوظة.",
+  "roles.matrixEmpty": "لم يتم العثور على أدوار أو صلاحيات.",
+  "roles.permission": "الصلاحية",
+  "roles.toggleRole": "تبديل كل الصلاحيات للدور {role}",
+  "roles.toggleRow": "تبديل {permission} لكل الأدوار",
+  "roles.toggleCell": "{permission} للدور {role}",
+  "roles.clone": "نسخ الدور",
+  "roles.cloneDescription": "أنشئ دورًا جديدًا بالصلاحيات نفسها للدور \"{name}\"، بما في ذلك أي تغييرات غير محفوظة.",
+  "roles.cloneName": "{name} (نسخة)",
+  "roles.cloning": "جارٍ النسخ...",
+  "roles.cloneRole": "نسخ الدور",
+  "roles.reviewTitle": "مراجعة تغييرات الصلاحيات",
+  "roles.reviewOne": "سيتم تحديث دور واحد.",
+  "roles.reviewMany": "سيتم تحديث {count} أدوار.",
+  "roles.keepEditing": "متابعة التعديل",
+  "roles.saveChanges": "حفظ التغييرات",
+
+  // Universities
+  "universities.noPermission": "ليس لديك صلاحية لعرض الجامعات.",
+  "universities.title": "إدارة الجامعات",
+  "universities.subtitle": "إدارة الجامعات ومعلوماتها.",
+  "universities.create": "إنشاء جامعة",
+  "universities.createTitle": "إنشاء جامعة جديدة",
+  "universities.createDescription": "أنشئ جامعة جديدة بدعم لعدة لغات.",
+  "universities.namePlaceholderEn": "أدخل اسم الجامعة بالإنجليزية",
+  "universities.namePlaceholderAr": "أدخل اسم الجامعة بالعربية",
+  "universities.namePlaceholderHe": "أدخل اسم الجامعة بالعبرية",
+  "universities.total": "إجمالي الجامعات",
+  "universities.active": "الجامعات النشطة",
+  "universities.inactive": "الجامعات غير النشطة",
+  "universities.universities": "الجامعات",
+  "universities.description": "إدارة الجامعات ومعلوماتها متعددة اللغات.",
+  "universities.searchPlaceholder": "البحث عن جامعات...",
+  "universities.loading": "جارٍ تحميل الجامعات...",
+  "universities.notFound": "لم يتم العثور على جامعات.",
+  "universities.editTitle": "تعديل الجامعة",
+  "universities.editDescription": "تحديث معلومات الجامعة وأسمائها بعدة لغات.",
+  "universities.update": "تحديث الجامعة",
+  "universities.deleteTitle": "حذف الجامعة",
+  "universities.deleteDescription": "هل أنت متأكد من حذف هذه الجامعة؟ سيؤدي هذا الإجراء إلى تعيين الجامعة كغير نشطة.",
+  "universities.hardDeleteTitle": "حذف الجامعة نهائيًا",
+  "universities.hardDeleteDescription": "هل أنت متأكد من حذف هذه الجامعة نهائيًا؟ لا يمكن التراجع عن هذا الإجراء وسيتم حذف جميع البيانات المرتبطة بها.",
+  "universities.unknown": "جامعة غير معروفة",
+
+  // Faculties
+  "faculties.noPermission": "ليس لديك صلاحية لعرض الكليات.",
+  "faculties.title": "إدارة الكليات",
+  "faculties.subtitle": "إدارة الكليات وبرامجها الأكاديمية.",
+  "faculties.create": "إنشاء كلية",
+  "faculties.createTitle": "إنشاء كلية جديدة",
+  "faculties.createDescription": "أنشئ كلية جديدة بدعم لعدة لغات.",
+  "faculties.namePlaceholderEn": "أدخل اسم الكلية بالإنجليزية",
+  "faculties.namePlaceholderAr": "أدخل اسم الكلية بالعربية",
+  "faculties.namePlaceholderHe": "أدخل اسم الكلية بالعبرية",
+  "faculties.universityRequired": "الجامعة *",
+  "faculties.selectUniversity": "اختر جامعة",
+  "faculties.academicYearsRequired": "عدد السنوات الدراسية *",
+  "faculties.selectYears": "اختر عدد السنوات",
+  "faculties.oneYear": "سنة واحدة",
+  "faculties.years": "{count} سنوات",
+  "faculties.total": "إجمالي الكليات",
+  "faculties.active": "الكليات النشطة",
+  "faculties.inactive": "الكليات غير النشطة",
+  "faculties.faculties": "الكليات",
+  "faculties.description": "إدارة الكليات ومعلوماتها الأكاديمية.",
+  "faculties.searchPlaceholder": "البحث عن كليات...",
+  "faculties.filterByUniversity": "التصفية حسب الجامعة",
+  "faculties.allUniversities": "كل الجامعات",
+  "faculties.academicYears": "السنوات الدراسية",
+  "faculties.loading": "جارٍ تحميل الكليات...",
+  "faculties.notFound": "لم يتم العثور على كليات.",
+  "faculties.editTitle": "تعديل الكلية",
+  "faculties.editDescription": "تحديث معلومات الكلية وأسمائها بعدة لغات.",
+  "faculties.update": "تحديث الكلية",
+  "faculties.deleteTitle": "حذف الكلية",
+  "faculties.deleteDescription": "هل أنت متأكد من حذف هذه الكلية؟ سيؤدي هذا الإجراء إلى تعيين الكلية كغير نشطة.",
+  "faculties.hardDeleteTitle": "حذف الكلية نهائيًا",
+  "faculties.hardDeleteDescription": "هل أنت متأكد من حذف هذه الكلية نهائيًا؟ لا يمكن التراجع عن هذا الإجراء وسيتم حذف جميع البيانات المرتبطة بها.",
+  "faculties.unknown": "كلية غير معروفة",
+
+  // Courses
+  "courses.title": "إدارة الدورات",
+  "courses.subtitle": "إدارة الدورات ومحتواها عبر عدة كليات.",
+  "courses.create": "إنشاء دورة",
+  "courses.total": "إجمالي الدورات",
+  "courses.active": "الدورات النشطة",
+  "courses.averagePrice": "متوسط السعر",
+  "courses.totalRevenue": "إجمالي الإيرادات",
+  "courses.courses": "الدورات",
+  "courses.description": "تصفح جميع الدورات المتاحة وإدارتها.",
+  "courses.searchPlaceholder": "البحث عن دورات...",
+  "courses.loading": "جارٍ تحميل الدورات...",
+  "courses.notFound": "لم يتم العثور على دورات.",
+  "courses.hours": "{count} ساعات",
+  "courses.learningOutcomes": "مخرجات التعلم",
+  "courses.topics": "المواضيع",
+  "courses.files": "الملفات",
+  "courses.progress": "التقدم",
+  "courses.deleteTitle": "حذف الدورة",
+  "courses.deleteDescription": "هل أنت متأكد من حذف هذه الدورة؟ لا يمكن التراجع عن هذا الإجراء.",
+  "courses.unknown": "دورة غير معروفة",
+  "courses.noDescription": "لا يوجد وصف",
+  "courses.unknownInstructor": "مدرّس غير معروف",
+  "courses.imageUploadFailed": "فشل رفع الصورة",
+  "courses.imageRequired": "صورة الدورة مطلوبة",
+  "courses.loadingCourse": "جارٍ تحميل الدورة...",
+  "courses.courseNotFound": "لم يتم العثور على الدورة.",
+  "courses.editTitle": "تعديل الدورة",
+  "courses.createTitle": "إنشاء دورة جديدة",
+  "courses.editDescription": "تحديث معلومات الدورة وإعداداتها.",
+  "courses.createDescription": "أنشئ دورة جديدة بدعم لعدة لغات.",
+  "courses.backToCourses": "العودة إلى الدورات",
+  "courses.uploadingImage": "جارٍ رفع الصورة...",
+  "courses.save": "حفظ الدورة",
+  "courses.basicInformation": "المعلومات الأساسية",
+  "courses.basicInformationDescription": "أدخل اسم الدورة ووصفها بعدة لغات.",
+  "courses.name": "اسم الدورة",
+  "courses.namePlaceholder": "أدخل اسم الدورة",
+  "courses.courseDescription": "وصف الدورة",
+  "courses.learningOutcomesDescription": "حدد ما سيتعلمه الطلاب من هذه الدورة.",
+  "courses.learningOutcomeNumber": "مخرج التعلم {number}",
+  "courses.learningOutcome": "مخرج التعلم",
+  "courses.learningOutcomePlaceholder": "أدخل مخرج التعلم",
+  "courses.addLearningOutcome": "إضافة مخرج تعلم",
+  "courses.details": "تفاصيل الدورة",
+  "courses.detailsDescription": "حدد مدة الدورة وسعرها ومعلومات المدرّس.",
+  "courses.hoursLabel": "ساعات الدورة *",
+  "courses.hoursPlaceholder": "أدخل ساعات الدورة",
+  "courses.price": "سعر الدورة *",
+  "courses.pricePlaceholder": "أدخل سعر الدورة",
+  "courses.discount": "الخصم (%)",
+  "courses.discountPlaceholder": "أدخل نسبة الخصم",
+  "courses.instructor": "المدرّس *",
+  "courses.selectInstructor": "اختر مدرّسًا",
+  "courses.instructorPercentage": "نسبة المدرّس *",
+  "courses.instructorPercentagePlaceholder": "أدخل نسبة المدرّس",
+  "courses.associatedFaculties": "الكليات المرتبطة",
+  "courses.associatedFacultiesDescription": "اختر الكليات التي تنتمي إليها هذه الدورة.",
+  "courses.faculties": "الكليات *",
+  "courses.selectFaculties": "اختر الكليات...",
+  "courses.noFaculties": "لم يتم العثور على كليات.",
+  "courses.mediaUpload": "رفع الوسائط",
+  "courses.mediaUploadDescription": "ارفع صورة الدورة (مطلوبة) والفيديو التعريفي (اختياري).",
+  "courses.image": "صورة الدورة *",
+  "courses.imageHelp": "ارفع صورة عالية الجودة لدورتك (JPG, PNG, GIF, WebP, SVG)",
+  "courses.currentImage": "الصورة الحالية:",
+  "courses.currentImageAlt": "صورة الدورة الحالية",
+  "courses.introductoryVideo": "الفيديو التعريفي",
+  "courses.introductoryVideoHelp": "اختر فيديو تعريفيًا من مكتبة الفيديو",
+  "courses.selectVideo": "اختر فيديو",
+  "courses.selectVideoPlaceholder": "اختر فيديو من المكتبة",
+  "courses.noVideoSelected": "لم يتم اختيار فيديو",
+  "courses.selectedVideo": "الفيديو المحدد:",
+  "courses.status": "حالة الدورة",
+  "courses.statusDescription": "تحكم في ما إذا كانت الدورة نشطة أو غير نشطة.",
+  "courses.statusHelp": "تفعيل هذه الدورة أو تعطيلها",
+
+  // Attached files
+  "files.backToCourses": "العودة إلى الدورات",
+  "files.backToTopics": "العودة إلى مواضيع الدورة",
+  "files.backToLessons": "العودة إلى دروس الموضوع",
+  "files.courseTitle": "ملفات الدورة",
+  "files.topicTitle": "ملفات الموضوع",
+  "files.lessonTitle": "ملفات الدرس",
+  "files.subtitle": "إدارة الملفات المرفقة بـ \"{name}\"",
+  "files.thisCourse": "هذه الدورة",
+  "files.thisTopic": "هذا الموضوع",
+  "files.thisLesson": "هذا الدرس",
+  "files.bulkUpload": "رفع متعدد",
+  "files.uploadFile": "رفع ملف",
+  "files.attachedFiles": "الملفات المرفقة ({count})",
+  "files.courseDescription": "الملفات التي تم رفعها وإرفاقها بهذه الدورة.",
+  "files.topicDescription": "الملفات التي تم رفعها وإرفاقها بهذا الموضوع.",
+  "files.lessonDescription": "الملفات التي تم رفعها وإرفاقها بهذا الدرس.",
+  "files.loading": "جارٍ تحميل الملفات...",
+  "files.empty": "لم يتم رفع ملفات",
+  "files.courseEmptyHelp": "ابدأ برفع أول ملف لهذه الدورة.",
+  "files.topicEmptyHelp": "ابدأ برفع أول ملف لهذا الموضوع.",
+  "files.lessonEmptyHelp": "ابدأ برفع أول ملف لهذا الدرس.",
+  "files.file": "الملف",
+  "files.uploadedBy": "رفعه",
+  "files.date": "التاريخ",
+  "files.preview": "معاينة",
+  "files.deleteTitle": "حذف الملف",
+  "files.deleteDescription": "هل أنت متأكد من حذف \"{name}\"؟ لا يمكن التراجع عن هذا الإجراء.",
+  "files.typeImage": "صورة",
+  "files.typeVideo": "فيديو",
+  "files.typeAudio": "صوت",
+  "files.typePdf": "مستند PDF",
+  "files.typeWord": "مستند Word",
+  "files.typeExcel": "جدول Excel",
+  "files.typePowerPoint": "عرض PowerPoint",
+  "files.typeText": "ملف نصي",
+  "files.typeFile": "ملف",
+  "files.uploadCourseDescription": "ارفع ملفًا لإرفاقه بهذه الدورة. تشمل الصيغ المدعومة الصور والفيديوهات والمستندات والملفات الصوتية وغيرها.",
+  "files.uploadTopicDescription": "ارفع ملفًا لإرفاقه بهذا الموضوع. تشمل الصيغ المدعومة الصور والفيديوهات والمستندات والملفات الصوتية وغيرها.",
+  "files.uploadLessonDescription": "ارفع ملفًا لإرفاقه بهذا الدرس. تشمل الصيغ المدعومة الصور والفيديوهات والمستندات والملفات الصوتية وغيرها.",
+  "files.selectFile": "اختر ملفًا *",
+  "files.selectFileHelp": "اختر مستندًا أو صورة أو ملفًا صوتيًا أو فيديو (500MB كحد أقصى)",
+  "files.fileName": "اسم الملف",
+  "files.fileNameHelp": "أدخل اسمًا وصفيًا للملف بعدة لغات.",
+  "files.arabicName": "الاسم بالعربية",
+  "files.hebrewName": "الاسم بالعبرية",
+  "files.namePlaceholderEn": "أدخل اسم الملف بالإنجليزية",
+  "files.namePlaceholderAr": "أدخل اسم الملف بالعربية",
+  "files.namePlaceholderHe": "أدخل اسم الملف بالعبرية",
+  "files.alreadyAttached": "يوجد ملف مرفق باسم \"{name}\" بالفعل",
+  "files.bulkTitle": "رفع ملفات متعددة",
+  "files.bulkCourseDescription": "أفلت أي عدد من الملفات لإرفاقها بهذه الدورة. تؤخذ الأسماء من أسماء الملفات ويمكن تعديلها قبل الرفع.",
+  "files.bulkTopicDescription": "أفلت أي عدد من الملفات لإرفاقها بهذا الموضوع. تؤخذ الأسماء من أسماء الملفات ويمكن تعديلها قبل الرفع.",
+  "files.bulkLessonDescription": "أفلت أي عدد من الملفات لإرفاقها بهذا الدرس. تؤخذ الأسماء من أسماء الملفات ويمكن تعديلها قبل الرفع.",
+  "files.dropzone": "اسحب الملفات إلى هنا أو انقر للاستعراض",
+  "files.dropzoneHelp": "مستندات وصور وملفات صوتية وفيديو حتى 500MB لكل ملف",
+  "files.englishNamePlaceholder": "الاسم بالإنجليزية *",
+  "files.arabicNamePlaceholder": "الاسم بالعربية",
+  "files.hebrewNamePlaceholder": "الاسم بالعبرية",
+  "files.ready": "جاهز",
+  "files.invalid": "غير صالح",
+  "files.saving": "جارٍ الحفظ",
+  "files.attached": "مرفق",
+  "files.failed": "فشل",
+  "files.summary": "تم إرفاق {succeeded} من {total} ملفات.",
+  "files.summaryFailed": "أصلح الصفوف الفاشلة وأعد المحاولة، أو احذفها.",
+  "files.uploading": "جارٍ الرفع...",
+  "files.retryFailed": "إعادة محاولة {count} فاشلة",
+  "files.uploadCount": "رفع {count} ملفات",
+  "files.loadFailed": "فشل تحميل الملف ({status})",
+
+  // Topics
+  "topics.title": "مواضيع الدورة",
+  "topics.subtitle": "إدارة مواضيع: {name}",
+  "topics.create": "إنشاء موضوع",
+  "topics.topics": "المواضيع",
+  "topics.description": "إدارة مواضيع هذه الدورة وترتيبها. اسحب وأفلت لتغيير الترتيب.",
+  "topics.searchPlaceholder": "البحث عن مواضيع...",
+  "topics.loading": "جارٍ تحميل المواضيع...",
+  "topics.notFound": "لم يتم العثور على مواضيع لهذه الدورة.",
+  "topics.name": "اسم الموضوع",
+  "topics.price": "السعر",
+  "topics.files": "الملفات",
+  "topics.lessons": "الدروس",
+  "topics.deleteTitle": "حذف الموضوع",
+  "topics.deleteDescription": "هل أنت متأكد من حذف هذا الموضوع؟ لا يمكن التراجع عن هذا الإجراء.",
+  "topics.unknown": "موضوع غير معروف",
+  "topics.editTitle": "تعديل الموضوع",
+  "topics.editDescription": "حدّث معلومات الموضوع أدناه.",
+  "topics.createDescription": "أدخل تفاصيل الموضوع الجديد.",
+  "topics.namePlaceholder": "أدخل اسم الموضوع",
+  "topics.priceRequired": "السعر *",
+  "topics.pricePlaceholder": "أدخل سعر الموضوع",
+  "topics.update": "تحديث الموضوع",
+
+  // Lessons
+  "lessons.title": "دروس الموضوع",
+  "lessons.subtitle": "إدارة دروس: {name}",
+  "lessons.backToTopics": "العودة إلى المواضيع",
+  "lessons.create": "إنشاء درس",
+  "lessons.lessons": "الدروس",
+  "lessons.description": "إدارة دروس هذا الموضوع وترتيبها. اسحب وأفلت لتغيير الترتيب.",
+  "lessons.searchPlaceholder": "البحث عن دروس...",
+  "lessons.loading": "جارٍ تحميل الدروس...",
+  "lessons.notFound": "لم يتم العثور على دروس لهذا الموضوع.",
+  "lessons.name": "اسم الدرس",
+  "lessons.descriptionLabel": "الوصف",
+  "lessons.recordings": "التسجيلات",
+  "lessons.preview": "معاينة",
+  "lessons.analytics": "التحليلات",
+  "lessons.files": "الملفات",
+  "lessons.lesson": "الدرس",
+  "lessons.previewDescription": "معاينة الدرس كما يراه الطلاب",
+  "lessons.deleteTitle": "حذف الدرس",
+  "lessons.deleteDescription": "هل أنت متأكد من حذف هذا الدرس؟ لا يمكن التراجع عن هذا الإجراء.",
+  "lessons.unknown": "درس غير معروف",
+  "lessons.noDescription": "لا يوجد وصف",
+  "lessons.noUpdatePermission": "ليس لديك صلاحية لتحديث الدروس.",
+  "lessons.noCreatePermission": "ليس لديك صلاحية لإنشاء الدروس.",
+  "lessons.loadingLesson": "جارٍ تحميل الدرس...",
+  "lessons.lessonNotFound": "لم يتم العثور على الدرس",
+  "lessons.lessonNotFoundDescription": "الدرس الذي تبحث عنه غير موجود.",
+  "lessons.editTitle": "تعديل الدرس",
+  "lessons.editSubtitle": "تحديث الدرس: {name}",
+  "lessons.createSubtitle": "إضافة درس جديد إلى: {name}",
+  "lessons.backToLessons": "العودة إلى الدروس",
+  "lessons.basicInformationDescription": "أدخل التفاصيل الأساسية للدرس.",
+  "lessons.namePlaceholder": "أدخل اسم الدرس",
+  "lessons.descriptionPlaceholder": "أدخل وصف الدرس",
+  "lessons.recordingSelection": "اختيار التسجيلات",
+  "lessons.recordingSelectionDescription": "اختر تسجيلات الفيديو لهذا الدرس من مكتبة الفيديو.",
+  "lessons.selectMain": "اختر التسجيل الرئيسي",
+  "lessons.noMain": "لا يوجد تسجيل رئيسي",
+  "lessons.selectedMain": "التسجيل الرئيسي المحدد:",
+  "lessons.selectGvo": "اختر تسجيل GVO",
+  "lessons.noGvo": "لا يوجد تسجيل GVO",
+  "lessons.selectedGvo": "تسجيل GVO المحدد:",
+  "lessons.selectVvt": "اختر تسجيل VVT",
+  "lessons.noVvt": "لا يوجد تسجيل VVT",
+  "lessons.selectedVvt": "تسجيل VVT المحدد:",
+  "lessons.lessonPreview": "معاينة الدرس",
+  "lessons.lessonPreviewDescription": "تأكد من تشغيل كل تسجيل قبل حفظ الدرس.",
+  "lessons.status": "حالة الدرس",
+  "lessons.statusDescription": "تحكم في ما إذا كان الدرس نشطًا أو غير نشط.",
+  "lessons.statusHelp": "تفعيل هذا الدرس أو تعطيله",
+  "lessons.update": "تحديث الدرس",
+
+  // Free courses
+  "freeCourses.noPermission": "ليس لديك صلاحية لعرض الدورات المجانية.",
+  "freeCourses.title": "الدورات المجانية",
+  "freeCourses.subtitle": "إدارة الدورات المجانية الخاصة بكل جامعة (على غرار Moodle)",
+  "freeCourses.create": "إنشاء دورة مجانية",
+  "freeCourses.searchPlaceholder": "البحث بالاسم...",
+  "freeCourses.allCourses": "كل الدورات",
+  "freeCourses.loading": "جارٍ تحميل الدورات المجانية...",
+  "freeCourses.loadFailed": "حدث خطأ أثناء تحميل الدورات المجانية",
+  "freeCourses.notFound": "لم يتم العثور على دورات مجانية",
+  "freeCourses.instructor": "المدرّس",
+  "freeCourses.sections": "الأقسام",
+  "freeCourses.sectionsCount": "الأقسام ({count})",
+  "freeCourses.deleteTitle": "هل أنت متأكد؟",
+  "freeCourses.deleteDescription": "سيؤدي هذا إلى إلغاء تفعيل الدورة المجانية \"{name}\". يمكن التراجع عن هذا الإجراء بإعادة تفعيل الدورة.",
+  "freeCourses.editTitle": "تعديل الدورة المجانية",
+  "freeCourses.editDescription": "تحديث تفاصيل الدورة المجانية وأقسامها",
+  "freeCourses.createDescription": "أنشئ دورة مجانية جديدة خاصة بجامعة",
+  "freeCourses.selectUniversity": "اختر الجامعة",
+  "freeCourses.facultyRequired": "الكلية *",
+  "freeCourses.selectFaculty": "اختر الكلية",
+  "freeCourses.selectUniversityFirst": "اختر جامعة أولًا",
+  "freeCourses.selectInstructor": "اختر المدرّس",
+  "freeCourses.nameEn": "اسم الدورة (بالإنجليزية) *",
+  "freeCourses.nameAr": "اسم الدورة (بالعربية)",
+  "freeCourses.nameHe": "اسم الدورة (بالعبرية)",
+  "freeCourses.namePlaceholderEn": "أدخل اسم الدورة بالإنجليزية",
+  "freeCourses.namePlaceholderAr": "أدخل اسم الدورة بالعربية",
+  "freeCourses.namePlaceholderHe": "أدخل اسم الدورة بالعبرية",
+  "freeCourses.overviewEn": "نظرة عامة (بالإنجليزية) *",
+  "freeCourses.overviewAr": "نظرة عامة (بالعربية)",
+  "freeCourses.overviewHe": "نظرة عامة (بالعبرية)",
+  "freeCourses.overviewPlaceholderEn": "أدخل نظرة عامة على الدورة بالإنجليزية",
+  "freeCourses.overviewPlaceholderAr": "أدخل نظرة عامة على الدورة بالعربية",
+  "freeCourses.overviewPlaceholderHe": "أدخل نظرة عامة على الدورة بالعبرية",
+  "freeCourses.sectionsManagedSeparately": "تُدار الأقسام الآن بشكل منفصل لتنظيم أفضل.",
+  "freeCourses.manageSections": "إدارة الأقسام",
+  "freeCourses.update": "تحديث الدورة المجانية",
+
+  // Sections
+  "sections.noPermission": "ليس لديك صلاحية لعرض الأقسام.",
+  "sections.title": "الأقسام",
+  "sections.subtitle": "إدارة أقسام {name}",
+  "sections.create": "إنشاء قسم",
+  "sections.loading": "جارٍ تحميل الأقسام...",
+  "sections.notFound": "لم يتم العثور على أقسام",
+  "sections.createFirst": "إنشاء أول قسم",
+  "sections.contentItems": "عناصر المحتوى",
+  "sections.visibility": "الظهور",
+  "sections.contentCount": "المحتوى ({count})",
+  "sections.visible": "ظاهر",
+  "sections.hidden": "مخفي",
+  "sections.viewContent": "عرض المحتوى",
+  "sections.deleteDescription": "سيؤدي هذا إلى حذف القسم \"{name}\" وجميع عناصر المحتوى الخاصة به نهائيًا. لا يمكن التراجع عن هذا الإجراء.",
+  "sections.edit": "تعديل القسم",
+  "sections.editDescription": "تحديث تفاصيل القسم",
+  "sections.createDescription": "أنشئ قسمًا جديدًا لهذه الدورة المجانية",
+  "sections.details": "تفاصيل القسم",
+  "sections.titlePlaceholderEn": "أدخل عنوان القسم بالإنجليزية",
+  "sections.titlePlaceholderAr": "أدخل عنوان القسم بالعربية",
+  "sections.titlePlaceholderHe": "أدخل عنوان القسم بالعبرية",
+  "sections.descriptionPlaceholderEn": "أدخل وصف القسم بالإنجليزية",
+  "sections.descriptionPlaceholderAr": "أدخل وصف القسم بالعربية",
+  "sections.descriptionPlaceholderHe": "أدخل وصف القسم بالعبرية",
+  "sections.visibilityHelp": "إظهار هذا القسم للطلاب",
+  "sections.update": "تحديث القسم",
+  "sections.builderTitle": "أقسام الدورة",
+  "sections.builderDescription": "نظّم محتوى دورتك في أقسام تضم أنواعًا مختلفة من المحتوى",
+  "sections.add": "إضافة قسم",
+  "sections.noneAdded": "لم تتم إضافة أقسام بعد",
+  "sections.addFirst": "إضافة أول قسم",
+  "sections.number": "القسم {number}",
+  "sections.untitled": "قسم بدون عنوان",
+  "sections.itemCount": "{count} عناصر",
+  "sections.visibleToStudents": "ظاهر للطلاب",
+  "sections.titlePlaceholder": "أدخل عنوان القسم",
+  "sections.descriptionPlaceholder": "أدخل وصف القسم",
+
+  // Content items
+  "contentItems.noPermission": "ليس لديك صلاحية لعرض عناصر المحتوى.",
+  "contentItems.breadcrumb": "المحتوى",
+  "contentItems.title": "عناصر المحتوى",
+  "contentItems.subtitle": "إدارة محتوى {name}",
+  "contentItems.add": "إضافة محتوى",
+  "contentItems.loading": "جارٍ تحميل عناصر المحتوى...",
+  "contentItems.notFound": "لم يتم العثور على عناصر محتوى",
+  "contentItems.addFirst": "إضافة أول عنصر محتوى",
+  "contentItems.deleteDescription": "سيؤدي هذا إلى حذف عنصر المحتوى \"{name}\" نهائيًا. لا يمكن التراجع عن هذا الإجراء.",
+  "contentItems.typeFile": "ملف",
+  "contentItems.typeVideo": "فيديو",
+  "contentItems.typeQuiz": "اختبار",
+  "contentItems.fileUploadFailed": "فشل رفع الملف",
+  "contentItems.edit": "تعديل المحتوى",
+  "contentItems.editTitle": "تعديل عنصر المحتوى",
+  "contentItems.addTitle": "إضافة عنصر محتوى",
+  "contentItems.editDescription": "تحديث تفاصيل عنصر المحتوى",
+  "contentItems.addDescription": "أضف عنصر محتوى جديدًا إلى هذا القسم",
+  "contentItems.details": "تفاصيل عنصر المحتوى",
+  "contentItems.titlePlaceholderEn": "أدخل عنوان المحتوى بالإنجليزية",
+  "contentItems.titlePlaceholderAr": "أدخل عنوان المحتوى بالعربية",
+  "contentItems.titlePlaceholderHe": "أدخل عنوان المحتوى بالعبرية",
+  "contentItems.typeRequired": "نوع المحتوى *",
+  "contentItems.selectType": "اختر نوع المحتوى",
+  "contentItems.typeLocked": "لا يمكن تغيير نوع المحتوى بعد إنشائه",
+  "contentItems.uploadFile": "رفع ملف *",
+  "contentItems.videoFromLibrary": "اختر من مكتبة الفيديو",
+  "contentItems.selectVideoOptional": "اختر فيديو (اختياري)",
+  "contentItems.or": "أو",
+  "contentItems.externalUrl": "رابط فيديو خارجي",
+  "contentItems.externalUrlHelp": "أدخل رابط YouTube أو رابط فيديو خارجي",
+  "contentItems.quizRequired": "اختر اختبارًا *",
+  "contentItems.selectQuiz": "اختر اختبارًا",
+  "contentItems.uploadingFile": "جارٍ رفع الملف...",
+  "contentItems.update": "تحديث المحتوى",
+  "contentItems.view": "عرض عنصر المحتوى",
+  "contentItems.type": "نوع المحتوى",
+  "contentItems.titleEnglish": "العنوان (بالإنجليزية)",
+  "contentItems.contentDetails": "تفاصيل المحتوى",
+  "contentItems.fileUrl": "رابط الملف:",
+  "contentItems.viewFile": "عرض الملف",
+  "contentItems.fileId": "معرّف الملف: {id}",
+  "contentItems.videoLibrary": "مكتبة الفيديو:",
+  "contentItems.watchVideo": "مشاهدة الفيديو",
+  "contentItems.externalVideo": "فيديو خارجي:",
+  "contentItems.noVideoSource": "لا يوجد مصدر فيديو متاح",
+  "contentItems.quiz": "الاختبار:",
+  "contentItems.questionCount": "{count} أسئلة",
+  "contentItems.passingScore": "درجة النجاح: {score}%",
+  "contentItems.quizId": "معرّف الاختبار: {id}",
+  "contentItems.notSpecified": "غير محدد",
+  "contentItems.noneAdded": "لم تتم إضافة عناصر محتوى بعد",
+  "contentItems.itemNumber": "العنصر {number}",
+  "contentItems.titlePlaceholder": "أدخل عنوان المحتوى",
+  "contentItems.videoFromLibraryRequired": "اختر فيديو من المكتبة *",
+  "contentItems.selectVideoFromLibrary": "اختر فيديو من المكتبة",
+  "contentItems.quizFromLibraryRequired": "اختر اختبارًا من المكتبة *",
+  "contentItems.selectQuizFromLibrary": "اختر اختبارًا من المكتبة",
+  "contentItems.selected": "المحدد: {name}",
+  "contentItems.fileUploaded": "✓ تم رفع الملف بنجاح",
+
+  // Quizzes
+  "quizzes.title": "الاختبارات",
+  "quizzes.subtitle": "إدارة الاختبارات للدورات والمواضيع والدروس",
+  "quizzes.create": "إنشاء اختبار",
+  "quizzes.searchPlaceholder": "البحث في الاختبارات...",
+  "quizzes.type": "نوع الاختبار",
+  "quizzes.typeCourse": "دورة",
+  "quizzes.typeTopic": "موضوع",
+  "quizzes.typeLesson": "درس",
+  "quizzes.typeFreeCourse": "دورة مجانية",
+  "quizzes.typeSection": "قسم",
+  "quizzes.questions": "الأسئلة",
+  "quizzes.points": "النقاط",
+  "quizzes.passingScore": "درجة النجاح",
+  "quizzes.notFound": "لم يتم العثور على اختبارات",
+  "quizzes.leaderboard": "لوحة الصدارة",
+  "quizzes.edit": "تعديل الاختبار",
+  "quizzes.duplicate": "نسخ الاختبار",
+  "quizzes.delete": "حذف الاختبار",
+  "quizzes.deleteDescription": "هل أنت متأكد من حذف هذا الاختبار؟ لا يمكن التراجع عن هذا الإجراء. ستفقد جميع بيانات التقدم والإحصائيات.",
+  "quizzes.untitled": "اختبار بدون عنوان",
+  "quizzes.createNew": "إنشاء اختبار جديد",
+  "quizzes.editDescription": "تحديث تفاصيل الاختبار وأسئلته",
+  "quizzes.createDescription": "أضف اختبارًا جديدًا إلى المحتوى",
+  "quizzes.titlePlaceholderEn": "أدخل العنوان بالإنجليزية",
+  "quizzes.descriptionPlaceholderEn": "أدخل الوصف بالإنجليزية",
+  "quizzes.configuration": "إعدادات الاختبار",
+  "quizzes.typeRequired": "نوع الاختبار *",
+  "quizzes.selectType": "اختر نوع الاختبار",
+  "quizzes.selectCourse": "اختر الدورة",
+  "quizzes.selectTopic": "اختر الموضوع",
+  "quizzes.selectLesson": "اختر الدرس",
+  "quizzes.selectFreeCourse": "اختر الدورة المجانية",
+  "quizzes.selectSection": "اختر القسم",
+  "quizzes.selectEntity": "اختر العنصر",
+  "quizzes.selectCourseFirst": "اختر الدورة أولًا",
+  "quizzes.selectTopicFirst": "اختر الموضوع أولًا",
+  "quizzes.selectCourseAndTopicFirst": "اختر الدورة والموضوع أولًا",
+  "quizzes.selectFreeCourseFirst": "اختر الدورة المجانية أولًا",
+  "quizzes.passingScorePercent": "درجة النجاح (%)",
+  "quizzes.passingScoreHelp": "الحد الأدنى من الدرجات المطلوب لاجتياز الاختبار",
+  "quizzes.timeLimit": "المدة الزمنية (بالدقائق)",
+  "quizzes.timeLimitHelp": "اتركه فارغًا لعدم تحديد مدة",
+  "quizzes.maxAttempts": "الحد الأقصى للمحاولات",
+  "quizzes.maxAttemptsHelp": "اتركه فارغًا لمحاولات غير محدودة",
+  "quizzes.showCorrectAnswers": "إظهار الإجابات الصحيحة",
+  "quizzes.showCorrectAnswersHelp": "إظهار الإجابات بعد إكمال الاختبار",
+  "quizzes.shuffleQuestions": "ترتيب الأسئلة عشوائيًا",
+  "quizzes.shuffleQuestionsHelp": "عرض الأسئلة بترتيب عشوائي",
+  "quizzes.shuffleOptions": "ترتيب الخيارات عشوائيًا",
+  "quizzes.shuffleOptionsHelp": "عرض الخيارات بترتيب عشوائي",
+  "quizzes.oneQuestion": "سؤال واحد",
+  "quizzes.questionCount": "{count} أسئلة",
+  "quizzes.update": "تحديث الاختبار",
+  "quizzes.duplicateDescription": "أنشئ نسخة من هذا الاختبار واربطها بعنصر آخر.",
+  "quizzes.sourceQuiz": "الاختبار المصدر: {title}",
+  "quizzes.targetType": "نوع الاختبار الهدف",
+  "quizzes.courseQuiz": "اختبار دورة",
+  "quizzes.topicQuiz": "اختبار موضوع",
+  "quizzes.lessonQuiz": "اختبار درس",
+  "quizzes.freeCourseQuiz": "اختبار دورة مجانية",
+  "quizzes.sectionQuiz": "اختبار قسم",
+  "quizzes.unnamed": "بدون اسم",
+  "quizzes.changeTitle": "اختياري: تغيير عنوان الاختبار",
+  "quizzes.englishTitle": "العنوان بالإنجليزية",
+  "quizzes.arabicTitleOptional": "العنوان بالعربية (اختياري)",
+  "quizzes.hebrewTitleOptional": "العنوان بالعبرية (اختياري)",
+  "quizzes.keepOriginal": "اتركه فارغًا للإبقاء على الأصل",
+  "quizzes.noQuestions": "لم تتم إضافة أسئلة بعد",
+  "quizzes.addFirstQuestion": "إضافة أول سؤال",
+  "quizzes.questionNumber": "السؤال {number}",
+  "quizzes.onePoint": "نقطة واحدة",
+  "quizzes.pointCount": "{count} نقاط",
+  "quizzes.questionText": "نص السؤال",
+  "quizzes.questionPlaceholder": "أدخل السؤال",
+  "quizzes.answerOptions": "خيارات الإجابة *",
+  "quizzes.addOption": "إضافة خيار",
+  "quizzes.optionNumber": "الخيار {number}",
+  "quizzes.optionPlaceholder": "أدخل الخيار",
+  "quizzes.correctAnswer": "الإجابة الصحيحة",
+  "quizzes.correctAnswerHelp": "حدد المربع بجانب الإجابة (الإجابات) الصحيحة",
+  "quizzes.explanation": "الشرح (اختياري)",
+  "quizzes.explanationPlaceholder": "أدخل الشرح",
+  "quizzes.addQuestion": "إضافة سؤال",
+
+  // Course progress
+  "progress.title": "تقدم الدورة",
+  "progress.subtitle": "تابع تقدم الطلاب وإحصاءات إكمال الدورة",
+  "progress.totalUsers": "إجمالي المستخدمين",
+  "progress.completionRate": "معدل الإكمال",
+  "progress.averageCompletion": "متوسط الإكمال",
+  "progress.averageTimeSpent": "متوسط الوقت المستغرق",
+  "progress.userStatus": "حالة المستخدمين",
+  "progress.usersCount": "{count} مستخدم",
+  "progress.timeStatistics": "إحصاءات الوقت",
+  "progress.totalTimeSpent": "إجمالي الوقت المستغرق",
+  "progress.averagePerUser": "المتوسط لكل مستخدم",
+  "progress.rankingsTitle": "عرض الترتيب الفردي",
+  "progress.rankingsDescription": "اطّلع على لوحة الصدارة لعرض أفضل المتعلمين وتفاصيل تقدم كل طالب",
+  "progress.viewLeaderboard": "عرض لوحة الصدارة",
+  "progress.resetTitle": "إعادة تعيين التقدم",
+  "progress.resetDescription": "سيعيد هذا الإجراء تعيين كل تقدم هذا المستخدم في هذه الدورة.",
+  "progress.resetWarning": "سيؤدي ذلك إلى:",
+  "progress.resetLessons": "إعادة تعيين حالة إكمال جميع الدروس",
+  "progress.resetVideos": "مسح تقدم مشاهدة جميع الفيديوهات",
+  "progress.resetTime": "تصفير الوقت المستغرق",
+  "progress.resetCompletion": "إزالة حالة إكمال الدورة",
+  "progress.resetKeepsEnrollment": "الإبقاء على بيانات التسجيل",
+  "progress.resetConfirm": "أفهم أن هذا الإجراء سيعيد تعيين كل التقدم",
+  "progress.deleteTitle": "حذف التقدم",
+  "progress.deleteDescription": "سيؤدي هذا إلى حذف بيانات تقدم هذا المستخدم نهائيًا.",
+  "progress.deleteWarning": "لا يمكن التراجع عن هذا الإجراء.",
+  "progress.deleteSoft": "سيتم حذف جميع بيانات التقدم حذفًا مؤقتًا",
+  "progress.deleteRetained": "سيتم الاحتفاظ بالبيانات لأغراض التدقيق",
+  "progress.deleteHidden": "لن يرى المستخدم هذا التقدم بعد الآن",
+  "progress.deleteKeepsEnrollment": "سيبقى سجل التسجيل نشطًا",
+
+  // Audit log
+  "auditLog.title": "سجل التدقيق",
+  "auditLog.subtitle": "من غيّر ماذا في لوحة التحكم، ومتى.",
+  "auditLog.activity": "النشاط",
+  "auditLog.activityDescription": "عمليات الاسترداد والحظر وإعادة تعيين التقدم والحذف التي أجراها المشرفون.",
+  "auditLog.searchPlaceholder": "المشرف أو اسم العنصر أو المعرّف...",
+  "auditLog.action": "الإجراء",
+  "auditLog.entity": "العنصر",
+  "auditLog.allActions": "جميع الإجراءات",
+  "auditLog.allEntities": "جميع العناصر",
+  "auditLog.when": "الوقت",
+  "auditLog.admin": "المشرف",
+  "auditLog.changes": "التغييرات",
+  "auditLog.notFound": "لم يتم العثور على سجلات تدقيق.",
+  "auditLog.unknownAdmin": "مشرف غير معروف",
+  "auditLog.entryTitle": "{action}: {entity}",
+  "auditLog.noChanges": "لم تُسجَّل أي تغييرات في الحقول لهذا السجل.",
+  "auditLog.field": "الحقل",
+  "auditLog.before": "قبل",
+  "auditLog.after": "بعد",
+  "auditLog.details": "التفاصيل",
+  "auditLog.actionUpdate": "تم التحديث",
+  "auditLog.actionDelete": "تم الحذف",
+  "auditLog.actionHardDelete": "تم الحذف نهائيًا",
+  "auditLog.actionRefund": "تم الاسترداد",
+  "auditLog.actionCancel": "تم الإلغاء",
+  "auditLog.actionBlock": "تم الحظر",
+  "auditLog.actionUnblock": "تم إلغاء الحظر",
+  "auditLog.actionRemoveDevice": "تمت إزالة الجهاز",
+  "auditLog.actionResetProgress": "تمت إعادة تعيين التقدم",
+  "auditLog.actionDeleteProgress": "تم حذف التقدم",
+  "auditLog.entityAdmin": "مشرف",
+  "auditLog.entityRole": "دور",
+  "auditLog.entityUser": "مستخدم",
+  "auditLog.entityUniversity": "جامعة",
+  "auditLog.entityFaculty": "كلية",
+  "auditLog.entityEnrollment": "تسجيل",
+  "auditLog.entityProgress": "تقدم",
+  "auditLog.entityVideoLibrary": "فيديو",
+
+  // Translation coverage
+  "translationCoverage.title": "الترجمات",
+  "translationCoverage.subtitle": "مقدار المحتوى المتاح بكل لغة.",
+  "translationCoverage.fieldsTranslated": "تمت ترجمة {translated} من أصل {total} حقل",
+  "translationCoverage.byType": "التغطية حسب نوع المحتوى",
+  "translationCoverage.byTypeDescription": "تشمل الاختبارات كل سؤال وخيار وشرح.",
+  "translationCoverage.content": "المحتوى",
+  "translationCoverage.fields": "الحقول",
+  "translationCoverage.noContent": "لم يتم العثور على محتوى قابل للترجمة.",
+  "translationCoverage.missingTitle": "الترجمات الناقصة",
+  "translationCoverage.missingDescription": "يرتبط كل صف بالنموذج الذي يمكن فيه ترجمة الحقل.",
+  "translationCoverage.searchPlaceholder": "الاسم أو الحقل...",
+  "translationCoverage.allContent": "كل المحتوى",
+  "translationCoverage.missing": "ناقص",
+  "translationCoverage.anyLanguage": "أي لغة",
+  "translationCoverage.field": "الحقل",
+  "translationCoverage.nothingLeft": "لم يتبقَّ شيء للترجمة.",
+  "translationCoverage.universities": "الجامعات",
+  "translationCoverage.faculties": "الكليات",
+  "translationCoverage.courses": "الدورات",
+  "translationCoverage.topics": "المواضيع",
+  "translationCoverage.lessons": "الدروس",
+  "translationCoverage.quizzes": "الاختبارات",
+  "translationCoverage.sections": "أقسام الدورات المجانية",
+  "translationCoverage.untitled": "بدون عنوان",
+  "translationCoverage.about": "نبذة",
+  "translationCoverage.learningOutcome": "مخرج التعلم {number}",
+  "translationCoverage.question": "السؤال {number}",
+  "translationCoverage.option": "{question} · الخيار {number}",
+  "translationCoverage.explanation": "{question} · الشرح",
+};
@@ -0,0 +1,1485 @@
+/**
+ * English Translations
+ *
+ * English is the source language: every key the dashboard uses is defined
+ * here, and the Arabic and Hebrew dictionaries must provide the same keys.
+ * Placeholders are written as {name} and filled in by translate().
+ */
+
+export const en = {
+  // Common
+  "common.close": "Close",
+  "common.previous": "Previous",
+  "common.next": "Next",
+  "common.loading": "Loading...",
+  "common.search": "Search",
+  "common.download": "Download",
+  "common.cancel": "Cancel",
+  "common.apply": "Apply",
+  "common.reset": "Reset",
+  "common.showing": "Showing {from} to {to} of {total} entries",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.name": "Name",
+  "common.email": "Email",
+  "common.phone": "Phone",
+  "common.student": "Student",
+  "common.course": "Course",
+  "common.university": "University",
+  "common.faculty": "Faculty",
+  "common.active": "Active",
+  "common.inactive": "Inactive",
+  "common.status": "Status",
+  "common.actions": "Actions",
+  "common.refresh": "Refresh",
+  "common.filters": "Filters",
+  "common.notAvailable": "N/A",
+  "common.created": "Created",
+  "common.allStatuses": "All statuses",
+  "common.type": "Type",
+  "common.title": "Title",
+  "common.description": "Description",
+  "common.view": "View",
+  "common.titleEn": "Title (English) *",
+  "common.titleAr": "Title (Arabic)",
+  "common.titleHe": "Title (Hebrew)",
+  "common.descriptionEn": "Description (English)",
+  "common.descriptionAr": "Description (Arabic)",
+  "common.descriptionHe": "Description (Hebrew)",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.remove": "Remove",
+  "common.updating": "Updating...",
+  "common.creating": "Creating...",
+  "common.deleting": "Deleting...",
+  "common.saving": "Saving...",
+  "common.never": "Never",
+  "common.allStatus": "All Status",
+  "common.filterByStatus": "Filter by status",
+  "common.languages": "Languages",
+  "common.singleLanguage": "Single",
+  "common.englishNameRequired": "English Name *",
+  "common.arabicNameOptional": "Arabic Name (Optional)",
+  "common.hebrewNameOptional": "Hebrew Name (Optional)",
+  "common.softDelete": "Soft Delete",
+  "common.hardDelete": "Hard Delete",
+  "common.permanentlyDelete": "Permanently Delete",
+  "common.clear": "Clear",
+  "common.clearFilters": "Clear Filters",
+  "common.back": "Back",
+  "common.optional": "Optional",
+  "common.unknown": "Unknown",
+  "common.preview": "Preview",
+  "common.size": "Size",
+  "common.pageOf": "Page {page} of {total}",
+  "common.hoursMinutes": "{hours}h {minutes}m",
+  "common.minutes": "{minutes}m",
+  "common.seconds": "{seconds}s",
+  "common.untitledCourse": "Untitled Course",
+  "common.inProgress": "In Progress",
+  "common.completed": "Completed",
+  "common.warning": "Warning:",
+  "common.userLabel": "User:",
+  "common.courseLabel": "Course:",
+  "common.top": "Top {count}",
+  "common.selectedFile": "Selected: {name} ({size})",
+  "common.more": "+{count} more",
+  "common.activeStatus": "Active Status",
+
+  // Languages
+  "language.en": "English",
+  "language.ar": "Arabic",
+  "language.he": "Hebrew",
+
+  // Navigation
+  "nav.dashboard": "Dashboard",
+  "nav.admins": "Admins",
+  "nav.roles": "Roles",
+  "nav.users": "Users",
+  "nav.universities": "Universities",
+  "nav.faculties": "Faculties",
+  "nav.courses": "Courses",
+  "nav.freeCourses": "Free Courses",
+  "nav.enrollments": "Enrollments",
+  "nav.analytics": "Analytics",
+  "nav.quizzes": "Quizzes",
+  "nav.videosLibrary": "Videos Library",
+  "nav.auditLog": "Audit Log",
+  "nav.translations": "Translations",
+
+  // Layout
+  "layout.logOut": "Log out",
+  "layout.language": "Language",
+  "layout.toggleSidebar": "Toggle Sidebar",
+  "layout.sidebar": "Sidebar",
+  "layout.sidebarDescription": "Displays the mobile sidebar.",
+
+  // Idle timeout
+  "idle.title": "Are you still there?",
+  "idle.description":
+    "You will be logged out in {seconds}s due to inactivity. Any unsaved changes will be lost.",
+  "idle.logOut": "Log out",
+  "idle.stay": "Stay signed in",
+  "idle.loggedOut": "You were logged out due to inactivity",
+
+  // Login
+  "login.title": "Admin Login",
+  "login.description": "Sign in to your admin dashboard",
+  "login.login": "Username or Email",
+  "login.loginPlaceholder": "Enter your username or email",
+  "login.loginRequired": "Username or email is required",
+  "login.password": "Password",
+  "login.passwordPlaceholder": "Enter your password",
+  "login.passwordRequired": "Password is required",
+  "login.submit": "Sign In",
+  "login.submitting": "Signing in...",
+  "login.success": "Login successful!",
+  "login.failed": "Login failed",
+
+  // Forbidden
+  "forbidden.title": "Access denied",
+  "forbidden.description":
+    "You don't have permission to view this page. Ask a super admin to grant your role access if you need it.",
+  "forbidden.requires": "Requires",
+  "forbidden.or": "or",
+  "forbidden.goBack": "Go back",
+  "forbidden.backToDashboard": "Back to dashboard",
+
+  // Permissions
+  "permissions.missing": 'You need the "{permission}" permission ({name})',
+  "permissions.admins": "Admins",
+  "permissions.roles": "Roles",
+  "permissions.permissions": "Permissions",
+  "permissions.users": "Users",
+  "permissions.universities": "Universities",
+  "permissions.faculties": "Faculties",
+  "permissions.courses": "Courses",
+  "permissions.freeCourses": "Free Courses",
+  "permissions.sections": "Sections",
+  "permissions.topics": "Topics",
+  "permissions.lessons": "Lessons",
+  "permissions.quizzes": "Quizzes",
+  "permissions.videoLibrary": "Video Library",
+  "permissions.attachedFiles": "Attached Files",
+  "permissions.enrollments": "Enrollments",
+  "permissions.progress": "Progress",
+  "permissions.auditLogs": "Audit Logs",
+  "permissions.translations": "Translations",
+  "permissions.create": "create",
+  "permissions.read": "read",
+  "permissions.update": "update",
+  "permissions.delete": "delete",
+  "permissions.export": "export",
+  "permissions.import": "import",
+
+  // Export
+  "export.title": "Export",
+  "export.description": "Every page matching the current filters is included.",
+  "export.format": "Format",
+  "export.language": "Names in",
+  "export.columns": "Columns",
+  "export.selectAll": "Select all",
+  "export.clearAll": "Clear all",
+  "export.fetched": "Fetched {loaded} rows...",
+  "export.fetchedOf": "Fetched {loaded} of {total} rows...",
+  "export.cancel": "Cancel export",
+  "export.exporting": "Exporting...",
+  "export.success": "Exported rows: {count}",
+  "export.cancelled": "Export cancelled",
+  "export.failed": "Export failed",
+
+  // Date range
+  "dateRange.range": "Range",
+  "dateRange.last7Days": "Last 7 days",
+  "dateRange.last30Days": "Last 30 days",
+  "dateRange.last90Days": "Last 90 days",
+  "dateRange.last12Months": "Last 12 months",
+  "dateRange.custom": "Custom range",
+  "dateRange.from": "From",
+  "dateRange.to": "To",
+
+  // Localized fields
+  "localizedField.translated": "{count}/{total} languages",
+  "localizedField.tabs": "Show one language at a time",
+  "localizedField.sideBySide": "Show languages side by side",
+  "localizedField.placeholder": "{placeholder} in {language}",
+
+  // Upload tray
+  "uploads.title": "Uploads",
+  "uploads.active": "{count} in progress",
+  "uploads.pause": "Pause",
+  "uploads.resume": "Resume",
+  "uploads.cancel": "Cancel",
+  "uploads.retry": "Retry",
+  "uploads.dismiss": "Dismiss",
+  "uploads.clearFinished": "Clear finished",
+  "uploads.collapse": "Collapse",
+  "uploads.expand": "Expand",
+  "uploads.queued": "Queued",
+  "uploads.uploading": "Uploading...",
+  "uploads.paused": "Paused",
+  "uploads.processing": "Processing...",
+  "uploads.completed": "Upload Complete",
+  "uploads.failed": "Upload Failed",
+  "uploads.cancelled": "Cancelled",
+  "uploads.speed": "Speed:",
+  "uploads.eta": "ETA:",
+  "uploads.elapsed": "Elapsed:",
+  "uploads.statusError": "Upload failed with status: {status}",
+  "uploads.networkError": "Upload failed due to network error",
+  "uploads.partStatusError": "Part upload failed with status: {status}",
+  "uploads.partNetworkError": "Part upload failed due to network error",
+  "uploads.missingEtag": "Part upload response is missing the ETag header",
+  "uploads.missingPartUrl": "No upload URL for part {number}",
+  "uploads.removed": "Upload was removed",
+  "uploads.wasCancelled": "Upload was cancelled",
+
+  // Toasts
+  "toast.fileAttached": "File attached successfully!",
+  "toast.fileAttachFailed": "Failed to attach file",
+  "toast.fileUpdated": "File updated successfully!",
+  "toast.fileUpdateFailed": "Failed to update file",
+  "toast.fileDeleted": "File deleted successfully!",
+  "toast.fileDeleteFailed": "Failed to delete file",
+  "toast.fileDownloadFailed": "Failed to generate download URL",
+  "toast.contentItemCreated": "Content item created successfully",
+  "toast.contentItemCreateFailed": "Failed to create content item",
+  "toast.contentItemUpdated": "Content item updated successfully",
+  "toast.contentItemUpdateFailed": "Failed to update content item",
+  "toast.contentItemDeleted": "Content item deleted successfully",
+  "toast.contentItemDeleteFailed": "Failed to delete content item",
+  "toast.sectionCreated": "Section created successfully",
+  "toast.sectionCreateFailed": "Failed to create section",
+  "toast.sectionUpdated": "Section updated successfully",
+  "toast.sectionUpdateFailed": "Failed to update section",
+  "toast.sectionDeleted": "Section deleted successfully",
+  "toast.sectionDeleteFailed": "Failed to delete section",
+  "toast.enrollmentRefunded": "Enrollment refunded successfully",
+  "toast.enrollmentRefundFailed": "Failed to refund enrollment",
+  "toast.enrollmentCancelled": "Enrollment cancelled successfully",
+  "toast.enrollmentCancelFailed": "Failed to cancel enrollment",
+  "toast.videoCreateFailed": "Failed to create video library: {error}",
+  "toast.videoUpdated": "Video library updated successfully!",
+  "toast.videoUpdateFailed": "Failed to update video library: {error}",
+  "toast.videoDeleted": "Video library deleted successfully!",
+  "toast.videoDeleteFailed": "Failed to delete video library: {error}",
+  "toast.videoHardDeleted": "Video library permanently deleted!",
+  "toast.videoHardDeleteFailed":
+    "Failed to permanently delete video library: {error}",
+  "toast.videoUrlFailed": "Failed to get video URL: {error}",
+  "toast.videoUploadFailed": "Failed to upload video: {error}",
+  "toast.videoUploaded": "Video \"{name}\" uploaded successfully!",
+  "toast.uploadQueued": "\"{name}\" added to the uploads tray",
+  "toast.videoBulkCompleted": "{count} videos updated successfully!",
+  "toast.videoBulkPartial": "{succeeded} of {total} videos updated, {failed} failed",
+  "toast.auditWriteFailed": "The change was saved but could not be recorded in the audit log",
+  "toast.selectVideoFile": "Please select a video file",
+  "toast.selectFileToUpload": "Please select a file to upload",
+  "toast.fileUploaded": "File uploaded successfully",
+  "toast.fileUploadFailed": "Failed to upload file",
+  "toast.filesAttached": "{count} files attached successfully!",
+  "toast.filesAttachedPartial": "{succeeded} files attached, {failed} failed",
+  "toast.imageUploadFailed": "Failed to upload image",
+  "toast.progressReset": "Progress reset successfully",
+  "toast.progressResetFailed": "Failed to reset progress",
+  "toast.progressDeleted": "Progress deleted successfully",
+  "toast.progressDeleteFailed": "Failed to delete progress",
+  "toast.userUpdated": "User updated successfully!",
+  "toast.userUpdateFailed": "Failed to update user",
+  "toast.userDeleted": "User deleted successfully!",
+  "toast.userDeleteFailed": "Failed to delete user",
+  "toast.userBlocked": "User blocked successfully!",
+  "toast.userUnblocked": "User unblocked successfully!",
+  "toast.userStatusFailed": "Failed to update user status",
+  "toast.deviceRemoved": "Device removed successfully!",
+  "toast.deviceRemoveFailed": "Failed to remove device",
+  "toast.adminCreated": "Admin created successfully!",
+  "toast.adminCreateFailed": "Failed to create admin",
+  "toast.adminUpdated": "Admin updated successfully!",
+  "toast.adminUpdateFailed": "Failed to update admin",
+  "toast.adminDeleted": "Admin deleted successfully!",
+  "toast.adminDeleteFailed": "Failed to delete admin",
+  "toast.adminActivated": "Admin activated successfully!",
+  "toast.adminDeactivated": "Admin deactivated successfully!",
+  "toast.adminStatusFailed": "Failed to update admin status",
+  "toast.passwordUpdated": "Password updated successfully!",
+  "toast.passwordUpdateFailed": "Failed to update password",
+  "toast.roleCreated": "Role created successfully!",
+  "toast.roleCreateFailed": "Failed to create role",
+  "toast.roleUpdated": "Role updated successfully!",
+  "toast.roleUpdateFailed": "Failed to update role",
+  "toast.roleDeleted": "Role deleted permanently!",
+  "toast.roleDeleteFailed": "Failed to delete role",
+  "toast.roleActivated": "Role activated successfully!",
+  "toast.roleDeactivated": "Role deactivated successfully!",
+  "toast.roleStatusFailed": "Failed to update role status",
+  "toast.roleNameLength": "Role name must be between 2 and 50 characters",
+  "toast.roleCloned": "Role \"{name}\" created from \"{source}\"",
+  "toast.roleCloneFailed": "Failed to clone role",
+  "toast.rolePermissionsUpdated": "Permissions updated for {count} role(s)",
+  "toast.rolePermissionsFailed": "Failed to update {names}",
+  "toast.permissionsCreated": "{resource} permissions created",
+  "toast.permissionsCreateFailed": "Failed to create permissions",
+  "toast.universityCreated": "University created successfully!",
+  "toast.universityCreateFailed": "Failed to create university",
+  "toast.universityUpdated": "University updated successfully!",
+  "toast.universityUpdateFailed": "Failed to update university",
+  "toast.universityDeleted": "University deleted successfully!",
+  "toast.universityDeleteFailed": "Failed to delete university",
+  "toast.universityHardDeleted": "University permanently deleted!",
+  "toast.universityHardDeleteFailed": "Failed to permanently delete university",
+  "toast.universityActivated": "University activated successfully!",
+  "toast.universityDeactivated": "University deactivated successfully!",
+  "toast.universityStatusFailed": "Failed to update university status",
+  "toast.facultyCreated": "Faculty created successfully!",
+  "toast.facultyCreateFailed": "Failed to create faculty",
+  "toast.facultyUpdated": "Faculty updated successfully!",
+  "toast.facultyUpdateFailed": "Failed to update faculty",
+  "toast.facultyDeleted": "Faculty deleted successfully!",
+  "toast.facultyDeleteFailed": "Failed to delete faculty",
+  "toast.facultyHardDeleted": "Faculty permanently deleted!",
+  "toast.facultyHardDeleteFailed": "Failed to permanently delete faculty",
+  "toast.facultyActivated": "Faculty activated successfully!",
+  "toast.facultyDeactivated": "Faculty deactivated successfully!",
+  "toast.facultyStatusFailed": "Failed to update faculty status",
+  "toast.courseCreated": "Course created successfully!",
+  "toast.courseUpdated": "Course updated successfully!",
+  "toast.courseSaveFailed": "Failed to save course",
+  "toast.courseImageRequired": "Course image is required",
+  "toast.courseDeleted": "Course deleted successfully!",
+  "toast.courseDeleteFailed": "Failed to delete course",
+  "toast.courseActivated": "Course activated successfully!",
+  "toast.courseDeactivated": "Course deactivated successfully!",
+  "toast.courseStatusFailed": "Failed to update course status",
+  "toast.freeCourseCreated": "Free course created successfully!",
+  "toast.freeCourseUpdated": "Free course updated successfully!",
+  "toast.freeCourseSaveFailed": "Failed to save free course",
+  "toast.topicCreated": "Topic created successfully!",
+  "toast.topicCreateFailed": "Failed to create topic",
+  "toast.topicUpdated": "Topic updated successfully!",
+  "toast.topicUpdateFailed": "Failed to update topic",
+  "toast.topicDeleted": "Topic deleted successfully!",
+  "toast.topicDeleteFailed": "Failed to delete topic",
+  "toast.topicActivated": "Topic activated successfully!",
+  "toast.topicDeactivated": "Topic deactivated successfully!",
+  "toast.topicStatusFailed": "Failed to update topic status",
+  "toast.topicsReordered": "Topics reordered successfully!",
+  "toast.topicsReorderFailed": "Failed to reorder topics",
+  "toast.lessonCreated": "Lesson created successfully!",
+  "toast.lessonUpdated": "Lesson updated successfully!",
+  "toast.lessonSaveFailed": "Failed to save lesson",
+  "toast.lessonDeleted": "Lesson deleted successfully!",
+  "toast.lessonDeleteFailed": "Failed to delete lesson",
+  "toast.lessonActivated": "Lesson activated successfully!",
+  "toast.lessonDeactivated": "Lesson deactivated successfully!",
+  "toast.lessonStatusFailed": "Failed to update lesson status",
+  "toast.lessonsReordered": "Lessons reordered successfully!",
+  "toast.lessonsReorderFailed": "Failed to reorder lessons",
+  "toast.quizCreated": "Quiz created successfully",
+  "toast.quizUpdated": "Quiz updated successfully",
+  "toast.quizSaveFailed": "Failed to save quiz",
+  "toast.quizDeleted": "Quiz deleted successfully",
+  "toast.quizDeleteFailed": "Failed to delete quiz",
+  "toast.quizQuestionRequired": "Please add at least one question",
+  "toast.selectQuiz": "Please select a quiz",
+  "toast.selectVideoOrUrl": "Please select a video from library or enter a video URL",
+  "toast.videoPreviewFailed": "Failed to load video preview",
+  "toast.videoDownloadFailed": "Failed to download video",
+  "toast.uploadDiscardFailed": "Couldn't remove the uploaded parts of \"{name}\" from storage",
+
+  // Validation
+  "validation.required": "This field is required",
+  "validation.minLength": "Must be at least {min} characters",
+  "validation.maxLength": "Must be at most {max} characters",
+  "validation.min": "Must be at least {min}",
+  "validation.max": "Must be at most {max}",
+  "validation.minItems": "Select at least {min}",
+  "validation.email": "Enter a valid email address",
+  "validation.url": "Enter a valid URL",
+  "validation.number": "Enter a valid number",
+  "validation.date": "Enter a valid date",
+  "validation.option": "Select one of the available options",
+  "validation.invalid": "Invalid value",
+  "validation.usernameCharacters": "Use only letters, numbers, dots, hyphens and underscores",
+  "validation.usernameStart": "Must start with a letter or number",
+  "validation.usernameEnd": "Must end with a letter or number",
+  "validation.passwordComplexity": "Must include an uppercase letter, a lowercase letter, a number and one of @$!%*?&",
+  "validation.learningOutcomeRequired": "Add at least one learning outcome",
+  "validation.entityRequired": "Select where this belongs",
+  "validation.fileType": "{label} must be one of: {extensions}",
+  "validation.fileEmpty": "\"{name}\" is empty",
+  "validation.fileTooLarge": "{label} cannot exceed {size}",
+  "validation.fileContentMismatch": "\"{name}\" does not look like a .{extension} file. It may be damaged or renamed.",
+  "validation.fileUnreadable": "\"{name}\" could not be read",
+  "validation.fileNameExists": "A file named \"{name}\" already exists",
+  "validation.lessonVideo": "Lesson video",
+  "validation.courseImage": "Course image",
+  "validation.attachedFile": "Attached file",
+  "validation.freeCourseFile": "Free course file",
+
+  // File preview
+  "filePreview.untitled": "File",
+  "filePreview.loadFailed": "Failed to load the file.",
+  "filePreview.contentsFailed": "Failed to load the file contents.",
+  "filePreview.truncated": "Only the beginning of the file is shown. Download it to see the rest.",
+  "filePreview.unavailable": "Preview is not available for this file type.",
+  "filePreview.officeUnavailable": "Office documents can't be previewed here. Download the file to open it.",
+  "filePreview.zoomOut": "Zoom out",
+  "filePreview.zoomIn": "Zoom in",
+  "filePreview.resetZoom": "Reset zoom",
+  "filePreview.position": "{index} of {total}",
+  "filePreview.pdf": "PDF document",
+  "filePreview.image": "Image",
+  "filePreview.video": "Video",
+  "filePreview.audio": "Audio",
+  "filePreview.text": "Text file",
+  "filePreview.office": "Office document",
+
+  // Lesson video player
+  "lessonVideo.main": "Main",
+  "lessonVideo.gvo": "GVO",
+  "lessonVideo.vvt": "VVT",
+  "lessonVideo.signFailed": "Failed to sign a fresh URL",
+  "lessonVideo.noPlayableUrl": "The recording has no playable URL",
+  "lessonVideo.doesNotPlay": "This recording does not play",
+  "lessonVideo.tryFreshLink": "Try a fresh link",
+  "lessonVideo.linkExpired": "The link stored on this lesson expired on {date}. Students are served this link, so they cannot play the recording.",
+  "lessonVideo.playingFreshLink": "Playing a freshly signed link instead.",
+  "lessonVideo.noRecordings": "No recordings on this lesson",
+  "lessonVideo.duration": "Duration {duration}",
+  "lessonVideo.linkValidUntil": "Link valid until {date}",
+  "lessonVideo.loadTimeout": "Timed out loading the video",
+  "lessonVideo.mediaAborted": "Loading was aborted",
+  "lessonVideo.mediaNetwork": "A network error stopped the download",
+  "lessonVideo.mediaDecode": "The video is corrupted or uses an unsupported codec",
+  "lessonVideo.mediaNotSupported": "The URL is broken, expired or not a playable video",
+  "lessonVideo.mediaFailed": "The video could not be loaded",
+
+  // Video library
+  "videoLibrary.activateTitle": "Activate Videos",
+  "videoLibrary.deactivateTitle": "Deactivate Videos",
+  "videoLibrary.setEntityTypeTitle": "Change Entity Type",
+  "videoLibrary.renameTitle": "Rename Videos",
+  "videoLibrary.permanentDeleteTitle": "Permanently Delete Videos",
+  "videoLibrary.selectedOne": "1 video selected",
+  "videoLibrary.selectedMany": "{count} videos selected",
+  "videoLibrary.newEntityType": "New entity type",
+  "videoLibrary.lesson": "Lesson",
+  "videoLibrary.course": "Course",
+  "videoLibrary.namePattern": "Name pattern",
+  "videoLibrary.namePatternPlaceholder": "e.g. Week {n} - {name}",
+  "videoLibrary.namePatternHelp": "Placeholders: {placeholders}. {n} is the position in the selection and {date} the upload date.",
+  "videoLibrary.emptyName": "(empty name)",
+  "videoLibrary.andMore": "and {count} more",
+  "videoLibrary.namesLoadFailed": "Failed to load the current names of the selected videos.",
+  "videoLibrary.checkingUsage": "Checking where these videos are used...",
+  "videoLibrary.stillUsed": "{count} of the selected videos are still used. Lessons and free courses pointing at them will lose their recording.",
+  "videoLibrary.onePlace": "1 place",
+  "videoLibrary.places": "{count} places",
+  "videoLibrary.noneUsed": "None of the selected videos are used by a lesson or free course.",
+  "videoLibrary.usageCheckFailed": "Couldn't check where {count} of the selected videos are used. Check again or deselect them before deleting.",
+  "videoLibrary.retryUsageCheck": "Check again",
+  "videoLibrary.deleteAcknowledge": "I understand the videos and their files will be deleted forever",
+  "videoLibrary.processed": "{completed} of {total} processed",
+  "videoLibrary.succeeded": "{count} succeeded",
+  "videoLibrary.failed": "{count} failed",
+  "videoLibrary.retryFailed": "Retry {count} failed",
+  "videoLibrary.deleteForever": "Delete Forever",
+  "videoLibrary.usedIn": "Used in",
+  "videoLibrary.usageLoadFailed": "Failed to load where this video is used.",
+  "videoLibrary.notUsed": "This video is not used by any lesson or free course.",
+  "videoLibrary.showUsage": "Show where this video is used",
+  "videoLibrary.view": "View",
+  "videoLibrary.unused": "Unused",
+  "videoLibrary.checkingVideoUsage": "Checking where this video is used...",
+  "videoLibrary.videoUsageCheckFailed": "Couldn't check where this video is used, so it can't be deleted yet.",
+  "videoLibrary.videoUsedOnce": "This video is used in 1 place. Students will no longer be able to play it there.",
+  "videoLibrary.videoUsed": "This video is used in {count} places. Students will no longer be able to play it there.",
+  "videoLibrary.seeWhere": "See where",
+  "videoLibrary.deleteAnyway": "Delete it anyway",
+  "videoLibrary.lessons": "Lessons",
+  "videoLibrary.freeCourses": "Free courses",
+  "videoLibrary.untitledLesson": "Untitled lesson",
+  "videoLibrary.untitledItem": "Untitled item",
+  "videoLibrary.mainRecording": "Main Recording",
+  "videoLibrary.gvoRecording": "GVO Recording",
+  "videoLibrary.vvtRecording": "VVT Recording",
+  "videoLibrary.selectVideo": "Select {name}",
+  "videoLibrary.filters": "Filters",
+  "videoLibrary.moreFilters": "More filters",
+  "videoLibrary.searchPlaceholder": "Search videos by name...",
+  "videoLibrary.entityType": "Entity Type",
+  "videoLibrary.allTypes": "All Types",
+  "videoLibrary.status": "Status",
+  "videoLibrary.allStatus": "All Status",
+  "videoLibrary.active": "Active",
+  "videoLibrary.inactive": "Inactive",
+  "videoLibrary.usage": "Usage",
+  "videoLibrary.allVideos": "All Videos",
+  "videoLibrary.inUse": "In Use",
+  "videoLibrary.orphaned": "Not Used (Orphaned)",
+  "videoLibrary.videoFormat": "Video Format",
+  "videoLibrary.allFormats": "All Formats",
+  "videoLibrary.uploadedBy": "Uploaded By",
+  "videoLibrary.anyone": "Anyone",
+  "videoLibrary.fileSize": "File Size (MB)",
+  "videoLibrary.min": "Min",
+  "videoLibrary.max": "Max",
+  "videoLibrary.nameLanguage": "Name Language",
+  "videoLibrary.defaultLanguage": "Default",
+  "videoLibrary.selected": "{count} selected",
+  "videoLibrary.activate": "Activate",
+  "videoLibrary.deactivate": "Deactivate",
+  "videoLibrary.changeType": "Change Type",
+  "videoLibrary.rename": "Rename",
+  "videoLibrary.loading": "Loading videos...",
+  "videoLibrary.title": "Video Library",
+  "videoLibrary.subtitle": "Manage and organize your video files for courses and lessons.",
+  "videoLibrary.upload": "Upload Video",
+  "videoLibrary.totalVideos": "Total Videos",
+  "videoLibrary.activeVideos": "Active Videos",
+  "videoLibrary.totalSize": "Total Size",
+  "videoLibrary.thisPage": "This Page",
+  "videoLibrary.videos": "Videos",
+  "videoLibrary.videosDescription": "Manage your video library files",
+  "videoLibrary.tableView": "Table view",
+  "videoLibrary.gridView": "Grid view",
+  "videoLibrary.notFound": "No videos found",
+  "videoLibrary.adjustFilters": "Try adjusting your search or filters.",
+  "videoLibrary.getStarted": "Get started by uploading your first video.",
+  "videoLibrary.selectPage": "Select all videos on this page",
+  "videoLibrary.showingVideos": "Showing {from} to {to} of {total} videos",
+  "videoLibrary.previewDescription": "Video Preview - {type}",
+  "videoLibrary.fileSizeLabel": "File Size:",
+  "videoLibrary.entityTypeLabel": "Entity Type:",
+  "videoLibrary.createdLabel": "Created:",
+  "videoLibrary.statusLabel": "Status:",
+  "videoLibrary.deleteTitle": "Delete Video",
+  "videoLibrary.deleteDescription": "Are you sure you want to delete \"{name}\"? This action will mark the video as inactive.",
+  "videoLibrary.uploadTitle": "Upload Video to Library",
+  "videoLibrary.uploadDescription": "Upload a video file to the video library. The video will be available for use in lessons and courses.",
+  "videoLibrary.nameEn": "Video Name (English) *",
+  "videoLibrary.nameAr": "Video Name (Arabic)",
+  "videoLibrary.nameHe": "Video Name (Hebrew)",
+  "videoLibrary.namePlaceholderEn": "Enter video name in English",
+  "videoLibrary.namePlaceholderAr": "Enter video name in Arabic",
+  "videoLibrary.namePlaceholderHe": "Enter video name in Hebrew",
+  "videoLibrary.entityTypeRequired": "Entity Type *",
+  "videoLibrary.selectEntityType": "Select entity type",
+  "videoLibrary.videoFile": "Video File *",
+  "videoLibrary.videoFileHelp": "Upload a video file (MP4, MOV, WebM, MKV, AVI, MPEG, OGV) - Max 5GB. Large uploads resume where they left off if the connection drops.",
+  "videoLibrary.readingDetails": "Reading video details...",
+  "videoLibrary.detailsUnavailable": "Video details could not be read in this browser.",
+  "videoLibrary.resumeNotice": "A previous upload of this file stopped at {percentage}% ({uploaded}). It will resume from there.",
+  "videoLibrary.resumeUpload": "Resume Upload",
+  "videoLibrary.uploadFailed": "Failed to upload video",
+
+  // Lesson analytics
+  "lessonAnalytics.title": "Lesson Analytics",
+  "lessonAnalytics.back": "Back to Topic Lessons",
+  "lessonAnalytics.subtitle": "Video engagement of the students with progress in \"{name}\"",
+  "lessonAnalytics.thisLesson": "this lesson",
+  "lessonAnalytics.loadFailed": "Failed to load the progress of this course",
+  "lessonAnalytics.noneWatched": "None of the {count} students with progress in this course has watched this lesson yet",
+  "lessonAnalytics.noProgress": "No students have progress in this course yet",
+  "lessonAnalytics.studentsWatched": "Students Watched",
+  "lessonAnalytics.completedLesson": "{count} completed the lesson",
+  "lessonAnalytics.avgCompletion": "Avg. Completion",
+  "lessonAnalytics.rewatchRate": "Rewatch Rate",
+  "lessonAnalytics.avgTimeSpent": "Avg. Time Spent",
+  "lessonAnalytics.dropOff": "Drop-off",
+  "lessonAnalytics.dropOffDescription": "Where students who did not finish a recording stopped watching it",
+  "lessonAnalytics.recordingUsage": "Recording Usage",
+  "lessonAnalytics.recordingUsageDescription": "How students watch the main, GVO and VVT recordings",
+  "lessonAnalytics.recording": "Recording",
+  "lessonAnalytics.viewers": "Viewers",
+  "lessonAnalytics.completed": "Completed",
+  "lessonAnalytics.rewatched": "Rewatched",
+  "lessonAnalytics.avgPlays": "Avg. Plays",
+  "lessonAnalytics.watchTime": "Watch Time",
+
+  // Users
+  "users.fullName": "Full Name",
+  "users.academicYear": "Academic Year",
+  "users.semester": "Semester",
+  "users.blocked": "Blocked",
+  "users.emailVerified": "Email Verified",
+  "users.devices": "Devices",
+  "users.lastLogin": "Last Login",
+  "users.joined": "Joined",
+  "users.noPermission": "You don't have permission to view users.",
+  "users.title": "User Management",
+  "users.subtitle": "Manage student accounts and their enrollments.",
+  "users.export": "Export Users",
+  "users.totalUsers": "Total Users",
+  "users.verifiedUsers": "Verified Users",
+  "users.unverifiedUsers": "Unverified Users",
+  "users.blockedUsers": "Blocked Users",
+  "users.users": "Users",
+  "users.usersDescription": "Manage student accounts and their information.",
+  "users.searchPlaceholder": "Search users...",
+  "users.filterByStatus": "Filter by status",
+  "users.allStatus": "All Status",
+  "users.filterByVerification": "Filter by verification",
+  "users.allVerification": "All Verification",
+  "users.verified": "Verified",
+  "users.unverified": "Unverified",
+  "users.loading": "Loading users...",
+  "users.notFound": "No users found.",
+  "users.viewDevices": "View Devices",
+  "users.editTitle": "Edit User",
+  "users.editDescription": "Update user information.",
+  "users.fullNamePlaceholder": "Enter full name",
+  "users.emailPlaceholder": "Enter email",
+  "users.phoneOptional": "Phone (Optional)",
+  "users.phonePlaceholder": "Enter phone number",
+  "users.selectAcademicYear": "Select academic year",
+  "users.year1": "1st Year",
+  "users.year2": "2nd Year",
+  "users.year3": "3rd Year",
+  "users.year4": "4th Year",
+  "users.year5": "5th Year",
+  "users.year6": "6th Year",
+  "users.selectSemester": "Select semester",
+  "users.fall": "Fall",
+  "users.spring": "Spring",
+  "users.summer": "Summer",
+  "users.updateUser": "Update User",
+  "users.devicesTitle": "User Devices",
+  "users.devicesDescription": "Manage {name}'s devices",
+  "users.noDevices": "No devices found for this user.",
+  "users.deviceType": "Type: {type}",
+  "users.deviceLastUsed": "Last used: {date}",
+  "users.deviceIp": "IP: {ip}",
+  "users.deleteTitle": "Delete User",
+  "users.deleteDescription": "Are you sure you want to delete this user? This action cannot be undone.",
+  "users.removeDeviceTitle": "Remove Device",
+  "users.removeDeviceDescription": "Are you sure you want to remove this device? The user will need to re-authenticate on this device.",
+
+  // Enrollments
+  "enrollments.accessType": "Access Type",
+  "enrollments.fullCourse": "Full Course",
+  "enrollments.individualTopics": "Individual Topics",
+  "enrollments.purchasedTopics": "Purchased Topics",
+  "enrollments.totalAmount": "Total Amount",
+  "enrollments.discount": "Discount",
+  "enrollments.amountPaid": "Amount Paid",
+  "enrollments.currency": "Currency",
+  "enrollments.paymentStatus": "Payment Status",
+  "enrollments.expires": "Expires",
+  "enrollments.enrolled": "Enrolled",
+  "enrollments.pending": "Pending",
+  "enrollments.completed": "Completed",
+  "enrollments.failed": "Failed",
+  "enrollments.refunded": "Refunded",
+  "enrollments.cancelled": "Cancelled",
+  "enrollments.title": "Enrollments",
+  "enrollments.subtitle": "Manage and monitor course enrollments",
+  "enrollments.totalEnrollments": "Total Enrollments",
+  "enrollments.completedPayments": "Completed Payments",
+  "enrollments.pendingPayments": "Pending Payments",
+  "enrollments.totalRevenue": "Total Revenue",
+  "enrollments.filtersDescription": "Filter enrollments by various criteria",
+  "enrollments.searchPlaceholder": "Search enrollments...",
+  "enrollments.allAccessTypes": "All access types",
+  "enrollments.fullAccess": "Full Access",
+  "enrollments.totalCount": "{count} total enrollments",
+  "enrollments.user": "User",
+  "enrollments.amount": "Amount",
+  "enrollments.notFound": "No enrollments found",
+  "enrollments.discountAmount": "Discount: {amount}",
+  "enrollments.cancelTitle": "Cancel Enrollment",
+  "enrollments.cancelDescription": "Are you sure you want to cancel this enrollment? This action cannot be undone.",
+  "enrollments.confirmCancel": "Yes, Cancel Enrollment",
+  "enrollments.refund": "Refund",
+  "enrollments.refundTitle": "Refund Enrollment",
+  "enrollments.refundDescription": "Process a refund for this enrollment. Leave amount empty for full refund.",
+  "enrollments.refundPlaceholder": "Leave empty for full refund",
+  "enrollments.processRefund": "Process Refund",
+
+  // Course leaderboard
+  "leaderboard.rank": "Rank",
+  "leaderboard.completionPercent": "Completion %",
+  "leaderboard.completedLessons": "Completed Lessons",
+  "leaderboard.totalLessons": "Total Lessons",
+  "leaderboard.timeSpent": "Time Spent",
+  "leaderboard.courseCompleted": "Course Completed",
+  "leaderboard.completedAt": "Completed At",
+  "leaderboard.title": "{course} Leaderboard",
+  "leaderboard.courseFallback": "Course",
+  "leaderboard.subtitle": "Top performers ranked by completion percentage and time spent",
+  "leaderboard.backToProgress": "Back to Progress",
+  "leaderboard.lessonsCount": "{completed} / {total} lessons",
+  "leaderboard.user": "User",
+  "leaderboard.progress": "Progress",
+  "leaderboard.lessons": "Lessons",
+  "leaderboard.noData": "No leaderboard data available",
+
+  // Quiz leaderboard
+  "quizLeaderboard.quiz": "Quiz",
+  "quizLeaderboard.bestScore": "Best Score",
+  "quizLeaderboard.bestPercent": "Best %",
+  "quizLeaderboard.attempts": "Attempts",
+  "quizLeaderboard.passed": "Passed",
+  "quizLeaderboard.lastAttempt": "Last Attempt",
+  "quizLeaderboard.title": "Quiz Leaderboard",
+  "quizLeaderboard.description": "{title} · best attempt per student",
+  "quizLeaderboard.noAttempts": "No attempts yet.",
+  "quizLeaderboard.notPassed": "Not passed",
+
+  // Dashboard home
+  "home.welcome": "Welcome back, {name}!",
+  "home.subtitle": "Here's what's happening with your educational platform today.",
+  "home.totalStudents": "Total Students",
+  "home.verifiedBlocked": "{verified} verified · {blocked} blocked",
+  "home.activeCourses": "Active Courses",
+  "home.totalInactive": "{total} total · {inactive} inactive",
+  "home.enrollmentsThisMonth": "Enrollments This Month",
+  "home.revenueThisMonth": "Revenue This Month",
+  "home.libraryVideos": "Library Videos",
+  "home.stored": "{size} stored",
+  "home.noLastMonthData": "No data for last month",
+  "home.vsLastMonth": "vs. same days last month",
+  "home.enrolled": "{student} enrolled in \"{course}\" ({status})",
+  "home.aStudent": "A student",
+  "home.aCourse": "a course",
+  "home.registered": "{name} registered as a new student",
+  "home.recentActivity": "Recent Activity",
+  "home.recentActivityDescription": "Latest registrations and enrollments",
+  "home.noActivity": "No recent activity",
+  "home.noActivityPermission": "You don't have permission to view platform activity.",
+  "home.quickActions": "Quick Actions",
+  "home.quickActionsDescription": "Common tasks you might want to perform",
+  "home.noActions": "No actions available for your role.",
+  "home.addUniversity": "Add new university",
+  "home.createAdmin": "Create admin account",
+  "home.manageRoles": "Manage user roles",
+  "home.reviewEnrollments": "Review enrollments",
+
+  // Analytics
+  "analytics.title": "Analytics",
+  "analytics.subtitle": "Enrollment and revenue trends over time",
+  "analytics.totalEnrollments": "Total Enrollments",
+  "analytics.completedPayments": "Completed Payments",
+  "analytics.pendingPayments": "Pending Payments",
+  "analytics.totalRevenue": "Total Revenue",
+  "analytics.enrollments": "Enrollments",
+  "analytics.enrollmentsPerDay": "New enrollments per day, split by access type",
+  "analytics.enrollmentsPerWeek": "New enrollments per week, split by access type",
+  "analytics.enrollmentsPerMonth": "New enrollments per month, split by access type",
+  "analytics.daily": "Daily",
+  "analytics.weekly": "Weekly",
+  "analytics.monthly": "Monthly",
+  "analytics.weekOf": "Week of {date}",
+  "analytics.revenueByCurrency": "Revenue by Currency",
+  "analytics.revenuePerDay": "Completed payments per day, one bar per currency",
+  "analytics.revenuePerWeek": "Completed payments per week, one bar per currency",
+  "analytics.revenuePerMonth": "Completed payments per month, one bar per currency",
+  "analytics.paymentStatus": "Payment Status",
+  "analytics.paymentStatusDescription": "Enrollments by payment status",
+  "analytics.accessType": "Access Type",
+  "analytics.accessTypeDescription": "Full-course vs individual-topic purchases",
+  "analytics.noEnrollments": "No enrollments in this range",
+
+  // Admins
+  "admins.title": "Admin Management",
+  "admins.subtitle": "Manage administrator accounts and their permissions.",
+  "admins.create": "Create Admin",
+  "admins.createTitle": "Create New Admin",
+  "admins.createDescription": "Create a new administrator account.",
+  "admins.username": "Username",
+  "admins.usernamePlaceholder": "Enter username",
+  "admins.emailPlaceholder": "Enter email",
+  "admins.password": "Password",
+  "admins.passwordPlaceholder": "Enter password",
+  "admins.role": "Role",
+  "admins.selectRole": "Select a role",
+  "admins.phoneOptional": "Phone (Optional)",
+  "admins.phonePlaceholder": "Enter phone number",
+  "admins.totalAdmins": "Total Admins",
+  "admins.activeAdmins": "Active Admins",
+  "admins.inactiveAdmins": "Inactive Admins",
+  "admins.administrators": "Administrators",
+  "admins.administratorsDescription": "Manage administrator accounts and their roles.",
+  "admins.searchPlaceholder": "Search admins...",
+  "admins.lastLogin": "Last Login",
+  "admins.loading": "Loading admins...",
+  "admins.notFound": "No admins found.",
+  "admins.changePassword": "Change Password",
+  "admins.editTitle": "Edit Admin",
+  "admins.editDescription": "Update administrator information.",
+  "admins.update": "Update Admin",
+  "admins.passwordDescription": "Update the administrator's password.",
+  "admins.newPassword": "New Password",
+  "admins.newPasswordPlaceholder": "Enter new password",
+  "admins.updatePassword": "Update Password",
+  "admins.deleteTitle": "Delete Admin",
+  "admins.deleteDescription": "Are you sure you want to delete this admin? This action cannot be undone.",
+
+  // Roles
+  "roles.title": "Role Management",
+  "roles.subtitle": "Manage roles and their permissions.",
+  "roles.permissionMatrix": "Permission Matrix",
+  "roles.create": "Create Role",
+  "roles.createTitle": "Create New Role",
+  "roles.createDescription": "Create a new role and assign permissions to it.",
+  "roles.roleName": "Role Name",
+  "roles.roleNamePlaceholder": "Enter role name",
+  "roles.permissions": "Permissions",
+  "roles.loadingPermissions": "Loading permissions...",
+  "roles.totalRoles": "Total Roles",
+  "roles.activeRoles": "Active Roles",
+  "roles.inactiveRoles": "Inactive Roles",
+  "roles.roles": "Roles",
+  "roles.rolesDescription": "Manage roles and their associated permissions.",
+  "roles.searchPlaceholder": "Search roles...",
+  "roles.loading": "Loading roles...",
+  "roles.notFound": "No roles found.",
+  "roles.editTitle": "Edit Role",
+  "roles.editDescription": "Update role information and permissions.",
+  "roles.update": "Update Role",
+  "roles.selectAll": "Select All Permissions ({selected}/{total})",
+  "roles.noPermissionsYet": "· no permissions yet",
+  "roles.createPermissions": "Create",
+  "roles.permissionCount": "{count} permissions",
+  "roles.backToRoles": "Back to Roles",
+  "roles.matrixSubtitle": "Compare and edit permissions across every role.",
+  "roles.discard": "Discard",
+  "roles.reviewChanges": "Review changes",
+  "roles.matrixTitle": "Roles × Permissions",
+  "roles.matrixDescription": "Use the row and column checkboxes to grant or revoke in bulk. Highlighted cells have unsaved changes.",
+  "roles.matrixEmpty": "No roles or permissions found.",
+  "roles.permission": "Permission",
+  "roles.toggleRole": "Toggle all permissions for {role}",
+  "roles.toggleRow": "Toggle {permission} for all roles",
+  "roles.toggleCell": "{permission} for {role}",
+  "roles.clone": "Clone role",
+  "roles.cloneDescription": "Create a new role with the same permissions as \"{name}\", including any unsaved changes.",
+  "roles.cloneName": "{name} (copy)",
+  "roles.cloning": "Cloning...",
+  "roles.cloneRole": "Clone Role",
+  "roles.reviewTitle": "Review permission changes",
+  "roles.reviewOne": "1 role will be updated.",
+  "roles.reviewMany": "{count} roles will be updated.",
+  "roles.keepEditing": "Keep editing",
+  "roles.saveChanges": "Save changes",
+
+  // Universities
+  "universities.noPermission": "You don't have permission to view universities.",
+  "universities.title": "University Management",
+  "universities.subtitle": "Manage universities and their information.",
+  "universities.create": "Create University",
+  "universities.createTitle": "Create New University",
+  "universities.createDescription": "Create a new university with multilingual support.",
+  "universities.namePlaceholderEn": "Enter university name in English",
+  "universities.namePlaceholderAr": "Enter university name in Arabic",
+  "universities.namePlaceholderHe": "Enter university name in Hebrew",
+  "universities.total": "Total Universities",
+  "universities.active": "Active Universities",
+  "universities.inactive": "Inactive Universities",
+  "universities.universities": "Universities",
+  "universities.description": "Manage universities and their multilingual information.",
+  "universities.searchPlaceholder": "Search universities...",
+  "universities.loading": "Loading universities...",
+  "universities.notFound": "No universities found.",
+  "universities.editTitle": "Edit University",
+  "universities.editDescription": "Update university information and multilingual names.",
+  "universities.update": "Update University",
+  "universities.deleteTitle": "Delete University",
+  "universities.deleteDescription": "Are you sure you want to delete this university? This action will mark the university as inactive.",
+  "universities.hardDeleteTitle": "Permanently Delete University",
+  "universities.hardDeleteDescription": "Are you sure you want to permanently delete this university? This action cannot be undone and will remove all associated data.",
+  "universities.unknown": "Unknown University",
+
+  // Faculties
+  "faculties.noPermission": "You don't have permission to view faculties.",
+  "faculties.title": "Faculty Management",
+  "faculties.subtitle": "Manage faculties and their academic programs.",
+  "faculties.create": "Create Faculty",
+  "faculties.createTitle": "Create New Faculty",
+  "faculties.createDescription": "Create a new faculty with multilingual support.",
+  "faculties.namePlaceholderEn": "Enter faculty name in English",
+  "faculties.namePlaceholderAr": "Enter faculty name in Arabic",
+  "faculties.namePlaceholderHe": "Enter faculty name in Hebrew",
+  "faculties.universityRequired": "University *",
+  "faculties.selectUniversity": "Select a university",
+  "faculties.academicYearsRequired": "Number of Academic Years *",
+  "faculties.selectYears": "Select number of years",
+  "faculties.oneYear": "1 Year",
+  "faculties.years": "{count} Years",
+  "faculties.total": "Total Faculties",
+  "faculties.active": "Active Faculties",
+  "faculties.inactive": "Inactive Faculties",
+  "faculties.faculties": "Faculties",
+  "faculties.description": "Manage faculties and their academic information.",
+  "faculties.searchPlaceholder": "Search faculties...",
+  "faculties.filterByUniversity": "Filter by university",
+  "faculties.allUniversities": "All Universities",
+  "faculties.academicYears": "Academic Years",
+  "faculties.loading": "Loading faculties...",
+  "faculties.notFound": "No faculties found.",
+  "faculties.editTitle": "Edit Faculty",
+  "faculties.editDescription": "Update faculty information and multilingual names.",
+  "faculties.update": "Update Faculty",
+  "faculties.deleteTitle": "Delete Faculty",
+  "faculties.deleteDescription": "Are you sure you want to delete this faculty? This action will mark the faculty as inactive.",
+  "faculties.hardDeleteTitle": "Permanently Delete Faculty",
+  "faculties.hardDeleteDescription": "Are you sure you want to permanently delete this faculty? This action cannot be undone and will remove all associated data.",
+  "faculties.unknown": "Unknown Faculty",
+
+  // Courses
+  "courses.title": "Course Management",
+  "courses.subtitle": "Manage courses and their content across multiple faculties.",
+  "courses.create": "Create Course",
+  "courses.total": "Total Courses",
+  "courses.active": "Active Courses",
+  "courses.averagePrice": "Average Price",
+  "courses.totalRevenue": "Total Revenue",
+  "courses.courses": "Courses",
+  "courses.description": "Browse and manage all available courses.",
+  "courses.searchPlaceholder": "Search courses...",
+  "courses.loading": "Loading courses...",
+  "courses.notFound": "No courses found.",
+  "courses.hours": "{count} hours",
+  "courses.learningOutcomes": "Learning Outcomes",
+  "courses.topics": "Topics",
+  "courses.files": "Files",
+  "courses.progress": "Progress",
+  "courses.deleteTitle": "Delete Course",
+  "courses.deleteDescription": "Are you sure you want to delete this course? This action cannot be undone.",
+  "courses.unknown": "Unknown Course",
+  "courses.noDescription": "No description available",
+  "courses.unknownInstructor": "Unknown Instructor",
+  "courses.imageUploadFailed": "Image upload failed",
+  "courses.imageRequired": "Course image is required",
+  "courses.loadingCourse": "Loading course...",
+  "courses.courseNotFound": "Course not found.",
+  "courses.editTitle": "Edit Course",
+  "courses.createTitle": "Create New Course",
+  "courses.editDescription": "Update course information and settings.",
+  "courses.createDescription": "Create a new course with multilingual support.",
+  "courses.backToCourses": "Back to Courses",
+  "courses.uploadingImage": "Uploading image...",
+  "courses.save": "Save Course",
+  "courses.basicInformation": "Basic Information",
+  "courses.basicInformationDescription": "Enter the course name and description in multiple languages.",
+  "courses.name": "Course Name",
+  "courses.namePlaceholder": "Enter course name",
+  "courses.courseDescription": "Course Description",
+  "courses.learningOutcomesDescription": "Define what students will learn from this course.",
+  "courses.learningOutcomeNumber": "Learning Outcome {number}",
+  "courses.learningOutcome": "Learning outcome",
+  "courses.learningOutcomePlaceholder": "Enter learning outcome",
+  "courses.addLearningOutcome": "Add Learning Outcome",
+  "courses.details": "Course Details",
+  "courses.detailsDescription": "Set course duration, pricing, and instructor information.",
+  "courses.hoursLabel": "Course Hours *",
+  "courses.hoursPlaceholder": "Enter course hours",
+  "courses.price": "Course Price *",
+  "courses.pricePlaceholder": "Enter course price",
+  "courses.discount": "Discount (%)",
+  "courses.discountPlaceholder": "Enter discount percentage",
+  "courses.instructor": "Instructor *",
+  "courses.selectInstructor": "Select an instructor",
+  "courses.instructorPercentage": "Instructor Percentage *",
+  "courses.instructorPercentagePlaceholder": "Enter instructor percentage",
+  "courses.associatedFaculties": "Associated Faculties",
+  "courses.associatedFacultiesDescription": "Select the faculties this course belongs to.",
+  "courses.faculties": "Faculties *",
+  "courses.selectFaculties": "Select faculties...",
+  "courses.noFaculties": "No faculties found.",
+  "courses.mediaUpload": "Media Upload",
+  "courses.mediaUploadDescription": "Upload course image (required) and introductory video (optional).",
+  "courses.image": "Course Image *",
+  "courses.imageHelp": "Upload a high-quality image for your course (JPG, PNG, GIF, WebP, SVG)",
+  "courses.currentImage": "Current image:",
+  "courses.currentImageAlt": "Current course image",
+  "courses.introductoryVideo": "Introductory Video",
+  "courses.introductoryVideoHelp": "Select an introductory video from your video library",
+  "courses.selectVideo": "Select Video",
+  "courses.selectVideoPlaceholder": "Select a video from library",
+  "courses.noVideoSelected": "No video selected",
+  "courses.selectedVideo": "Selected video:",
+  "courses.status": "Course Status",
+  "courses.statusDescription": "Control whether the course is active or inactive.",
+  "courses.statusHelp": "Enable or disable this course",
+
+  // Attached files
+  "files.backToCourses": "Back to Courses",
+  "files.backToTopics": "Back to Course Topics",
+  "files.backToLessons": "Back to Topic Lessons",
+  "files.courseTitle": "Course Files",
+  "files.topicTitle": "Topic Files",
+  "files.lessonTitle": "Lesson Files",
+  "files.subtitle": "Manage files attached to \"{name}\"",
+  "files.thisCourse": "this course",
+  "files.thisTopic": "this topic",
+  "files.thisLesson": "this lesson",
+  "files.bulkUpload": "Bulk Upload",
+  "files.uploadFile": "Upload File",
+  "files.attachedFiles": "Attached Files ({count})",
+  "files.courseDescription": "Files that have been uploaded and attached to this course.",
+  "files.topicDescription": "Files that have been uploaded and attached to this topic.",
+  "files.lessonDescription": "Files that have been uploaded and attached to this lesson.",
+  "files.loading": "Loading files...",
+  "files.empty": "No files uploaded",
+  "files.courseEmptyHelp": "Get started by uploading your first file to this course.",
+  "files.topicEmptyHelp": "Get started by uploading your first file to this topic.",
+  "files.lessonEmptyHelp": "Get started by uploading your first file to this lesson.",
+  "files.file": "File",
+  "files.uploadedBy": "Uploaded By",
+  "files.date": "Date",
+  "files.preview": "Preview",
+  "files.deleteTitle": "Delete File",
+  "files.deleteDescription": "Are you sure you want to delete \"{name}\"? This action cannot be undone.",
+  "files.typeImage": "Image",
+  "files.typeVideo": "Video",
+  "files.typeAudio": "Audio",
+  "files.typePdf": "PDF Document",
+  "files.typeWord": "Word Document",
+  "files.typeExcel": "Excel Spreadsheet",
+  "files.typePowerPoint": "PowerPoint Presentation",
+  "files.typeText": "Text File",
+  "files.typeFile": "File",
+  "files.uploadCourseDescription": "Upload a file to attach to this course. Supported formats include images, videos, documents, audio files, and more.",
+  "files.uploadTopicDescription": "Upload a file to attach to this topic. Supported formats include images, videos, documents, audio files, and more.",
+  "files.uploadLessonDescription": "Upload a file to attach to this lesson. Supported formats include images, videos, documents, audio files, and more.",
+  "files.selectFile": "Select File *",
+  "files.selectFileHelp": "Choose a document, image, audio or video file (max 500MB)",
+  "files.fileName": "File Name",
+  "files.fileNameHelp": "Provide a descriptive name for the file in multiple languages.",
+  "files.arabicName": "Arabic Name",
+  "files.hebrewName": "Hebrew Name",
+  "files.namePlaceholderEn": "Enter file name in English",
+  "files.namePlaceholderAr": "Enter file name in Arabic",
+  "files.namePlaceholderHe": "Enter file name in Hebrew",
+  "files.alreadyAttached": "A file named \"{name}\" is already attached",
+  "files.bulkTitle": "Bulk Upload Files",
+  "files.bulkCourseDescription": "Drop any number of files to attach to this course. Names are taken from the file names and can be edited before uploading.",
+  "files.bulkTopicDescription": "Drop any number of files to attach to this topic. Names are taken from the file names and can be edited before uploading.",
+  "files.bulkLessonDescription": "Drop any number of files to attach to this lesson. Names are taken from the file names and can be edited before uploading.",
+  "files.dropzone": "Drag files here or click to browse",
+  "files.dropzoneHelp": "Documents, images, audio and video up to 500MB each",
+  "files.englishNamePlaceholder": "English name *",
+  "files.arabicNamePlaceholder": "Arabic name",
+  "files.hebrewNamePlaceholder": "Hebrew name",
+  "files.ready": "Ready",
+  "files.invalid": "Invalid",
+  "files.saving": "Saving",
+  "files.attached": "Attached",
+  "files.failed": "Failed",
+  "files.summary": "{succeeded} of {total} files attached.",
+  "files.summaryFailed": "Fix the failed rows and retry, or remove them.",
+  "files.uploading": "Uploading...",
+  "files.retryFailed": "Retry {count} failed",
+  "files.uploadCount": "Upload {count} files",
+  "files.loadFailed": "Failed to load file ({status})",
+
+  // Topics
+  "topics.title": "Course Topics",
+  "topics.subtitle": "Manage topics for: {name}",
+  "topics.create": "Create Topic",
+  "topics.topics": "Topics",
+  "topics.description": "Manage and reorder topics for this course. Drag and drop to change the order.",
+  "topics.searchPlaceholder": "Search topics...",
+  "topics.loading": "Loading topics...",
+  "topics.notFound": "No topics found for this course.",
+  "topics.name": "Topic Name",
+  "topics.price": "Price",
+  "topics.files": "Files",
+  "topics.lessons": "Lessons",
+  "topics.deleteTitle": "Delete Topic",
+  "topics.deleteDescription": "Are you sure you want to delete this topic? This action cannot be undone.",
+  "topics.unknown": "Unknown Topic",
+  "topics.editTitle": "Edit Topic",
+  "topics.editDescription": "Update the topic information below.",
+  "topics.createDescription": "Fill in the details for the new topic.",
+  "topics.namePlaceholder": "Enter topic name",
+  "topics.priceRequired": "Price *",
+  "topics.pricePlaceholder": "Enter topic price",
+  "topics.update": "Update Topic",
+
+  // Lessons
+  "lessons.title": "Topic Lessons",
+  "lessons.subtitle": "Manage lessons for: {name}",
+  "lessons.backToTopics": "Back to Topics",
+  "lessons.create": "Create Lesson",
+  "lessons.lessons": "Lessons",
+  "lessons.description": "Manage and reorder lessons for this topic. Drag and drop to change the order.",
+  "lessons.searchPlaceholder": "Search lessons...",
+  "lessons.loading": "Loading lessons...",
+  "lessons.notFound": "No lessons found for this topic.",
+  "lessons.name": "Lesson Name",
+  "lessons.descriptionLabel": "Description",
+  "lessons.recordings": "Recordings",
+  "lessons.preview": "Preview",
+  "lessons.analytics": "Analytics",
+  "lessons.files": "Files",
+  "lessons.lesson": "Lesson",
+  "lessons.previewDescription": "Lesson preview as students see it",
+  "lessons.deleteTitle": "Delete Lesson",
+  "lessons.deleteDescription": "Are you sure you want to delete this lesson? This action cannot be undone.",
+  "lessons.unknown": "Unknown Lesson",
+  "lessons.noDescription": "No description",
+  "lessons.noUpdatePermission": "You don't have permission to update lessons.",
+  "lessons.noCreatePermission": "You don't have permission to create lessons.",
+  "lessons.loadingLesson": "Loading lesson...",
+  "lessons.lessonNotFound": "Lesson Not Found",
+  "lessons.lessonNotFoundDescription": "The lesson you're looking for doesn't exist.",
+  "lessons.editTitle": "Edit Lesson",
+  "lessons.editSubtitle": "Update lesson: {name}",
+  "lessons.createSubtitle": "Add a new lesson to: {name}",
+  "lessons.backToLessons": "Back to Lessons",
+  "lessons.basicInformationDescription": "Provide the basic details for your lesson.",
+  "lessons.namePlaceholder": "Enter lesson name",
+  "lessons.descriptionPlaceholder": "Enter lesson description",
+  "lessons.recordingSelection": "Recording Selection",
+  "lessons.recordingSelectionDescription": "Select video recordings from your video library for this lesson.",
+  "lessons.selectMain": "Select main recording",
+  "lessons.noMain": "No main recording",
+  "lessons.selectedMain": "Selected main recording:",
+  "lessons.selectGvo": "Select GVO recording",
+  "lessons.noGvo": "No GVO recording",
+  "lessons.selectedGvo": "Selected GVO recording:",
+  "lessons.selectVvt": "Select VVT recording",
+  "lessons.noVvt": "No VVT recording",
+  "lessons.selectedVvt": "Selected VVT recording:",
+  "lessons.lessonPreview": "Lesson Preview",
+  "lessons.lessonPreviewDescription": "Check every recording plays before saving the lesson.",
+  "lessons.status": "Lesson Status",
+  "lessons.statusDescription": "Control whether the lesson is active or inactive.",
+  "lessons.statusHelp": "Enable or disable this lesson",
+  "lessons.update": "Update Lesson",
+
+  // Free courses
+  "freeCourses.noPermission": "You don't have permission to view free courses.",
+  "freeCourses.title": "Free Courses",
+  "freeCourses.subtitle": "Manage university-specific free courses (Moodle-like)",
+  "freeCourses.create": "Create Free Course",
+  "freeCourses.searchPlaceholder": "Search by name...",
+  "freeCourses.allCourses": "All Courses",
+  "freeCourses.loading": "Loading free courses...",
+  "freeCourses.loadFailed": "Error loading free courses",
+  "freeCourses.notFound": "No free courses found",
+  "freeCourses.instructor": "Instructor",
+  "freeCourses.sections": "Sections",
+  "freeCourses.sectionsCount": "Sections ({count})",
+  "freeCourses.deleteTitle": "Are you sure?",
+  "freeCourses.deleteDescription": "This will deactivate the free course \"{name}\". This action can be reversed by reactivating the course.",
+  "freeCourses.editTitle": "Edit Free Course",
+  "freeCourses.editDescription": "Update the free course details and sections",
+  "freeCourses.createDescription": "Create a new university-specific free course",
+  "freeCourses.selectUniversity": "Select university",
+  "freeCourses.facultyRequired": "Faculty *",
+  "freeCourses.selectFaculty": "Select faculty",
+  "freeCourses.selectUniversityFirst": "Select a university first",
+  "freeCourses.selectInstructor": "Select instructor",
+  "freeCourses.nameEn": "Course Name (English) *",
+  "freeCourses.nameAr": "Course Name (Arabic)",
+  "freeCourses.nameHe": "Course Name (Hebrew)",
+  "freeCourses.namePlaceholderEn": "Enter course name in English",
+  "freeCourses.namePlaceholderAr": "Enter course name in Arabic",
+  "freeCourses.namePlaceholderHe": "Enter course name in Hebrew",
+  "freeCourses.overviewEn": "Overview (English) *",
+  "freeCourses.overviewAr": "Overview (Arabic)",
+  "freeCourses.overviewHe": "Overview (Hebrew)",
+  "freeCourses.overviewPlaceholderEn": "Enter course overview in English",
+  "freeCourses.overviewPlaceholderAr": "Enter course overview in Arabic",
+  "freeCourses.overviewPlaceholderHe": "Enter course overview in Hebrew",
+  "freeCourses.sectionsManagedSeparately": "Sections are now managed separately for better organization.",
+  "freeCourses.manageSections": "Manage Sections",
+  "freeCourses.update": "Update Free Course",
+
+  // Sections
+  "sections.noPermission": "You don't have permission to view sections.",
+  "sections.title": "Sections",
+  "sections.subtitle": "Manage sections for {name}",
+  "sections.create": "Create Section",
+  "sections.loading": "Loading sections...",
+  "sections.notFound": "No sections found",
+  "sections.createFirst": "Create First Section",
+  "sections.contentItems": "Content Items",
+  "sections.visibility": "Visibility",
+  "sections.contentCount": "Content ({count})",
+  "sections.visible": "Visible",
+  "sections.hidden": "Hidden",
+  "sections.viewContent": "View Content",
+  "sections.deleteDescription": "This will permanently delete the section \"{name}\" and all its content items. This action cannot be undone.",
+  "sections.edit": "Edit Section",
+  "sections.editDescription": "Update section details",
+  "sections.createDescription": "Create a new section for this free course",
+  "sections.details": "Section Details",
+  "sections.titlePlaceholderEn": "Enter section title in English",
+  "sections.titlePlaceholderAr": "Enter section title in Arabic",
+  "sections.titlePlaceholderHe": "Enter section title in Hebrew",
+  "sections.descriptionPlaceholderEn": "Enter section description in English",
+  "sections.descriptionPlaceholderAr": "Enter section description in Arabic",
+  "sections.descriptionPlaceholderHe": "Enter section description in Hebrew",
+  "sections.visibilityHelp": "Make this section visible to students",
+  "sections.update": "Update Section",
+  "sections.builderTitle": "Course Sections",
+  "sections.builderDescription": "Organize your course content into sections with various content types",
+  "sections.add": "Add Section",
+  "sections.noneAdded": "No sections added yet",
+  "sections.addFirst": "Add First Section",
+  "sections.number": "Section {number}",
+  "sections.untitled": "Untitled Section",
+  "sections.itemCount": "{count} items",
+  "sections.visibleToStudents": "Visible to students",
+  "sections.titlePlaceholder": "Enter section title",
+  "sections.descriptionPlaceholder": "Enter section description",
+
+  // Content items
+  "contentItems.noPermission": "You don't have permission to view content items.",
+  "contentItems.breadcrumb": "Content",
+  "contentItems.title": "Content Items",
+  "contentItems.subtitle": "Manage content for {name}",
+  "contentItems.add": "Add Content",
+  "contentItems.loading": "Loading content items...",
+  "contentItems.notFound": "No content items found",
+  "contentItems.addFirst": "Add First Content Item",
+  "contentItems.deleteDescription": "This will permanently delete the content item \"{name}\". This action cannot be undone.",
+  "contentItems.typeFile": "File",
+  "contentItems.typeVideo": "Video",
+  "contentItems.typeQuiz": "Quiz",
+  "contentItems.fileUploadFailed": "File upload failed",
+  "contentItems.edit": "Edit Content",
+  "contentItems.editTitle": "Edit Content Item",
+  "contentItems.addTitle": "Add Content Item",
+  "contentItems.editDescription": "Update content item details",
+  "contentItems.addDescription": "Add a new content item to this section",
+  "contentItems.details": "Content Item Details",
+  "contentItems.titlePlaceholderEn": "Enter content title in English",
+  "contentItems.titlePlaceholderAr": "Enter content title in Arabic",
+  "contentItems.titlePlaceholderHe": "Enter content title in Hebrew",
+  "contentItems.typeRequired": "Content Type *",
+  "contentItems.selectType": "Select content type",
+  "contentItems.typeLocked": "Content type cannot be changed after creation",
+  "contentItems.uploadFile": "Upload File *",
+  "contentItems.videoFromLibrary": "Select from Video Library",
+  "contentItems.selectVideoOptional": "Select a video (optional)",
+  "contentItems.or": "OR",
+  "contentItems.externalUrl": "External Video URL",
+  "contentItems.externalUrlHelp": "Enter a YouTube or external video URL",
+  "contentItems.quizRequired": "Select Quiz *",
+  "contentItems.selectQuiz": "Select a quiz",
+  "contentItems.uploadingFile": "Uploading file...",
+  "contentItems.update": "Update Content",
+  "contentItems.view": "View Content Item",
+  "contentItems.type": "Content Type",
+  "contentItems.titleEnglish": "Title (English)",
+  "contentItems.contentDetails": "Content Details",
+  "contentItems.fileUrl": "File URL:",
+  "contentItems.viewFile": "View File",
+  "contentItems.fileId": "File ID: {id}",
+  "contentItems.videoLibrary": "Video Library:",
+  "contentItems.watchVideo": "Watch Video",
+  "contentItems.externalVideo": "External Video:",
+  "contentItems.noVideoSource": "No video source available",
+  "contentItems.quiz": "Quiz:",
+  "contentItems.questionCount": "{count} questions",
+  "contentItems.passingScore": "Passing Score: {score}%",
+  "contentItems.quizId": "Quiz ID: {id}",
+  "contentItems.notSpecified": "Not specified",
+  "contentItems.noneAdded": "No content items added yet",
+  "contentItems.itemNumber": "Item {number}",
+  "contentItems.titlePlaceholder": "Enter content title",
+  "contentItems.videoFromLibraryRequired": "Select Video from Library *",
+  "contentItems.selectVideoFromLibrary": "Select a video from library",
+  "contentItems.quizFromLibraryRequired": "Select Quiz from Library *",
+  "contentItems.selectQuizFromLibrary": "Select a quiz from library",
+  "contentItems.selected": "Selected: {name}",
+  "contentItems.fileUploaded": "✓ File uploaded successfully",
+
+  // Quizzes
+  "quizzes.title": "Quizzes",
+  "quizzes.subtitle": "Manage quizzes for courses, topics, and lessons",
+  "quizzes.create": "Create Quiz",
+  "quizzes.searchPlaceholder": "Search quizzes...",
+  "quizzes.type": "Quiz Type",
+  "quizzes.typeCourse": "Course",
+  "quizzes.typeTopic": "Topic",
+  "quizzes.typeLesson": "Lesson",
+  "quizzes.typeFreeCourse": "Free Course",
+  "quizzes.typeSection": "Section",
+  "quizzes.questions": "Questions",
+  "quizzes.points": "Points",
+  "quizzes.passingScore": "Passing Score",
+  "quizzes.notFound": "No quizzes found",
+  "quizzes.leaderboard": "Leaderboard",
+  "quizzes.edit": "Edit Quiz",
+  "quizzes.duplicate": "Duplicate Quiz",
+  "quizzes.delete": "Delete Quiz",
+  "quizzes.deleteDescription": "Are you sure you want to delete this quiz? This action cannot be undone. All progress and statistics will be lost.",
+  "quizzes.untitled": "Untitled Quiz",
+  "quizzes.createNew": "Create New Quiz",
+  "quizzes.editDescription": "Update quiz details and questions",
+  "quizzes.createDescription": "Add a new quiz to your content",
+  "quizzes.titlePlaceholderEn": "Enter English title",
+  "quizzes.descriptionPlaceholderEn": "Enter English description",
+  "quizzes.configuration": "Quiz Configuration",
+  "quizzes.typeRequired": "Quiz Type *",
+  "quizzes.selectType": "Select quiz type",
+  "quizzes.selectCourse": "Select Course",
+  "quizzes.selectTopic": "Select Topic",
+  "quizzes.selectLesson": "Select Lesson",
+  "quizzes.selectFreeCourse": "Select Free Course",
+  "quizzes.selectSection": "Select Section",
+  "quizzes.selectEntity": "Select Entity",
+  "quizzes.selectCourseFirst": "Select course first",
+  "quizzes.selectTopicFirst": "Select topic first",
+  "quizzes.selectCourseAndTopicFirst": "Select course and topic first",
+  "quizzes.selectFreeCourseFirst": "Select free course first",
+  "quizzes.passingScorePercent": "Passing Score (%)",
+  "quizzes.passingScoreHelp": "Minimum score required to pass the quiz",
+  "quizzes.timeLimit": "Time Limit (minutes)",
+  "quizzes.timeLimitHelp": "Leave empty for no time limit",
+  "quizzes.maxAttempts": "Max Attempts",
+  "quizzes.maxAttemptsHelp": "Leave empty for unlimited attempts",
+  "quizzes.showCorrectAnswers": "Show Correct Answers",
+  "quizzes.showCorrectAnswersHelp": "Show answers after quiz completion",
+  "quizzes.shuffleQuestions": "Shuffle Questions",
+  "quizzes.shuffleQuestionsHelp": "Randomize question order",
+  "quizzes.shuffleOptions": "Shuffle Options",
+  "quizzes.shuffleOptionsHelp": "Randomize option order",
+  "quizzes.oneQuestion": "1 question",
+  "quizzes.questionCount": "{count} questions",
+  "quizzes.update": "Update Quiz",
+  "quizzes.duplicateDescription": "Create a copy of this quiz and attach it to a different entity.",
+  "quizzes.sourceQuiz": "Source Quiz: {title}",
+  "quizzes.targetType": "Target Quiz Type",
+  "quizzes.courseQuiz": "Course Quiz",
+  "quizzes.topicQuiz": "Topic Quiz",
+  "quizzes.lessonQuiz": "Lesson Quiz",
+  "quizzes.freeCourseQuiz": "Free Course Quiz",
+  "quizzes.sectionQuiz": "Section Quiz",
+  "quizzes.unnamed": "Unnamed",
+  "quizzes.changeTitle": "Optional: Change Quiz Title",
+  "quizzes.englishTitle": "English Title",
+  "quizzes.arabicTitleOptional": "Arabic Title (Optional)",
+  "quizzes.hebrewTitleOptional": "Hebrew Title (Optional)",
+  "quizzes.keepOriginal": "Leave empty to keep original",
+  "quizzes.noQuestions": "No questions added yet",
+  "quizzes.addFirstQuestion": "Add First Question",
+  "quizzes.questionNumber": "Question {number}",
+  "quizzes.onePoint": "1 point",
+  "quizzes.pointCount": "{count} points",
+  "quizzes.questionText": "Question Text",
+  "quizzes.questionPlaceholder": "Enter question",
+  "quizzes.answerOptions": "Answer Options *",
+  "quizzes.addOption": "Add Option",
+  "quizzes.optionNumber": "Option {number}",
+  "quizzes.optionPlaceholder": "Enter option",
+  "quizzes.correctAnswer": "Correct Answer",
+  "quizzes.correctAnswerHelp": "Check the box next to correct answer(s)",
+  "quizzes.explanation": "Explanation (Optional)",
+  "quizzes.explanationPlaceholder": "Enter explanation",
+  "quizzes.addQuestion": "Add Question",
+
+  // Course progress
+  "progress.title": "Course Progress",
+  "progress.subtitle": "Track student progress and course completion statistics",
+  "progress.totalUsers": "Total Users",
+  "progress.completionRate": "Completion Rate",
+  "progress.averageCompletion": "Avg. Completion",
+  "progress.averageTimeSpent": "Avg. Time Spent",
+  "progress.userStatus": "User Status",
+  "progress.usersCount": "{count} users",
+  "progress.timeStatistics": "Time Statistics",
+  "progress.totalTimeSpent": "Total Time Spent",
+  "progress.averagePerUser": "Average per User",
+  "progress.rankingsTitle": "View Individual Rankings",
+  "progress.rankingsDescription": "See the leaderboard to view top performers and individual student progress details",
+  "progress.viewLeaderboard": "View Leaderboard",
+  "progress.resetTitle": "Reset Progress",
+  "progress.resetDescription": "This action will reset all progress for this user in this course.",
+  "progress.resetWarning": "This will:",
+  "progress.resetLessons": "Reset all lesson completion status",
+  "progress.resetVideos": "Clear all video watch progress",
+  "progress.resetTime": "Reset time spent to zero",
+  "progress.resetCompletion": "Remove course completion status",
+  "progress.resetKeepsEnrollment": "Preserve enrollment data",
+  "progress.resetConfirm": "I understand this action will reset all progress",
+  "progress.deleteTitle": "Delete Progress",
+  "progress.deleteDescription": "This will permanently delete progress data for this user.",
+  "progress.deleteWarning": "This action cannot be undone.",
+  "progress.deleteSoft": "All progress data will be soft-deleted",
+  "progress.deleteRetained": "Data will be retained for audit purposes",
+  "progress.deleteHidden": "User will no longer see this progress",
+  "progress.deleteKeepsEnrollment": "Enrollment record will remain active",
+
+  // Audit log
+  "auditLog.title": "Audit Log",
+  "auditLog.subtitle": "Who changed what across the dashboard, and when.",
+  "auditLog.activity": "Activity",
+  "auditLog.activityDescription": "Refunds, blocks, progress resets and deletions made by admins.",
+  "auditLog.searchPlaceholder": "Admin, entity name or ID...",
+  "auditLog.action": "Action",
+  "auditLog.entity": "Entity",
+  "auditLog.allActions": "All actions",
+  "auditLog.allEntities": "All entities",
+  "auditLog.when": "When",
+  "auditLog.admin": "Admin",
+  "auditLog.changes": "Changes",
+  "auditLog.notFound": "No audit entries found.",
+  "auditLog.unknownAdmin": "Unknown admin",
+  "auditLog.entryTitle": "{action}: {entity}",
+  "auditLog.noChanges": "No field changes were recorded for this entry.",
+  "auditLog.field": "Field",
+  "auditLog.before": "Before",
+  "auditLog.after": "After",
+  "auditLog.details": "Details",
+  "auditLog.actionUpdate": "Updated",
+  "auditLog.actionDelete": "Deleted",
+  "auditLog.actionHardDelete": "Permanently deleted",
+  "auditLog.actionRefund": "Refunded",
+  "auditLog.actionCancel": "Cancelled",
+  "auditLog.actionBlock": "Blocked",
+  "auditLog.actionUnblock": "Unblocked",
+  "auditLog.actionRemoveDevice": "Removed device",
+  "auditLog.actionResetProgress": "Reset progress",
+  "auditLog.actionDeleteProgress": "Deleted progress",
+  "auditLog.entityAdmin": "Admin",
+  "auditLog.entityRole": "Role",
+  "auditLog.entityUser": "User",
+  "auditLog.entityUniversity": "University",
+  "auditLog.entityFaculty": "Faculty",
+  "auditLog.entityEnrollment": "Enrollment",
+  "auditLog.entityProgress": "Progress",
+  "auditLog.entityVideoLibrary": "Video",
+
+  // Translation coverage
+  "translationCoverage.title": "Translations",
+  "translationCoverage.subtitle": "How much of the catalogue is available in each language.",
+  "translationCoverage.fieldsTranslated": "{translated} of {total} fields translated",
+  "translationCoverage.byType": "Coverage by content type",
+  "translationCoverage.byTypeDescription": "Quizzes include every question, option and explanation.",
+  "translationCoverage.content": "Content",
+  "translationCoverage.fields": "Fields",
+  "translationCoverage.noContent": "No translatable content found.",
+  "translationCoverage.missingTitle": "Missing translations",
+  "translationCoverage.missingDescription": "Each row links to the form where the field can be translated.",
+  "translationCoverage.searchPlaceholder": "Name or field...",
+  "translationCoverage.allContent": "All content",
+  "translationCoverage.missing": "Missing",
+  "translationCoverage.anyLanguage": "Any language",
+  "translationCoverage.field": "Field",
+  "translationCoverage.nothingLeft": "Nothing left to translate.",
+  "translationCoverage.universities": "Universities",
+  "translationCoverage.faculties": "Faculties",
+  "translationCoverage.courses": "Courses",
+  "translationCoverage.topics": "Topics",
+  "translationCoverage.lessons": "Lessons",
+  "translationCoverage.quizzes": "Quizzes",
+  "translationCoverage.sections": "Free Course Sections",
+  "translationCoverage.untitled": "Untitled",
+  "translationCoverage.about": "About",
+  "translationCoverage.learningOutcome": "Learning outcome {number}",
+  "translationCoverage.question": "Question {number}",
+  "translationCoverage.option": "{question} · Option {number}",
+  "translationCoverage.explanation": "{question} · Explanation",
+} as const;
+
+export type TranslationKey = keyof typeof en;
+
+export type Translations = Record<TranslationKey, string>;
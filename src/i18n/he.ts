@@ -0,0 +1,1474 @@
+import type { Translations } from "./en";
+
+export const he: Translations = {
+  // Common
+  "common.close": "סגירה",
+  "common.previous": "הקודם",
+  "common.next": "הבא",
+  "common.loading": "טוען...",
+  "common.search": "חיפוש",
+  "common.download": "הורדה",
+  "common.cancel": "ביטול",
+  "common.apply": "החלה",
+  "common.reset": "איפוס",
+  "common.showing": "מציג {from} עד {to} מתוך {total}",
+  "common.yes": "כן",
+  "common.no": "לא",
+  "common.name": "שם",
+  "common.email": "אימייל",
+  "common.phone": "טלפון",
+  "common.student": "סטודנט",
+  "common.course": "קורס",
+  "common.university": "אוניברסיטה",
+  "common.faculty": "פקולטה",
+  "common.active": "פעיל",
+  "common.inactive": "לא פעיל",
+  "common.status": "סטטוס",
+  "common.actions": "פעולות",
+  "common.refresh": "רענון",
+  "common.filters": "מסננים",
+  "common.notAvailable": "לא זמין",
+  "common.created": "נוצר",
+  "common.allStatuses": "כל הסטטוסים",
+  "common.type": "סוג",
+  "common.title": "כותרת",
+  "common.description": "תיאור",
+  "common.view": "הצג",
+  "common.titleEn": "כותרת (אנגלית) *",
+  "common.titleAr": "כותרת (ערבית)",
+  "common.titleHe": "כותרת (עברית)",
+  "common.descriptionEn": "תיאור (אנגלית)",
+  "common.descriptionAr": "תיאור (ערבית)",
+  "common.descriptionHe": "תיאור (עברית)",
+  "common.edit": "עריכה",
+  "common.delete": "מחיקה",
+  "common.remove": "הסרה",
+  "common.updating": "מעדכן...",
+  "common.creating": "יוצר...",
+  "common.deleting": "מוחק...",
+  "common.saving": "שומר...",
+  "common.never": "אף פעם",
+  "common.allStatus": "כל הסטטוסים",
+  "common.filterByStatus": "סינון לפי סטטוס",
+  "common.languages": "שפות",
+  "common.singleLanguage": "שפה אחת",
+  "common.englishNameRequired": "שם באנגלית *",
+  "common.arabicNameOptional": "שם בערבית (אופציונלי)",
+  "common.hebrewNameOptional": "שם בעברית (אופציונלי)",
+  "common.softDelete": "מחיקה רכה",
+  "common.hardDelete": "מחיקה לצמיתות",
+  "common.permanentlyDelete": "מחיקה לצמיתות",
+  "common.clear": "ניקוי",
+  "common.clearFilters": "ניקוי מסננים",
+  "common.back": "חזרה",
+  "common.optional": "אופציונלי",
+  "common.unknown": "לא ידוע",
+  "common.preview": "תצוגה מקדימה",
+  "common.size": "גודל",
+  "common.pageOf": "עמוד {page} מתוך {total}",
+  "common.hoursMinutes": "{hours} ש׳ {minutes} ד׳",
+  "common.minutes": "{minutes} ד׳",
+  "common.seconds": "{seconds} שנ׳",
+  "common.untitledCourse": "קורס ללא כותרת",
+  "common.inProgress": "בתהליך",
+  "common.completed": "הושלם",
+  "common.warning": "אזהרה:",
+  "common.userLabel": "משתמש:",
+  "common.courseLabel": "קורס:",
+  "common.top": "{count} המובילים",
+  "common.selectedFile": "נבחר: {name} ({size})",
+  "common.more": "+{count} נוספים",
+  "common.activeStatus": "סטטוס פעילות",
+
+  // Languages
+  "language.en": "אנגלית",
+  "language.ar": "ערבית",
+  "language.he": "עברית",
+
+  // Navigation
+  "nav.dashboard": "לוח בקרה",
+  "nav.admins": "מנהלים",
+  "nav.roles": "תפקידים",
+  "nav.users": "משתמשים",
+  "nav.universities": "אוניברסיטאות",
+  "nav.faculties": "פקולטות",
+  "nav.courses": "קורסים",
+  "nav.freeCourses": "קורסים חינמיים",
+  "nav.enrollments": "הרשמות",
+  "nav.analytics": "ניתוח נתונים",
+  "nav.quizzes": "מבחנים",
+  "nav.videosLibrary": "ספריית סרטונים",
+  "nav.auditLog": "יומן ביקורת",
+  "nav.translations": "תרגומים",
+
+  // Layout
+  "layout.logOut": "התנתקות",
+  "layout.language": "שפה",
+  "layout.toggleSidebar": "הצגה/הסתרה של סרגל הצד",
+  "layout.sidebar": "סרגל צד",
+  "layout.sidebarDescription": "מציג את סרגל הצד לנייד.",
+
+  // Idle timeout
+  "idle.title": "עדיין כאן?",
+  "idle.description":
+    "תנותק בעוד {seconds} שניות עקב חוסר פעילות. שינויים שלא נשמרו יאבדו.",
+  "idle.logOut": "התנתקות",
+  "idle.stay": "הישאר מחובר",
+  "idle.loggedOut": "נותקת עקב חוסר פעילות",
+
+  // Login
+  "login.title": "כניסת מנהל",
+  "login.description": "היכנס ללוח הבקרה",
+  "login.login": "שם משתמש או אימייל",
+  "login.loginPlaceholder": "הזן שם משתמש או אימייל",
+  "login.loginRequired": "יש להזין שם משתמש או אימייל",
+  "login.password": "סיסמה",
+  "login.passwordPlaceholder": "הזן סיסמה",
+  "login.passwordRequired": "יש להזין סיסמה",
+  "login.submit": "כניסה",
+  "login.submitting": "מתחבר...",
+  "login.success": "התחברת בהצלחה!",
+  "login.failed": "ההתחברות נכשלה",
+
+  // Forbidden
+  "forbidden.title": "הגישה נדחתה",
+  "forbidden.description":
+    "אין לך הרשאה לצפות בדף זה. בקש ממנהל-על להעניק לתפקיד שלך גישה אם אתה זקוק לה.",
+  "forbidden.requires": "נדרש",
+  "forbidden.or": "או",
+  "forbidden.goBack": "חזרה",
+  "forbidden.backToDashboard": "חזרה ללוח הבקרה",
+
+  // Permissions
+  "permissions.missing": "נדרשת ההרשאה \"{permission}\" ({name})",
+  "permissions.admins": "מנהלים",
+  "permissions.roles": "תפקידים",
+  "permissions.permissions": "הרשאות",
+  "permissions.users": "משתמשים",
+  "permissions.universities": "אוניברסיטאות",
+  "permissions.faculties": "פקולטות",
+  "permissions.courses": "קורסים",
+  "permissions.freeCourses": "קורסים חינמיים",
+  "permissions.sections": "מקטעים",
+  "permissions.topics": "נושאים",
+  "permissions.lessons": "שיעורים",
+  "permissions.quizzes": "בחנים",
+  "permissions.videoLibrary": "ספריית וידאו",
+  "permissions.attachedFiles": "קבצים מצורפים",
+  "permissions.enrollments": "הרשמות",
+  "permissions.progress": "התקדמות",
+  "permissions.auditLogs": "יומני ביקורת",
+  "permissions.translations": "תרגומים",
+  "permissions.create": "יצירה",
+  "permissions.read": "קריאה",
+  "permissions.update": "עדכון",
+  "permissions.delete": "מחיקה",
+  "permissions.export": "ייצוא",
+  "permissions.import": "ייבוא",
+
+  // Export
+  "export.title": "ייצוא",
+  "export.description": "כל הדפים התואמים למסננים הנוכחיים ייכללו.",
+  "export.format": "פורמט",
+  "export.language": "שפת השמות",
+  "export.columns": "עמודות",
+  "export.selectAll": "בחר הכול",
+  "export.clearAll": "נקה הכול",
+  "export.fetched": "נטענו {loaded} שורות...",
+  "export.fetchedOf": "נטענו {loaded} מתוך {total} שורות...",
+  "export.cancel": "ביטול ייצוא",
+  "export.exporting": "מייצא...",
+  "export.success": "שורות שיוצאו: {count}",
+  "export.cancelled": "הייצוא בוטל",
+  "export.failed": "הייצוא נכשל",
+
+  // Date range
+  "dateRange.range": "טווח",
+  "dateRange.last7Days": "7 הימים האחרונים",
+  "dateRange.last30Days": "30 הימים האחרונים",
+  "dateRange.last90Days": "90 הימים האחרונים",
+  "dateRange.last12Months": "12 החודשים האחרונים",
+  "dateRange.custom": "טווח מותאם אישית",
+  "dateRange.from": "מתאריך",
+  "dateRange.to": "עד תאריך",
+
+  // Localized fields
+  "localizedField.translated": "{count}/{total} שפות",
+  "localizedField.tabs": "הצג שפה אחת בכל פעם",
+  "localizedField.sideBySide": "הצג את השפות זו לצד זו",
+  "localizedField.placeholder": "{placeholder} ב{language}",
+
+  // Upload tray
+  "uploads.title": "העלאות",
+  "uploads.active": "{count} בתהליך",
+  "uploads.pause": "השהה",
+  "uploads.resume": "המשך",
+  "uploads.cancel": "ביטול",
+  "uploads.retry": "נסה שוב",
+  "uploads.dismiss": "הסתר",
+  "uploads.clearFinished": "נקה שהושלמו",
+  "uploads.collapse": "כווץ",
+  "uploads.expand": "הרחב",
+  "uploads.queued": "בתור",
+  "uploads.uploading": "מעלה...",
+  "uploads.paused": "מושהה",
+  "uploads.processing": "מעבד...",
+  "uploads.completed": "ההעלאה הושלמה",
+  "uploads.failed": "ההעלאה נכשלה",
+  "uploads.cancelled": "בוטל",
+  "uploads.speed": "מהירות:",
+  "uploads.eta": "זמן משוער:",
+  "uploads.elapsed": "זמן שחלף:",
+  "uploads.statusError": "ההעלאה נכשלה עם סטטוס: {status}",
+  "uploads.networkError": "ההעלאה נכשלה עקב שגיאת רשת",
+  "uploads.partStatusError": "העלאת החלק נכשלה עם סטטוס: {status}",
+  "uploads.partNetworkError": "העלאת החלק נכשלה עקב שגיאת רשת",
+  "uploads.missingEtag": "בתגובת העלאת החלק חסרה כותרת ETag",
+  "uploads.missingPartUrl": "אין כתובת העלאה לחלק {number}",
+  "uploads.removed": "ההעלאה הוסרה",
+  "uploads.wasCancelled": "ההעלאה בוטלה",
+
+  // Toasts
+  "toast.fileAttached": "הקובץ צורף בהצלחה!",
+  "toast.fileAttachFailed": "צירוף הקובץ נכשל",
+  "toast.fileUpdated": "הקובץ עודכן בהצלחה!",
+  "toast.fileUpdateFailed": "עדכון הקובץ נכשל",
+  "toast.fileDeleted": "הקובץ נמחק בהצלחה!",
+  "toast.fileDeleteFailed": "מחיקת הקובץ נכשלה",
+  "toast.fileDownloadFailed": "יצירת קישור ההורדה נכשלה",
+  "toast.contentItemCreated": "פריט התוכן נוצר בהצלחה",
+  "toast.contentItemCreateFailed": "יצירת פריט התוכן נכשלה",
+  "toast.contentItemUpdated": "פריט התוכן עודכן בהצלחה",
+  "toast.contentItemUpdateFailed": "עדכון פריט התוכן נכשל",
+  "toast.contentItemDeleted": "פריט התוכן נמחק בהצלחה",
+  "toast.contentItemDeleteFailed": "מחיקת פריט התוכן נכשלה",
+  "toast.sectionCreated": "הפרק נוצר בהצלחה",
+  "toast.sectionCreateFailed": "יצירת הפרק נכשלה",
+  "toast.sectionUpdated": "הפרק עודכן בהצלחה",
+  "toast.sectionUpdateFailed": "עדכון הפרק נכשל",
+  "toast.sectionDeleted": "הפרק נמחק בהצלחה",
+  "toast.sectionDeleteFailed": "מחיקת הפרק נכשלה",
+  "toast.enrollmentRefunded": "ההרשמה זוכתה בהצלחה",
+  "toast.enrollmentRefundFailed": "זיכוי ההרשמה נכשל",
+  "toast.enrollmentCancelled": "ההרשמה בוטלה בהצלחה",
+  "toast.enrollmentCancelFailed": "ביטול ההרשמה נכשל",
+  "toast.videoCreateFailed": "יצירת הסרטון נכשלה: {error}",
+  "toast.videoUpdated": "הסרטון עודכן בהצלחה!",
+  "toast.videoUpdateFailed": "עדכון הסרטון נכשל: {error}",
+  "toast.videoDeleted": "הסרטון נמחק בהצלחה!",
+  "toast.videoDeleteFailed": "מחיקת הסרטון נכשלה: {error}",
+  "toast.videoHardDeleted": "הסרטון נמחק לצמיתות!",
+  "toast.videoHardDeleteFailed": "מחיקת הסרטון לצמיתות נכשלה: {error}",
+  "toast.videoUrlFailed": "קבלת קישור הסרטון נכשלה: {error}",
+  "toast.videoUploadFailed": "העלאת הסרטון נכשלה: {error}",
+  "toast.videoUploaded": "הסרטון \"{name}\" הועלה בהצלחה!",
+  "toast.uploadQueued": "\"{name}\" נוסף למגש ההעלאות",
+  "toast.videoBulkCompleted": "{count} סרטונים עודכנו בהצלחה!",
+  "toast.videoBulkPartial": "{succeeded} מתוך {total} סרטונים עודכנו, {failed} נכשלו",
+  "toast.auditWriteFailed": "השינוי נשמר אך לא ניתן היה לתעד אותו ביומן הביקורת",
+  "toast.selectVideoFile": "יש לבחור קובץ וידאו",
+  "toast.selectFileToUpload": "יש לבחור קובץ להעלאה",
+  "toast.fileUploaded": "הקובץ הועלה בהצלחה",
+  "toast.fileUploadFailed": "העלאת הקובץ נכשלה",
+  "toast.filesAttached": "{count} קבצים צורפו בהצלחה!",
+  "toast.filesAttachedPartial": "{succeeded} קבצים צורפו, {failed} נכשלו",
+  "toast.imageUploadFailed": "העלאת התמונה נכשלה",
+  "toast.progressReset": "ההתקדמות אופסה בהצלחה",
+  "toast.progressResetFailed": "איפוס ההתקדמות נכשל",
+  "toast.progressDeleted": "ההתקדמות נמחקה בהצלחה",
+  "toast.progressDeleteFailed": "מחיקת ההתקדמות נכשלה",
+  "toast.userUpdated": "המשתמש עודכן בהצלחה!",
+  "toast.userUpdateFailed": "עדכון המשתמש נכשל",
+  "toast.userDeleted": "המשתמש נמחק בהצלחה!",
+  "toast.userDeleteFailed": "מחיקת המשתמש נכשלה",
+  "toast.userBlocked": "המשתמש נחסם בהצלחה!",
+  "toast.userUnblocked": "חסימת המשתמש בוטלה בהצלחה!",
+  "toast.userStatusFailed": "עדכון סטטוס המשתמש נכשל",
+  "toast.deviceRemoved": "המכשיר הוסר בהצלחה!",
+  "toast.deviceRemoveFailed": "הסרת המכשיר נכשלה",
+  "toast.adminCreated": "המנהל נוצר בהצלחה!",
+  "toast.adminCreateFailed": "יצירת המנהל נכשלה",
+  "toast.adminUpdated": "המנהל עודכן בהצלחה!",
+  "toast.adminUpdateFailed": "עדכון המנהל נכשל",
+  "toast.adminDeleted": "המנהל נמחק בהצלחה!",
+  "toast.adminDeleteFailed": "מחיקת המנהל נכשלה",
+  "toast.adminActivated": "המנהל הופעל בהצלחה!",
+  "toast.adminDeactivated": "המנהל הושבת בהצלחה!",
+  "toast.adminStatusFailed": "עדכון סטטוס המנהל נכשל",
+  "toast.passwordUpdated": "הסיסמה עודכנה בהצלחה!",
+  "toast.passwordUpdateFailed": "עדכון הסיסמה נכשל",
+  "toast.roleCreated": "התפקיד נוצר בהצלחה!",
+  "toast.roleCreateFailed": "יצירת התפקיד נכשלה",
+  "toast.roleUpdated": "התפקיד עודכן בהצלחה!",
+  "toast.roleUpdateFailed": "עדכון התפקיד נכשל",
+  "toast.roleDeleted": "התפקיד נמחק לצמיתות!",
+  "toast.roleDeleteFailed": "מחיקת התפקיד נכשלה",
+  "toast.roleActivated": "התפקיד הופעל בהצלחה!",
+  "toast.roleDeactivated": "התפקיד הושבת בהצלחה!",
+  "toast.roleStatusFailed": "עדכון סטטוס התפקיד נכשל",
+  "toast.roleNameLength": "שם התפקיד חייב להכיל בין 2 ל-50 תווים",
+  "toast.roleCloned": "התפקיד \"{name}\" נוצר מתוך \"{source}\"",
+  "toast.roleCloneFailed": "שכפול התפקיד נכשל",
+  "toast.rolePermissionsUpdated": "ההרשאות עודכנו עבור {count} תפקידים",
+  "toast.rolePermissionsFailed": "עדכון {names} נכשל",
+  "toast.permissionsCreated": "הרשאות {resource} נוצרו",
+  "toast.permissionsCreateFailed": "יצירת ההרשאות נכשלה",
+  "toast.universityCreated": "האוניברסיטה נוצרה בהצלחה!",
+  "toast.universityCreateFailed": "יצירת האוניברסיטה נכשלה",
+  "toast.universityUpdated": "האוניברסיטה עודכנה בהצלחה!",
+  "toast.universityUpdateFailed": "עדכון האוניברסיטה נכשל",
+  "toast.universityDeleted": "האוניברסיטה נמחקה בהצלחה!",
+  "toast.universityDeleteFailed": "מחיקת האוניברסיטה נכשלה",
+  "toast.universityHardDeleted": "האוניברסיטה נמחקה לצמיתות!",
+  "toast.universityHardDeleteFailed": "מחיקת האוניברסיטה לצמיתות נכשלה",
+  "toast.universityActivated": "האוניברסיטה הופעלה בהצלחה!",
+  "toast.universityDeactivated": "האוניברסיטה הושבתה בהצלחה!",
+  "toast.universityStatusFailed": "עדכון סטטוס האוניברסיטה נכשל",
+  "toast.facultyCreated": "הפקולטה נוצרה בהצלחה!",
+  "toast.facultyCreateFailed": "יצירת הפקולטה נכשלה",
+  "toast.facultyUpdated": "הפקולטה עודכנה בהצלחה!",
+  "toast.facultyUpdateFailed": "עדכון הפקולטה נכשל",
+  "toast.facultyDeleted": "הפקולטה נמחקה בהצלחה!",
+  "toast.facultyDeleteFailed": "מחיקת הפקולטה נכשלה",
+  "toast.facultyHardDeleted": "הפקולטה נמחקה לצמיתות!",
+  "toast.facultyHardDeleteFailed": "מחיקת הפקולטה לצמיתות נכשלה",
+  "toast.facultyActivated": "הפקולטה הופעלה בהצלחה!",
+  "toast.facultyDeactivated": "הפקולטה הושבתה בהצלחה!",
+  "toast.facultyStatusFailed": "עדכון סטטוס הפקולטה נכשל",
+  "toast.courseCreated": "הקורס נוצר בהצלחה!",
+  "toast.courseUpdated": "הקורס עודכן בהצלחה!",
+  "toast.courseSaveFailed": "שמירת הקורס נכשלה",
+  "toast.courseImageRequired": "נדרשת תמונת קורס",
+  "toast.courseDeleted": "הקורס נמחק בהצלחה!",
+  "toast.courseDeleteFailed": "מחיקת הקורס נכשלה",
+  "toast.courseActivated": "הקורס הופעל בהצלחה!",
+  "toast.courseDeactivated": "הקורס הושבת בהצלחה!",
+  "toast.courseStatusFailed": "עדכון סטטוס הקורס נכשל",
+  "toast.freeCourseCreated": "הקורס החינמי נוצר בהצלחה!",
+  "toast.freeCourseUpdated": "הקורס החינמי עודכן בהצלחה!",
+  "toast.freeCourseSaveFailed": "שמירת הקורס החינמי נכשלה",
+  "toast.topicCreated": "הנושא נוצר בהצלחה!",
+  "toast.topicCreateFailed": "יצירת הנושא נכשלה",
+  "toast.topicUpdated": "הנושא עודכן בהצלחה!",
+  "toast.topicUpdateFailed": "עדכון הנושא נכשל",
+  "toast.topicDeleted": "הנושא נמחק בהצלחה!",
+  "toast.topicDeleteFailed": "מחיקת הנושא נכשלה",
+  "toast.topicActivated": "הנושא הופעל בהצלחה!",
+  "toast.topicDeactivated": "הנושא הושבת בהצלחה!",
+  "toast.topicStatusFailed": "עדכון סטטוס הנושא נכשל",
+  "toast.topicsReordered": "סדר הנושאים עודכן בהצלחה!",
+  "toast.topicsReorderFailed": "שינוי סדר הנושאים נכשל",
+  "toast.lessonCreated": "השיעור נוצר בהצלחה!",
+  "toast.lessonUpdated": "השיעור עודכן בהצלחה!",
+  "toast.lessonSaveFailed": "שמירת השיעור נכשלה",
+  "toast.lessonDeleted": "השיעור נמחק בהצלחה!",
+  "toast.lessonDeleteFailed": "מחיקת השיעור נכשלה",
+  "toast.lessonActivated": "השיעור הופעל בהצלחה!",
+  "toast.lessonDeactivated": "השיעור הושבת בהצלחה!",
+  "toast.lessonStatusFailed": "עדכון סטטוס השיעור נכשל",
+  "toast.lessonsReordered": "סדר השיעורים עודכן בהצלחה!",
+  "toast.lessonsReorderFailed": "שינוי סדר השיעורים נכשל",
+  "toast.quizCreated": "הבוחן נוצר בהצלחה",
+  "toast.quizUpdated": "הבוחן עודכן בהצלחה",
+  "toast.quizSaveFailed": "שמירת הבוחן נכשלה",
+  "toast.quizDeleted": "הבוחן נמחק בהצלחה",
+  "toast.quizDeleteFailed": "מחיקת הבוחן נכשלה",
+  "toast.quizQuestionRequired": "יש להוסיף לפחות שאלה אחת",
+  "toast.selectQuiz": "יש לבחור בוחן",
+  "toast.selectVideoOrUrl": "יש לבחור סרטון מהספרייה או להזין כתובת של סרטון",
+  "toast.videoPreviewFailed": "טעינת התצוגה המקדימה של הסרטון נכשלה",
+  "toast.videoDownloadFailed": "הורדת הסרטון נכשלה",
+  "toast.uploadDiscardFailed": "לא ניתן היה להסיר מהאחסון את החלקים שהועלו של \"{name}\"",
+
+  // Validation
+  "validation.required": "שדה חובה",
+  "validation.minLength": "נדרשים לפחות {min} תווים",
+  "validation.maxLength": "מותרים לכל היותר {max} תווים",
+  "validation.min": "הערך חייב להיות לפחות {min}",
+  "validation.max": "הערך חייב להיות לכל היותר {max}",
+  "validation.minItems": "בחר לפחות {min}",
+  "validation.email": "הזן כתובת אימייל תקינה",
+  "validation.url": "הזן כתובת URL תקינה",
+  "validation.number": "הזן מספר תקין",
+  "validation.date": "הזן תאריך תקין",
+  "validation.option": "בחר אחת מהאפשרויות הזמינות",
+  "validation.invalid": "ערך לא תקין",
+  "validation.usernameCharacters": "השתמשו רק באותיות, ספרות, נקודות, מקפים וקווים תחתונים",
+  "validation.usernameStart": "חייב להתחיל באות או בספרה",
+  "validation.usernameEnd": "חייב להסתיים באות או בספרה",
+  "validation.passwordComplexity": "חייבת לכלול אות גדולה, אות קטנה, ספרה ואחד מהתווים @$!%*?&",
+  "validation.learningOutcomeRequired": "יש להוסיף לפחות תוצר למידה אחד",
+  "validation.entityRequired": "יש לבחור לאן זה שייך",
+  "validation.fileType": "{label} חייב להיות אחד מהסוגים: {extensions}",
+  "validation.fileEmpty": "הקובץ \"{name}\" ריק",
+  "validation.fileTooLarge": "{label} לא יכול לעלות על {size}",
+  "validation.fileContentMismatch": "\"{name}\" לא נראה כמו קובץ ‎.{extension}. ייתכן שהוא פגום או ששמו שונה.",
+  "validation.fileUnreadable": "לא ניתן היה לקרוא את \"{name}\"",
+  "validation.fileNameExists": "כבר קיים קובץ בשם \"{name}\"",
+  "validation.lessonVideo": "סרטון השיעור",
+  "validation.courseImage": "תמונת הקורס",
+  "validation.attachedFile": "הקובץ המצורף",
+  "validation.freeCourseFile": "קובץ הקורס החינמי",
+
+  // File preview
+  "filePreview.untitled": "קובץ",
+  "filePreview.loadFailed": "טעינת הקובץ נכשלה.",
+  "filePreview.contentsFailed": "טעינת תוכן הקובץ נכשלה.",
+  "filePreview.truncated": "מוצגת רק תחילת הקובץ. הורידו אותו כדי לראות את השאר.",
+  "filePreview.unavailable": "אין תצוגה מקדימה לסוג הקובץ הזה.",
+  "filePreview.officeUnavailable": "לא ניתן להציג כאן מסמכי Office. הורידו את הקובץ כדי לפתוח אותו.",
+  "filePreview.zoomOut": "הקטנה",
+  "filePreview.zoomIn": "הגדלה",
+  "filePreview.resetZoom": "איפוס זום",
+  "filePreview.position": "{index} מתוך {total}",
+  "filePreview.pdf": "מסמך PDF",
+  "filePreview.image": "תמונה",
+  "filePreview.video": "סרטון",
+  "filePreview.audio": "שמע",
+  "filePreview.text": "קובץ טקסט",
+  "filePreview.office": "מסמך Office",
+
+  // Lesson video player
+  "lessonVideo.main": "ראשי",
+  "lessonVideo.gvo": "GVO",
+  "lessonVideo.vvt": "VVT",
+  "lessonVideo.signFailed": "חתימת קישור חדש נכשלה",
+  "lessonVideo.noPlayableUrl": "להקלטה אין קישור שניתן לנגן",
+  "lessonVideo.doesNotPlay": "ההקלטה הזו לא מתנגנת",
+  "lessonVideo.tryFreshLink": "נסו קישור חדש",
+  "lessonVideo.linkExpired": "תוקף הקישור השמור בשיעור הזה פג ב-{date}. הסטודנטים מקבלים את הקישור הזה, ולכן אינם יכולים לנגן את ההקלטה.",
+  "lessonVideo.playingFreshLink": "במקומו מתנגן קישור שנחתם עכשיו.",
+  "lessonVideo.noRecordings": "אין הקלטות בשיעור הזה",
+  "lessonVideo.duration": "משך {duration}",
+  "lessonVideo.linkValidUntil": "הקישור בתוקף עד {date}",
+  "lessonVideo.loadTimeout": "תם הזמן לטעינת הסרטון",
+  "lessonVideo.mediaAborted": "הטעינה בוטלה",
+  "lessonVideo.mediaNetwork": "שגיאת רשת עצרה את ההורדה",
+  "lessonVideo.mediaDecode": "הסרטון פגום או משתמש בקידוד שאינו נתמך",
+  "lessonVideo.mediaNotSupported": "הקישור שבור, פג תוקפו או שאינו סרטון שניתן לנגן",
+  "lessonVideo.mediaFailed": "לא ניתן היה לטעון את הסרטון",
+
+  // Video library
+  "videoLibrary.activateTitle": "הפעלת סרטונים",
+  "videoLibrary.deactivateTitle": "השבתת סרטונים",
+  "videoLibrary.setEntityTypeTitle": "שינוי סוג הישות",
+  "videoLibrary.renameTitle": "שינוי שמות סרטונים",
+  "videoLibrary.permanentDeleteTitle": "מחיקת סרטונים לצמיתות",
+  "videoLibrary.selectedOne": "נבחר סרטון אחד",
+  "videoLibrary.selectedMany": "נבחרו {count} סרטונים",
+  "videoLibrary.newEntityType": "סוג הישות החדש",
+  "videoLibrary.lesson": "שיעור",
+  "videoLibrary.course": "קורס",
+  "videoLibrary.namePattern": "תבנית שם",
+  "videoLibrary.namePatternPlaceholder": "לדוגמה: שבוע {n} - {name}",
+  "videoLibrary.namePatternHelp": "מצייני מיקום: {placeholders}. ‏{n} הוא המיקום בבחירה ו-{date} תאריך ההעלאה.",
+  "videoLibrary.emptyName": "(שם ריק)",
+  "videoLibrary.andMore": "ועוד {count}",
+  "videoLibrary.namesLoadFailed": "טעינת השמות הנוכחיים של הסרטונים שנבחרו נכשלה.",
+  "videoLibrary.checkingUsage": "בודקים איפה הסרטונים האלה בשימוש...",
+  "videoLibrary.stillUsed": "{count} מהסרטונים שנבחרו עדיין בשימוש. שיעורים וקורסים חינמיים שמפנים אליהם יאבדו את ההקלטה.",
+  "videoLibrary.onePlace": "מקום אחד",
+  "videoLibrary.places": "{count} מקומות",
+  "videoLibrary.noneUsed": "אף אחד מהסרטונים שנבחרו לא משמש שיעור או קורס חינמי.",
+  "videoLibrary.usageCheckFailed": "לא ניתן היה לבדוק היכן נעשה שימוש ב-{count} מהסרטונים שנבחרו. בדקו שוב או בטלו את בחירתם לפני המחיקה.",
+  "videoLibrary.retryUsageCheck": "בדיקה חוזרת",
+  "videoLibrary.deleteAcknowledge": "אני מבין/ה שהסרטונים והקבצים שלהם יימחקו לצמיתות",
+  "videoLibrary.processed": "עובדו {completed} מתוך {total}",
+  "videoLibrary.succeeded": "{count} הצליחו",
+  "videoLibrary.failed": "{count} נכשלו",
+  "videoLibrary.retryFailed": "ניסיון חוזר ל-{count} שנכשלו",
+  "videoLibrary.deleteForever": "מחיקה לצמיתות",
+  "videoLibrary.usedIn": "בשימוש ב",
+  "videoLibrary.usageLoadFailed": "טעינת המקומות שבהם הסרטון בשימוש נכשלה.",
+  "videoLibrary.notUsed": "הסרטון הזה לא משמש אף שיעור או קורס חינמי.",
+  "videoLibrary.showUsage": "הצגת המקומות שבהם נעשה שימוש בסרטון",
+  "videoLibrary.view": "הצגה",
+  "videoLibrary.unused": "לא בשימוש",
+  "videoLibrary.checkingVideoUsage": "בודק היכן נעשה שימוש בסרטון...",
+  "videoLibrary.videoUsageCheckFailed": "לא ניתן היה לבדוק היכן נעשה שימוש בסרטון, ולכן עדיין אי אפשר למחוק אותו.",
+  "videoLibrary.videoUsedOnce": "הסרטון נמצא בשימוש במקום אחד. הסטודנטים לא יוכלו עוד לצפות בו שם.",
+  "videoLibrary.videoUsed": "הסרטון נמצא בשימוש ב-{count} מקומות. הסטודנטים לא יוכלו עוד לצפות בו שם.",
+  "videoLibrary.seeWhere": "הצגת המקומות",
+  "videoLibrary.deleteAnyway": "למחוק בכל זאת",
+  "videoLibrary.lessons": "שיעורים",
+  "videoLibrary.freeCourses": "קורסים חינמיים",
+  "videoLibrary.untitledLesson": "שיעור ללא שם",
+  "videoLibrary.untitledItem": "פריט ללא שם",
+  "videoLibrary.mainRecording": "הקלטה ראשית",
+  "videoLibrary.gvoRecording": "הקלטת GVO",
+  "videoLibrary.vvtRecording": "הקלטת VVT",
+  "videoLibrary.selectVideo": "בחירת {name}",
+  "videoLibrary.filters": "מסננים",
+  "videoLibrary.moreFilters": "מסננים נוספים",
+  "videoLibrary.searchPlaceholder": "חיפוש סרטונים לפי שם...",
+  "videoLibrary.entityType": "סוג ישות",
+  "videoLibrary.allTypes": "כל הסוגים",
+  "videoLibrary.status": "סטטוס",
+  "videoLibrary.allStatus": "כל הסטטוסים",
+  "videoLibrary.active": "פעיל",
+  "videoLibrary.inactive": "לא פעיל",
+  "videoLibrary.usage": "שימוש",
+  "videoLibrary.allVideos": "כל הסרטונים",
+  "videoLibrary.inUse": "בשימוש",
+  "videoLibrary.orphaned": "לא בשימוש (יתום)",
+  "videoLibrary.videoFormat": "פורמט סרטון",
+  "videoLibrary.allFormats": "כל הפורמטים",
+  "videoLibrary.uploadedBy": "הועלה על ידי",
+  "videoLibrary.anyone": "כל אחד",
+  "videoLibrary.fileSize": "גודל קובץ (MB)",
+  "videoLibrary.min": "מינימום",
+  "videoLibrary.max": "מקסימום",
+  "videoLibrary.nameLanguage": "שפת השם",
+  "videoLibrary.defaultLanguage": "ברירת מחדל",
+  "videoLibrary.selected": "{count} נבחרו",
+  "videoLibrary.activate": "הפעלה",
+  "videoLibrary.deactivate": "השבתה",
+  "videoLibrary.changeType": "שינוי סוג",
+  "videoLibrary.rename": "שינוי שם",
+  "videoLibrary.loading": "טוען סרטונים...",
+  "videoLibrary.title": "ספריית סרטונים",
+  "videoLibrary.subtitle": "ניהול וארגון קובצי הווידאו לקורסים ולשיעורים.",
+  "videoLibrary.upload": "העלאת סרטון",
+  "videoLibrary.totalVideos": "סך כל הסרטונים",
+  "videoLibrary.activeVideos": "סרטונים פעילים",
+  "videoLibrary.totalSize": "גודל כולל",
+  "videoLibrary.thisPage": "עמוד זה",
+  "videoLibrary.videos": "סרטונים",
+  "videoLibrary.videosDescription": "ניהול קובצי ספריית הסרטונים",
+  "videoLibrary.tableView": "תצוגת טבלה",
+  "videoLibrary.gridView": "תצוגת רשת",
+  "videoLibrary.notFound": "לא נמצאו סרטונים",
+  "videoLibrary.adjustFilters": "נסה לשנות את החיפוש או את המסננים.",
+  "videoLibrary.getStarted": "התחל בהעלאת הסרטון הראשון שלך.",
+  "videoLibrary.selectPage": "בחירת כל הסרטונים בעמוד זה",
+  "videoLibrary.showingVideos": "מציג {from} עד {to} מתוך {total} סרטונים",
+  "videoLibrary.previewDescription": "תצוגה מקדימה של הסרטון - {type}",
+  "videoLibrary.fileSizeLabel": "גודל הקובץ:",
+  "videoLibrary.entityTypeLabel": "סוג הישות:",
+  "videoLibrary.createdLabel": "נוצר:",
+  "videoLibrary.statusLabel": "סטטוס:",
+  "videoLibrary.deleteTitle": "מחיקת סרטון",
+  "videoLibrary.deleteDescription": "האם אתה בטוח שברצונך למחוק את \"{name}\"? פעולה זו תסמן את הסרטון כלא פעיל.",
+  "videoLibrary.uploadTitle": "העלאת סרטון לספרייה",
+  "videoLibrary.uploadDescription": "העלה קובץ וידאו לספריית הסרטונים. הסרטון יהיה זמין לשימוש בשיעורים ובקורסים.",
+  "videoLibrary.nameEn": "שם הסרטון (אנגלית) *",
+  "videoLibrary.nameAr": "שם הסרטון (ערבית)",
+  "videoLibrary.nameHe": "שם הסרטון (עברית)",
+  "videoLibrary.namePlaceholderEn": "הזן את שם הסרטון באנגלית",
+  "videoLibrary.namePlaceholderAr": "הזן את שם הסרטון בערבית",
+  "videoLibrary.namePlaceholderHe": "הזן את שם הסרטון בעברית",
+  "videoLibrary.entityTypeRequired": "סוג הישות *",
+  "videoLibrary.selectEntityType": "בחר סוג ישות",
+  "videoLibrary.videoFile": "קובץ וידאו *",
+  "videoLibrary.videoFileHelp": "העלה קובץ וידאו (MP4, MOV, WebM, MKV, AVI, MPEG, OGV) - עד 5GB. העלאות גדולות ממשיכות מהנקודה שבה נעצרו אם החיבור מתנתק.",
+  "videoLibrary.readingDetails": "קורא את פרטי הסרטון...",
+  "videoLibrary.detailsUnavailable": "לא ניתן היה לקרוא את פרטי הסרטון בדפדפן זה.",
+  "videoLibrary.resumeNotice": "העלאה קודמת של הקובץ נעצרה ב-{percentage}% ({uploaded}). היא תמשיך משם.",
+  "videoLibrary.resumeUpload": "המשך העלאה",
+  "videoLibrary.uploadFailed": "העלאת הסרטון נכשלה",
+
+  // Lesson analytics
+  "lessonAnalytics.title": "ניתוח שיעור",
+  "lessonAnalytics.back": "חזרה לשיעורי הנושא",
+  "lessonAnalytics.subtitle": "מעורבות הסטודנטים שיש להם התקדמות בסרטונים של \"{name}\"",
+  "lessonAnalytics.thisLesson": "השיעור הזה",
+  "lessonAnalytics.loadFailed": "טעינת ההתקדמות בקורס נכשלה",
+  "lessonAnalytics.noneWatched": "אף אחד מ-{count} הסטודנטים שיש להם התקדמות בקורס עוד לא צפה בשיעור הזה",
+  "lessonAnalytics.noProgress": "עדיין אין התקדמות של סטודנטים בקורס הזה",
+  "lessonAnalytics.studentsWatched": "סטודנטים שצפו",
+  "lessonAnalytics.completedLesson": "{count} השלימו את השיעור",
+  "lessonAnalytics.avgCompletion": "השלמה ממוצעת",
+  "lessonAnalytics.rewatchRate": "שיעור צפייה חוזרת",
+  "lessonAnalytics.avgTimeSpent": "זמן ממוצע",
+  "lessonAnalytics.dropOff": "נטישה",
+  "lessonAnalytics.dropOffDescription": "איפה הפסיקו לצפות סטודנטים שלא סיימו הקלטה",
+  "lessonAnalytics.recordingUsage": "שימוש בהקלטות",
+  "lessonAnalytics.recordingUsageDescription": "איך סטודנטים צופים בהקלטות הראשית, GVO ו-VVT",
+  "lessonAnalytics.recording": "הקלטה",
+  "lessonAnalytics.viewers": "צופים",
+  "lessonAnalytics.completed": "הושלמו",
+  "lessonAnalytics.rewatched": "נצפו שוב",
+  "lessonAnalytics.avgPlays": "ניגונים בממוצע",
+  "lessonAnalytics.watchTime": "זמן צפייה",
+
+  // Users
+  "users.fullName": "שם מלא",
+  "users.academicYear": "שנת לימודים",
+  "users.semester": "סמסטר",
+  "users.blocked": "חסום",
+  "users.emailVerified": "אימייל מאומת",
+  "users.devices": "מכשירים",
+  "users.lastLogin": "כניסה אחרונה",
+  "users.joined": "הצטרף",
+  "users.noPermission": "אין לך הרשאה לצפות במשתמשים.",
+  "users.title": "ניהול משתמשים",
+  "users.subtitle": "ניהול חשבונות הסטודנטים וההרשמות שלהם.",
+  "users.export": "ייצוא משתמשים",
+  "users.totalUsers": "סך המשתמשים",
+  "users.verifiedUsers": "משתמשים מאומתים",
+  "users.unverifiedUsers": "משתמשים לא מאומתים",
+  "users.blockedUsers": "משתמשים חסומים",
+  "users.users": "משתמשים",
+  "users.usersDescription": "ניהול חשבונות הסטודנטים והפרטים שלהם.",
+  "users.searchPlaceholder": "חיפוש משתמשים...",
+  "users.filterByStatus": "סינון לפי סטטוס",
+  "users.allStatus": "כל הסטטוסים",
+  "users.filterByVerification": "סינון לפי אימות",
+  "users.allVerification": "כל מצבי האימות",
+  "users.verified": "מאומת",
+  "users.unverified": "לא מאומת",
+  "users.loading": "טוען משתמשים...",
+  "users.notFound": "לא נמצאו משתמשים.",
+  "users.viewDevices": "הצגת מכשירים",
+  "users.editTitle": "עריכת משתמש",
+  "users.editDescription": "עדכון פרטי המשתמש.",
+  "users.fullNamePlaceholder": "הזן שם מלא",
+  "users.emailPlaceholder": "הזן אימייל",
+  "users.phoneOptional": "טלפון (אופציונלי)",
+  "users.phonePlaceholder": "הזן מספר טלפון",
+  "users.selectAcademicYear": "בחר שנת לימודים",
+  "users.year1": "שנה א'",
+  "users.year2": "שנה ב'",
+  "users.year3": "שנה ג'",
+  "users.year4": "שנה ד'",
+  "users.year5": "שנה ה'",
+  "users.year6": "שנה ו'",
+  "users.selectSemester": "בחר סמסטר",
+  "users.fall": "סתיו",
+  "users.spring": "אביב",
+  "users.summer": "קיץ",
+  "users.updateUser": "עדכון משתמש",
+  "users.devicesTitle": "מכשירי המשתמש",
+  "users.devicesDescription": "ניהול המכשירים של {name}",
+  "users.noDevices": "לא נמצאו מכשירים למשתמש הזה.",
+  "users.deviceType": "סוג: {type}",
+  "users.deviceLastUsed": "שימוש אחרון: {date}",
+  "users.deviceIp": "כתובת IP: {ip}",
+  "users.deleteTitle": "מחיקת משתמש",
+  "users.deleteDescription": "האם למחוק את המשתמש? לא ניתן לבטל פעולה זו.",
+  "users.removeDeviceTitle": "הסרת מכשיר",
+  "users.removeDeviceDescription": "האם להסיר את המכשיר? המשתמש יצטרך להזדהות מחדש במכשיר הזה.",
+
+  // Enrollments
+  "enrollments.accessType": "סוג גישה",
+  "enrollments.fullCourse": "קורס מלא",
+  "enrollments.individualTopics": "נושאים בודדים",
+  "enrollments.purchasedTopics": "נושאים שנרכשו",
+  "enrollments.totalAmount": "סכום כולל",
+  "enrollments.discount": "הנחה",
+  "enrollments.amountPaid": "סכום ששולם",
+  "enrollments.currency": "מטבע",
+  "enrollments.paymentStatus": "סטטוס תשלום",
+  "enrollments.expires": "תפוגה",
+  "enrollments.enrolled": "תאריך הרשמה",
+  "enrollments.pending": "ממתין",
+  "enrollments.completed": "הושלם",
+  "enrollments.failed": "נכשל",
+  "enrollments.refunded": "הוחזר",
+  "enrollments.cancelled": "בוטל",
+  "enrollments.title": "הרשמות",
+  "enrollments.subtitle": "ניהול ומעקב אחר הרשמות לקורסים",
+  "enrollments.totalEnrollments": "סך ההרשמות",
+  "enrollments.completedPayments": "תשלומים שהושלמו",
+  "enrollments.pendingPayments": "תשלומים ממתינים",
+  "enrollments.totalRevenue": "סך ההכנסות",
+  "enrollments.filtersDescription": "סינון הרשמות לפי קריטריונים שונים",
+  "enrollments.searchPlaceholder": "חיפוש הרשמות...",
+  "enrollments.allAccessTypes": "כל סוגי הגישה",
+  "enrollments.fullAccess": "גישה מלאה",
+  "enrollments.totalCount": "{count} הרשמות בסך הכול",
+  "enrollments.user": "משתמש",
+  "enrollments.amount": "סכום",
+  "enrollments.notFound": "לא נמצאו הרשמות",
+  "enrollments.discountAmount": "הנחה: {amount}",
+  "enrollments.cancelTitle": "ביטול הרשמה",
+  "enrollments.cancelDescription": "האם לבטל את ההרשמה? לא ניתן לבטל פעולה זו.",
+  "enrollments.confirmCancel": "כן, בטל את ההרשמה",
+  "enrollments.refund": "החזר",
+  "enrollments.refundTitle": "החזר כספי על הרשמה",
+  "enrollments.refundDescription": "ביצוע החזר עבור ההרשמה. השאר את הסכום ריק להחזר מלא.",
+  "enrollments.refundPlaceholder": "השאר ריק להחזר מלא",
+  "enrollments.processRefund": "ביצוע החזר",
+
+  // Course leaderboard
+  "leaderboard.rank": "דירוג",
+  "leaderboard.completionPercent": "אחוז השלמה",
+  "leaderboard.completedLessons": "שיעורים שהושלמו",
+  "leaderboard.totalLessons": "סך השיעורים",
+  "leaderboard.timeSpent": "זמן שהושקע",
+  "leaderboard.courseCompleted": "השלים את הקורס",
+  "leaderboard.completedAt": "הושלם בתאריך",
+  "leaderboard.title": "טבלת המובילים של {course}",
+  "leaderboard.courseFallback": "הקורס",
+  "leaderboard.subtitle": "המצטיינים מדורגים לפי אחוז ההשלמה והזמן שהושקע",
+  "leaderboard.backToProgress": "חזרה להתקדמות",
+  "leaderboard.lessonsCount": "{completed} / {total} שיעורים",
+  "leaderboard.user": "משתמש",
+  "leaderboard.progress": "התקדמות",
+  "leaderboard.lessons": "שיעורים",
+  "leaderboard.noData": "אין נתונים לטבלת המובילים",
+
+  // Quiz leaderboard
+  "quizLeaderboard.quiz": "בוחן",
+  "quizLeaderboard.bestScore": "הציון הטוב ביותר",
+  "quizLeaderboard.bestPercent": "האחוז הטוב ביותר",
+  "quizLeaderboard.attempts": "ניסיונות",
+  "quizLeaderboard.passed": "עבר",
+  "quizLeaderboard.lastAttempt": "ניסיון אחרון",
+  "quizLeaderboard.title": "טבלת המובילים של הבוחן",
+  "quizLeaderboard.description": "{title} · הניסיון הטוב ביותר של כל סטודנט",
+  "quizLeaderboard.noAttempts": "אין עדיין ניסיונות.",
+  "quizLeaderboard.notPassed": "לא עבר",
+
+  // Dashboard home
+  "home.welcome": "ברוך שובך, {name}!",
+  "home.subtitle": "הנה מה שקורה היום בפלטפורמה החינוכית שלך.",
+  "home.totalStudents": "סך הסטודנטים",
+  "home.verifiedBlocked": "{verified} מאומתים · {blocked} חסומים",
+  "home.activeCourses": "קורסים פעילים",
+  "home.totalInactive": "{total} בסך הכול · {inactive} לא פעילים",
+  "home.enrollmentsThisMonth": "הרשמות החודש",
+  "home.revenueThisMonth": "הכנסות החודש",
+  "home.libraryVideos": "סרטוני הספרייה",
+  "home.stored": "{size} מאוחסנים",
+  "home.noLastMonthData": "אין נתונים לחודש שעבר",
+  "home.vsLastMonth": "לעומת אותם ימים בחודש שעבר",
+  "home.enrolled": "{student} נרשם ל-\"{course}\" ({status})",
+  "home.aStudent": "סטודנט",
+  "home.aCourse": "קורס",
+  "home.registered": "{name} נרשם כסטודנט חדש",
+  "home.recentActivity": "פעילות אחרונה",
+  "home.recentActivityDescription": "ההרשמות והרישומים האחרונים",
+  "home.noActivity": "אין פעילות אחרונה",
+  "home.noActivityPermission": "אין לך הרשאה לצפות בפעילות הפלטפורמה.",
+  "home.quickActions": "פעולות מהירות",
+  "home.quickActionsDescription": "משימות נפוצות שאולי תרצה לבצע",
+  "home.noActions": "אין פעולות זמינות לתפקיד שלך.",
+  "home.addUniversity": "הוספת אוניברסיטה חדשה",
+  "home.createAdmin": "יצירת חשבון מנהל",
+  "home.manageRoles": "ניהול תפקידי משתמשים",
+  "home.reviewEnrollments": "סקירת הרשמות",
+
+  // Analytics
+  "analytics.title": "אנליטיקה",
+  "analytics.subtitle": "מגמות הרשמות והכנסות לאורך זמן",
+  "analytics.totalEnrollments": "סך ההרשמות",
+  "analytics.completedPayments": "תשלומים שהושלמו",
+  "analytics.pendingPayments": "תשלומים ממתינים",
+  "analytics.totalRevenue": "סך ההכנסות",
+  "analytics.enrollments": "הרשמות",
+  "analytics.enrollmentsPerDay": "הרשמות חדשות ליום, לפי סוג גישה",
+  "analytics.enrollmentsPerWeek": "הרשמות חדשות לשבוע, לפי סוג גישה",
+  "analytics.enrollmentsPerMonth": "הרשמות חדשות לחודש, לפי סוג גישה",
+  "analytics.daily": "יומי",
+  "analytics.weekly": "שבועי",
+  "analytics.monthly": "חודשי",
+  "analytics.weekOf": "שבוע של {date}",
+  "analytics.revenueByCurrency": "הכנסות לפי מטבע",
+  "analytics.revenuePerDay": "תשלומים שהושלמו ליום, עמודה לכל מטבע",
+  "analytics.revenuePerWeek": "תשלומים שהושלמו לשבוע, עמודה לכל מטבע",
+  "analytics.revenuePerMonth": "תשלומים שהושלמו לחודש, עמודה לכל מטבע",
+  "analytics.paymentStatus": "סטטוס תשלום",
+  "analytics.paymentStatusDescription": "הרשמות לפי סטטוס תשלום",
+  "analytics.accessType": "סוג גישה",
+  "analytics.accessTypeDescription": "רכישת קורס מלא לעומת נושאים בודדים",
+  "analytics.noEnrollments": "אין הרשמות בטווח הזה",
+
+  // Admins
+  "admins.title": "ניהול מנהלים",
+  "admins.subtitle": "ניהול חשבונות המנהלים וההרשאות שלהם.",
+  "admins.create": "יצירת מנהל",
+  "admins.createTitle": "יצירת מנהל חדש",
+  "admins.createDescription": "יצירת חשבון מנהל חדש.",
+  "admins.username": "שם משתמש",
+  "admins.usernamePlaceholder": "הזן שם משתמש",
+  "admins.emailPlaceholder": "הזן אימייל",
+  "admins.password": "סיסמה",
+  "admins.passwordPlaceholder": "הזן סיסמה",
+  "admins.role": "תפקיד",
+  "admins.selectRole": "בחר תפקיד",
+  "admins.phoneOptional": "טלפון (אופציונלי)",
+  "admins.phonePlaceholder": "הזן מספר טלפון",
+  "admins.totalAdmins": "סך המנהלים",
+  "admins.activeAdmins": "מנהלים פעילים",
+  "admins.inactiveAdmins": "מנהלים לא פעילים",
+  "admins.administrators": "מנהלים",
+  "admins.administratorsDescription": "ניהול חשבונות המנהלים והתפקידים שלהם.",
+  "admins.searchPlaceholder": "חיפוש מנהלים...",
+  "admins.lastLogin": "כניסה אחרונה",
+  "admins.loading": "טוען מנהלים...",
+  "admins.notFound": "לא נמצאו מנהלים.",
+  "admins.changePassword": "שינוי סיסמה",
+  "admins.editTitle": "עריכת מנהל",
+  "admins.editDescription": "עדכון פרטי המנהל.",
+  "admins.update": "עדכון מנהל",
+  "admins.passwordDescription": "עדכון הסיסמה של המנהל.",
+  "admins.newPassword": "סיסמה חדשה",
+  "admins.newPasswordPlaceholder": "הזן סיסמה חדשה",
+  "admins.updatePassword": "עדכון סיסמה",
+  "admins.deleteTitle": "מחיקת מנהל",
+  "admins.deleteDescription": "האם למחוק את המנהל? לא ניתן לבטל פעולה זו.",
+
+  // Roles
+  "roles.title": "ניהול תפקידים",
+  "roles.subtitle": "ניהול התפקידים וההרשאות שלהם.",
+  "roles.permissionMatrix": "מטריצת הרשאות",
+  "roles.create": "יצירת תפקיד",
+  "roles.createTitle": "יצירת תפקיד חדש",
+  "roles.createDescription": "יצירת תפקיד חדש והקצאת הרשאות אליו.",
+  "roles.roleName": "שם התפקיד",
+  "roles.roleNamePlaceholder": "הזן שם תפקיד",
+  "roles.permissions": "הרשאות",
+  "roles.loadingPermissions": "טוען הרשאות...",
+  "roles.totalRoles": "סך התפקידים",
+  "roles.activeRoles": "תפקידים פעילים",
+  "roles.inactiveRoles": "תפקידים לא פעילים",
+  "roles.roles": "תפקידים",
+  "roles.rolesDescription": "ניהול התפקידים וההרשאות המשויכות אליהם.",
+  "roles.searchPlaceholder": "חיפוש תפקידים...",
+  "roles.loading": "טוען תפקידים...",
+  "roles.notFound": "לא נמצאו תפקידים.",
+  "roles.editTitle": "עריכת תפקיד",
+  "roles.editDescription": "עדכון פרטי התפקיד וההרשאות שלו.",
+  "roles.update": "עדכון תפקיד",
+  "roles.selectAll": "בחירת כל ההרשאות ({selected}/{total})",
+  "roles.noPermissionsYet": "· אין עדיין הרשאות",
+  "roles.createPermissions": "יצירה",
+  "roles.permissionCount": "{count} הרשאות",
+  "roles.backToRoles": "חזרה לתפקידים",
+  "roles.matrixSubtitle": "השוואה ועריכה של ההרשאות בכל התפקידים.",
+  "roles.discard": "ביטול שינויים",
+  "roles.reviewChanges": "סקירת השינויים",
+  "roles.matrixTitle": "תפקידים × הרשאות",
+  "roles.matrixDescription": "השתמש בתיבות הסימון של השורות והעמודות כדי להעניק או לשלול בבת אחת. תאים מודגשים כוללים שינויים שלא נשמרו.",
+  "roles.matrixEmpty": "לא נמצאו תפקידים או הרשאות.",
+  "roles.permission": "הרשאה",
+  "roles.toggleRole": "החלפת כל ההרשאות עבור {role}",
+  "roles.toggleRow": "החלפת {permission} עבור כל התפקידים",
+  "roles.toggleCell": "{permission} עבור {role}",
+  "roles.clone": "שכפול תפקיד",
+  "roles.cloneDescription": "יצירת תפקיד חדש עם אותן הרשאות כמו \"{name}\", כולל שינויים שלא נשמרו.",
+  "roles.cloneName": "{name} (עותק)",
+  "roles.cloning": "משכפל...",
+  "roles.cloneRole": "שכפול תפקיד",
+  "roles.reviewTitle": "סקירת שינויי ההרשאות",
+  "roles.reviewOne": "תפקיד אחד יעודכן.",
+  "roles.reviewMany": "{count} תפקידים יעודכנו.",
+  "roles.keepEditing": "המשך עריכה",
+  "roles.saveChanges": "שמירת השינויים",
+
+  // Universities
+  "universities.noPermission": "אין לך הרשאה לצפות באוניברסיטאות.",
+  "universities.title": "ניהול אוניברסיטאות",
+  "universities.subtitle": "ניהול האוניברסיטאות והמידע שלהן.",
+  "universities.create": "יצירת אוניברסיטה",
+  "universities.createTitle": "יצירת אוניברסיטה חדשה",
+  "universities.createDescription": "יצירת אוניברסיטה חדשה עם תמיכה בכמה שפות.",
+  "universities.namePlaceholderEn": "הזן את שם האוניברסיטה באנגלית",
+  "universities.namePlaceholderAr": "הזן את שם האוניברסיטה בערבית",
+  "universities.namePlaceholderHe": "הזן את שם האוניברסיטה בעברית",
+  "universities.total": "סך האוניברסיטאות",
+  "universities.active": "אוניברסיטאות פעילות",
+  "universities.inactive": "אוניברסיטאות לא פעילות",
+  "universities.universities": "אוניברסיטאות",
+  "universities.description": "ניהול האוניברסיטאות והמידע הרב-לשוני שלהן.",
+  "universities.searchPlaceholder": "חיפוש אוניברסיטאות...",
+  "universities.loading": "טוען אוניברסיטאות...",
+  "universities.notFound": "לא נמצאו אוניברסיטאות.",
+  "universities.editTitle": "עריכת אוניברסיטה",
+  "universities.editDescription": "עדכון פרטי האוניברסיטה ושמותיה בשפות השונות.",
+  "universities.update": "עדכון אוניברסיטה",
+  "universities.deleteTitle": "מחיקת אוניברסיטה",
+  "universities.deleteDescription": "האם אתה בטוח שברצונך למחוק את האוניברסיטה? הפעולה תסמן את האוניברסיטה כלא פעילה.",
+  "universities.hardDeleteTitle": "מחיקת האוניברסיטה לצמיתות",
+  "universities.hardDeleteDescription": "האם אתה בטוח שברצונך למחוק את האוניברסיטה לצמיתות? לא ניתן לבטל פעולה זו וכל הנתונים המשויכים יימחקו.",
+  "universities.unknown": "אוניברסיטה לא ידועה",
+
+  // Faculties
+  "faculties.noPermission": "אין לך הרשאה לצפות בפקולטות.",
+  "faculties.title": "ניהול פקולטות",
+  "faculties.subtitle": "ניהול הפקולטות והתוכניות האקדמיות שלהן.",
+  "faculties.create": "יצירת פקולטה",
+  "faculties.createTitle": "יצירת פקולטה חדשה",
+  "faculties.createDescription": "יצירת פקולטה חדשה עם תמיכה בכמה שפות.",
+  "faculties.namePlaceholderEn": "הזן את שם הפקולטה באנגלית",
+  "faculties.namePlaceholderAr": "הזן את שם הפקולטה בערבית",
+  "faculties.namePlaceholderHe": "הזן את שם הפקולטה בעברית",
+  "faculties.universityRequired": "אוניברסיטה *",
+  "faculties.selectUniversity": "בחר אוניברסיטה",
+  "faculties.academicYearsRequired": "מספר שנות לימוד *",
+  "faculties.selectYears": "בחר מספר שנים",
+  "faculties.oneYear": "שנה אחת",
+  "faculties.years": "{count} שנים",
+  "faculties.total": "סך הפקולטות",
+  "faculties.active": "פקולטות פעילות",
+  "faculties.inactive": "פקולטות לא פעילות",
+  "faculties.faculties": "פקולטות",
+  "faculties.description": "ניהול הפקולטות והמידע האקדמי שלהן.",
+  "faculties.searchPlaceholder": "חיפוש פקולטות...",
+  "faculties.filterByUniversity": "סינון לפי אוניברסיטה",
+  "faculties.allUniversities": "כל האוניברסיטאות",
+  "faculties.academicYears": "שנות לימוד",
+  "faculties.loading": "טוען פקולטות...",
+  "faculties.notFound": "לא נמצאו פקולטות.",
+  "faculties.editTitle": "עריכת פקולטה",
+  "faculties.editDescription": "עדכון פרטי הפקולטה ושמותיה בשפות השונות.",
+  "faculties.update": "עדכון פקולטה",
+  "faculties.deleteTitle": "מחיקת פקולטה",
+  "faculties.deleteDescription": "האם אתה בטוח שברצונך למחוק את הפקולטה? הפעולה תסמן את הפקולטה כלא פעילה.",
+  "faculties.hardDeleteTitle": "מחיקת הפקולטה לצמיתות",
+  "faculties.hardDeleteDescription": "האם אתה בטוח שברצונך למחוק את הפקולטה לצמיתות? לא ניתן לבטל פעולה זו וכל הנתונים המשויכים יימחקו.",
+  "faculties.unknown": "פקולטה לא ידועה",
+
+  // Courses
+  "courses.title": "ניהול קורסים",
+  "courses.subtitle": "ניהול הקורסים והתוכן שלהם במספר פקולטות.",
+  "courses.create": "יצירת קורס",
+  "courses.total": "סך הקורסים",
+  "courses.active": "קורסים פעילים",
+  "courses.averagePrice": "מחיר ממוצע",
+  "courses.totalRevenue": "סך ההכנסות",
+  "courses.courses": "קורסים",
+  "courses.description": "עיון וניהול של כל הקורסים הזמינים.",
+  "courses.searchPlaceholder": "חיפוש קורסים...",
+  "courses.loading": "טוען קורסים...",
+  "courses.notFound": "לא נמצאו קורסים.",
+  "courses.hours": "{count} שעות",
+  "courses.learningOutcomes": "תוצרי למידה",
+  "courses.topics": "נושאים",
+  "courses.files": "קבצים",
+  "courses.progress": "התקדמות",
+  "courses.deleteTitle": "מחיקת קורס",
+  "courses.deleteDescription": "האם אתה בטוח שברצונך למחוק את הקורס? לא ניתן לבטל פעולה זו.",
+  "courses.unknown": "קורס לא ידוע",
+  "courses.noDescription": "אין תיאור זמין",
+  "courses.unknownInstructor": "מרצה לא ידוע",
+  "courses.imageUploadFailed": "העלאת התמונה נכשלה",
+  "courses.imageRequired": "תמונת הקורס היא שדה חובה",
+  "courses.loadingCourse": "טוען קורס...",
+  "courses.courseNotFound": "הקורס לא נמצא.",
+  "courses.editTitle": "עריכת קורס",
+  "courses.createTitle": "יצירת קורס חדש",
+  "courses.editDescription": "עדכון פרטי הקורס וההגדרות שלו.",
+  "courses.createDescription": "יצירת קורס חדש עם תמיכה בכמה שפות.",
+  "courses.backToCourses": "חזרה לקורסים",
+  "courses.uploadingImage": "מעלה תמונה...",
+  "courses.save": "שמירת הקורס",
+  "courses.basicInformation": "מידע בסיסי",
+  "courses.basicInformationDescription": "הזן את שם הקורס ותיאורו בכמה שפות.",
+  "courses.name": "שם הקורס",
+  "courses.namePlaceholder": "הזן שם קורס",
+  "courses.courseDescription": "תיאור הקורס",
+  "courses.learningOutcomesDescription": "הגדר מה הסטודנטים ילמדו בקורס.",
+  "courses.learningOutcomeNumber": "תוצר למידה {number}",
+  "courses.learningOutcome": "תוצר למידה",
+  "courses.learningOutcomePlaceholder": "הזן תוצר למידה",
+  "courses.addLearningOutcome": "הוספת תוצר למידה",
+  "courses.details": "פרטי הקורס",
+  "courses.detailsDescription": "הגדר את משך הקורס, התמחור ופרטי המרצה.",
+  "courses.hoursLabel": "שעות הקורס *",
+  "courses.hoursPlaceholder": "הזן את שעות הקורס",
+  "courses.price": "מחיר הקורס *",
+  "courses.pricePlaceholder": "הזן את מחיר הקורס",
+  "courses.discount": "הנחה (%)",
+  "courses.discountPlaceholder": "הזן אחוז הנחה",
+  "courses.instructor": "מרצה *",
+  "courses.selectInstructor": "בחר מרצה",
+  "courses.instructorPercentage": "אחוז המרצה *",
+  "courses.instructorPercentagePlaceholder": "הזן את אחוז המרצה",
+  "courses.associatedFaculties": "פקולטות משויכות",
+  "courses.associatedFacultiesDescription": "בחר את הפקולטות שהקורס שייך אליהן.",
+  "courses.faculties": "פקולטות *",
+  "courses.selectFaculties": "בחר פקולטות...",
+  "courses.noFaculties": "לא נמצאו פקולטות.",
+  "courses.mediaUpload": "העלאת מדיה",
+  "courses.mediaUploadDescription": "העלה תמונת קורס (חובה) וסרטון היכרות (אופציונלי).",
+  "courses.image": "תמונת הקורס *",
+  "courses.imageHelp": "העלה תמונה באיכות גבוהה לקורס (JPG, PNG, GIF, WebP, SVG)",
+  "courses.currentImage": "התמונה הנוכחית:",
+  "courses.currentImageAlt": "תמונת הקורס הנוכחית",
+  "courses.introductoryVideo": "סרטון היכרות",
+  "courses.introductoryVideoHelp": "בחר סרטון היכרות מספריית הווידאו",
+  "courses.selectVideo": "בחירת סרטון",
+  "courses.selectVideoPlaceholder": "בחר סרטון מהספרייה",
+  "courses.noVideoSelected": "לא נבחר סרטון",
+  "courses.selectedVideo": "הסרטון שנבחר:",
+  "courses.status": "סטטוס הקורס",
+  "courses.statusDescription": "קבע אם הקורס פעיל או לא פעיל.",
+  "courses.statusHelp": "הפעלה או השבתה של הקורס",
+
+  // Attached files
+  "files.backToCourses": "חזרה לקורסים",
+  "files.backToTopics": "חזרה לנושאי הקורס",
+  "files.backToLessons": "חזרה לשיעורי הנושא",
+  "files.courseTitle": "קבצי הקורס",
+  "files.topicTitle": "קבצי הנושא",
+  "files.lessonTitle": "קבצי השיעור",
+  "files.subtitle": "ניהול הקבצים המצורפים אל \"{name}\"",
+  "files.thisCourse": "הקורס הזה",
+  "files.thisTopic": "הנושא הזה",
+  "files.thisLesson": "השיעור הזה",
+  "files.bulkUpload": "העלאה מרובה",
+  "files.uploadFile": "העלאת קובץ",
+  "files.attachedFiles": "קבצים מצורפים ({count})",
+  "files.courseDescription": "קבצים שהועלו וצורפו לקורס הזה.",
+  "files.topicDescription": "קבצים שהועלו וצורפו לנושא הזה.",
+  "files.lessonDescription": "קבצים שהועלו וצורפו לשיעור הזה.",
+  "files.loading": "טוען קבצים...",
+  "files.empty": "לא הועלו קבצים",
+  "files.courseEmptyHelp": "התחל בהעלאת הקובץ הראשון לקורס הזה.",
+  "files.topicEmptyHelp": "התחל בהעלאת הקובץ הראשון לנושא הזה.",
+  "files.lessonEmptyHelp": "התחל בהעלאת הקובץ הראשון לשיעור הזה.",
+  "files.file": "קובץ",
+  "files.uploadedBy": "הועלה על ידי",
+  "files.date": "תאריך",
+  "files.preview": "תצוגה מקדימה",
+  "files.deleteTitle": "מחיקת קובץ",
+  "files.deleteDescription": "האם אתה בטוח שברצונך למחוק את \"{name}\"? לא ניתן לבטל פעולה זו.",
+  "files.typeImage": "תמונה",
+  "files.typeVideo": "וידאו",
+  "files.typeAudio": "שמע",
+  "files.typePdf": "מסמך PDF",
+  "files.typeWord": "מסמך Word",
+  "files.typeExcel": "גיליון Excel",
+  "files.typePowerPoint": "מצגת PowerPoint",
+  "files.typeText": "קובץ טקסט",
+  "files.typeFile": "קובץ",
+  "files.uploadCourseDescription": "העלה קובץ לצירוף לקורס הזה. הפורמטים הנתמכים כוללים תמונות, סרטונים, מסמכים, קובצי שמע ועוד.",
+  "files.uploadTopicDescription": "העלה קובץ לצירוף לנושא הזה. הפורמטים הנתמכים כוללים תמונות, סרטונים, מסמכים, קובצי שמע ועוד.",
+  "files.uploadLessonDescription": "העלה קובץ לצירוף לשיעור הזה. הפורמטים הנתמכים כוללים תמונות, סרטונים, מסמכים, קובצי שמע ועוד.",
+  "files.selectFile": "בחירת קובץ *",
+  "files.selectFileHelp": "בחר מסמך, תמונה, קובץ שמע או וידאו (עד 500MB)",
+  "files.fileName": "שם הקובץ",
+  "files.fileNameHelp": "תן לקובץ שם תיאורי בכמה שפות.",
+  "files.arabicName": "שם בערבית",
+  "files.hebrewName": "שם בעברית",
+  "files.namePlaceholderEn": "הזן את שם הקובץ באנגלית",
+  "files.namePlaceholderAr": "הזן את שם הקובץ בערבית",
+  "files.namePlaceholderHe": "הזן את שם הקובץ בעברית",
+  "files.alreadyAttached": "כבר מצורף קובץ בשם \"{name}\"",
+  "files.bulkTitle": "העלאת קבצים מרובים",
+  "files.bulkCourseDescription": "גרור כל מספר של קבצים לצירוף לקורס הזה. השמות נלקחים משמות הקבצים וניתן לערוך אותם לפני ההעלאה.",
+  "files.bulkTopicDescription": "גרור כל מספר של קבצים לצירוף לנושא הזה. השמות נלקחים משמות הקבצים וניתן לערוך אותם לפני ההעלאה.",
+  "files.bulkLessonDescription": "גרור כל מספר של קבצים לצירוף לשיעור הזה. השמות נלקחים משמות הקבצים וניתן לערוך אותם לפני ההעלאה.",
+  "files.dropzone": "גרור קבצים לכאן או לחץ לעיון",
+  "files.dropzoneHelp": "מסמכים, תמונות, שמע ווידאו עד 500MB לכל קובץ",
+  "files.englishNamePlaceholder": "שם באנגלית *",
+  "files.arabicNamePlaceholder": "שם בערבית",
+  "files.hebrewNamePlaceholder": "שם בעברית",
+  "files.ready": "מוכן",
+  "files.invalid": "לא תקין",
+  "files.saving": "שומר",
+  "files.attached": "צורף",
+  "files.failed": "נכשל",
+  "files.summary": "צורפו {succeeded} מתוך {total} קבצים.",
+  "files.summaryFailed": "תקן את השורות שנכשלו ונסה שוב, או הסר אותן.",
+  "files.uploading": "מעלה...",
+  "files.retryFailed": "נסה שוב {count} שנכשלו",
+  "files.uploadCount": "העלאת {count} קבצים",
+  "files.loadFailed": "טעינת הקובץ נכשלה ({status})",
+
+  // Topics
+  "topics.title": "נושאי הקורס",
+  "topics.subtitle": "ניהול נושאים עבור: {name}",
+  "topics.create": "יצירת נושא",
+  "topics.topics": "נושאים",
+  "topics.description": "ניהול וסידור הנושאים של הקורס. גרור ושחרר כדי לשנות את הסדר.",
+  "topics.searchPlaceholder": "חיפוש נושאים...",
+  "topics.loading": "טוען נושאים...",
+  "topics.notFound": "לא נמצאו נושאים לקורס הזה.",
+  "topics.name": "שם הנושא",
+  "topics.price": "מחיר",
+  "topics.files": "קבצים",
+  "topics.lessons": "שיעורים",
+  "topics.deleteTitle": "מחיקת נושא",
+  "topics.deleteDescription": "האם אתה בטוח שברצונך למחוק את הנושא? לא ניתן לבטל פעולה זו.",
+  "topics.unknown": "נושא לא ידוע",
+  "topics.editTitle": "עריכת נושא",
+  "topics.editDescription": "עדכן את פרטי הנושא למטה.",
+  "topics.createDescription": "מלא את פרטי הנושא החדש.",
+  "topics.namePlaceholder": "הזן שם נושא",
+  "topics.priceRequired": "מחיר *",
+  "topics.pricePlaceholder": "הזן את מחיר הנושא",
+  "topics.update": "עדכון נושא",
+
+  // Lessons
+  "lessons.title": "שיעורי הנושא",
+  "lessons.subtitle": "ניהול שיעורים עבור: {name}",
+  "lessons.backToTopics": "חזרה לנושאים",
+  "lessons.create": "יצירת שיעור",
+  "lessons.lessons": "שיעורים",
+  "lessons.description": "ניהול וסידור השיעורים של הנושא. גרור ושחרר כדי לשנות את הסדר.",
+  "lessons.searchPlaceholder": "חיפוש שיעורים...",
+  "lessons.loading": "טוען שיעורים...",
+  "lessons.notFound": "לא נמצאו שיעורים לנושא הזה.",
+  "lessons.name": "שם השיעור",
+  "lessons.descriptionLabel": "תיאור",
+  "lessons.recordings": "הקלטות",
+  "lessons.preview": "תצוגה מקדימה",
+  "lessons.analytics": "ניתוח נתונים",
+  "lessons.files": "קבצים",
+  "lessons.lesson": "שיעור",
+  "lessons.previewDescription": "תצוגה מקדימה של השיעור כפי שהסטודנטים רואים אותו",
+  "lessons.deleteTitle": "מחיקת שיעור",
+  "lessons.deleteDescription": "האם אתה בטוח שברצונך למחוק את השיעור? לא ניתן לבטל פעולה זו.",
+  "lessons.unknown": "שיעור לא ידוע",
+  "lessons.noDescription": "אין תיאור",
+  "lessons.noUpdatePermission": "אין לך הרשאה לעדכן שיעורים.",
+  "lessons.noCreatePermission": "אין לך הרשאה ליצור שיעורים.",
+  "lessons.loadingLesson": "טוען שיעור...",
+  "lessons.lessonNotFound": "השיעור לא נמצא",
+  "lessons.lessonNotFoundDescription": "השיעור שחיפשת לא קיים.",
+  "lessons.editTitle": "עריכת שיעור",
+  "lessons.editSubtitle": "עדכון השיעור: {name}",
+  "lessons.createSubtitle": "הוספת שיעור חדש אל: {name}",
+  "lessons.backToLessons": "חזרה לשיעורים",
+  "lessons.basicInformationDescription": "הזן את הפרטים הבסיסיים של השיעור.",
+  "lessons.namePlaceholder": "הזן שם שיעור",
+  "lessons.descriptionPlaceholder": "הזן תיאור שיעור",
+  "lessons.recordingSelection": "בחירת הקלטות",
+  "lessons.recordingSelectionDescription": "בחר הקלטות וידאו לשיעור מספריית הווידאו.",
+  "lessons.selectMain": "בחר הקלטה ראשית",
+  "lessons.noMain": "אין הקלטה ראשית",
+  "lessons.selectedMain": "ההקלטה הראשית שנבחרה:",
+  "lessons.selectGvo": "בחר הקלטת GVO",
+  "lessons.noGvo": "אין הקלטת GVO",
+  "lessons.selectedGvo": "הקלטת ה-GVO שנבחרה:",
+  "lessons.selectVvt": "בחר הקלטת VVT",
+  "lessons.noVvt": "אין הקלטת VVT",
+  "lessons.selectedVvt": "הקלטת ה-VVT שנבחרה:",
+  "lessons.lessonPreview": "תצוגה מקדימה של השיעור",
+  "lessons.lessonPreviewDescription": "ודא שכל הקלטה מתנגנת לפני שמירת השיעור.",
+  "lessons.status": "סטטוס השיעור",
+  "lessons.statusDescription": "קבע אם השיעור פעיל או לא פעיל.",
+  "lessons.statusHelp": "הפעלה או השבתה של השיעור",
+  "lessons.update": "עדכון שיעור",
+
+  // Free courses
+  "freeCourses.noPermission": "אין לך הרשאה לצפות בקורסים החינמיים.",
+  "freeCourses.title": "קורסים חינמיים",
+  "freeCourses.subtitle": "ניהול קורסים חינמיים לכל אוניברסיטה (בדומה ל-Moodle)",
+  "freeCourses.create": "יצירת קורס חינמי",
+  "freeCourses.searchPlaceholder": "חיפוש לפי שם...",
+  "freeCourses.allCourses": "כל הקורסים",
+  "freeCourses.loading": "טוען קורסים חינמיים...",
+  "freeCourses.loadFailed": "שגיאה בטעינת הקורסים החינמיים",
+  "freeCourses.notFound": "לא נמצאו קורסים חינמיים",
+  "freeCourses.instructor": "מרצה",
+  "freeCourses.sections": "מקטעים",
+  "freeCourses.sectionsCount": "מקטעים ({count})",
+  "freeCourses.deleteTitle": "האם אתה בטוח?",
+  "freeCourses.deleteDescription": "פעולה זו תשבית את הקורס החינמי \"{name}\". ניתן לבטל אותה על ידי הפעלה מחדש של הקורס.",
+  "freeCourses.editTitle": "עריכת קורס חינמי",
+  "freeCourses.editDescription": "עדכון פרטי הקורס החינמי והמקטעים שלו",
+  "freeCourses.createDescription": "יצירת קורס חינמי חדש לאוניברסיטה",
+  "freeCourses.selectUniversity": "בחר אוניברסיטה",
+  "freeCourses.facultyRequired": "פקולטה *",
+  "freeCourses.selectFaculty": "בחר פקולטה",
+  "freeCourses.selectUniversityFirst": "בחר קודם אוניברסיטה",
+  "freeCourses.selectInstructor": "בחר מרצה",
+  "freeCourses.nameEn": "שם הקורס (אנגלית) *",
+  "freeCourses.nameAr": "שם הקורס (ערבית)",
+  "freeCourses.nameHe": "שם הקורס (עברית)",
+  "freeCourses.namePlaceholderEn": "הזן את שם הקורס באנגלית",
+  "freeCourses.namePlaceholderAr": "הזן את שם הקורס בערבית",
+  "freeCourses.namePlaceholderHe": "הזן את שם הקורס בעברית",
+  "freeCourses.overviewEn": "סקירה (אנגלית) *",
+  "freeCourses.overviewAr": "סקירה (ערבית)",
+  "freeCourses.overviewHe": "סקירה (עברית)",
+  "freeCourses.overviewPlaceholderEn": "הזן סקירה של הקורס באנגלית",
+  "freeCourses.overviewPlaceholderAr": "הזן סקירה של הקורס בערבית",
+  "freeCourses.overviewPlaceholderHe": "הזן סקירה של הקורס בעברית",
+  "freeCourses.sectionsManagedSeparately": "המקטעים מנוהלים כעת בנפרד לארגון טוב יותר.",
+  "freeCourses.manageSections": "ניהול מקטעים",
+  "freeCourses.update": "עדכון קורס חינמי",
+
+  // Sections
+  "sections.noPermission": "אין לך הרשאה לצפות במקטעים.",
+  "sections.title": "מקטעים",
+  "sections.subtitle": "ניהול המקטעים של {name}",
+  "sections.create": "יצירת מקטע",
+  "sections.loading": "טוען מקטעים...",
+  "sections.notFound": "לא נמצאו מקטעים",
+  "sections.createFirst": "יצירת המקטע הראשון",
+  "sections.contentItems": "פריטי תוכן",
+  "sections.visibility": "נראות",
+  "sections.contentCount": "תוכן ({count})",
+  "sections.visible": "גלוי",
+  "sections.hidden": "מוסתר",
+  "sections.viewContent": "הצגת התוכן",
+  "sections.deleteDescription": "פעולה זו תמחק לצמיתות את המקטע \"{name}\" ואת כל פריטי התוכן שלו. לא ניתן לבטל פעולה זו.",
+  "sections.edit": "עריכת מקטע",
+  "sections.editDescription": "עדכון פרטי המקטע",
+  "sections.createDescription": "יצירת מקטע חדש לקורס החינמי הזה",
+  "sections.details": "פרטי המקטע",
+  "sections.titlePlaceholderEn": "הזן את כותרת המקטע באנגלית",
+  "sections.titlePlaceholderAr": "הזן את כותרת המקטע בערבית",
+  "sections.titlePlaceholderHe": "הזן את כותרת המקטע בעברית",
+  "sections.descriptionPlaceholderEn": "הזן את תיאור המקטע באנגלית",
+  "sections.descriptionPlaceholderAr": "הזן את תיאור המקטע בערבית",
+  "sections.descriptionPlaceholderHe": "הזן את תיאור המקטע בעברית",
+  "sections.visibilityHelp": "הצגת המקטע הזה לסטודנטים",
+  "sections.update": "עדכון מקטע",
+  "sections.builderTitle": "מקטעי הקורס",
+  "sections.builderDescription": "ארגן את תוכן הקורס במקטעים עם סוגי תוכן שונים",
+  "sections.add": "הוספת מקטע",
+  "sections.noneAdded": "עדיין לא נוספו מקטעים",
+  "sections.addFirst": "הוספת המקטע הראשון",
+  "sections.number": "מקטע {number}",
+  "sections.untitled": "מקטע ללא כותרת",
+  "sections.itemCount": "{count} פריטים",
+  "sections.visibleToStudents": "גלוי לסטודנטים",
+  "sections.titlePlaceholder": "הזן את כותרת המקטע",
+  "sections.descriptionPlaceholder": "הזן את תיאור המקטע",
+
+  // Content items
+  "contentItems.noPermission": "אין לך הרשאה לצפות בפריטי התוכן.",
+  "contentItems.breadcrumb": "תוכן",
+  "contentItems.title": "פריטי תוכן",
+  "contentItems.subtitle": "ניהול התוכן של {name}",
+  "contentItems.add": "הוספת תוכן",
+  "contentItems.loading": "טוען פריטי תוכן...",
+  "contentItems.notFound": "לא נמצאו פריטי תוכן",
+  "contentItems.addFirst": "הוספת פריט התוכן הראשון",
+  "contentItems.deleteDescription": "פעולה זו תמחק לצמיתות את פריט התוכן \"{name}\". לא ניתן לבטל פעולה זו.",
+  "contentItems.typeFile": "קובץ",
+  "contentItems.typeVideo": "סרטון",
+  "contentItems.typeQuiz": "בוחן",
+  "contentItems.fileUploadFailed": "העלאת הקובץ נכשלה",
+  "contentItems.edit": "עריכת תוכן",
+  "contentItems.editTitle": "עריכת פריט תוכן",
+  "contentItems.addTitle": "הוספת פריט תוכן",
+  "contentItems.editDescription": "עדכון פרטי פריט התוכן",
+  "contentItems.addDescription": "הוספת פריט תוכן חדש למקטע הזה",
+  "contentItems.details": "פרטי פריט התוכן",
+  "contentItems.titlePlaceholderEn": "הזן את כותרת התוכן באנגלית",
+  "contentItems.titlePlaceholderAr": "הזן את כותרת התוכן בערבית",
+  "contentItems.titlePlaceholderHe": "הזן את כותרת התוכן בעברית",
+  "contentItems.typeRequired": "סוג התוכן *",
+  "contentItems.selectType": "בחר סוג תוכן",
+  "contentItems.typeLocked": "לא ניתן לשנות את סוג התוכן לאחר היצירה",
+  "contentItems.uploadFile": "העלאת קובץ *",
+  "contentItems.videoFromLibrary": "בחירה מספריית הסרטונים",
+  "contentItems.selectVideoOptional": "בחר סרטון (אופציונלי)",
+  "contentItems.or": "או",
+  "contentItems.externalUrl": "קישור לסרטון חיצוני",
+  "contentItems.externalUrlHelp": "הזן קישור ל-YouTube או לסרטון חיצוני",
+  "contentItems.quizRequired": "בחר בוחן *",
+  "contentItems.selectQuiz": "בחר בוחן",
+  "contentItems.uploadingFile": "מעלה קובץ...",
+  "contentItems.update": "עדכון תוכן",
+  "contentItems.view": "הצגת פריט תוכן",
+  "contentItems.type": "סוג התוכן",
+  "contentItems.titleEnglish": "כותרת (אנגלית)",
+  "contentItems.contentDetails": "פרטי התוכן",
+  "contentItems.fileUrl": "קישור לקובץ:",
+  "contentItems.viewFile": "הצגת הקובץ",
+  "contentItems.fileId": "מזהה קובץ: {id}",
+  "contentItems.videoLibrary": "ספריית סרטונים:",
+  "contentItems.watchVideo": "צפייה בסרטון",
+  "contentItems.externalVideo": "סרטון חיצוני:",
+  "contentItems.noVideoSource": "אין מקור וידאו זמין",
+  "contentItems.quiz": "בוחן:",
+  "contentItems.questionCount": "{count} שאלות",
+  "contentItems.passingScore": "ציון עובר: {score}%",
+  "contentItems.quizId": "מזהה בוחן: {id}",
+  "contentItems.notSpecified": "לא צוין",
+  "contentItems.noneAdded": "עדיין לא נוספו פריטי תוכן",
+  "contentItems.itemNumber": "פריט {number}",
+  "contentItems.titlePlaceholder": "הזן את כותרת התוכן",
+  "contentItems.videoFromLibraryRequired": "בחר סרטון מהספרייה *",
+  "contentItems.selectVideoFromLibrary": "בחר סרטון מהספרייה",
+  "contentItems.quizFromLibraryRequired": "בחר בוחן מהספרייה *",
+  "contentItems.selectQuizFromLibrary": "בחר בוחן מהספרייה",
+  "contentItems.selected": "נבחר: {name}",
+  "contentItems.fileUploaded": "✓ הקובץ הועלה בהצלחה",
+
+  // Quizzes
+  "quizzes.title": "בחנים",
+  "quizzes.subtitle": "ניהול בחנים לקורסים, לנושאים ולשיעורים",
+  "quizzes.create": "יצירת בוחן",
+  "quizzes.searchPlaceholder": "חיפוש בחנים...",
+  "quizzes.type": "סוג הבוחן",
+  "quizzes.typeCourse": "קורס",
+  "quizzes.typeTopic": "נושא",
+  "quizzes.typeLesson": "שיעור",
+  "quizzes.typeFreeCourse": "קורס חינמי",
+  "quizzes.typeSection": "מקטע",
+  "quizzes.questions": "שאלות",
+  "quizzes.points": "נקודות",
+  "quizzes.passingScore": "ציון עובר",
+  "quizzes.notFound": "לא נמצאו בחנים",
+  "quizzes.leaderboard": "טבלת מובילים",
+  "quizzes.edit": "עריכת בוחן",
+  "quizzes.duplicate": "שכפול בוחן",
+  "quizzes.delete": "מחיקת בוחן",
+  "quizzes.deleteDescription": "האם אתה בטוח שברצונך למחוק את הבוחן? לא ניתן לבטל פעולה זו. כל ההתקדמות והסטטיסטיקות יאבדו.",
+  "quizzes.untitled": "בוחן ללא כותרת",
+  "quizzes.createNew": "יצירת בוחן חדש",
+  "quizzes.editDescription": "עדכון פרטי הבוחן והשאלות",
+  "quizzes.createDescription": "הוספת בוחן חדש לתוכן שלך",
+  "quizzes.titlePlaceholderEn": "הזן כותרת באנגלית",
+  "quizzes.descriptionPlaceholderEn": "הזן תיאור באנגלית",
+  "quizzes.configuration": "הגדרות הבוחן",
+  "quizzes.typeRequired": "סוג הבוחן *",
+  "quizzes.selectType": "בחר סוג בוחן",
+  "quizzes.selectCourse": "בחר קורס",
+  "quizzes.selectTopic": "בחר נושא",
+  "quizzes.selectLesson": "בחר שיעור",
+  "quizzes.selectFreeCourse": "בחר קורס חינמי",
+  "quizzes.selectSection": "בחר מקטע",
+  "quizzes.selectEntity": "בחר ישות",
+  "quizzes.selectCourseFirst": "בחר קודם קורס",
+  "quizzes.selectTopicFirst": "בחר קודם נושא",
+  "quizzes.selectCourseAndTopicFirst": "בחר קודם קורס ונושא",
+  "quizzes.selectFreeCourseFirst": "בחר קודם קורס חינמי",
+  "quizzes.passingScorePercent": "ציון עובר (%)",
+  "quizzes.passingScoreHelp": "הציון המינימלי הנדרש למעבר הבוחן",
+  "quizzes.timeLimit": "מגבלת זמן (בדקות)",
+  "quizzes.timeLimitHelp": "השאר ריק ללא מגבלת זמן",
+  "quizzes.maxAttempts": "מספר ניסיונות מרבי",
+  "quizzes.maxAttemptsHelp": "השאר ריק לניסיונות ללא הגבלה",
+  "quizzes.showCorrectAnswers": "הצגת התשובות הנכונות",
+  "quizzes.showCorrectAnswersHelp": "הצגת התשובות לאחר סיום הבוחן",
+  "quizzes.shuffleQuestions": "ערבוב שאלות",
+  "quizzes.shuffleQuestionsHelp": "סדר שאלות אקראי",
+  "quizzes.shuffleOptions": "ערבוב אפשרויות",
+  "quizzes.shuffleOptionsHelp": "סדר אפשרויות אקראי",
+  "quizzes.oneQuestion": "שאלה אחת",
+  "quizzes.questionCount": "{count} שאלות",
+  "quizzes.update": "עדכון בוחן",
+  "quizzes.duplicateDescription": "יצירת עותק של הבוחן וצירופו לישות אחרת.",
+  "quizzes.sourceQuiz": "בוחן המקור: {title}",
+  "quizzes.targetType": "סוג בוחן היעד",
+  "quizzes.courseQuiz": "בוחן קורס",
+  "quizzes.topicQuiz": "בוחן נושא",
+  "quizzes.lessonQuiz": "בוחן שיעור",
+  "quizzes.freeCourseQuiz": "בוחן קורס חינמי",
+  "quizzes.sectionQuiz": "בוחן מקטע",
+  "quizzes.unnamed": "ללא שם",
+  "quizzes.changeTitle": "אופציונלי: שינוי כותרת הבוחן",
+  "quizzes.englishTitle": "כותרת באנגלית",
+  "quizzes.arabicTitleOptional": "כותרת בערבית (אופציונלי)",
+  "quizzes.hebrewTitleOptional": "כותרת בעברית (אופציונלי)",
+  "quizzes.keepOriginal": "השאר ריק כדי לשמור על המקור",
+  "quizzes.noQuestions": "עדיין לא נוספו שאלות",
+  "quizzes.addFirstQuestion": "הוספת השאלה הראשונה",
+  "quizzes.questionNumber": "שאלה {number}",
+  "quizzes.onePoint": "נקודה אחת",
+  "quizzes.pointCount": "{count} נקודות",
+  "quizzes.questionText": "טקסט השאלה",
+  "quizzes.questionPlaceholder": "הזן שאלה",
+  "quizzes.answerOptions": "אפשרויות תשובה *",
+  "quizzes.addOption": "הוספת אפשרות",
+  "quizzes.optionNumber": "אפשרות {number}",
+  "quizzes.optionPlaceholder": "הזן אפשרות",
+  "quizzes.correctAnswer": "תשובה נכונה",
+  "quizzes.correctAnswerHelp": "סמן את התיבה ליד התשובה (או התשובות) הנכונה",
+  "quizzes.explanation": "הסבר (אופציונלי)",
+  "quizzes.explanationPlaceholder": "הזן הסבר",
+  "quizzes.addQuestion": "הוספת שאלה",
+
+  // Course progress
+  "progress.title": "התקדמות הקורס",
+  "progress.subtitle": "מעקב אחר התקדמות הסטודנטים ונתוני השלמת הקורס",
+  "progress.totalUsers": "סך כל המשתמשים",
+  "progress.completionRate": "שיעור השלמה",
+  "progress.averageCompletion": "השלמה ממוצעת",
+  "progress.averageTimeSpent": "זמן ממוצע שהושקע",
+  "progress.userStatus": "סטטוס משתמשים",
+  "progress.usersCount": "{count} משתמשים",
+  "progress.timeStatistics": "נתוני זמן",
+  "progress.totalTimeSpent": "סך הזמן שהושקע",
+  "progress.averagePerUser": "ממוצע למשתמש",
+  "progress.rankingsTitle": "צפייה בדירוג האישי",
+  "progress.rankingsDescription": "עיין בטבלת המובילים כדי לראות את המצטיינים ואת פרטי ההתקדמות של כל סטודנט",
+  "progress.viewLeaderboard": "צפייה בטבלת המובילים",
+  "progress.resetTitle": "איפוס התקדמות",
+  "progress.resetDescription": "פעולה זו תאפס את כל ההתקדמות של המשתמש בקורס זה.",
+  "progress.resetWarning": "פעולה זו:",
+  "progress.resetLessons": "תאפס את סטטוס ההשלמה של כל השיעורים",
+  "progress.resetVideos": "תנקה את התקדמות הצפייה בכל הסרטונים",
+  "progress.resetTime": "תאפס את הזמן שהושקע",
+  "progress.resetCompletion": "תסיר את סטטוס השלמת הקורס",
+  "progress.resetKeepsEnrollment": "תשמור את נתוני ההרשמה",
+  "progress.resetConfirm": "אני מבין שפעולה זו תאפס את כל ההתקדמות",
+  "progress.deleteTitle": "מחיקת התקדמות",
+  "progress.deleteDescription": "פעולה זו תמחק לצמיתות את נתוני ההתקדמות של המשתמש.",
+  "progress.deleteWarning": "לא ניתן לבטל פעולה זו.",
+  "progress.deleteSoft": "כל נתוני ההתקדמות יימחקו מחיקה רכה",
+  "progress.deleteRetained": "הנתונים יישמרו לצורכי ביקורת",
+  "progress.deleteHidden": "המשתמש לא יראה עוד את ההתקדמות הזו",
+  "progress.deleteKeepsEnrollment": "רשומת ההרשמה תישאר פעילה",
+
+  // Audit log
+  "auditLog.title": "יומן ביקורת",
+  "auditLog.subtitle": "מי שינה מה בלוח הבקרה, ומתי.",
+  "auditLog.activity": "פעילות",
+  "auditLog.activityDescription": "החזרים, חסימות, איפוסי התקדמות ומחיקות שבוצעו על ידי מנהלים.",
+  "auditLog.searchPlaceholder": "מנהל, שם ישות או מזהה...",
+  "auditLog.action": "פעולה",
+  "auditLog.entity": "ישות",
+  "auditLog.allActions": "כל הפעולות",
+  "auditLog.allEntities": "כל הישויות",
+  "auditLog.when": "מתי",
+  "auditLog.admin": "מנהל",
+  "auditLog.changes": "שינויים",
+  "auditLog.notFound": "לא נמצאו רשומות ביקורת.",
+  "auditLog.unknownAdmin": "מנהל לא ידוע",
+  "auditLog.entryTitle": "{action}: {entity}",
+  "auditLog.noChanges": "לא נרשמו שינויים בשדות עבור רשומה זו.",
+  "auditLog.field": "שדה",
+  "auditLog.before": "לפני",
+  "auditLog.after": "אחרי",
+  "auditLog.details": "פרטים",
+  "auditLog.actionUpdate": "עודכן",
+  "auditLog.actionDelete": "נמחק",
+  "auditLog.actionHardDelete": "נמחק לצמיתות",
+  "auditLog.actionRefund": "הוחזר",
+  "auditLog.actionCancel": "בוטל",
+  "auditLog.actionBlock": "נחסם",
+  "auditLog.actionUnblock": "החסימה בוטלה",
+  "auditLog.actionRemoveDevice": "המכשיר הוסר",
+  "auditLog.actionResetProgress": "ההתקדמות אופסה",
+  "auditLog.actionDeleteProgress": "ההתקדמות נמחקה",
+  "auditLog.entityAdmin": "מנהל",
+  "auditLog.entityRole": "תפקיד",
+  "auditLog.entityUser": "משתמש",
+  "auditLog.entityUniversity": "אוניברסיטה",
+  "auditLog.entityFaculty": "פקולטה",
+  "auditLog.entityEnrollment": "הרשמה",
+  "auditLog.entityProgress": "התקדמות",
+  "auditLog.entityVideoLibrary": "סרטון",
+
+  // Translation coverage
+  "translationCoverage.title": "תרגומים",
+  "translationCoverage.subtitle": "כמה מהקטלוג זמין בכל שפה.",
+  "translationCoverage.fieldsTranslated": "{translated} מתוך {total} שדות תורגמו",
+  "translationCoverage.byType": "כיסוי לפי סוג תוכן",
+  "translationCoverage.byTypeDescription": "בחנים כוללים כל שאלה, אפשרות והסבר.",
+  "translationCoverage.content": "תוכן",
+  "translationCoverage.fields": "שדות",
+  "translationCoverage.noContent": "לא נמצא תוכן לתרגום.",
+  "translationCoverage.missingTitle": "תרגומים חסרים",
+  "translationCoverage.missingDescription": "כל שורה מקשרת לטופס שבו ניתן לתרגם את השדה.",
+  "translationCoverage.searchPlaceholder": "שם או שדה...",
+  "translationCoverage.allContent": "כל התוכן",
+  "translationCoverage.missing": "חסר",
+  "translationCoverage.anyLanguage": "כל שפה",
+  "translationCoverage.field": "שדה",
+  "translationCoverage.nothingLeft": "לא נותר מה לתרגם.",
+  "translationCoverage.universities": "אוניברסיטאות",
+  "translationCoverage.faculties": "פקולטות",
+  "translationCoverage.courses": "קורסים",
+  "translationCoverage.topics": "נושאים",
+  "translationCoverage.lessons": "שיעורים",
+  "translationCoverage.quizzes": "בחנים",
+  "translationCoverage.sections": "מקטעי קורסים חינמיים",
+  "translationCoverage.untitled": "ללא כותרת",
+  "translationCoverage.about": "אודות",
+  "translationCoverage.learningOutcome": "תוצר למידה {number}",
+  "translationCoverage.question": "שאלה {number}",
+  "translationCoverage.option": "{question} · אפשרות {number}",
+  "translationCoverage.explanation": "{question} · הסבר",
+};
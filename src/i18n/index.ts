@@ -0,0 +1,129 @@
+/**
+ * Internationalization
+ *
+ * The dashboard is translated into English, Arabic and Hebrew. Components
+ * use the useTranslation hook; code outside React (mutation toasts, zod
+ * schemas) uses t(), which reads the current language from the store.
+ */
+
+import { z } from "zod";
+import { useLanguageStore } from "@/stores/language-store";
+import { en, type TranslationKey, type Translations } from "./en";
+import { ar } from "./ar";
+import { he } from "./he";
+
+export type { TranslationKey } from "./en";
+
+export type Language = "en" | "ar" | "he";
+
+export type Direction = "ltr" | "rtl";
+
+export type TranslationParams = Record<string, string | number>;
+
+export const LANGUAGES: { value: Language; label: string; dir: Direction }[] = [
+  { value: "en", label: "English", dir: "ltr" },
+  { value: "ar", label: "العربية", dir: "rtl" },
+  { value: "he", label: "עברית", dir: "rtl" },
+];
+
+const dictionaries: Record<Language, Translations> = { en, ar, he };
+
+export const getDirection = (language: Language): Direction =>
+  language === "en" ? "ltr" : "rtl";
+
+export const isTranslationKey = (value: string): value is TranslationKey =>
+  value in en;
+
+/**
+ * Looks up a key in the given language, falling back to English
+ * @param language - Target language
+ * @param key - Translation key, e.g. "nav.users"
+ * @param params - Values for {placeholders} in the message
+ */
+export const translate = (
+  language: Language,
+  key: TranslationKey,
+  params?: TranslationParams
+): string => {
+  const message = dictionaries[language]?.[key] || en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+// Translates in the language currently selected in the header switcher
+export const t = (key: TranslationKey, params?: TranslationParams) =>
+  translate(useLanguageStore.getState().language, key, params);
+
+/**
+ * Translates a validation message when it is a translation key and leaves
+ * any other text (e.g. a server error) untouched
+ */
+export const translateMessage = (language: Language, message: string) =>
+  isTranslationKey(message) ? translate(language, message) : message;
+
+/**
+ * Zod error map that translates the messages of built-in checks. Custom
+ * messages passed to a schema are kept as-is, so a schema can pass a
+ * translation key and let FormMessage resolve it at render time.
+ */
+const zodErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  if (issue.message) return { message: issue.message };
+
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === "undefined" || issue.received === "null") {
+        return { message: t("validation.required") };
+      }
+      if (issue.expected === "number") {
+        return { message: t("validation.number") };
+      }
+      if (issue.expected === "date") {
+        return { message: t("validation.date") };
+      }
+      break;
+    case z.ZodIssueCode.too_small:
+      if (issue.type === "string") {
+        return {
+          message:
+            Number(issue.minimum) <= 1
+              ? t("validation.required")
+              : t("validation.minLength", { min: Number(issue.minimum) }),
+        };
+      }
+      if (issue.type === "array") {
+        return { message: t("validation.minItems", { min: Number(issue.minimum) }) };
+      }
+      if (issue.type === "number") {
+        return { message: t("validation.min", { min: Number(issue.minimum) }) };
+      }
+      break;
+    case z.ZodIssueCode.too_big:
+      if (issue.type === "string") {
+        return { message: t("validation.maxLength", { max: Number(issue.maximum) }) };
+      }
+      if (issue.type === "number") {
+        return { message: t("validation.max", { max: Number(issue.maximum) }) };
+      }
+      break;
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === "email") {
+        return { message: t("validation.email") };
+      }
+      if (issue.validation === "url") {
+        return { message: t("validation.url") };
+      }
+      break;
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: t("validation.option") };
+    case z.ZodIssueCode.invalid_date:
+      return { message: t("validation.date") };
+  }
+
+  return { message: ctx.defaultError || t("validation.invalid") };
+};
+
+export const installZodErrorMap = () => {
+  z.setErrorMap(zodErrorMap);
+};
@@ -0,0 +1,81 @@
+/**
+ * Audit Log Utilities
+ *
+ * Labels for audit actions and entities, and the field-level diff shown
+ * when inspecting an entry's before/after snapshots.
+ */
+
+import type { TranslationKey } from "@/i18n";
+import type { AuditAction, AuditEntityType, AuditLogEntry } from "@/types/api";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, TranslationKey> = {
+  update: "auditLog.actionUpdate",
+  delete: "auditLog.actionDelete",
+  hard_delete: "auditLog.actionHardDelete",
+  refund: "auditLog.actionRefund",
+  cancel: "auditLog.actionCancel",
+  block: "auditLog.actionBlock",
+  unblock: "auditLog.actionUnblock",
+  remove_device: "auditLog.actionRemoveDevice",
+  reset_progress: "auditLog.actionResetProgress",
+  delete_progress: "auditLog.actionDeleteProgress",
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, TranslationKey> = {
+  admin: "auditLog.entityAdmin",
+  role: "auditLog.entityRole",
+  user: "auditLog.entityUser",
+  university: "auditLog.entityUniversity",
+  faculty: "auditLog.entityFaculty",
+  enrollment: "auditLog.entityEnrollment",
+  progress: "auditLog.entityProgress",
+  videoLibrary: "auditLog.entityVideoLibrary",
+};
+
+// Destructive actions are highlighted in the log
+export const DESTRUCTIVE_AUDIT_ACTIONS: AuditAction[] = [
+  "delete",
+  "hard_delete",
+  "refund",
+  "cancel",
+  "block",
+  "reset_progress",
+  "delete_progress",
+];
+
+export interface AuditDiffRow {
+  field: string;
+  before: unknown;
+  after: unknown;
+  changed: boolean;
+}
+
+// Fields that only add noise to a diff
+const IGNORED_FIELDS = new Set(["_id", "__v", "createdAt", "updatedAt"]);
+
+/**
+ * Lines up the before and after snapshots field by field. Deletions have
+ * no "after" snapshot, so every recorded field shows as removed.
+ */
+export const buildAuditDiff = (
+  entry: Pick<AuditLogEntry, "before" | "after">
+): AuditDiffRow[] => {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .map((field) => ({
+      field,
+      before: before[field],
+      after: after[field],
+      changed: JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+    }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+};
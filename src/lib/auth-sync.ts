@@ -0,0 +1,49 @@
+/**
+ * Cross-tab Auth Sync
+ *
+ * Propagates login/logout between open dashboard tabs. Uses a
+ * BroadcastChannel when available and falls back to `storage` events
+ * on the shared `admin_token` key for older browsers.
+ */
+
+export type AuthSyncEvent = "login" | "logout";
+
+const CHANNEL_NAME = "admin-auth";
+const TOKEN_KEY = "admin_token";
+
+const channel =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(CHANNEL_NAME)
+    : null;
+
+/**
+ * Notifies every other tab about an auth change in this tab
+ * @param event - "login" or "logout"
+ */
+export const broadcastAuthEvent = (event: AuthSyncEvent): void => {
+  channel?.postMessage(event);
+};
+
+/**
+ * Subscribes to auth changes made in other tabs
+ * @param listener - Called with the event type
+ * @returns Unsubscribe function
+ */
+export const subscribeToAuthEvents = (
+  listener: (event: AuthSyncEvent) => void
+): (() => void) => {
+  if (channel) {
+    const handleMessage = (message: MessageEvent<AuthSyncEvent>) => {
+      listener(message.data);
+    };
+    channel.addEventListener("message", handleMessage);
+    return () => channel.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== TOKEN_KEY) return;
+    listener(event.newValue ? "login" : "logout");
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
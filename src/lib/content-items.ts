@@ -0,0 +1,18 @@
+/**
+ * Content Items
+ *
+ * A free course section holds files, videos and quizzes. The pages list them
+ * with a badge of their type, in the language of the dashboard.
+ */
+
+import type { TranslationKey } from "@/i18n";
+import type { ContentItemType } from "@/types/api";
+
+export const CONTENT_ITEM_TYPE_LABELS: Record<
+  ContentItemType,
+  TranslationKey
+> = {
+  file: "contentItems.typeFile",
+  video: "contentItems.typeVideo",
+  quiz: "contentItems.typeQuiz",
+};
@@ -0,0 +1,42 @@
+import { endOfDay, format, parseISO, startOfDay, subDays, subMonths } from "date-fns";
+import type { TranslationKey } from "@/i18n";
+
+export interface DateRange {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+}
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+export const DATE_RANGE_PRESETS: {
+  value: string;
+  label: TranslationKey;
+  from: (today: Date) => Date;
+}[] = [
+  { value: "7d", label: "dateRange.last7Days", from: (today) => subDays(today, 6) },
+  { value: "30d", label: "dateRange.last30Days", from: (today) => subDays(today, 29) },
+  { value: "90d", label: "dateRange.last90Days", from: (today) => subDays(today, 89) },
+  { value: "12m", label: "dateRange.last12Months", from: (today) => subMonths(today, 12) },
+];
+
+/**
+ * Builds a range ending today for one of the preset keys
+ * @param preset - Preset key (e.g. "7d", "30d"), defaults to the last 30 days
+ */
+export const getPresetRange = (preset: string): DateRange => {
+  const today = new Date();
+  const match =
+    DATE_RANGE_PRESETS.find((p) => p.value === preset) || DATE_RANGE_PRESETS[1];
+  return {
+    startDate: format(match.from(today), DATE_FORMAT),
+    endDate: format(today, DATE_FORMAT),
+  };
+};
+
+/**
+ * Converts a yyyy-MM-dd range into full-day ISO timestamps for API filters
+ */
+export const toApiDateRange = (range: DateRange) => ({
+  startDate: startOfDay(parseISO(range.startDate)).toISOString(),
+  endDate: endOfDay(parseISO(range.endDate)).toISOString(),
+});
@@ -0,0 +1,183 @@
+/**
+ * Enrollment Analytics Utilities
+ *
+ * Helpers that turn a flat list of enrollments into the series consumed
+ * by the analytics charts (time buckets, currency and status breakdowns).
+ */
+
+import {
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import type { TranslationKey } from "@/i18n";
+import type { Enrollment } from "@/types/api";
+
+export type Granularity = "day" | "week" | "month";
+
+export type EnrollmentCurrency = Enrollment["currency"];
+export type PaymentStatus = Enrollment["paymentStatus"];
+
+export const CURRENCIES: EnrollmentCurrency[] = ["usd", "eur", "gbp", "aed"];
+
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  "completed",
+  "pending",
+  "failed",
+  "refunded",
+  "cancelled",
+];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, TranslationKey> = {
+  completed: "enrollments.completed",
+  pending: "enrollments.pending",
+  failed: "enrollments.failed",
+  refunded: "enrollments.refunded",
+  cancelled: "enrollments.cancelled",
+};
+
+export type AccessType = "fullCourse" | "individualTopic";
+
+export const ACCESS_TYPE_LABELS: Record<AccessType, TranslationKey> = {
+  fullCourse: "enrollments.fullCourse",
+  individualTopic: "enrollments.individualTopics",
+};
+
+export interface TimeSeriesPoint {
+  key: string;
+  label: string;
+  enrollments: number;
+  fullCourse: number;
+  individualTopic: number;
+  revenue: Record<EnrollmentCurrency, number>;
+}
+
+const bucketStart = (date: Date, granularity: Granularity): Date => {
+  switch (granularity) {
+    case "week":
+      return startOfWeek(date, { weekStartsOn: 1 });
+    case "month":
+      return startOfMonth(date);
+    default:
+      return startOfDay(date);
+  }
+};
+
+const bucketLabel = (date: Date, granularity: Granularity): string => {
+  switch (granularity) {
+    case "week":
+      // The page words it as "Week of ..." in the selected language
+      return format(date, "MMM dd");
+    case "month":
+      return format(date, "MMM yyyy");
+    default:
+      return format(date, "MMM dd");
+  }
+};
+
+const bucketsInRange = (
+  start: Date,
+  end: Date,
+  granularity: Granularity
+): Date[] => {
+  if (start > end) return [];
+  switch (granularity) {
+    case "week":
+      return eachWeekOfInterval({ start, end }, { weekStartsOn: 1 });
+    case "month":
+      return eachMonthOfInterval({ start, end });
+    default:
+      return eachDayOfInterval({ start, end });
+  }
+};
+
+const emptyRevenue = (): Record<EnrollmentCurrency, number> => ({
+  usd: 0,
+  eur: 0,
+  gbp: 0,
+  aed: 0,
+});
+
+/**
+ * Groups enrollments into day/week/month buckets between start and end.
+ * Empty buckets are kept so the charts show gaps as zeros. Revenue only
+ * counts completed payments, split by the enrollment currency.
+ */
+export const buildEnrollmentTimeSeries = (
+  enrollments: Enrollment[],
+  granularity: Granularity,
+  start: Date,
+  end: Date
+): TimeSeriesPoint[] => {
+  const points = new Map<string, TimeSeriesPoint>();
+
+  for (const date of bucketsInRange(start, end, granularity)) {
+    const bucket = bucketStart(date, granularity);
+    const key = bucket.toISOString();
+    points.set(key, {
+      key,
+      label: bucketLabel(bucket, granularity),
+      enrollments: 0,
+      fullCourse: 0,
+      individualTopic: 0,
+      revenue: emptyRevenue(),
+    });
+  }
+
+  for (const enrollment of enrollments) {
+    const key = bucketStart(
+      new Date(enrollment.createdAt),
+      granularity
+    ).toISOString();
+    const point = points.get(key);
+    if (!point) continue;
+
+    point.enrollments += 1;
+    if (enrollment.fullAccess) {
+      point.fullCourse += 1;
+    } else {
+      point.individualTopic += 1;
+    }
+
+    if (enrollment.paymentStatus === "completed") {
+      const currency = enrollment.currency || "usd";
+      point.revenue[currency] =
+        (point.revenue[currency] || 0) + (enrollment.finalAmount || 0);
+    }
+  }
+
+  return Array.from(points.values());
+};
+
+// Number of enrollments per payment status
+export const getPaymentStatusBreakdown = (enrollments: Enrollment[]) =>
+  PAYMENT_STATUSES.map((status) => ({
+    status,
+    count: enrollments.filter((e) => e.paymentStatus === status).length,
+  })).filter((entry) => entry.count > 0);
+
+// Full course vs individual topic purchases
+export const getAccessTypeBreakdown = (
+  enrollments: Enrollment[]
+): { type: AccessType; count: number }[] => {
+  const fullCourse = enrollments.filter((e) => e.fullAccess).length;
+  return [
+    { type: "fullCourse", count: fullCourse },
+    { type: "individualTopic", count: enrollments.length - fullCourse },
+  ];
+};
+
+// Completed revenue totals per currency
+export const getRevenueByCurrency = (enrollments: Enrollment[]) => {
+  const totals = emptyRevenue();
+  for (const enrollment of enrollments) {
+    if (enrollment.paymentStatus !== "completed") continue;
+    const currency = enrollment.currency || "usd";
+    totals[currency] = (totals[currency] || 0) + (enrollment.finalAmount || 0);
+  }
+  return totals;
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { buildCsv } from "./export";
+
+const readCsv = async (blob: Blob) => (await blob.text()).replace(/^\uFEFF/, "");
+
+describe("buildCsv", () => {
+  it("quotes values with commas, quotes and line breaks", async () => {
+    const csv = await readCsv(buildCsv(["name"], [['Smith, "Jo"'], ["a\nb"]]));
+    expect(csv).toBe('name\r\n"Smith, ""Jo"""\r\n"a\nb"');
+  });
+
+  it.each(["=1+1", "+1", "-1+1", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "prefixes text that would run as a formula: %j",
+    async (value) => {
+      const csv = await readCsv(buildCsv(["name"], [[value]]));
+      expect(csv.split("\r\n")[1].replace(/^"|"$/g, "")).toBe(`'${value}`);
+    }
+  );
+
+  it("leaves numbers and plain text as they are", async () => {
+    const csv = await readCsv(buildCsv(["a", "b", "c"], [[-5, "Sara", null]]));
+    expect(csv).toBe("a,b,c\r\n-5,Sara,");
+  });
+});
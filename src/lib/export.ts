@@ -0,0 +1,100 @@
+/**
+ * Export Utilities
+ *
+ * Column definitions and the CSV/XLSX writers used by the export dialog.
+ * Multilingual values ({ en, ar, he }) are resolved to the chosen language
+ * and fall back to English when a translation is missing.
+ */
+
+import { format } from "date-fns";
+import { translate, type TranslationKey } from "@/i18n";
+import { buildXlsx, type XlsxCell } from "@/lib/xlsx";
+import { resolveLocalizedText, type LocalizedValue } from "@/lib/localized-text";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportLanguage = "en" | "ar" | "he";
+
+export const EXPORT_LANGUAGES: { value: ExportLanguage; label: TranslationKey }[] = [
+  { value: "en", label: "language.en" },
+  { value: "ar", label: "language.ar" },
+  { value: "he", label: "language.he" },
+];
+
+export interface ExportColumn<T> {
+  key: string;
+  // Header, written in the export language
+  label: TranslationKey;
+  value: (row: T, language: ExportLanguage) => XlsxCell;
+  // Columns are pre-selected unless this is false
+  defaultSelected?: boolean;
+}
+
+/**
+ * Resolves a plain or multilingual value to one language
+ * @param value - A string or { en, ar, he } object
+ * @param language - Preferred language, English is the fallback
+ */
+export const localize = (
+  value: LocalizedValue,
+  language: ExportLanguage
+): string => resolveLocalizedText(value, [language, "en"]);
+
+export const formatExportDate = (value?: string | Date | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd HH:mm") : "";
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: XlsxCell) => {
+  if (value === null || value === undefined) return "";
+  // Quote user-entered text that would otherwise be evaluated on open
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a UTF-8 CSV file. The byte order mark lets Excel detect the
+ * encoding so Arabic and Hebrew names open correctly.
+ */
+export const buildCsv = (header: string[], rows: XlsxCell[][]): Blob => {
+  const lines = [header, ...rows].map((row) => row.map(escapeCsv).join(","));
+  return new Blob(["\uFEFF" + lines.join("\r\n")], {
+    type: "text/csv;charset=utf-8",
+  });
+};
+
+export const buildExportFile = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  options: { format: ExportFormat; language: ExportLanguage; sheetName: string }
+): Blob => {
+  const header = columns.map((column) =>
+    translate(options.language, column.label)
+  );
+  const values = rows.map((row) =>
+    columns.map((column) => column.value(row, options.language))
+  );
+  return options.format === "xlsx"
+    ? buildXlsx(options.sheetName, header, values)
+    : buildCsv(header, values);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// e.g. "users-2025-01-31.xlsx"
+export const getExportFilename = (name: string, exportFormat: ExportFormat) =>
+  `${name}-${format(new Date(), "yyyy-MM-dd")}.${exportFormat}`;
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import type { LessonProgress, Progress, VideoProgress } from "@/types/api";
+import {
+  buildLessonVideoAnalytics,
+  createLessonVideoAnalyticsBuilder,
+} from "./lesson-video-analytics";
+
+const LESSON_ID = "lesson-1";
+
+const video = (overrides: Partial<VideoProgress> = {}): VideoProgress => ({
+  lessonId: LESSON_ID,
+  videoType: "main",
+  watchedDuration: 60,
+  totalDuration: 100,
+  lastWatchedPosition: 100,
+  completionPercentage: 100,
+  isCompleted: true,
+  watchCount: 1,
+  firstWatchedAt: "2024-01-01T00:00:00.000Z",
+  lastWatchedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const lesson = (overrides: Partial<LessonProgress> = {}): LessonProgress => ({
+  lessonId: LESSON_ID,
+  isCompleted: false,
+  timeSpent: 0,
+  videosProgress: [],
+  firstAccessedAt: "2024-01-01T00:00:00.000Z",
+  lastAccessedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+// Only the topic and lesson progress matter to the analytics
+const record = (...lessons: LessonProgress[]) =>
+  ({
+    topicsProgress: [{ topicId: "topic-1", lessonsProgress: lessons }],
+  }) as unknown as Progress;
+
+describe("buildLessonVideoAnalytics", () => {
+  it("returns zeros and empty buckets without records", () => {
+    const analytics = buildLessonVideoAnalytics([], LESSON_ID);
+
+    expect(analytics).toMatchObject({
+      students: 0,
+      viewers: 0,
+      completedLessons: 0,
+      averageCompletion: 0,
+      rewatchRate: 0,
+      averageTimeSpent: 0,
+    });
+    expect(analytics.dropOff).toHaveLength(10);
+    expect(analytics.dropOff[0]).toEqual({
+      label: "0–10%",
+      from: 0,
+      to: 10,
+      main: 0,
+      gvo: 0,
+      vvt: 0,
+    });
+  });
+
+  it("counts every student but only those who played a video as viewers", () => {
+    const analytics = buildLessonVideoAnalytics(
+      [
+        record(lesson({ isCompleted: true, timeSpent: 120, videosProgress: [video()] })),
+        // Opened the lesson without playing anything
+        record(lesson({ videosProgress: [video({ watchCount: 0, watchedDuration: 0 })] })),
+        // Never reached this lesson
+        record(lesson({ lessonId: "lesson-2", videosProgress: [video()] })),
+      ],
+      LESSON_ID
+    );
+
+    expect(analytics.students).toBe(3);
+    expect(analytics.viewers).toBe(1);
+    expect(analytics.completedLessons).toBe(1);
+    expect(analytics.averageTimeSpent).toBe(120);
+  });
+
+  it("takes each viewer's furthest track and counts rewatchers once", () => {
+    const analytics = buildLessonVideoAnalytics(
+      [
+        record(
+          lesson({
+            videosProgress: [
+              video({ completionPercentage: 30, isCompleted: false, watchCount: 2 }),
+              video({ videoType: "gvo", completionPercentage: 80, isCompleted: false, watchCount: 3 }),
+            ],
+          })
+        ),
+        record(lesson({ videosProgress: [video({ completionPercentage: 40, isCompleted: false })] })),
+      ],
+      LESSON_ID
+    );
+
+    expect(analytics.averageCompletion).toBe(60);
+    expect(analytics.rewatchRate).toBe(50);
+  });
+
+  it("clamps completion percentages to 0-100", () => {
+    const analytics = buildLessonVideoAnalytics(
+      [
+        record(lesson({ videosProgress: [video({ completionPercentage: 140 })] })),
+        record(lesson({ videosProgress: [video({ completionPercentage: -20, watchedDuration: 5 })] })),
+      ],
+      LESSON_ID
+    );
+
+    expect(analytics.averageCompletion).toBe(50);
+  });
+
+  it("reports usage per recording", () => {
+    const analytics = buildLessonVideoAnalytics(
+      [
+        record(
+          lesson({
+            videosProgress: [
+              video({ watchCount: 2, watchedDuration: 100 }),
+              video({ videoType: "vvt", completionPercentage: 50, isCompleted: false, watchedDuration: 30 }),
+            ],
+          })
+        ),
+        record(lesson({ videosProgress: [video({ completionPercentage: 60, isCompleted: false, watchedDuration: 40 })] })),
+      ],
+      LESSON_ID
+    );
+
+    expect(analytics.usage).toEqual([
+      {
+        type: "main",
+        viewers: 2,
+        completed: 1,
+        rewatchers: 1,
+        averageCompletion: 80,
+        averageWatchCount: 1.5,
+        totalWatchedDuration: 140,
+      },
+      {
+        type: "gvo",
+        viewers: 0,
+        completed: 0,
+        rewatchers: 0,
+        averageCompletion: 0,
+        averageWatchCount: 0,
+        totalWatchedDuration: 0,
+      },
+      {
+        type: "vvt",
+        viewers: 1,
+        completed: 0,
+        rewatchers: 0,
+        averageCompletion: 50,
+        averageWatchCount: 1,
+        totalWatchedDuration: 30,
+      },
+    ]);
+  });
+
+  it("buckets unfinished views by where they stopped", () => {
+    const analytics = buildLessonVideoAnalytics(
+      [
+        record(lesson({ videosProgress: [video({ isCompleted: false, lastWatchedPosition: 45 })] })),
+        record(lesson({ videosProgress: [video({ videoType: "gvo", isCompleted: false, lastWatchedPosition: 45 })] })),
+        // Stopped right at the end without being marked complete
+        record(lesson({ videosProgress: [video({ isCompleted: false, lastWatchedPosition: 100 })] })),
+        // Finished views and unknown lengths are left out
+        record(lesson({ videosProgress: [video({ lastWatchedPosition: 20 })] })),
+        record(lesson({ videosProgress: [video({ isCompleted: false, totalDuration: 0 })] })),
+      ],
+      LESSON_ID
+    );
+
+    const counts = analytics.dropOff.map(({ main, gvo, vvt }) => [main, gvo, vvt]);
+    expect(counts[4]).toEqual([1, 1, 0]);
+    expect(counts[9]).toEqual([1, 0, 0]);
+    expect(counts.flat().reduce((sum, count) => sum + count, 0)).toBe(3);
+  });
+
+  it("finds the lesson in any topic", () => {
+    const progress = {
+      topicsProgress: [
+        { topicId: "topic-1", lessonsProgress: [] },
+        { topicId: "topic-2", lessonsProgress: [lesson({ videosProgress: [video()] })] },
+      ],
+    } as unknown as Progress;
+
+    expect(buildLessonVideoAnalytics([progress], LESSON_ID).viewers).toBe(1);
+  });
+});
+
+describe("createLessonVideoAnalyticsBuilder", () => {
+  it("gives the same result whether records arrive at once or by page", () => {
+    const records = [
+      record(lesson({ isCompleted: true, timeSpent: 90, videosProgress: [video({ watchCount: 2 })] })),
+      record(lesson({ videosProgress: [video({ isCompleted: false, lastWatchedPosition: 15, completionPercentage: 15 })] })),
+      record(lesson({ lessonId: "lesson-2" })),
+    ];
+
+    const builder = createLessonVideoAnalyticsBuilder(LESSON_ID);
+    builder.add(records.slice(0, 2));
+    builder.add(records.slice(2));
+
+    expect(builder.build()).toEqual(buildLessonVideoAnalytics(records, LESSON_ID));
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Lesson Video Analytics
+ *
+ * Aggregates the per-student VideoProgress of one lesson across a course's
+ * progress records: how far students get, where the ones who stop leave the
+ * video, how often they come back and which of the main, GVO and VVT
+ * recordings they watch. Records can be added a page at a time, so a large
+ * course is aggregated in full without keeping every record in memory.
+ */
+
+import type { Progress, VideoProgress, VideoType } from "@/types/api";
+
+export const VIDEO_TYPES: VideoType[] = ["main", "gvo", "vvt"];
+
+export const DROP_OFF_BUCKET_SIZE = 10; // percent of the video
+
+export interface VideoTypeUsage {
+  type: VideoType;
+  viewers: number;
+  completed: number;
+  rewatchers: number;
+  averageCompletion: number;
+  averageWatchCount: number;
+  totalWatchedDuration: number;
+}
+
+export interface DropOffBucket {
+  label: string;
+  from: number;
+  to: number;
+  main: number;
+  gvo: number;
+  vvt: number;
+}
+
+export interface LessonVideoAnalytics {
+  // Students with a progress record in the course
+  students: number;
+  viewers: number;
+  completedLessons: number;
+  // Per viewer, the furthest any of their tracks got
+  averageCompletion: number;
+  // Viewers who played at least one track more than once
+  rewatchRate: number;
+  averageTimeSpent: number;
+  usage: VideoTypeUsage[];
+  // Where unfinished views stopped, by position in the video
+  dropOff: DropOffBucket[];
+}
+
+const average = (sum: number, count: number) => (count ? sum / count : 0);
+
+const clampPercentage = (value: number) => Math.min(100, Math.max(0, value || 0));
+
+const findLessonProgress = (progress: Progress, lessonId: string) => {
+  for (const topic of progress.topicsProgress || []) {
+    const lesson = topic.lessonsProgress?.find((item) => item.lessonId === lessonId);
+    if (lesson) return lesson;
+  }
+  return undefined;
+};
+
+const createDropOffBuckets = (): DropOffBucket[] =>
+  Array.from({ length: 100 / DROP_OFF_BUCKET_SIZE }, (_, index) => {
+    const from = index * DROP_OFF_BUCKET_SIZE;
+    const to = from + DROP_OFF_BUCKET_SIZE;
+    return { label: `${from}–${to}%`, from, to, main: 0, gvo: 0, vvt: 0 };
+  });
+
+// Position the student left the video at, as a percentage of its length
+const getStopPercentage = (video: VideoProgress) =>
+  video.totalDuration > 0
+    ? clampPercentage((video.lastWatchedPosition / video.totalDuration) * 100)
+    : null;
+
+interface TrackTotals {
+  viewers: number;
+  completed: number;
+  rewatchers: number;
+  completionSum: number;
+  watchCountSum: number;
+  watchedDuration: number;
+}
+
+const createTrackTotals = (): TrackTotals => ({
+  viewers: 0,
+  completed: 0,
+  rewatchers: 0,
+  completionSum: 0,
+  watchCountSum: 0,
+  watchedDuration: 0,
+});
+
+/**
+ * Running totals for one lesson. add() folds in a page of progress records
+ * and build() returns the analytics of everything added so far.
+ */
+export const createLessonVideoAnalyticsBuilder = (lessonId: string) => {
+  const dropOff = createDropOffBuckets();
+  const tracks: Record<VideoType, TrackTotals> = {
+    main: createTrackTotals(),
+    gvo: createTrackTotals(),
+    vvt: createTrackTotals(),
+  };
+  let students = 0;
+  let viewers = 0;
+  let completedLessons = 0;
+  let rewatchers = 0;
+  let completionSum = 0;
+  let timeSpentSum = 0;
+
+  const add = (records: Progress[]) => {
+    for (const record of records) {
+      students++;
+      const lesson = findLessonProgress(record, lessonId);
+      if (!lesson) continue;
+      if (lesson.isCompleted) completedLessons++;
+
+      const videos = (lesson.videosProgress || []).filter(
+        (video) => video.watchCount > 0 || video.watchedDuration > 0
+      );
+      if (!videos.length) continue;
+
+      viewers++;
+      timeSpentSum += lesson.timeSpent || 0;
+      completionSum += Math.max(
+        ...videos.map((video) => clampPercentage(video.completionPercentage))
+      );
+      if (videos.some((video) => video.watchCount > 1)) rewatchers++;
+
+      for (const video of videos) {
+        if (!VIDEO_TYPES.includes(video.videoType)) continue;
+        const track = tracks[video.videoType];
+        track.viewers++;
+        if (video.isCompleted) track.completed++;
+        if (video.watchCount > 1) track.rewatchers++;
+        track.completionSum += clampPercentage(video.completionPercentage);
+        track.watchCountSum += video.watchCount;
+        track.watchedDuration += video.watchedDuration || 0;
+
+        const stoppedAt = video.isCompleted ? null : getStopPercentage(video);
+        if (stoppedAt === null) continue;
+        const index = Math.min(
+          dropOff.length - 1,
+          Math.floor(stoppedAt / DROP_OFF_BUCKET_SIZE)
+        );
+        dropOff[index][video.videoType]++;
+      }
+    }
+  };
+
+  const build = (): LessonVideoAnalytics => ({
+    students,
+    viewers,
+    completedLessons,
+    averageCompletion: average(completionSum, viewers),
+    rewatchRate: viewers ? (rewatchers / viewers) * 100 : 0,
+    averageTimeSpent: average(timeSpentSum, viewers),
+    usage: VIDEO_TYPES.map((type): VideoTypeUsage => {
+      const track = tracks[type];
+      return {
+        type,
+        viewers: track.viewers,
+        completed: track.completed,
+        rewatchers: track.rewatchers,
+        averageCompletion: average(track.completionSum, track.viewers),
+        averageWatchCount: average(track.watchCountSum, track.viewers),
+        totalWatchedDuration: track.watchedDuration,
+      };
+    }),
+    dropOff: dropOff.map((bucket) => ({ ...bucket })),
+  });
+
+  return { add, build };
+};
+
+export const buildLessonVideoAnalytics = (
+  records: Progress[],
+  lessonId: string
+): LessonVideoAnalytics => {
+  const builder = createLessonVideoAnalyticsBuilder(lessonId);
+  builder.add(records);
+  return builder.build();
+};
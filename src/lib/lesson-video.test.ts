@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { VideoForSelect } from "@/types/api";
+import { getLessonVideoSource, getPresignedUrlExpiry } from "./lesson-video";
+
+const BUCKET_URL = "https://bucket.s3.amazonaws.com/videos/lecture.mp4";
+
+describe("getPresignedUrlExpiry", () => {
+  it("adds X-Amz-Expires to X-Amz-Date for SigV4 URLs", () => {
+    const url = `${BUCKET_URL}?X-Amz-Algorithm=AWS4-HMAC-SHA256&X-Amz-Date=20240131T120000Z&X-Amz-Expires=3600&X-Amz-Signature=abc`;
+    expect(getPresignedUrlExpiry(url)?.toISOString()).toBe(
+      "2024-01-31T13:00:00.000Z"
+    );
+  });
+
+  it("reads the Expires timestamp of SigV2 URLs", () => {
+    const url = `${BUCKET_URL}?AWSAccessKeyId=key&Expires=1706702400&Signature=abc`;
+    expect(getPresignedUrlExpiry(url)?.toISOString()).toBe(
+      "2024-01-31T12:00:00.000Z"
+    );
+  });
+
+  it("returns null for malformed SigV4 dates and lifetimes", () => {
+    expect(
+      getPresignedUrlExpiry(`${BUCKET_URL}?X-Amz-Date=2024-01-31&X-Amz-Expires=3600`)
+    ).toBeNull();
+    expect(
+      getPresignedUrlExpiry(
+        `${BUCKET_URL}?X-Amz-Date=20240131T120000Z&X-Amz-Expires=soon`
+      )
+    ).toBeNull();
+  });
+
+  it("returns null for malformed SigV2 timestamps", () => {
+    expect(getPresignedUrlExpiry(`${BUCKET_URL}?Expires=tomorrow`)).toBeNull();
+  });
+
+  it("returns null for unsigned and unparsable URLs", () => {
+    expect(getPresignedUrlExpiry(BUCKET_URL)).toBeNull();
+    expect(getPresignedUrlExpiry("videos/lecture.mp4")).toBeNull();
+  });
+});
+
+describe("getLessonVideoSource", () => {
+  const library: VideoForSelect[] = [
+    { id: "video-1", name: "Lecture", videoUrl: BUCKET_URL },
+  ];
+
+  it("returns nothing for an empty slot", () => {
+    expect(getLessonVideoSource(undefined, library)).toBeUndefined();
+    expect(getLessonVideoSource("", library)).toBeUndefined();
+  });
+
+  it("uses a populated library video as is", () => {
+    expect(
+      getLessonVideoSource(
+        { id: "video-2", name: "Recap", videoUrl: "https://signed/recap" },
+        library
+      )
+    ).toEqual({ videoId: "video-2", name: "Recap", url: "https://signed/recap" });
+  });
+
+  it("matches a stored URL against the library", () => {
+    expect(getLessonVideoSource(BUCKET_URL, library)).toEqual({
+      videoId: "video-1",
+      name: "Lecture",
+      url: BUCKET_URL,
+    });
+  });
+
+  it("keeps a stored URL that is not in the library", () => {
+    expect(getLessonVideoSource("https://cdn.example.com/other.mp4", library)).toEqual({
+      videoId: undefined,
+      name: undefined,
+      url: "https://cdn.example.com/other.mp4",
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Lesson Video
+ *
+ * A lesson has up to three recordings (main, GVO, VVT). Each slot holds either
+ * the stored video URL or, when populated, the library video with a presigned
+ * URL. These helpers normalise the slots for the preview player and check
+ * whether a URL can still be played.
+ */
+
+import { t, type TranslationKey } from "@/i18n";
+import type { Lesson, VideoForSelect, VideoType } from "@/types/api";
+
+export interface LessonVideoSource {
+  videoId?: string; // library video, used to sign a fresh URL
+  name?: string;
+  url?: string; // the URL a student is served
+}
+
+export type LessonVideoTracks = Partial<Record<VideoType, LessonVideoSource>>;
+
+export const LESSON_VIDEO_TRACKS: {
+  type: VideoType;
+  field: "main_recording_url" | "recording_gvo_url" | "recording_vvt_url";
+  label: TranslationKey;
+}[] = [
+  { type: "main", field: "main_recording_url", label: "lessonVideo.main" },
+  { type: "gvo", field: "recording_gvo_url", label: "lessonVideo.gvo" },
+  { type: "vvt", field: "recording_vvt_url", label: "lessonVideo.vvt" },
+];
+
+const LOAD_TIMEOUT = 20 * 1000; // 20 seconds
+
+export const isPlayableUrl = (url: string | undefined): url is string =>
+  !!url && /^(https?:|blob:)/.test(url);
+
+/**
+ * Resolves a lesson recording slot, matching stored URLs against the library
+ * so the video can be re-signed when its URL no longer plays
+ */
+export const getLessonVideoSource = (
+  value: Lesson["main_recording_url"] | undefined,
+  videos: VideoForSelect[] = []
+): LessonVideoSource | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "object") {
+    return { videoId: value.id, name: value.name, url: value.videoUrl };
+  }
+  const video = videos.find((item) => item.videoUrl === value);
+  return { videoId: video?.id, name: video?.name, url: value };
+};
+
+export const getLessonVideoTracks = (
+  lesson: Lesson,
+  videos: VideoForSelect[] = []
+): LessonVideoTracks =>
+  Object.fromEntries(
+    LESSON_VIDEO_TRACKS.map(({ type, field }) => [
+      type,
+      getLessonVideoSource(lesson[field], videos),
+    ])
+  );
+
+/**
+ * Expiry of an S3 presigned URL (SigV4 X-Amz-Date + X-Amz-Expires, or the
+ * SigV2 Expires timestamp); null for URLs that do not expire
+ */
+export const getPresignedUrlExpiry = (url: string): Date | null => {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+
+  const amzDate = params.get("X-Amz-Date");
+  const amzExpires = params.get("X-Amz-Expires");
+  if (amzDate && amzExpires) {
+    // Format: 20240131T120000Z
+    const match = amzDate.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    if (!match || !/^\d+$/.test(amzExpires)) return null;
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    const signedAt = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    return new Date(signedAt + Number(amzExpires) * 1000);
+  }
+
+  const expires = params.get("Expires");
+  return expires && /^\d+$/.test(expires)
+    ? new Date(Number(expires) * 1000)
+    : null;
+};
+
+/**
+ * Loads a video URL's metadata in a detached <video> element and resolves
+ * with its duration, rejecting when the browser cannot load it
+ */
+export const probeVideoUrl = (url: string) =>
+  new Promise<{ duration: number }>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+
+    const cleanup = () => {
+      window.clearTimeout(timeout);
+      video.removeAttribute("src");
+      video.load();
+    };
+    const timeout = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(t("lessonVideo.loadTimeout")));
+    }, LOAD_TIMEOUT);
+
+    video.addEventListener(
+      "loadedmetadata",
+      () => {
+        const duration = Number.isFinite(video.duration) ? video.duration : 0;
+        cleanup();
+        resolve({ duration });
+      },
+      { once: true }
+    );
+    video.addEventListener(
+      "error",
+      () => {
+        const message = getMediaErrorMessage(video.error);
+        cleanup();
+        reject(new Error(message));
+      },
+      { once: true }
+    );
+
+    video.src = url;
+  });
+
+export const getMediaErrorMessage = (error: MediaError | null) => {
+  switch (error?.code) {
+    case MediaError.MEDIA_ERR_ABORTED:
+      return t("lessonVideo.mediaAborted");
+    case MediaError.MEDIA_ERR_NETWORK:
+      return t("lessonVideo.mediaNetwork");
+    case MediaError.MEDIA_ERR_DECODE:
+      return t("lessonVideo.mediaDecode");
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return t("lessonVideo.mediaNotSupported");
+    default:
+      return t("lessonVideo.mediaFailed");
+  }
+};
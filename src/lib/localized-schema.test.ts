@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { localizedTextSchema, toLocalizedTextInput } from "./localized-schema";
+
+describe("localizedTextSchema", () => {
+  const schema = localizedTextSchema({ min: 2, max: 10 });
+
+  it("requires English and leaves the other languages optional", () => {
+    expect(schema.safeParse({ en: "Hi", ar: "", he: "" }).success).toBe(true);
+    expect(schema.safeParse({ en: "", ar: "مرحبا", he: "" }).success).toBe(false);
+  });
+
+  it("applies the length limits to filled translations", () => {
+    const result = schema.safeParse({ en: "Hi", ar: "م", he: "" });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["ar"]);
+  });
+});
+
+describe("toLocalizedTextInput", () => {
+  it("sends blank translations as empty strings so they can be cleared", () => {
+    expect(toLocalizedTextInput({ en: "Intro", ar: "  ", he: "<p><br></p>" })).toEqual(
+      { en: "Intro", ar: "", he: "" }
+    );
+  });
+
+  it("keeps filled translations", () => {
+    expect(toLocalizedTextInput({ en: "Intro", ar: "مقدمة" })).toEqual({
+      en: "Intro",
+      ar: "مقدمة",
+      he: "",
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Localized Field Schemas
+ *
+ * Shared zod builder for { en, ar, he } form values. English is required by
+ * default; Arabic and Hebrew may be left empty, but when filled in they must
+ * respect the same length limits as English. Messages come from the global
+ * zod error map, so they follow the dashboard language.
+ */
+
+import { z } from "zod";
+import { isBlankText } from "@/lib/localized-text";
+
+export interface LocalizedTextSchemaOptions {
+  min?: number;
+  max?: number;
+  // Set to false when the whole field is optional, English included
+  required?: boolean;
+}
+
+const languageTextSchema = ({ min, max }: LocalizedTextSchemaOptions) => {
+  let schema = z.string();
+  if (min) schema = schema.min(min);
+  if (max) schema = schema.max(max);
+  return schema;
+};
+
+const optionalTextSchema = (options: LocalizedTextSchemaOptions) =>
+  languageTextSchema(options).optional().or(z.literal(""));
+
+/**
+ * Builds the schema of a multilingual form field
+ * @example localizedTextSchema({ min: 2, max: 200 })
+ */
+export const localizedTextSchema = (options: LocalizedTextSchemaOptions) => {
+  const required = options.required ?? true;
+  const english = options.min
+    ? languageTextSchema(options)
+    : languageTextSchema(options).min(1);
+
+  return z.object({
+    en: required ? english : optionalTextSchema(options),
+    ar: optionalTextSchema(options),
+    he: optionalTextSchema(options),
+  });
+};
+
+export type LocalizedTextFormValue = z.infer<
+  ReturnType<typeof localizedTextSchema>
+>;
+
+const clearBlank = (text?: string) => (text && !isBlankText(text) ? text : "");
+
+/**
+ * Prepares a form value for the API. Blank translations, including empty
+ * rich text, are sent as empty strings so an update clears them instead of
+ * keeping the previous text.
+ */
+export const toLocalizedTextInput = (value: {
+  en?: string;
+  ar?: string;
+  he?: string;
+}) => ({
+  en: value.en || "",
+  ar: clearBlank(value.ar),
+  he: clearBlank(value.he),
+});
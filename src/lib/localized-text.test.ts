@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { LocalizedText } from "@/types/api";
+import {
+  LOCALIZED_FALLBACK_CHAINS,
+  isBlankText,
+  resolveLocalizedText,
+  toLocalizedText,
+} from "./localized-text";
+
+describe("isBlankText", () => {
+  it("treats missing, whitespace and empty rich text as blank", () => {
+    expect(isBlankText(undefined)).toBe(true);
+    expect(isBlankText("   ")).toBe(true);
+    expect(isBlankText("<p><br></p>")).toBe(true);
+    expect(isBlankText("<p>&nbsp;</p>")).toBe(true);
+    expect(isBlankText("<p>Hi</p>")).toBe(false);
+  });
+});
+
+describe("resolveLocalizedText", () => {
+  const name: LocalizedText = { en: "Anatomy", ar: "علم التشريح", he: "" };
+
+  it("returns plain strings as they are", () => {
+    expect(resolveLocalizedText("Anatomy", LOCALIZED_FALLBACK_CHAINS.he)).toBe(
+      "Anatomy"
+    );
+  });
+
+  it("uses the fallback for blank plain strings", () => {
+    expect(resolveLocalizedText("  ", undefined, "Untitled")).toBe("Untitled");
+    expect(resolveLocalizedText("<p><br></p>", undefined, "Untitled")).toBe(
+      "Untitled"
+    );
+  });
+
+  it("picks the preferred language of a localized object", () => {
+    expect(resolveLocalizedText(name, LOCALIZED_FALLBACK_CHAINS.ar)).toBe(
+      "علم التشريح"
+    );
+  });
+
+  it("skips blank translations along the fallback chain", () => {
+    expect(resolveLocalizedText(name, LOCALIZED_FALLBACK_CHAINS.he)).toBe(
+      "Anatomy"
+    );
+    expect(
+      resolveLocalizedText(
+        { en: "<p></p>", ar: "", he: "<p>מבוא</p>" },
+        LOCALIZED_FALLBACK_CHAINS.ar
+      )
+    ).toBe("<p>מבוא</p>");
+  });
+
+  it("uses the fallback for missing values and objects without text", () => {
+    expect(resolveLocalizedText(undefined, undefined, "File")).toBe("File");
+    expect(resolveLocalizedText(null, undefined, "File")).toBe("File");
+    expect(
+      resolveLocalizedText({ en: " ", ar: "<p><br></p>" }, undefined, "File")
+    ).toBe("File");
+  });
+});
+
+describe("toLocalizedText", () => {
+  it("normalizes plain strings and partial objects into all languages", () => {
+    expect(toLocalizedText("Anatomy")).toEqual({ en: "Anatomy", ar: "", he: "" });
+    expect(toLocalizedText({ en: "Anatomy", ar: "علم التشريح" })).toEqual({
+      en: "Anatomy",
+      ar: "علم التشريح",
+      he: "",
+    });
+    expect(toLocalizedText(undefined)).toEqual({ en: "", ar: "", he: "" });
+  });
+});
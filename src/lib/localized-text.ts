@@ -0,0 +1,60 @@
+/**
+ * Localized Text Utilities
+ *
+ * Resolves multilingual API values ({ en, ar?, he? } or a plain string) to a
+ * single display string. Blank translations are skipped, so a record saved
+ * with an empty Arabic name still shows its English name to Arabic readers.
+ */
+
+import type { Language } from "@/i18n";
+import type { LocalizedText } from "@/types/api";
+
+export type LocalizedValue = LocalizedText | string | null | undefined;
+
+// Languages tried in order for each preferred display language
+export const LOCALIZED_FALLBACK_CHAINS: Record<Language, Language[]> = {
+  en: ["en", "ar", "he"],
+  ar: ["ar", "en", "he"],
+  he: ["he", "en", "ar"],
+};
+
+export const isLocalizedText = (value: unknown): value is LocalizedText =>
+  !!value && typeof value === "object" && "en" in value;
+
+// True when a translation has no visible text; rich-text markup such as an
+// empty "<p><br></p>" paragraph counts as blank
+export const isBlankText = (text: unknown): boolean =>
+  typeof text !== "string" ||
+  !text.replace(/<[^>]*>/g, "").replace(/&nbsp;/g, " ").trim();
+
+/**
+ * Picks the first non-blank translation along the fallback chain
+ * @param value - A plain string or { en, ar, he } object
+ * @param chain - Languages to try, most preferred first
+ * @param fallback - Returned when no language has text
+ */
+export const resolveLocalizedText = (
+  value: LocalizedValue,
+  chain: Language[] = LOCALIZED_FALLBACK_CHAINS.en,
+  fallback = ""
+): string => {
+  if (typeof value === "string") return isBlankText(value) ? fallback : value;
+  if (!value || typeof value !== "object") return fallback;
+
+  for (const language of chain) {
+    const text = value[language];
+    if (typeof text === "string" && !isBlankText(text)) return text;
+  }
+  return fallback;
+};
+
+/**
+ * Normalizes a display value into an editable { en, ar, he } object, e.g.
+ * when loading a record into a form
+ */
+export const toLocalizedText = (value: LocalizedValue): LocalizedText => {
+  if (isLocalizedText(value)) {
+    return { en: value.en || "", ar: value.ar || "", he: value.he || "" };
+  }
+  return { en: typeof value === "string" ? value : "", ar: "", he: "" };
+};
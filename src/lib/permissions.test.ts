@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { PermissionGroup } from "@/types/api";
+import { getResourceLabel, sortPermissionGroups } from "./permissions";
+
+const group = (resource: string): PermissionGroup => ({
+  resource,
+  permissions: [],
+});
+
+describe("sortPermissionGroups", () => {
+  it("lists known resources in catalogue order", () => {
+    const sorted = sortPermissionGroups([
+      group("progress"),
+      group("admins"),
+      group("quizzes"),
+    ]);
+    expect(sorted.map((g) => g.resource)).toEqual([
+      "admins",
+      "quizzes",
+      "progress",
+    ]);
+  });
+
+  it("puts unknown resources after the known ones", () => {
+    const sorted = sortPermissionGroups([group("reports"), group("roles")]);
+    expect(sorted.map((g) => g.resource)).toEqual(["roles", "reports"]);
+  });
+
+  it("does not reorder the groups passed in", () => {
+    const groups = [group("users"), group("admins")];
+    sortPermissionGroups(groups);
+    expect(groups.map((g) => g.resource)).toEqual(["users", "admins"]);
+  });
+});
+
+describe("getResourceLabel", () => {
+  it("labels known and unknown resources", () => {
+    expect(getResourceLabel("video_library")).toBe("Video Library");
+    expect(getResourceLabel("custom_reports")).toBe("custom reports");
+  });
+});
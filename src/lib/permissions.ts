@@ -0,0 +1,113 @@
+/**
+ * Permission catalogue
+ *
+ * Every resource the dashboard gates on, in the order the role editor
+ * lists them, with the labels shown to admins.
+ */
+
+import { t, type TranslationKey } from "@/i18n";
+import type {
+  PermissionAction,
+  PermissionGroup,
+  PermissionResource,
+} from "@/types/api";
+
+export const PERMISSION_RESOURCES: PermissionResource[] = [
+  "admins",
+  "roles",
+  "permissions",
+  "users",
+  "universities",
+  "faculties",
+  "courses",
+  "free_courses",
+  "sections",
+  "topics",
+  "lessons",
+  "quizzes",
+  "video_library",
+  "attached_files",
+  "enrollments",
+  "progress",
+  "audit_logs",
+  "translations",
+];
+
+export const PERMISSION_ACTIONS: PermissionAction[] = [
+  "create",
+  "read",
+  "update",
+  "delete",
+  "export",
+  "import",
+];
+
+// Actions created by default when a resource has no permissions yet
+export const DEFAULT_RESOURCE_ACTIONS: PermissionAction[] = [
+  "create",
+  "read",
+  "update",
+  "delete",
+];
+
+export const PERMISSION_RESOURCE_LABELS: Record<
+  PermissionResource,
+  TranslationKey
+> = {
+  admins: "permissions.admins",
+  roles: "permissions.roles",
+  permissions: "permissions.permissions",
+  users: "permissions.users",
+  universities: "permissions.universities",
+  faculties: "permissions.faculties",
+  courses: "permissions.courses",
+  free_courses: "permissions.freeCourses",
+  sections: "permissions.sections",
+  topics: "permissions.topics",
+  lessons: "permissions.lessons",
+  quizzes: "permissions.quizzes",
+  video_library: "permissions.videoLibrary",
+  attached_files: "permissions.attachedFiles",
+  enrollments: "permissions.enrollments",
+  progress: "permissions.progress",
+  audit_logs: "permissions.auditLogs",
+  translations: "permissions.translations",
+};
+
+export const PERMISSION_ACTION_LABELS: Record<
+  PermissionAction,
+  TranslationKey
+> = {
+  create: "permissions.create",
+  read: "permissions.read",
+  update: "permissions.update",
+  delete: "permissions.delete",
+  export: "permissions.export",
+  import: "permissions.import",
+};
+
+export const isPermissionResource = (
+  resource: string
+): resource is PermissionResource =>
+  (PERMISSION_RESOURCES as string[]).includes(resource);
+
+// Labels are in the selected language; unknown resources keep their raw name
+export const getResourceLabel = (resource: string) =>
+  isPermissionResource(resource)
+    ? t(PERMISSION_RESOURCE_LABELS[resource])
+    : resource.replace(/_/g, " ");
+
+export const getActionLabel = (action: string) =>
+  action in PERMISSION_ACTION_LABELS
+    ? t(PERMISSION_ACTION_LABELS[action as PermissionAction])
+    : action;
+
+// Known resources first in catalogue order, anything else the backend
+// returns after them
+export const sortPermissionGroups = (groups: PermissionGroup[]) => {
+  const rank = (resource: string) => {
+    const index = (PERMISSION_RESOURCES as string[]).indexOf(resource);
+    return index === -1 ? PERMISSION_RESOURCES.length : index;
+  };
+  return [...groups].sort((a, b) => rank(a.resource) - rank(b.resource));
+};
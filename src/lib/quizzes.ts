@@ -0,0 +1,25 @@
+/**
+ * Quizzes
+ *
+ * A quiz is attached to a course, topic, lesson, free course or section. The
+ * list shows the type as a badge and the forms ask for the entity by its type.
+ */
+
+import type { TranslationKey } from "@/i18n";
+import type { QuizType } from "@/types/api";
+
+export const QUIZ_TYPE_LABELS: Record<QuizType, TranslationKey> = {
+  course: "quizzes.typeCourse",
+  topic: "quizzes.typeTopic",
+  lesson: "quizzes.typeLesson",
+  freeCourse: "quizzes.typeFreeCourse",
+  section: "quizzes.typeSection",
+};
+
+export const QUIZ_ENTITY_SELECT_LABELS: Record<QuizType, TranslationKey> = {
+  course: "quizzes.selectCourse",
+  topic: "quizzes.selectTopic",
+  lesson: "quizzes.selectLesson",
+  freeCourse: "quizzes.selectFreeCourse",
+  section: "quizzes.selectSection",
+};
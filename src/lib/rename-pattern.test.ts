@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { applyRenamePattern } from "./rename-pattern";
+
+const video = (name: string, createdAt = "2024-03-05T10:00:00.000Z") => ({
+  name,
+  createdAt,
+});
+
+describe("applyRenamePattern", () => {
+  it("fills in the name, position and upload date", () => {
+    expect(
+      applyRenamePattern("Week {n} - {name} ({date})", video("Intro"), 6, 12)
+    ).toBe("Week 07 - Intro (2024-03-05)");
+  });
+
+  it("pads the position to the width of the selection size", () => {
+    expect(applyRenamePattern("{n}", video("Intro"), 0, 9)).toBe("1");
+    expect(applyRenamePattern("{n}", video("Intro"), 0, 100)).toBe("001");
+  });
+
+  it("replaces every occurrence of a placeholder", () => {
+    expect(applyRenamePattern("{name} / {name}", video("A"), 0, 1)).toBe(
+      "A / A"
+    );
+  });
+
+  it("keeps dollar signs in the name as they are", () => {
+    expect(
+      applyRenamePattern("{name}", video("Intro $& costs $$5"), 0, 1)
+    ).toBe("Intro $& costs $$5");
+  });
+
+  it("does not expand placeholders that are part of the name", () => {
+    expect(applyRenamePattern("{name}", video("Week {n} recap"), 6, 12)).toBe(
+      "Week {n} recap"
+    );
+  });
+
+  it("leaves the date empty when the upload date is invalid", () => {
+    expect(applyRenamePattern("{name} {date}", video("Intro", "soon"), 0, 1)).toBe(
+      "Intro"
+    );
+  });
+
+  it("copies unknown placeholders and trims the result", () => {
+    expect(applyRenamePattern("  {name} {title} ", video("Intro"), 0, 1)).toBe(
+      "Intro {title}"
+    );
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Rename Pattern
+ *
+ * Builds names for bulk renames from a pattern with placeholders:
+ * {name} the current name, {n} the 1-based position in the selection
+ * (zero-padded to the width of the selection size) and {date} the upload
+ * date as YYYY-MM-DD. Text outside placeholders is copied as is.
+ */
+
+export const RENAME_PLACEHOLDERS = ["{name}", "{n}", "{date}"] as const;
+
+interface RenameSource {
+  name: string;
+  createdAt: string;
+}
+
+export const applyRenamePattern = (
+  pattern: string,
+  source: RenameSource,
+  index: number,
+  total: number
+): string => {
+  const width = String(total).length;
+  const date = new Date(source.createdAt);
+  const isoDate = Number.isNaN(date.getTime())
+    ? ""
+    : date.toISOString().slice(0, 10);
+
+  const values: Record<string, string> = {
+    name: source.name,
+    n: String(index + 1).padStart(width, "0"),
+    date: isoDate,
+  };
+
+  // One pass with a replacer, so a value is never read as a "$" replacement
+  // pattern or expanded again when it contains a placeholder itself
+  return pattern
+    .replace(/\{(name|n|date)\}/g, (_, key: string) => values[key])
+    .trim();
+};
@@ -0,0 +1,22 @@
+/**
+ * Session Configuration
+ *
+ * Inactivity limits for the admin session. Override with
+ * VITE_IDLE_TIMEOUT_MINUTES / VITE_IDLE_WARNING_SECONDS.
+ */
+
+const parsePositive = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Time without activity before the admin is logged out
+export const IDLE_TIMEOUT_MS =
+  parsePositive(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES, 30) * 60 * 1000;
+
+// How long the warning dialog counts down before logging out
+export const IDLE_WARNING_MS =
+  parsePositive(import.meta.env.VITE_IDLE_WARNING_SECONDS, 60) * 1000;
+
+// localStorage key shared by all tabs so activity anywhere keeps the session alive
+export const LAST_ACTIVITY_KEY = "admin_last_activity";
@@ -0,0 +1,300 @@
+/**
+ * Translation Coverage
+ *
+ * Flattens every multilingual field of the content entities into a list of
+ * translatable fields, so the coverage page can compute completion per
+ * language and list the fields that still need Arabic or Hebrew text.
+ */
+
+import {
+  translate,
+  type Language,
+  type TranslationKey,
+  type TranslationParams,
+} from "@/i18n";
+import {
+  LOCALIZED_FALLBACK_CHAINS,
+  isBlankText,
+  isLocalizedText,
+  resolveLocalizedText,
+} from "@/lib/localized-text";
+import type {
+  Course,
+  Faculty,
+  FreeCourse,
+  Lesson,
+  LocalizedText,
+  Quiz,
+  Topic,
+  University,
+} from "@/types/api";
+
+export type TranslationEntityType =
+  | "university"
+  | "faculty"
+  | "course"
+  | "topic"
+  | "lesson"
+  | "quiz"
+  | "section";
+
+export const TRANSLATION_ENTITY_LABELS: Record<
+  TranslationEntityType,
+  TranslationKey
+> = {
+  university: "translationCoverage.universities",
+  faculty: "translationCoverage.faculties",
+  course: "translationCoverage.courses",
+  topic: "translationCoverage.topics",
+  lesson: "translationCoverage.lessons",
+  quiz: "translationCoverage.quizzes",
+  section: "translationCoverage.sections",
+};
+
+export const TRANSLATION_LANGUAGES: Language[] = ["en", "ar", "he"];
+
+export interface TranslationField {
+  // Unique per field, e.g. "quiz:<id>:questions.2.options.1"
+  key: string;
+  entityType: TranslationEntityType;
+  entityId: string;
+  entityLabel: string;
+  // Human readable field path, e.g. "Question 3 · Option 2"
+  fieldLabel: string;
+  // Languages with no (or blank) text
+  missing: Language[];
+  // Dashboard route of the form that edits this field
+  editPath: string;
+}
+
+export interface CoverageStats {
+  total: number;
+  translated: Record<Language, number>;
+}
+
+const getMissingLanguages = (
+  value: LocalizedText | string | null | undefined
+): Language[] => {
+  // Plain strings predate multilingual fields and count as English only
+  if (!isLocalizedText(value)) {
+    return isBlankText(value) ? TRANSLATION_LANGUAGES : ["ar", "he"];
+  }
+  return TRANSLATION_LANGUAGES.filter((language) => isBlankText(value[language]));
+};
+
+const getId = (value: { _id: string } | string | null | undefined) =>
+  typeof value === "string" ? value : value?._id || "";
+
+interface FieldSource {
+  entityType: TranslationEntityType;
+  entityId: string;
+  entityLabel: string;
+  editPath: string;
+}
+
+const createFieldCollector = (source: FieldSource, fields: TranslationField[]) => {
+  return (
+    path: string,
+    fieldLabel: string,
+    value: LocalizedText | string | null | undefined,
+    optional = false
+  ) => {
+    // Optional fields that were never filled in are not translation gaps
+    if (optional && !resolveLocalizedText(value)) return;
+    fields.push({
+      ...source,
+      key: `${source.entityType}:${source.entityId}:${path}`,
+      fieldLabel,
+      missing: getMissingLanguages(value),
+    });
+  };
+};
+
+export interface TranslationSources {
+  universities?: University[];
+  faculties?: Faculty[];
+  courses?: Course[];
+  topics?: Topic[];
+  lessons?: Lesson[];
+  quizzes?: Quiz[];
+  freeCourses?: FreeCourse[];
+}
+
+/**
+ * Lists every translatable field of the loaded entities
+ * @param sources - Entity lists; missing lists are skipped
+ * @param language - Language of the entity and field labels
+ */
+export const collectTranslationFields = (
+  sources: TranslationSources,
+  language: Language = "en"
+): TranslationField[] => {
+  const fields: TranslationField[] = [];
+  const text = (key: TranslationKey, params?: TranslationParams) =>
+    translate(language, key, params);
+  const label = (value: LocalizedText | string | null | undefined) =>
+    resolveLocalizedText(
+      value,
+      LOCALIZED_FALLBACK_CHAINS[language],
+      text("translationCoverage.untitled")
+    );
+
+  // Lessons only reference their topic, so course ids come from the topics
+  const topicCourseIds = new Map(
+    (sources.topics || []).map((topic) => [topic._id, getId(topic.courseId)])
+  );
+
+  sources.universities?.forEach((university) => {
+    const add = createFieldCollector(
+      {
+        entityType: "university",
+        entityId: university._id,
+        entityLabel: label(university.name),
+        editPath: `/dashboard/universities?edit=${university._id}`,
+      },
+      fields
+    );
+    add("name", text("common.name"), university.name);
+  });
+
+  sources.faculties?.forEach((faculty) => {
+    const add = createFieldCollector(
+      {
+        entityType: "faculty",
+        entityId: faculty._id,
+        entityLabel: label(faculty.name),
+        editPath: `/dashboard/faculties?edit=${faculty._id}`,
+      },
+      fields
+    );
+    add("name", text("common.name"), faculty.name);
+  });
+
+  sources.courses?.forEach((course) => {
+    const add = createFieldCollector(
+      {
+        entityType: "course",
+        entityId: course._id,
+        entityLabel: label(course.name),
+        editPath: `/dashboard/courses/${course._id}/edit`,
+      },
+      fields
+    );
+    add("name", text("common.name"), course.name);
+    add("aboutCourse", text("translationCoverage.about"), course.aboutCourse);
+    course.whatWillYouLearn?.forEach((outcome, index) =>
+      add(
+        `whatWillYouLearn.${index}`,
+        text("translationCoverage.learningOutcome", { number: index + 1 }),
+        outcome,
+        true
+      )
+    );
+  });
+
+  sources.topics?.forEach((topic) => {
+    const add = createFieldCollector(
+      {
+        entityType: "topic",
+        entityId: topic._id,
+        entityLabel: label(topic.name),
+        editPath: `/dashboard/courses/${getId(topic.courseId)}/topics?edit=${topic._id}`,
+      },
+      fields
+    );
+    add("name", text("common.name"), topic.name);
+  });
+
+  sources.lessons?.forEach((lesson) => {
+    const topicId = getId(lesson.topicId);
+    const courseId =
+      typeof lesson.topicId === "object" && lesson.topicId
+        ? getId(lesson.topicId.courseId)
+        : topicCourseIds.get(topicId) || "";
+    const add = createFieldCollector(
+      {
+        entityType: "lesson",
+        entityId: lesson._id,
+        entityLabel: label(lesson.name),
+        editPath: `/dashboard/courses/${courseId}/topics/${topicId}/lessons/${lesson._id}/edit`,
+      },
+      fields
+    );
+    add("name", text("common.name"), lesson.name);
+    add("description", text("common.description"), lesson.description, true);
+  });
+
+  sources.quizzes?.forEach((quiz) => {
+    const add = createFieldCollector(
+      {
+        entityType: "quiz",
+        entityId: quiz._id,
+        entityLabel: label(quiz.title),
+        editPath: `/dashboard/quizzes/${quiz._id}/edit`,
+      },
+      fields
+    );
+    add("title", text("common.title"), quiz.title);
+    add("description", text("common.description"), quiz.description, true);
+    quiz.questions?.forEach((question, questionIndex) => {
+      const prefix = text("translationCoverage.question", {
+        number: questionIndex + 1,
+      });
+      add(`questions.${questionIndex}.question`, prefix, question.question);
+      question.options?.forEach((option, optionIndex) =>
+        add(
+          `questions.${questionIndex}.options.${optionIndex}`,
+          text("translationCoverage.option", {
+            question: prefix,
+            number: optionIndex + 1,
+          }),
+          option.text
+        )
+      );
+      add(
+        `questions.${questionIndex}.explanation`,
+        text("translationCoverage.explanation", { question: prefix }),
+        question.explanation,
+        true
+      );
+    });
+  });
+
+  sources.freeCourses?.forEach((freeCourse) => {
+    freeCourse.sections?.forEach((section) => {
+      const add = createFieldCollector(
+        {
+          entityType: "section",
+          entityId: section._id,
+          entityLabel: `${label(freeCourse.name)} · ${label(section.title)}`,
+          editPath: `/dashboard/free-courses/${freeCourse._id}/sections/${section._id}/edit`,
+        },
+        fields
+      );
+      add("title", text("common.title"), section.title);
+      add("description", text("common.description"), section.description, true);
+    });
+  });
+
+  return fields;
+};
+
+/**
+ * Counts translated fields per language
+ * @param fields - Fields to summarize, e.g. one entity type
+ */
+export const getCoverageStats = (fields: TranslationField[]): CoverageStats => {
+  const translated: Record<Language, number> = { en: 0, ar: 0, he: 0 };
+  fields.forEach((field) => {
+    TRANSLATION_LANGUAGES.forEach((language) => {
+      if (!field.missing.includes(language)) translated[language]++;
+    });
+  });
+  return { total: fields.length, translated };
+};
+
+// Completion as a whole percentage; an empty set counts as complete
+export const getCoveragePercent = (stats: CoverageStats, language: Language) =>
+  stats.total === 0
+    ? 100
+    : Math.floor((stats.translated[language] / stats.total) * 100);
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { validateUploadFile } from "./upload-validation";
+
+const createFile = (name: string, bytes: number[], type = "") =>
+  new File([new Uint8Array(bytes)], name, { type });
+
+describe("validateUploadFile", () => {
+  it("accepts MP3 files with an ID3 tag", async () => {
+    const file = createFile("talk.mp3", [0x49, 0x44, 0x33, 0x04, 0x00]);
+    expect(await validateUploadFile(file, "attached-document")).toEqual([]);
+  });
+
+  it("accepts MP3 frames of every MPEG version and layer", async () => {
+    // MPEG-1 layer III, MPEG-2 layer III with CRC, MPEG-2.5 layer III,
+    // MPEG-1 layer II
+    for (const second of [0xfb, 0xf2, 0xe3, 0xfd]) {
+      const file = createFile("talk.mp3", [0xff, second, 0x90, 0x00]);
+      expect(await validateUploadFile(file, "attached-document")).toEqual([]);
+    }
+  });
+
+  it("rejects files renamed to .mp3", async () => {
+    const pdf = createFile("talk.mp3", [0x25, 0x50, 0x44, 0x46, 0x2d]);
+    const jpeg = createFile("talk.mp3", [0xff, 0xd8, 0xff, 0xe0]);
+    expect(await validateUploadFile(pdf, "attached-document")).toHaveLength(1);
+    expect(await validateUploadFile(jpeg, "attached-document")).toHaveLength(1);
+  });
+
+  it("rejects extensions outside the upload context", async () => {
+    const file = createFile("notes.exe", [0x4d, 0x5a]);
+    expect(await validateUploadFile(file, "attached-document")).toHaveLength(1);
+  });
+});
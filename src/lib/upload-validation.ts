@@ -0,0 +1,247 @@
+/**
+ * Upload Validation
+ *
+ * Per-context policies checked in the browser before a presigned URL is
+ * requested: allowed extensions, maximum size, and the file's leading bytes
+ * ("magic bytes") so a renamed file cannot pass as another type. Duplicate
+ * names are checked against the files already attached to an entity.
+ */
+
+import { t, type TranslationKey } from "@/i18n";
+
+export type UploadContext =
+  | "lesson-video"
+  | "course-image"
+  | "attached-document"
+  | "free-course-file";
+
+export interface UploadPolicy {
+  label: TranslationKey;
+  // Lowercase extensions without the dot
+  extensions: string[];
+  maxSize: number; // bytes
+  // Reject files whose content does not match their extension
+  sniffContent: boolean;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const VIDEO_EXTENSIONS = [
+  "mp4",
+  "m4v",
+  "mov",
+  "webm",
+  "mkv",
+  "avi",
+  "mpeg",
+  "mpg",
+  "ogv",
+];
+const IMAGE_EXTENSIONS = ["jpg", "jpeg", "png", "gif", "webp", "svg"];
+const AUDIO_EXTENSIONS = ["mp3", "wav", "m4a", "ogg"];
+const DOCUMENT_EXTENSIONS = [
+  "pdf",
+  "doc",
+  "docx",
+  "xls",
+  "xlsx",
+  "ppt",
+  "pptx",
+  "txt",
+  "csv",
+  "zip",
+];
+
+export const UPLOAD_POLICIES: Record<UploadContext, UploadPolicy> = {
+  "lesson-video": {
+    label: "validation.lessonVideo",
+    extensions: VIDEO_EXTENSIONS,
+    maxSize: 5 * GB,
+    sniffContent: true,
+  },
+  "course-image": {
+    label: "validation.courseImage",
+    extensions: IMAGE_EXTENSIONS,
+    maxSize: 5 * MB,
+    sniffContent: true,
+  },
+  "attached-document": {
+    label: "validation.attachedFile",
+    extensions: [
+      ...DOCUMENT_EXTENSIONS,
+      ...IMAGE_EXTENSIONS,
+      ...AUDIO_EXTENSIONS,
+      ...VIDEO_EXTENSIONS,
+    ],
+    maxSize: 500 * MB,
+    sniffContent: true,
+  },
+  "free-course-file": {
+    label: "validation.freeCourseFile",
+    extensions: [...DOCUMENT_EXTENSIONS, ...IMAGE_EXTENSIONS, ...AUDIO_EXTENSIONS],
+    maxSize: 200 * MB,
+    sniffContent: true,
+  },
+};
+
+interface FileSignature {
+  offset: number;
+  bytes: number[];
+  // Bits of each byte to compare; all of them when omitted
+  mask?: number[];
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const FTYP: FileSignature[] = [{ offset: 4, bytes: ascii("ftyp") }];
+const RIFF = (format: string): FileSignature[] => [
+  { offset: 0, bytes: ascii("RIFF") },
+  { offset: 8, bytes: ascii(format) },
+];
+const EBML: FileSignature[] = [{ offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }];
+const OGG: FileSignature[] = [{ offset: 0, bytes: ascii("OggS") }];
+const ZIP: FileSignature[] = [{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }];
+const OLE: FileSignature[] = [
+  { offset: 0, bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+];
+const MPEG: FileSignature[][] = [
+  [{ offset: 0, bytes: [0x00, 0x00, 0x01, 0xba] }],
+  [{ offset: 0, bytes: [0x00, 0x00, 0x01, 0xb3] }],
+];
+const MP3: FileSignature[][] = [
+  [{ offset: 0, bytes: ascii("ID3") }],
+  // 11-bit frame sync, whatever the MPEG version, layer and CRC bits
+  [{ offset: 0, bytes: [0xff, 0xe0], mask: [0xff, 0xe0] }],
+];
+
+// Every signature in a group must match; any group of an extension may match.
+// Text formats (txt, csv, svg) have no signature and are not sniffed.
+const FILE_SIGNATURES: Record<string, FileSignature[][]> = {
+  mp4: [FTYP],
+  m4v: [FTYP],
+  m4a: [FTYP],
+  mov: [
+    FTYP,
+    [{ offset: 4, bytes: ascii("moov") }],
+    [{ offset: 4, bytes: ascii("mdat") }],
+    [{ offset: 4, bytes: ascii("wide") }],
+  ],
+  webm: [EBML],
+  mkv: [EBML],
+  avi: [RIFF("AVI ")],
+  mpeg: MPEG,
+  mpg: MPEG,
+  ogv: [OGG],
+  ogg: [OGG],
+  jpg: [[{ offset: 0, bytes: [0xff, 0xd8, 0xff] }]],
+  jpeg: [[{ offset: 0, bytes: [0xff, 0xd8, 0xff] }]],
+  png: [[{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }]],
+  gif: [[{ offset: 0, bytes: ascii("GIF8") }]],
+  webp: [RIFF("WEBP")],
+  mp3: MP3,
+  wav: [RIFF("WAVE")],
+  pdf: [[{ offset: 0, bytes: ascii("%PDF") }]],
+  zip: [ZIP],
+  docx: [ZIP],
+  xlsx: [ZIP],
+  pptx: [ZIP],
+  doc: [OLE],
+  xls: [OLE],
+  ppt: [OLE],
+};
+
+const SNIFF_BYTES = 16;
+
+export const getFileExtension = (fileName: string) =>
+  fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+
+const formatSize = (bytes: number) =>
+  bytes >= GB ? `${bytes / GB}GB` : `${Math.round(bytes / MB)}MB`;
+
+const matchesSignature = async (file: File, extension: string) => {
+  const groups = FILE_SIGNATURES[extension];
+  if (!groups) return true;
+  const header = new Uint8Array(
+    await file.slice(0, SNIFF_BYTES).arrayBuffer()
+  );
+  return groups.some((group) =>
+    group.every(({ offset, bytes, mask }) =>
+      bytes.every(
+        (byte, index) =>
+          (header[offset + index] & (mask?.[index] ?? 0xff)) === byte
+      )
+    )
+  );
+};
+
+/**
+ * Value for the accept attribute of a file input, e.g. ".mp4,.mov"
+ */
+export const getAcceptedExtensions = (context: UploadContext) =>
+  UPLOAD_POLICIES[context].extensions.map((extension) => `.${extension}`).join(",");
+
+/**
+ * Checks a file against the policy of its upload context and returns the
+ * problems found; an empty list means the file may be uploaded.
+ * @param overrides adjusts the default policy for a single call site
+ */
+export const validateUploadFile = async (
+  file: File,
+  context: UploadContext,
+  overrides: Partial<UploadPolicy> = {}
+): Promise<string[]> => {
+  const policy = { ...UPLOAD_POLICIES[context], ...overrides };
+  const extension = getFileExtension(file.name);
+  const errors: string[] = [];
+
+  if (!policy.extensions.includes(extension)) {
+    errors.push(
+      t("validation.fileType", {
+        label: t(policy.label),
+        extensions: policy.extensions
+          .map((allowed) => allowed.toUpperCase())
+          .join(", "),
+      })
+    );
+  }
+
+  if (file.size === 0) {
+    errors.push(t("validation.fileEmpty", { name: file.name }));
+  } else if (file.size > policy.maxSize) {
+    errors.push(
+      t("validation.fileTooLarge", {
+        label: t(policy.label),
+        size: formatSize(policy.maxSize),
+      })
+    );
+  }
+
+  if (errors.length === 0 && policy.sniffContent) {
+    try {
+      if (!(await matchesSignature(file, extension))) {
+        errors.push(
+          t("validation.fileContentMismatch", { name: file.name, extension })
+        );
+      }
+    } catch {
+      errors.push(t("validation.fileUnreadable", { name: file.name }));
+    }
+  }
+
+  return errors;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Returns the existing name that matches the given one, ignoring case and
+ * surrounding whitespace
+ */
+export const findDuplicateName = (
+  name: string,
+  existingNames: (string | undefined)[]
+) =>
+  existingNames.find(
+    (existing) => !!existing && normalizeName(existing) === normalizeName(name)
+  );
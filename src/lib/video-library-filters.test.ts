@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_VIDEO_LIBRARY_FILTERS,
+  countActiveVideoLibraryFilters,
+  parseVideoLibraryFilters,
+  toVideoLibraryQueryParams,
+  toVideoLibrarySearchParams,
+  type VideoLibraryFilters,
+} from "./video-library-filters";
+
+const filters = (
+  overrides: Partial<VideoLibraryFilters> = {}
+): VideoLibraryFilters => ({ ...DEFAULT_VIDEO_LIBRARY_FILTERS, ...overrides });
+
+const CUSTOM_FILTERS = filters({
+  view: "grid",
+  search: "week 1",
+  entityType: "lesson",
+  status: "inactive",
+  usage: "orphaned",
+  videoType: "video/mp4",
+  uploadedBy: "admin-1",
+  fileSizeMinMb: "1.5",
+  fileSizeMaxMb: "200",
+  language: "ar",
+  page: 3,
+  limit: 25,
+});
+
+describe("parseVideoLibraryFilters", () => {
+  it("uses the defaults for an empty query string", () => {
+    expect(parseVideoLibraryFilters(new URLSearchParams())).toEqual(
+      DEFAULT_VIDEO_LIBRARY_FILTERS
+    );
+  });
+
+  it("falls back to the defaults for unknown or invalid values", () => {
+    const parsed = parseVideoLibraryFilters(
+      new URLSearchParams(
+        "view=list&entityType=quiz&status=deleted&usage=maybe&language=fr&page=0&limit=-5&fileSizeMinMb=-1&fileSizeMaxMb=abc"
+      )
+    );
+    expect(parsed).toEqual(DEFAULT_VIDEO_LIBRARY_FILTERS);
+  });
+});
+
+describe("toVideoLibrarySearchParams", () => {
+  it("leaves every default out of the URL", () => {
+    expect(toVideoLibrarySearchParams(filters()).toString()).toBe("");
+  });
+
+  it("only writes the filters that differ from the defaults", () => {
+    const searchParams = toVideoLibrarySearchParams(
+      filters({ language: "he", page: 2 })
+    );
+    expect(Object.fromEntries(searchParams)).toEqual({
+      language: "he",
+      page: "2",
+    });
+  });
+
+  it("round-trips through parseVideoLibraryFilters", () => {
+    expect(
+      parseVideoLibraryFilters(toVideoLibrarySearchParams(CUSTOM_FILTERS))
+    ).toEqual(CUSTOM_FILTERS);
+  });
+});
+
+describe("toVideoLibraryQueryParams", () => {
+  it("sends only paging for the defaults", () => {
+    expect(toVideoLibraryQueryParams(filters())).toEqual({
+      page: 1,
+      limit: 10,
+      search: undefined,
+      entityType: undefined,
+      isActive: undefined,
+      usage: undefined,
+      videoType: undefined,
+      uploadedBy: undefined,
+      fileSizeMin: undefined,
+      fileSizeMax: undefined,
+      language: undefined,
+    });
+  });
+
+  it("maps status to isActive and sizes to bytes", () => {
+    expect(toVideoLibraryQueryParams(CUSTOM_FILTERS)).toEqual({
+      page: 3,
+      limit: 25,
+      search: "week 1",
+      entityType: "lesson",
+      isActive: false,
+      usage: "orphaned",
+      videoType: "video/mp4",
+      uploadedBy: "admin-1",
+      fileSizeMin: 1572864,
+      fileSizeMax: 209715200,
+      language: "ar",
+    });
+  });
+});
+
+describe("countActiveVideoLibraryFilters", () => {
+  it("counts nothing for the defaults", () => {
+    expect(countActiveVideoLibraryFilters(filters())).toBe(0);
+  });
+
+  it("counts every narrowing filter but not the view or paging", () => {
+    expect(countActiveVideoLibraryFilters(CUSTOM_FILTERS)).toBe(9);
+    expect(
+      countActiveVideoLibraryFilters(filters({ view: "grid", page: 4, limit: 50 }))
+    ).toBe(0);
+  });
+
+  it("counts the language filter", () => {
+    expect(countActiveVideoLibraryFilters(filters({ language: "en" }))).toBe(1);
+  });
+});
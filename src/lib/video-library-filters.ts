@@ -0,0 +1,144 @@
+/**
+ * Video Library Filters
+ *
+ * The video library keeps its filters, paging and view mode in the URL query
+ * string so a filtered view survives reloads and can be shared. Defaults are
+ * left out of the URL to keep links short.
+ */
+
+import type { VideoLibraryQueryParams } from "@/types/api";
+
+export type VideoLibraryView = "table" | "grid";
+
+export interface VideoLibraryFilters {
+  view: VideoLibraryView;
+  search: string;
+  entityType: "all" | "lesson" | "course";
+  status: "all" | "active" | "inactive";
+  usage: "all" | "used" | "orphaned";
+  videoType: string; // MIME type, "all" for any
+  uploadedBy: string; // admin ID, "all" for anyone
+  fileSizeMinMb: string;
+  fileSizeMaxMb: string;
+  language: "all" | "en" | "ar" | "he";
+  page: number;
+  limit: number;
+}
+
+export const DEFAULT_VIDEO_LIBRARY_FILTERS: VideoLibraryFilters = {
+  view: "table",
+  search: "",
+  entityType: "all",
+  status: "all",
+  usage: "all",
+  videoType: "all",
+  uploadedBy: "all",
+  fileSizeMinMb: "",
+  fileSizeMaxMb: "",
+  language: "all",
+  page: 1,
+  limit: 10,
+};
+
+// Filters that narrow the result set, as opposed to view and paging
+const NARROWING_FILTERS: (keyof VideoLibraryFilters)[] = [
+  "search",
+  "entityType",
+  "status",
+  "usage",
+  "videoType",
+  "uploadedBy",
+  "language",
+  "fileSizeMinMb",
+  "fileSizeMaxMb",
+];
+
+const pickOption = <T extends string>(
+  value: string | null,
+  options: readonly T[],
+  fallback: T
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number.parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseSize = (value: string | null) =>
+  value && Number(value) >= 0 ? value : "";
+
+export const parseVideoLibraryFilters = (
+  searchParams: URLSearchParams
+): VideoLibraryFilters => {
+  const defaults = DEFAULT_VIDEO_LIBRARY_FILTERS;
+  return {
+    view: pickOption(searchParams.get("view"), ["table", "grid"], defaults.view),
+    search: searchParams.get("search") || defaults.search,
+    entityType: pickOption(
+      searchParams.get("entityType"),
+      ["all", "lesson", "course"],
+      defaults.entityType
+    ),
+    status: pickOption(
+      searchParams.get("status"),
+      ["all", "active", "inactive"],
+      defaults.status
+    ),
+    usage: pickOption(
+      searchParams.get("usage"),
+      ["all", "used", "orphaned"],
+      defaults.usage
+    ),
+    videoType: searchParams.get("videoType") || defaults.videoType,
+    uploadedBy: searchParams.get("uploadedBy") || defaults.uploadedBy,
+    fileSizeMinMb: parseSize(searchParams.get("fileSizeMinMb")),
+    fileSizeMaxMb: parseSize(searchParams.get("fileSizeMaxMb")),
+    language: pickOption(
+      searchParams.get("language"),
+      ["all", "en", "ar", "he"],
+      defaults.language
+    ),
+    page: parsePositiveInt(searchParams.get("page"), defaults.page),
+    limit: parsePositiveInt(searchParams.get("limit"), defaults.limit),
+  };
+};
+
+export const toVideoLibrarySearchParams = (filters: VideoLibraryFilters) => {
+  const searchParams = new URLSearchParams();
+  (Object.keys(filters) as (keyof VideoLibraryFilters)[]).forEach((key) => {
+    const value = String(filters[key]);
+    if (value !== String(DEFAULT_VIDEO_LIBRARY_FILTERS[key])) {
+      searchParams.set(key, value);
+    }
+  });
+  return searchParams;
+};
+
+const MB = 1024 * 1024;
+
+const mbToBytes = (value: string) =>
+  value === "" ? undefined : Math.round(Number(value) * MB);
+
+export const toVideoLibraryQueryParams = (
+  filters: VideoLibraryFilters
+): VideoLibraryQueryParams => ({
+  page: filters.page,
+  limit: filters.limit,
+  search: filters.search || undefined,
+  entityType: filters.entityType !== "all" ? filters.entityType : undefined,
+  isActive: filters.status !== "all" ? filters.status === "active" : undefined,
+  usage: filters.usage !== "all" ? filters.usage : undefined,
+  videoType: filters.videoType !== "all" ? filters.videoType : undefined,
+  uploadedBy: filters.uploadedBy !== "all" ? filters.uploadedBy : undefined,
+  fileSizeMin: mbToBytes(filters.fileSizeMinMb),
+  fileSizeMax: mbToBytes(filters.fileSizeMaxMb),
+  language: filters.language !== "all" ? filters.language : undefined,
+});
+
+/**
+ * Number of filters that narrow the results, for the filter panel badge
+ */
+export const countActiveVideoLibraryFilters = (filters: VideoLibraryFilters) =>
+  NARROWING_FILTERS.filter(
+    (key) => filters[key] !== DEFAULT_VIDEO_LIBRARY_FILTERS[key]
+  ).length;
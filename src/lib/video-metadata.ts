@@ -0,0 +1,176 @@
+/**
+ * Video Metadata
+ *
+ * Reads duration and resolution of a local video file through a detached
+ * <video> element, captures a poster frame on a canvas and sniffs the codec
+ * from the container bytes. Everything runs in the browser before upload;
+ * formats the browser cannot decode simply yield no metadata.
+ */
+
+export interface VideoMetadata {
+  duration: number; // seconds
+  width: number;
+  height: number;
+  codec?: string;
+}
+
+export interface ExtractedVideoInfo {
+  metadata: VideoMetadata | null;
+  thumbnail: Blob | null;
+}
+
+const THUMBNAIL_MAX_WIDTH = 640;
+const THUMBNAIL_QUALITY = 0.8;
+const LOAD_TIMEOUT = 15 * 1000; // 15 seconds
+
+// Codec identifiers as they appear in MP4 sample entries and WebM tracks
+const CODEC_SIGNATURES: { signature: string; codec: string }[] = [
+  { signature: "avc1", codec: "H.264" },
+  { signature: "avc3", codec: "H.264" },
+  { signature: "V_MPEG4/ISO/AVC", codec: "H.264" },
+  { signature: "hvc1", codec: "H.265" },
+  { signature: "hev1", codec: "H.265" },
+  { signature: "V_MPEGH/ISO/HEVC", codec: "H.265" },
+  { signature: "av01", codec: "AV1" },
+  { signature: "V_AV1", codec: "AV1" },
+  { signature: "vp09", codec: "VP9" },
+  { signature: "V_VP9", codec: "VP9" },
+  { signature: "V_VP8", codec: "VP8" },
+  { signature: "mp4v", codec: "MPEG-4" },
+];
+
+// MP4 keeps its codec box either near the start or at the very end
+const CODEC_SCAN_BYTES = 2 * 1024 * 1024; // 2MB
+
+const readAsLatin1 = async (blob: Blob) =>
+  new TextDecoder("latin1").decode(await blob.arrayBuffer());
+
+/**
+ * Best-effort codec detection from the head and tail of the file
+ */
+export const detectVideoCodec = async (
+  file: File
+): Promise<string | undefined> => {
+  try {
+    const head = await readAsLatin1(file.slice(0, CODEC_SCAN_BYTES));
+    const tail =
+      file.size > CODEC_SCAN_BYTES
+        ? await readAsLatin1(file.slice(-CODEC_SCAN_BYTES))
+        : "";
+    return CODEC_SIGNATURES.find(
+      ({ signature }) => head.includes(signature) || tail.includes(signature)
+    )?.codec;
+  } catch {
+    return undefined;
+  }
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: "loadedmetadata" | "seeked") =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = window.setTimeout(
+      () => reject(new Error(`Timed out waiting for ${event}`)),
+      LOAD_TIMEOUT
+    );
+    video.addEventListener(
+      event,
+      () => {
+        window.clearTimeout(timeout);
+        resolve();
+      },
+      { once: true }
+    );
+    video.addEventListener(
+      "error",
+      () => {
+        window.clearTimeout(timeout);
+        reject(new Error("The browser cannot decode this video"));
+      },
+      { once: true }
+    );
+  });
+
+const captureFrame = (video: HTMLVideoElement) =>
+  new Promise<Blob | null>((resolve) => {
+    const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      resolve(null);
+      return;
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(resolve, "image/jpeg", THUMBNAIL_QUALITY);
+  });
+
+/**
+ * Reads duration, resolution and codec of a video file and captures a JPEG
+ * poster frame about a tenth of the way in (at most one second).
+ */
+export const extractVideoInfo = async (
+  file: File
+): Promise<ExtractedVideoInfo> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.preload = "metadata";
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    const loaded = waitForEvent(video, "loadedmetadata");
+    video.src = url;
+    await loaded;
+
+    const metadata: VideoMetadata = {
+      duration: Number.isFinite(video.duration) ? video.duration : 0,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      codec: await detectVideoCodec(file),
+    };
+
+    let thumbnail: Blob | null = null;
+    if (video.videoWidth > 0) {
+      try {
+        const seeked = waitForEvent(video, "seeked");
+        video.currentTime = Math.min(1, metadata.duration / 10);
+        await seeked;
+        thumbnail = await captureFrame(video);
+      } catch (error) {
+        console.warn("Failed to capture video thumbnail:", error);
+      }
+    }
+
+    return { metadata, thumbnail };
+  } catch (error) {
+    console.warn("Failed to read video metadata:", error);
+    return { metadata: null, thumbnail: null };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Formats seconds as m:ss or h:mm:ss
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+/**
+ * Formats a resolution, naming the common heights, e.g. "1920×1080 (1080p)"
+ */
+export const formatResolution = (width: number, height: number): string => {
+  const label = [2160, 1440, 1080, 720, 480, 360].find(
+    (standard) => Math.min(width, height) === standard
+  );
+  return `${width}×${height}${label ? ` (${label}p)` : ""}`;
+};
@@ -4,21 +4,38 @@ import "./index.css";
 import App from "./App.tsx";
 import { Toaster } from "sonner";
 import { useAuthStore } from "./stores/auth-store.ts";
+import { subscribeToAuthEvents } from "./lib/auth-sync.ts";
+import { installZodErrorMap } from "./i18n/index.ts";
+import { LanguageInitializer } from "./components/layout/language-initializer.tsx";
+
+installZodErrorMap();
 
 // Auth initializer component
 function AuthInitializer() {
-  const { initialize } = useAuthStore();
+  const { initialize, logout } = useAuthStore();
 
   useEffect(() => {
     initialize();
   }, [initialize]);
 
+  // Keep every open tab in sync with logins/logouts made elsewhere
+  useEffect(() => {
+    return subscribeToAuthEvents((event) => {
+      if (event === "logout") {
+        logout({ broadcast: false });
+      } else if (!useAuthStore.getState().isAuthenticated) {
+        initialize();
+      }
+    });
+  }, [initialize, logout]);
+
   return null;
 }
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <AuthInitializer />
+    <LanguageInitializer />
     <App />
     <Toaster position="top-right" />
   </StrictMode>
@@ -72,7 +72,8 @@ import {
   Key,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { Can } from "@/components/shared/can";
 import {
   useAdmins,
   useCreateAdmin,
@@ -85,54 +86,55 @@ import {
 import type { Admin } from "@/types/api";
 import { PasswordInput } from "@/components/ui/password-input";
 import { getErrorMessage } from "@/utils/error-utils";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form schemas
 const createAdminSchema = z.object({
   userName: z
     .string()
-    .min(3, "Username must be at least 3 characters")
-    .max(30, "Username cannot exceed 30 characters")
+    .min(3)
+    .max(30)
     .regex(
       /^[a-zA-Z0-9._-]+$/,
-      "Username can only contain letters, numbers, dots, hyphens, and underscores"
+      "validation.usernameCharacters"
     )
-    .regex(/^[a-zA-Z0-9]/, "Username must start with alphanumeric character")
-    .regex(/[a-zA-Z0-9]$/, "Username must end with alphanumeric character"),
-  email: z.string().email("Please provide a valid email address"),
+    .regex(/^[a-zA-Z0-9]/, "validation.usernameStart")
+    .regex(/[a-zA-Z0-9]$/, "validation.usernameEnd"),
+  email: z.string().email(),
   password: z
     .string()
-    .min(8, "Password must be at least 8 characters")
+    .min(8)
     .regex(
       /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
-      "Password must contain at least 8 characters with uppercase, lowercase, number, and special character"
+      "validation.passwordComplexity"
     ),
-  roleId: z.string().min(1, "Role is required"),
+  roleId: z.string().min(1),
   phone: z.string().optional(),
 });
 
 const updateAdminSchema = z.object({
   userName: z
     .string()
-    .min(3, "Username must be at least 3 characters")
-    .max(30, "Username cannot exceed 30 characters")
+    .min(3)
+    .max(30)
     .regex(
       /^[a-zA-Z0-9._-]+$/,
-      "Username can only contain letters, numbers, dots, hyphens, and underscores"
+      "validation.usernameCharacters"
     )
-    .regex(/^[a-zA-Z0-9]/, "Username must start with alphanumeric character")
-    .regex(/[a-zA-Z0-9]$/, "Username must end with alphanumeric character"),
-  email: z.string().email("Please provide a valid email address"),
-  roleId: z.string().min(1, "Role is required"),
+    .regex(/^[a-zA-Z0-9]/, "validation.usernameStart")
+    .regex(/[a-zA-Z0-9]$/, "validation.usernameEnd"),
+  email: z.string().email(),
+  roleId: z.string().min(1),
   phone: z.string().optional(),
 });
 
 const updatePasswordSchema = z.object({
   newPassword: z
     .string()
-    .min(8, "Password must be at least 8 characters")
+    .min(8)
     .regex(
       /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
-      "Password must contain at least 8 characters with uppercase, lowercase, number, and special character"
+      "validation.passwordComplexity"
     ),
 });
 
@@ -141,7 +143,7 @@ type UpdateAdminFormData = z.infer<typeof updateAdminSchema>;
 type UpdatePasswordFormData = z.infer<typeof updatePasswordSchema>;
 
 export function AdminsPage() {
-  const { hasPermission } = useAuthStore();
+  const { t, language } = useTranslation();
   const [searchTerm, setSearchTerm] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
@@ -207,11 +209,11 @@ export function AdminsPage() {
   const handleCreateAdmin = async (data: CreateAdminFormData) => {
     try {
       await createAdminMutation.mutateAsync(data);
-      toast.success("Admin created successfully!");
+      toast.success(t("toast.adminCreated"));
       setIsCreateDialogOpen(false);
       createForm.reset();
     } catch (error) {
-      toast.error(getErrorMessage(error, "Failed to create admin"));
+      toast.error(getErrorMessage(error, t("toast.adminCreateFailed")));
     }
   };
 
@@ -220,12 +222,12 @@ export function AdminsPage() {
 
     try {
       await updateAdminMutation.mutateAsync({ id: editingAdmin._id, data });
-      toast.success("Admin updated successfully!");
+      toast.success(t("toast.adminUpdated"));
       setIsEditDialogOpen(false);
       setEditingAdmin(null);
       updateForm.reset();
     } catch (error) {
-      toast.error(getErrorMessage(error, "Failed to update admin"));
+      toast.error(getErrorMessage(error, t("toast.adminUpdateFailed")));
     }
   };
 
@@ -237,11 +239,11 @@ export function AdminsPage() {
   const confirmDeleteAdmin = async () => {
     try {
       await deleteAdminMutation.mutateAsync(deleteAdminId);
-      toast.success("Admin deleted successfully!");
+      toast.success(t("toast.adminDeleted"));
       setIsDeleteDialogOpen(false);
       setDeleteAdminId("");
     } catch (error) {
-      toast.error(getErrorMessage(error, "Failed to delete admin"));
+      toast.error(getErrorMessage(error, t("toast.adminDeleteFailed")));
     }
   };
 
@@ -255,11 +257,13 @@ export function AdminsPage() {
         data: { isActive: !currentStatus },
       });
       toast.success(
-        `Admin ${!currentStatus ? "activated" : "deactivated"} successfully!`
+        !currentStatus
+          ? t("toast.adminActivated")
+          : t("toast.adminDeactivated")
       );
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update admin status"
+        error instanceof Error ? error.message : t("toast.adminStatusFailed")
       );
     }
   };
@@ -281,12 +285,12 @@ export function AdminsPage() {
         id: passwordAdminId,
         password: data.newPassword,
       });
-      toast.success("Password updated successfully!");
+      toast.success(t("toast.passwordUpdated"));
       setIsPasswordDialogOpen(false);
       setPasswordAdminId("");
       passwordForm.reset();
     } catch (error) {
-      toast.error(getErrorMessage(error, "Failed to update password"));
+      toast.error(getErrorMessage(error, t("toast.passwordUpdateFailed")));
     }
   };
 
@@ -300,158 +304,165 @@ export function AdminsPage() {
     setCurrentPage(1);
   };
 
-  const canCreate = hasPermission("create_admins");
-  const canUpdate = hasPermission("update_admins");
-  const canDelete = hasPermission("delete_admins");
+  const canUpdate = useHasPermission("update", "admins");
+  const canDelete = useHasPermission("delete", "admins");
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">Admin Management</h1>
+          <h1 className="text-3xl font-bold">{t("admins.title")}</h1>
           <p className="text-gray-600">
-            Manage administrator accounts and their permissions.
+            {t("admins.subtitle")}
           </p>
         </div>
-        {canCreate && (
-          <Dialog
-            open={isCreateDialogOpen}
-            onOpenChange={setIsCreateDialogOpen}
-          >
+        <Dialog
+          open={isCreateDialogOpen}
+          onOpenChange={setIsCreateDialogOpen}
+        >
+          <Can action="create" resource="admins" mode="disable">
             <DialogTrigger asChild>
               <Button>
                 <Plus className="mr-2 h-4 w-4" />
-                Create Admin
+                {t("admins.create")}
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
-              <DialogHeader>
-                <DialogTitle>Create New Admin</DialogTitle>
-                <DialogDescription>
-                  Create a new administrator account.
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...createForm}>
-                <form
-                  onSubmit={createForm.handleSubmit(handleCreateAdmin)}
-                  className="space-y-4"
-                >
-                  <FormField
-                    control={createForm.control}
-                    name="userName"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter username" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="email"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Email</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="email"
-                            placeholder="Enter email"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <PasswordInput
-                            placeholder="Enter password"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="roleId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Role</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select a role" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {rolesData?.data?.map((role) => (
-                              <SelectItem key={role._id} value={role._id}>
-                                {role.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="phone"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Phone (Optional)</FormLabel>
+          </Can>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>{t("admins.createTitle")}</DialogTitle>
+              <DialogDescription>
+                {t("admins.createDescription")}
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...createForm}>
+              <form
+                onSubmit={createForm.handleSubmit(handleCreateAdmin)}
+                className="space-y-4"
+              >
+                <FormField
+                  control={createForm.control}
+                  name="userName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("admins.username")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("admins.usernamePlaceholder")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.email")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder={t("admins.emailPlaceholder")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("admins.password")}</FormLabel>
+                      <FormControl>
+                        <PasswordInput
+                          placeholder={t("admins.passwordPlaceholder")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="roleId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("admins.role")}</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
                         <FormControl>
-                          <Input placeholder="Enter phone number" {...field} />
+                          <SelectTrigger>
+                            <SelectValue placeholder={t("admins.selectRole")} />
+                          </SelectTrigger>
                         </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <DialogFooter>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => setIsCreateDialogOpen(false)}
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createAdminMutation.isPending}
-                    >
-                      {createAdminMutation.isPending
-                        ? "Creating..."
-                        : "Create Admin"}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
-        )}
+                        <SelectContent>
+                          {rolesData?.data?.map((role) => (
+                            <SelectItem key={role._id} value={role._id}>
+                              {role.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("admins.phoneOptional")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("admins.phonePlaceholder")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsCreateDialogOpen(false)}
+                  >
+                    {t("common.cancel")}
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createAdminMutation.isPending}
+                  >
+                    {createAdminMutation.isPending
+                      ? t("common.creating")
+                      : t("admins.create")}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
       </div>
 
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Admins</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("admins.totalAdmins")}
+            </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -462,7 +473,9 @@ export function AdminsPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Admins</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("admins.activeAdmins")}
+            </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -474,7 +487,7 @@ export function AdminsPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Inactive Admins
+              {t("admins.inactiveAdmins")}
             </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -489,9 +502,9 @@ export function AdminsPage() {
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Administrators</CardTitle>
+          <CardTitle>{t("admins.administrators")}</CardTitle>
           <CardDescription>
-            Manage administrator accounts and their roles.
+            {t("admins.administratorsDescription")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -500,7 +513,7 @@ export function AdminsPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search admins..."
+                  placeholder={t("admins.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -510,12 +523,12 @@ export function AdminsPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -528,27 +541,29 @@ export function AdminsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Username</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Role</TableHead>
-                  <TableHead>Phone</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Active</TableHead>
-                  <TableHead>Last Login</TableHead>
-                  <TableHead className="w-[140px]">Actions</TableHead>
+                  <TableHead>{t("admins.username")}</TableHead>
+                  <TableHead>{t("common.email")}</TableHead>
+                  <TableHead>{t("admins.role")}</TableHead>
+                  <TableHead>{t("common.phone")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("common.active")}</TableHead>
+                  <TableHead>{t("admins.lastLogin")}</TableHead>
+                  <TableHead className="w-[140px]">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8">
-                      Loading admins...
+                      {t("admins.loading")}
                     </TableCell>
                   </TableRow>
                 ) : adminsData?.data?.items?.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8">
-                      No admins found.
+                      {t("admins.notFound")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -566,7 +581,9 @@ export function AdminsPage() {
                         <Badge
                           variant={admin.isActive ? "default" : "secondary"}
                         >
-                          {admin.isActive ? "Active" : "Inactive"}
+                          {admin.isActive
+                            ? t("common.active")
+                            : t("common.inactive")}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -580,8 +597,10 @@ export function AdminsPage() {
                       </TableCell>
                       <TableCell>
                         {admin.lastLogin
-                          ? new Date(admin.lastLogin).toLocaleDateString()
-                          : "Never"}
+                          ? new Date(admin.lastLogin).toLocaleDateString(
+                              language
+                            )
+                          : t("common.never")}
                       </TableCell>
                       <TableCell>
                         {/* Desktop Actions - Direct buttons for md+ screens */}
@@ -633,7 +652,7 @@ export function AdminsPage() {
                                     onClick={() => handleEditAdmin(admin)}
                                   >
                                     <Edit className="mr-2 h-4 w-4" />
-                                    Edit
+                                    {t("common.edit")}
                                   </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onClick={() => {
@@ -642,7 +661,7 @@ export function AdminsPage() {
                                     }}
                                   >
                                     <Key className="mr-2 h-4 w-4" />
-                                    Change Password
+                                    {t("admins.changePassword")}
                                   </DropdownMenuItem>
                                 </>
                               )}
@@ -652,7 +671,7 @@ export function AdminsPage() {
                                   className="text-red-600"
                                 >
                                   <Trash2 className="mr-2 h-4 w-4" />
-                                  Delete
+                                  {t("common.delete")}
                                 </DropdownMenuItem>
                               )}
                             </DropdownMenuContent>
@@ -670,17 +689,18 @@ export function AdminsPage() {
           {adminsData?.data?.pagination && (
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(adminsData.data.pagination.currentPage - 1) *
-                  adminsData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  adminsData.data.pagination.currentPage *
-                    adminsData.data.pagination.itemsPerPage,
-                  adminsData.data.pagination.totalItems
-                )}{" "}
-                of {adminsData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (adminsData.data.pagination.currentPage - 1) *
+                      adminsData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    adminsData.data.pagination.currentPage *
+                      adminsData.data.pagination.itemsPerPage,
+                    adminsData.data.pagination.totalItems
+                  ),
+                  total: adminsData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -689,7 +709,7 @@ export function AdminsPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!adminsData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -697,7 +717,7 @@ export function AdminsPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!adminsData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -709,9 +729,9 @@ export function AdminsPage() {
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit Admin</DialogTitle>
+            <DialogTitle>{t("admins.editTitle")}</DialogTitle>
             <DialogDescription>
-              Update administrator information.
+              {t("admins.editDescription")}
             </DialogDescription>
           </DialogHeader>
           <Form {...updateForm}>
@@ -724,9 +744,12 @@ export function AdminsPage() {
                 name="userName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Username</FormLabel>
+                    <FormLabel>{t("admins.username")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter username" {...field} />
+                      <Input
+                        placeholder={t("admins.usernamePlaceholder")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -737,11 +760,11 @@ export function AdminsPage() {
                 name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Email</FormLabel>
+                    <FormLabel>{t("common.email")}</FormLabel>
                     <FormControl>
                       <Input
                         type="email"
-                        placeholder="Enter email"
+                        placeholder={t("admins.emailPlaceholder")}
                         {...field}
                       />
                     </FormControl>
@@ -754,14 +777,14 @@ export function AdminsPage() {
                 name="roleId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Role</FormLabel>
+                    <FormLabel>{t("admins.role")}</FormLabel>
                     <Select
                       onValueChange={field.onChange}
                       defaultValue={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select a role" />
+                          <SelectValue placeholder={t("admins.selectRole")} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
@@ -781,9 +804,12 @@ export function AdminsPage() {
                 name="phone"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Phone (Optional)</FormLabel>
+                    <FormLabel>{t("admins.phoneOptional")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter phone number" {...field} />
+                      <Input
+                        placeholder={t("admins.phonePlaceholder")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -795,12 +821,12 @@ export function AdminsPage() {
                   variant="outline"
                   onClick={() => setIsEditDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button type="submit" disabled={updateAdminMutation.isPending}>
                   {updateAdminMutation.isPending
-                    ? "Updating..."
-                    : "Update Admin"}
+                    ? t("common.updating")
+                    : t("admins.update")}
                 </Button>
               </DialogFooter>
             </form>
@@ -815,9 +841,9 @@ export function AdminsPage() {
       >
         <DialogContent className="sm:max-w-[400px]">
           <DialogHeader>
-            <DialogTitle>Change Password</DialogTitle>
+            <DialogTitle>{t("admins.changePassword")}</DialogTitle>
             <DialogDescription>
-              Update the administrator's password.
+              {t("admins.passwordDescription")}
             </DialogDescription>
           </DialogHeader>
           <Form {...passwordForm}>
@@ -830,10 +856,10 @@ export function AdminsPage() {
                 name="newPassword"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>New Password</FormLabel>
+                    <FormLabel>{t("admins.newPassword")}</FormLabel>
                     <FormControl>
                       <PasswordInput
-                        placeholder="Enter new password"
+                        placeholder={t("admins.newPasswordPlaceholder")}
                         {...field}
                       />
                     </FormControl>
@@ -847,15 +873,15 @@ export function AdminsPage() {
                   variant="outline"
                   onClick={() => setIsPasswordDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button
                   type="submit"
                   disabled={updateAdminPasswordMutation.isPending}
                 >
                   {updateAdminPasswordMutation.isPending
-                    ? "Updating..."
-                    : "Update Password"}
+                    ? t("common.updating")
+                    : t("admins.updatePassword")}
                 </Button>
               </DialogFooter>
             </form>
@@ -870,19 +896,18 @@ export function AdminsPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Admin</AlertDialogTitle>
+            <AlertDialogTitle>{t("admins.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this admin? This action cannot be
-              undone.
+              {t("admins.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteAdmin}
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
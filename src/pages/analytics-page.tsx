@@ -0,0 +1,382 @@
+import { useMemo, useState } from "react";
+import { parseISO } from "date-fns";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { CheckCircle, Clock, DollarSign, Users } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DateRangePicker } from "@/components/shared/date-range-picker";
+import {
+  useEnrollmentAnalytics,
+  useEnrollmentStats,
+} from "@/hooks/use-enrollments";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
+import { getPresetRange, toApiDateRange, type DateRange } from "@/lib/date-range";
+import {
+  ACCESS_TYPE_LABELS,
+  CURRENCIES,
+  PAYMENT_STATUS_LABELS,
+  buildEnrollmentTimeSeries,
+  getAccessTypeBreakdown,
+  getPaymentStatusBreakdown,
+  getRevenueByCurrency,
+  type Granularity,
+} from "@/lib/enrollment-analytics";
+
+const CHART_COLORS = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: "#22c55e",
+  pending: "#eab308",
+  failed: "#ef4444",
+  refunded: "#6366f1",
+  cancelled: "#94a3b8",
+};
+
+const ENROLLMENTS_DESCRIPTIONS: Record<Granularity, TranslationKey> = {
+  day: "analytics.enrollmentsPerDay",
+  week: "analytics.enrollmentsPerWeek",
+  month: "analytics.enrollmentsPerMonth",
+};
+
+const REVENUE_DESCRIPTIONS: Record<Granularity, TranslationKey> = {
+  day: "analytics.revenuePerDay",
+  week: "analytics.revenuePerWeek",
+  month: "analytics.revenuePerMonth",
+};
+
+const formatCurrency = (amount: number, currency: string = "usd") =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount);
+
+export function AnalyticsPage() {
+  const { t } = useTranslation();
+  const [range, setRange] = useState<DateRange>(() => getPresetRange("30d"));
+  const [granularity, setGranularity] = useState<Granularity>("day");
+
+  const apiRange = useMemo(() => toApiDateRange(range), [range]);
+
+  const { data: enrollments = [], isLoading } = useEnrollmentAnalytics(
+    apiRange.startDate,
+    apiRange.endDate
+  );
+  const { data: statsData, isLoading: isStatsLoading } = useEnrollmentStats(
+    apiRange.startDate,
+    apiRange.endDate
+  );
+  const stats = statsData?.data;
+
+  const timeSeries = useMemo(
+    () =>
+      buildEnrollmentTimeSeries(
+        enrollments,
+        granularity,
+        parseISO(range.startDate),
+        parseISO(range.endDate)
+      ).map((point) => ({
+        label:
+          granularity === "week"
+            ? t("analytics.weekOf", { date: point.label })
+            : point.label,
+        enrollments: point.enrollments,
+        fullCourse: point.fullCourse,
+        individualTopic: point.individualTopic,
+        ...point.revenue,
+      })),
+    [enrollments, granularity, range, t]
+  );
+
+  const paymentStatuses = useMemo(
+    () =>
+      getPaymentStatusBreakdown(enrollments).map((entry) => ({
+        ...entry,
+        name: t(PAYMENT_STATUS_LABELS[entry.status]),
+      })),
+    [enrollments, t]
+  );
+  const accessTypes = useMemo(
+    () =>
+      getAccessTypeBreakdown(enrollments).map((entry) => ({
+        ...entry,
+        name: t(ACCESS_TYPE_LABELS[entry.type]),
+      })),
+    [enrollments, t]
+  );
+  const revenueTotals = useMemo(
+    () => getRevenueByCurrency(enrollments),
+    [enrollments]
+  );
+
+  const summaryCards = [
+    {
+      title: t("analytics.totalEnrollments"),
+      icon: Users,
+      value: stats?.totalEnrollments || 0,
+    },
+    {
+      title: t("analytics.completedPayments"),
+      icon: CheckCircle,
+      value: stats?.completedPayments || 0,
+    },
+    {
+      title: t("analytics.pendingPayments"),
+      icon: Clock,
+      value: stats?.pendingPayments || 0,
+    },
+    {
+      title: t("analytics.totalRevenue"),
+      icon: DollarSign,
+      // The stats endpoint's totalRevenue adds up amounts across currencies
+      value:
+        CURRENCIES.filter((currency) => revenueTotals[currency] > 0)
+          .map((currency) => formatCurrency(revenueTotals[currency], currency))
+          .join(" · ") || formatCurrency(0),
+      isLoading,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {t("analytics.title")}
+          </h1>
+          <p className="text-muted-foreground">{t("analytics.subtitle")}</p>
+        </div>
+        <DateRangePicker value={range} onChange={setRange} />
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => {
+          const Icon = card.icon;
+          return (
+            <Card key={card.title}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">
+                  {card.title}
+                </CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {(card.isLoading ?? isStatsLoading) ? (
+                  <Skeleton className="h-8 w-24" />
+                ) : (
+                  <div className="text-2xl font-bold">{card.value}</div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Enrollments over time */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>{t("analytics.enrollments")}</CardTitle>
+            <CardDescription>
+              {t(ENROLLMENTS_DESCRIPTIONS[granularity])}
+            </CardDescription>
+          </div>
+          <Select
+            value={granularity}
+            onValueChange={(value) => setGranularity(value as Granularity)}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">{t("analytics.daily")}</SelectItem>
+              <SelectItem value="week">{t("analytics.weekly")}</SelectItem>
+              <SelectItem value="month">{t("analytics.monthly")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-80" />
+          ) : (
+            <ResponsiveContainer width="100%" height={320}>
+              <AreaChart data={timeSeries}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Area
+                  type="monotone"
+                  dataKey="fullCourse"
+                  name={t(ACCESS_TYPE_LABELS.fullCourse)}
+                  stackId="enrollments"
+                  stroke={CHART_COLORS[0]}
+                  fill={CHART_COLORS[0]}
+                  fillOpacity={0.4}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="individualTopic"
+                  name={t(ACCESS_TYPE_LABELS.individualTopic)}
+                  stackId="enrollments"
+                  stroke={CHART_COLORS[1]}
+                  fill={CHART_COLORS[1]}
+                  fillOpacity={0.4}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Revenue by currency */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("analytics.revenueByCurrency")}</CardTitle>
+          <CardDescription>
+            {t(REVENUE_DESCRIPTIONS[granularity])}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-80" />
+          ) : (
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={timeSeries}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                {CURRENCIES.map((currency, index) => (
+                  <Bar
+                    key={currency}
+                    dataKey={currency}
+                    name={currency.toUpperCase()}
+                    fill={CHART_COLORS[index]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Payment status mix */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("analytics.paymentStatus")}</CardTitle>
+            <CardDescription>
+              {t("analytics.paymentStatusDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64" />
+            ) : paymentStatuses.length === 0 ? (
+              <p className="py-16 text-center text-sm text-muted-foreground">
+                {t("analytics.noEnrollments")}
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height={260}>
+                <PieChart>
+                  <Pie
+                    data={paymentStatuses}
+                    dataKey="count"
+                    nameKey="name"
+                    innerRadius={50}
+                    outerRadius={90}
+                    label
+                  >
+                    {paymentStatuses.map((entry) => (
+                      <Cell
+                        key={entry.status}
+                        fill={STATUS_COLORS[entry.status]}
+                      />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Full course vs individual topics */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("analytics.accessType")}</CardTitle>
+            <CardDescription>
+              {t("analytics.accessTypeDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64" />
+            ) : enrollments.length === 0 ? (
+              <p className="py-16 text-center text-sm text-muted-foreground">
+                {t("analytics.noEnrollments")}
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height={260}>
+                <PieChart>
+                  <Pie
+                    data={accessTypes}
+                    dataKey="count"
+                    nameKey="name"
+                    innerRadius={50}
+                    outerRadius={90}
+                    label
+                  >
+                    {accessTypes.map((entry, index) => (
+                      <Cell key={entry.type} fill={CHART_COLORS[index]} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
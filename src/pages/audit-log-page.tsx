@@ -0,0 +1,413 @@
+import { useMemo, useState } from "react";
+import { Eye, History, RefreshCw, Search } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DateRangePicker } from "@/components/shared/date-range-picker";
+import { useAuditLogs } from "@/hooks/use-audit-log";
+import { useTranslation } from "@/hooks/use-translation";
+import { getPresetRange, toApiDateRange, type DateRange } from "@/lib/date-range";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  DESTRUCTIVE_AUDIT_ACTIONS,
+  buildAuditDiff,
+  formatAuditValue,
+} from "@/lib/audit-log";
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+} from "@/types/api";
+
+function AuditDiffDialog({
+  entry,
+  onOpenChange,
+}: {
+  entry: AuditLogEntry | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { t, language } = useTranslation();
+  const rows = useMemo(() => (entry ? buildAuditDiff(entry) : []), [entry]);
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>
+            {entry &&
+              t("auditLog.entryTitle", {
+                action: t(AUDIT_ACTION_LABELS[entry.action]),
+                entity: t(AUDIT_ENTITY_LABELS[entry.entityType]),
+              })}
+          </DialogTitle>
+          <DialogDescription>
+            {entry &&
+              [
+                entry.actor?.userName || t("auditLog.unknownAdmin"),
+                new Date(entry.createdAt).toLocaleString(language, {
+                  year: "numeric",
+                  month: "short",
+                  day: "2-digit",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                  second: "2-digit",
+                }),
+                entry.entityLabel || entry.entityId,
+              ].join(" · ")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {t("auditLog.noChanges")}
+          </p>
+        ) : (
+          <div className="max-h-[50vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("auditLog.field")}</TableHead>
+                  <TableHead>{t("auditLog.before")}</TableHead>
+                  <TableHead>{t("auditLog.after")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow
+                    key={row.field}
+                    className={row.changed ? "" : "text-muted-foreground"}
+                  >
+                    <TableCell className="font-medium">{row.field}</TableCell>
+                    <TableCell
+                      className={row.changed ? "bg-red-50 dark:bg-red-900/20" : ""}
+                    >
+                      <pre className="whitespace-pre-wrap break-all text-xs">
+                        {formatAuditValue(row.before)}
+                      </pre>
+                    </TableCell>
+                    <TableCell
+                      className={
+                        row.changed ? "bg-green-50 dark:bg-green-900/20" : ""
+                      }
+                    >
+                      <pre className="whitespace-pre-wrap break-all text-xs">
+                        {formatAuditValue(row.after)}
+                      </pre>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {entry?.metadata && Object.keys(entry.metadata).length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">{t("auditLog.details")}</p>
+            <pre className="rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-all">
+              {JSON.stringify(entry.metadata, null, 2)}
+            </pre>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function AuditLogPage() {
+  const { t, language } = useTranslation();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [actionFilter, setActionFilter] = useState<string>("all");
+  const [entityFilter, setEntityFilter] = useState<string>("all");
+  const [range, setRange] = useState<DateRange>(() => getPresetRange("30d"));
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(
+    null
+  );
+
+  const apiRange = useMemo(() => toApiDateRange(range), [range]);
+
+  const { data, isLoading, refetch } = useAuditLogs({
+    page: currentPage,
+    limit: 20,
+    sort: "-createdAt",
+    search: search || undefined,
+    action: actionFilter === "all" ? undefined : (actionFilter as AuditAction),
+    entityType:
+      entityFilter === "all" ? undefined : (entityFilter as AuditEntityType),
+    startDate: apiRange.startDate,
+    endDate: apiRange.endDate,
+  });
+
+  const entries = data?.data?.items || [];
+  const pagination = data?.data?.pagination;
+
+  const handleSearch = () => {
+    setSearch(searchTerm.trim());
+    setCurrentPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{t("auditLog.title")}</h1>
+          <p className="text-gray-600">
+            {t("auditLog.subtitle")}
+          </p>
+        </div>
+        <DateRangePicker
+          value={range}
+          onChange={(value) => {
+            setRange(value);
+            setCurrentPage(1);
+          }}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t("auditLog.activity")}
+          </CardTitle>
+          <CardDescription>
+            {t("auditLog.activityDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <div className="flex-1 min-w-[220px] space-y-2">
+              <Label htmlFor="audit-search">{t("common.search")}</Label>
+              <div className="relative">
+                <Search className="absolute start-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="audit-search"
+                  placeholder={t("auditLog.searchPlaceholder")}
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                  className="ps-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("auditLog.action")}</Label>
+              <Select
+                value={actionFilter}
+                onValueChange={(value) => {
+                  setActionFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t("auditLog.allActions")}
+                  </SelectItem>
+                  {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {t(label)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("auditLog.entity")}</Label>
+              <Select
+                value={entityFilter}
+                onValueChange={(value) => {
+                  setEntityFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t("auditLog.allEntities")}
+                  </SelectItem>
+                  {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {t(label)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Entries Table */}
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("auditLog.when")}</TableHead>
+                  <TableHead>{t("auditLog.admin")}</TableHead>
+                  <TableHead>{t("auditLog.action")}</TableHead>
+                  <TableHead>{t("auditLog.entity")}</TableHead>
+                  <TableHead className="w-[100px]">
+                    {t("auditLog.changes")}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">
+                      {t("common.loading")}
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">
+                      {t("auditLog.notFound")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => (
+                    <TableRow key={entry._id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString(language, {
+                          year: "numeric",
+                          month: "short",
+                          day: "2-digit",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">
+                          {entry.actor?.userName || t("auditLog.unknownAdmin")}
+                        </div>
+                        {entry.actor?.email && (
+                          <div className="text-xs text-muted-foreground">
+                            {entry.actor.email}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            DESTRUCTIVE_AUDIT_ACTIONS.includes(entry.action)
+                              ? "destructive"
+                              : "secondary"
+                          }
+                        >
+                          {AUDIT_ACTION_LABELS[entry.action]
+                            ? t(AUDIT_ACTION_LABELS[entry.action])
+                            : entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">
+                          {entry.entityLabel || entry.entityId}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {AUDIT_ENTITY_LABELS[entry.entityType]
+                            ? t(AUDIT_ENTITY_LABELS[entry.entityType])
+                            : entry.entityType}
+                          {entry.entityLabel && ` · ${entry.entityId}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedEntry(entry)}
+                        >
+                          <Eye className="h-4 w-4 me-1" />
+                          {t("common.view")}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.totalItems > 0 && (
+            <div className="flex items-center justify-between mt-4">
+              <div className="text-sm text-muted-foreground">
+                {t("common.showing", {
+                  from: (pagination.currentPage - 1) * pagination.itemsPerPage + 1,
+                  to: Math.min(
+                    pagination.currentPage * pagination.itemsPerPage,
+                    pagination.totalItems
+                  ),
+                  total: pagination.totalItems,
+                })}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={!pagination.hasPrev}
+                >
+                  {t("common.previous")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={!pagination.hasNext}
+                >
+                  {t("common.next")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AuditDiffDialog
+        entry={selectedEntry}
+        onOpenChange={(open) => !open && setSelectedEntry(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,523 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Upload,
+  X,
+  Image,
+  Video,
+  Music,
+  File,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  RotateCw,
+} from "lucide-react";
+import { toast } from "sonner";
+import { UploadService } from "@/services/upload-service";
+import {
+  useAttachedFiles,
+  useBulkUploadAttachedFiles,
+  type BulkUploadItemUpdate,
+} from "@/hooks/use-attached-files";
+import { useUploadStore } from "@/stores/upload-store";
+import {
+  findDuplicateName,
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
+
+type BulkFileStatus = "ready" | "invalid" | BulkUploadItemUpdate["status"];
+
+interface BulkFileRow {
+  id: string;
+  file: File;
+  name: { en: string; ar: string; he: string };
+  status: BulkFileStatus;
+  // Validation problems of the file itself or of its name
+  errors: string[];
+  taskId?: string;
+  fileUrl?: string;
+}
+
+interface BulkUploadFilesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entityType: "courses" | "topics" | "lessons";
+  entityId: string;
+}
+
+const DESCRIPTIONS: Record<
+  BulkUploadFilesDialogProps["entityType"],
+  TranslationKey
+> = {
+  courses: "files.bulkCourseDescription",
+  topics: "files.bulkTopicDescription",
+  lessons: "files.bulkLessonDescription",
+};
+
+let nextRowId = 0;
+
+// "intro_lesson-01.pdf" -> "Intro lesson 01"
+const deriveNameFromFile = (fileName: string) => {
+  const name = fileName
+    .replace(/\.[^/.]+$/, "")
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+const getFileIcon = (fileType: string) => {
+  if (fileType.startsWith("image/")) {
+    return <Image className="h-4 w-4 text-blue-500" />;
+  } else if (fileType.startsWith("video/")) {
+    return <Video className="h-4 w-4 text-red-500" />;
+  } else if (fileType.startsWith("audio/")) {
+    return <Music className="h-4 w-4 text-green-500" />;
+  } else {
+    return <File className="h-4 w-4 text-gray-500" />;
+  }
+};
+
+export function BulkUploadFilesDialog({
+  isOpen,
+  onClose,
+  entityType,
+  entityId,
+}: BulkUploadFilesDialogProps) {
+  const { t } = useTranslation();
+  const [rows, setRows] = useState<BulkFileRow[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [summary, setSummary] = useState<{
+    succeeded: number;
+    failed: number;
+  } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const attachedEntityType =
+    entityType == "courses"
+      ? "course"
+      : entityType == "topics"
+      ? "topic"
+      : "lesson";
+
+  const { data: attachedFilesData } = useAttachedFiles(
+    attachedEntityType,
+    entityId
+  );
+  const uploadTasks = useUploadStore((state) => state.tasks);
+  const bulkUpload = useBulkUploadAttachedFiles();
+
+  const updateRow = (id: string, patch: Partial<BulkFileRow>) =>
+    setRows((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, ...patch } : row))
+    );
+
+  const handleClose = () => {
+    // Uploads already started keep going in the upload tray
+    setRows([]);
+    setSummary(null);
+    setIsDragging(false);
+    onClose();
+  };
+
+  const addFiles = async (files: File[]) => {
+    setSummary(null);
+    const added = await Promise.all(
+      files.map(async (file): Promise<BulkFileRow> => {
+        const errors = await validateUploadFile(file, "attached-document");
+        return {
+          id: `bulk-file-${nextRowId++}`,
+          file,
+          name: { en: deriveNameFromFile(file.name), ar: "", he: "" },
+          status: errors.length > 0 ? "invalid" : "ready",
+          errors,
+        };
+      })
+    );
+    setRows((prev) => [...prev, ...added]);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isUploading) return;
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []));
+    // Allow picking the same files again
+    event.target.value = "";
+  };
+
+  const handleNameChange = (
+    id: string,
+    language: "en" | "ar" | "he",
+    value: string
+  ) =>
+    setRows((prev) =>
+      prev.map((row) =>
+        row.id === id
+          ? {
+              ...row,
+              name: { ...row.name, [language]: value },
+              // Name problems are checked again on upload
+              errors: row.status === "invalid" ? row.errors : [],
+            }
+          : row
+      )
+    );
+
+  const removeRow = (id: string) =>
+    setRows((prev) => prev.filter((row) => row.id !== id));
+
+  // Rows still to be uploaded: new ones and earlier failures
+  const pendingRows = rows.filter(
+    (row) => row.status === "ready" || row.status === "failed"
+  );
+
+  // Checks names against the entity's files and the rest of the batch
+  const validateNames = () => {
+    const existingNames = (attachedFilesData?.data || []).map(
+      (file) => file.name.en
+    );
+    const getNameErrors = (row: BulkFileRow) => {
+      const name = row.name.en.trim();
+      if (!name) return [t("validation.required")];
+      if (name.length > 255) {
+        return [t("validation.maxLength", { max: 255 })];
+      }
+      const otherNames = rows
+        .filter((other) => other.id !== row.id && other.status !== "invalid")
+        .map((other) => other.name.en);
+      const duplicate =
+        findDuplicateName(name, existingNames) ||
+        findDuplicateName(name, otherNames);
+      return duplicate
+        ? [t("validation.fileNameExists", { name: duplicate })]
+        : [];
+    };
+
+    const nameErrors = new Map(
+      pendingRows.map((row) => [row.id, getNameErrors(row)])
+    );
+    setRows(
+      rows.map((row) => {
+        const errors = nameErrors.get(row.id);
+        return errors ? { ...row, errors } : row;
+      })
+    );
+    return [...nameErrors.values()].every((errors) => errors.length === 0);
+  };
+
+  const handleUpload = async () => {
+    if (pendingRows.length === 0 || !validateNames()) return;
+
+    setIsUploading(true);
+    setSummary(null);
+    try {
+      const result = await bulkUpload({
+        items: pendingRows.map((row) => ({
+          id: row.id,
+          file: row.file,
+          name: {
+            en: row.name.en.trim(),
+            ...(row.name.ar.trim() && { ar: row.name.ar.trim() }),
+            ...(row.name.he.trim() && { he: row.name.he.trim() }),
+          },
+          fileUrl: row.fileUrl,
+        })),
+        folder: entityType,
+        entityType: attachedEntityType,
+        entityId,
+        onItemUpdate: (id, update) =>
+          updateRow(id, {
+            ...update,
+            errors: update.error ? [update.error] : [],
+          }),
+      });
+
+      setSummary(result);
+      if (result.failed === 0) {
+        toast.success(t("toast.filesAttached", { count: result.succeeded }));
+      } else {
+        toast.error(
+          t("toast.filesAttachedPartial", {
+            succeeded: result.succeeded,
+            failed: result.failed,
+          })
+        );
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const renderStatus = (row: BulkFileRow) => {
+    switch (row.status) {
+      case "ready":
+        return <Badge variant="secondary">{t("files.ready")}</Badge>;
+      case "invalid":
+        return <Badge variant="destructive">{t("files.invalid")}</Badge>;
+      case "uploading": {
+        const task = uploadTasks.find((item) => item.id === row.taskId);
+        return (
+          <div className="space-y-1">
+            <Progress value={task?.progress?.percentage || 0} className="h-2" />
+            <span className="text-xs text-gray-500">
+              {task?.status === "queued"
+                ? t("uploads.queued")
+                : task?.status === "paused"
+                ? t("uploads.paused")
+                : `${task?.progress?.percentage || 0}%`}
+            </span>
+          </div>
+        );
+      }
+      case "saving":
+        return (
+          <span className="flex items-center gap-1 text-sm text-blue-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t("files.saving")}
+          </span>
+        );
+      case "done":
+        return (
+          <span className="flex items-center gap-1 text-sm text-green-600">
+            <CheckCircle className="h-4 w-4" />
+            {t("files.attached")}
+          </span>
+        );
+      case "failed":
+        return (
+          <span className="flex items-center gap-1 text-sm text-red-600">
+            <XCircle className="h-4 w-4" />
+            {t("files.failed")}
+          </span>
+        );
+    }
+  };
+
+  const failedCount = rows.filter((row) => row.status === "failed").length;
+  const readyCount = rows.filter((row) => row.status === "ready").length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            {t("files.bulkTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t(DESCRIPTIONS[entityType])}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Dropzone */}
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => !isUploading && inputRef.current?.click()}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === " ") {
+              event.preventDefault();
+              if (!isUploading) inputRef.current?.click();
+            }
+          }}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={cn(
+            "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors",
+            isDragging
+              ? "border-primary bg-primary/5"
+              : "border-gray-300 hover:border-gray-400",
+            isUploading ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+          )}
+        >
+          <Upload className="h-8 w-8 text-gray-400" />
+          <p className="text-sm font-medium">
+            {t("files.dropzone")}
+          </p>
+          <p className="text-xs text-gray-500">
+            {t("files.dropzoneHelp")}
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={getAcceptedExtensions("attached-document")}
+            onChange={handleInputChange}
+            className="hidden"
+          />
+        </div>
+
+        {/* Review grid */}
+        {rows.length > 0 && (
+          <div className="rounded-md border max-h-[45vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[220px]">{t("files.file")}</TableHead>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead className="w-[120px]">
+                    {t("common.status")}
+                  </TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const editable =
+                    !isUploading &&
+                    (row.status === "ready" || row.status === "failed");
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="align-top">
+                        <div className="flex items-start gap-2">
+                          {getFileIcon(row.file.type)}
+                          <div className="min-w-0">
+                            <div className="truncate text-sm font-medium max-w-[180px]">
+                              {row.file.name}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {UploadService.formatBytes(row.file.size)}
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <div className="grid gap-2 md:grid-cols-3">
+                          <Input
+                            value={row.name.en}
+                            placeholder={t("files.englishNamePlaceholder")}
+                            disabled={!editable}
+                            aria-invalid={row.errors.length > 0}
+                            onChange={(e) =>
+                              handleNameChange(row.id, "en", e.target.value)
+                            }
+                          />
+                          <Input
+                            value={row.name.ar}
+                            placeholder={t("files.arabicNamePlaceholder")}
+                            dir="rtl"
+                            disabled={!editable}
+                            onChange={(e) =>
+                              handleNameChange(row.id, "ar", e.target.value)
+                            }
+                          />
+                          <Input
+                            value={row.name.he}
+                            placeholder={t("files.hebrewNamePlaceholder")}
+                            dir="rtl"
+                            disabled={!editable}
+                            onChange={(e) =>
+                              handleNameChange(row.id, "he", e.target.value)
+                            }
+                          />
+                        </div>
+                        {row.errors.map((error) => (
+                          <p key={error} className="mt-1 text-sm text-red-600">
+                            {error}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        {renderStatus(row)}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={isUploading}
+                          onClick={() => removeRow(row.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Summary */}
+        {summary && (
+          <div
+            className={cn(
+              "rounded-lg border p-3 text-sm",
+              summary.failed > 0
+                ? "border-red-200 bg-red-50 text-red-700"
+                : "border-green-200 bg-green-50 text-green-700"
+            )}
+          >
+            {t("files.summary", {
+              succeeded: summary.succeeded,
+              total: summary.succeeded + summary.failed,
+            })}
+            {summary.failed > 0 && ` ${t("files.summaryFailed")}`}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            {summary ? t("common.close") : t("common.cancel")}
+          </Button>
+          <Button
+            type="button"
+            onClick={handleUpload}
+            disabled={isUploading || pendingRows.length === 0}
+          >
+            {isUploading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {t("files.uploading")}
+              </>
+            ) : failedCount > 0 && readyCount === 0 ? (
+              <>
+                <RotateCw className="h-4 w-4 mr-2" />
+                {t("files.retryFailed", { count: failedCount })}
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                {t("files.uploadCount", { count: pendingRows.length })}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
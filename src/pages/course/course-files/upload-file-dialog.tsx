@@ -20,28 +20,36 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Upload, X, Image, Video, Music, File } from "lucide-react";
+import { Upload, X, Image, Video, Music, File, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
-import { UploadService, type UploadProgress } from "@/services/upload-service";
-import { UploadProgressCard } from "@/components/ui/upload-progress";
-import { useCreateAttachedFile } from "@/hooks/use-attached-files";
-import { type CreateAttachedFileInput } from "@/services/attached-files-service";
+import { UploadService } from "@/services/upload-service";
+import {
+  useAttachedFiles,
+  useQueueAttachedFileUpload,
+} from "@/hooks/use-attached-files";
+import {
+  findDuplicateName,
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
 
 // Form schema
 const uploadFileSchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(1, "English name is required")
-      .max(255, "English name cannot exceed 255 characters"),
+      .min(1)
+      .max(255),
     ar: z
       .string()
-      .max(255, "Arabic name cannot exceed 255 characters")
+      .max(255)
       .optional()
       .or(z.literal("")),
     he: z
       .string()
-      .max(255, "Hebrew name cannot exceed 255 characters")
+      .max(255)
       .optional()
       .or(z.literal("")),
   }),
@@ -57,6 +65,15 @@ interface UploadFileDialogProps {
   onFileUploaded?: () => void;
 }
 
+const DESCRIPTIONS: Record<
+  UploadFileDialogProps["entityType"],
+  TranslationKey
+> = {
+  courses: "files.uploadCourseDescription",
+  topics: "files.uploadTopicDescription",
+  lessons: "files.uploadLessonDescription",
+};
+
 export function UploadFileDialog({
   isOpen,
   onClose,
@@ -64,18 +81,23 @@ export function UploadFileDialog({
   entityId,
   onFileUploaded,
 }: UploadFileDialogProps) {
+  const { t } = useTranslation();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(
-    null
-  );
-  const [uploadStatus, setUploadStatus] = useState<
-    "idle" | "uploading" | "completed" | "error"
-  >("idle");
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
 
-  // Mutations
-  const createAttachedFileMutation = useCreateAttachedFile();
+  const attachedEntityType =
+    entityType == "courses"
+      ? "course"
+      : entityType == "topics"
+      ? "topic"
+      : "lesson";
+
+  // Existing files of the entity, used to reject duplicate names
+  const { data: attachedFilesData } = useAttachedFiles(
+    attachedEntityType,
+    entityId
+  );
+  const queueAttachedFileUpload = useQueueAttachedFileUpload();
 
   const form = useForm<UploadFileFormData>({
     resolver: zodResolver(uploadFileSchema),
@@ -88,21 +110,25 @@ export function UploadFileDialog({
   const handleClose = () => {
     form.reset();
     setSelectedFile(null);
-    setUploadProgress(null);
-    setUploadStatus("idle");
-    setUploadError(null);
-    setIsSubmitting(false);
+    setFileErrors([]);
     onClose();
   };
 
   // File selection handler
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = event.target.files?.[0];
     if (file) {
+      // Validate type, size and content before anything is uploaded
+      const errors = await validateUploadFile(file, "attached-document");
+      setFileErrors(errors);
+      if (errors.length > 0) {
+        setSelectedFile(null);
+        return;
+      }
+
       setSelectedFile(file);
-      setUploadStatus("idle");
-      setUploadProgress(null);
-      setUploadError(null);
 
       // Auto-fill the English name with the file name (without extension)
       const fileNameWithoutExt = file.name.replace(/\.[^/.]+$/, "");
@@ -123,61 +149,42 @@ export function UploadFileDialog({
     }
   };
 
-  // Form submission handler
-  const handleSubmit = async (data: UploadFileFormData) => {
+  // Form submission handler. The upload continues in the background upload
+  // tray and the file is attached once it is stored.
+  const handleSubmit = (data: UploadFileFormData) => {
     if (!selectedFile) {
-      toast.error("Please select a file to upload");
+      toast.error(t("toast.selectFileToUpload"));
       return;
     }
 
-    try {
-      setIsSubmitting(true);
-      setUploadStatus("uploading");
-
-      // Step 1: Upload file to S3
-      const uploadType = UploadService.getUploadType(selectedFile.type);
-      const folder = `${entityType}`;
-
-      const uploadResult = await UploadService.uploadFileWithProgress(
-        selectedFile,
-        uploadType,
-        folder,
-        (progress) => setUploadProgress(progress)
-      );
-
-      setUploadStatus("completed");
+    const duplicate = findDuplicateName(
+      data.name.en,
+      (attachedFilesData?.data || []).map((file) => file.name.en)
+    );
+    if (duplicate) {
+      form.setError("name.en", {
+        message: t("files.alreadyAttached", { name: duplicate }),
+      });
+      return;
+    }
 
-      // Step 2: Create attached file record
-      const attachedFileData: CreateAttachedFileInput = {
+    queueAttachedFileUpload({
+      file: selectedFile,
+      folder: entityType,
+      data: {
         name: {
           en: data.name.en,
           ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
           ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
         },
-        fileUrl: uploadResult.key, // Use the S3 key
-        fileType: selectedFile.type,
-        entityType:
-          entityType == "courses"
-            ? "course"
-            : entityType == "topics"
-            ? "topic"
-            : "lesson",
+        entityType: attachedEntityType,
         entityId,
-      };
-
-      await createAttachedFileMutation.mutateAsync(attachedFileData);
+      },
+      onUploaded: onFileUploaded,
+    });
 
-      onFileUploaded?.();
-      handleClose();
-    } catch (error) {
-      setUploadStatus("error");
-      setUploadError(
-        error instanceof Error ? error.message : "File upload failed"
-      );
-      // Error toast is handled by the hook
-    } finally {
-      setIsSubmitting(false);
-    }
+    toast.info(t("toast.uploadQueued", { name: data.name.en }));
+    handleClose();
   };
 
   return (
@@ -186,11 +193,10 @@ export function UploadFileDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Upload className="h-5 w-5" />
-            Upload File
+            {t("files.uploadFile")}
           </DialogTitle>
           <DialogDescription>
-            Upload a file to attach to this {entityType}. Supported formats
-            include images, videos, documents, audio files, and more.
+            {t(DESCRIPTIONS[entityType])}
           </DialogDescription>
         </DialogHeader>
 
@@ -203,11 +209,10 @@ export function UploadFileDialog({
             <div className="space-y-4">
               <div>
                 <FormLabel className="text-base font-medium">
-                  Select File *
+                  {t("files.selectFile")}
                 </FormLabel>
                 <p className="text-sm text-gray-600 mb-3">
-                  Choose any file to upload (images, videos, documents, audio,
-                  etc.)
+                  {t("files.selectFileHelp")}
                 </p>
               </div>
 
@@ -217,7 +222,7 @@ export function UploadFileDialog({
                     type="file"
                     onChange={handleFileSelect}
                     className="flex-1"
-                    accept="*/*"
+                    accept={getAcceptedExtensions("attached-document")}
                   />
                   {selectedFile && (
                     <Button
@@ -231,6 +236,17 @@ export function UploadFileDialog({
                   )}
                 </div>
 
+                {fileErrors.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 border border-red-200 rounded-lg bg-red-50">
+                    <AlertCircle className="h-5 w-5 shrink-0 text-red-500" />
+                    <ul className="space-y-1 text-sm text-red-700">
+                      {fileErrors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {selectedFile && (
                   <div className="flex items-center gap-3 p-3 border rounded-lg bg-gray-50">
                     {getFileIcon(selectedFile.type)}
@@ -246,31 +262,6 @@ export function UploadFileDialog({
                   </div>
                 )}
 
-                {/* Upload Progress */}
-                {uploadStatus === "uploading" && uploadProgress && (
-                  <UploadProgressCard
-                    progress={uploadProgress}
-                    fileName={selectedFile?.name || ""}
-                    status="uploading"
-                  />
-                )}
-
-                {uploadStatus === "completed" && uploadProgress && (
-                  <UploadProgressCard
-                    progress={uploadProgress}
-                    fileName={selectedFile?.name || ""}
-                    status="completed"
-                  />
-                )}
-
-                {uploadStatus === "error" && uploadProgress && (
-                  <UploadProgressCard
-                    progress={uploadProgress}
-                    fileName={selectedFile?.name || ""}
-                    status="error"
-                    error={uploadError}
-                  />
-                )}
               </div>
             </div>
 
@@ -278,10 +269,10 @@ export function UploadFileDialog({
             <div className="space-y-4">
               <div>
                 <FormLabel className="text-base font-medium">
-                  File Name
+                  {t("files.fileName")}
                 </FormLabel>
                 <p className="text-sm text-gray-600 mb-3">
-                  Provide a descriptive name for the file in multiple languages.
+                  {t("files.fileNameHelp")}
                 </p>
               </div>
 
@@ -291,10 +282,10 @@ export function UploadFileDialog({
                   name="name.en"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>English Name *</FormLabel>
+                      <FormLabel>{t("common.englishNameRequired")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter file name in English"
+                          placeholder={t("files.namePlaceholderEn")}
                           {...field}
                         />
                       </FormControl>
@@ -307,10 +298,10 @@ export function UploadFileDialog({
                   name="name.ar"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Arabic Name</FormLabel>
+                      <FormLabel>{t("files.arabicName")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter file name in Arabic"
+                          placeholder={t("files.namePlaceholderAr")}
                           {...field}
                         />
                       </FormControl>
@@ -323,10 +314,10 @@ export function UploadFileDialog({
                   name="name.he"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Hebrew Name</FormLabel>
+                      <FormLabel>{t("files.hebrewName")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter file name in Hebrew"
+                          placeholder={t("files.namePlaceholderHe")}
                           {...field}
                         />
                       </FormControl>
@@ -338,25 +329,11 @@ export function UploadFileDialog({
             </div>
 
             <DialogFooter>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleClose}
-                disabled={isSubmitting}
-              >
-                Cancel
+              <Button type="button" variant="outline" onClick={handleClose}>
+                {t("common.cancel")}
               </Button>
-              <Button
-                type="submit"
-                disabled={
-                  isSubmitting || !selectedFile || uploadStatus === "uploading"
-                }
-              >
-                {isSubmitting
-                  ? uploadStatus === "uploading"
-                    ? "Uploading..."
-                    : "Creating Record..."
-                  : "Upload File"}
+              <Button type="submit" disabled={!selectedFile}>
+                {t("files.uploadFile")}
               </Button>
             </DialogFooter>
           </form>
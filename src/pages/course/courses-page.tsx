@@ -44,7 +44,9 @@ import {
   TrendingUp,
 } from "lucide-react"
 import { toast } from "sonner"
-import { useAuthStore } from "@/stores/auth-store"
+import { useHasPermission } from "@/hooks/use-authorization"
+import { useLocalizedText } from "@/hooks/use-localized-text"
+import { Can } from "@/components/shared/can"
 import {
   useCourses,
   useDeleteCourse,
@@ -52,10 +54,12 @@ import {
   useCourseStats,
 } from "@/hooks/use-courses"
 import type { Course } from "@/types/api"
+import { useTranslation } from "@/hooks/use-translation"
 
 export function CoursesPage() {
+  const { t } = useTranslation()
   const navigate = useNavigate()
-  const { hasPermission } = useAuthStore()
+  const localizeText = useLocalizedText()
   const [searchTerm, setSearchTerm] = useState("")
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all")
   const [currentPage, setCurrentPage] = useState(1)
@@ -89,12 +93,12 @@ export function CoursesPage() {
   const confirmDeleteCourse = async () => {
     try {
       await deleteCourseMutation.mutateAsync(deleteCourseId)
-      toast.success("Course deleted successfully!")
+      toast.success(t("toast.courseDeleted"))
       setIsDeleteDialogOpen(false)
       setDeleteCourseId("")
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete course"
+        error instanceof Error ? error.message : t("toast.courseDeleteFailed")
       )
     }
   }
@@ -109,13 +113,15 @@ export function CoursesPage() {
         isActive: !currentStatus,
       })
       toast.success(
-        `Course ${!currentStatus ? "activated" : "deactivated"} successfully!`
+        !currentStatus
+          ? t("toast.courseActivated")
+          : t("toast.courseDeactivated")
       )
     } catch (error) {
       toast.error(
         error instanceof Error
           ? error.message
-          : "Failed to update course status"
+          : t("toast.courseStatusFailed")
       )
     }
   }
@@ -131,36 +137,28 @@ export function CoursesPage() {
   }
 
   // Helper function to get course name
-  const getCourseName = (course: Course): string => {
-    if (typeof course.name === "string") {
-      return course.name
-    }
-    return course.name.en || "Unknown Course"
-  }
+  const getCourseName = (course: Course): string =>
+    localizeText(course.name, t("courses.unknown"))
 
   // Helper function to get course description
-  const getCourseDescription = (course: Course): string => {
-    if (typeof course.aboutCourse === "string") {
-      return course.aboutCourse
-    }
-    return course.aboutCourse.en || "No description available"
-  }
+  const getCourseDescription = (course: Course): string =>
+    localizeText(course.aboutCourse, t("courses.noDescription"))
 
   // Helper function to get faculty names
   const getFacultyNames = (course: Course): string[] => {
     if (!Array.isArray(course.facultyIds)) return []
 
     return course.facultyIds.map((faculty) => {
-      if (typeof faculty === "string") return "Unknown Faculty"
-      if (typeof faculty.name === "string") return faculty.name
-      return faculty.name.en || "Unknown Faculty"
+      if (typeof faculty === "string") return t("faculties.unknown")
+      return localizeText(faculty.name, t("faculties.unknown"))
     })
   }
 
   // Helper function to get instructor name
   const getInstructorName = (course: Course): string => {
-    if (typeof course.instructorId === "string") return "Unknown Instructor"
-    return course.instructorId?.userName || "Unknown Instructor"
+    if (typeof course.instructorId === "string")
+      return t("courses.unknownInstructor")
+    return course.instructorId?.userName || t("courses.unknownInstructor")
   }
 
   // Helper function to calculate discounted price
@@ -168,36 +166,37 @@ export function CoursesPage() {
     return course.coursePrice - (course.coursePrice * course.discount) / 100
   }
 
-  const canCreate = hasPermission("create_courses")
-  const canUpdate = hasPermission("update_courses")
-  const canDelete = hasPermission("delete_courses")
+  const canUpdate = useHasPermission("update", "courses")
+  const canDelete = useHasPermission("delete", "courses")
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex flex-col md:flex-row justify-between items-center gap-4 sticky top-0 z-50 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 py-4 -mx-6 px-6 mb-6">
         <div>
-          <h1 className="text-3xl font-bold">Course Management</h1>
+          <h1 className="text-3xl font-bold">{t("courses.title")}</h1>
           <p className="text-gray-600">
-            Manage courses and their content across multiple faculties.
+            {t("courses.subtitle")}
           </p>
         </div>
-        {canCreate && (
+        <Can action="create" resource="courses" mode="disable">
           <Button
             className="w-full md:w-auto"
             onClick={() => navigate("/dashboard/courses/new")}
           >
             <Plus className="mr-2 h-4 w-4" />
-            Create Course
+            {t("courses.create")}
           </Button>
-        )}
+        </Can>
       </div>
 
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Courses</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("courses.total")}
+            </CardTitle>
             <BookOpen className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -209,7 +208,7 @@ export function CoursesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Active Courses
+              {t("courses.active")}
             </CardTitle>
             <BookOpen className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -221,7 +220,9 @@ export function CoursesPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average Price</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("courses.averagePrice")}
+            </CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -232,7 +233,9 @@ export function CoursesPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("courses.totalRevenue")}
+            </CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -246,9 +249,9 @@ export function CoursesPage() {
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Courses</CardTitle>
+          <CardTitle>{t("courses.courses")}</CardTitle>
           <CardDescription>
-            Browse and manage all available courses.
+            {t("courses.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -257,7 +260,7 @@ export function CoursesPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search courses..."
+                  placeholder={t("courses.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -267,12 +270,12 @@ export function CoursesPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -283,12 +286,12 @@ export function CoursesPage() {
           {/* Courses Grid */}
           {isLoading ? (
             <div className="text-center py-8">
-              <p className="text-gray-500">Loading courses...</p>
+              <p className="text-gray-500">{t("courses.loading")}</p>
             </div>
           ) : coursesData?.data?.items?.length === 0 ? (
             <div className="text-center py-8">
               <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-500">No courses found.</p>
+              <p className="text-gray-500">{t("courses.notFound")}</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -312,7 +315,9 @@ export function CoursesPage() {
                         variant={course.isActive ? "default" : "secondary"}
                         className="text-xs"
                       >
-                        {course.isActive ? "Active" : "Inactive"}
+                        {course.isActive
+                          ? t("common.active")
+                          : t("common.inactive")}
                       </Badge>
                     </div>
                     {course.discount > 0 && (
@@ -343,7 +348,11 @@ export function CoursesPage() {
                     <div className="space-y-2 text-sm">
                       <div className="flex items-center gap-2">
                         <Clock className="h-4 w-4 text-muted-foreground" />
-                        <span>{course.numberOfCourseHours} hours</span>
+                        <span>
+                          {t("courses.hours", {
+                            count: course.numberOfCourseHours,
+                          })}
+                        </span>
                       </div>
                       <div className="flex items-center gap-2">
                         <DollarSign className="h-4 w-4 text-muted-foreground" />
@@ -382,7 +391,7 @@ export function CoursesPage() {
                           <div className="flex items-center gap-2 mb-2">
                             <BookOpen className="h-4 w-4 text-muted-foreground" />
                             <span className="text-sm font-medium">
-                              Learning Outcomes
+                              {t("courses.learningOutcomes")}
                             </span>
                           </div>
                           <div className="space-y-1">
@@ -394,14 +403,14 @@ export function CoursesPage() {
                                   className="text-xs text-muted-foreground line-clamp-1"
                                 >
                                   •{" "}
-                                  {typeof outcome === "string"
-                                    ? outcome
-                                    : outcome.en}
+                                  {localizeText(outcome)}
                                 </div>
                               ))}
                             {course.whatWillYouLearn.length > 2 && (
                               <div className="text-xs text-muted-foreground">
-                                +{course.whatWillYouLearn.length - 2} more
+                                {t("common.more", {
+                                  count: course.whatWillYouLearn.length - 2,
+                                })}
                               </div>
                             )}
                           </div>
@@ -420,34 +429,38 @@ export function CoursesPage() {
                           }
                         >
                           <BookOpen className="h-4 w-4 mr-1" />
-                          Topics
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="flex-1 w-full"
-                          onClick={() =>
-                            navigate(`/dashboard/courses/${course._id}/files`)
-                          }
-                        >
-                          <File className="h-4 w-4 mr-1" />
-                          Files
+                          {t("courses.topics")}
                         </Button>
+                        <Can action="read" resource="attached_files">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1 w-full"
+                            onClick={() =>
+                              navigate(`/dashboard/courses/${course._id}/files`)
+                            }
+                          >
+                            <File className="h-4 w-4 mr-1" />
+                            {t("courses.files")}
+                          </Button>
+                        </Can>
                       </div>
                       <div className="flex items-center gap-2 w-full">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="flex-1 w-full"
-                          onClick={() =>
-                            navigate(
-                              `/dashboard/courses/${course._id}/progress`
-                            )
-                          }
-                        >
-                          <TrendingUp className="h-4 w-4 mr-1" />
-                          Progress
-                        </Button>
+                        <Can action="read" resource="progress">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1 w-full"
+                            onClick={() =>
+                              navigate(
+                                `/dashboard/courses/${course._id}/progress`
+                              )
+                            }
+                          >
+                            <TrendingUp className="h-4 w-4 mr-1" />
+                            {t("courses.progress")}
+                          </Button>
+                        </Can>
                       </div>
                       <div className="flex items-center gap-2 w-full">
                         {canUpdate && (
@@ -463,7 +476,7 @@ export function CoursesPage() {
                               }
                             >
                               <Edit className="h-4 w-4 mr-1" />
-                              Edit
+                              {t("common.edit")}
                             </Button>
                             <Switch
                               disabled={toggleCourseStatusMutation.isPending}
@@ -499,17 +512,18 @@ export function CoursesPage() {
           {coursesData?.data?.pagination && (
             <div className="flex items-center justify-between mt-6">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(coursesData.data.pagination.currentPage - 1) *
-                  coursesData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  coursesData.data.pagination.currentPage *
-                    coursesData.data.pagination.itemsPerPage,
-                  coursesData.data.pagination.totalItems
-                )}{" "}
-                of {coursesData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (coursesData.data.pagination.currentPage - 1) *
+                      coursesData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    coursesData.data.pagination.currentPage *
+                      coursesData.data.pagination.itemsPerPage,
+                    coursesData.data.pagination.totalItems
+                  ),
+                  total: coursesData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -518,7 +532,7 @@ export function CoursesPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!coursesData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -526,7 +540,7 @@ export function CoursesPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!coursesData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -541,19 +555,18 @@ export function CoursesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Course</AlertDialogTitle>
+            <AlertDialogTitle>{t("courses.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this course? This action cannot be
-              undone.
+              {t("courses.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteCourse}
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { useRef, useState, useEffect } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -52,92 +52,48 @@ import {
 } from "@/hooks/use-courses";
 import { useAdminsByRoleName } from "@/hooks/use-admins";
 import { useVideosForSelect } from "@/hooks/use-videos-library";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { toLocalizedText } from "@/lib/localized-text";
+import {
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation";
+import {
+  localizedTextSchema,
+  toLocalizedTextInput,
+} from "@/lib/localized-schema";
 import { UploadService, type UploadProgress } from "@/services/upload-service";
 import { UploadProgressCard } from "@/components/ui/upload-progress";
-import RichTextEditor, {
-  type RichTextEditorRef,
-} from "@/components/ui/RichTextEditor";
+import { LocalizedFormField } from "@/components/shared/localized-field";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form schemas
 const courseSchema = z.object({
-  name: z.object({
-    en: z
-      .string()
-      .min(2, "English name must be at least 2 characters")
-      .max(200, "English name cannot exceed 200 characters"),
-    ar: z
-      .string()
-      .min(2, "Arabic name must be at least 2 characters")
-      .max(200, "Arabic name cannot exceed 200 characters")
-      .optional()
-      .or(z.literal("")),
-    he: z
-      .string()
-      .min(2, "Hebrew name must be at least 2 characters")
-      .max(200, "Hebrew name cannot exceed 200 characters")
-      .optional()
-      .or(z.literal("")),
-  }),
-  aboutCourse: z.object({
-    en: z
-      .string()
-      .min(10, "English description must be at least 10 characters")
-      .max(2000, "English description cannot exceed 2000 characters"),
-    ar: z
-      .string()
-      .min(10, "Arabic description must be at least 10 characters")
-      .max(2000, "Arabic description cannot exceed 2000 characters")
-      .optional()
-      .or(z.literal("")),
-    he: z
-      .string()
-      .min(10, "Hebrew description must be at least 10 characters")
-      .max(2000, "Hebrew description cannot exceed 2000 characters")
-      .optional()
-      .or(z.literal("")),
-  }),
+  name: localizedTextSchema({ min: 2, max: 200 }),
+  aboutCourse: localizedTextSchema({ min: 10, max: 2000 }),
   whatWillYouLearn: z
-    .array(
-      z.object({
-        en: z
-          .string()
-          .min(5, "English learning outcome must be at least 5 characters")
-          .max(500, "English learning outcome cannot exceed 500 characters"),
-        ar: z
-          .string()
-          .min(5, "Arabic learning outcome must be at least 5 characters")
-          .max(500, "Arabic learning outcome cannot exceed 500 characters")
-          .optional()
-          .or(z.literal("")),
-        he: z
-          .string()
-          .min(5, "Hebrew learning outcome must be at least 5 characters")
-          .max(500, "Hebrew learning outcome cannot exceed 500 characters")
-          .optional()
-          .or(z.literal("")),
-      })
-    )
-    .min(1, "At least one learning outcome is required"),
+    .array(localizedTextSchema({ min: 5, max: 500 }))
+    .min(1, "validation.learningOutcomeRequired"),
   numberOfCourseHours: z
     .number()
-    .min(1, "Number of course hours must be at least 1")
-    .max(1000, "Number of course hours cannot exceed 1000"),
+    .min(1)
+    .max(1000),
   coursePrice: z
     .number()
-    .min(0, "Course price must be at least 0")
-    .max(100000, "Course price cannot exceed 100000"),
+    .min(0)
+    .max(100000),
   discount: z
     .number()
-    .min(0, "Discount must be at least 0")
-    .max(100, "Discount cannot exceed 100"),
+    .min(0)
+    .max(100),
   facultyIds: z
     .array(z.string())
-    .min(1, "At least one faculty must be selected"),
-  instructorId: z.string().min(1, "Instructor is required"),
+    .min(1),
+  instructorId: z.string().min(1),
   instructorPercentage: z
     .number()
-    .min(0, "Instructor percentage must be at least 0")
-    .max(100, "Instructor percentage cannot exceed 100"),
+    .min(0)
+    .max(100),
   imageUrl: z.string().optional(),
   introductoryVideoId: z.string().optional(),
   isActive: z.boolean(),
@@ -146,7 +102,9 @@ const courseSchema = z.object({
 type CourseFormData = z.infer<typeof courseSchema>;
 
 export function CreateCourse() {
+  const { t } = useTranslation();
   const navigate = useNavigate();
+  const localizeText = useLocalizedText();
   const { id } = useParams<{ id: string }>();
 
   const [isEditing, setIsEditing] = useState(false);
@@ -159,7 +117,6 @@ export function CreateCourse() {
     "idle" | "uploading" | "completed" | "error"
   >("idle");
   const [uploadError, setUploadError] = useState<string | null>(null);
-  const editorRef = useRef<RichTextEditorRef>(null);
 
   // Queries
   const { data: courseData, isLoading: isLoadingCourse } = useCourse(id || "");
@@ -194,15 +151,6 @@ export function CreateCourse() {
   useEffect(() => {
     if (id && courseData?.data) {
       const course = courseData.data;
-      const courseName =
-        typeof course.name === "string"
-          ? { en: course.name, ar: "", he: "" }
-          : course.name;
-
-      const courseAbout =
-        typeof course.aboutCourse === "string"
-          ? { en: course.aboutCourse, ar: "", he: "" }
-          : course.aboutCourse;
 
       const facultyIds = Array.isArray(course.facultyIds)
         ? course.facultyIds.map((faculty) =>
@@ -216,20 +164,10 @@ export function CreateCourse() {
           : course.instructorId._id;
 
       form.reset({
-        name: {
-          en: courseName.en || "",
-          ar: courseName.ar || "",
-          he: courseName.he || "",
-        },
-        aboutCourse: {
-          en: courseAbout.en || "",
-          ar: courseAbout.ar || "",
-          he: courseAbout.he || "",
-        },
+        name: toLocalizedText(course.name),
+        aboutCourse: toLocalizedText(course.aboutCourse),
         whatWillYouLearn: Array.isArray(course.whatWillYouLearn)
-          ? course.whatWillYouLearn.map((item) =>
-              typeof item === "string" ? { en: item, ar: "", he: "" } : item
-            )
+          ? course.whatWillYouLearn.map((item) => toLocalizedText(item))
           : [{ en: "", ar: "", he: "" }],
         numberOfCourseHours: course.numberOfCourseHours,
         coursePrice: course.coursePrice,
@@ -281,12 +219,14 @@ export function CreateCourse() {
         } catch (error) {
           setImageUploadStatus("error");
           setUploadError(
-            error instanceof Error ? error.message : "Image upload failed"
+            error instanceof Error
+              ? error.message
+              : t("courses.imageUploadFailed")
           );
           throw error;
         }
       } else if (!isEditing && !data.imageUrl) {
-        throw new Error("Course image is required");
+        throw new Error(t("courses.imageRequired"));
       }
 
       // Get video URL from selected video ID
@@ -302,23 +242,9 @@ export function CreateCourse() {
 
       // Clean up empty strings
       const processedData = {
-        name: {
-          en: data.name.en,
-          ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
-          ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
-        },
-        aboutCourse: {
-          en: data.aboutCourse.en,
-          ...(data.aboutCourse.ar &&
-            data.aboutCourse.ar.trim() && { ar: data.aboutCourse.ar }),
-          ...(data.aboutCourse.he &&
-            data.aboutCourse.he.trim() && { he: data.aboutCourse.he }),
-        },
-        whatWillYouLearn: data.whatWillYouLearn.map((item) => ({
-          en: item.en,
-          ...(item.ar && item.ar.trim() && { ar: item.ar }),
-          ...(item.he && item.he.trim() && { he: item.he }),
-        })),
+        name: toLocalizedTextInput(data.name),
+        aboutCourse: toLocalizedTextInput(data.aboutCourse),
+        whatWillYouLearn: data.whatWillYouLearn.map(toLocalizedTextInput),
         numberOfCourseHours: data.numberOfCourseHours,
         coursePrice: data.coursePrice,
         discount: data.discount,
@@ -332,15 +258,15 @@ export function CreateCourse() {
 
       if (isEditing && id) {
         await updateCourseMutation.mutateAsync({ id, data: processedData });
-        toast.success("Course updated successfully!");
+        toast.success(t("toast.courseUpdated"));
       } else {
         await createCourseMutation.mutateAsync(processedData);
-        toast.success("Course created successfully!");
+        toast.success(t("toast.courseCreated"));
       }
       navigate("/dashboard/courses");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to save course"
+        error instanceof Error ? error.message : t("toast.courseSaveFailed")
       );
     }
   };
@@ -364,12 +290,15 @@ export function CreateCourse() {
   };
 
   // File upload handlers
-  const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Validate file type
-      if (!file.type.startsWith("image/")) {
-        toast.error("Please select a valid image file");
+      // Validate type, size and content before anything is uploaded
+      const errors = await validateUploadFile(file, "course-image");
+      if (errors.length > 0) {
+        errors.forEach((error) => toast.error(error));
         return;
       }
       setSelectedImage(file);
@@ -383,7 +312,7 @@ export function CreateCourse() {
     return (
       <div className="space-y-6">
         <div className="text-center py-8">
-          <p className="text-gray-500">Loading course...</p>
+          <p className="text-gray-500">{t("courses.loadingCourse")}</p>
         </div>
       </div>
     );
@@ -393,7 +322,7 @@ export function CreateCourse() {
     return (
       <div className="space-y-6">
         <div className="text-center py-8">
-          <p className="text-gray-500">Course not found.</p>
+          <p className="text-gray-500">{t("courses.courseNotFound")}</p>
         </div>
       </div>
     );
@@ -405,12 +334,12 @@ export function CreateCourse() {
       <div className="flex flex-col lg:flex-row justify-between items-center gap-4 w-full sticky top-0 z-50 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 py-4 px-6">
         <div>
           <h1 className="text-3xl font-bold">
-            {isEditing ? "Edit Course" : "Create New Course"}
+            {isEditing ? t("courses.editTitle") : t("courses.createTitle")}
           </h1>
           <p className="text-gray-600">
             {isEditing
-              ? "Update course information and settings."
-              : "Create a new course with multilingual support."}
+              ? t("courses.editDescription")
+              : t("courses.createDescription")}
           </p>
         </div>
         <div className="flex justify-between items-center gap-4">
@@ -419,7 +348,7 @@ export function CreateCourse() {
             onClick={() => navigate("/dashboard/courses")}
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Courses
+            {t("courses.backToCourses")}
           </Button>
           <Button
             onClick={form.handleSubmit(handleSubmit)}
@@ -431,10 +360,10 @@ export function CreateCourse() {
           >
             <Save className="h-4 w-4 mr-2" />
             {createCourseMutation.isPending || updateCourseMutation.isPending
-              ? "Saving..."
+              ? t("common.saving")
               : imageUploadStatus === "uploading"
-              ? "Uploading image..."
-              : "Save Course"}
+              ? t("courses.uploadingImage")
+              : t("courses.save")}
           </Button>
         </div>
       </div>
@@ -446,119 +375,26 @@ export function CreateCourse() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <BookOpen className="h-5 w-5" />
-                Basic Information
+                {t("courses.basicInformation")}
               </CardTitle>
               <CardDescription>
-                Enter the course name and description in multiple languages.
+                {t("courses.basicInformationDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {/* Course Name */}
-              <div className="grid gap-4">
-                <FormField
-                  control={form.control}
-                  name="name.en"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Course Name (English) *</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Enter course name in English"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="name.ar"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Course Name (Arabic)</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Enter course name in Arabic"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="name.he"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Course Name (Hebrew)</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Enter course name in Hebrew"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <LocalizedFormField
+                control={form.control}
+                name="name"
+                label={t("courses.name")}
+                placeholder={t("courses.namePlaceholder")}
+              />
 
-              {/* Course Description */}
-              <div className="grid gap-4">
-                <FormField
-                  control={form.control}
-                  name="aboutCourse.en"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Course Description (English) *</FormLabel>
-                      <FormControl>
-                        <RichTextEditor
-                          ref={editorRef}
-                          value={field.value}
-                          onChange={(content) => field.onChange(content)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="aboutCourse.ar"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Course Description (Arabic)</FormLabel>
-                      <FormControl>
-                        <RichTextEditor
-                          ref={editorRef}
-                          value={field.value}
-                          onChange={(content) => field.onChange(content)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="aboutCourse.he"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Course Description (Hebrew)</FormLabel>
-                      <FormControl>
-                        <RichTextEditor
-                          ref={editorRef}
-                          value={field.value}
-                          onChange={(content) => field.onChange(content)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <LocalizedFormField
+                control={form.control}
+                name="aboutCourse"
+                label={t("courses.courseDescription")}
+                editor="rich-text"
+              />
             </CardContent>
           </Card>
 
@@ -567,10 +403,10 @@ export function CreateCourse() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <GraduationCap className="h-5 w-5" />
-                Learning Outcomes
+                {t("courses.learningOutcomes")}
               </CardTitle>
               <CardDescription>
-                Define what students will learn from this course.
+                {t("courses.learningOutcomesDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -578,7 +414,9 @@ export function CreateCourse() {
                 <div key={index} className="space-y-4 p-4 border rounded-lg">
                   <div className="flex justify-between items-center">
                     <h4 className="font-medium">
-                      Learning Outcome {index + 1}
+                      {t("courses.learningOutcomeNumber", {
+                        number: index + 1,
+                      })}
                     </h4>
                     {form.watch("whatWillYouLearn").length > 1 && (
                       <Button
@@ -591,56 +429,12 @@ export function CreateCourse() {
                       </Button>
                     )}
                   </div>
-                  <div className="grid gap-4">
-                    <FormField
-                      control={form.control}
-                      name={`whatWillYouLearn.${index}.en`}
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>English *</FormLabel>
-                          <FormControl>
-                            <Input
-                              placeholder="Enter learning outcome in English"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name={`whatWillYouLearn.${index}.ar`}
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Arabic</FormLabel>
-                          <FormControl>
-                            <Input
-                              placeholder="Enter learning outcome in Arabic"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name={`whatWillYouLearn.${index}.he`}
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Hebrew</FormLabel>
-                          <FormControl>
-                            <Input
-                              placeholder="Enter learning outcome in Hebrew"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                  <LocalizedFormField
+                    control={form.control}
+                    name={`whatWillYouLearn.${index}`}
+                    label={t("courses.learningOutcome")}
+                    placeholder={t("courses.learningOutcomePlaceholder")}
+                  />
                 </div>
               ))}
               <Button
@@ -649,7 +443,7 @@ export function CreateCourse() {
                 onClick={handleAddLearningOutcome}
               >
                 <Plus className="h-4 w-4 mr-2" />
-                Add Learning Outcome
+                {t("courses.addLearningOutcome")}
               </Button>
             </CardContent>
           </Card>
@@ -659,10 +453,10 @@ export function CreateCourse() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Clock className="h-5 w-5" />
-                Course Details
+                {t("courses.details")}
               </CardTitle>
               <CardDescription>
-                Set course duration, pricing, and instructor information.
+                {t("courses.detailsDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -672,11 +466,11 @@ export function CreateCourse() {
                   name="numberOfCourseHours"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Course Hours *</FormLabel>
+                      <FormLabel>{t("courses.hoursLabel")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
-                          placeholder="Enter course hours"
+                          placeholder={t("courses.hoursPlaceholder")}
                           {...field}
                           onChange={(e) =>
                             field.onChange(parseInt(e.target.value) || 0)
@@ -692,11 +486,11 @@ export function CreateCourse() {
                   name="coursePrice"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Course Price *</FormLabel>
+                      <FormLabel>{t("courses.price")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
-                          placeholder="Enter course price"
+                          placeholder={t("courses.pricePlaceholder")}
                           {...field}
                           onChange={(e) =>
                             field.onChange(parseFloat(e.target.value) || 0)
@@ -712,11 +506,11 @@ export function CreateCourse() {
                   name="discount"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Discount (%)</FormLabel>
+                      <FormLabel>{t("courses.discount")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
-                          placeholder="Enter discount percentage"
+                          placeholder={t("courses.discountPlaceholder")}
                           {...field}
                           onChange={(e) =>
                             field.onChange(parseFloat(e.target.value) || 0)
@@ -735,14 +529,16 @@ export function CreateCourse() {
                   name="instructorId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Instructor *</FormLabel>
+                      <FormLabel>{t("courses.instructor")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         defaultValue={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select an instructor" />
+                            <SelectValue
+                              placeholder={t("courses.selectInstructor")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -762,11 +558,11 @@ export function CreateCourse() {
                   name="instructorPercentage"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Instructor Percentage *</FormLabel>
+                      <FormLabel>{t("courses.instructorPercentage")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
-                          placeholder="Enter instructor percentage"
+                          placeholder={t("courses.instructorPercentagePlaceholder")}
                           {...field}
                           onChange={(e) =>
                             field.onChange(parseFloat(e.target.value) || 0)
@@ -786,10 +582,10 @@ export function CreateCourse() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Users className="h-5 w-5" />
-                Associated Faculties
+                {t("courses.associatedFaculties")}
               </CardTitle>
               <CardDescription>
-                Select the faculties this course belongs to.
+                {t("courses.associatedFacultiesDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -802,19 +598,17 @@ export function CreateCourse() {
                   facultiesData?.data?.map((group) => {
                     group.faculties.map((faculty) => {
                       options.push({
-                        label: `${
-                          typeof faculty.name === "string"
-                            ? faculty.name
-                            : faculty.name.en
-                        } (${group.universityName.en})`,
+                        label: `${localizeText(faculty.name)} (${localizeText(
+                          group.universityName
+                        )})`,
                         value: faculty._id,
-                        group: group.universityName.en,
+                        group: localizeText(group.universityName),
                       });
                     });
                   });
                   return (
                     <FormItem>
-                      <FormLabel>Faculties *</FormLabel>
+                      <FormLabel>{t("courses.faculties")}</FormLabel>
                       <FormControl>
                         <MultipleSelector
                           options={options}
@@ -829,12 +623,12 @@ export function CreateCourse() {
                               selectedOptions.map((opt) => opt.value)
                             );
                           }}
-                          placeholder="Select faculties..."
+                          placeholder={t("courses.selectFaculties")}
                           maxSelected={5}
                           groupBy="group"
                           emptyIndicator={
                             <p className="text-center text-lg leading-10 text-gray-600 dark:text-gray-400">
-                              No faculties found.
+                              {t("courses.noFaculties")}
                             </p>
                           }
                         />
@@ -852,11 +646,10 @@ export function CreateCourse() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Video className="h-5 w-5" />
-                Media Upload
+                {t("courses.mediaUpload")}
               </CardTitle>
               <CardDescription>
-                Upload course image (required) and introductory video
-                (optional).
+                {t("courses.mediaUploadDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -864,11 +657,10 @@ export function CreateCourse() {
               <div className="space-y-4">
                 <div>
                   <FormLabel className="text-base font-medium">
-                    Course Image *
+                    {t("courses.image")}
                   </FormLabel>
                   <p className="text-sm text-gray-600 mb-3">
-                    Upload a high-quality image for your course (JPG, PNG, GIF,
-                    WebP, SVG)
+                    {t("courses.imageHelp")}
                   </p>
                 </div>
 
@@ -876,7 +668,7 @@ export function CreateCourse() {
                   <div className="flex items-center gap-3">
                     <Input
                       type="file"
-                      accept="image/*"
+                      accept={getAcceptedExtensions("course-image")}
                       onChange={handleImageSelect}
                       className="flex-1"
                     />
@@ -887,15 +679,17 @@ export function CreateCourse() {
                         size="sm"
                         onClick={() => setSelectedImage(null)}
                       >
-                        Clear
+                        {t("common.clear")}
                       </Button>
                     )}
                   </div>
 
                   {selectedImage && (
                     <div className="text-sm text-gray-600">
-                      Selected: {selectedImage.name} (
-                      {UploadService.formatBytes(selectedImage.size)})
+                      {t("common.selectedFile", {
+                        name: selectedImage.name,
+                        size: UploadService.formatBytes(selectedImage.size),
+                      })}
                     </div>
                   )}
 
@@ -930,11 +724,11 @@ export function CreateCourse() {
                     !selectedImage && (
                       <div className="mt-3 p-3 border rounded-lg bg-gray-50">
                         <p className="text-sm text-gray-600 mb-2">
-                          Current image:
+                          {t("courses.currentImage")}
                         </p>
                         <img
                           src={courseData.data.imageUrl}
-                          alt="Current course image"
+                          alt={t("courses.currentImageAlt")}
                           className="max-w-xs h-auto rounded border"
                         />
                       </div>
@@ -946,10 +740,10 @@ export function CreateCourse() {
               <div className="space-y-4">
                 <div>
                   <FormLabel className="text-base font-medium">
-                    Introductory Video
+                    {t("courses.introductoryVideo")}
                   </FormLabel>
                   <p className="text-sm text-gray-600 mb-3">
-                    Select an introductory video from your video library
+                    {t("courses.introductoryVideoHelp")}
                   </p>
                 </div>
 
@@ -958,19 +752,21 @@ export function CreateCourse() {
                   name="introductoryVideoId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Select Video</FormLabel>
+                      <FormLabel>{t("courses.selectVideo")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         defaultValue={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select a video from library" />
+                            <SelectValue
+                              placeholder={t("courses.selectVideoPlaceholder")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
                           <SelectItem value={null as any}>
-                            No video selected
+                            {t("courses.noVideoSelected")}
                           </SelectItem>
                           {videosData?.data?.map((video) => (
                             <SelectItem key={video.id} value={video.id}>
@@ -988,7 +784,7 @@ export function CreateCourse() {
                 {form.watch("introductoryVideoId") && (
                   <div className="mt-3 p-3 border rounded-lg bg-gray-50">
                     <p className="text-sm text-gray-600 mb-2">
-                      Selected video:
+                      {t("courses.selectedVideo")}
                     </p>
                     <div className="text-sm font-medium">
                       {
@@ -1021,9 +817,9 @@ export function CreateCourse() {
           {/* Course Status */}
           <Card>
             <CardHeader>
-              <CardTitle>Course Status</CardTitle>
+              <CardTitle>{t("courses.status")}</CardTitle>
               <CardDescription>
-                Control whether the course is active or inactive.
+                {t("courses.statusDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1033,9 +829,11 @@ export function CreateCourse() {
                 render={({ field }) => (
                   <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
                     <div className="space-y-0.5">
-                      <FormLabel className="text-base">Active Status</FormLabel>
+                      <FormLabel className="text-base">
+                        {t("common.activeStatus")}
+                      </FormLabel>
                       <div className="text-sm text-muted-foreground">
-                        Enable or disable this course
+                        {t("courses.statusHelp")}
                       </div>
                     </div>
                     <FormControl>
@@ -11,7 +11,6 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import {
   Form,
   FormControl,
@@ -20,7 +19,6 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import {
   Select,
@@ -36,9 +34,10 @@ import {
   AlertCircle,
   BookOpen,
   Loader2,
+  Play,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
 import {
   useCreateLesson,
   useUpdateLesson,
@@ -46,25 +45,23 @@ import {
 } from "@/hooks/use-lessons";
 import { useTopic } from "@/hooks/use-topics";
 import { useVideosForSelect } from "@/hooks/use-videos-library";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { toLocalizedText } from "@/lib/localized-text";
+import {
+  localizedTextSchema,
+  toLocalizedTextInput,
+} from "@/lib/localized-schema";
+import { LocalizedFormField } from "@/components/shared/localized-field";
+import { LessonVideoPlayer } from "@/components/shared/lesson-video-player";
+import type { LessonVideoTracks } from "@/lib/lesson-video";
 import type { CreateLessonInput, UpdateLessonInput } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form validation schema
 const lessonSchema = z.object({
-  name: z.object({
-    en: z.string().min(2, "English name must be at least 2 characters"),
-    ar: z.string().optional(),
-    he: z.string().optional(),
-  }),
-  description: z
-    .object({
-      en: z
-        .string()
-        .min(2, "English description must be at least 2 characters"),
-      ar: z.string().optional(),
-      he: z.string().optional(),
-    })
-    .optional(),
-  topicId: z.string().min(1, "Topic is required"),
+  name: localizedTextSchema({ min: 2, max: 200 }),
+  description: localizedTextSchema({ min: 2 }).optional(),
+  topicId: z.string().min(1),
   main_recording_id: z.string().optional(),
   recording_gvo_id: z.string().optional(),
   recording_vvt_id: z.string().optional(),
@@ -74,13 +71,14 @@ const lessonSchema = z.object({
 type LessonFormData = z.infer<typeof lessonSchema>;
 
 export function CreateUpdateLesson() {
+  const { t } = useTranslation();
   const { topicId, lessonId, courseId } = useParams<{
     topicId: string;
     lessonId?: string;
     courseId: string;
   }>();
   const navigate = useNavigate();
-  const { hasPermission } = useAuthStore();
+  const localizeText = useLocalizedText();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Determine if we're editing or creating
@@ -122,20 +120,9 @@ export function CreateUpdateLesson() {
     if (isEditing && lessonData?.data) {
       const lesson = lessonData.data;
 
-      // Handle multilingual fields
-      const name =
-        typeof lesson.name === "string"
-          ? { en: lesson.name, ar: "", he: "" }
-          : lesson.name;
-
-      const description =
-        typeof lesson.description === "string"
-          ? { en: lesson.description, ar: "", he: "" }
-          : lesson.description || { en: "", ar: "", he: "" };
-
       form.reset({
-        name,
-        description,
+        name: toLocalizedText(lesson.name),
+        description: toLocalizedText(lesson.description),
         topicId:
           typeof lesson.topicId === "string"
             ? lesson.topicId
@@ -207,17 +194,17 @@ export function CreateUpdateLesson() {
   }, [isEditing, lessonData, videosData, form]);
 
   // Check permissions
-  const canCreate = hasPermission("create_lessons");
-  const canUpdate = hasPermission("update_lessons");
+  const canCreate = useHasPermission("create", "lessons");
+  const canUpdate = useHasPermission("update", "lessons");
 
   if (isEditing && !canUpdate) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <h2 className="text-xl font-semibold mb-2">{t("forbidden.title")}</h2>
           <p className="text-gray-600">
-            You don't have permission to update lessons.
+            {t("lessons.noUpdatePermission")}
           </p>
         </div>
       </div>
@@ -229,9 +216,9 @@ export function CreateUpdateLesson() {
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <h2 className="text-xl font-semibold mb-2">{t("forbidden.title")}</h2>
           <p className="text-gray-600">
-            You don't have permission to create lessons.
+            {t("lessons.noCreatePermission")}
           </p>
         </div>
       </div>
@@ -243,7 +230,7 @@ export function CreateUpdateLesson() {
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <Loader2 className="h-12 w-12 text-blue-500 mx-auto mb-4 animate-spin" />
-          <p className="text-gray-600">Loading lesson...</p>
+          <p className="text-gray-600">{t("lessons.loadingLesson")}</p>
         </div>
       </div>
     );
@@ -254,9 +241,11 @@ export function CreateUpdateLesson() {
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold mb-2">Lesson Not Found</h2>
+          <h2 className="text-xl font-semibold mb-2">
+            {t("lessons.lessonNotFound")}
+          </h2>
           <p className="text-gray-600">
-            The lesson you're looking for doesn't exist.
+            {t("lessons.lessonNotFoundDescription")}
           </p>
         </div>
       </div>
@@ -305,18 +294,8 @@ export function CreateUpdateLesson() {
       if (isEditing) {
         // Update lesson
         const lessonData: UpdateLessonInput = {
-          name: {
-            en: data.name.en,
-            ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
-            ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
-          },
-          description: {
-            en: data.description?.en || "",
-            ...(data.description?.ar &&
-              data.description?.ar.trim() && { ar: data.description?.ar }),
-            ...(data.description?.he &&
-              data.description?.he.trim() && { he: data.description?.he }),
-          },
+          name: toLocalizedTextInput(data.name),
+          description: toLocalizedTextInput(data.description || {}),
           topicId: data.topicId!,
           main_recording_url: mainRecordingUrl || undefined,
           recording_gvo_url: gvoRecordingUrl || undefined,
@@ -329,23 +308,13 @@ export function CreateUpdateLesson() {
           data: lessonData,
         });
 
-        toast.success("Lesson updated successfully!");
+        toast.success(t("toast.lessonUpdated"));
       } else {
         // Create lesson
         const lessonData: CreateLessonInput = {
-          name: {
-            en: data.name.en,
-            ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
-            ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
-          },
+          name: toLocalizedTextInput(data.name),
           description: data.description
-            ? {
-                en: data.description.en,
-                ...(data.description.ar &&
-                  data.description.ar.trim() && { ar: data.description.ar }),
-                ...(data.description.he &&
-                  data.description.he.trim() && { he: data.description.he }),
-              }
+            ? toLocalizedTextInput(data.description)
             : undefined,
           topicId: data.topicId!,
           main_recording_url: mainRecordingUrl || "",
@@ -355,14 +324,14 @@ export function CreateUpdateLesson() {
 
         await createLessonMutation.mutateAsync(lessonData);
 
-        toast.success("Lesson created successfully!");
+        toast.success(t("toast.lessonCreated"));
       }
 
       navigate(`/dashboard/courses/${courseId}/topics/${topicId}/lessons`);
     } catch (error) {
       console.error("Error saving lesson:", error);
       toast.error(
-        error instanceof Error ? error.message : "Failed to save lesson"
+        error instanceof Error ? error.message : t("toast.lessonSaveFailed")
       );
     } finally {
       setIsSubmitting(false);
@@ -400,24 +369,38 @@ export function CreateUpdateLesson() {
     return null;
   };
 
+  // Tracks of the selected recordings for the lesson preview
+  const [mainRecordingId, gvoRecordingId, vvtRecordingId] = form.watch([
+    "main_recording_id",
+    "recording_gvo_id",
+    "recording_vvt_id",
+  ]);
+  const getPreviewSource = (videoId: string | undefined) => {
+    if (!videoId) return undefined;
+    const video = videosData?.data?.find((item) => item.id === videoId);
+    return {
+      videoId,
+      name: video?.name,
+      url: getVideoPreviewUrl(videoId) || undefined,
+    };
+  };
+  const previewTracks: LessonVideoTracks = {
+    main: getPreviewSource(mainRecordingId),
+    gvo: getPreviewSource(gvoRecordingId),
+    vvt: getPreviewSource(vvtRecordingId),
+  };
+  const hasPreviewTracks = !!(mainRecordingId || gvoRecordingId || vvtRecordingId);
+
   // Helper function to get topic name
   const getTopicName = () => {
-    if (!topicData?.data) return "Loading...";
-    const topic = topicData.data;
-    if (typeof topic.name === "string") {
-      return topic.name;
-    }
-    return topic.name.en || "Unknown Topic";
+    if (!topicData?.data) return t("common.loading");
+    return localizeText(topicData.data.name, t("topics.unknown"));
   };
 
   // Helper function to get lesson name
   const getLessonName = () => {
     if (!isEditing || !lessonData?.data) return "";
-    const lesson = lessonData.data;
-    if (typeof lesson.name === "string") {
-      return lesson.name;
-    }
-    return lesson.name.en || "Unknown Lesson";
+    return localizeText(lessonData.data.name, t("lessons.unknown"));
   };
 
   return (
@@ -427,12 +410,12 @@ export function CreateUpdateLesson() {
         <div className="flex items-center gap-4">
           <div>
             <h1 className="text-3xl font-bold">
-              {isEditing ? "Edit Lesson" : "Create Lesson"}
+              {isEditing ? t("lessons.editTitle") : t("lessons.create")}
             </h1>
             <p className="text-gray-600">
               {isEditing
-                ? `Update lesson: ${getLessonName()}`
-                : `Add a new lesson to: ${getTopicName()}`}
+                ? t("lessons.editSubtitle", { name: getLessonName() })
+                : t("lessons.createSubtitle", { name: getTopicName() })}
             </p>
           </div>
         </div>
@@ -447,7 +430,7 @@ export function CreateUpdateLesson() {
             }
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Lessons
+            {t("lessons.backToLessons")}
           </Button>
         </div>
       </div>
@@ -459,123 +442,27 @@ export function CreateUpdateLesson() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <BookOpen className="h-5 w-5" />
-                Basic Information
+                {t("courses.basicInformation")}
               </CardTitle>
               <CardDescription>
-                Provide the basic details for your lesson.
+                {t("lessons.basicInformationDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              {/* Lesson Name */}
-              <div className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="name.en"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Lesson Name (English) *</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Enter lesson name in English"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="name.ar"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Lesson Name (Arabic)</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Enter lesson name in Arabic"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="name.he"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Lesson Name (Hebrew)</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="Enter lesson name in Hebrew"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
-
-              {/* Lesson Description */}
-              <div className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="description.en"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description (English) *</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder="Enter lesson description in English"
-                          className="min-h-[100px]"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="description.ar"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description (Arabic)</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder="Enter lesson description in Arabic"
-                          className="min-h-[100px]"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <LocalizedFormField
+                control={form.control}
+                name="name"
+                label={t("lessons.name")}
+                placeholder={t("lessons.namePlaceholder")}
+              />
 
-                <FormField
-                  control={form.control}
-                  name="description.he"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description (Hebrew)</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder="Enter lesson description in Hebrew"
-                          className="min-h-[100px]"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <LocalizedFormField
+                control={form.control}
+                name="description"
+                label={t("lessons.descriptionLabel")}
+                placeholder={t("lessons.descriptionPlaceholder")}
+                editor="textarea"
+              />
             </CardContent>
           </Card>
 
@@ -584,10 +471,10 @@ export function CreateUpdateLesson() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Video className="h-5 w-5" />
-                Recording Selection
+                {t("lessons.recordingSelection")}
               </CardTitle>
               <CardDescription>
-                Select video recordings from your video library for this lesson.
+                {t("lessons.recordingSelectionDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -598,19 +485,21 @@ export function CreateUpdateLesson() {
                   name="main_recording_id"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Main Recording</FormLabel>
+                      <FormLabel>{t("videoLibrary.mainRecording")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         defaultValue={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select main recording" />
+                            <SelectValue
+                              placeholder={t("lessons.selectMain")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
                           <SelectItem value={null as any}>
-                            No main recording
+                            {t("lessons.noMain")}
                           </SelectItem>
                           {videosData?.data?.map((video) => (
                             <SelectItem key={video.id} value={video.id}>
@@ -628,7 +517,7 @@ export function CreateUpdateLesson() {
                 {form.watch("main_recording_id") && (
                   <div className="mt-3 p-3 border rounded-lg bg-gray-50 dark:bg-gray-800">
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                      Selected main recording:
+                      {t("lessons.selectedMain")}
                     </p>
                     <div className="text-sm font-medium mb-3">
                       {
@@ -660,19 +549,19 @@ export function CreateUpdateLesson() {
                   name="recording_gvo_id"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>GVO Recording</FormLabel>
+                      <FormLabel>{t("videoLibrary.gvoRecording")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         defaultValue={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select GVO recording" />
+                            <SelectValue placeholder={t("lessons.selectGvo")} />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
                           <SelectItem value={null as any}>
-                            No GVO recording
+                            {t("lessons.noGvo")}
                           </SelectItem>
                           {videosData?.data?.map((video) => (
                             <SelectItem key={video.id} value={video.id}>
@@ -690,7 +579,7 @@ export function CreateUpdateLesson() {
                 {form.watch("recording_gvo_id") && (
                   <div className="mt-3 p-3 border rounded-lg bg-gray-50 dark:bg-gray-800">
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                      Selected GVO recording:
+                      {t("lessons.selectedGvo")}
                     </p>
                     <div className="text-sm font-medium mb-3">
                       {
@@ -721,19 +610,19 @@ export function CreateUpdateLesson() {
                   name="recording_vvt_id"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>VVT Recording</FormLabel>
+                      <FormLabel>{t("videoLibrary.vvtRecording")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         defaultValue={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select VVT recording" />
+                            <SelectValue placeholder={t("lessons.selectVvt")} />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
                           <SelectItem value={null as any}>
-                            No VVT recording
+                            {t("lessons.noVvt")}
                           </SelectItem>
                           {videosData?.data?.map((video) => (
                             <SelectItem key={video.id} value={video.id}>
@@ -751,7 +640,7 @@ export function CreateUpdateLesson() {
                 {form.watch("recording_vvt_id") && (
                   <div className="mt-3 p-3 border rounded-lg bg-gray-50 dark:bg-gray-800">
                     <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                      Selected VVT recording:
+                      {t("lessons.selectedVvt")}
                     </p>
                     <div className="text-sm font-medium mb-3">
                       {
@@ -777,12 +666,30 @@ export function CreateUpdateLesson() {
             </CardContent>
           </Card>
 
+          {/* Lesson Preview */}
+          {hasPreviewTracks && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Play className="h-5 w-5" />
+                  {t("lessons.lessonPreview")}
+                </CardTitle>
+                <CardDescription>
+                  {t("lessons.lessonPreviewDescription")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LessonVideoPlayer tracks={previewTracks} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Lesson Status */}
           <Card>
             <CardHeader>
-              <CardTitle>Lesson Status</CardTitle>
+              <CardTitle>{t("lessons.status")}</CardTitle>
               <CardDescription>
-                Control whether the lesson is active or inactive.
+                {t("lessons.statusDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -792,9 +699,11 @@ export function CreateUpdateLesson() {
                 render={({ field }) => (
                   <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
                     <div className="space-y-0.5">
-                      <FormLabel className="text-base">Active Status</FormLabel>
+                      <FormLabel className="text-base">
+                        {t("common.activeStatus")}
+                      </FormLabel>
                       <div className="text-sm text-muted-foreground">
-                        Enable or disable this lesson
+                        {t("lessons.statusHelp")}
                       </div>
                     </div>
                     <FormControl>
@@ -820,17 +729,17 @@ export function CreateUpdateLesson() {
                 )
               }
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button type="submit" disabled={isSubmitting}>
               <Save className="mr-2 h-4 w-4" />
               {isSubmitting
                 ? isEditing
-                  ? "Updating..."
-                  : "Creating..."
+                  ? t("common.updating")
+                  : t("common.creating")
                 : isEditing
-                ? "Update Lesson"
-                : "Create Lesson"}
+                ? t("lessons.update")
+                : t("lessons.create")}
             </Button>
           </div>
         </form>
@@ -0,0 +1,298 @@
+import { Link, useParams } from "react-router-dom";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ArrowLeft, Clock, Repeat, TrendingUp, Users } from "lucide-react";
+import { useLesson } from "@/hooks/use-lessons";
+import { useLessonVideoAnalytics } from "@/hooks/use-progress";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import { LESSON_VIDEO_TRACKS } from "@/lib/lesson-video";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const CHART_COLORS = ["var(--chart-1)", "var(--chart-2)", "var(--chart-3)"];
+
+export function LessonAnalyticsPage() {
+  const { t } = useTranslation();
+  const localizeText = useLocalizedText();
+  const { courseId, topicId, lessonId } = useParams<{
+    courseId: string;
+    topicId: string;
+    lessonId: string;
+  }>();
+
+  const { data: lessonData } = useLesson(lessonId!);
+  const {
+    data: analytics,
+    isLoading,
+    isError,
+  } = useLessonVideoAnalytics(courseId!, lessonId!);
+
+  const formatTime = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) return t("common.hoursMinutes", { hours, minutes });
+    if (minutes > 0) return t("common.minutes", { minutes });
+    return t("common.seconds", { seconds: Math.round(seconds) });
+  };
+
+  const formatPercentage = (part: number, total: number) =>
+    total ? `${((part / total) * 100).toFixed(1)}%` : "0%";
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Skeleton className="h-32" />
+            <Skeleton className="h-32" />
+            <Skeleton className="h-32" />
+            <Skeleton className="h-32" />
+          </div>
+          <Skeleton className="h-96" />
+        </>
+      );
+    }
+
+    if (isError || !analytics) {
+      return (
+        <Card className="p-6 text-center text-red-600">
+          {t("lessonAnalytics.loadFailed")}
+        </Card>
+      );
+    }
+
+    if (!analytics.viewers) {
+      return (
+        <Card className="p-6 text-center text-gray-500">
+          {analytics.students
+            ? t("lessonAnalytics.noneWatched", {
+                count: analytics.students,
+              })
+            : t("lessonAnalytics.noProgress")}
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        {/* Statistics Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">
+                  {t("lessonAnalytics.studentsWatched")}
+                </p>
+                <p className="text-2xl font-bold mt-1">
+                  {analytics.viewers}
+                  <span className="text-base font-normal text-gray-500">
+                    {" "}
+                    / {analytics.students}
+                  </span>
+                </p>
+              </div>
+              <Users className="h-8 w-8 text-blue-500" />
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {t("lessonAnalytics.completedLesson", {
+                count: analytics.completedLessons,
+              })}
+            </p>
+          </Card>
+
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">
+                  {t("lessonAnalytics.avgCompletion")}
+                </p>
+                <p className="text-2xl font-bold mt-1">
+                  {analytics.averageCompletion.toFixed(1)}%
+                </p>
+              </div>
+              <TrendingUp className="h-8 w-8 text-purple-500" />
+            </div>
+            <Progress value={analytics.averageCompletion} className="mt-2" />
+          </Card>
+
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">
+                  {t("lessonAnalytics.rewatchRate")}
+                </p>
+                <p className="text-2xl font-bold mt-1">
+                  {analytics.rewatchRate.toFixed(1)}%
+                </p>
+              </div>
+              <Repeat className="h-8 w-8 text-green-500" />
+            </div>
+            <Progress value={analytics.rewatchRate} className="mt-2" />
+          </Card>
+
+          <Card className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">
+                  {t("lessonAnalytics.avgTimeSpent")}
+                </p>
+                <p className="text-2xl font-bold mt-1">
+                  {formatTime(analytics.averageTimeSpent)}
+                </p>
+              </div>
+              <Clock className="h-8 w-8 text-orange-500" />
+            </div>
+          </Card>
+        </div>
+
+        {/* Drop-off */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("lessonAnalytics.dropOff")}</CardTitle>
+            <CardDescription>
+              {t("lessonAnalytics.dropOffDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={analytics.dropOff}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                {LESSON_VIDEO_TRACKS.map(({ type, label }, index) => (
+                  <Bar
+                    key={type}
+                    dataKey={type}
+                    name={t(label)}
+                    stackId="dropOff"
+                    fill={CHART_COLORS[index]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Track usage */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("lessonAnalytics.recordingUsage")}</CardTitle>
+            <CardDescription>
+              {t("lessonAnalytics.recordingUsageDescription")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("lessonAnalytics.recording")}</TableHead>
+                  <TableHead>{t("lessonAnalytics.viewers")}</TableHead>
+                  <TableHead>{t("lessonAnalytics.avgCompletion")}</TableHead>
+                  <TableHead>{t("lessonAnalytics.completed")}</TableHead>
+                  <TableHead>{t("lessonAnalytics.rewatched")}</TableHead>
+                  <TableHead>{t("lessonAnalytics.avgPlays")}</TableHead>
+                  <TableHead>{t("lessonAnalytics.watchTime")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.usage.map((usage) => (
+                  <TableRow key={usage.type}>
+                    <TableCell className="font-medium">
+                      {t(
+                        LESSON_VIDEO_TRACKS.find(
+                          (track) => track.type === usage.type
+                        )!.label
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {usage.viewers}
+                      <span className="text-gray-500">
+                        {" "}
+                        ({formatPercentage(usage.viewers, analytics.viewers)})
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress
+                          value={usage.averageCompletion}
+                          className="h-2 w-24"
+                        />
+                        <span className="tabular-nums">
+                          {usage.averageCompletion.toFixed(1)}%
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {formatPercentage(usage.completed, usage.viewers)}
+                    </TableCell>
+                    <TableCell>
+                      {formatPercentage(usage.rewatchers, usage.viewers)}
+                    </TableCell>
+                    <TableCell className="tabular-nums">
+                      {usage.averageWatchCount.toFixed(1)}
+                    </TableCell>
+                    <TableCell>{formatTime(usage.totalWatchedDuration)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4">
+        <Link to={`/dashboard/courses/${courseId}/topics/${topicId}/lessons`}>
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("lessonAnalytics.back")}
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold">{t("lessonAnalytics.title")}</h1>
+          <p className="text-gray-600">
+            {t("lessonAnalytics.subtitle", {
+              name: localizeText(
+                lessonData?.data?.name,
+                t("lessonAnalytics.thisLesson")
+              ),
+            })}
+          </p>
+        </div>
+      </div>
+
+      {renderContent()}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/shared/can";
 import { Badge } from "@/components/ui/badge";
 import {
   Table,
@@ -30,7 +31,9 @@ import {
 import {
   Upload,
   Plus,
+  FolderUp,
   Download,
+  Eye,
   Trash2,
   FileText,
   Image,
@@ -42,6 +45,8 @@ import {
   ArrowLeft,
 } from "lucide-react";
 import { useLesson } from "@/hooks/use-lessons";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
 import {
   useAttachedFiles,
   useDeleteAttachedFile,
@@ -49,15 +54,21 @@ import {
 } from "@/hooks/use-attached-files";
 import { type AttachedFile } from "@/services/attached-files-service";
 import { UploadFileDialog } from "../course-files/upload-file-dialog";
+import { BulkUploadFilesDialog } from "../course-files/bulk-upload-files-dialog";
+import { FilePreviewSheet } from "@/components/shared/file-preview-sheet";
 import { UploadService } from "@/services/upload-service";
 
 export function LessonFilesPage() {
+  const { t, language } = useTranslation();
+  const localizeText = useLocalizedText();
   const { lessonId, courseId, topicId } = useParams<{
     lessonId: string;
     courseId: string;
     topicId: string;
   }>();
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+  const [isBulkUploadDialogOpen, setIsBulkUploadDialogOpen] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
   const [deleteFileId, setDeleteFileId] = useState<string>("");
   const [deleteFileName, setDeleteFileName] = useState<string>("");
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -98,7 +109,7 @@ export function LessonFilesPage() {
         // Create a temporary link to download the file
         const link = document.createElement("a");
         link.href = response.data.downloadUrl;
-        link.download = file.name.en || "download";
+        link.download = localizeText(file.name, "download");
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -123,7 +134,7 @@ export function LessonFilesPage() {
 
   // Format date
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
+    return new Date(dateString).toLocaleDateString(language, {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -141,24 +152,38 @@ export function LessonFilesPage() {
         <Link to={`/dashboard/courses/${courseId}/topics/${topicId}/lessons`}>
           <Button variant="outline" size="sm">
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Topic Lessons
+            {t("files.backToLessons")}
           </Button>
         </Link>
         <div className="flex flex-col lg:flex-row justify-between items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold">Lesson Files</h1>
+            <h1 className="text-3xl font-bold">{t("files.lessonTitle")}</h1>
             <p className="text-gray-600">
-              Manage files attached to "
-              {typeof lessonData?.data?.name === "string"
-                ? lessonData.data.name
-                : lessonData?.data?.name?.en || "this lesson"}
-              "
+              {t("files.subtitle", {
+                name: localizeText(
+                  lessonData?.data?.name,
+                  t("files.thisLesson")
+                ),
+              })}
             </p>
           </div>
-          <Button onClick={() => setIsUploadDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Upload File
-          </Button>
+          <div className="flex gap-2">
+            <Can action="create" resource="attached_files" mode="disable">
+              <Button
+                variant="outline"
+                onClick={() => setIsBulkUploadDialogOpen(true)}
+              >
+                <FolderUp className="h-4 w-4 mr-2" />
+                {t("files.bulkUpload")}
+              </Button>
+            </Can>
+            <Can action="create" resource="attached_files" mode="disable">
+              <Button onClick={() => setIsUploadDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                {t("files.uploadFile")}
+              </Button>
+            </Can>
+          </div>
         </div>
       </div>
 
@@ -167,60 +192,54 @@ export function LessonFilesPage() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <FileText className="h-5 w-5" />
-            Attached Files ({attachedFiles.length})
+            {t("files.attachedFiles", { count: attachedFiles.length })}
           </CardTitle>
           <CardDescription>
-            Files that have been uploaded and attached to this lesson.
+            {t("files.lessonDescription")}
           </CardDescription>
         </CardHeader>
         <CardContent>
           {isLoadingFiles ? (
             <div className="text-center py-8">
-              <p className="text-gray-500">Loading files...</p>
+              <p className="text-gray-500">{t("files.loading")}</p>
             </div>
           ) : attachedFiles.length === 0 ? (
             <div className="text-center py-8">
               <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                No files uploaded
+                {t("files.empty")}
               </h3>
               <p className="text-gray-500 mb-4">
-                Get started by uploading your first file to this lesson.
+                {t("files.lessonEmptyHelp")}
               </p>
-              <Button onClick={() => setIsUploadDialogOpen(true)}>
-                <Upload className="h-4 w-4 mr-2" />
-                Upload File
-              </Button>
+              <Can action="create" resource="attached_files">
+                <Button onClick={() => setIsUploadDialogOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {t("files.uploadFile")}
+                </Button>
+              </Can>
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>File</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Uploaded By</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Actions</TableHead>
+                  <TableHead>{t("files.file")}</TableHead>
+                  <TableHead>{t("common.type")}</TableHead>
+                  <TableHead>{t("files.uploadedBy")}</TableHead>
+                  <TableHead>{t("files.date")}</TableHead>
+                  <TableHead>{t("common.actions")}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {attachedFiles.map((file) => (
+                {attachedFiles.map((file, index) => (
                   <TableRow key={file._id}>
                     <TableCell>
                       <div className="flex items-center gap-3">
                         {getFileIcon(file.fileType)}
                         <div>
-                          <div className="font-medium">{file.name as any}</div>
-                          {file.name.ar && (
-                            <div className="text-sm text-gray-500">
-                              {file.name.ar}
-                            </div>
-                          )}
-                          {file.name.he && (
-                            <div className="text-sm text-gray-500">
-                              {file.name.he}
-                            </div>
-                          )}
+                          <div className="font-medium">
+                            {localizeText(file.name)}
+                          </div>
                         </div>
                       </div>
                     </TableCell>
@@ -250,22 +269,32 @@ export function LessonFilesPage() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleDownloadFile(file)}
+                          onClick={() => setPreviewIndex(index)}
                         >
-                          <Download className="h-4 w-4 mr-2" />
-                          Download
+                          <Eye className="h-4 w-4 mr-2" />
+                          {t("files.preview")}
                         </Button>
                         <Button
                           variant="ghost"
                           size="sm"
-                          className="text-red-600 hover:text-red-600"
-                          onClick={() =>
-                            handleDeleteFile(file._id, file.name as any)
-                          }
+                          onClick={() => handleDownloadFile(file)}
                         >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete
+                          <Download className="h-4 w-4 mr-2" />
+                          {t("common.download")}
                         </Button>
+                        <Can action="delete" resource="attached_files">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-600"
+                            onClick={() =>
+                              handleDeleteFile(file._id, localizeText(file.name))
+                            }
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            {t("common.delete")}
+                          </Button>
+                        </Can>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -285,6 +314,22 @@ export function LessonFilesPage() {
         onFileUploaded={handleFileUploaded}
       />
 
+      {/* File Preview */}
+      <FilePreviewSheet
+        files={attachedFiles}
+        index={previewIndex}
+        onIndexChange={setPreviewIndex}
+        onDownload={handleDownloadFile}
+      />
+
+      {/* Bulk Upload Dialog */}
+      <BulkUploadFilesDialog
+        isOpen={isBulkUploadDialogOpen}
+        onClose={() => setIsBulkUploadDialogOpen(false)}
+        entityType="lessons"
+        entityId={lessonId!}
+      />
+
       {/* Delete File Alert Dialog */}
       <AlertDialog
         open={isDeleteDialogOpen}
@@ -292,19 +337,18 @@ export function LessonFilesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete File</AlertDialogTitle>
+            <AlertDialogTitle>{t("files.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{deleteFileName}"? This action
-              cannot be undone.
+              {t("files.deleteDescription", { name: deleteFileName })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteFile}
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
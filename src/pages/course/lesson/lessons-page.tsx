@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   AlertDialog,
@@ -10,6 +10,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   DndContext,
   closestCenter,
@@ -63,9 +70,13 @@ import {
   GripVertical,
   ArrowLeft,
   File,
+  Play,
+  BarChart3,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { Can } from "@/components/shared/can";
+import { LessonVideoPlayer } from "@/components/shared/lesson-video-player";
 import {
   useLessonsByTopic,
   useDeleteLesson,
@@ -73,12 +84,17 @@ import {
   useReorderLessons,
 } from "@/hooks/use-lessons";
 import { useTopic } from "@/hooks/use-topics";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useVideosForSelect } from "@/hooks/use-videos-library";
+import { getLessonVideoTracks } from "@/lib/lesson-video";
 import type { Lesson } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Sortable Lesson Row Component
 interface SortableLessonRowProps {
   lesson: Lesson;
   onEdit: (lesson: Lesson) => void;
+  onPreview: (lesson: Lesson) => void;
   onDelete: (lessonId: string) => void;
   onToggleStatus: (lessonId: string, isActive: boolean) => void;
   canUpdate: boolean;
@@ -88,16 +104,19 @@ interface SortableLessonRowProps {
 function SortableLessonRow({
   lesson,
   onEdit,
+  onPreview,
   onDelete,
   onToggleStatus,
   canUpdate,
   canDelete,
 }: SortableLessonRowProps) {
+  const { t } = useTranslation();
   const { courseId, topicId } = useParams<{
     courseId: string;
     topicId: string;
   }>();
   const navigate = useNavigate();
+  const localizeText = useLocalizedText();
   const {
     attributes,
     listeners,
@@ -113,20 +132,12 @@ function SortableLessonRow({
   };
 
   // Helper function to get lesson name
-  const getLessonName = (lesson: Lesson): string => {
-    if (typeof lesson.name === "string") {
-      return lesson.name;
-    }
-    return lesson.name.en || "Unknown Lesson";
-  };
+  const getLessonName = (lesson: Lesson): string =>
+    localizeText(lesson.name, t("lessons.unknown"));
 
   // Helper function to get lesson description
-  const getLessonDescription = (lesson: Lesson): string => {
-    if (typeof lesson.description === "string") {
-      return lesson.description;
-    }
-    return lesson.description?.en || "No description";
-  };
+  const getLessonDescription = (lesson: Lesson): string =>
+    localizeText(lesson.description, t("lessons.noDescription"));
 
   return (
     <TableRow
@@ -150,48 +161,77 @@ function SortableLessonRow({
       <TableCell>
         <div className="flex flex-col gap-1">
           <Badge variant="outline" className="text-xs">
-            Main: {lesson.main_recording_url ? "✓" : "✗"}
+            {t("lessonVideo.main")}: {lesson.main_recording_url ? "✓" : "✗"}
           </Badge>
           {lesson.recording_gvo_url && (
             <Badge variant="outline" className="text-xs">
-              GVO: ✓
+              {t("lessonVideo.gvo")}: ✓
             </Badge>
           )}
           {lesson.recording_vvt_url && (
             <Badge variant="outline" className="text-xs">
-              VVT: ✓
+              {t("lessonVideo.vvt")}: ✓
             </Badge>
           )}
         </div>
       </TableCell>
       <TableCell>
         <Badge variant={lesson.isActive ? "default" : "secondary"}>
-          {lesson.isActive ? "Active" : "Inactive"}
+          {lesson.isActive ? t("common.active") : t("common.inactive")}
         </Badge>
       </TableCell>
       <TableCell className="text-right">
         <div className="flex items-center gap-2 justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={
+              !lesson.main_recording_url &&
+              !lesson.recording_gvo_url &&
+              !lesson.recording_vvt_url
+            }
+            onClick={() => onPreview(lesson)}
+          >
+            <Play className="h-4 w-4 mr-1" />
+            {t("lessons.preview")}
+          </Button>
+          <Can action="read" resource="progress">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                navigate(
+                  `/dashboard/courses/${courseId}/topics/${topicId}/lessons/${lesson._id}/analytics`
+                )
+              }
+            >
+              <BarChart3 className="h-4 w-4 mr-1" />
+              {t("lessons.analytics")}
+            </Button>
+          </Can>
           {canUpdate && (
             <>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() =>
-                  navigate(
-                    `/dashboard/courses/${courseId}/topics/${topicId}/lessons/${lesson._id}/files`
-                  )
-                }
-              >
-                <File className="h-4 w-4 mr-1" />
-                Files
-              </Button>
+              <Can action="read" resource="attached_files">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    navigate(
+                      `/dashboard/courses/${courseId}/topics/${topicId}/lessons/${lesson._id}/files`
+                    )
+                  }
+                >
+                  <File className="h-4 w-4 mr-1" />
+                  {t("lessons.files")}
+                </Button>
+              </Can>
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => onEdit(lesson)}
               >
                 <Edit className="h-4 w-4 mr-1" />
-                Edit
+                {t("common.edit")}
               </Button>
               <Switch
                 checked={lesson.isActive}
@@ -217,17 +257,19 @@ function SortableLessonRow({
 }
 
 export function LessonsPage() {
+  const { t } = useTranslation();
   const { courseId, topicId } = useParams<{
     courseId: string;
     topicId: string;
   }>();
   const navigate = useNavigate();
-  const { hasPermission } = useAuthStore();
+  const localizeText = useLocalizedText();
   const [searchTerm, setSearchTerm] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
   const [deleteLessonId, setDeleteLessonId] = useState<string>("");
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [previewLesson, setPreviewLesson] = useState<Lesson | null>(null);
 
   // Sensors for drag and drop
   const sensors = useSensors(
@@ -250,6 +292,15 @@ export function LessonsPage() {
   });
 
   const { data: topicData } = useTopic(topicId!);
+  const { data: videosData } = useVideosForSelect("lesson");
+
+  const previewTracks = useMemo(
+    () =>
+      previewLesson
+        ? getLessonVideoTracks(previewLesson, videosData?.data)
+        : {},
+    [previewLesson, videosData]
+  );
 
   // Mutations
   const deleteLessonMutation = useDeleteLesson();
@@ -265,12 +316,12 @@ export function LessonsPage() {
   const confirmDeleteLesson = async () => {
     try {
       await deleteLessonMutation.mutateAsync(deleteLessonId);
-      toast.success("Lesson deleted successfully!");
+      toast.success(t("toast.lessonDeleted"));
       setIsDeleteDialogOpen(false);
       setDeleteLessonId("");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete lesson"
+        error instanceof Error ? error.message : t("toast.lessonDeleteFailed")
       );
     }
   };
@@ -285,13 +336,15 @@ export function LessonsPage() {
         isActive: !currentStatus,
       });
       toast.success(
-        `Lesson ${!currentStatus ? "activated" : "deactivated"} successfully!`
+        !currentStatus
+          ? t("toast.lessonActivated")
+          : t("toast.lessonDeactivated")
       );
     } catch (error) {
       toast.error(
         error instanceof Error
           ? error.message
-          : "Failed to update lesson status"
+          : t("toast.lessonStatusFailed")
       );
     }
   };
@@ -349,28 +402,23 @@ export function LessonsPage() {
             topicId: topicId!,
             data: { reorderData },
           });
-          toast.success("Lessons reordered successfully!");
+          toast.success(t("toast.lessonsReordered"));
         } catch (error) {
           toast.error(
-            error instanceof Error ? error.message : "Failed to reorder lessons"
+            error instanceof Error ? error.message : t("toast.lessonsReorderFailed")
           );
         }
       }
     }
   };
 
-  const canCreate = hasPermission("create_lessons");
-  const canUpdate = hasPermission("update_lessons");
-  const canDelete = hasPermission("delete_lessons");
+  const canUpdate = useHasPermission("update", "lessons");
+  const canDelete = useHasPermission("delete", "lessons");
 
   // Helper function to get topic name
   const getTopicName = () => {
-    if (!topicData?.data) return "Loading...";
-    const topic = topicData.data;
-    if (typeof topic.name === "string") {
-      return topic.name;
-    }
-    return topic.name.en || "Unknown Topic";
+    if (!topicData?.data) return t("common.loading");
+    return localizeText(topicData.data.name, t("topics.unknown"));
   };
 
   return (
@@ -379,9 +427,9 @@ export function LessonsPage() {
       <div className="flex flex-col md:flex-row justify-between items-center gap-4 sticky top-0 z-50 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 py-4 -mx-6 px-6 mb-6">
         <div className="flex items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold">Topic Lessons</h1>
+            <h1 className="text-3xl font-bold">{t("lessons.title")}</h1>
             <p className="text-gray-600">
-              Manage lessons for: {getTopicName()}
+              {t("lessons.subtitle", { name: getTopicName() })}
             </p>
           </div>
         </div>
@@ -392,24 +440,23 @@ export function LessonsPage() {
             onClick={() => navigate(`/dashboard/courses/${courseId}/topics`)}
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Topics
+            {t("lessons.backToTopics")}
           </Button>
-          {canCreate && (
+          <Can action="create" resource="lessons" mode="disable">
             <Button className="w-full md:w-auto" onClick={handleCreateLesson}>
               <Plus className="mr-2 h-4 w-4" />
-              Create Lesson
+              {t("lessons.create")}
             </Button>
-          )}
+          </Can>
         </div>
       </div>
 
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Lessons</CardTitle>
+          <CardTitle>{t("lessons.lessons")}</CardTitle>
           <CardDescription>
-            Manage and reorder lessons for this topic. Drag and drop to change
-            the order.
+            {t("lessons.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -418,7 +465,7 @@ export function LessonsPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search lessons..."
+                  placeholder={t("lessons.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -428,12 +475,12 @@ export function LessonsPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -444,12 +491,12 @@ export function LessonsPage() {
           {/* Lessons Table */}
           {isLoading ? (
             <div className="text-center py-8">
-              <p className="text-gray-500">Loading lessons...</p>
+              <p className="text-gray-500">{t("lessons.loading")}</p>
             </div>
           ) : lessonsData?.data?.items?.length === 0 ? (
             <div className="text-center py-8">
               <Video className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-500">No lessons found for this topic.</p>
+              <p className="text-gray-500">{t("lessons.notFound")}</p>
             </div>
           ) : (
             <DndContext
@@ -468,11 +515,13 @@ export function LessonsPage() {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-12"></TableHead>
-                      <TableHead>Lesson Name</TableHead>
-                      <TableHead>Description</TableHead>
-                      <TableHead>Recordings</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("lessons.name")}</TableHead>
+                      <TableHead>{t("lessons.descriptionLabel")}</TableHead>
+                      <TableHead>{t("lessons.recordings")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-right">
+                        {t("common.actions")}
+                      </TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -481,6 +530,7 @@ export function LessonsPage() {
                         key={lesson._id}
                         lesson={lesson}
                         onEdit={handleEditLesson}
+                        onPreview={setPreviewLesson}
                         onDelete={handleDeleteLesson}
                         onToggleStatus={handleToggleLessonStatus}
                         canUpdate={canUpdate}
@@ -497,17 +547,18 @@ export function LessonsPage() {
           {lessonsData?.data?.pagination && (
             <div className="flex items-center justify-between mt-6">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(lessonsData.data.pagination.currentPage - 1) *
-                  lessonsData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  lessonsData.data.pagination.currentPage *
-                    lessonsData.data.pagination.itemsPerPage,
-                  lessonsData.data.pagination.totalItems
-                )}{" "}
-                of {lessonsData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (lessonsData.data.pagination.currentPage - 1) *
+                      lessonsData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    lessonsData.data.pagination.currentPage *
+                      lessonsData.data.pagination.itemsPerPage,
+                    lessonsData.data.pagination.totalItems
+                  ),
+                  total: lessonsData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -516,7 +567,7 @@ export function LessonsPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!lessonsData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -524,7 +575,7 @@ export function LessonsPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!lessonsData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -532,6 +583,27 @@ export function LessonsPage() {
         </CardContent>
       </Card>
 
+      {/* Lesson Preview Dialog */}
+      <Dialog
+        open={!!previewLesson}
+        onOpenChange={(open) => !open && setPreviewLesson(null)}
+      >
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>
+              {previewLesson &&
+                localizeText(previewLesson.name, t("lessons.lesson"))}
+            </DialogTitle>
+            <DialogDescription>
+              {t("lessons.previewDescription")}
+            </DialogDescription>
+          </DialogHeader>
+          {previewLesson && (
+            <LessonVideoPlayer key={previewLesson._id} tracks={previewTracks} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Lesson Alert Dialog */}
       <AlertDialog
         open={isDeleteDialogOpen}
@@ -539,19 +611,18 @@ export function LessonsPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Lesson</AlertDialogTitle>
+            <AlertDialogTitle>{t("lessons.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this lesson? This action cannot be
-              undone.
+              {t("lessons.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteLesson}
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
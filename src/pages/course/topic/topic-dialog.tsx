@@ -15,8 +15,14 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
 import { useCreateTopic, useUpdateTopic, useTopic } from "@/hooks/use-topics";
+import { toLocalizedText } from "@/lib/localized-text";
+import {
+  localizedTextSchema,
+  toLocalizedTextInput,
+} from "@/lib/localized-schema";
+import { LocalizedFormField } from "@/components/shared/localized-field";
 import type { CreateTopicInput, UpdateTopicInput } from "@/types/api";
 import {
   Form,
@@ -26,16 +32,13 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form validation schema
 const topicSchema = z.object({
-  name: z.object({
-    en: z.string().min(2, "English name must be at least 2 characters"),
-    ar: z.string().optional(),
-    he: z.string().optional(),
-  }),
-  topicsPrice: z.number().min(1, "Price must be at least 1"),
-  discount: z.number().max(100, "Discount must be between 0 and 100"),
+  name: localizedTextSchema({ min: 2, max: 200 }),
+  topicsPrice: z.number().min(1),
+  discount: z.number().max(100),
 });
 
 type TopicFormData = z.infer<typeof topicSchema>;
@@ -55,7 +58,7 @@ export function TopicDialog({
   topicId,
   onSuccess,
 }: TopicDialogProps) {
-  const { hasPermission } = useAuthStore();
+  const { t } = useTranslation();
   const [isActive, setIsActive] = useState(true);
   const isEditing = !!topicId;
 
@@ -84,13 +87,8 @@ export function TopicDialog({
   useEffect(() => {
     if (isEditing && topicData?.data) {
       const topic = topicData.data;
-      const name =
-        typeof topic.name === "string"
-          ? { en: topic.name, ar: "", he: "" }
-          : topic.name;
-
       form.reset({
-        name,
+        name: toLocalizedText(topic.name),
         topicsPrice: topic.topicsPrice,
         discount: topic.discount,
       });
@@ -114,11 +112,7 @@ export function TopicDialog({
     try {
       if (isEditing) {
         const updateData: UpdateTopicInput = {
-          name: {
-            en: data.name.en,
-            ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
-            ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
-          },
+          name: toLocalizedTextInput(data.name),
           topicsPrice: data.topicsPrice,
           discount: data.discount,
           isActive,
@@ -127,20 +121,16 @@ export function TopicDialog({
           id: topicId!,
           data: updateData,
         });
-        toast.success("Topic updated successfully!");
+        toast.success(t("toast.topicUpdated"));
       } else {
         const createData: CreateTopicInput = {
-          name: {
-            en: data.name.en,
-            ...(data.name.ar && data.name.ar.trim() && { ar: data.name.ar }),
-            ...(data.name.he && data.name.he.trim() && { he: data.name.he }),
-          },
+          name: toLocalizedTextInput(data.name),
           topicsPrice: data.topicsPrice,
           discount: data.discount,
           courseId,
         };
         await createTopicMutation.mutateAsync(createData);
-        toast.success("Topic created successfully!");
+        toast.success(t("toast.topicCreated"));
       }
 
       onOpenChange(false);
@@ -149,13 +139,15 @@ export function TopicDialog({
       toast.error(
         error instanceof Error
           ? error.message
-          : `Failed to ${isEditing ? "update" : "create"} topic`
+          : isEditing
+          ? t("toast.topicUpdateFailed")
+          : t("toast.topicCreateFailed")
       );
     }
   };
 
-  const canCreate = hasPermission("create_topics");
-  const canUpdate = hasPermission("update_topics");
+  const canCreate = useHasPermission("create", "topics");
+  const canUpdate = useHasPermission("update", "topics");
 
   if (isEditing && !canUpdate) {
     return null;
@@ -167,70 +159,25 @@ export function TopicDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[700px]">
         <DialogHeader>
-          <DialogTitle>{isEditing ? "Edit Topic" : "Create Topic"}</DialogTitle>
+          <DialogTitle>
+            {isEditing ? t("topics.editTitle") : t("topics.create")}
+          </DialogTitle>
           <DialogDescription>
             {isEditing
-              ? "Update the topic information below."
-              : "Fill in the details for the new topic."}
+              ? t("topics.editDescription")
+              : t("topics.createDescription")}
           </DialogDescription>
         </DialogHeader>
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-            {/* Topic Name - English */}
-            <FormField
+            <LocalizedFormField
               control={form.control}
-              name="name.en"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Topic Name (English) *</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Enter topic name in English"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {/* Topic Name - Arabic */}
-            <FormField
-              control={form.control}
-              name="name.ar"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Topic Name (Arabic)</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Enter topic name in Arabic"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {/* Topic Name - Hebrew */}
-            <FormField
-              control={form.control}
-              name="name.he"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Topic Name (Hebrew)</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="Enter topic name in Hebrew"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
+              name="name"
+              label={t("topics.name")}
+              placeholder={t("topics.namePlaceholder")}
             />
 
             {/* Price */}
@@ -239,13 +186,13 @@ export function TopicDialog({
               name="topicsPrice"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Price *</FormLabel>
+                  <FormLabel>{t("topics.priceRequired")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
                       step="0.01"
                       min="0"
-                      placeholder="Enter topic price"
+                      placeholder={t("topics.pricePlaceholder")}
                       {...field}
                       onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                     />
@@ -261,13 +208,13 @@ export function TopicDialog({
               name="discount"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Discount (%)</FormLabel>
+                  <FormLabel>{t("courses.discount")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
                       min="0"
                       max="100"
-                      placeholder="Enter discount percentage"
+                      placeholder={t("courses.discountPlaceholder")}
                       {...field}
                       onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                     />
@@ -284,7 +231,7 @@ export function TopicDialog({
                 checked={isActive}
                 onCheckedChange={setIsActive}
               />
-              <FormLabel htmlFor="isActive">Active</FormLabel>
+              <FormLabel htmlFor="isActive">{t("common.active")}</FormLabel>
             </div>
 
             <DialogFooter>
@@ -293,7 +240,7 @@ export function TopicDialog({
                 variant="outline"
                 onClick={() => onOpenChange(false)}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 type="submit"
@@ -307,12 +254,12 @@ export function TopicDialog({
                   updateTopicMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {isEditing ? "Updating..." : "Creating..."}
+                    {isEditing ? t("common.updating") : t("common.creating")}
                   </>
                 ) : isEditing ? (
-                  "Update Topic"
+                  t("topics.update")
                 ) : (
-                  "Create Topic"
+                  t("topics.create")
                 )}
               </Button>
             </DialogFooter>
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -66,7 +66,8 @@ import {
   File,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { Can } from "@/components/shared/can";
 import {
   useTopicsByCourse,
   useDeleteTopic,
@@ -74,8 +75,10 @@ import {
   useReorderTopics,
 } from "@/hooks/use-topics";
 import { useCourse } from "@/hooks/use-courses";
+import { useLocalizedText } from "@/hooks/use-localized-text";
 import { TopicDialog } from "@/pages/course/topic/topic-dialog";
 import type { Topic } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Sortable Topic Row Component
 interface SortableTopicRowProps {
@@ -97,8 +100,10 @@ function SortableTopicRow({
   canUpdate,
   canDelete,
 }: SortableTopicRowProps) {
+  const { t } = useTranslation();
   const navigate = useNavigate();
   const { courseId } = useParams<{ courseId: string }>();
+  const localizeText = useLocalizedText();
   const {
     attributes,
     listeners,
@@ -114,12 +119,8 @@ function SortableTopicRow({
   };
 
   // Helper function to get topic name
-  const getTopicName = (topic: Topic): string => {
-    if (typeof topic.name === "string") {
-      return topic.name;
-    }
-    return topic.name.en || "Unknown Topic";
-  };
+  const getTopicName = (topic: Topic): string =>
+    localizeText(topic.name, t("topics.unknown"));
 
   // Helper function to calculate discounted price
   const getDiscountedPrice = (topic: Topic): number => {
@@ -161,36 +162,38 @@ function SortableTopicRow({
       </TableCell>
       <TableCell>
         <Badge variant={topic.isActive ? "default" : "secondary"}>
-          {topic.isActive ? "Active" : "Inactive"}
+          {topic.isActive ? t("common.active") : t("common.inactive")}
         </Badge>
       </TableCell>
       <TableCell className="text-right">
         <div className="flex items-center gap-2 justify-end">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() =>
-              navigate(
-                `/dashboard/courses/${courseId}/topics/${topic._id}/files`
-              )
-            }
-          >
-            <File className="h-4 w-4 mr-1" />
-            Files
-          </Button>
+          <Can action="read" resource="attached_files">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                navigate(
+                  `/dashboard/courses/${courseId}/topics/${topic._id}/files`
+                )
+              }
+            >
+              <File className="h-4 w-4 mr-1" />
+              {t("topics.files")}
+            </Button>
+          </Can>
           <Button
             variant="outline"
             size="sm"
             onClick={() => onViewLessons(topic._id)}
           >
             <Video className="h-4 w-4 mr-1" />
-            Lessons
+            {t("topics.lessons")}
           </Button>
           {canUpdate && (
             <>
               <Button variant="outline" size="sm" onClick={() => onEdit(topic)}>
                 <Edit className="h-4 w-4 mr-1" />
-                Edit
+                {t("common.edit")}
               </Button>
               <Switch
                 checked={topic.isActive}
@@ -216,9 +219,10 @@ function SortableTopicRow({
 }
 
 export function TopicsPage() {
+  const { t } = useTranslation();
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
-  const { hasPermission } = useAuthStore();
+  const localizeText = useLocalizedText();
   const [searchTerm, setSearchTerm] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
@@ -226,6 +230,22 @@ export function TopicsPage() {
   const [editingTopicId, setEditingTopicId] = useState<string | undefined>();
   const [deleteTopicId, setDeleteTopicId] = useState<string>("");
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const editId = searchParams.get("edit");
+
+  // Open the edit dialog when linked from the translations worklist
+  useEffect(() => {
+    if (!editId) return;
+    setEditingTopicId(editId);
+    setDialogOpen(true);
+    setSearchParams(
+      (params) => {
+        params.delete("edit");
+        return params;
+      },
+      { replace: true }
+    );
+  }, [editId, setSearchParams]);
 
   // Sensors for drag and drop
   const sensors = useSensors(
@@ -263,12 +283,12 @@ export function TopicsPage() {
   const confirmDeleteTopic = async () => {
     try {
       await deleteTopicMutation.mutateAsync(deleteTopicId);
-      toast.success("Topic deleted successfully!");
+      toast.success(t("toast.topicDeleted"));
       setIsDeleteDialogOpen(false);
       setDeleteTopicId("");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete topic"
+        error instanceof Error ? error.message : t("toast.topicDeleteFailed")
       );
     }
   };
@@ -283,11 +303,13 @@ export function TopicsPage() {
         isActive: !currentStatus,
       });
       toast.success(
-        `Topic ${!currentStatus ? "activated" : "deactivated"} successfully!`
+        !currentStatus
+          ? t("toast.topicActivated")
+          : t("toast.topicDeactivated")
       );
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update topic status"
+        error instanceof Error ? error.message : t("toast.topicStatusFailed")
       );
     }
   };
@@ -353,28 +375,23 @@ export function TopicsPage() {
             courseId: courseId!,
             data: { topicOrders },
           });
-          toast.success("Topics reordered successfully!");
+          toast.success(t("toast.topicsReordered"));
         } catch (error) {
           toast.error(
-            error instanceof Error ? error.message : "Failed to reorder topics"
+            error instanceof Error ? error.message : t("toast.topicsReorderFailed")
           );
         }
       }
     }
   };
 
-  const canCreate = hasPermission("create_topics");
-  const canUpdate = hasPermission("update_topics");
-  const canDelete = hasPermission("delete_topics");
+  const canUpdate = useHasPermission("update", "topics");
+  const canDelete = useHasPermission("delete", "topics");
 
   // Helper function to get course name
   const getCourseName = () => {
-    if (!courseData?.data) return "Loading...";
-    const course = courseData.data;
-    if (typeof course.name === "string") {
-      return course.name;
-    }
-    return course.name.en || "Unknown Course";
+    if (!courseData?.data) return t("common.loading");
+    return localizeText(courseData.data.name, t("courses.unknown"));
   };
 
   return (
@@ -383,9 +400,9 @@ export function TopicsPage() {
       <div className="flex flex-col md:flex-row justify-between items-center gap-4 sticky top-0 z-50 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 py-4 -mx-6 px-6 mb-6">
         <div className="flex items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold">Course Topics</h1>
+            <h1 className="text-3xl font-bold">{t("topics.title")}</h1>
             <p className="text-gray-600">
-              Manage topics for: {getCourseName()}
+              {t("topics.subtitle", { name: getCourseName() })}
             </p>
           </div>
         </div>
@@ -396,24 +413,23 @@ export function TopicsPage() {
             onClick={() => navigate(`/dashboard/courses`)}
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Courses
+            {t("courses.backToCourses")}
           </Button>
-          {canCreate && (
+          <Can action="create" resource="topics" mode="disable">
             <Button className="w-full md:w-auto" onClick={handleCreateTopic}>
               <Plus className="mr-2 h-4 w-4" />
-              Create Topic
+              {t("topics.create")}
             </Button>
-          )}
+          </Can>
         </div>
       </div>
 
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Topics</CardTitle>
+          <CardTitle>{t("topics.topics")}</CardTitle>
           <CardDescription>
-            Manage and reorder topics for this course. Drag and drop to change
-            the order.
+            {t("topics.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -422,7 +438,7 @@ export function TopicsPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search topics..."
+                  placeholder={t("topics.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -432,12 +448,12 @@ export function TopicsPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -448,12 +464,12 @@ export function TopicsPage() {
           {/* Topics Table */}
           {isLoading ? (
             <div className="text-center py-8">
-              <p className="text-gray-500">Loading topics...</p>
+              <p className="text-gray-500">{t("topics.loading")}</p>
             </div>
           ) : topicsData?.data?.items?.length === 0 ? (
             <div className="text-center py-8">
               <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-500">No topics found for this course.</p>
+              <p className="text-gray-500">{t("topics.notFound")}</p>
             </div>
           ) : (
             <DndContext
@@ -470,10 +486,12 @@ export function TopicsPage() {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-12"></TableHead>
-                      <TableHead>Topic Name</TableHead>
-                      <TableHead>Price</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <TableHead>{t("topics.name")}</TableHead>
+                      <TableHead>{t("topics.price")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead className="text-right">
+                        {t("common.actions")}
+                      </TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -499,17 +517,18 @@ export function TopicsPage() {
           {topicsData?.data?.pagination && (
             <div className="flex items-center justify-between mt-6">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(topicsData.data.pagination.currentPage - 1) *
-                  topicsData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  topicsData.data.pagination.currentPage *
-                    topicsData.data.pagination.itemsPerPage,
-                  topicsData.data.pagination.totalItems
-                )}{" "}
-                of {topicsData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (topicsData.data.pagination.currentPage - 1) *
+                      topicsData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    topicsData.data.pagination.currentPage *
+                      topicsData.data.pagination.itemsPerPage,
+                    topicsData.data.pagination.totalItems
+                  ),
+                  total: topicsData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -518,7 +537,7 @@ export function TopicsPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!topicsData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -526,7 +545,7 @@ export function TopicsPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!topicsData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -550,19 +569,18 @@ export function TopicsPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Topic</AlertDialogTitle>
+            <AlertDialogTitle>{t("topics.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this topic? This action cannot be
-              undone.
+              {t("topics.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteTopic}
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,4 +1,21 @@
-
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import {
+  endOfDay,
+  formatDistanceToNow,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { ar, enUS, he, type Locale } from "date-fns/locale";
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  Book,
+  BookOpen,
+  DollarSign,
+  Users,
+  Video,
+} from "lucide-react";
 import {
   Card,
   CardContent,
@@ -6,134 +23,489 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
 import { useAuthStore } from "@/stores/auth-store";
+import {
+  useHasPermission,
+  usePermittedItems,
+} from "@/hooks/use-authorization";
+import { useRecentUsers, useUserStats } from "@/hooks/use-users";
+import { useCourseStats } from "@/hooks/use-courses";
+import {
+  useEnrollmentAnalytics,
+  useEnrollmentStats,
+  useRecentEnrollments,
+} from "@/hooks/use-enrollments";
+import { useVideoLibraryStats } from "@/hooks/use-videos-library";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Language, TranslationKey, TranslationParams } from "@/i18n";
+import type { LocalizedValue } from "@/lib/localized-text";
+import {
+  CURRENCIES,
+  PAYMENT_STATUS_LABELS,
+  getRevenueByCurrency,
+} from "@/lib/enrollment-analytics";
+import { videoLibraryService } from "@/services/videos-library-service";
+import type { Enrollment, PermissionName, User } from "@/types/api";
 
-export function DashboardHome() {
-  const { admin } = useAuthStore();
+type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+// "5 minutes ago" in the selected language
+const DATE_LOCALES: Record<Language, Locale> = { en: enUS, ar, he };
+
+// Month-to-date and the same days of the previous month, so a comparison
+// made mid-month is not against a full month. Whole days keep the ranges,
+// and the query keys built from them, stable for the day.
+const getMonthToDateRanges = (now: Date) => {
+  const sameDayLastMonth = subMonths(now, 1);
+  return {
+    currentMonth: {
+      startDate: startOfMonth(now).toISOString(),
+      endDate: endOfDay(now).toISOString(),
+    },
+    previousMonth: {
+      startDate: startOfMonth(sameDayLastMonth).toISOString(),
+      endDate: endOfDay(sameDayLastMonth).toISOString(),
+    },
+  };
+};
+
+const formatCurrency = (amount: number, currency: string = "usd") =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount);
+
+const formatNumber = (value: number) =>
+  new Intl.NumberFormat("en-US").format(value);
+
+// Percentage change between two periods, null when there is no baseline
+const getPercentageChange = (current: number, previous: number) => {
+  if (!previous) return null;
+  return ((current - previous) / previous) * 100;
+};
+
+function MonthOverMonth({
+  current,
+  previous,
+  label,
+}: {
+  current: number;
+  previous: number;
+  label?: string;
+}) {
+  const { t } = useTranslation();
+  const change = getPercentageChange(current, previous);
+
+  if (change === null) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {label && `${label} `}
+        {t("home.noLastMonthData")}
+      </p>
+    );
+  }
+
+  const isPositive = change >= 0;
+  const Icon = isPositive ? ArrowUpRight : ArrowDownRight;
 
   return (
-    <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Welcome back, {admin?.userName}!</h1>
-        <p className="text-gray-600">
-          Here's what's happening with your educational platform today.
+    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+      {label && <span className="font-medium">{label}</span>}
+      <span
+        className={`flex items-center ${
+          isPositive ? "text-green-600" : "text-red-600"
+        }`}
+      >
+        <Icon className="h-3 w-3" />
+        {isPositive ? "+" : ""}
+        {change.toFixed(1)}%
+      </span>
+      {t("home.vsLastMonth")}
+    </p>
+  );
+}
+
+function StatCard({
+  title,
+  icon: Icon,
+  isLoading,
+  value,
+  footer,
+}: {
+  title: string;
+  icon: typeof Users;
+  isLoading: boolean;
+  value: ReactNode;
+  footer?: ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-24" />
+            <Skeleton className="h-3 w-32" />
+          </div>
+        ) : (
+          <>
+            <div className="text-2xl font-bold">{value}</div>
+            {footer}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StudentsCard() {
+  const { t } = useTranslation();
+  const { data, isLoading } = useUserStats();
+  const stats = data?.data;
+
+  return (
+    <StatCard
+      title={t("home.totalStudents")}
+      icon={Users}
+      isLoading={isLoading}
+      value={formatNumber(stats?.total || 0)}
+      footer={
+        <p className="text-xs text-muted-foreground">
+          {t("home.verifiedBlocked", {
+            verified: formatNumber(stats?.verified || 0),
+            blocked: formatNumber(stats?.blocked || 0),
+          })}
+        </p>
+      }
+    />
+  );
+}
+
+function CoursesCard() {
+  const { t } = useTranslation();
+  const { data, isLoading } = useCourseStats();
+  const stats = data?.data;
+
+  return (
+    <StatCard
+      title={t("home.activeCourses")}
+      icon={Book}
+      isLoading={isLoading}
+      value={formatNumber(stats?.active || 0)}
+      footer={
+        <p className="text-xs text-muted-foreground">
+          {t("home.totalInactive", {
+            total: formatNumber(stats?.total || 0),
+            inactive: formatNumber(stats?.inactive || 0),
+          })}
         </p>
+      }
+    />
+  );
+}
+
+function EnrollmentsCard() {
+  const { t } = useTranslation();
+  const { currentMonth, previousMonth } = getMonthToDateRanges(new Date());
+  const { data: currentData, isLoading: isCurrentLoading } =
+    useEnrollmentStats(currentMonth.startDate, currentMonth.endDate);
+  const { data: previousData, isLoading: isPreviousLoading } =
+    useEnrollmentStats(previousMonth.startDate, previousMonth.endDate);
+
+  const current = currentData?.data?.totalEnrollments || 0;
+  const previous = previousData?.data?.totalEnrollments || 0;
+
+  return (
+    <StatCard
+      title={t("home.enrollmentsThisMonth")}
+      icon={BookOpen}
+      isLoading={isCurrentLoading || isPreviousLoading}
+      value={formatNumber(current)}
+      footer={<MonthOverMonth current={current} previous={previous} />}
+    />
+  );
+}
+
+// Revenue is kept per currency; the stats endpoint's totalRevenue adds
+// amounts in different currencies together
+function RevenueCard() {
+  const { t } = useTranslation();
+  const { currentMonth, previousMonth } = getMonthToDateRanges(new Date());
+  const { data: currentEnrollments, isLoading: isCurrentLoading } =
+    useEnrollmentAnalytics(currentMonth.startDate, currentMonth.endDate);
+  const { data: previousEnrollments, isLoading: isPreviousLoading } =
+    useEnrollmentAnalytics(previousMonth.startDate, previousMonth.endDate);
+
+  const current = getRevenueByCurrency(currentEnrollments || []);
+  const previous = getRevenueByCurrency(previousEnrollments || []);
+  const currencies = CURRENCIES.filter(
+    (currency) => current[currency] > 0 || previous[currency] > 0
+  );
+
+  return (
+    <StatCard
+      title={t("home.revenueThisMonth")}
+      icon={DollarSign}
+      isLoading={isCurrentLoading || isPreviousLoading}
+      value={
+        currencies
+          .filter((currency) => current[currency] > 0)
+          .map((currency) => formatCurrency(current[currency], currency))
+          .join(" · ") || formatCurrency(0)
+      }
+      footer={currencies.map((currency) => (
+        <MonthOverMonth
+          key={currency}
+          label={currency.toUpperCase()}
+          current={current[currency]}
+          previous={previous[currency]}
+        />
+      ))}
+    />
+  );
+}
+
+function VideoLibraryCard() {
+  const { t } = useTranslation();
+  const { data: lessonData, isLoading: isLessonLoading } =
+    useVideoLibraryStats("lesson");
+  const { data: courseData, isLoading: isCourseLoading } =
+    useVideoLibraryStats("course");
+
+  const totalVideos =
+    (lessonData?.data?.totalVideos || 0) + (courseData?.data?.totalVideos || 0);
+  const totalFileSize =
+    (lessonData?.data?.totalFileSize || 0) +
+    (courseData?.data?.totalFileSize || 0);
+
+  return (
+    <StatCard
+      title={t("home.libraryVideos")}
+      icon={Video}
+      isLoading={isLessonLoading || isCourseLoading}
+      value={formatNumber(totalVideos)}
+      footer={
+        <p className="text-xs text-muted-foreground">
+          {t("home.stored", {
+            size: videoLibraryService.formatBytes(totalFileSize),
+          })}
+        </p>
+      }
+    />
+  );
+}
+
+interface ActivityItem {
+  id: string;
+  message: string;
+  date: Date;
+  color: string;
+}
+
+const enrollmentActivity = (
+  enrollment: Enrollment,
+  localizeText: (value: LocalizedValue, fallback?: string) => string,
+  t: Translate
+): ActivityItem => ({
+  id: `enrollment-${enrollment._id}`,
+  message: t("home.enrolled", {
+    student: enrollment.userId?.fullName || t("home.aStudent"),
+    course: localizeText(enrollment.courseId?.name, t("home.aCourse")),
+    status: t(PAYMENT_STATUS_LABELS[enrollment.paymentStatus]),
+  }),
+  date: new Date(enrollment.createdAt),
+  color:
+    enrollment.paymentStatus === "completed" ? "bg-green-500" : "bg-yellow-500",
+});
+
+const userActivity = (user: User, t: Translate): ActivityItem => ({
+  id: `user-${user._id}`,
+  message: t("home.registered", { name: user.fullName }),
+  date: new Date(user.createdAt),
+  color: "bg-blue-500",
+});
+
+function RecentActivity({
+  canReadUsers,
+  canReadEnrollments,
+}: {
+  canReadUsers: boolean;
+  canReadEnrollments: boolean;
+}) {
+  const localizeText = useLocalizedText();
+  const { t, language } = useTranslation();
+  const { data: enrollmentsData, isLoading: isEnrollmentsLoading } =
+    useRecentEnrollments(5, canReadEnrollments);
+  const { data: usersData, isLoading: isUsersLoading } = useRecentUsers(
+    5,
+    canReadUsers
+  );
+
+  const isLoading =
+    (canReadEnrollments && isEnrollmentsLoading) ||
+    (canReadUsers && isUsersLoading);
+
+  const items: ActivityItem[] = [
+    ...(canReadEnrollments
+      ? (enrollmentsData?.data?.enrollments || []).map((enrollment) =>
+          enrollmentActivity(enrollment, localizeText, t)
+        )
+      : []),
+    ...(canReadUsers
+      ? (usersData?.data?.items || []).map((user) => userActivity(user, t))
+      : []),
+  ]
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+    .slice(0, 6);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <div key={index} className="flex items-center space-x-4">
+            <Skeleton className="h-2 w-2 rounded-full" />
+            <div className="space-y-1 flex-1">
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-3 w-20" />
+            </div>
+          </div>
+        ))}
       </div>
+    );
+  }
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Total Students
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">2,350</div>
-            <p className="text-xs text-muted-foreground">
-              +20.1% from last month
-            </p>
-          </CardContent>
-        </Card>
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("home.noActivity")}</p>
+    );
+  }
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">
-              Active Courses
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">128</div>
-            <p className="text-xs text-muted-foreground">
-              +12.5% from last month
+  return (
+    <div className="space-y-4">
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center space-x-4">
+          <div className={`w-2 h-2 rounded-full ${item.color}`}></div>
+          <div>
+            <p className="text-sm font-medium">{item.message}</p>
+            <p className="text-xs text-gray-500">
+              {formatDistanceToNow(item.date, {
+                addSuffix: true,
+                locale: DATE_LOCALES[language],
+              })}
             </p>
-          </CardContent>
-        </Card>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Universities</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">45</div>
-            <p className="text-xs text-muted-foreground">
-              +5.2% from last month
-            </p>
-          </CardContent>
-        </Card>
+const quickActions: Array<{
+  label: TranslationKey;
+  href: string;
+  permission: PermissionName;
+}> = [
+  {
+    label: "home.addUniversity",
+    href: "/dashboard/universities",
+    permission: "create_universities",
+  },
+  {
+    label: "home.createAdmin",
+    href: "/dashboard/admins",
+    permission: "create_admins",
+  },
+  {
+    label: "home.manageRoles",
+    href: "/dashboard/roles",
+    permission: "update_roles",
+  },
+  {
+    label: "home.reviewEnrollments",
+    href: "/dashboard/enrollments",
+    permission: "read_enrollments",
+  },
+];
 
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Enrollments</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">3,245</div>
-            <p className="text-xs text-muted-foreground">
-              +8.3% from last month
-            </p>
-          </CardContent>
-        </Card>
+export function DashboardHome() {
+  const { admin } = useAuthStore();
+  const { t } = useTranslation();
+
+  const canReadUsers = useHasPermission("read", "users");
+  const canReadCourses = useHasPermission("read", "courses");
+  const canReadEnrollments = useHasPermission("read", "enrollments");
+  const canReadVideoLibrary = useHasPermission("read", "video_library");
+
+  const availableActions = usePermittedItems(quickActions);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">
+          {t("home.welcome", { name: admin?.userName ?? "" })}
+        </h1>
+        <p className="text-gray-600">{t("home.subtitle")}</p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+        {canReadUsers && <StudentsCard />}
+        {canReadCourses && <CoursesCard />}
+        {canReadEnrollments && <EnrollmentsCard />}
+        {canReadEnrollments && <RevenueCard />}
+        {canReadVideoLibrary && <VideoLibraryCard />}
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
         <Card className="col-span-4">
           <CardHeader>
-            <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>Your latest platform activities</CardDescription>
+            <CardTitle>{t("home.recentActivity")}</CardTitle>
+            <CardDescription>
+              {t("home.recentActivityDescription")}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div className="flex items-center space-x-4">
-                <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                <div>
-                  <p className="text-sm font-medium">
-                    New course "React Advanced" was published
-                  </p>
-                  <p className="text-xs text-gray-500">2 hours ago</p>
-                </div>
-              </div>
-              <div className="flex items-center space-x-4">
-                <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <div>
-                  <p className="text-sm font-medium">
-                    50 new students enrolled this week
-                  </p>
-                  <p className="text-xs text-gray-500">1 day ago</p>
-                </div>
-              </div>
-              <div className="flex items-center space-x-4">
-                <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
-                <div>
-                  <p className="text-sm font-medium">
-                    University "MIT" updated their profile
-                  </p>
-                  <p className="text-xs text-gray-500">3 days ago</p>
-                </div>
-              </div>
-            </div>
+            {canReadUsers || canReadEnrollments ? (
+              <RecentActivity
+                canReadUsers={canReadUsers}
+                canReadEnrollments={canReadEnrollments}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {t("home.noActivityPermission")}
+              </p>
+            )}
           </CardContent>
         </Card>
 
         <Card className="col-span-3">
           <CardHeader>
-            <CardTitle>Quick Actions</CardTitle>
+            <CardTitle>{t("home.quickActions")}</CardTitle>
             <CardDescription>
-              Common tasks you might want to perform
+              {t("home.quickActionsDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
-              <button className="w-full p-2 text-left hover:bg-gray-50 rounded">
-                Add new university
-              </button>
-              <button className="w-full p-2 text-left hover:bg-gray-50 rounded">
-                Create admin account
-              </button>
-              <button className="w-full p-2 text-left hover:bg-gray-50 rounded">
-                Manage user roles
-              </button>
-              <button className="w-full p-2 text-left hover:bg-gray-50 rounded">
-                View reports
-              </button>
+              {availableActions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {t("home.noActions")}
+                </p>
+              ) : (
+                availableActions.map((action) => (
+                  <Link
+                    key={action.href}
+                    to={action.href}
+                    className="block w-full p-2 text-left hover:bg-gray-50 rounded"
+                  >
+                    {t(action.label)}
+                  </Link>
+                ))
+              )}
             </div>
           </CardContent>
         </Card>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -45,10 +45,109 @@ import {
   Clock,
 } from "lucide-react";
 import { useEnrollments } from "../hooks/use-enrollments";
-import type { EnrollmentFilters, RefundRequest } from "../types/api";
-import { format } from "date-fns";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Enrollment, EnrollmentFilters, RefundRequest } from "../types/api";
+import { ExportButton } from "@/components/shared/export-button";
+import { enrollmentService } from "@/services/enrollment-service";
+import type { ExportPageFetcher } from "@/services/export-service";
+import {
+  formatExportDate,
+  localize,
+  type ExportColumn,
+} from "@/lib/export";
+import {
+  PAYMENT_STATUSES,
+  PAYMENT_STATUS_LABELS,
+} from "@/lib/enrollment-analytics";
+import { translate } from "@/i18n";
+
+const enrollmentExportColumns: ExportColumn<Enrollment>[] = [
+  {
+    key: "student",
+    label: "common.student",
+    value: (enrollment) => enrollment.userId?.fullName,
+  },
+  {
+    key: "email",
+    label: "common.email",
+    value: (enrollment) => enrollment.userId?.email,
+  },
+  {
+    key: "course",
+    label: "common.course",
+    value: (enrollment, language) =>
+      localize(enrollment.courseId?.name, language),
+  },
+  {
+    key: "accessType",
+    label: "enrollments.accessType",
+    value: (enrollment, language) =>
+      translate(
+        language,
+        enrollment.fullAccess
+          ? "enrollments.fullCourse"
+          : "enrollments.individualTopics"
+      ),
+  },
+  {
+    key: "topics",
+    label: "enrollments.purchasedTopics",
+    value: (enrollment, language) =>
+      enrollment.purchasedTopics
+        ?.map((topic) => localize(topic.name, language))
+        .join("; "),
+    defaultSelected: false,
+  },
+  {
+    key: "totalAmount",
+    label: "enrollments.totalAmount",
+    value: (enrollment) => enrollment.totalAmount,
+    defaultSelected: false,
+  },
+  {
+    key: "discountAmount",
+    label: "enrollments.discount",
+    value: (enrollment) => enrollment.discountAmount,
+  },
+  {
+    key: "finalAmount",
+    label: "enrollments.amountPaid",
+    value: (enrollment) => enrollment.finalAmount,
+  },
+  {
+    key: "currency",
+    label: "enrollments.currency",
+    value: (enrollment) => enrollment.currency?.toUpperCase(),
+  },
+  {
+    key: "paymentStatus",
+    label: "enrollments.paymentStatus",
+    value: (enrollment) => enrollment.paymentStatus,
+  },
+  {
+    key: "isActive",
+    label: "common.active",
+    value: (enrollment, language) =>
+      translate(language, enrollment.isActive ? "common.yes" : "common.no"),
+    defaultSelected: false,
+  },
+  {
+    key: "expiresAt",
+    label: "enrollments.expires",
+    value: (enrollment) => formatExportDate(enrollment.expiresAt),
+    defaultSelected: false,
+  },
+  {
+    key: "createdAt",
+    label: "enrollments.enrolled",
+    value: (enrollment) => formatExportDate(enrollment.createdAt),
+  },
+];
 
 export function EnrollmentsPage() {
+  const localizeText = useLocalizedText();
+  const { t, language } = useTranslation();
   const [filters, setFilters] = useState<
     EnrollmentFilters & { page?: number; limit?: number; search?: string }
   >({
@@ -80,6 +179,26 @@ export function EnrollmentsPage() {
     refreshEnrollments,
   } = useEnrollments(filters);
 
+  // Export every page that matches the current filters
+  const fetchExportPage = useMemo<ExportPageFetcher<Enrollment>>(() => {
+    const { search, status, isActive, fullAccess } = filters;
+    return async (page, limit) => {
+      const response = await enrollmentService.getAllEnrollments({
+        search,
+        status,
+        isActive,
+        fullAccess,
+        page,
+        limit,
+      });
+      return {
+        items: response.data?.enrollments || [],
+        totalPages: response.data?.pagination?.totalPages || 1,
+        totalItems: response.data?.pagination?.totalItems,
+      };
+    };
+  }, [filters]);
+
   const handleFilterChange = (key: string, value: any) => {
     setFilters((prev) => ({
       ...prev,
@@ -125,37 +244,22 @@ export function EnrollmentsPage() {
 
   const getStatusBadge = (status: string) => {
     const statusConfig = {
-      pending: { variant: "secondary" as const, icon: Clock, label: "Pending" },
-      completed: {
-        variant: "default" as const,
-        icon: CheckCircle,
-        label: "Completed",
-      },
-      failed: {
-        variant: "destructive" as const,
-        icon: XCircle,
-        label: "Failed",
-      },
-      refunded: {
-        variant: "outline" as const,
-        icon: DollarSign,
-        label: "Refunded",
-      },
-      cancelled: {
-        variant: "secondary" as const,
-        icon: XCircle,
-        label: "Cancelled",
-      },
+      pending: { variant: "secondary" as const, icon: Clock },
+      completed: { variant: "default" as const, icon: CheckCircle },
+      failed: { variant: "destructive" as const, icon: XCircle },
+      refunded: { variant: "outline" as const, icon: DollarSign },
+      cancelled: { variant: "secondary" as const, icon: XCircle },
     };
 
-    const config =
-      statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
+    const key = (status in statusConfig ? status : "pending") as
+      keyof typeof statusConfig;
+    const config = statusConfig[key];
     const Icon = config.icon;
 
     return (
       <Badge variant={config.variant} className="flex items-center gap-1">
         <Icon className="h-3 w-3" />
-        {config.label}
+        {t(PAYMENT_STATUS_LABELS[key])}
       </Badge>
     );
   };
@@ -176,16 +280,15 @@ export function EnrollmentsPage() {
               {isCancelling ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
-                "Cancel"
+                t("common.cancel")
               )}
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Cancel Enrollment</DialogTitle>
+              <DialogTitle>{t("enrollments.cancelTitle")}</DialogTitle>
               <DialogDescription>
-                Are you sure you want to cancel this enrollment? This action
-                cannot be undone.
+                {t("enrollments.cancelDescription")}
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
@@ -193,7 +296,7 @@ export function EnrollmentsPage() {
                 variant="outline"
                 onClick={() => setCancelDialogOpen(false)}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 variant="destructive"
@@ -203,7 +306,7 @@ export function EnrollmentsPage() {
                 {isCancelling ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
                 ) : (
-                  "Yes, Cancel Enrollment"
+                  t("enrollments.confirmCancel")
                 )}
               </Button>
             </DialogFooter>
@@ -225,28 +328,27 @@ export function EnrollmentsPage() {
               {isRefunding ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
-                "Refund"
+                t("enrollments.refund")
               )}
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Refund Enrollment</DialogTitle>
+              <DialogTitle>{t("enrollments.refundTitle")}</DialogTitle>
               <DialogDescription>
-                Process a refund for this enrollment. Leave amount empty for
-                full refund.
+                {t("enrollments.refundDescription")}
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="refund-amount" className="text-right">
-                  Amount
+                  {t("enrollments.amount")}
                 </Label>
                 <Input
                   id="refund-amount"
                   type="number"
                   step="0.01"
-                  placeholder="Leave empty for full refund"
+                  placeholder={t("enrollments.refundPlaceholder")}
                   value={refundAmount}
                   onChange={(e) => setRefundAmount(e.target.value)}
                   className="col-span-3"
@@ -258,13 +360,13 @@ export function EnrollmentsPage() {
                 variant="outline"
                 onClick={() => setRefundDialogOpen(false)}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button onClick={handleRefundSubmit} disabled={isRefunding}>
                 {isRefunding ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
                 ) : (
-                  "Process Refund"
+                  t("enrollments.processRefund")
                 )}
               </Button>
             </DialogFooter>
@@ -284,22 +386,37 @@ export function EnrollmentsPage() {
   };
 
   const formatDate = (date: string | Date) => {
-    return format(new Date(date), "MMM dd, yyyy HH:mm");
+    return new Date(date).toLocaleString(language, {
+      year: "numeric",
+      month: "short",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
   };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Enrollments</h1>
-          <p className="text-muted-foreground">
-            Manage and monitor course enrollments
-          </p>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {t("enrollments.title")}
+          </h1>
+          <p className="text-muted-foreground">{t("enrollments.subtitle")}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <ExportButton
+            resource="enrollments"
+            name="enrollments"
+            size="sm"
+            columns={enrollmentExportColumns}
+            fetchPage={fetchExportPage}
+          />
+          <Button onClick={refreshEnrollments} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {t("common.refresh")}
+          </Button>
         </div>
-        <Button onClick={refreshEnrollments} variant="outline" size="sm">
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Refresh
-        </Button>
       </div>
 
       {/* Statistics Cards */}
@@ -307,7 +424,7 @@ export function EnrollmentsPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Total Enrollments
+              {t("enrollments.totalEnrollments")}
             </CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -325,7 +442,7 @@ export function EnrollmentsPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Completed Payments
+              {t("enrollments.completedPayments")}
             </CardTitle>
             <CheckCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -343,7 +460,7 @@ export function EnrollmentsPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Pending Payments
+              {t("enrollments.pendingPayments")}
             </CardTitle>
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -360,7 +477,9 @@ export function EnrollmentsPage() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("enrollments.totalRevenue")}
+            </CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -378,20 +497,18 @@ export function EnrollmentsPage() {
       {/* Filters */}
       <Card>
         <CardHeader>
-          <CardTitle>Filters</CardTitle>
-          <CardDescription>
-            Filter enrollments by various criteria
-          </CardDescription>
+          <CardTitle>{t("common.filters")}</CardTitle>
+          <CardDescription>{t("enrollments.filtersDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
             <div className="space-y-2">
-              <Label htmlFor="search">Search</Label>
+              <Label htmlFor="search">{t("common.search")}</Label>
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="search"
-                  placeholder="Search enrollments..."
+                  placeholder={t("enrollments.searchPlaceholder")}
                   value={filters.search || ""}
                   onChange={(e) => handleSearch(e.target.value)}
                   className="pl-8"
@@ -400,7 +517,7 @@ export function EnrollmentsPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="status">Payment Status</Label>
+              <Label htmlFor="status">{t("enrollments.paymentStatus")}</Label>
               <Select
                 value={filters.status || ""}
                 onValueChange={(value) =>
@@ -408,21 +525,21 @@ export function EnrollmentsPage() {
                 }
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="All statuses" />
+                  <SelectValue placeholder={t("common.allStatuses")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All statuses</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="failed">Failed</SelectItem>
-                  <SelectItem value="refunded">Refunded</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="all">{t("common.allStatuses")}</SelectItem>
+                  {PAYMENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {t(PAYMENT_STATUS_LABELS[status])}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="access">Access Type</Label>
+              <Label htmlFor="access">{t("enrollments.accessType")}</Label>
               <Select
                 value={filters.fullAccess?.toString() || ""}
                 onValueChange={(value) =>
@@ -433,18 +550,22 @@ export function EnrollmentsPage() {
                 }
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="All access types" />
+                  <SelectValue placeholder={t("enrollments.allAccessTypes")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All access types</SelectItem>
-                  <SelectItem value="true">Full Access</SelectItem>
-                  <SelectItem value="false">Individual Topics</SelectItem>
+                  <SelectItem value="all">
+                    {t("enrollments.allAccessTypes")}
+                  </SelectItem>
+                  <SelectItem value="true">{t("enrollments.fullAccess")}</SelectItem>
+                  <SelectItem value="false">
+                    {t("enrollments.individualTopics")}
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="active">Status</Label>
+              <Label htmlFor="active">{t("common.status")}</Label>
               <Select
                 value={filters.isActive?.toString() || ""}
                 onValueChange={(value) =>
@@ -455,12 +576,12 @@ export function EnrollmentsPage() {
                 }
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="All statuses" />
+                  <SelectValue placeholder={t("common.allStatuses")} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All statuses</SelectItem>
-                  <SelectItem value="true">Active</SelectItem>
-                  <SelectItem value="false">Inactive</SelectItem>
+                  <SelectItem value="all">{t("common.allStatuses")}</SelectItem>
+                  <SelectItem value="true">{t("common.active")}</SelectItem>
+                  <SelectItem value="false">{t("common.inactive")}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -471,9 +592,9 @@ export function EnrollmentsPage() {
       {/* Enrollments Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Enrollments</CardTitle>
+          <CardTitle>{t("enrollments.title")}</CardTitle>
           <CardDescription>
-            {pagination?.totalItems || 0} total enrollments
+            {t("enrollments.totalCount", { count: pagination?.totalItems || 0 })}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -487,13 +608,13 @@ export function EnrollmentsPage() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>User</TableHead>
-                      <TableHead>Course</TableHead>
-                      <TableHead>Type</TableHead>
-                      <TableHead>Amount</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Created</TableHead>
-                      <TableHead>Actions</TableHead>
+                      <TableHead>{t("enrollments.user")}</TableHead>
+                      <TableHead>{t("common.course")}</TableHead>
+                      <TableHead>{t("common.type")}</TableHead>
+                      <TableHead>{t("enrollments.amount")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead>{t("common.created")}</TableHead>
+                      <TableHead>{t("common.actions")}</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -503,7 +624,7 @@ export function EnrollmentsPage() {
                           colSpan={7}
                           className="text-center py-8 text-muted-foreground"
                         >
-                          No enrollments found
+                          {t("enrollments.notFound")}
                         </TableCell>
                       </TableRow>
                     ) : (
@@ -512,23 +633,26 @@ export function EnrollmentsPage() {
                           <TableCell>
                             <div>
                               <div className="font-medium">
-                                {enrollment.userId?.fullName || "N/A"}
+                                {enrollment.userId?.fullName ||
+                                  t("common.notAvailable")}
                               </div>
                               <div className="text-sm text-muted-foreground">
-                                {enrollment.userId?.email || "N/A"}
+                                {enrollment.userId?.email ||
+                                  t("common.notAvailable")}
                               </div>
                             </div>
                           </TableCell>
                           <TableCell>
                             <div>
                               <div className="font-medium">
-                                {typeof enrollment.courseId?.name === "string"
-                                  ? enrollment.courseId.name
-                                  : enrollment.courseId?.name?.en || "N/A"}
+                                {localizeText(
+                                  enrollment.courseId?.name,
+                                  t("common.notAvailable")
+                                )}
                               </div>
                               <div className="text-sm text-muted-foreground">
                                 {enrollment.courseId?.instructorId?.userName ||
-                                  "N/A"}
+                                  t("common.notAvailable")}
                               </div>
                             </div>
                           </TableCell>
@@ -539,8 +663,8 @@ export function EnrollmentsPage() {
                               }
                             >
                               {enrollment.fullAccess
-                                ? "Full Course"
-                                : "Individual Topics"}
+                                ? t("enrollments.fullCourse")
+                                : t("enrollments.individualTopics")}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -553,11 +677,12 @@ export function EnrollmentsPage() {
                               </div>
                               {enrollment.discountAmount > 0 && (
                                 <div className="text-sm text-muted-foreground">
-                                  Discount:{" "}
-                                  {formatCurrency(
-                                    enrollment.discountAmount,
-                                    enrollment.currency
-                                  )}
+                                  {t("enrollments.discountAmount", {
+                                    amount: formatCurrency(
+                                      enrollment.discountAmount,
+                                      enrollment.currency
+                                    ),
+                                  })}
                                 </div>
                               )}
                             </div>
@@ -580,14 +705,16 @@ export function EnrollmentsPage() {
               {pagination && pagination.totalPages > 1 && (
                 <div className="flex items-center justify-between space-x-2 py-4">
                   <div className="text-sm text-muted-foreground">
-                    Showing{" "}
-                    {(pagination.currentPage - 1) * pagination.itemsPerPage + 1}{" "}
-                    to{" "}
-                    {Math.min(
-                      pagination.currentPage * pagination.itemsPerPage,
-                      pagination.totalItems
-                    )}{" "}
-                    of {pagination.totalItems} entries
+                    {t("common.showing", {
+                      from:
+                        (pagination.currentPage - 1) * pagination.itemsPerPage +
+                        1,
+                      to: Math.min(
+                        pagination.currentPage * pagination.itemsPerPage,
+                        pagination.totalItems
+                      ),
+                      total: pagination.totalItems,
+                    })}
                   </div>
                   <div className="flex items-center space-x-2">
                     <Button
@@ -598,7 +725,7 @@ export function EnrollmentsPage() {
                       }
                       disabled={!pagination.hasPrev}
                     >
-                      Previous
+                      {t("common.previous")}
                     </Button>
                     <Button
                       variant="outline"
@@ -608,7 +735,7 @@ export function EnrollmentsPage() {
                       }
                       disabled={!pagination.hasNext}
                     >
-                      Next
+                      {t("common.next")}
                     </Button>
                   </div>
                 </div>
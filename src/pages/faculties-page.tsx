@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -73,7 +74,8 @@ import {
   GraduationCap,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { Can } from "@/components/shared/can";
 import {
   useFaculties,
   useCreateFaculty,
@@ -81,74 +83,78 @@ import {
   useDeleteFaculty,
   useHardDeleteFaculty,
   useFacultyStats,
+  useFacultyById,
 } from "@/hooks/use-faculties";
 import { useAllUniversities } from "@/hooks/use-universities";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { isLocalizedText, toLocalizedText } from "@/lib/localized-text";
 import type {
   Faculty,
   CreateFacultyInput,
   UpdateFacultyInput,
   University,
 } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form schemas
 const createFacultySchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(2, "English name must be at least 2 characters")
-      .max(100, "English name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .regex(
         /^[a-zA-Z0-9\s._-]+$/,
         "English name can only contain letters, numbers, spaces, dots, hyphens, and underscores"
       ),
     ar: z
       .string()
-      .min(2, "Arabic name must be at least 2 characters")
-      .max(100, "Arabic name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
     he: z
       .string()
-      .min(2, "Hebrew name must be at least 2 characters")
-      .max(100, "Hebrew name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
   }),
-  universityId: z.string().min(1, "University is required"),
+  universityId: z.string().min(1),
   no_academic_year: z
     .number()
-    .min(1, "Number of academic years must be at least 1")
-    .max(10, "Number of academic years cannot exceed 10"),
+    .min(1)
+    .max(10),
 });
 
 const updateFacultySchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(2, "English name must be at least 2 characters")
-      .max(100, "English name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .regex(
         /^[a-zA-Z0-9\s._-]+$/,
         "English name can only contain letters, numbers, spaces, dots, hyphens, and underscores"
       ),
     ar: z
       .string()
-      .min(2, "Arabic name must be at least 2 characters")
-      .max(100, "Arabic name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
     he: z
       .string()
-      .min(2, "Hebrew name must be at least 2 characters")
-      .max(100, "Hebrew name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
   }),
-  universityId: z.string().min(1, "University is required"),
+  universityId: z.string().min(1),
   no_academic_year: z
     .number()
-    .min(1, "Number of academic years must be at least 1")
-    .max(10, "Number of academic years cannot exceed 10"),
+    .min(1)
+    .max(10),
   isActive: z.boolean().optional(),
 });
 
@@ -156,7 +162,11 @@ type CreateFacultyFormData = z.infer<typeof createFacultySchema>;
 type UpdateFacultyFormData = z.infer<typeof updateFacultySchema>;
 
 export function FacultiesPage() {
-  const { hasPermission } = useAuthStore();
+  const { t, language } = useTranslation();
+  const localizeText = useLocalizedText();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const editId = searchParams.get("edit") || "";
+  const { data: linkedFaculty } = useFacultyById(editId);
   const [searchTerm, setSearchTerm] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [universityFilter, setUniversityFilter] = useState<string>("all");
@@ -220,20 +230,12 @@ export function FacultiesPage() {
   });
 
   // Helper function to get faculty name
-  const getFacultyName = (faculty: Faculty): string => {
-    if (typeof faculty.name === "string") {
-      return faculty.name;
-    }
-    return faculty.name.en || "Unknown Faculty";
-  };
+  const getFacultyName = (faculty: Faculty): string =>
+    localizeText(faculty.name, t("faculties.unknown"));
 
   // Helper function to get university name
-  const getUniversityName = (university: University): string => {
-    if (typeof university.name === "string") {
-      return university.name;
-    }
-    return university.name.en || "Unknown University";
-  };
+  const getUniversityName = (university: University): string =>
+    localizeText(university.name, t("universities.unknown"));
 
   // Handlers
   const handleCreateFaculty = async (data: CreateFacultyFormData) => {
@@ -250,12 +252,12 @@ export function FacultiesPage() {
       };
 
       await createFacultyMutation.mutateAsync(processedData);
-      toast.success("Faculty created successfully!");
+      toast.success(t("toast.facultyCreated"));
       setIsCreateDialogOpen(false);
       createForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to create faculty"
+        error instanceof Error ? error.message : t("toast.facultyCreateFailed")
       );
     }
   };
@@ -280,13 +282,13 @@ export function FacultiesPage() {
         id: editingFaculty._id,
         data: processedData,
       });
-      toast.success("Faculty updated successfully!");
+      toast.success(t("toast.facultyUpdated"));
       setIsEditDialogOpen(false);
       setEditingFaculty(null);
       updateForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update faculty"
+        error instanceof Error ? error.message : t("toast.facultyUpdateFailed")
       );
     }
   };
@@ -299,12 +301,12 @@ export function FacultiesPage() {
   const confirmDeleteFaculty = async () => {
     try {
       await deleteFacultyMutation.mutateAsync(deleteFacultyId);
-      toast.success("Faculty deleted successfully!");
+      toast.success(t("toast.facultyDeleted"));
       setIsDeleteDialogOpen(false);
       setDeleteFacultyId("");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete faculty"
+        error instanceof Error ? error.message : t("toast.facultyDeleteFailed")
       );
     }
   };
@@ -317,14 +319,14 @@ export function FacultiesPage() {
   const confirmHardDeleteFaculty = async () => {
     try {
       await hardDeleteFacultyMutation.mutateAsync(hardDeleteFacultyId);
-      toast.success("Faculty permanently deleted!");
+      toast.success(t("toast.facultyHardDeleted"));
       setIsHardDeleteDialogOpen(false);
       setHardDeleteFacultyId("");
     } catch (error) {
       toast.error(
         error instanceof Error
           ? error.message
-          : "Failed to permanently delete faculty"
+          : t("toast.facultyHardDeleteFailed")
       );
     }
   };
@@ -339,41 +341,51 @@ export function FacultiesPage() {
         data: { isActive: !currentStatus },
       });
       toast.success(
-        `Faculty ${!currentStatus ? "activated" : "deactivated"} successfully!`
+        !currentStatus
+          ? t("toast.facultyActivated")
+          : t("toast.facultyDeactivated")
       );
     } catch (error) {
       toast.error(
         error instanceof Error
           ? error.message
-          : "Failed to update faculty status"
+          : t("toast.facultyStatusFailed")
       );
     }
   };
 
-  const handleEditFaculty = (faculty: Faculty) => {
-    setEditingFaculty(faculty);
-    const facultyName =
-      typeof faculty.name === "string"
-        ? { en: faculty.name, ar: "", he: "" }
-        : faculty.name;
+  const handleEditFaculty = useCallback(
+    (faculty: Faculty) => {
+      setEditingFaculty(faculty);
+      const universityId =
+        typeof faculty.universityId === "string"
+          ? faculty.universityId
+          : faculty.universityId._id;
 
-    const universityId =
-      typeof faculty.universityId === "string"
-        ? faculty.universityId
-        : faculty.universityId._id;
+      updateForm.reset({
+        name: toLocalizedText(faculty.name),
+        universityId: universityId,
+        no_academic_year: faculty.no_academic_year,
+        isActive: faculty.isActive,
+      });
+      setIsEditDialogOpen(true);
+    },
+    [updateForm]
+  );
 
-    updateForm.reset({
-      name: {
-        en: facultyName.en || "",
-        ar: facultyName.ar || "",
-        he: facultyName.he || "",
+  // Open the edit dialog when linked from the translations worklist
+  useEffect(() => {
+    const faculty = linkedFaculty?.data;
+    if (!editId || !faculty) return;
+    handleEditFaculty(faculty);
+    setSearchParams(
+      (params) => {
+        params.delete("edit");
+        return params;
       },
-      universityId: universityId,
-      no_academic_year: faculty.no_academic_year,
-      isActive: faculty.isActive,
-    });
-    setIsEditDialogOpen(true);
-  };
+      { replace: true }
+    );
+  }, [editId, linkedFaculty, handleEditFaculty, setSearchParams]);
 
   const handleSearch = () => {
     setCurrentPage(1);
@@ -390,17 +402,16 @@ export function FacultiesPage() {
     setCurrentPage(1);
   };
 
-  const canRead = hasPermission("read_faculties");
-  const canCreate = hasPermission("create_faculties");
-  const canUpdate = hasPermission("update_faculties");
-  const canDelete = hasPermission("delete_faculties");
+  const canRead = useHasPermission("read", "faculties");
+  const canUpdate = useHasPermission("update", "faculties");
+  const canDelete = useHasPermission("delete", "faculties");
 
   if (!canRead) {
     return (
       <div className="space-y-6">
         <div className="text-center py-8">
           <p className="text-gray-500">
-            You don't have permission to view faculties.
+            {t("faculties.noPermission")}
           </p>
         </div>
       </div>
@@ -412,163 +423,171 @@ export function FacultiesPage() {
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">Faculty Management</h1>
+          <h1 className="text-3xl font-bold">{t("faculties.title")}</h1>
           <p className="text-gray-600">
-            Manage faculties and their academic programs.
+            {t("faculties.subtitle")}
           </p>
         </div>
-        {canCreate && (
-          <Dialog
-            open={isCreateDialogOpen}
-            onOpenChange={setIsCreateDialogOpen}
-          >
+        <Dialog
+          open={isCreateDialogOpen}
+          onOpenChange={setIsCreateDialogOpen}
+        >
+          <Can action="create" resource="faculties" mode="disable">
             <DialogTrigger asChild>
               <Button>
                 <Plus className="mr-2 h-4 w-4" />
-                Create Faculty
+                {t("faculties.create")}
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
-              <DialogHeader>
-                <DialogTitle>Create New Faculty</DialogTitle>
-                <DialogDescription>
-                  Create a new faculty with multilingual support.
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...createForm}>
-                <form
-                  onSubmit={createForm.handleSubmit(handleCreateFaculty)}
-                  className="space-y-4"
-                >
-                  <FormField
-                    control={createForm.control}
-                    name="name.en"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>English Name *</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Enter faculty name in English"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="name.ar"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Arabic Name (Optional)</FormLabel>
+          </Can>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>{t("faculties.createTitle")}</DialogTitle>
+              <DialogDescription>
+                {t("faculties.createDescription")}
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...createForm}>
+              <form
+                onSubmit={createForm.handleSubmit(handleCreateFaculty)}
+                className="space-y-4"
+              >
+                <FormField
+                  control={createForm.control}
+                  name="name.en"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.englishNameRequired")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("faculties.namePlaceholderEn")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="name.ar"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.arabicNameOptional")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("faculties.namePlaceholderAr")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="name.he"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.hebrewNameOptional")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("faculties.namePlaceholderHe")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="universityId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("faculties.universityRequired")}</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                      >
                         <FormControl>
-                          <Input
-                            placeholder="Enter faculty name in Arabic"
-                            {...field}
-                          />
+                          <SelectTrigger>
+                            <SelectValue
+                              placeholder={t("faculties.selectUniversity")}
+                            />
+                          </SelectTrigger>
                         </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="name.he"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Hebrew Name (Optional)</FormLabel>
+                        <SelectContent>
+                          {universitiesData?.data?.map((university) => (
+                            <SelectItem
+                              key={university._id}
+                              value={university._id}
+                            >
+                              {getUniversityName(university)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="no_academic_year"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t("faculties.academicYearsRequired")}
+                      </FormLabel>
+                      <Select
+                        onValueChange={(value) =>
+                          field.onChange(parseInt(value))
+                        }
+                        defaultValue={field.value.toString()}
+                      >
                         <FormControl>
-                          <Input
-                            placeholder="Enter faculty name in Hebrew"
-                            {...field}
-                          />
+                          <SelectTrigger>
+                            <SelectValue
+                              placeholder={t("faculties.selectYears")}
+                            />
+                          </SelectTrigger>
                         </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="universityId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>University *</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select a university" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {universitiesData?.data?.map((university) => (
-                              <SelectItem
-                                key={university._id}
-                                value={university._id}
-                              >
-                                {getUniversityName(university)}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="no_academic_year"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Number of Academic Years *</FormLabel>
-                        <Select
-                          onValueChange={(value) =>
-                            field.onChange(parseInt(value))
-                          }
-                          defaultValue={field.value.toString()}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select number of years" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((year) => (
-                              <SelectItem key={year} value={year.toString()}>
-                                {year} {year === 1 ? "Year" : "Years"}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <DialogFooter>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => setIsCreateDialogOpen(false)}
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createFacultyMutation.isPending}
-                    >
-                      {createFacultyMutation.isPending
-                        ? "Creating..."
-                        : "Create Faculty"}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
-        )}
+                        <SelectContent>
+                          {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((year) => (
+                            <SelectItem key={year} value={year.toString()}>
+                              {year === 1
+                                ? t("faculties.oneYear")
+                                : t("faculties.years", { count: year })}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsCreateDialogOpen(false)}
+                  >
+                    {t("common.cancel")}
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createFacultyMutation.isPending}
+                  >
+                    {createFacultyMutation.isPending
+                      ? t("common.creating")
+                      : t("faculties.create")}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
       </div>
 
       {/* Stats Cards */}
@@ -576,7 +595,7 @@ export function FacultiesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Total Faculties
+              {t("faculties.total")}
             </CardTitle>
             <Building2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -589,7 +608,7 @@ export function FacultiesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Active Faculties
+              {t("faculties.active")}
             </CardTitle>
             <Building2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -602,7 +621,7 @@ export function FacultiesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Inactive Faculties
+              {t("faculties.inactive")}
             </CardTitle>
             <Building2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -617,9 +636,9 @@ export function FacultiesPage() {
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Faculties</CardTitle>
+          <CardTitle>{t("faculties.faculties")}</CardTitle>
           <CardDescription>
-            Manage faculties and their academic information.
+            {t("faculties.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -628,7 +647,7 @@ export function FacultiesPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search faculties..."
+                  placeholder={t("faculties.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -638,12 +657,12 @@ export function FacultiesPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Select
@@ -651,10 +670,12 @@ export function FacultiesPage() {
               onValueChange={handleUniversityFilterChange}
             >
               <SelectTrigger className="w-[200px]">
-                <SelectValue placeholder="Filter by university" />
+                <SelectValue placeholder={t("faculties.filterByUniversity")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Universities</SelectItem>
+                <SelectItem value="all">
+                  {t("faculties.allUniversities")}
+                </SelectItem>
                 {universitiesData?.data?.map((university) => (
                   <SelectItem key={university._id} value={university._id}>
                     {getUniversityName(university)}
@@ -672,27 +693,29 @@ export function FacultiesPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>University</TableHead>
-                  <TableHead>Languages</TableHead>
-                  <TableHead>Academic Years</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Active</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead className="w-[120px]">Actions</TableHead>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead>{t("common.university")}</TableHead>
+                  <TableHead>{t("common.languages")}</TableHead>
+                  <TableHead>{t("faculties.academicYears")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("common.active")}</TableHead>
+                  <TableHead>{t("common.created")}</TableHead>
+                  <TableHead className="w-[120px]">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8">
-                      Loading faculties...
+                      {t("faculties.loading")}
                     </TableCell>
                   </TableRow>
                 ) : facultiesData?.data?.items?.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8">
-                      No faculties found.
+                      {t("faculties.notFound")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -708,7 +731,7 @@ export function FacultiesPage() {
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-1">
-                          {typeof faculty.name === "object" && (
+                          {isLocalizedText(faculty.name) && (
                             <>
                               {faculty.name.en && (
                                 <Badge variant="outline" className="text-xs">
@@ -727,10 +750,10 @@ export function FacultiesPage() {
                               )}
                             </>
                           )}
-                          {typeof faculty.name === "string" && (
+                          {!isLocalizedText(faculty.name) && (
                             <Badge variant="outline" className="text-xs">
                               <Globe className="h-3 w-3 mr-1" />
-                              Single
+                              {t("common.singleLanguage")}
                             </Badge>
                           )}
                         </div>
@@ -738,15 +761,20 @@ export function FacultiesPage() {
                       <TableCell>
                         <div className="flex items-center gap-1">
                           <GraduationCap className="h-4 w-4 text-muted-foreground" />
-                          {faculty.no_academic_year}{" "}
-                          {faculty.no_academic_year === 1 ? "Year" : "Years"}
+                          {faculty.no_academic_year === 1
+                            ? t("faculties.oneYear")
+                            : t("faculties.years", {
+                                count: faculty.no_academic_year,
+                              })}
                         </div>
                       </TableCell>
                       <TableCell>
                         <Badge
                           variant={faculty.isActive ? "default" : "secondary"}
                         >
-                          {faculty.isActive ? "Active" : "Inactive"}
+                          {faculty.isActive
+                            ? t("common.active")
+                            : t("common.inactive")}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -764,7 +792,9 @@ export function FacultiesPage() {
                         )}
                       </TableCell>
                       <TableCell>
-                        {new Date(faculty.createdAt).toLocaleDateString()}
+                        {new Date(faculty.createdAt).toLocaleDateString(
+                          language
+                        )}
                       </TableCell>
                       <TableCell>
                         {/* Desktop Actions */}
@@ -803,7 +833,7 @@ export function FacultiesPage() {
                                   onClick={() => handleEditFaculty(faculty)}
                                 >
                                   <Edit className="mr-2 h-4 w-4" />
-                                  Edit
+                                  {t("common.edit")}
                                 </DropdownMenuItem>
                               )}
                               {canDelete && (
@@ -815,7 +845,7 @@ export function FacultiesPage() {
                                     className="text-orange-600"
                                   >
                                     <Trash2 className="mr-2 h-4 w-4" />
-                                    Soft Delete
+                                    {t("common.softDelete")}
                                   </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onClick={() =>
@@ -824,7 +854,7 @@ export function FacultiesPage() {
                                     className="text-red-600"
                                   >
                                     <Trash2 className="mr-2 h-4 w-4" />
-                                    Hard Delete
+                                    {t("common.hardDelete")}
                                   </DropdownMenuItem>
                                 </>
                               )}
@@ -843,17 +873,18 @@ export function FacultiesPage() {
           {facultiesData?.data?.pagination && (
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(facultiesData.data.pagination.currentPage - 1) *
-                  facultiesData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  facultiesData.data.pagination.currentPage *
-                    facultiesData.data.pagination.itemsPerPage,
-                  facultiesData.data.pagination.totalItems
-                )}{" "}
-                of {facultiesData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (facultiesData.data.pagination.currentPage - 1) *
+                      facultiesData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    facultiesData.data.pagination.currentPage *
+                      facultiesData.data.pagination.itemsPerPage,
+                    facultiesData.data.pagination.totalItems
+                  ),
+                  total: facultiesData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -862,7 +893,7 @@ export function FacultiesPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!facultiesData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -870,7 +901,7 @@ export function FacultiesPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!facultiesData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -882,9 +913,9 @@ export function FacultiesPage() {
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit Faculty</DialogTitle>
+            <DialogTitle>{t("faculties.editTitle")}</DialogTitle>
             <DialogDescription>
-              Update faculty information and multilingual names.
+              {t("faculties.editDescription")}
             </DialogDescription>
           </DialogHeader>
           <Form {...updateForm}>
@@ -897,10 +928,10 @@ export function FacultiesPage() {
                 name="name.en"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>English Name *</FormLabel>
+                    <FormLabel>{t("common.englishNameRequired")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter faculty name in English"
+                        placeholder={t("faculties.namePlaceholderEn")}
                         {...field}
                       />
                     </FormControl>
@@ -913,10 +944,10 @@ export function FacultiesPage() {
                 name="name.ar"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Arabic Name (Optional)</FormLabel>
+                    <FormLabel>{t("common.arabicNameOptional")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter faculty name in Arabic"
+                        placeholder={t("faculties.namePlaceholderAr")}
                         {...field}
                       />
                     </FormControl>
@@ -929,10 +960,10 @@ export function FacultiesPage() {
                 name="name.he"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Hebrew Name (Optional)</FormLabel>
+                    <FormLabel>{t("common.hebrewNameOptional")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter faculty name in Hebrew"
+                        placeholder={t("faculties.namePlaceholderHe")}
                         {...field}
                       />
                     </FormControl>
@@ -945,14 +976,16 @@ export function FacultiesPage() {
                 name="universityId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>University *</FormLabel>
+                    <FormLabel>{t("faculties.universityRequired")}</FormLabel>
                     <Select
                       onValueChange={field.onChange}
                       defaultValue={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select a university" />
+                          <SelectValue
+                            placeholder={t("faculties.selectUniversity")}
+                          />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
@@ -975,20 +1008,26 @@ export function FacultiesPage() {
                 name="no_academic_year"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Number of Academic Years *</FormLabel>
+                    <FormLabel>
+                      {t("faculties.academicYearsRequired")}
+                    </FormLabel>
                     <Select
                       onValueChange={(value) => field.onChange(parseInt(value))}
                       defaultValue={field.value.toString()}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select number of years" />
+                          <SelectValue
+                            placeholder={t("faculties.selectYears")}
+                          />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
                         {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((year) => (
                           <SelectItem key={year} value={year.toString()}>
-                            {year} {year === 1 ? "Year" : "Years"}
+                            {year === 1
+                              ? t("faculties.oneYear")
+                              : t("faculties.years", { count: year })}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -1003,15 +1042,15 @@ export function FacultiesPage() {
                   variant="outline"
                   onClick={() => setIsEditDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button
                   type="submit"
                   disabled={updateFacultyMutation.isPending}
                 >
                   {updateFacultyMutation.isPending
-                    ? "Updating..."
-                    : "Update Faculty"}
+                    ? t("common.updating")
+                    : t("faculties.update")}
                 </Button>
               </DialogFooter>
             </form>
@@ -1026,19 +1065,18 @@ export function FacultiesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Faculty</AlertDialogTitle>
+            <AlertDialogTitle>{t("faculties.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this faculty? This action will
-              mark the faculty as inactive.
+              {t("faculties.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteFaculty}
               className="bg-orange-600 hover:bg-orange-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1051,19 +1089,20 @@ export function FacultiesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Permanently Delete Faculty</AlertDialogTitle>
+            <AlertDialogTitle>
+              {t("faculties.hardDeleteTitle")}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to permanently delete this faculty? This
-              action cannot be undone and will remove all associated data.
+              {t("faculties.hardDeleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmHardDeleteFaculty}
               className="bg-red-600 hover:bg-red-700"
             >
-              Permanently Delete
+              {t("common.permanentlyDelete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
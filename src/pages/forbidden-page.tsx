@@ -0,0 +1,50 @@
+import { useNavigate } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useTranslation } from "@/hooks/use-translation";
+
+interface ForbiddenPageProps {
+  permissions?: string[];
+}
+
+export function ForbiddenPage({ permissions = [] }: ForbiddenPageProps) {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center justify-center py-16">
+      <Card className="max-w-md w-full">
+        <CardContent className="flex flex-col items-center gap-4 text-center">
+          <ShieldAlert className="h-12 w-12 text-red-500" />
+          <div>
+            <p className="text-sm font-medium text-red-500">403</p>
+            <h1 className="text-2xl font-bold">{t("forbidden.title")}</h1>
+            <p className="text-gray-600 mt-2">{t("forbidden.description")}</p>
+          </div>
+          {permissions.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              {t("forbidden.requires")}{" "}
+              {permissions.map((permission, index) => (
+                <span key={permission}>
+                  {index > 0 && ` ${t("forbidden.or")} `}
+                  <code className="rounded bg-gray-100 px-1 py-0.5">
+                    {permission}
+                  </code>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate(-1)}>
+              {t("forbidden.goBack")}
+            </Button>
+            <Button onClick={() => navigate("/dashboard")}>
+              {t("forbidden.backToDashboard")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useState } from "react";
 import { useContentItems } from "@/hooks/use-content-items";
 import { useSection } from "@/hooks/use-sections";
 import { useFreeCourse } from "@/hooks/use-free-courses";
-import { useAuthStore } from "@/stores/auth-store";
+import { useAnyPermission, useHasPermission } from "@/hooks/use-authorization";
 import { Button } from "@/components/ui/button";
 import {
   Table,
@@ -18,6 +18,11 @@ import { Badge } from "@/components/ui/badge";
 import { Plus, FileText, Video, ClipboardList, Eye, Trash2 } from "lucide-react";
 import { BreadcrumbNavigation } from "@/components/shared/breadcrumb-navigation";
 import { useDeleteContentItem } from "@/hooks/use-content-items";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import { CONTENT_ITEM_TYPE_LABELS } from "@/lib/content-items";
+import type { LocalizedValue } from "@/lib/localized-text";
+import type { ContentItemType } from "@/types/api";
 import { ViewContentItemDialog } from "@/components/free-course/view-content-item-dialog";
 import {
   AlertDialog,
@@ -31,22 +36,22 @@ import {
 } from "@/components/ui/alert-dialog";
 
 export default function ContentItemsPage() {
+  const { t } = useTranslation();
   const { freeCourseId, sectionId } = useParams<{
     freeCourseId: string;
     sectionId: string;
   }>();
-  const { hasPermission, hasAnyPermission } = useAuthStore();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [selectedContent, setSelectedContent] = useState<{ id: string; title: string } | null>(null);
 
-  const canCreate = hasPermission("create_courses");
-  const canUpdate = hasPermission("update_courses");
-  const canDelete = hasPermission("delete_courses");
-  const canView = hasAnyPermission([
-    "read_courses",
-    "create_courses",
-    "update_courses",
+  const canCreate = useHasPermission("create", "sections");
+  const canUpdate = useHasPermission("update", "sections");
+  const canDelete = useHasPermission("delete", "sections");
+  const canView = useAnyPermission([
+    "read_sections",
+    "create_sections",
+    "update_sections",
   ]);
 
   const { data: freeCourse, isLoading: isCourseLoading } = useFreeCourse(
@@ -69,10 +74,9 @@ export default function ContentItemsPage() {
     setSelectedContent(null);
   };
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === "string") return value;
-    return value?.en || value?.name?.en || "N/A";
-  };
+  const localizeText = useLocalizedText();
+  const getDisplayName = (value: LocalizedValue) =>
+    localizeText(value, t("common.notAvailable"));
 
   const getContentTypeIcon = (type: string) => {
     switch (type) {
@@ -87,15 +91,15 @@ export default function ContentItemsPage() {
     }
   };
 
-  const getContentTypeBadge = (type: string) => {
+  const getContentTypeBadge = (type: ContentItemType) => {
     const variants: Record<string, any> = {
       file: "default",
       video: "secondary",
       quiz: "outline",
     };
     return (
-      <Badge variant={variants[type] || "default"} className="capitalize">
-        {type}
+      <Badge variant={variants[type] || "default"}>
+        {t(CONTENT_ITEM_TYPE_LABELS[type])}
       </Badge>
     );
   };
@@ -104,7 +108,7 @@ export default function ContentItemsPage() {
     return (
       <div className="flex items-center justify-center h-96">
         <p className="text-muted-foreground">
-          You don't have permission to view content items.
+          {t("contentItems.noPermission")}
         </p>
       </div>
     );
@@ -116,25 +120,29 @@ export default function ContentItemsPage() {
     <div className="space-y-6">
       <BreadcrumbNavigation
         items={[
-          { label: "Free Courses", path: "/dashboard/free-courses" },
+          { label: t("freeCourses.title"), path: "/dashboard/free-courses" },
           {
             label: getDisplayName(freeCourse?.data?.name),
             path: `/dashboard/free-courses/${freeCourseId}/sections`,
           },
           {
-            label: "Sections",
+            label: t("sections.title"),
             path: `/dashboard/free-courses/${freeCourseId}/sections`,
           },
           { label: getDisplayName(section?.title) },
-          { label: "Content" },
+          { label: t("contentItems.breadcrumb") },
         ]}
       />
 
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Content Items</h1>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {t("contentItems.title")}
+          </h1>
           <p className="text-muted-foreground">
-            Manage content for {getDisplayName(section?.title)}
+            {t("contentItems.subtitle", {
+              name: getDisplayName(section?.title),
+            })}
           </p>
         </div>
         {canCreate && (
@@ -143,7 +151,7 @@ export default function ContentItemsPage() {
           >
             <Button>
               <Plus className="mr-2 h-4 w-4" />
-              Add Content
+              {t("contentItems.add")}
             </Button>
           </Link>
         )}
@@ -153,18 +161,22 @@ export default function ContentItemsPage() {
         <CardContent className="p-0">
           {isLoading ? (
             <div className="flex items-center justify-center h-96">
-              <p className="text-muted-foreground">Loading content items...</p>
+              <p className="text-muted-foreground">
+                {t("contentItems.loading")}
+              </p>
             </div>
           ) : !contentItems?.length ? (
             <div className="flex flex-col items-center justify-center h-96 space-y-4">
-              <p className="text-muted-foreground">No content items found</p>
+              <p className="text-muted-foreground">
+                {t("contentItems.notFound")}
+              </p>
               {canCreate && (
                 <Link
                   to={`/dashboard/free-courses/${freeCourseId}/sections/${sectionId}/content/create`}
                 >
                   <Button>
                     <Plus className="mr-2 h-4 w-4" />
-                    Add First Content Item
+                    {t("contentItems.addFirst")}
                   </Button>
                 </Link>
               )}
@@ -173,9 +185,11 @@ export default function ContentItemsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Title</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t("common.title")}</TableHead>
+                  <TableHead>{t("common.type")}</TableHead>
+                  <TableHead className="text-right">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -204,7 +218,7 @@ export default function ContentItemsPage() {
                               }}
                             >
                               <Eye className="mr-2 h-4 w-4" />
-                              View
+                              {t("common.view")}
                             </Button>
                           )}
                           {canDelete && (
@@ -218,7 +232,7 @@ export default function ContentItemsPage() {
                               }}
                             >
                               <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
+                              {t("common.delete")}
                             </Button>
                           )}
                         </div>
@@ -244,20 +258,23 @@ export default function ContentItemsPage() {
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t("freeCourses.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the content item "{selectedContent?.title}".
-              This action cannot be undone.
+              {t("contentItems.deleteDescription", {
+                name: selectedContent?.title ?? "",
+              })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDelete}
               className="bg-red-600 hover:bg-red-700"
               disabled={deleteContentItem.isPending}
             >
-              {deleteContentItem.isPending ? "Deleting..." : "Delete"}
+              {deleteContentItem.isPending
+                ? t("common.deleting")
+                : t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -14,6 +14,12 @@ import { useSection } from "@/hooks/use-sections"
 import { useFreeCourse } from "@/hooks/use-free-courses"
 import { useVideoLibraries } from "@/hooks/use-videos-library"
 import { useQuizzes } from "@/hooks/use-quizzes"
+import { useLocalizedText } from "@/hooks/use-localized-text"
+import type { LocalizedValue } from "@/lib/localized-text"
+import {
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation"
 import { Button } from "@/components/ui/button"
 import {
   Form,
@@ -39,12 +45,13 @@ import { UploadService, type UploadProgress } from "@/services/upload-service"
 import { UploadProgressCard } from "@/components/ui/upload-progress"
 import { toast } from "sonner"
 import type { ContentItemType } from "@/types/api"
+import { useTranslation } from "@/hooks/use-translation"
 
 const contentItemSchema = z.object({
   title: z.object({
     en: z
       .string()
-      .min(2, "English title must be at least 2 characters")
+      .min(2)
       .max(200),
     ar: z.string().max(200).optional(),
     he: z.string().max(200).optional(),
@@ -57,6 +64,7 @@ const contentItemSchema = z.object({
 type ContentItemFormValues = z.infer<typeof contentItemSchema>
 
 export default function CreateUpdateContentItem() {
+  const { t } = useTranslation()
   const { freeCourseId, sectionId, contentId } = useParams<{
     freeCourseId: string
     sectionId: string
@@ -149,25 +157,27 @@ export default function CreateUpdateContentItem() {
         } catch (error) {
           setFileUploadStatus("error")
           setUploadError(
-            error instanceof Error ? error.message : "File upload failed"
+            error instanceof Error
+              ? error.message
+              : t("contentItems.fileUploadFailed")
           )
-          toast.error("Failed to upload file")
+          toast.error(t("toast.fileUploadFailed"))
           return
         }
       } else if (data.type === "file" && !isEditMode && !resourceId) {
-        toast.error("Please select a file to upload")
+        toast.error(t("toast.selectFileToUpload"))
         return
       }
 
       // Validate video has either resourceId or url
       if (data.type === "video" && !resourceId && !data.url) {
-        toast.error("Please select a video from library or enter a video URL")
+        toast.error(t("toast.selectVideoOrUrl"))
         return
       }
 
       // Validate quiz has resourceId
       if (data.type === "quiz" && !resourceId) {
-        toast.error("Please select a quiz")
+        toast.error(t("toast.selectQuiz"))
         return
       }
 
@@ -207,9 +217,18 @@ export default function CreateUpdateContentItem() {
     }
   }
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = event.target.files?.[0]
     if (file) {
+      // Validate type, size and content before anything is uploaded
+      const errors = await validateUploadFile(file, "free-course-file")
+      if (errors.length > 0) {
+        errors.forEach((error) => toast.error(error))
+        return
+      }
+
       setSelectedFile(file)
       setFileUploadStatus("idle")
       setFileUploadProgress(null)
@@ -217,10 +236,9 @@ export default function CreateUpdateContentItem() {
     }
   }
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === "string") return value
-    return value?.en || value?.name?.en || "N/A"
-  }
+  const localizeText = useLocalizedText()
+  const getDisplayName = (value: LocalizedValue) =>
+    localizeText(value, t("common.notAvailable"))
 
   if (isEditMode && isLoadingContent) {
     return (
@@ -234,13 +252,13 @@ export default function CreateUpdateContentItem() {
     <div className="space-y-6">
       <BreadcrumbNavigation
         items={[
-          { label: "Free Courses", path: "/dashboard/free-courses" },
+          { label: t("freeCourses.title"), path: "/dashboard/free-courses" },
           {
             label: getDisplayName(freeCourse?.data?.name),
             path: `/dashboard/free-courses/${freeCourseId}/sections`,
           },
           {
-            label: "Sections",
+            label: t("sections.title"),
             path: `/dashboard/free-courses/${freeCourseId}/sections`,
           },
           {
@@ -248,10 +266,12 @@ export default function CreateUpdateContentItem() {
             path: `/dashboard/free-courses/${freeCourseId}/sections/${sectionId}/content`,
           },
           {
-            label: "Content",
+            label: t("contentItems.breadcrumb"),
             path: `/dashboard/free-courses/${freeCourseId}/sections/${sectionId}/content`,
           },
-          { label: isEditMode ? "Edit Content" : "Add Content" },
+          {
+            label: isEditMode ? t("contentItems.edit") : t("contentItems.add"),
+          },
         ]}
       />
 
@@ -269,12 +289,14 @@ export default function CreateUpdateContentItem() {
         </Button>
         <div>
           <h1 className="text-3xl font-bold tracking-tight">
-            {isEditMode ? "Edit Content Item" : "Add Content Item"}
+            {isEditMode
+              ? t("contentItems.editTitle")
+              : t("contentItems.addTitle")}
           </h1>
           <p className="text-muted-foreground">
             {isEditMode
-              ? "Update content item details"
-              : "Add a new content item to this section"}
+              ? t("contentItems.editDescription")
+              : t("contentItems.addDescription")}
           </p>
         </div>
       </div>
@@ -283,7 +305,7 @@ export default function CreateUpdateContentItem() {
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Content Item Details</CardTitle>
+              <CardTitle>{t("contentItems.details")}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -292,10 +314,10 @@ export default function CreateUpdateContentItem() {
                   name="title.en"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Title (English) *</FormLabel>
+                      <FormLabel>{t("common.titleEn")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter content title in English"
+                          placeholder={t("contentItems.titlePlaceholderEn")}
                           {...field}
                         />
                       </FormControl>
@@ -309,10 +331,10 @@ export default function CreateUpdateContentItem() {
                   name="title.ar"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Title (Arabic)</FormLabel>
+                      <FormLabel>{t("common.titleAr")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter content title in Arabic"
+                          placeholder={t("contentItems.titlePlaceholderAr")}
                           {...field}
                         />
                       </FormControl>
@@ -326,10 +348,10 @@ export default function CreateUpdateContentItem() {
                   name="title.he"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Title (Hebrew)</FormLabel>
+                      <FormLabel>{t("common.titleHe")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter content title in Hebrew"
+                          placeholder={t("contentItems.titlePlaceholderHe")}
                           {...field}
                         />
                       </FormControl>
@@ -345,7 +367,7 @@ export default function CreateUpdateContentItem() {
                   name="type"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Content Type *</FormLabel>
+                      <FormLabel>{t("contentItems.typeRequired")}</FormLabel>
                       <Select
                         onValueChange={(value) => {
                           field.onChange(value)
@@ -356,18 +378,26 @@ export default function CreateUpdateContentItem() {
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select content type" />
+                            <SelectValue
+                              placeholder={t("contentItems.selectType")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="file">File</SelectItem>
-                          <SelectItem value="video">Video</SelectItem>
-                          <SelectItem value="quiz">Quiz</SelectItem>
+                          <SelectItem value="file">
+                            {t("contentItems.typeFile")}
+                          </SelectItem>
+                          <SelectItem value="video">
+                            {t("contentItems.typeVideo")}
+                          </SelectItem>
+                          <SelectItem value="quiz">
+                            {t("contentItems.typeQuiz")}
+                          </SelectItem>
                         </SelectContent>
                       </Select>
                       {isEditMode && (
                         <FormDescription>
-                          Content type cannot be changed after creation
+                          {t("contentItems.typeLocked")}
                         </FormDescription>
                       )}
                       <FormMessage />
@@ -379,10 +409,11 @@ export default function CreateUpdateContentItem() {
               {/* File Upload (only for file type) */}
               {selectedContentType === "file" && (
                 <div className="space-y-3">
-                  <FormLabel>Upload File *</FormLabel>
+                  <FormLabel>{t("contentItems.uploadFile")}</FormLabel>
                   <div className="flex items-center gap-3">
                     <Input
                       type="file"
+                      accept={getAcceptedExtensions("free-course-file")}
                       onChange={handleFileSelect}
                       className="flex-1"
                     />
@@ -400,8 +431,10 @@ export default function CreateUpdateContentItem() {
 
                   {selectedFile && (
                     <div className="text-sm text-gray-600">
-                      Selected: {selectedFile.name} (
-                      {UploadService.formatBytes(selectedFile.size)})
+                      {t("common.selectedFile", {
+                        name: selectedFile.name,
+                        size: UploadService.formatBytes(selectedFile.size),
+                      })}
                     </div>
                   )}
 
@@ -440,14 +473,18 @@ export default function CreateUpdateContentItem() {
                     name="resourceId"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Select from Video Library</FormLabel>
+                        <FormLabel>
+                          {t("contentItems.videoFromLibrary")}
+                        </FormLabel>
                         <Select
                           onValueChange={field.onChange}
                           value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
-                              <SelectValue placeholder="Select a video (optional)" />
+                              <SelectValue
+                                placeholder={t("contentItems.selectVideoOptional")}
+                              />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
@@ -464,7 +501,7 @@ export default function CreateUpdateContentItem() {
                   />
 
                   <div className="text-center text-sm text-muted-foreground">
-                    OR
+                    {t("contentItems.or")}
                   </div>
 
                   <FormField
@@ -472,7 +509,7 @@ export default function CreateUpdateContentItem() {
                     name="url"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>External Video URL</FormLabel>
+                        <FormLabel>{t("contentItems.externalUrl")}</FormLabel>
                         <FormControl>
                           <Input
                             placeholder="https://www.youtube.com/watch?v=..."
@@ -480,7 +517,7 @@ export default function CreateUpdateContentItem() {
                           />
                         </FormControl>
                         <FormDescription>
-                          Enter a YouTube or external video URL
+                          {t("contentItems.externalUrlHelp")}
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -496,14 +533,16 @@ export default function CreateUpdateContentItem() {
                   name="resourceId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Select Quiz *</FormLabel>
+                      <FormLabel>{t("contentItems.quizRequired")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select a quiz" />
+                            <SelectValue
+                              placeholder={t("contentItems.selectQuiz")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -532,7 +571,7 @@ export default function CreateUpdateContentItem() {
                 )
               }
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               type="submit"
@@ -545,17 +584,17 @@ export default function CreateUpdateContentItem() {
               {createMutation.isPending || updateMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {isEditMode ? "Updating..." : "Creating..."}
+                  {isEditMode ? t("common.updating") : t("common.creating")}
                 </>
               ) : fileUploadStatus === "uploading" ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Uploading file...
+                  {t("contentItems.uploadingFile")}
                 </>
               ) : isEditMode ? (
-                "Update Content"
+                t("contentItems.update")
               ) : (
-                "Add Content"
+                t("contentItems.add")
               )}
             </Button>
           </div>
@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { useEffect, useState } from "react";
 import { Link, useNavigate, useParams } from "react-router";
 import { useForm } from "react-hook-form";
@@ -12,6 +11,12 @@ import {
 import { useUniversities } from "@/hooks/use-universities";
 import { useFaculties } from "@/hooks/use-faculties";
 import { useAdmins } from "@/hooks/use-admins";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { toLocalizedText, type LocalizedValue } from "@/lib/localized-text";
+import {
+  getAcceptedExtensions,
+  validateUploadFile,
+} from "@/lib/upload-validation";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -38,12 +43,13 @@ import { ArrowLeft, Loader2, X } from "lucide-react";
 import { UploadService, type UploadProgress } from "@/services/upload-service";
 import { UploadProgressCard } from "@/components/ui/upload-progress";
 import { toast } from "sonner";
+import { useTranslation } from "@/hooks/use-translation";
 
 const freeCourseSchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(2, "English name must be at least 2 characters")
+      .min(2)
       .max(200),
     ar: z.string().max(200).optional(),
     he: z.string().max(200).optional(),
@@ -51,20 +57,21 @@ const freeCourseSchema = z.object({
   overview: z.object({
     en: z
       .string()
-      .min(10, "English overview must be at least 10 characters")
+      .min(10)
       .max(2000),
     ar: z.string().max(2000).optional(),
     he: z.string().max(2000).optional(),
   }),
-  universityId: z.string().min(1, "University is required"),
-  facultyId: z.string().min(1, "Faculty is required"),
-  instructorId: z.string().min(1, "Instructor is required"),
+  universityId: z.string().min(1),
+  facultyId: z.string().min(1),
+  instructorId: z.string().min(1),
   imageUrl: z.string().optional(),
 });
 
 type FreeCourseFormValues = z.infer<typeof freeCourseSchema>;
 
 export default function CreateUpdateFreeCourse() {
+  const { t } = useTranslation();
   const { id } = useParams();
   const navigate = useNavigate();
   const isEditMode = !!id;
@@ -109,12 +116,8 @@ export default function CreateUpdateFreeCourse() {
   useEffect(() => {
     if (isEditMode && freeCourseData?.data) {
       const course = freeCourseData.data;
-      const nameObj =
-        typeof course.name === "string" ? { en: course.name } : course.name;
-      const overviewObj =
-        typeof course.overview === "string"
-          ? { en: course.overview }
-          : course.overview;
+      const nameObj = toLocalizedText(course.name);
+      const overviewObj = toLocalizedText(course.overview);
 
       form.reset({
         name: nameObj,
@@ -160,13 +163,15 @@ export default function CreateUpdateFreeCourse() {
         } catch (error) {
           setImageUploadStatus("error");
           setUploadError(
-            error instanceof Error ? error.message : "Image upload failed"
+            error instanceof Error
+              ? error.message
+              : t("courses.imageUploadFailed")
           );
-          toast.error("Failed to upload image");
+          toast.error(t("toast.imageUploadFailed"));
           return;
         }
       } else if (!isEditMode && !data.imageUrl) {
-        toast.error("Course image is required");
+        toast.error(t("toast.courseImageRequired"));
         return;
       }
 
@@ -177,27 +182,30 @@ export default function CreateUpdateFreeCourse() {
 
       if (isEditMode && id) {
         await updateMutation.mutateAsync({ id, data: payload });
-        toast.success("Free course updated successfully!");
+        toast.success(t("toast.freeCourseUpdated"));
       } else {
         await createMutation.mutateAsync(payload);
-        toast.success("Free course created successfully!");
+        toast.success(t("toast.freeCourseCreated"));
       }
 
       navigate("/dashboard/free-courses");
     } catch (error) {
       console.error("Failed to save free course:", error);
       toast.error(
-        error instanceof Error ? error.message : "Failed to save free course"
+        error instanceof Error ? error.message : t("toast.freeCourseSaveFailed")
       );
     }
   };
 
-  const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
     const file = event.target.files?.[0];
     if (file) {
-      // Validate file type
-      if (!file.type.startsWith("image/")) {
-        toast.error("Please select a valid image file");
+      // Validate type, size and content before anything is uploaded
+      const errors = await validateUploadFile(file, "course-image");
+      if (errors.length > 0) {
+        errors.forEach((error) => toast.error(error));
         return;
       }
       setSelectedImage(file);
@@ -207,10 +215,8 @@ export default function CreateUpdateFreeCourse() {
     }
   };
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === "string") return value;
-    return value?.en || value?.name?.en || "N/A";
-  };
+  const localizeText = useLocalizedText();
+  const getDisplayName = (value: LocalizedValue) => localizeText(value, "N/A");
 
   if (isEditMode && isLoadingFreeCourse) {
     return (
@@ -232,12 +238,12 @@ export default function CreateUpdateFreeCourse() {
         </Button>
         <div>
           <h1 className="text-3xl font-bold tracking-tight">
-            {isEditMode ? "Edit Free Course" : "Create Free Course"}
+            {isEditMode ? t("freeCourses.editTitle") : t("freeCourses.create")}
           </h1>
           <p className="text-muted-foreground">
             {isEditMode
-              ? "Update the free course details and sections"
-              : "Create a new university-specific free course"}
+              ? t("freeCourses.editDescription")
+              : t("freeCourses.createDescription")}
           </p>
         </div>
       </div>
@@ -246,7 +252,7 @@ export default function CreateUpdateFreeCourse() {
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Basic Information</CardTitle>
+              <CardTitle>{t("courses.basicInformation")}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid gap-4 md:grid-cols-2">
@@ -255,7 +261,7 @@ export default function CreateUpdateFreeCourse() {
                   name="universityId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>University *</FormLabel>
+                      <FormLabel>{t("faculties.universityRequired")}</FormLabel>
                       <Select
                         onValueChange={(value) => {
                           field.onChange(value);
@@ -266,7 +272,9 @@ export default function CreateUpdateFreeCourse() {
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select university" />
+                            <SelectValue
+                              placeholder={t("freeCourses.selectUniversity")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -290,7 +298,7 @@ export default function CreateUpdateFreeCourse() {
                   name="facultyId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Faculty *</FormLabel>
+                      <FormLabel>{t("freeCourses.facultyRequired")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         value={field.value}
@@ -298,7 +306,9 @@ export default function CreateUpdateFreeCourse() {
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select faculty" />
+                            <SelectValue
+                              placeholder={t("freeCourses.selectFaculty")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -311,7 +321,7 @@ export default function CreateUpdateFreeCourse() {
                       </Select>
                       {!selectedUniversity && (
                         <FormDescription>
-                          Select a university first
+                          {t("freeCourses.selectUniversityFirst")}
                         </FormDescription>
                       )}
                       <FormMessage />
@@ -324,14 +334,16 @@ export default function CreateUpdateFreeCourse() {
                   name="instructorId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Instructor *</FormLabel>
+                      <FormLabel>{t("courses.instructor")}</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select instructor" />
+                            <SelectValue
+                              placeholder={t("freeCourses.selectInstructor")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -348,17 +360,16 @@ export default function CreateUpdateFreeCourse() {
                 />
 
                 <div className="md:col-span-2">
-                  <FormLabel>Course Image *</FormLabel>
+                  <FormLabel>{t("courses.image")}</FormLabel>
                   <p className="text-sm text-gray-600 mb-3">
-                    Upload a high-quality image for your course (JPG, PNG, GIF,
-                    WebP, SVG)
+                    {t("courses.imageHelp")}
                   </p>
 
                   <div className="space-y-3">
                     <div className="flex items-center gap-3">
                       <Input
                         type="file"
-                        accept="image/*"
+                        accept={getAcceptedExtensions("course-image")}
                         onChange={handleImageSelect}
                         className="flex-1"
                       />
@@ -376,8 +387,10 @@ export default function CreateUpdateFreeCourse() {
 
                     {selectedImage && (
                       <div className="text-sm text-gray-600">
-                        Selected: {selectedImage.name} (
-                        {UploadService.formatBytes(selectedImage.size)})
+                        {t("common.selectedFile", {
+                          name: selectedImage.name,
+                          size: UploadService.formatBytes(selectedImage.size),
+                        })}
                       </div>
                     )}
 
@@ -413,11 +426,11 @@ export default function CreateUpdateFreeCourse() {
                       !selectedImage && (
                         <div className="mt-3 p-3 border rounded-lg bg-gray-50">
                           <p className="text-sm text-gray-600 mb-2">
-                            Current image:
+                            {t("courses.currentImage")}
                           </p>
                           <img
                             src={freeCourseData.data.imageUrl}
-                            alt="Current course image"
+                            alt={t("courses.currentImageAlt")}
                             className="max-w-xs h-auto rounded border"
                           />
                         </div>
@@ -447,10 +460,10 @@ export default function CreateUpdateFreeCourse() {
                     name="name.en"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Course Name (English) *</FormLabel>
+                        <FormLabel>{t("freeCourses.nameEn")}</FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="Enter course name in English"
+                            placeholder={t("freeCourses.namePlaceholderEn")}
                             {...field}
                           />
                         </FormControl>
@@ -464,10 +477,10 @@ export default function CreateUpdateFreeCourse() {
                     name="name.ar"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Course Name (Arabic)</FormLabel>
+                        <FormLabel>{t("freeCourses.nameAr")}</FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="Enter course name in Arabic"
+                            placeholder={t("freeCourses.namePlaceholderAr")}
                             {...field}
                           />
                         </FormControl>
@@ -481,10 +494,10 @@ export default function CreateUpdateFreeCourse() {
                     name="name.he"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Course Name (Hebrew)</FormLabel>
+                        <FormLabel>{t("freeCourses.nameHe")}</FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="Enter course name in Hebrew"
+                            placeholder={t("freeCourses.namePlaceholderHe")}
                             {...field}
                           />
                         </FormControl>
@@ -500,10 +513,10 @@ export default function CreateUpdateFreeCourse() {
                     name="overview.en"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Overview (English) *</FormLabel>
+                        <FormLabel>{t("freeCourses.overviewEn")}</FormLabel>
                         <FormControl>
                           <Textarea
-                            placeholder="Enter course overview in English"
+                            placeholder={t("freeCourses.overviewPlaceholderEn")}
                             rows={4}
                             {...field}
                           />
@@ -518,10 +531,10 @@ export default function CreateUpdateFreeCourse() {
                     name="overview.ar"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Overview (Arabic)</FormLabel>
+                        <FormLabel>{t("freeCourses.overviewAr")}</FormLabel>
                         <FormControl>
                           <Textarea
-                            placeholder="Enter course overview in Arabic"
+                            placeholder={t("freeCourses.overviewPlaceholderAr")}
                             rows={4}
                             {...field}
                           />
@@ -536,10 +549,10 @@ export default function CreateUpdateFreeCourse() {
                     name="overview.he"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Overview (Hebrew)</FormLabel>
+                        <FormLabel>{t("freeCourses.overviewHe")}</FormLabel>
                         <FormControl>
                           <Textarea
-                            placeholder="Enter course overview in Hebrew"
+                            placeholder={t("freeCourses.overviewPlaceholderHe")}
                             rows={4}
                             {...field}
                           />
@@ -559,10 +572,12 @@ export default function CreateUpdateFreeCourse() {
               <CardContent className="pt-6">
                 <div className="text-center space-y-4">
                   <p className="text-muted-foreground">
-                    Sections are now managed separately for better organization.
+                    {t("freeCourses.sectionsManagedSeparately")}
                   </p>
                   <Link to={`/dashboard/free-courses/${id}/sections`}>
-                    <Button variant="outline">Manage Sections</Button>
+                    <Button variant="outline">
+                      {t("freeCourses.manageSections")}
+                    </Button>
                   </Link>
                 </div>
               </CardContent>
@@ -575,7 +590,7 @@ export default function CreateUpdateFreeCourse() {
               variant="outline"
               onClick={() => navigate("/dashboard/free-courses")}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               type="submit"
@@ -588,17 +603,17 @@ export default function CreateUpdateFreeCourse() {
               {createMutation.isPending || updateMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {isEditMode ? "Updating..." : "Creating..."}
+                  {isEditMode ? t("common.updating") : t("common.creating")}
                 </>
               ) : imageUploadStatus === "uploading" ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Uploading image...
+                  {t("courses.uploadingImage")}
                 </>
               ) : isEditMode ? (
-                "Update Free Course"
+                t("freeCourses.update")
               ) : (
-                "Create Free Course"
+                t("freeCourses.create")
               )}
             </Button>
           </div>
@@ -10,6 +10,9 @@ import {
   useSections,
 } from "@/hooks/use-sections";
 import { useFreeCourse } from "@/hooks/use-free-courses";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import type { LocalizedValue } from "@/lib/localized-text";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -31,7 +34,7 @@ const sectionSchema = z.object({
   title: z.object({
     en: z
       .string()
-      .min(2, "English title must be at least 2 characters")
+      .min(2)
       .max(200),
     ar: z.string().max(200).optional(),
     he: z.string().max(200).optional(),
@@ -49,6 +52,7 @@ const sectionSchema = z.object({
 type SectionFormValues = z.infer<typeof sectionSchema>;
 
 export default function CreateUpdateSection() {
+  const { t } = useTranslation();
   const { freeCourseId, sectionId } = useParams<{
     freeCourseId: string;
     sectionId?: string;
@@ -99,10 +103,9 @@ export default function CreateUpdateSection() {
     }
   };
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === "string") return value;
-    return value?.en || value?.name?.en || "N/A";
-  };
+  const localizeText = useLocalizedText();
+  const getDisplayName = (value: LocalizedValue) =>
+    localizeText(value, t("common.notAvailable"));
 
   if (isEditMode && isLoadingSection) {
     return (
@@ -116,16 +119,18 @@ export default function CreateUpdateSection() {
     <div className="space-y-6">
       <BreadcrumbNavigation
         items={[
-          { label: "Free Courses", path: "/dashboard/free-courses" },
+          { label: t("freeCourses.title"), path: "/dashboard/free-courses" },
           {
             label: getDisplayName(freeCourse?.data?.name),
             path: `/dashboard/free-courses/${freeCourseId}/sections`,
           },
           {
-            label: "Sections",
+            label: t("sections.title"),
             path: `/dashboard/free-courses/${freeCourseId}/sections`,
           },
-          { label: isEditMode ? "Edit Section" : "Create Section" },
+          {
+            label: isEditMode ? t("sections.edit") : t("sections.create"),
+          },
         ]}
       />
 
@@ -141,12 +146,12 @@ export default function CreateUpdateSection() {
         </Button>
         <div>
           <h1 className="text-3xl font-bold tracking-tight">
-            {isEditMode ? "Edit Section" : "Create Section"}
+            {isEditMode ? t("sections.edit") : t("sections.create")}
           </h1>
           <p className="text-muted-foreground">
             {isEditMode
-              ? "Update section details"
-              : "Create a new section for this free course"}
+              ? t("sections.editDescription")
+              : t("sections.createDescription")}
           </p>
         </div>
       </div>
@@ -155,7 +160,7 @@ export default function CreateUpdateSection() {
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Section Details</CardTitle>
+              <CardTitle>{t("sections.details")}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -164,10 +169,10 @@ export default function CreateUpdateSection() {
                   name="title.en"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Title (English) *</FormLabel>
+                      <FormLabel>{t("common.titleEn")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter section title in English"
+                          placeholder={t("sections.titlePlaceholderEn")}
                           {...field}
                         />
                       </FormControl>
@@ -181,10 +186,10 @@ export default function CreateUpdateSection() {
                   name="title.ar"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Title (Arabic)</FormLabel>
+                      <FormLabel>{t("common.titleAr")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter section title in Arabic"
+                          placeholder={t("sections.titlePlaceholderAr")}
                           {...field}
                         />
                       </FormControl>
@@ -198,10 +203,10 @@ export default function CreateUpdateSection() {
                   name="title.he"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Title (Hebrew)</FormLabel>
+                      <FormLabel>{t("common.titleHe")}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder="Enter section title in Hebrew"
+                          placeholder={t("sections.titlePlaceholderHe")}
                           {...field}
                         />
                       </FormControl>
@@ -217,10 +222,10 @@ export default function CreateUpdateSection() {
                   name="description.en"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Description (English)</FormLabel>
+                      <FormLabel>{t("common.descriptionEn")}</FormLabel>
                       <FormControl>
                         <Textarea
-                          placeholder="Enter section description in English"
+                          placeholder={t("sections.descriptionPlaceholderEn")}
                           rows={3}
                           {...field}
                         />
@@ -235,10 +240,10 @@ export default function CreateUpdateSection() {
                   name="description.ar"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Description (Arabic)</FormLabel>
+                      <FormLabel>{t("common.descriptionAr")}</FormLabel>
                       <FormControl>
                         <Textarea
-                          placeholder="Enter section description in Arabic"
+                          placeholder={t("sections.descriptionPlaceholderAr")}
                           rows={3}
                           {...field}
                         />
@@ -253,10 +258,10 @@ export default function CreateUpdateSection() {
                   name="description.he"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Description (Hebrew)</FormLabel>
+                      <FormLabel>{t("common.descriptionHe")}</FormLabel>
                       <FormControl>
                         <Textarea
-                          placeholder="Enter section description in Hebrew"
+                          placeholder={t("sections.descriptionPlaceholderHe")}
                           rows={3}
                           {...field}
                         />
@@ -274,9 +279,11 @@ export default function CreateUpdateSection() {
                   render={({ field }) => (
                     <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
                       <div className="space-y-0.5">
-                        <FormLabel className="text-base">Visibility</FormLabel>
+                        <FormLabel className="text-base">
+                          {t("sections.visibility")}
+                        </FormLabel>
                         <FormDescription>
-                          Make this section visible to students
+                          {t("sections.visibilityHelp")}
                         </FormDescription>
                       </div>
                       <FormControl>
@@ -300,7 +307,7 @@ export default function CreateUpdateSection() {
                 navigate(`/dashboard/free-courses/${freeCourseId}/sections`)
               }
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               type="submit"
@@ -309,12 +316,12 @@ export default function CreateUpdateSection() {
               {createMutation.isPending || updateMutation.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {isEditMode ? "Updating..." : "Creating..."}
+                  {isEditMode ? t("common.updating") : t("common.creating")}
                 </>
               ) : isEditMode ? (
-                "Update Section"
+                t("sections.update")
               ) : (
-                "Create Section"
+                t("sections.create")
               )}
             </Button>
           </div>
@@ -2,7 +2,7 @@ import { Link, useParams } from 'react-router-dom';
 import { useState } from 'react';
 import { useSections } from '@/hooks/use-sections';
 import { useFreeCourse } from '@/hooks/use-free-courses';
-import { useAuthStore } from '@/stores/auth-store';
+import { useAnyPermission, useHasPermission } from '@/hooks/use-authorization';
 import { Button } from '@/components/ui/button';
 import {
   Table,
@@ -17,6 +17,9 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, Eye, Pencil, Trash2 } from 'lucide-react';
 import { BreadcrumbNavigation } from '@/components/shared/breadcrumb-navigation';
 import { useDeleteSection } from '@/hooks/use-sections';
+import { useLocalizedText } from '@/hooks/use-localized-text';
+import { useTranslation } from '@/hooks/use-translation';
+import type { LocalizedValue } from '@/lib/localized-text';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,18 +32,18 @@ import {
 } from '@/components/ui/alert-dialog';
 
 export default function SectionsPage() {
+  const { t } = useTranslation();
   const { freeCourseId } = useParams<{ freeCourseId: string }>();
-  const { hasPermission, hasAnyPermission } = useAuthStore();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedSection, setSelectedSection] = useState<{ id: string; name: string } | null>(null);
 
-  const canCreate = hasPermission('create_courses');
-  const canUpdate = hasPermission('update_courses');
-  const canDelete = hasPermission('delete_courses');
-  const canView = hasAnyPermission([
-    'read_courses',
-    'create_courses',
-    'update_courses',
+  const canCreate = useHasPermission('create', 'sections');
+  const canUpdate = useHasPermission('update', 'sections');
+  const canDelete = useHasPermission('delete', 'sections');
+  const canView = useAnyPermission([
+    'read_sections',
+    'create_sections',
+    'update_sections',
   ]);
 
   const { data: freeCourse, isLoading: isCourseLoading } = useFreeCourse(
@@ -58,16 +61,15 @@ export default function SectionsPage() {
     setSelectedSection(null);
   };
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === 'string') return value;
-    return value?.en || value?.name?.en || 'N/A';
-  };
+  const localizeText = useLocalizedText();
+  const getDisplayName = (value: LocalizedValue) =>
+    localizeText(value, t('common.notAvailable'));
 
   if (!canView) {
     return (
       <div className="flex items-center justify-center h-96">
         <p className="text-muted-foreground">
-          You don't have permission to view sections.
+          {t('sections.noPermission')}
         </p>
       </div>
     );
@@ -79,17 +81,21 @@ export default function SectionsPage() {
     <div className="space-y-6">
       <BreadcrumbNavigation
         items={[
-          { label: 'Free Courses', path: '/dashboard/free-courses' },
+          { label: t('freeCourses.title'), path: '/dashboard/free-courses' },
           { label: getDisplayName(freeCourse?.data?.name) },
-          { label: 'Sections' },
+          { label: t('sections.title') },
         ]}
       />
 
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Sections</h1>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {t('sections.title')}
+          </h1>
           <p className="text-muted-foreground">
-            Manage sections for {getDisplayName(freeCourse?.data?.name)}
+            {t('sections.subtitle', {
+              name: getDisplayName(freeCourse?.data?.name),
+            })}
           </p>
         </div>
         {canCreate && (
@@ -98,7 +104,7 @@ export default function SectionsPage() {
           >
             <Button>
               <Plus className="mr-2 h-4 w-4" />
-              Create Section
+              {t('sections.create')}
             </Button>
           </Link>
         )}
@@ -108,18 +114,18 @@ export default function SectionsPage() {
         <CardContent className="p-0">
           {isLoading ? (
             <div className="flex items-center justify-center h-96">
-              <p className="text-muted-foreground">Loading sections...</p>
+              <p className="text-muted-foreground">{t('sections.loading')}</p>
             </div>
           ) : !sections?.length ? (
             <div className="flex flex-col items-center justify-center h-96 space-y-4">
-              <p className="text-muted-foreground">No sections found</p>
+              <p className="text-muted-foreground">{t('sections.notFound')}</p>
               {canCreate && (
                 <Link
                   to={`/dashboard/free-courses/${freeCourseId}/sections/create`}
                 >
                   <Button>
                     <Plus className="mr-2 h-4 w-4" />
-                    Create First Section
+                    {t('sections.createFirst')}
                   </Button>
                 </Link>
               )}
@@ -128,11 +134,13 @@ export default function SectionsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Title</TableHead>
-                  <TableHead>Description</TableHead>
-                  <TableHead>Content Items</TableHead>
-                  <TableHead>Visibility</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
+                  <TableHead>{t('common.title')}</TableHead>
+                  <TableHead>{t('common.description')}</TableHead>
+                  <TableHead>{t('sections.contentItems')}</TableHead>
+                  <TableHead>{t('sections.visibility')}</TableHead>
+                  <TableHead className="text-right">
+                    {t('common.actions')}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -144,7 +152,7 @@ export default function SectionsPage() {
                         {getDisplayName(section.title)}
                       </TableCell>
                       <TableCell className="max-w-md truncate">
-                        {getDisplayName(section.description) || '-'}
+                        {localizeText(section.description, '-')}
                       </TableCell>
                       <TableCell>
                         <Link
@@ -152,7 +160,9 @@ export default function SectionsPage() {
                         >
                           <Button variant="ghost" size="sm">
                             <Eye className="mr-2 h-4 w-4" />
-                            Content ({section.contentItems?.length || 0})
+                            {t('sections.contentCount', {
+                              count: section.contentItems?.length || 0,
+                            })}
                           </Button>
                         </Link>
                       </TableCell>
@@ -160,7 +170,9 @@ export default function SectionsPage() {
                         <Badge
                           variant={section.isVisible ? 'default' : 'secondary'}
                         >
-                          {section.isVisible ? 'Visible' : 'Hidden'}
+                          {section.isVisible
+                            ? t('sections.visible')
+                            : t('sections.hidden')}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right">
@@ -172,7 +184,7 @@ export default function SectionsPage() {
                               >
                                 <Button variant="ghost" size="sm">
                                   <Eye className="mr-2 h-4 w-4" />
-                                  View Content
+                                  {t('sections.viewContent')}
                                 </Button>
                               </Link>
                               <Link
@@ -180,7 +192,7 @@ export default function SectionsPage() {
                               >
                                 <Button variant="ghost" size="sm">
                                   <Pencil className="mr-2 h-4 w-4" />
-                                  Edit
+                                  {t('common.edit')}
                                 </Button>
                               </Link>
                             </>
@@ -196,7 +208,7 @@ export default function SectionsPage() {
                               }}
                             >
                               <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
+                              {t('common.delete')}
                             </Button>
                           )}
                         </div>
@@ -212,20 +224,23 @@ export default function SectionsPage() {
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t('freeCourses.deleteTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the section "{selectedSection?.name}" and all
-              its content items. This action cannot be undone.
+              {t('sections.deleteDescription', {
+                name: selectedSection?.name ?? '',
+              })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDelete}
               className="bg-red-600 hover:bg-red-700"
               disabled={deleteSection.isPending}
             >
-              {deleteSection.isPending ? 'Deleting...' : 'Delete'}
+              {deleteSection.isPending
+                ? t('common.deleting')
+                : t('common.delete')}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,8 +1,11 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { useState } from "react";
 import { Link } from "react-router";
 import { useFreeCourses, useDeleteFreeCourse } from "@/hooks/use-free-courses";
-import { useAuthStore } from "@/stores/auth-store";
+import { useAnyPermission, useHasPermission } from "@/hooks/use-authorization";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { useTranslation } from "@/hooks/use-translation";
+import type { LocalizedValue } from "@/lib/localized-text";
+import { Can } from "@/components/shared/can";
 import { Button } from "@/components/ui/button";
 import {
   Table,
@@ -36,20 +39,19 @@ import { Plus, Pencil, Trash2, FolderOpen } from "lucide-react";
 import type { FreeCourse, University, Faculty, Admin } from "@/types/api";
 
 export default function FreeCoursesPage() {
-  const { hasPermission, hasAnyPermission } = useAuthStore();
+  const { t } = useTranslation();
   const [page, setPage] = useState(1);
   const [search, setSearch] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedCourse, setSelectedCourse] = useState<FreeCourse | null>(null);
 
-  const canCreate = hasPermission("create_courses");
-  const canUpdate = hasPermission("update_courses");
-  const canDelete = hasPermission("delete_courses");
-  const canView = hasAnyPermission([
-    "read_courses",
-    "create_courses",
-    "update_courses",
+  const canUpdate = useHasPermission("update", "free_courses");
+  const canDelete = useHasPermission("delete", "free_courses");
+  const canView = useAnyPermission([
+    "read_free_courses",
+    "create_free_courses",
+    "update_free_courses",
   ]);
 
   const { data, isLoading, error } = useFreeCourses({
@@ -76,16 +78,15 @@ export default function FreeCoursesPage() {
     }
   };
 
-  const getDisplayName = (value: any) => {
-    if (typeof value === "string") return value;
-    return value?.en || value?.name?.en || "N/A";
-  };
+  const localizeText = useLocalizedText();
+  const getDisplayName = (value: LocalizedValue) =>
+    localizeText(value, t("common.notAvailable"));
 
   if (!canView) {
     return (
       <div className="flex items-center justify-center h-96">
         <p className="text-muted-foreground">
-          You don't have permission to view free courses.
+          {t("freeCourses.noPermission")}
         </p>
       </div>
     );
@@ -95,41 +96,45 @@ export default function FreeCoursesPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Free Courses</h1>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {t("freeCourses.title")}
+          </h1>
           <p className="text-muted-foreground">
-            Manage university-specific free courses (Moodle-like)
+            {t("freeCourses.subtitle")}
           </p>
         </div>
-        {canCreate && (
+        <Can action="create" resource="free_courses">
           <Link to="/dashboard/free-courses/create">
             <Button>
               <Plus className="mr-2 h-4 w-4" />
-              Create Free Course
+              {t("freeCourses.create")}
             </Button>
           </Link>
-        )}
+        </Can>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Filters</CardTitle>
+          <CardTitle>{t("common.filters")}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="flex gap-4">
             <Input
-              placeholder="Search by name..."
+              placeholder={t("freeCourses.searchPlaceholder")}
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="max-w-sm"
             />
             <Select value={isActiveFilter} onValueChange={setIsActiveFilter}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Courses</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="inactive">Inactive</SelectItem>
+                <SelectItem value="all">
+                  {t("freeCourses.allCourses")}
+                </SelectItem>
+                <SelectItem value="active">{t("common.active")}</SelectItem>
+                <SelectItem value="inactive">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -140,28 +145,34 @@ export default function FreeCoursesPage() {
         <CardContent className="p-0">
           {isLoading ? (
             <div className="flex items-center justify-center h-96">
-              <p className="text-muted-foreground">Loading free courses...</p>
+              <p className="text-muted-foreground">
+                {t("freeCourses.loading")}
+              </p>
             </div>
           ) : error ? (
             <div className="flex items-center justify-center h-96">
-              <p className="text-destructive">Error loading free courses</p>
+              <p className="text-destructive">{t("freeCourses.loadFailed")}</p>
             </div>
           ) : !data?.data?.items?.length ? (
             <div className="flex items-center justify-center h-96">
-              <p className="text-muted-foreground">No free courses found</p>
+              <p className="text-muted-foreground">
+                {t("freeCourses.notFound")}
+              </p>
             </div>
           ) : (
             <>
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Name</TableHead>
-                    <TableHead>University</TableHead>
-                    <TableHead>Faculty</TableHead>
-                    <TableHead>Instructor</TableHead>
-                    <TableHead>Sections</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
+                    <TableHead>{t("common.name")}</TableHead>
+                    <TableHead>{t("common.university")}</TableHead>
+                    <TableHead>{t("common.faculty")}</TableHead>
+                    <TableHead>{t("freeCourses.instructor")}</TableHead>
+                    <TableHead>{t("freeCourses.sections")}</TableHead>
+                    <TableHead>{t("common.status")}</TableHead>
+                    <TableHead className="text-right">
+                      {t("common.actions")}
+                    </TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -171,15 +182,15 @@ export default function FreeCoursesPage() {
                         {getDisplayName(course.name)}
                       </TableCell>
                       <TableCell>
-                        {getDisplayName(course.universityId as University)}
+                        {getDisplayName((course.universityId as University)?.name)}
                       </TableCell>
                       <TableCell>
-                        {getDisplayName(course.facultyId as Faculty)}
+                        {getDisplayName((course.facultyId as Faculty)?.name)}
                       </TableCell>
                       <TableCell>
                         {typeof course.instructorId === "object"
                           ? (course.instructorId as Admin).userName
-                          : "N/A"}
+                          : t("common.notAvailable")}
                       </TableCell>
                       <TableCell>
                         <Link
@@ -187,7 +198,9 @@ export default function FreeCoursesPage() {
                         >
                           <Button variant="ghost" size="sm">
                             <FolderOpen className="mr-2 h-4 w-4" />
-                            Sections ({course.sections?.length || 0})
+                            {t("freeCourses.sectionsCount", {
+                              count: course.sections?.length || 0,
+                            })}
                           </Button>
                         </Link>
                       </TableCell>
@@ -195,7 +208,9 @@ export default function FreeCoursesPage() {
                         <Badge
                           variant={course.isActive ? "default" : "secondary"}
                         >
-                          {course.isActive ? "Active" : "Inactive"}
+                          {course.isActive
+                            ? t("common.active")
+                            : t("common.inactive")}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-right">
@@ -206,7 +221,7 @@ export default function FreeCoursesPage() {
                             >
                               <Button variant="ghost" size="sm">
                                 <Pencil className="mr-2 h-4 w-4" />
-                                Edit
+                                {t("common.edit")}
                               </Button>
                             </Link>
                           )}
@@ -221,7 +236,7 @@ export default function FreeCoursesPage() {
                               }}
                             >
                               <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
+                              {t("common.delete")}
                             </Button>
                           )}
                         </div>
@@ -234,9 +249,11 @@ export default function FreeCoursesPage() {
               {data.data.pagination && (
                 <div className="flex items-center justify-between px-6 py-4 border-t">
                   <p className="text-sm text-muted-foreground">
-                    Showing {(page - 1) * 10 + 1} to{" "}
-                    {Math.min(page * 10, data.data.pagination.totalItems)} of{" "}
-                    {data.data.pagination.totalItems} courses
+                    {t("common.showing", {
+                      from: (page - 1) * 10 + 1,
+                      to: Math.min(page * 10, data.data.pagination.totalItems),
+                      total: data.data.pagination.totalItems,
+                    })}
                   </p>
                   <div className="flex gap-2">
                     <Button
@@ -245,7 +262,7 @@ export default function FreeCoursesPage() {
                       onClick={() => setPage((p) => Math.max(1, p - 1))}
                       disabled={!data.data.pagination.hasPrev}
                     >
-                      Previous
+                      {t("common.previous")}
                     </Button>
                     <Button
                       variant="outline"
@@ -253,7 +270,7 @@ export default function FreeCoursesPage() {
                       onClick={() => setPage((p) => p + 1)}
                       disabled={!data.data.pagination.hasNext}
                     >
-                      Next
+                      {t("common.next")}
                     </Button>
                   </div>
                 </div>
@@ -266,20 +283,22 @@ export default function FreeCoursesPage() {
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t("freeCourses.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              This will deactivate the free course "
-              {selectedCourse && getDisplayName(selectedCourse.name)}". This
-              action can be reversed by reactivating the course.
+              {t("freeCourses.deleteDescription", {
+                name: selectedCourse ? getDisplayName(selectedCourse.name) : "",
+              })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDelete}
               disabled={deleteMutation.isPending}
             >
-              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              {deleteMutation.isPending
+                ? t("common.deleting")
+                : t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
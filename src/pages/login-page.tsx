@@ -20,17 +20,19 @@ import {
   FormMessage,
 } from "@/components/ui/form"
 import { useAuthStore } from "@/stores/auth-store"
+import { useTranslation } from "@/hooks/use-translation"
 import { toast } from "sonner"
 
 const loginSchema = z.object({
-  login: z.string().min(1, "Username or email is required"),
-  password: z.string().min(1, "Password is required"),
+  login: z.string().min(1, "login.loginRequired"),
+  password: z.string().min(1, "login.passwordRequired"),
 })
 
 type LoginFormData = z.infer<typeof loginSchema>
 
 export function LoginPage() {
   const { login, isLoading } = useAuthStore()
+  const { t } = useTranslation()
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -51,9 +53,9 @@ export function LoginPage() {
         : { userName: data.login, password: data.password }
 
       await login(credentials)
-      toast.success("Login successful!")
+      toast.success(t("login.success"))
     } catch (error) {
-      toast.error(error instanceof Error ? error.message : "Login failed")
+      toast.error(error instanceof Error ? error.message : t("login.failed"))
     }
   }
 
@@ -61,8 +63,8 @@ export function LoginPage() {
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
         <CardHeader>
-          <CardTitle>Admin Login</CardTitle>
-          <CardDescription>Sign in to your admin dashboard</CardDescription>
+          <CardTitle>{t("login.title")}</CardTitle>
+          <CardDescription>{t("login.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -72,11 +74,11 @@ export function LoginPage() {
                 name="login"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Username or Email</FormLabel>
+                    <FormLabel>{t("login.login")}</FormLabel>
                     <FormControl>
                       <Input
                         {...field}
-                        placeholder="Enter your username or email"
+                        placeholder={t("login.loginPlaceholder")}
                         disabled={isLoading}
                       />
                     </FormControl>
@@ -90,11 +92,11 @@ export function LoginPage() {
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <FormLabel>{t("login.password")}</FormLabel>
                     <FormControl>
                       <PasswordInput
                         {...field}
-                        placeholder="Enter your password"
+                        placeholder={t("login.passwordPlaceholder")}
                         disabled={isLoading}
                       />
                     </FormControl>
@@ -104,7 +106,7 @@ export function LoginPage() {
               />
 
               <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? "Signing in..." : "Sign In"}
+                {isLoading ? t("login.submitting") : t("login.submit")}
               </Button>
             </form>
           </Form>
@@ -1,8 +1,10 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { ArrowLeft, Trophy, Medal, Award } from "lucide-react";
 import { useCourseLeaderboard } from "@/hooks/use-progress";
 import { useCourse } from "@/hooks/use-courses";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import type { LocalizedValue } from "@/lib/localized-text";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import {
@@ -23,8 +25,58 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
+import { ExportButton } from "@/components/shared/export-button";
+import { progressService } from "@/services/progress-service";
+import {
+  FULL_LIST_EXPORT_LIMIT,
+  singlePageSource,
+} from "@/services/export-service";
+import { formatExportDate, type ExportColumn } from "@/lib/export";
+import { translate } from "@/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+import type { LeaderboardEntry } from "@/types/api";
+
+const leaderboardExportColumns: ExportColumn<LeaderboardEntry>[] = [
+  { key: "rank", label: "leaderboard.rank", value: (entry) => entry.rank },
+  { key: "student", label: "common.student", value: (entry) => entry.user?.fullName },
+  { key: "email", label: "common.email", value: (entry) => entry.user?.email },
+  {
+    key: "completionPercentage",
+    label: "leaderboard.completionPercent",
+    value: (entry) => entry.completionPercentage,
+  },
+  {
+    key: "completedLessons",
+    label: "leaderboard.completedLessons",
+    value: (entry) => entry.completedLessons,
+  },
+  {
+    key: "totalLessons",
+    label: "leaderboard.totalLessons",
+    value: (entry) => entry.totalLessons,
+  },
+  {
+    key: "timeSpent",
+    label: "leaderboard.timeSpent",
+    value: (entry) => entry.totalTimeSpentFormatted,
+  },
+  {
+    key: "completed",
+    label: "leaderboard.courseCompleted",
+    value: (entry, language) =>
+      translate(language, entry.isCourseCompleted ? "common.yes" : "common.no"),
+  },
+  {
+    key: "completedAt",
+    label: "leaderboard.completedAt",
+    value: (entry) => formatExportDate(entry.completedAt),
+    defaultSelected: false,
+  },
+];
 
 export function CourseLeaderboardPage() {
+  const { t, language } = useTranslation();
+  const localizeText = useLocalizedText();
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
   const [limit, setLimit] = useState(10);
@@ -38,10 +90,21 @@ export function CourseLeaderboardPage() {
   const course = courseData?.data;
   const leaderboard = leaderboardData?.data || [];
 
-  const getCourseName = (courseName: any): string => {
-    if (typeof courseName === "string") return courseName;
-    return courseName?.en || courseName?.ar || courseName?.he || "Untitled Course";
-  };
+  // The leaderboard endpoint is limit-based, so export asks for everyone at once
+  const fetchExportPage = useMemo(
+    () =>
+      singlePageSource(async () => {
+        const response = await progressService.getCourseLeaderboard(
+          courseId!,
+          FULL_LIST_EXPORT_LIMIT
+        );
+        return response.data || [];
+      }),
+    [courseId]
+  );
+
+  const getCourseName = (courseName: LocalizedValue): string =>
+    localizeText(courseName, t("common.untitledCourse"));
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
@@ -88,7 +151,7 @@ export function CourseLeaderboardPage() {
           onClick={() => navigate(`/dashboard/courses/${courseId}/progress`)}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
-          Back to Progress
+          {t("leaderboard.backToProgress")}
         </Button>
       </div>
 
@@ -96,27 +159,40 @@ export function CourseLeaderboardPage() {
         <div>
           <h1 className="text-2xl font-bold flex items-center gap-2">
             <Trophy className="h-6 w-6 text-yellow-500" />
-            {course ? getCourseName(course.name) : "Course"} Leaderboard
+            {t("leaderboard.title", {
+              course: course
+                ? getCourseName(course.name)
+                : t("leaderboard.courseFallback"),
+            })}
           </h1>
           <p className="text-gray-500 mt-1">
-            Top performers ranked by completion percentage and time spent
+            {t("leaderboard.subtitle")}
           </p>
         </div>
 
-        <Select
-          value={limit.toString()}
-          onValueChange={(value) => setLimit(parseInt(value))}
-        >
-          <SelectTrigger className="w-32">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="10">Top 10</SelectItem>
-            <SelectItem value="25">Top 25</SelectItem>
-            <SelectItem value="50">Top 50</SelectItem>
-            <SelectItem value="100">Top 100</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2">
+          <ExportButton
+            resource="progress"
+            name="course-leaderboard"
+            columns={leaderboardExportColumns}
+            fetchPage={fetchExportPage}
+          />
+          <Select
+            value={limit.toString()}
+            onValueChange={(value) => setLimit(parseInt(value))}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[10, 25, 50, 100].map((count) => (
+                <SelectItem key={count} value={count.toString()}>
+                  {t("common.top", { count })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Top 3 Podium */}
@@ -133,7 +209,10 @@ export function CourseLeaderboardPage() {
               <Progress value={leaderboard[1].completionPercentage} className="mb-2" />
               <p className="text-2xl font-bold">{leaderboard[1].completionPercentage.toFixed(1)}%</p>
               <p className="text-sm text-gray-600">
-                {leaderboard[1].completedLessons} / {leaderboard[1].totalLessons} lessons
+                {t("leaderboard.lessonsCount", {
+                  completed: leaderboard[1].completedLessons,
+                  total: leaderboard[1].totalLessons,
+                })}
               </p>
               <p className="text-sm text-gray-600 mt-1">
                 {leaderboard[1].totalTimeSpentFormatted}
@@ -152,14 +231,17 @@ export function CourseLeaderboardPage() {
               <Progress value={leaderboard[0].completionPercentage} className="mb-2" />
               <p className="text-3xl font-bold">{leaderboard[0].completionPercentage.toFixed(1)}%</p>
               <p className="text-sm text-gray-600">
-                {leaderboard[0].completedLessons} / {leaderboard[0].totalLessons} lessons
+                {t("leaderboard.lessonsCount", {
+                  completed: leaderboard[0].completedLessons,
+                  total: leaderboard[0].totalLessons,
+                })}
               </p>
               <p className="text-sm text-gray-600 mt-1">
                 {leaderboard[0].totalTimeSpentFormatted}
               </p>
             </div>
             {leaderboard[0].isCourseCompleted && (
-              <Badge variant="default" className="mt-2">Completed</Badge>
+              <Badge variant="default" className="mt-2">{t("common.completed")}</Badge>
             )}
           </Card>
 
@@ -174,7 +256,10 @@ export function CourseLeaderboardPage() {
               <Progress value={leaderboard[2].completionPercentage} className="mb-2" />
               <p className="text-2xl font-bold">{leaderboard[2].completionPercentage.toFixed(1)}%</p>
               <p className="text-sm text-gray-600">
-                {leaderboard[2].completedLessons} / {leaderboard[2].totalLessons} lessons
+                {t("leaderboard.lessonsCount", {
+                  completed: leaderboard[2].completedLessons,
+                  total: leaderboard[2].totalLessons,
+                })}
               </p>
               <p className="text-sm text-gray-600 mt-1">
                 {leaderboard[2].totalTimeSpentFormatted}
@@ -189,13 +274,13 @@ export function CourseLeaderboardPage() {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead className="w-16">Rank</TableHead>
-              <TableHead>User</TableHead>
-              <TableHead>Email</TableHead>
-              <TableHead>Progress</TableHead>
-              <TableHead>Lessons</TableHead>
-              <TableHead>Time Spent</TableHead>
-              <TableHead>Status</TableHead>
+              <TableHead className="w-16">{t("leaderboard.rank")}</TableHead>
+              <TableHead>{t("leaderboard.user")}</TableHead>
+              <TableHead>{t("common.email")}</TableHead>
+              <TableHead>{t("leaderboard.progress")}</TableHead>
+              <TableHead>{t("leaderboard.lessons")}</TableHead>
+              <TableHead>{t("leaderboard.timeSpent")}</TableHead>
+              <TableHead>{t("common.status")}</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -208,7 +293,7 @@ export function CourseLeaderboardPage() {
             ) : leaderboard.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={7} className="text-center py-8 text-gray-500">
-                  No leaderboard data available
+                  {t("leaderboard.noData")}
                 </TableCell>
               </TableRow>
             ) : (
@@ -247,11 +332,11 @@ export function CourseLeaderboardPage() {
                   </TableCell>
                   <TableCell>
                     <Badge variant={entry.isCourseCompleted ? "default" : "secondary"}>
-                      {entry.isCourseCompleted ? "Completed" : "In Progress"}
+                      {entry.isCourseCompleted ? t("common.completed") : t("common.inProgress")}
                     </Badge>
                     {entry.completedAt && (
                       <p className="text-xs text-gray-500 mt-1">
-                        {new Date(entry.completedAt).toLocaleDateString()}
+                        {new Date(entry.completedAt).toLocaleDateString(language)}
                       </p>
                     )}
                   </TableCell>
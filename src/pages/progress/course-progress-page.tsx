@@ -2,13 +2,18 @@ import { useParams, useNavigate } from "react-router-dom";
 import { ArrowLeft, Users, Target, Clock, TrendingUp, Trophy } from "lucide-react";
 import { useCourseStatistics } from "@/hooks/use-progress";
 import { useCourse } from "@/hooks/use-courses";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import type { LocalizedValue } from "@/lib/localized-text";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
+import { useTranslation } from "@/hooks/use-translation";
 
 export function CourseProgressPage() {
+  const { t } = useTranslation();
+  const localizeText = useLocalizedText();
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
 
@@ -21,15 +26,13 @@ export function CourseProgressPage() {
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
-    if (hours > 0) return `${hours}h ${minutes}m`;
-    if (minutes > 0) return `${minutes}m`;
-    return `${seconds}s`;
+    if (hours > 0) return t("common.hoursMinutes", { hours, minutes });
+    if (minutes > 0) return t("common.minutes", { minutes });
+    return t("common.seconds", { seconds });
   };
 
-  const getCourseName = (courseName: any): string => {
-    if (typeof courseName === "string") return courseName;
-    return courseName?.en || courseName?.ar || courseName?.he || "Untitled Course";
-  };
+  const getCourseName = (courseName: LocalizedValue): string =>
+    localizeText(courseName, t("common.untitledCourse"));
 
   if (courseLoading || statsLoading) {
     return (
@@ -56,16 +59,16 @@ export function CourseProgressPage() {
           onClick={() => navigate("/dashboard/courses")}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
-          Back to Courses
+          {t("courses.backToCourses")}
         </Button>
       </div>
 
       <div>
         <h1 className="text-2xl font-bold">
-          {course ? getCourseName(course.name) : "Course Progress"}
+          {course ? getCourseName(course.name) : t("progress.title")}
         </h1>
         <p className="text-gray-500 mt-1">
-          Track student progress and course completion statistics
+          {t("progress.subtitle")}
         </p>
       </div>
 
@@ -75,7 +78,7 @@ export function CourseProgressPage() {
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-500">Total Users</p>
+                <p className="text-sm text-gray-500">{t("progress.totalUsers")}</p>
                 <p className="text-2xl font-bold mt-1">{statistics.totalUsers}</p>
               </div>
               <Users className="h-8 w-8 text-blue-500" />
@@ -85,7 +88,7 @@ export function CourseProgressPage() {
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-500">Completion Rate</p>
+                <p className="text-sm text-gray-500">{t("progress.completionRate")}</p>
                 <p className="text-2xl font-bold mt-1">
                   {statistics.completionRate.toFixed(1)}%
                 </p>
@@ -98,7 +101,7 @@ export function CourseProgressPage() {
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-500">Avg. Completion</p>
+                <p className="text-sm text-gray-500">{t("progress.averageCompletion")}</p>
                 <p className="text-2xl font-bold mt-1">
                   {statistics.averageCompletion.toFixed(1)}%
                 </p>
@@ -111,7 +114,7 @@ export function CourseProgressPage() {
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-500">Avg. Time Spent</p>
+                <p className="text-sm text-gray-500">{t("progress.averageTimeSpent")}</p>
                 <p className="text-2xl font-bold mt-1">
                   {formatTime(statistics.averageTimeSpent)}
                 </p>
@@ -126,28 +129,28 @@ export function CourseProgressPage() {
       {statistics && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Card className="p-4">
-            <h3 className="font-semibold mb-3">User Status</h3>
+            <h3 className="font-semibold mb-3">{t("progress.userStatus")}</h3>
             <div className="space-y-2">
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Completed</span>
-                <Badge variant="default">{statistics.completedUsers} users</Badge>
+                <span className="text-sm text-gray-600">{t("common.completed")}</span>
+                <Badge variant="default">{t("progress.usersCount", { count: statistics.completedUsers })}</Badge>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">In Progress</span>
-                <Badge variant="secondary">{statistics.inProgressUsers} users</Badge>
+                <span className="text-sm text-gray-600">{t("common.inProgress")}</span>
+                <Badge variant="secondary">{t("progress.usersCount", { count: statistics.inProgressUsers })}</Badge>
               </div>
             </div>
           </Card>
 
           <Card className="p-4">
-            <h3 className="font-semibold mb-3">Time Statistics</h3>
+            <h3 className="font-semibold mb-3">{t("progress.timeStatistics")}</h3>
             <div className="space-y-2">
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Total Time Spent</span>
+                <span className="text-sm text-gray-600">{t("progress.totalTimeSpent")}</span>
                 <span className="font-medium">{formatTime(statistics.totalTimeSpent)}</span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Average per User</span>
+                <span className="text-sm text-gray-600">{t("progress.averagePerUser")}</span>
                 <span className="font-medium">{formatTime(statistics.averageTimeSpent)}</span>
               </div>
             </div>
@@ -160,9 +163,9 @@ export function CourseProgressPage() {
         <div className="flex flex-col items-center gap-4">
           <Trophy className="h-12 w-12 text-yellow-500" />
           <div>
-            <h3 className="text-lg font-semibold mb-2">View Individual Rankings</h3>
+            <h3 className="text-lg font-semibold mb-2">{t("progress.rankingsTitle")}</h3>
             <p className="text-gray-500 mb-4">
-              See the leaderboard to view top performers and individual student progress details
+              {t("progress.rankingsDescription")}
             </p>
           </div>
           <Button
@@ -170,7 +173,7 @@ export function CourseProgressPage() {
             size="lg"
           >
             <Trophy className="h-4 w-4 mr-2" />
-            View Leaderboard
+            {t("progress.viewLeaderboard")}
           </Button>
         </div>
       </Card>
@@ -32,21 +32,23 @@ import { useCourses } from "@/hooks/use-courses";
 import { useTopics, useTopicsByCourse } from "@/hooks/use-topics";
 import { useLessons, useLessonsByTopic } from "@/hooks/use-lessons";
 import { useFreeCourses, useFreeCourse } from "@/hooks/use-free-courses";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { toLocalizedText } from "@/lib/localized-text";
+import { QUIZ_ENTITY_SELECT_LABELS } from "@/lib/quizzes";
 import { QuestionBuilder } from "@/components/quiz/question-builder";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import type { Question, QuizType } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 const quizSchema = z
   .object({
-    title_en: z.string().min(2, "Title must be at least 2 characters"),
+    title_en: z.string().min(2),
     title_ar: z.string().optional(),
     title_he: z.string().optional(),
     description_en: z.string().optional(),
     description_ar: z.string().optional(),
     description_he: z.string().optional(),
-    quizType: z.enum(["course", "topic", "lesson", "freeCourse", "section"], {
-      required_error: "Please select a quiz type",
-    }),
+    quizType: z.enum(["course", "topic", "lesson", "freeCourse", "section"]),
     // Parent selection fields for cascading
     selectedCourseId: z.string().optional(),
     selectedTopicId: z.string().optional(),
@@ -70,7 +72,7 @@ const quizSchema = z
       return !!data.entityId;
     },
     {
-      message: "Please select an entity",
+      message: "validation.entityRequired",
       path: ["entityId"],
     }
   );
@@ -78,8 +80,10 @@ const quizSchema = z
 type QuizFormData = z.infer<typeof quizSchema>;
 
 export function CreateUpdateQuiz() {
+  const { t } = useTranslation();
   const { id } = useParams();
   const navigate = useNavigate();
+  const localizeText = useLocalizedText();
   const isEditMode = !!id;
 
   const [questions, setQuestions] = useState<Question[]>([]);
@@ -184,18 +188,16 @@ export function CreateUpdateQuiz() {
       const quiz = quizData.data;
 
       // Set form values
-      if (typeof quiz.title === "object") {
-        form.setValue("title_en", quiz.title.en);
-        form.setValue("title_ar", quiz.title.ar || "");
-        form.setValue("title_he", quiz.title.he || "");
-      } else {
-        form.setValue("title_en", quiz.title);
-      }
-
-      if (quiz.description && typeof quiz.description === "object") {
-        form.setValue("description_en", quiz.description.en);
-        form.setValue("description_ar", quiz.description.ar || "");
-        form.setValue("description_he", quiz.description.he || "");
+      const title = toLocalizedText(quiz.title);
+      form.setValue("title_en", title.en);
+      form.setValue("title_ar", title.ar || "");
+      form.setValue("title_he", title.he || "");
+
+      if (quiz.description) {
+        const description = toLocalizedText(quiz.description);
+        form.setValue("description_en", description.en);
+        form.setValue("description_ar", description.ar || "");
+        form.setValue("description_he", description.he || "");
       }
 
       form.setValue("quizType", quiz.quizType);
@@ -260,7 +262,7 @@ export function CreateUpdateQuiz() {
 
   const onSubmit = async (data: QuizFormData) => {
     if (questions.length === 0) {
-      toast.error("Please add at least one question");
+      toast.error(t("toast.quizQuestionRequired"));
       return;
     }
 
@@ -297,17 +299,17 @@ export function CreateUpdateQuiz() {
     try {
       if (isEditMode) {
         await updateQuizMutation.mutateAsync({ id: id!, data: quizPayload });
-        toast.success("Quiz updated successfully");
+        toast.success(t("toast.quizUpdated"));
       } else {
         await createQuizMutation.mutateAsync({
           ...quizPayload,
           entityId: finalEntityId || "",
         });
-        toast.success("Quiz created successfully");
+        toast.success(t("toast.quizCreated"));
       }
       navigate("/dashboard/quizzes");
     } catch (error: any) {
-      toast.error(error.response?.data?.message || "Failed to save quiz");
+      toast.error(error.response?.data?.message || t("toast.quizSaveFailed"));
     }
   };
 
@@ -315,7 +317,7 @@ export function CreateUpdateQuiz() {
     return (
       coursesData?.data?.items?.map((course: any) => ({
         id: course._id,
-        name: typeof course.name === "string" ? course.name : course.name.en,
+        name: localizeText(course.name),
       })) || []
     );
   };
@@ -324,10 +326,7 @@ export function CreateUpdateQuiz() {
     return (
       freeCoursesData?.data?.items?.map((freeCourse: any) => ({
         id: freeCourse._id,
-        name:
-          typeof freeCourse.name === "string"
-            ? freeCourse.name
-            : freeCourse.name.en,
+        name: localizeText(freeCourse.name),
       })) || []
     );
   };
@@ -337,7 +336,7 @@ export function CreateUpdateQuiz() {
     return (
       topicsToUse?.map((topic: any) => ({
         id: topic._id,
-        name: typeof topic.name === "string" ? topic.name : topic.name.en,
+        name: localizeText(topic.name),
       })) || []
     );
   };
@@ -350,8 +349,7 @@ export function CreateUpdateQuiz() {
         return (
           coursesData?.data?.items?.map((course: any) => ({
             id: course._id,
-            name:
-              typeof course.name === "string" ? course.name : course.name.en,
+            name: localizeText(course.name),
           })) || []
         );
       case "topic":
@@ -362,7 +360,7 @@ export function CreateUpdateQuiz() {
         return (
           topicsToUse?.map((topic: any) => ({
             id: topic._id,
-            name: typeof topic.name === "string" ? topic.name : topic.name.en,
+            name: localizeText(topic.name),
           })) || []
         );
       case "lesson":
@@ -373,18 +371,14 @@ export function CreateUpdateQuiz() {
         return (
           lessonsToUse?.map((lesson: any) => ({
             id: lesson._id,
-            name:
-              typeof lesson.name === "string" ? lesson.name : lesson.name.en,
+            name: localizeText(lesson.name),
           })) || []
         );
       case "freeCourse":
         return (
           freeCoursesData?.data?.items?.map((freeCourse: any) => ({
             id: freeCourse._id,
-            name:
-              typeof freeCourse.name === "string"
-                ? freeCourse.name
-                : freeCourse.name.en,
+            name: localizeText(freeCourse.name),
           })) || []
         );
       case "section":
@@ -392,10 +386,7 @@ export function CreateUpdateQuiz() {
         const sections = selectedFreeCourseData?.data?.sections || [];
         return sections.map((section: any) => ({
           id: section._id,
-          name:
-            typeof section.title === "string"
-              ? section.title
-              : section.title.en,
+          name: localizeText(section.title),
         }));
       default:
         return [];
@@ -416,16 +407,16 @@ export function CreateUpdateQuiz() {
           onClick={() => navigate("/dashboard/quizzes")}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
-          Back
+          {t("common.back")}
         </Button>
         <div>
           <h1 className="text-2xl font-bold">
-            {isEditMode ? "Edit Quiz" : "Create New Quiz"}
+            {isEditMode ? t("quizzes.edit") : t("quizzes.createNew")}
           </h1>
           <p className="text-gray-500 mt-1">
             {isEditMode
-              ? "Update quiz details and questions"
-              : "Add a new quiz to your content"}
+              ? t("quizzes.editDescription")
+              : t("quizzes.createDescription")}
           </p>
         </div>
       </div>
@@ -434,16 +425,21 @@ export function CreateUpdateQuiz() {
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           {/* Basic Information */}
           <Card className="p-6">
-            <h2 className="text-lg font-semibold mb-4">Basic Information</h2>
+            <h2 className="text-lg font-semibold mb-4">
+              {t("courses.basicInformation")}
+            </h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="title_en"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Title (English) *</FormLabel>
+                    <FormLabel>{t("common.titleEn")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter English title" {...field} />
+                      <Input
+                        placeholder={t("quizzes.titlePlaceholderEn")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -454,7 +450,7 @@ export function CreateUpdateQuiz() {
                 name="title_ar"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Title (Arabic)</FormLabel>
+                    <FormLabel>{t("common.titleAr")}</FormLabel>
                     <FormControl>
                       <Input placeholder="أدخل العنوان بالعربية" {...field} />
                     </FormControl>
@@ -467,7 +463,7 @@ export function CreateUpdateQuiz() {
                 name="title_he"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Title (Hebrew)</FormLabel>
+                    <FormLabel>{t("common.titleHe")}</FormLabel>
                     <FormControl>
                       <Input placeholder="הזן כותרת בעברית" {...field} />
                     </FormControl>
@@ -483,10 +479,10 @@ export function CreateUpdateQuiz() {
                 name="description_en"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Description (English)</FormLabel>
+                    <FormLabel>{t("common.descriptionEn")}</FormLabel>
                     <FormControl>
                       <Textarea
-                        placeholder="Enter English description"
+                        placeholder={t("quizzes.descriptionPlaceholderEn")}
                         rows={3}
                         {...field}
                       />
@@ -500,7 +496,7 @@ export function CreateUpdateQuiz() {
                 name="description_ar"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Description (Arabic)</FormLabel>
+                    <FormLabel>{t("common.descriptionAr")}</FormLabel>
                     <FormControl>
                       <Textarea
                         placeholder="أدخل الوصف بالعربية"
@@ -517,7 +513,7 @@ export function CreateUpdateQuiz() {
                 name="description_he"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Description (Hebrew)</FormLabel>
+                    <FormLabel>{t("common.descriptionHe")}</FormLabel>
                     <FormControl>
                       <Textarea
                         placeholder="הזן תיאור בעברית"
@@ -534,14 +530,16 @@ export function CreateUpdateQuiz() {
 
           {/* Quiz Configuration */}
           <Card className="p-6">
-            <h2 className="text-lg font-semibold mb-4">Quiz Configuration</h2>
+            <h2 className="text-lg font-semibold mb-4">
+              {t("quizzes.configuration")}
+            </h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
                 name="quizType"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Quiz Type *</FormLabel>
+                    <FormLabel>{t("quizzes.typeRequired")}</FormLabel>
                     <Select
                       onValueChange={field.onChange}
                       defaultValue={field.value}
@@ -550,15 +548,25 @@ export function CreateUpdateQuiz() {
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select quiz type" />
+                          <SelectValue placeholder={t("quizzes.selectType")} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="course">Course</SelectItem>
-                        <SelectItem value="topic">Topic</SelectItem>
-                        <SelectItem value="lesson">Lesson</SelectItem>
-                        <SelectItem value="freeCourse">Free Course</SelectItem>
-                        <SelectItem value="section">Section</SelectItem>
+                        <SelectItem value="course">
+                          {t("quizzes.typeCourse")}
+                        </SelectItem>
+                        <SelectItem value="topic">
+                          {t("quizzes.typeTopic")}
+                        </SelectItem>
+                        <SelectItem value="lesson">
+                          {t("quizzes.typeLesson")}
+                        </SelectItem>
+                        <SelectItem value="freeCourse">
+                          {t("quizzes.typeFreeCourse")}
+                        </SelectItem>
+                        <SelectItem value="section">
+                          {t("quizzes.typeSection")}
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -573,14 +581,16 @@ export function CreateUpdateQuiz() {
                   name="selectedCourseId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Select Course *</FormLabel>
+                      <FormLabel>{t("quizzes.selectCourse")} *</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select course first" />
+                            <SelectValue
+                              placeholder={t("quizzes.selectCourseFirst")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -604,14 +614,16 @@ export function CreateUpdateQuiz() {
                   name="selectedTopicId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Select Topic *</FormLabel>
+                      <FormLabel>{t("quizzes.selectTopic")} *</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select topic" />
+                            <SelectValue
+                              placeholder={t("quizzes.selectTopic")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -635,14 +647,16 @@ export function CreateUpdateQuiz() {
                   name="selectedFreeCourseId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Select Free Course *</FormLabel>
+                      <FormLabel>{t("quizzes.selectFreeCourse")} *</FormLabel>
                       <Select
                         onValueChange={field.onChange}
                         value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select free course" />
+                            <SelectValue
+                              placeholder={t("quizzes.selectFreeCourse")}
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
@@ -669,39 +683,31 @@ export function CreateUpdateQuiz() {
                   name="entityId"
                   render={({ field }) => {
                     let isDisabled = !quizType;
-                    let placeholder = `Select ${quizType || "entity"}`;
+                    const label = quizType
+                      ? t(QUIZ_ENTITY_SELECT_LABELS[quizType])
+                      : t("quizzes.selectEntity");
+                    let placeholder = label;
 
                     // Disable if parent selections are required but not made
                     if (quizType === "topic" && !selectedCourseId) {
                       isDisabled = true;
-                      placeholder = "Select course first";
+                      placeholder = t("quizzes.selectCourseFirst");
                     } else if (quizType === "lesson" && !selectedTopicId) {
                       isDisabled = true;
                       placeholder = selectedCourseId
-                        ? "Select topic first"
-                        : "Select course and topic first";
+                        ? t("quizzes.selectTopicFirst")
+                        : t("quizzes.selectCourseAndTopicFirst");
                     } else if (
                       quizType === "section" &&
                       !selectedFreeCourseId
                     ) {
                       isDisabled = true;
-                      placeholder = "Select free course first";
+                      placeholder = t("quizzes.selectFreeCourseFirst");
                     }
 
                     return (
                       <FormItem>
-                        <FormLabel>
-                          {quizType === "topic"
-                            ? "Select Topic"
-                            : quizType === "lesson"
-                            ? "Select Lesson"
-                            : quizType === "section"
-                            ? "Select Section"
-                            : quizType === "course"
-                            ? "Select Course"
-                            : "Select Entity"}{" "}
-                          *
-                        </FormLabel>
+                        <FormLabel>{label} *</FormLabel>
                         <Select
                           onValueChange={field.onChange}
                           value={field.value}
@@ -732,7 +738,7 @@ export function CreateUpdateQuiz() {
                 name="passingScore"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Passing Score (%)</FormLabel>
+                    <FormLabel>{t("quizzes.passingScorePercent")}</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -745,7 +751,7 @@ export function CreateUpdateQuiz() {
                       />
                     </FormControl>
                     <FormDescription>
-                      Minimum score required to pass the quiz
+                      {t("quizzes.passingScoreHelp")}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -757,13 +763,13 @@ export function CreateUpdateQuiz() {
                 name="timeLimit"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Time Limit (minutes)</FormLabel>
+                    <FormLabel>{t("quizzes.timeLimit")}</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
                         min="1"
                         max="300"
-                        placeholder="Optional"
+                        placeholder={t("common.optional")}
                         {...field}
                         value={field.value || ""}
                         onChange={(e) => {
@@ -773,7 +779,7 @@ export function CreateUpdateQuiz() {
                       />
                     </FormControl>
                     <FormDescription>
-                      Leave empty for no time limit
+                      {t("quizzes.timeLimitHelp")}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -785,13 +791,13 @@ export function CreateUpdateQuiz() {
                 name="maxAttempts"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Max Attempts</FormLabel>
+                    <FormLabel>{t("quizzes.maxAttempts")}</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
                         min="1"
                         max="10"
-                        placeholder="Optional"
+                        placeholder={t("common.optional")}
                         {...field}
                         value={field.value || ""}
                         onChange={(e) => {
@@ -801,7 +807,7 @@ export function CreateUpdateQuiz() {
                       />
                     </FormControl>
                     <FormDescription>
-                      Leave empty for unlimited attempts
+                      {t("quizzes.maxAttemptsHelp")}
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
@@ -818,9 +824,9 @@ export function CreateUpdateQuiz() {
                 render={({ field }) => (
                   <FormItem className="flex items-center justify-between">
                     <div>
-                      <FormLabel>Show Correct Answers</FormLabel>
+                      <FormLabel>{t("quizzes.showCorrectAnswers")}</FormLabel>
                       <FormDescription>
-                        Show answers after quiz completion
+                        {t("quizzes.showCorrectAnswersHelp")}
                       </FormDescription>
                     </div>
                     <FormControl>
@@ -839,9 +845,9 @@ export function CreateUpdateQuiz() {
                 render={({ field }) => (
                   <FormItem className="flex items-center justify-between">
                     <div>
-                      <FormLabel>Shuffle Questions</FormLabel>
+                      <FormLabel>{t("quizzes.shuffleQuestions")}</FormLabel>
                       <FormDescription>
-                        Randomize question order
+                        {t("quizzes.shuffleQuestionsHelp")}
                       </FormDescription>
                     </div>
                     <FormControl>
@@ -860,8 +866,10 @@ export function CreateUpdateQuiz() {
                 render={({ field }) => (
                   <FormItem className="flex items-center justify-between">
                     <div>
-                      <FormLabel>Shuffle Options</FormLabel>
-                      <FormDescription>Randomize option order</FormDescription>
+                      <FormLabel>{t("quizzes.shuffleOptions")}</FormLabel>
+                      <FormDescription>
+                        {t("quizzes.shuffleOptionsHelp")}
+                      </FormDescription>
                     </div>
                     <FormControl>
                       <Switch
@@ -878,9 +886,13 @@ export function CreateUpdateQuiz() {
           {/* Questions */}
           <Card className="p-6">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-lg font-semibold">Questions</h2>
+              <h2 className="text-lg font-semibold">
+                {t("quizzes.questions")}
+              </h2>
               <span className="text-sm text-gray-500">
-                {questions.length} question{questions.length !== 1 ? "s" : ""}
+                {questions.length === 1
+                  ? t("quizzes.oneQuestion")
+                  : t("quizzes.questionCount", { count: questions.length })}
               </span>
             </div>
             <QuestionBuilder questions={questions} onChange={setQuestions} />
@@ -893,7 +905,7 @@ export function CreateUpdateQuiz() {
               variant="outline"
               onClick={() => navigate("/dashboard/quizzes")}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button
               type="submit"
@@ -901,7 +913,7 @@ export function CreateUpdateQuiz() {
                 createQuizMutation.isPending || updateQuizMutation.isPending
               }
             >
-              {isEditMode ? "Update Quiz" : "Create Quiz"}
+              {isEditMode ? t("quizzes.update") : t("quizzes.create")}
             </Button>
           </div>
         </form>
@@ -1,8 +1,11 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Plus, Pencil, Trash2, Search, Copy } from "lucide-react";
+import { Plus, Pencil, Trash2, Search, Copy, Trophy } from "lucide-react";
 import { useQuizzes, useDeleteQuiz } from "@/hooks/use-quizzes";
+import { useLocalizedText } from "@/hooks/use-localized-text";
 import { DuplicateQuizDialog } from "@/components/quiz/duplicate-quiz-dialog";
+import { QuizLeaderboardDialog } from "@/components/quiz/quiz-leaderboard-dialog";
+import { Can } from "@/components/shared/can";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -33,10 +36,14 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { QUIZ_TYPE_LABELS } from "@/lib/quizzes";
 import { toast } from "sonner";
 import type { Quiz, QuizType } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 export function QuizzesPage() {
+  const { t } = useTranslation();
+  const localizeText = useLocalizedText();
   const navigate = useNavigate();
   const [page, setPage] = useState(1);
   const [search, setSearch] = useState("");
@@ -44,6 +51,7 @@ export function QuizzesPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [deleteQuizId, setDeleteQuizId] = useState<string | null>(null);
   const [duplicateQuiz, setDuplicateQuiz] = useState<Quiz | null>(null);
+  const [leaderboardQuiz, setLeaderboardQuiz] = useState<Quiz | null>(null);
 
   const { data, isLoading } = useQuizzes({
     page,
@@ -61,10 +69,10 @@ export function QuizzesPage() {
 
     try {
       await deleteQuizMutation.mutateAsync(deleteQuizId);
-      toast.success("Quiz deleted successfully");
+      toast.success(t("toast.quizDeleted"));
       setDeleteQuizId(null);
     } catch (error) {
-      toast.error("Failed to delete quiz");
+      toast.error(t("toast.quizDeleteFailed"));
     }
   };
 
@@ -79,10 +87,8 @@ export function QuizzesPage() {
     return colors[quizType] || "bg-gray-100 text-gray-800";
   };
 
-  const getTitle = (quiz: Quiz): string => {
-    if (typeof quiz.title === "string") return quiz.title;
-    return quiz.title.en || quiz.title.ar || quiz.title.he || "Untitled Quiz";
-  };
+  const getTitle = (quiz: Quiz): string =>
+    localizeText(quiz.title, t("quizzes.untitled"));
 
   if (isLoading) {
     return (
@@ -106,15 +112,17 @@ export function QuizzesPage() {
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-2xl font-bold">Quizzes</h1>
+          <h1 className="text-2xl font-bold">{t("quizzes.title")}</h1>
           <p className="text-gray-500 mt-1">
-            Manage quizzes for courses, topics, and lessons
+            {t("quizzes.subtitle")}
           </p>
         </div>
-        <Button onClick={() => navigate("/dashboard/quizzes/new")}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Quiz
-        </Button>
+        <Can action="create" resource="quizzes" mode="disable">
+          <Button onClick={() => navigate("/dashboard/quizzes/new")}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("quizzes.create")}
+          </Button>
+        </Can>
       </div>
 
       {/* Filters */}
@@ -123,7 +131,7 @@ export function QuizzesPage() {
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
             <Input
-              placeholder="Search quizzes..."
+              placeholder={t("quizzes.searchPlaceholder")}
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="pl-10"
@@ -132,26 +140,30 @@ export function QuizzesPage() {
 
           <Select value={quizTypeFilter} onValueChange={setQuizTypeFilter}>
             <SelectTrigger>
-              <SelectValue placeholder="Quiz Type" />
+              <SelectValue placeholder={t("quizzes.type")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="course">Course</SelectItem>
-              <SelectItem value="topic">Topic</SelectItem>
-              <SelectItem value="lesson">Lesson</SelectItem>
-              <SelectItem value="freeCourse">Free Course</SelectItem>
-              <SelectItem value="section">Section</SelectItem>
+              <SelectItem value="all">{t("videoLibrary.allTypes")}</SelectItem>
+              <SelectItem value="course">{t("quizzes.typeCourse")}</SelectItem>
+              <SelectItem value="topic">{t("quizzes.typeTopic")}</SelectItem>
+              <SelectItem value="lesson">{t("quizzes.typeLesson")}</SelectItem>
+              <SelectItem value="freeCourse">
+                {t("quizzes.typeFreeCourse")}
+              </SelectItem>
+              <SelectItem value="section">
+                {t("quizzes.typeSection")}
+              </SelectItem>
             </SelectContent>
           </Select>
 
           <Select value={statusFilter} onValueChange={setStatusFilter}>
             <SelectTrigger>
-              <SelectValue placeholder="Status" />
+              <SelectValue placeholder={t("common.status")} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="active">Active</SelectItem>
-              <SelectItem value="inactive">Inactive</SelectItem>
+              <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+              <SelectItem value="active">{t("common.active")}</SelectItem>
+              <SelectItem value="inactive">{t("common.inactive")}</SelectItem>
             </SelectContent>
           </Select>
 
@@ -164,7 +176,7 @@ export function QuizzesPage() {
               setPage(1);
             }}
           >
-            Clear Filters
+            {t("common.clearFilters")}
           </Button>
         </div>
       </Card>
@@ -174,13 +186,15 @@ export function QuizzesPage() {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Title</TableHead>
-              <TableHead>Type</TableHead>
-              <TableHead>Questions</TableHead>
-              <TableHead>Points</TableHead>
-              <TableHead>Passing Score</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead className="text-right">Actions</TableHead>
+              <TableHead>{t("common.title")}</TableHead>
+              <TableHead>{t("common.type")}</TableHead>
+              <TableHead>{t("quizzes.questions")}</TableHead>
+              <TableHead>{t("quizzes.points")}</TableHead>
+              <TableHead>{t("quizzes.passingScore")}</TableHead>
+              <TableHead>{t("common.status")}</TableHead>
+              <TableHead className="text-right">
+                {t("common.actions")}
+              </TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -190,7 +204,7 @@ export function QuizzesPage() {
                   colSpan={7}
                   className="text-center py-8 text-gray-500"
                 >
-                  No quizzes found
+                  {t("quizzes.notFound")}
                 </TableCell>
               </TableRow>
             ) : (
@@ -201,7 +215,7 @@ export function QuizzesPage() {
                   </TableCell>
                   <TableCell>
                     <Badge className={getQuizTypeBadge(quiz.quizType)}>
-                      {quiz.quizType}
+                      {t(QUIZ_TYPE_LABELS[quiz.quizType])}
                     </Badge>
                   </TableCell>
                   <TableCell>{quiz.questions.length}</TableCell>
@@ -209,7 +223,9 @@ export function QuizzesPage() {
                   <TableCell>{quiz.passingScore}%</TableCell>
                   <TableCell>
                     <Badge variant={quiz.isActive ? "default" : "secondary"}>
-                      {quiz.isActive ? "Active" : "Inactive"}
+                      {quiz.isActive
+                        ? t("common.active")
+                        : t("common.inactive")}
                     </Badge>
                   </TableCell>
                   <TableCell className="text-right">
@@ -217,29 +233,43 @@ export function QuizzesPage() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() =>
-                          navigate(`/dashboard/quizzes/${quiz._id}/edit`)
-                        }
-                        title="Edit Quiz"
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setDuplicateQuiz(quiz)}
-                        title="Duplicate Quiz"
+                        onClick={() => setLeaderboardQuiz(quiz)}
+                        title={t("quizzes.leaderboard")}
                       >
-                        <Copy className="h-4 w-4 text-blue-500" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => setDeleteQuizId(quiz._id)}
-                        title="Delete Quiz"
-                      >
-                        <Trash2 className="h-4 w-4 text-red-500" />
+                        <Trophy className="h-4 w-4 text-yellow-500" />
                       </Button>
+                      <Can action="update" resource="quizzes">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            navigate(`/dashboard/quizzes/${quiz._id}/edit`)
+                          }
+                          title={t("quizzes.edit")}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </Can>
+                      <Can action="create" resource="quizzes">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDuplicateQuiz(quiz)}
+                          title={t("quizzes.duplicate")}
+                        >
+                          <Copy className="h-4 w-4 text-blue-500" />
+                        </Button>
+                      </Can>
+                      <Can action="delete" resource="quizzes">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeleteQuizId(quiz._id)}
+                          title={t("quizzes.delete")}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </Can>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -252,13 +282,15 @@ export function QuizzesPage() {
         {pagination && pagination.totalPages > 1 && (
           <div className="flex items-center justify-between border-t p-4">
             <div className="text-sm text-gray-500">
-              Showing{" "}
-              {(pagination.currentPage - 1) * pagination.itemsPerPage + 1} to{" "}
-              {Math.min(
-                pagination.currentPage * pagination.itemsPerPage,
-                pagination.totalItems
-              )}{" "}
-              of {pagination.totalItems} quizzes
+              {t("common.showing", {
+                from:
+                  (pagination.currentPage - 1) * pagination.itemsPerPage + 1,
+                to: Math.min(
+                  pagination.currentPage * pagination.itemsPerPage,
+                  pagination.totalItems
+                ),
+                total: pagination.totalItems,
+              })}
             </div>
             <div className="flex gap-2">
               <Button
@@ -267,7 +299,7 @@ export function QuizzesPage() {
                 onClick={() => setPage(page - 1)}
                 disabled={!pagination.hasPrev}
               >
-                Previous
+                {t("common.previous")}
               </Button>
               <Button
                 variant="outline"
@@ -275,7 +307,7 @@ export function QuizzesPage() {
                 onClick={() => setPage(page + 1)}
                 disabled={!pagination.hasNext}
               >
-                Next
+                {t("common.next")}
               </Button>
             </div>
           </div>
@@ -289,6 +321,12 @@ export function QuizzesPage() {
         quiz={duplicateQuiz}
       />
 
+      {/* Quiz Leaderboard Dialog */}
+      <QuizLeaderboardDialog
+        quiz={leaderboardQuiz}
+        onClose={() => setLeaderboardQuiz(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog
         open={!!deleteQuizId}
@@ -296,19 +334,18 @@ export function QuizzesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Quiz</AlertDialogTitle>
+            <AlertDialogTitle>{t("quizzes.delete")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this quiz? This action cannot be
-              undone. All progress and statistics will be lost.
+              {t("quizzes.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={handleDelete}
               className="bg-red-500 hover:bg-red-600"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,504 @@
+import { Fragment, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Copy, Minus, Plus, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAllRoles, useCreateRole, useUpdateRole } from "@/hooks/use-roles";
+import { useAllPermissions } from "@/hooks/use-permissions";
+import { useHasPermission } from "@/hooks/use-authorization";
+import {
+  getActionLabel,
+  getResourceLabel,
+  sortPermissionGroups,
+} from "@/lib/permissions";
+import type { Permission, Role } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
+
+interface RoleChange {
+  role: Role;
+  added: Permission[];
+  removed: Permission[];
+}
+
+const getSavedPermissionIds = (role: Role) =>
+  role.permissions.map((permission) => permission._id);
+
+export function RolePermissionMatrixPage() {
+  const { t } = useTranslation();
+  const { data: rolesData, isLoading: isRolesLoading } = useAllRoles();
+  const { data: permissionsData, isLoading: isPermissionsLoading } =
+    useAllPermissions();
+  const updateRoleMutation = useUpdateRole();
+  const createRoleMutation = useCreateRole();
+
+  const canUpdate = useHasPermission("update", "roles");
+  const canCreate = useHasPermission("create", "roles");
+
+  // Unsaved permission ids per role; roles without an entry are unchanged
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cloneSource, setCloneSource] = useState<Role | null>(null);
+  const [cloneName, setCloneName] = useState("");
+
+  const roles = useMemo(() => rolesData?.data || [], [rolesData]);
+  const groups = useMemo(
+    () => sortPermissionGroups(permissionsData?.data || []),
+    [permissionsData]
+  );
+  const allPermissions = useMemo(
+    () => groups.flatMap((group) => group.permissions),
+    [groups]
+  );
+
+  const getRolePermissionIds = (role: Role) =>
+    drafts[role._id] ?? getSavedPermissionIds(role);
+
+  const setRolePermissionIds = (role: Role, permissionIds: string[]) => {
+    setDrafts((prev) => ({ ...prev, [role._id]: permissionIds }));
+  };
+
+  const isGranted = (role: Role, permissionId: string) =>
+    getRolePermissionIds(role).includes(permissionId);
+
+  const togglePermission = (
+    role: Role,
+    permissionId: string,
+    checked: boolean
+  ) => {
+    const current = getRolePermissionIds(role);
+    setRolePermissionIds(
+      role,
+      checked
+        ? [...new Set([...current, permissionId])]
+        : current.filter((id) => id !== permissionId)
+    );
+  };
+
+  // Row toggle: grant or revoke one permission across every role
+  const toggleRow = (permissionId: string, checked: boolean) => {
+    roles.forEach((role) => togglePermission(role, permissionId, checked));
+  };
+
+  // Column toggle: grant or revoke every permission for one role
+  const toggleColumn = (role: Role, checked: boolean) => {
+    setRolePermissionIds(
+      role,
+      checked ? allPermissions.map((permission) => permission._id) : []
+    );
+  };
+
+  const changes = useMemo<RoleChange[]>(() => {
+    const byId = new Map(allPermissions.map((p) => [p._id, p]));
+    return roles
+      .filter((role) => drafts[role._id])
+      .map((role) => {
+        const saved = new Set(getSavedPermissionIds(role));
+        const draft = new Set(drafts[role._id]);
+        return {
+          role,
+          added: [...draft]
+            .filter((id) => !saved.has(id))
+            .map((id) => byId.get(id))
+            .filter((p): p is Permission => !!p),
+          removed: role.permissions.filter((p) => !draft.has(p._id)),
+        };
+      })
+      .filter((change) => change.added.length > 0 || change.removed.length > 0);
+  }, [roles, drafts, allPermissions]);
+
+  const changedCellCount = changes.reduce(
+    (total, change) => total + change.added.length + change.removed.length,
+    0
+  );
+
+  const isCellChanged = (role: Role, permissionId: string) =>
+    !!drafts[role._id] &&
+    getSavedPermissionIds(role).includes(permissionId) !==
+      drafts[role._id].includes(permissionId);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const results = await Promise.allSettled(
+      changes.map((change) =>
+        updateRoleMutation.mutateAsync({
+          id: change.role._id,
+          data: { permissions: drafts[change.role._id] },
+        })
+      )
+    );
+    setIsSaving(false);
+
+    const failed = changes.filter(
+      (_, index) => results[index].status === "rejected"
+    );
+    // Keep drafts only for the roles that failed so they can be retried
+    setDrafts(
+      Object.fromEntries(
+        failed.map((change) => [change.role._id, drafts[change.role._id]])
+      )
+    );
+
+    if (failed.length === 0) {
+      toast.success(
+        t("toast.rolePermissionsUpdated", { count: changes.length })
+      );
+      setIsReviewOpen(false);
+    } else {
+      toast.error(
+        t("toast.rolePermissionsFailed", {
+            names: failed.map((change) => change.role.name).join(", "),
+          })
+      );
+    }
+  };
+
+  const openClone = (role: Role) => {
+    setCloneSource(role);
+    setCloneName(t("roles.cloneName", { name: role.name }));
+  };
+
+  const handleClone = async () => {
+    if (!cloneSource) return;
+    const name = cloneName.trim();
+    if (name.length < 2 || name.length > 50) {
+      toast.error(t("toast.roleNameLength"));
+      return;
+    }
+
+    try {
+      await createRoleMutation.mutateAsync({
+        name,
+        permissions: getRolePermissionIds(cloneSource),
+      });
+      toast.success(t("toast.roleCloned", { name, source: cloneSource.name }));
+      setCloneSource(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("toast.roleCloneFailed")
+      );
+    }
+  };
+
+  const isLoading = isRolesLoading || isPermissionsLoading;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/dashboard/roles">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t("roles.backToRoles")}
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">
+              {t("roles.permissionMatrix")}
+            </h1>
+            <p className="text-gray-600">
+              {t("roles.matrixSubtitle")}
+            </p>
+          </div>
+        </div>
+        {canUpdate && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDrafts({})}
+              disabled={changedCellCount === 0 || isSaving}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {t("roles.discard")}
+            </Button>
+            <Button
+              onClick={() => setIsReviewOpen(true)}
+              disabled={changedCellCount === 0 || isSaving}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {t("roles.reviewChanges")}
+              {changedCellCount > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {changedCellCount}
+                </Badge>
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("roles.matrixTitle")}</CardTitle>
+          <CardDescription>{t("roles.matrixDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-96" />
+          ) : roles.length === 0 || groups.length === 0 ? (
+            <p className="py-16 text-center text-sm text-muted-foreground">
+              {t("roles.matrixEmpty")}
+            </p>
+          ) : (
+            <div className="rounded-md border overflow-auto max-h-[70vh]">
+              <Table>
+                <TableHeader className="sticky top-0 z-10 bg-background">
+                  <TableRow>
+                    <TableHead className="min-w-[220px]">
+                      {t("roles.permission")}
+                    </TableHead>
+                    {roles.map((role) => {
+                      const granted = getRolePermissionIds(role).length;
+                      const isAll =
+                        granted > 0 && granted === allPermissions.length;
+                      return (
+                        <TableHead
+                          key={role._id}
+                          className="min-w-[120px] text-center"
+                        >
+                          <div className="flex flex-col items-center gap-1 py-2">
+                            <span className="font-medium text-foreground">
+                              {role.name}
+                            </span>
+                            <div className="flex items-center gap-1">
+                              <Checkbox
+                                checked={
+                                  isAll
+                                    ? true
+                                    : granted > 0
+                                      ? "indeterminate"
+                                      : false
+                                }
+                                disabled={!canUpdate}
+                                onCheckedChange={(checked) =>
+                                  toggleColumn(role, checked === true)
+                                }
+                                aria-label={t("roles.toggleRole", {
+                                  role: role.name,
+                                })}
+                              />
+                              {canCreate && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0"
+                                  title={t("roles.clone")}
+                                  onClick={() => openClone(role)}
+                                >
+                                  <Copy className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                            {!role.isActive && (
+                              <Badge variant="secondary" className="text-xs">
+                                {t("common.inactive")}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableHead>
+                      );
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group) => (
+                    <Fragment key={group.resource}>
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell
+                          colSpan={roles.length + 1}
+                          className="font-semibold capitalize"
+                        >
+                          {getResourceLabel(group.resource)}
+                        </TableCell>
+                      </TableRow>
+                      {group.permissions.map((permission) => {
+                        const grantedCount = roles.filter((role) =>
+                          isGranted(role, permission._id)
+                        ).length;
+                        return (
+                          <TableRow key={permission._id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Checkbox
+                                  checked={
+                                    grantedCount === roles.length
+                                      ? true
+                                      : grantedCount > 0
+                                        ? "indeterminate"
+                                        : false
+                                  }
+                                  disabled={!canUpdate}
+                                  onCheckedChange={(checked) =>
+                                    toggleRow(permission._id, checked === true)
+                                  }
+                                  aria-label={t("roles.toggleRow", {
+                                    permission: permission.name,
+                                  })}
+                                />
+                                <span className="text-sm">
+                                  {getActionLabel(permission.action)}
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                  {permission.name}
+                                </span>
+                              </div>
+                            </TableCell>
+                            {roles.map((role) => (
+                              <TableCell
+                                key={role._id}
+                                className={`text-center ${
+                                  isCellChanged(role, permission._id)
+                                    ? "bg-yellow-100 dark:bg-yellow-900/30"
+                                    : ""
+                                }`}
+                              >
+                                <Checkbox
+                                  checked={isGranted(role, permission._id)}
+                                  disabled={!canUpdate}
+                                  onCheckedChange={(checked) =>
+                                    togglePermission(
+                                      role,
+                                      permission._id,
+                                      checked === true
+                                    )
+                                  }
+                                  aria-label={t("roles.toggleCell", {
+                                    permission: permission.name,
+                                    role: role.name,
+                                  })}
+                                />
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        );
+                      })}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review changes before saving */}
+      <Dialog open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{t("roles.reviewTitle")}</DialogTitle>
+            <DialogDescription>
+              {changes.length === 1
+                ? t("roles.reviewOne")
+                : t("roles.reviewMany", { count: changes.length })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] space-y-4 overflow-y-auto">
+            {changes.map((change) => (
+              <div key={change.role._id} className="rounded-lg border p-3">
+                <p className="mb-2 font-medium">{change.role.name}</p>
+                <div className="flex flex-wrap gap-1">
+                  {change.added.map((permission) => (
+                    <Badge
+                      key={permission._id}
+                      className="bg-green-100 text-green-800 hover:bg-green-100"
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      {permission.name}
+                    </Badge>
+                  ))}
+                  {change.removed.map((permission) => (
+                    <Badge
+                      key={permission._id}
+                      className="bg-red-100 text-red-800 hover:bg-red-100"
+                    >
+                      <Minus className="h-3 w-3 mr-1" />
+                      {permission.name}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsReviewOpen(false)}
+              disabled={isSaving}
+            >
+              {t("roles.keepEditing")}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? t("common.saving") : t("roles.saveChanges")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Clone role */}
+      <Dialog
+        open={!!cloneSource}
+        onOpenChange={(open) => !open && setCloneSource(null)}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{t("roles.clone")}</DialogTitle>
+            <DialogDescription>
+              {t("roles.cloneDescription", { name: cloneSource?.name ?? "" })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="clone-role-name">{t("roles.roleName")}</Label>
+            <Input
+              id="clone-role-name"
+              value={cloneName}
+              onChange={(e) => setCloneName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleClone()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloneSource(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={handleClone}
+              disabled={createRoleMutation.isPending}
+            >
+              {createRoleMutation.isPending
+                ? t("roles.cloning")
+                : t("roles.cloneRole")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
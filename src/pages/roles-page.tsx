@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { Link } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -62,9 +63,11 @@ import {
   RefreshCw,
   ChevronDown,
   ChevronRight,
+  Grid3x3,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { Can } from "@/components/shared/can";
 import {
   useRoles,
   useCreateRole,
@@ -76,22 +79,33 @@ import type {
   Role,
   PermissionGroup,
 } from "@/types/api";
-import { useAllPermissions } from "@/hooks/use-permissions";
+import {
+  useAllPermissions,
+  useCreateResourcePermissions,
+} from "@/hooks/use-permissions";
+import {
+  DEFAULT_RESOURCE_ACTIONS,
+  PERMISSION_RESOURCES,
+  getActionLabel,
+  getResourceLabel,
+  sortPermissionGroups,
+} from "@/lib/permissions";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form schemas
 const createRoleSchema = z.object({
   name: z
     .string()
-    .min(2, "Role name must be at least 2 characters")
-    .max(50, "Role name cannot exceed 50 characters"),
+    .min(2)
+    .max(50),
   permissions: z.array(z.string()).optional(),
 });
 
 const updateRoleSchema = z.object({
   name: z
     .string()
-    .min(2, "Role name must be at least 2 characters")
-    .max(50, "Role name cannot exceed 50 characters"),
+    .min(2)
+    .max(50),
   permissions: z.array(z.string()).optional(),
 });
 
@@ -114,7 +128,34 @@ function GroupedPermissions({
   onSelectAllInGroup,
   onSelectAll,
 }: GroupedPermissionsProps) {
+  const { t } = useTranslation();
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const createResourcePermissions = useCreateResourcePermissions();
+  const canCreatePermissions = useHasPermission("create", "permissions");
+
+  const sortedGroups = sortPermissionGroups(permissionGroups);
+  const missingResources = PERMISSION_RESOURCES.filter(
+    (resource) =>
+      !permissionGroups.some((group) => group.resource === resource)
+  );
+
+  const handleCreateResourcePermissions = async (
+    resource: (typeof PERMISSION_RESOURCES)[number]
+  ) => {
+    try {
+      await createResourcePermissions.mutateAsync({
+        resource,
+        actions: DEFAULT_RESOURCE_ACTIONS,
+      });
+      toast.success(
+        t("toast.permissionsCreated", { resource: getResourceLabel(resource) })
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("toast.permissionsCreateFailed")
+      );
+    }
+  };
 
   const toggleGroup = (resource: string, event: React.MouseEvent) => {
     event.preventDefault();
@@ -156,13 +197,16 @@ function GroupedPermissions({
           className="text-sm font-medium cursor-pointer"
           onClick={(e) => e.stopPropagation()}
         >
-          Select All Permissions ({getSelectedCount()}/{getTotalPermissions()})
+          {t("roles.selectAll", {
+            selected: getSelectedCount(),
+            total: getTotalPermissions(),
+          })}
         </label>
       </div>
 
       {/* Permission Groups */}
       <div className="space-y-2 max-h-60 overflow-y-auto">
-        {permissionGroups.map((group) => {
+        {sortedGroups.map((group) => {
           const groupSelectedCount = group.permissions.filter((p) =>
             selectedPermissions.includes(p._id)
           ).length;
@@ -205,7 +249,7 @@ function GroupedPermissions({
                     className="text-sm font-medium cursor-pointer capitalize"
                     onClick={(e) => e.stopPropagation()}
                   >
-                    {group.resource} ({groupSelectedCount}/
+                    {getResourceLabel(group.resource)} ({groupSelectedCount}/
                     {group.permissions.length})
                   </label>
                 </div>
@@ -238,7 +282,7 @@ function GroupedPermissions({
                         {permission.name.replace(/_/g, " ")}
                       </label>
                       <Badge variant="outline" className="text-xs">
-                        {permission.action}
+                        {getActionLabel(permission.action)}
                       </Badge>
                     </div>
                   ))}
@@ -247,13 +291,42 @@ function GroupedPermissions({
             </div>
           );
         })}
+
+        {/* Resources the backend has no permissions for yet */}
+        {missingResources.map((resource) => (
+          <div
+            key={resource}
+            className="flex items-center justify-between border border-dashed rounded-lg p-3"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="text-sm">
+              <span className="font-medium">{getResourceLabel(resource)}</span>
+              <span className="text-muted-foreground">
+                {" "}
+                {t("roles.noPermissionsYet")}
+              </span>
+            </div>
+            {canCreatePermissions && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={createResourcePermissions.isPending}
+                onClick={() => handleCreateResourcePermissions(resource)}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {t("roles.createPermissions")}
+              </Button>
+            )}
+          </div>
+        ))}
       </div>
     </div>
   );
 }
 
 export function RolesPage() {
-  const { hasPermission } = useAuthStore();
+  const { t, language } = useTranslation();
   const [searchTerm, setSearchTerm] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
@@ -306,12 +379,12 @@ export function RolesPage() {
         name: data.name,
         permissions: data.permissions || [],
       });
-      toast.success("Role created successfully!");
+      toast.success(t("toast.roleCreated"));
       setIsCreateDialogOpen(false);
       createForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to create role"
+        error instanceof Error ? error.message : t("toast.roleCreateFailed")
       );
     }
   };
@@ -321,13 +394,13 @@ export function RolesPage() {
 
     try {
       await updateRoleMutation.mutateAsync({ id: editingRole._id, data });
-      toast.success("Role updated successfully!");
+      toast.success(t("toast.roleUpdated"));
       setIsEditDialogOpen(false);
       setEditingRole(null);
       updateForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update role"
+        error instanceof Error ? error.message : t("toast.roleUpdateFailed")
       );
     }
   };
@@ -335,10 +408,10 @@ export function RolesPage() {
   const handleDeleteRole = async (roleId: string) => {
     try {
       await hardDeleteRoleMutation.mutateAsync(roleId);
-      toast.success("Role deleted permanently!");
+      toast.success(t("toast.roleDeleted"));
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete role"
+        error instanceof Error ? error.message : t("toast.roleDeleteFailed")
       );
     }
   };
@@ -353,11 +426,13 @@ export function RolesPage() {
         data: { isActive: !currentStatus },
       });
       toast.success(
-        `Role ${!currentStatus ? "activated" : "deactivated"} successfully!`
+        !currentStatus
+          ? t("toast.roleActivated")
+          : t("toast.roleDeactivated")
       );
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update role status"
+        error instanceof Error ? error.message : t("toast.roleStatusFailed")
       );
     }
   };
@@ -483,34 +558,41 @@ export function RolesPage() {
     setCurrentPage(1);
   };
 
-  const canCreate = hasPermission("create_roles");
-  const canUpdate = hasPermission("update_roles");
-  const canDelete = hasPermission("delete_roles");
+  const canUpdate = useHasPermission("update", "roles");
+  const canDelete = useHasPermission("delete", "roles");
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">Role Management</h1>
-          <p className="text-gray-600">Manage roles and their permissions.</p>
+          <h1 className="text-3xl font-bold">{t("roles.title")}</h1>
+          <p className="text-gray-600">{t("roles.subtitle")}</p>
         </div>
-        {canCreate && (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/dashboard/roles/matrix">
+              <Grid3x3 className="mr-2 h-4 w-4" />
+              {t("roles.permissionMatrix")}
+            </Link>
+          </Button>
           <Dialog
             open={isCreateDialogOpen}
             onOpenChange={setIsCreateDialogOpen}
           >
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Create Role
-              </Button>
-            </DialogTrigger>
+            <Can action="create" resource="roles" mode="disable">
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t("roles.create")}
+                </Button>
+              </DialogTrigger>
+            </Can>
             <DialogContent className="sm:max-w-[500px]">
               <DialogHeader>
-                <DialogTitle>Create New Role</DialogTitle>
+                <DialogTitle>{t("roles.createTitle")}</DialogTitle>
                 <DialogDescription>
-                  Create a new role and assign permissions to it.
+                  {t("roles.createDescription")}
                 </DialogDescription>
               </DialogHeader>
               <Form {...createForm}>
@@ -523,9 +605,12 @@ export function RolesPage() {
                     name="name"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Role Name</FormLabel>
+                        <FormLabel>{t("roles.roleName")}</FormLabel>
                         <FormControl>
-                          <Input placeholder="Enter role name" {...field} />
+                          <Input
+                            placeholder={t("roles.roleNamePlaceholder")}
+                            {...field}
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -536,7 +621,7 @@ export function RolesPage() {
                     name="permissions"
                     render={() => (
                       <FormItem>
-                        <FormLabel>Permissions</FormLabel>
+                        <FormLabel>{t("roles.permissions")}</FormLabel>
                         {permissionsData?.data ? (
                           <GroupedPermissions
                             permissionGroups={permissionsData.data}
@@ -551,7 +636,7 @@ export function RolesPage() {
                           />
                         ) : (
                           <div className="text-sm text-muted-foreground">
-                            Loading permissions...
+                            {t("roles.loadingPermissions")}
                           </div>
                         )}
                         <FormMessage />
@@ -564,29 +649,31 @@ export function RolesPage() {
                       variant="outline"
                       onClick={() => setIsCreateDialogOpen(false)}
                     >
-                      Cancel
+                      {t("common.cancel")}
                     </Button>
                     <Button
                       type="submit"
                       disabled={createRoleMutation.isPending}
                     >
                       {createRoleMutation.isPending
-                        ? "Creating..."
-                        : "Create Role"}
+                        ? t("common.creating")
+                        : t("roles.create")}
                     </Button>
                   </DialogFooter>
                 </form>
               </Form>
             </DialogContent>
           </Dialog>
-        )}
+        </div>
       </div>
 
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Roles</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("roles.totalRoles")}
+            </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -597,7 +684,9 @@ export function RolesPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Roles</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("roles.activeRoles")}
+            </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -609,7 +698,7 @@ export function RolesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Inactive Roles
+              {t("roles.inactiveRoles")}
             </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -624,9 +713,9 @@ export function RolesPage() {
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Roles</CardTitle>
+          <CardTitle>{t("roles.roles")}</CardTitle>
           <CardDescription>
-            Manage roles and their associated permissions.
+            {t("roles.rolesDescription")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -635,7 +724,7 @@ export function RolesPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search roles..."
+                  placeholder={t("roles.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -645,12 +734,12 @@ export function RolesPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -663,25 +752,27 @@ export function RolesPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Permissions</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Active</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead className="w-[120px]">Actions</TableHead>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead>{t("roles.permissions")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("common.active")}</TableHead>
+                  <TableHead>{t("common.created")}</TableHead>
+                  <TableHead className="w-[120px]">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
                     <TableCell colSpan={6} className="text-center py-8">
-                      Loading roles...
+                      {t("roles.loading")}
                     </TableCell>
                   </TableRow>
                 ) : rolesData?.data?.items?.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={6} className="text-center py-8">
-                      No roles found.
+                      {t("roles.notFound")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -710,7 +801,9 @@ export function RolesPage() {
                         <Badge
                           variant={role.isActive ? "default" : "secondary"}
                         >
-                          {role.isActive ? "Active" : "Inactive"}
+                          {role.isActive
+                            ? t("common.active")
+                            : t("common.inactive")}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -723,7 +816,7 @@ export function RolesPage() {
                         />
                       </TableCell>
                       <TableCell>
-                        {new Date(role.createdAt).toLocaleDateString()}
+                        {new Date(role.createdAt).toLocaleDateString(language)}
                       </TableCell>
                       <TableCell>
                         {/* Desktop Actions - Direct buttons for md+ screens */}
@@ -762,7 +855,7 @@ export function RolesPage() {
                                   onClick={() => handleEditRole(role)}
                                 >
                                   <Edit className="mr-2 h-4 w-4" />
-                                  Edit
+                                  {t("common.edit")}
                                 </DropdownMenuItem>
                               )}
                               {canDelete && (
@@ -771,7 +864,7 @@ export function RolesPage() {
                                   className="text-red-600"
                                 >
                                   <Trash2 className="mr-2 h-4 w-4" />
-                                  Delete
+                                  {t("common.delete")}
                                 </DropdownMenuItem>
                               )}
                             </DropdownMenuContent>
@@ -789,17 +882,18 @@ export function RolesPage() {
           {rolesData?.data?.pagination && (
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(rolesData.data.pagination.currentPage - 1) *
-                  rolesData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  rolesData.data.pagination.currentPage *
-                  rolesData.data.pagination.itemsPerPage,
-                  rolesData.data.pagination.totalItems
-                )}{" "}
-                of {rolesData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (rolesData.data.pagination.currentPage - 1) *
+                      rolesData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    rolesData.data.pagination.currentPage *
+                      rolesData.data.pagination.itemsPerPage,
+                    rolesData.data.pagination.totalItems
+                  ),
+                  total: rolesData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -808,7 +902,7 @@ export function RolesPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!rolesData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -816,7 +910,7 @@ export function RolesPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!rolesData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -828,9 +922,9 @@ export function RolesPage() {
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit Role</DialogTitle>
+            <DialogTitle>{t("roles.editTitle")}</DialogTitle>
             <DialogDescription>
-              Update role information and permissions.
+              {t("roles.editDescription")}
             </DialogDescription>
           </DialogHeader>
           <Form {...updateForm}>
@@ -843,9 +937,12 @@ export function RolesPage() {
                 name="name"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Role Name</FormLabel>
+                    <FormLabel>{t("roles.roleName")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter role name" {...field} />
+                      <Input
+                        placeholder={t("roles.roleNamePlaceholder")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -857,7 +954,7 @@ export function RolesPage() {
                 name="permissions"
                 render={() => (
                   <FormItem>
-                    <FormLabel>Permissions</FormLabel>
+                    <FormLabel>{t("roles.permissions")}</FormLabel>
                     {permissionsData?.data ? (
                       <GroupedPermissions
                         permissionGroups={permissionsData.data}
@@ -872,7 +969,7 @@ export function RolesPage() {
                       />
                     ) : (
                       <div className="text-sm text-muted-foreground">
-                        Loading permissions...
+                        {t("roles.loadingPermissions")}
                       </div>
                     )}
                     <FormMessage />
@@ -885,10 +982,12 @@ export function RolesPage() {
                   variant="outline"
                   onClick={() => setIsEditDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button type="submit" disabled={updateRoleMutation.isPending}>
-                  {updateRoleMutation.isPending ? "Updating..." : "Update Role"}
+                  {updateRoleMutation.isPending
+                    ? t("common.updating")
+                    : t("roles.update")}
                 </Button>
               </DialogFooter>
             </form>
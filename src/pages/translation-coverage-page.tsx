@@ -0,0 +1,390 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Languages, Pencil, RefreshCw, Search } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTranslationCoverage } from "@/hooks/use-translation-coverage";
+import { useTranslation } from "@/hooks/use-translation";
+import { LANGUAGES, type Language } from "@/i18n";
+import {
+  TRANSLATION_ENTITY_LABELS,
+  TRANSLATION_LANGUAGES,
+  getCoveragePercent,
+  getCoverageStats,
+  type TranslationEntityType,
+} from "@/lib/translation-coverage";
+
+const PAGE_SIZE = 20;
+
+const getLanguageLabel = (language: Language) =>
+  LANGUAGES.find((option) => option.value === language)?.label || language;
+
+export function TranslationCoveragePage() {
+  const { t } = useTranslation();
+  const { fields, isLoading, isFetching, refetch } = useTranslationCoverage();
+  const [search, setSearch] = useState("");
+  const [entityFilter, setEntityFilter] = useState<string>("all");
+  const [languageFilter, setLanguageFilter] = useState<string>("any");
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const overallStats = useMemo(() => getCoverageStats(fields), [fields]);
+
+  const entityStats = useMemo(
+    () =>
+      (Object.keys(TRANSLATION_ENTITY_LABELS) as TranslationEntityType[])
+        .map((entityType) => ({
+          entityType,
+          stats: getCoverageStats(
+            fields.filter((field) => field.entityType === entityType)
+          ),
+        }))
+        .filter(({ stats }) => stats.total > 0),
+    [fields]
+  );
+
+  // Worklist: fields still missing at least one translation
+  const worklist = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return fields.filter((field) => {
+      if (field.missing.length === 0) return false;
+      if (entityFilter !== "all" && field.entityType !== entityFilter) {
+        return false;
+      }
+      if (
+        languageFilter !== "any" &&
+        !field.missing.includes(languageFilter as Language)
+      ) {
+        return false;
+      }
+      return (
+        !term ||
+        field.entityLabel.toLowerCase().includes(term) ||
+        field.fieldLabel.toLowerCase().includes(term)
+      );
+    });
+  }, [fields, search, entityFilter, languageFilter]);
+
+  const totalPages = Math.max(1, Math.ceil(worklist.length / PAGE_SIZE));
+  const page = Math.min(currentPage, totalPages);
+  const pageItems = worklist.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">
+            {t("translationCoverage.title")}
+          </h1>
+          <p className="text-gray-600">
+            {t("translationCoverage.subtitle")}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={refetch}
+          disabled={isFetching}
+        >
+          <RefreshCw
+            className={`h-4 w-4 me-2 ${isFetching ? "animate-spin" : ""}`}
+          />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Per-language completion */}
+      <div className="grid gap-4 md:grid-cols-3">
+        {TRANSLATION_LANGUAGES.map((language) => {
+          const percent = getCoveragePercent(overallStats, language);
+          return (
+            <Card key={language}>
+              <CardHeader className="pb-2">
+                <CardDescription>{getLanguageLabel(language)}</CardDescription>
+                <CardTitle className="text-3xl">
+                  {isLoading ? "—" : `${percent}%`}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Progress value={isLoading ? 0 : percent} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {t("translationCoverage.fieldsTranslated", {
+                    translated: overallStats.translated[language],
+                    total: overallStats.total,
+                  })}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Per-entity breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" />
+            {t("translationCoverage.byType")}
+          </CardTitle>
+          <CardDescription>
+            {t("translationCoverage.byTypeDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("translationCoverage.content")}</TableHead>
+                  <TableHead>{t("translationCoverage.fields")}</TableHead>
+                  {TRANSLATION_LANGUAGES.map((language) => (
+                    <TableHead key={language}>
+                      {getLanguageLabel(language)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">
+                      {t("common.loading")}
+                    </TableCell>
+                  </TableRow>
+                ) : entityStats.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">
+                      {t("translationCoverage.noContent")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entityStats.map(({ entityType, stats }) => (
+                    <TableRow key={entityType}>
+                      <TableCell className="font-medium">
+                        {t(TRANSLATION_ENTITY_LABELS[entityType])}
+                      </TableCell>
+                      <TableCell>{stats.total}</TableCell>
+                      {TRANSLATION_LANGUAGES.map((language) => {
+                        const percent = getCoveragePercent(stats, language);
+                        return (
+                          <TableCell key={language} className="min-w-[140px]">
+                            <div className="flex items-center gap-2">
+                              <Progress value={percent} className="h-2 flex-1" />
+                              <span className="w-10 text-end text-xs tabular-nums">
+                                {percent}%
+                              </span>
+                            </div>
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Worklist */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("translationCoverage.missingTitle")}</CardTitle>
+          <CardDescription>
+            {t("translationCoverage.missingDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* Filters */}
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <div className="flex-1 min-w-[220px] space-y-2">
+              <Label htmlFor="translation-search">{t("common.search")}</Label>
+              <div className="relative">
+                <Search className="absolute start-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="translation-search"
+                  placeholder={t("translationCoverage.searchPlaceholder")}
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="ps-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("translationCoverage.content")}</Label>
+              <Select
+                value={entityFilter}
+                onValueChange={(value) => {
+                  setEntityFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">
+                    {t("translationCoverage.allContent")}
+                  </SelectItem>
+                  {Object.entries(TRANSLATION_ENTITY_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {t(label)}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("translationCoverage.missing")}</Label>
+              <Select
+                value={languageFilter}
+                onValueChange={(value) => {
+                  setLanguageFilter(value);
+                  setCurrentPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">
+                    {t("translationCoverage.anyLanguage")}
+                  </SelectItem>
+                  {TRANSLATION_LANGUAGES.map((language) => (
+                    <SelectItem key={language} value={language}>
+                      {getLanguageLabel(language)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("translationCoverage.content")}</TableHead>
+                  <TableHead>{t("translationCoverage.field")}</TableHead>
+                  <TableHead>{t("translationCoverage.missing")}</TableHead>
+                  <TableHead className="w-[100px]">
+                    {t("common.actions")}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8">
+                      {t("common.loading")}
+                    </TableCell>
+                  </TableRow>
+                ) : pageItems.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8">
+                      {t("translationCoverage.nothingLeft")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pageItems.map((field) => (
+                    <TableRow key={field.key}>
+                      <TableCell>
+                        <div className="font-medium">{field.entityLabel}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {t(TRANSLATION_ENTITY_LABELS[field.entityType])}
+                        </div>
+                      </TableCell>
+                      <TableCell>{field.fieldLabel}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {field.missing.map((language) => (
+                            <Badge
+                              key={language}
+                              variant={
+                                language === "en" ? "destructive" : "secondary"
+                              }
+                            >
+                              {language.toUpperCase()}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link to={field.editPath}>
+                            <Pencil className="h-4 w-4 me-1" />
+                            {t("common.edit")}
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {worklist.length > 0 && (
+            <div className="flex items-center justify-between mt-4">
+              <div className="text-sm text-muted-foreground">
+                {t("common.showing", {
+                  from: (page - 1) * PAGE_SIZE + 1,
+                  to: Math.min(page * PAGE_SIZE, worklist.length),
+                  total: worklist.length,
+                })}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  {t("common.previous")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(page + 1)}
+                  disabled={page >= totalPages}
+                >
+                  {t("common.next")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
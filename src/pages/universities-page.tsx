@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -72,7 +73,10 @@ import {
   Globe,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { useLocalizedText } from "@/hooks/use-localized-text";
+import { isLocalizedText, toLocalizedText } from "@/lib/localized-text";
+import { Can } from "@/components/shared/can";
 import {
   useUniversities,
   useCreateUniversity,
@@ -80,34 +84,36 @@ import {
   useDeleteUniversity,
   useHardDeleteUniversity,
   useUniversityStats,
+  useUniversityById,
 } from "@/hooks/use-universities";
 import type {
   University,
   CreateUniversityInput,
   UpdateUniversityInput,
 } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
 
 // Form schemas
 const createUniversitySchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(2, "English name must be at least 2 characters")
-      .max(100, "English name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .regex(
         /^[a-zA-Z0-9\s._-]+$/,
         "English name can only contain letters, numbers, spaces, dots, hyphens, and underscores"
       ),
     ar: z
       .string()
-      .min(2, "Arabic name must be at least 2 characters")
-      .max(100, "Arabic name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
     he: z
       .string()
-      .min(2, "Hebrew name must be at least 2 characters")
-      .max(100, "Hebrew name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
   }),
@@ -117,22 +123,22 @@ const updateUniversitySchema = z.object({
   name: z.object({
     en: z
       .string()
-      .min(2, "English name must be at least 2 characters")
-      .max(100, "English name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .regex(
         /^[a-zA-Z0-9\s._-]+$/,
         "English name can only contain letters, numbers, spaces, dots, hyphens, and underscores"
       ),
     ar: z
       .string()
-      .min(2, "Arabic name must be at least 2 characters")
-      .max(100, "Arabic name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
     he: z
       .string()
-      .min(2, "Hebrew name must be at least 2 characters")
-      .max(100, "Hebrew name cannot exceed 100 characters")
+      .min(2)
+      .max(100)
       .optional()
       .or(z.literal("")),
   }),
@@ -143,7 +149,11 @@ type CreateUniversityFormData = z.infer<typeof createUniversitySchema>;
 type UpdateUniversityFormData = z.infer<typeof updateUniversitySchema>;
 
 export function UniversitiesPage() {
-  const { hasPermission } = useAuthStore();
+  const { t, language } = useTranslation();
+  const localizeText = useLocalizedText();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const editId = searchParams.get("edit") || "";
+  const { data: linkedUniversity } = useUniversityById(editId);
   const [searchTerm, setSearchTerm] = useState("");
   const [isActiveFilter, setIsActiveFilter] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
@@ -203,12 +213,8 @@ export function UniversitiesPage() {
   });
 
   // Helper function to get university name
-  const getUniversityName = (university: University): string => {
-    if (typeof university.name === "string") {
-      return university.name;
-    }
-    return university.name.en || "Unknown University";
-  };
+  const getUniversityName = (university: University): string =>
+    localizeText(university.name, t("universities.unknown"));
 
   // Handlers
   const handleCreateUniversity = async (data: CreateUniversityFormData) => {
@@ -223,12 +229,12 @@ export function UniversitiesPage() {
       };
 
       await createUniversityMutation.mutateAsync(processedData);
-      toast.success("University created successfully!");
+      toast.success(t("toast.universityCreated"));
       setIsCreateDialogOpen(false);
       createForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to create university"
+        error instanceof Error ? error.message : t("toast.universityCreateFailed")
       );
     }
   };
@@ -251,13 +257,13 @@ export function UniversitiesPage() {
         id: editingUniversity._id,
         data: processedData,
       });
-      toast.success("University updated successfully!");
+      toast.success(t("toast.universityUpdated"));
       setIsEditDialogOpen(false);
       setEditingUniversity(null);
       updateForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update university"
+        error instanceof Error ? error.message : t("toast.universityUpdateFailed")
       );
     }
   };
@@ -270,12 +276,12 @@ export function UniversitiesPage() {
   const confirmDeleteUniversity = async () => {
     try {
       await deleteUniversityMutation.mutateAsync(deleteUniversityId);
-      toast.success("University deleted successfully!");
+      toast.success(t("toast.universityDeleted"));
       setIsDeleteDialogOpen(false);
       setDeleteUniversityId("");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete university"
+        error instanceof Error ? error.message : t("toast.universityDeleteFailed")
       );
     }
   };
@@ -288,14 +294,14 @@ export function UniversitiesPage() {
   const confirmHardDeleteUniversity = async () => {
     try {
       await hardDeleteUniversityMutation.mutateAsync(hardDeleteUniversityId);
-      toast.success("University permanently deleted!");
+      toast.success(t("toast.universityHardDeleted"));
       setIsHardDeleteDialogOpen(false);
       setHardDeleteUniversityId("");
     } catch (error) {
       toast.error(
         error instanceof Error
           ? error.message
-          : "Failed to permanently delete university"
+          : t("toast.universityHardDeleteFailed")
       );
     }
   };
@@ -310,36 +316,44 @@ export function UniversitiesPage() {
         data: { isActive: !currentStatus },
       });
       toast.success(
-        `University ${
-          !currentStatus ? "activated" : "deactivated"
-        } successfully!`
+        !currentStatus
+          ? t("toast.universityActivated")
+          : t("toast.universityDeactivated")
       );
     } catch (error) {
       toast.error(
         error instanceof Error
           ? error.message
-          : "Failed to update university status"
+          : t("toast.universityStatusFailed")
       );
     }
   };
 
-  const handleEditUniversity = (university: University) => {
-    setEditingUniversity(university);
-    const universityName =
-      typeof university.name === "string"
-        ? { en: university.name, ar: "", he: "" }
-        : university.name;
+  const handleEditUniversity = useCallback(
+    (university: University) => {
+      setEditingUniversity(university);
+      updateForm.reset({
+        name: toLocalizedText(university.name),
+        isActive: university.isActive,
+      });
+      setIsEditDialogOpen(true);
+    },
+    [updateForm]
+  );
 
-    updateForm.reset({
-      name: {
-        en: universityName.en || "",
-        ar: universityName.ar || "",
-        he: universityName.he || "",
+  // Open the edit dialog when linked from the translations worklist
+  useEffect(() => {
+    const university = linkedUniversity?.data;
+    if (!editId || !university) return;
+    handleEditUniversity(university);
+    setSearchParams(
+      (params) => {
+        params.delete("edit");
+        return params;
       },
-      isActive: university.isActive,
-    });
-    setIsEditDialogOpen(true);
-  };
+      { replace: true }
+    );
+  }, [editId, linkedUniversity, handleEditUniversity, setSearchParams]);
 
   const handleSearch = () => {
     setCurrentPage(1);
@@ -351,17 +365,16 @@ export function UniversitiesPage() {
     setCurrentPage(1);
   };
 
-  const canRead = hasPermission("read_universities");
-  const canCreate = hasPermission("create_universities");
-  const canUpdate = hasPermission("update_universities");
-  const canDelete = hasPermission("delete_universities");
+  const canRead = useHasPermission("read", "universities");
+  const canUpdate = useHasPermission("update", "universities");
+  const canDelete = useHasPermission("delete", "universities");
 
   if (!canRead) {
     return (
       <div className="space-y-6">
         <div className="text-center py-8">
           <p className="text-gray-500">
-            You don't have permission to view universities.
+            {t("universities.noPermission")}
           </p>
         </div>
       </div>
@@ -373,104 +386,104 @@ export function UniversitiesPage() {
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">University Management</h1>
+          <h1 className="text-3xl font-bold">{t("universities.title")}</h1>
           <p className="text-gray-600">
-            Manage universities and their information.
+            {t("universities.subtitle")}
           </p>
         </div>
-        {canCreate && (
-          <Dialog
-            open={isCreateDialogOpen}
-            onOpenChange={setIsCreateDialogOpen}
-          >
+        <Dialog
+          open={isCreateDialogOpen}
+          onOpenChange={setIsCreateDialogOpen}
+        >
+          <Can action="create" resource="universities" mode="disable">
             <DialogTrigger asChild>
               <Button>
                 <Plus className="mr-2 h-4 w-4" />
-                Create University
+                {t("universities.create")}
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[500px]">
-              <DialogHeader>
-                <DialogTitle>Create New University</DialogTitle>
-                <DialogDescription>
-                  Create a new university with multilingual support.
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...createForm}>
-                <form
-                  onSubmit={createForm.handleSubmit(handleCreateUniversity)}
-                  className="space-y-4"
-                >
-                  <FormField
-                    control={createForm.control}
-                    name="name.en"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>English Name *</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Enter university name in English"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="name.ar"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Arabic Name (Optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Enter university name in Arabic"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={createForm.control}
-                    name="name.he"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Hebrew Name (Optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Enter university name in Hebrew"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <DialogFooter>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => setIsCreateDialogOpen(false)}
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      type="submit"
-                      disabled={createUniversityMutation.isPending}
-                    >
-                      {createUniversityMutation.isPending
-                        ? "Creating..."
-                        : "Create University"}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
-        )}
+          </Can>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>{t("universities.createTitle")}</DialogTitle>
+              <DialogDescription>
+                {t("universities.createDescription")}
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...createForm}>
+              <form
+                onSubmit={createForm.handleSubmit(handleCreateUniversity)}
+                className="space-y-4"
+              >
+                <FormField
+                  control={createForm.control}
+                  name="name.en"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.englishNameRequired")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("universities.namePlaceholderEn")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="name.ar"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.arabicNameOptional")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("universities.namePlaceholderAr")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={createForm.control}
+                  name="name.he"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("common.hebrewNameOptional")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("universities.namePlaceholderHe")}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsCreateDialogOpen(false)}
+                  >
+                    {t("common.cancel")}
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createUniversityMutation.isPending}
+                  >
+                    {createUniversityMutation.isPending
+                      ? t("common.creating")
+                      : t("universities.create")}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
       </div>
 
       {/* Stats Cards */}
@@ -478,7 +491,7 @@ export function UniversitiesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Total Universities
+              {t("universities.total")}
             </CardTitle>
             <Building className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -491,7 +504,7 @@ export function UniversitiesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Active Universities
+              {t("universities.active")}
             </CardTitle>
             <Building className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -504,7 +517,7 @@ export function UniversitiesPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Inactive Universities
+              {t("universities.inactive")}
             </CardTitle>
             <Building className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -519,9 +532,9 @@ export function UniversitiesPage() {
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Universities</CardTitle>
+          <CardTitle>{t("universities.universities")}</CardTitle>
           <CardDescription>
-            Manage universities and their multilingual information.
+            {t("universities.description")}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -530,7 +543,7 @@ export function UniversitiesPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search universities..."
+                  placeholder={t("universities.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -540,12 +553,12 @@ export function UniversitiesPage() {
             </div>
             <Select value={isActiveFilter} onValueChange={handleFilterChange}>
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("common.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="true">Active</SelectItem>
-                <SelectItem value="false">Inactive</SelectItem>
+                <SelectItem value="all">{t("common.allStatus")}</SelectItem>
+                <SelectItem value="true">{t("common.active")}</SelectItem>
+                <SelectItem value="false">{t("common.inactive")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -558,25 +571,27 @@ export function UniversitiesPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Languages</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Active</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead className="w-[120px]">Actions</TableHead>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead>{t("common.languages")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("common.active")}</TableHead>
+                  <TableHead>{t("common.created")}</TableHead>
+                  <TableHead className="w-[120px]">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
                     <TableCell colSpan={6} className="text-center py-8">
-                      Loading universities...
+                      {t("universities.loading")}
                     </TableCell>
                   </TableRow>
                 ) : universitiesData?.data?.items?.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={6} className="text-center py-8">
-                      No universities found.
+                      {t("universities.notFound")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -587,7 +602,7 @@ export function UniversitiesPage() {
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-1">
-                          {typeof university.name === "object" && (
+                          {isLocalizedText(university.name) && (
                             <>
                               {university.name.en && (
                                 <Badge variant="outline" className="text-xs">
@@ -606,10 +621,10 @@ export function UniversitiesPage() {
                               )}
                             </>
                           )}
-                          {typeof university.name === "string" && (
+                          {!isLocalizedText(university.name) && (
                             <Badge variant="outline" className="text-xs">
                               <Globe className="h-3 w-3 mr-1" />
-                              Single
+                              {t("common.singleLanguage")}
                             </Badge>
                           )}
                         </div>
@@ -620,7 +635,9 @@ export function UniversitiesPage() {
                             university.isActive ? "default" : "secondary"
                           }
                         >
-                          {university.isActive ? "Active" : "Inactive"}
+                          {university.isActive
+                            ? t("common.active")
+                            : t("common.inactive")}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -638,7 +655,9 @@ export function UniversitiesPage() {
                         )}
                       </TableCell>
                       <TableCell>
-                        {new Date(university.createdAt).toLocaleDateString()}
+                        {new Date(university.createdAt).toLocaleDateString(
+                          language
+                        )}
                       </TableCell>
                       <TableCell>
                         {/* Desktop Actions */}
@@ -681,7 +700,7 @@ export function UniversitiesPage() {
                                   }
                                 >
                                   <Edit className="mr-2 h-4 w-4" />
-                                  Edit
+                                  {t("common.edit")}
                                 </DropdownMenuItem>
                               )}
                               {canDelete && (
@@ -693,7 +712,7 @@ export function UniversitiesPage() {
                                     className="text-orange-600"
                                   >
                                     <Trash2 className="mr-2 h-4 w-4" />
-                                    Soft Delete
+                                    {t("common.softDelete")}
                                   </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onClick={() =>
@@ -702,7 +721,7 @@ export function UniversitiesPage() {
                                     className="text-red-600"
                                   >
                                     <Trash2 className="mr-2 h-4 w-4" />
-                                    Hard Delete
+                                    {t("common.hardDelete")}
                                   </DropdownMenuItem>
                                 </>
                               )}
@@ -721,17 +740,18 @@ export function UniversitiesPage() {
           {universitiesData?.data?.pagination && (
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(universitiesData.data.pagination.currentPage - 1) *
-                  universitiesData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  universitiesData.data.pagination.currentPage *
-                    universitiesData.data.pagination.itemsPerPage,
-                  universitiesData.data.pagination.totalItems
-                )}{" "}
-                of {universitiesData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (universitiesData.data.pagination.currentPage - 1) *
+                      universitiesData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    universitiesData.data.pagination.currentPage *
+                      universitiesData.data.pagination.itemsPerPage,
+                    universitiesData.data.pagination.totalItems
+                  ),
+                  total: universitiesData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -740,7 +760,7 @@ export function UniversitiesPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!universitiesData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -748,7 +768,7 @@ export function UniversitiesPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!universitiesData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -760,9 +780,9 @@ export function UniversitiesPage() {
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit University</DialogTitle>
+            <DialogTitle>{t("universities.editTitle")}</DialogTitle>
             <DialogDescription>
-              Update university information and multilingual names.
+              {t("universities.editDescription")}
             </DialogDescription>
           </DialogHeader>
           <Form {...updateForm}>
@@ -775,10 +795,10 @@ export function UniversitiesPage() {
                 name="name.en"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>English Name *</FormLabel>
+                    <FormLabel>{t("common.englishNameRequired")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter university name in English"
+                        placeholder={t("universities.namePlaceholderEn")}
                         {...field}
                       />
                     </FormControl>
@@ -791,10 +811,10 @@ export function UniversitiesPage() {
                 name="name.ar"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Arabic Name (Optional)</FormLabel>
+                    <FormLabel>{t("common.arabicNameOptional")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter university name in Arabic"
+                        placeholder={t("universities.namePlaceholderAr")}
                         {...field}
                       />
                     </FormControl>
@@ -807,10 +827,10 @@ export function UniversitiesPage() {
                 name="name.he"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Hebrew Name (Optional)</FormLabel>
+                    <FormLabel>{t("common.hebrewNameOptional")}</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Enter university name in Hebrew"
+                        placeholder={t("universities.namePlaceholderHe")}
                         {...field}
                       />
                     </FormControl>
@@ -824,15 +844,15 @@ export function UniversitiesPage() {
                   variant="outline"
                   onClick={() => setIsEditDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button
                   type="submit"
                   disabled={updateUniversityMutation.isPending}
                 >
                   {updateUniversityMutation.isPending
-                    ? "Updating..."
-                    : "Update University"}
+                    ? t("common.updating")
+                    : t("universities.update")}
                 </Button>
               </DialogFooter>
             </form>
@@ -847,19 +867,18 @@ export function UniversitiesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete University</AlertDialogTitle>
+            <AlertDialogTitle>{t("universities.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this university? This action will
-              mark the university as inactive.
+              {t("universities.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteUniversity}
               className="bg-orange-600 hover:bg-orange-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -872,19 +891,20 @@ export function UniversitiesPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Permanently Delete University</AlertDialogTitle>
+            <AlertDialogTitle>
+              {t("universities.hardDeleteTitle")}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to permanently delete this university? This
-              action cannot be undone and will remove all associated data.
+              {t("universities.hardDeleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmHardDeleteUniversity}
               className="bg-red-600 hover:bg-red-700"
             >
-              Permanently Delete
+              {t("common.permanentlyDelete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,5 +1,4 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -73,7 +72,8 @@ import {
   Smartphone,
 } from "lucide-react";
 import { toast } from "sonner";
-import { useAuthStore } from "@/stores/auth-store";
+import { useHasPermission } from "@/hooks/use-authorization";
+import { useLocalizedText } from "@/hooks/use-localized-text";
 import {
   useUsers,
   useUpdateUser,
@@ -84,23 +84,99 @@ import {
   useRemoveUserDevice,
 } from "@/hooks/use-users";
 import type { User } from "@/types/api";
+import { ExportButton } from "@/components/shared/export-button";
+import { paginatedSource } from "@/services/export-service";
+import {
+  formatExportDate,
+  localize,
+  type ExportColumn,
+} from "@/lib/export";
+import { translate, type TranslationKey } from "@/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+
+const userExportColumns: ExportColumn<User>[] = [
+  { key: "fullName", label: "users.fullName", value: (user) => user.fullName },
+  { key: "email", label: "common.email", value: (user) => user.email },
+  { key: "phone", label: "common.phone", value: (user) => user.phone },
+  {
+    key: "university",
+    label: "common.university",
+    value: (user, language) => localize(user.universityId?.name, language),
+  },
+  {
+    key: "faculty",
+    label: "common.faculty",
+    value: (user, language) => localize(user.facultyId?.name, language),
+  },
+  {
+    key: "academicYear",
+    label: "users.academicYear",
+    value: (user) => user.academicYear,
+  },
+  { key: "semester", label: "users.semester", value: (user) => user.semester },
+  {
+    key: "blocked",
+    label: "users.blocked",
+    value: (user, language) =>
+      translate(language, user.blocked ? "common.yes" : "common.no"),
+  },
+  {
+    key: "emailVerified",
+    label: "users.emailVerified",
+    value: (user, language) =>
+      translate(language, user.emailVerified ? "common.yes" : "common.no"),
+  },
+  {
+    key: "devices",
+    label: "users.devices",
+    value: (user) => user.devices?.length ?? 0,
+    defaultSelected: false,
+  },
+  {
+    key: "lastLogin",
+    label: "users.lastLogin",
+    value: (user) => formatExportDate(user.lastLogin),
+  },
+  {
+    key: "createdAt",
+    label: "users.joined",
+    value: (user) => formatExportDate(user.createdAt),
+  },
+];
+
+// Academic years and semesters are stored in English and labelled per language
+const ACADEMIC_YEARS: { value: string; label: TranslationKey }[] = [
+  { value: "1st Year", label: "users.year1" },
+  { value: "2nd Year", label: "users.year2" },
+  { value: "3rd Year", label: "users.year3" },
+  { value: "4th Year", label: "users.year4" },
+  { value: "5th Year", label: "users.year5" },
+  { value: "6th Year", label: "users.year6" },
+];
+
+const SEMESTERS: { value: string; label: TranslationKey }[] = [
+  { value: "Fall", label: "users.fall" },
+  { value: "Spring", label: "users.spring" },
+  { value: "Summer", label: "users.summer" },
+];
 
 // Form schemas
 const updateUserSchema = z.object({
   fullName: z
     .string()
-    .min(2, "Full name must be at least 2 characters")
-    .max(100, "Full name cannot exceed 100 characters"),
-  email: z.string().email("Please provide a valid email address"),
+    .min(2)
+    .max(100),
+  email: z.string().email(),
   phone: z.string().optional(),
-  academicYear: z.string().min(1, "Academic year is required"),
-  semester: z.string().min(1, "Semester is required"),
+  academicYear: z.string().min(1),
+  semester: z.string().min(1),
 });
 
 type UpdateUserFormData = z.infer<typeof updateUserSchema>;
 
 export function UsersPage() {
-  const { hasPermission } = useAuthStore();
+  const { t, language } = useTranslation();
+  const localizeText = useLocalizedText();
   const [searchTerm, setSearchTerm] = useState("");
   const [blockedFilter, setBlockedFilter] = useState<string>("all");
   const [emailVerifiedFilter, setEmailVerifiedFilter] = useState<string>("all");
@@ -133,6 +209,21 @@ export function UsersPage() {
         : emailVerifiedFilter === "true",
   });
 
+  // Export uses the same filters as the table, across every page
+  const fetchExportPage = useMemo(
+    () =>
+      paginatedSource<User>("/dashboard/users", {
+        search: searchTerm || undefined,
+        blocked:
+          blockedFilter === "all" ? undefined : blockedFilter === "true",
+        emailVerified:
+          emailVerifiedFilter === "all"
+            ? undefined
+            : emailVerifiedFilter === "true",
+      }),
+    [searchTerm, blockedFilter, emailVerifiedFilter]
+  );
+
   const { data: statsData } = useUserStats();
   const { data: devicesData } = useUserDevices(viewingDevicesUser?._id || "");
 
@@ -160,13 +251,13 @@ export function UsersPage() {
 
     try {
       await updateUserMutation.mutateAsync({ id: editingUser._id, data });
-      toast.success("User updated successfully!");
+      toast.success(t("toast.userUpdated"));
       setIsEditDialogOpen(false);
       setEditingUser(null);
       updateForm.reset();
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update user"
+        error instanceof Error ? error.message : t("toast.userUpdateFailed")
       );
     }
   };
@@ -179,12 +270,12 @@ export function UsersPage() {
   const confirmDeleteUser = async () => {
     try {
       await deleteUserMutation.mutateAsync(deleteUserId);
-      toast.success("User deleted successfully!");
+      toast.success(t("toast.userDeleted"));
       setIsDeleteDialogOpen(false);
       setDeleteUserId("");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to delete user"
+        error instanceof Error ? error.message : t("toast.userDeleteFailed")
       );
     }
   };
@@ -199,11 +290,11 @@ export function UsersPage() {
         blocked: !currentStatus,
       });
       toast.success(
-        `User ${!currentStatus ? "blocked" : "unblocked"} successfully!`
+        !currentStatus ? t("toast.userBlocked") : t("toast.userUnblocked")
       );
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to update user status"
+        error instanceof Error ? error.message : t("toast.userStatusFailed")
       );
     }
   };
@@ -238,12 +329,12 @@ export function UsersPage() {
         id: viewingDevicesUser._id,
         deviceId: removeDeviceId,
       });
-      toast.success("Device removed successfully!");
+      toast.success(t("toast.deviceRemoved"));
       setIsRemoveDeviceDialogOpen(false);
       setRemoveDeviceId("");
     } catch (error) {
       toast.error(
-        error instanceof Error ? error.message : "Failed to remove device"
+        error instanceof Error ? error.message : t("toast.deviceRemoveFailed")
       );
     }
   };
@@ -263,17 +354,23 @@ export function UsersPage() {
     setCurrentPage(1);
   };
 
-  const canRead = hasPermission("read_users");
-  const canUpdate = hasPermission("update_users");
-  const canDelete = hasPermission("delete_users");
+  const optionLabel = (
+    options: { value: string; label: TranslationKey }[],
+    value: string
+  ) => {
+    const option = options.find((o) => o.value === value);
+    return option ? t(option.label) : value;
+  };
+
+  const canRead = useHasPermission("read", "users");
+  const canUpdate = useHasPermission("update", "users");
+  const canDelete = useHasPermission("delete", "users");
 
   if (!canRead) {
     return (
       <div className="space-y-6">
         <div className="text-center py-8">
-          <p className="text-gray-500">
-            You don't have permission to view users.
-          </p>
+          <p className="text-gray-500">{t("users.noPermission")}</p>
         </div>
       </div>
     );
@@ -284,18 +381,25 @@ export function UsersPage() {
       {/* Header */}
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">User Management</h1>
-          <p className="text-gray-600">
-            Manage student accounts and their enrollments.
-          </p>
+          <h1 className="text-3xl font-bold">{t("users.title")}</h1>
+          <p className="text-gray-600">{t("users.subtitle")}</p>
         </div>
+        <ExportButton
+          resource="users"
+          name="users"
+          title={t("users.export")}
+          columns={userExportColumns}
+          fetchPage={fetchExportPage}
+        />
       </div>
 
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Users</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("users.totalUsers")}
+            </CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -307,7 +411,7 @@ export function UsersPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Verified Users
+              {t("users.verifiedUsers")}
             </CardTitle>
             <Shield className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -320,7 +424,7 @@ export function UsersPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Unverified Users
+              {t("users.unverifiedUsers")}
             </CardTitle>
             <ShieldOff className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
@@ -332,7 +436,9 @@ export function UsersPage() {
         </Card>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Blocked Users</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("users.blockedUsers")}
+            </CardTitle>
             <ShieldOff className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -346,10 +452,8 @@ export function UsersPage() {
       {/* Filters and Search */}
       <Card>
         <CardHeader>
-          <CardTitle>Users</CardTitle>
-          <CardDescription>
-            Manage student accounts and their information.
-          </CardDescription>
+          <CardTitle>{t("users.users")}</CardTitle>
+          <CardDescription>{t("users.usersDescription")}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex gap-4 mb-4">
@@ -357,7 +461,7 @@ export function UsersPage() {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search users..."
+                  placeholder={t("users.searchPlaceholder")}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && handleSearch()}
@@ -370,12 +474,12 @@ export function UsersPage() {
               onValueChange={handleBlockedFilterChange}
             >
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by status" />
+                <SelectValue placeholder={t("users.filterByStatus")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="false">Active</SelectItem>
-                <SelectItem value="true">Blocked</SelectItem>
+                <SelectItem value="all">{t("users.allStatus")}</SelectItem>
+                <SelectItem value="false">{t("common.active")}</SelectItem>
+                <SelectItem value="true">{t("users.blocked")}</SelectItem>
               </SelectContent>
             </Select>
             <Select
@@ -383,12 +487,12 @@ export function UsersPage() {
               onValueChange={handleEmailVerifiedFilterChange}
             >
               <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Filter by verification" />
+                <SelectValue placeholder={t("users.filterByVerification")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Verification</SelectItem>
-                <SelectItem value="true">Verified</SelectItem>
-                <SelectItem value="false">Unverified</SelectItem>
+                <SelectItem value="all">{t("users.allVerification")}</SelectItem>
+                <SelectItem value="true">{t("users.verified")}</SelectItem>
+                <SelectItem value="false">{t("users.unverified")}</SelectItem>
               </SelectContent>
             </Select>
             <Button variant="outline" onClick={() => refetch()}>
@@ -401,28 +505,30 @@ export function UsersPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>University</TableHead>
-                  <TableHead>Faculty</TableHead>
-                  <TableHead>Academic Year</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Verified</TableHead>
-                  <TableHead>Devices</TableHead>
-                  <TableHead className="w-[120px]">Actions</TableHead>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead>{t("common.email")}</TableHead>
+                  <TableHead>{t("common.university")}</TableHead>
+                  <TableHead>{t("common.faculty")}</TableHead>
+                  <TableHead>{t("users.academicYear")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead>{t("users.verified")}</TableHead>
+                  <TableHead>{t("users.devices")}</TableHead>
+                  <TableHead className="w-[120px]">
+                    {t("common.actions")}
+                  </TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
                     <TableCell colSpan={9} className="text-center py-8">
-                      Loading users...
+                      {t("users.loading")}
                     </TableCell>
                   </TableRow>
                 ) : usersData?.data?.items?.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={9} className="text-center py-8">
-                      No users found.
+                      {t("users.notFound")}
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -434,25 +540,32 @@ export function UsersPage() {
                       <TableCell>{user.email}</TableCell>
                       <TableCell>
                         {typeof user.universityId === "object"
-                          ? typeof user.universityId.name === "string"
-                            ? user.universityId.name
-                            : (user.universityId.name as any)?.en || "N/A"
-                          : "N/A"}
+                          ? localizeText(
+                              user.universityId?.name,
+                              t("common.notAvailable")
+                            )
+                          : t("common.notAvailable")}
                       </TableCell>
                       <TableCell>
                         {typeof user.facultyId === "object"
-                          ? (user.facultyId.name as any)?.en || "N/A"
-                          : "N/A"}
+                          ? localizeText(
+                              user.facultyId?.name,
+                              t("common.notAvailable")
+                            )
+                          : t("common.notAvailable")}
                       </TableCell>
                       <TableCell>
-                        {user.academicYear} - {user.semester}
+                        {optionLabel(ACADEMIC_YEARS, user.academicYear)} -{" "}
+                        {optionLabel(SEMESTERS, user.semester)}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Badge
                             variant={user.blocked ? "destructive" : "default"}
                           >
-                            {user.blocked ? "Blocked" : "Active"}
+                            {user.blocked
+                              ? t("users.blocked")
+                              : t("common.active")}
                           </Badge>
                           {canUpdate && (
                             <Switch
@@ -469,7 +582,9 @@ export function UsersPage() {
                         <Badge
                           variant={user.emailVerified ? "default" : "secondary"}
                         >
-                          {user.emailVerified ? "Verified" : "Unverified"}
+                          {user.emailVerified
+                            ? t("users.verified")
+                            : t("users.unverified")}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -497,14 +612,14 @@ export function UsersPage() {
                                 onClick={() => handleEditUser(user)}
                               >
                                 <Edit className="mr-2 h-4 w-4" />
-                                Edit
+                                {t("common.edit")}
                               </DropdownMenuItem>
                             )}
                             <DropdownMenuItem
                               onClick={() => handleViewDevices(user)}
                             >
                               <Smartphone className="mr-2 h-4 w-4" />
-                              View Devices
+                              {t("users.viewDevices")}
                             </DropdownMenuItem>
                             {canDelete && (
                               <DropdownMenuItem
@@ -512,7 +627,7 @@ export function UsersPage() {
                                 className="text-red-600"
                               >
                                 <Trash2 className="mr-2 h-4 w-4" />
-                                Delete
+                                {t("common.delete")}
                               </DropdownMenuItem>
                             )}
                           </DropdownMenuContent>
@@ -529,17 +644,18 @@ export function UsersPage() {
           {usersData?.data?.pagination && (
             <div className="flex items-center justify-between mt-4">
               <div className="text-sm text-muted-foreground">
-                Showing{" "}
-                {(usersData.data.pagination.currentPage - 1) *
-                  usersData.data.pagination.itemsPerPage +
-                  1}{" "}
-                to{" "}
-                {Math.min(
-                  usersData.data.pagination.currentPage *
-                    usersData.data.pagination.itemsPerPage,
-                  usersData.data.pagination.totalItems
-                )}{" "}
-                of {usersData.data.pagination.totalItems} results
+                {t("common.showing", {
+                  from:
+                    (usersData.data.pagination.currentPage - 1) *
+                      usersData.data.pagination.itemsPerPage +
+                    1,
+                  to: Math.min(
+                    usersData.data.pagination.currentPage *
+                      usersData.data.pagination.itemsPerPage,
+                    usersData.data.pagination.totalItems
+                  ),
+                  total: usersData.data.pagination.totalItems,
+                })}
               </div>
               <div className="flex gap-2">
                 <Button
@@ -548,7 +664,7 @@ export function UsersPage() {
                   onClick={() => setCurrentPage(currentPage - 1)}
                   disabled={!usersData.data.pagination.hasPrev}
                 >
-                  Previous
+                  {t("common.previous")}
                 </Button>
                 <Button
                   variant="outline"
@@ -556,7 +672,7 @@ export function UsersPage() {
                   onClick={() => setCurrentPage(currentPage + 1)}
                   disabled={!usersData.data.pagination.hasNext}
                 >
-                  Next
+                  {t("common.next")}
                 </Button>
               </div>
             </div>
@@ -568,8 +684,8 @@ export function UsersPage() {
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
           <DialogHeader>
-            <DialogTitle>Edit User</DialogTitle>
-            <DialogDescription>Update user information.</DialogDescription>
+            <DialogTitle>{t("users.editTitle")}</DialogTitle>
+            <DialogDescription>{t("users.editDescription")}</DialogDescription>
           </DialogHeader>
           <Form {...updateForm}>
             <form
@@ -581,9 +697,12 @@ export function UsersPage() {
                 name="fullName"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Full Name</FormLabel>
+                    <FormLabel>{t("users.fullName")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter full name" {...field} />
+                      <Input
+                        placeholder={t("users.fullNamePlaceholder")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -594,11 +713,11 @@ export function UsersPage() {
                 name="email"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Email</FormLabel>
+                    <FormLabel>{t("common.email")}</FormLabel>
                     <FormControl>
                       <Input
                         type="email"
-                        placeholder="Enter email"
+                        placeholder={t("users.emailPlaceholder")}
                         {...field}
                       />
                     </FormControl>
@@ -611,9 +730,12 @@ export function UsersPage() {
                 name="phone"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Phone (Optional)</FormLabel>
+                    <FormLabel>{t("users.phoneOptional")}</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter phone number" {...field} />
+                      <Input
+                        placeholder={t("users.phonePlaceholder")}
+                        {...field}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -624,23 +746,24 @@ export function UsersPage() {
                 name="academicYear"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Academic Year</FormLabel>
+                    <FormLabel>{t("users.academicYear")}</FormLabel>
                     <Select
                       onValueChange={field.onChange}
                       defaultValue={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select academic year" />
+                          <SelectValue
+                            placeholder={t("users.selectAcademicYear")}
+                          />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="1st Year">1st Year</SelectItem>
-                        <SelectItem value="2nd Year">2nd Year</SelectItem>
-                        <SelectItem value="3rd Year">3rd Year</SelectItem>
-                        <SelectItem value="4th Year">4th Year</SelectItem>
-                        <SelectItem value="5th Year">5th Year</SelectItem>
-                        <SelectItem value="6th Year">6th Year</SelectItem>
+                        {ACADEMIC_YEARS.map((year) => (
+                          <SelectItem key={year.value} value={year.value}>
+                            {t(year.label)}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -652,20 +775,22 @@ export function UsersPage() {
                 name="semester"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Semester</FormLabel>
+                    <FormLabel>{t("users.semester")}</FormLabel>
                     <Select
                       onValueChange={field.onChange}
                       defaultValue={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select semester" />
+                          <SelectValue placeholder={t("users.selectSemester")} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Fall">Fall</SelectItem>
-                        <SelectItem value="Spring">Spring</SelectItem>
-                        <SelectItem value="Summer">Summer</SelectItem>
+                        {SEMESTERS.map((semester) => (
+                          <SelectItem key={semester.value} value={semester.value}>
+                            {t(semester.label)}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -678,10 +803,12 @@ export function UsersPage() {
                   variant="outline"
                   onClick={() => setIsEditDialogOpen(false)}
                 >
-                  Cancel
+                  {t("common.cancel")}
                 </Button>
                 <Button type="submit" disabled={updateUserMutation.isPending}>
-                  {updateUserMutation.isPending ? "Updating..." : "Update User"}
+                  {updateUserMutation.isPending
+                    ? t("common.updating")
+                    : t("users.updateUser")}
                 </Button>
               </DialogFooter>
             </form>
@@ -693,15 +820,17 @@ export function UsersPage() {
       <Dialog open={isDevicesDialogOpen} onOpenChange={setIsDevicesDialogOpen}>
         <DialogContent className="sm:max-w-[600px]">
           <DialogHeader>
-            <DialogTitle>User Devices</DialogTitle>
+            <DialogTitle>{t("users.devicesTitle")}</DialogTitle>
             <DialogDescription>
-              Manage {viewingDevicesUser?.fullName}'s devices
+              {t("users.devicesDescription", {
+                name: viewingDevicesUser?.fullName ?? "",
+              })}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             {devicesData?.data?.length === 0 ? (
               <p className="text-center text-gray-500 py-4">
-                No devices found for this user.
+                {t("users.noDevices")}
               </p>
             ) : (
               devicesData?.data?.map((device) => (
@@ -716,15 +845,21 @@ export function UsersPage() {
                       <Badge
                         variant={device.isVerified ? "default" : "secondary"}
                       >
-                        {device.isVerified ? "Verified" : "Unverified"}
+                        {device.isVerified
+                          ? t("users.verified")
+                          : t("users.unverified")}
                       </Badge>
                     </div>
                     <div className="text-sm text-gray-500 mt-1">
-                      <p>Type: {device.deviceType}</p>
+                      <p>{t("users.deviceType", { type: device.deviceType })}</p>
                       <p>
-                        Last used: {new Date(device.lastUsed).toLocaleString()}
+                        {t("users.deviceLastUsed", {
+                          date: new Date(device.lastUsed).toLocaleString(
+                            language
+                          ),
+                        })}
                       </p>
-                      <p>IP: {device.ipAddress}</p>
+                      <p>{t("users.deviceIp", { ip: device.ipAddress })}</p>
                     </div>
                   </div>
                   {canUpdate && (
@@ -734,7 +869,7 @@ export function UsersPage() {
                       onClick={() => handleRemoveDevice(device.deviceId)}
                       disabled={removeDeviceMutation.isPending}
                     >
-                      Remove
+                      {t("common.remove")}
                     </Button>
                   )}
                 </div>
@@ -743,7 +878,7 @@ export function UsersPage() {
           </div>
           <DialogFooter>
             <Button type="button" onClick={() => setIsDevicesDialogOpen(false)}>
-              Close
+              {t("common.close")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -756,19 +891,18 @@ export function UsersPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete User</AlertDialogTitle>
+            <AlertDialogTitle>{t("users.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this user? This action cannot be
-              undone.
+              {t("users.deleteDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmDeleteUser}
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -781,19 +915,18 @@ export function UsersPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Remove Device</AlertDialogTitle>
+            <AlertDialogTitle>{t("users.removeDeviceTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to remove this device? The user will need to
-              re-authenticate on this device.
+              {t("users.removeDeviceDescription")}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmRemoveDevice}
               className="bg-red-600 hover:bg-red-700"
             >
-              Remove Device
+              {t("users.removeDeviceTitle")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import {
   Card,
   CardContent,
@@ -7,7 +8,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Can } from "@/components/shared/can";
 import {
   Select,
   SelectContent,
@@ -41,10 +42,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Plus,
-  Search,
-  Filter,
   Play,
   Download,
   Trash2,
@@ -54,6 +54,16 @@ import {
   Calendar,
   User,
   HardDrive,
+  Link2,
+  AlertTriangle,
+  Loader2,
+  LayoutGrid,
+  List,
+  Power,
+  PowerOff,
+  Tag,
+  PencilLine,
+  X,
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -61,42 +71,95 @@ import {
   useVideoLibraries,
   useSoftDeleteVideoLibrary,
   useGetPresignedVideoUrl,
+  useVideoUsage,
 } from "@/hooks/use-videos-library";
 import { UploadVideoDialog } from "@/components/shared/upload-video-dialog";
+import { VideoUsageSheet } from "@/components/video-library/video-usage-sheet";
+import { VideoGridCard } from "@/components/video-library/video-grid-card";
+import { VideoLibraryFilterPanel } from "@/components/video-library/video-library-filter-panel";
+import {
+  BulkVideoActionDialog,
+  type VideoBulkActionType,
+} from "@/components/video-library/bulk-video-action-dialog";
 import { videoLibraryService } from "@/services/videos-library-service";
+import { formatDuration, formatResolution } from "@/lib/video-metadata";
+import {
+  countActiveVideoLibraryFilters,
+  parseVideoLibraryFilters,
+  toVideoLibraryQueryParams,
+  toVideoLibrarySearchParams,
+  type VideoLibraryFilters,
+} from "@/lib/video-library-filters";
 import type { VideoLibrary } from "@/types/api";
+import { useTranslation } from "@/hooks/use-translation";
+import type { TranslationKey } from "@/i18n";
+
+const ENTITY_TYPE_LABELS: Record<VideoLibrary["entityType"], TranslationKey> = {
+  course: "videoLibrary.course",
+  lesson: "videoLibrary.lesson",
+};
 
 export function VideosLibraryPage() {
+  const { t, language } = useTranslation();
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
   const [isPreviewDialogOpen, setIsPreviewDialogOpen] = useState(false);
   const [selectedVideo, setSelectedVideo] = useState<VideoLibrary | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [deleteVideoId, setDeleteVideoId] = useState<string>("");
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-
-  // Filters and search
-  const [searchTerm, setSearchTerm] = useState("");
-  const [entityTypeFilter, setEntityTypeFilter] = useState<
-    "all" | "lesson" | "course"
-  >("all");
-  const [statusFilter, setStatusFilter] = useState<
-    "all" | "active" | "inactive"
-  >("all");
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(10);
+  const [deleteAcknowledged, setDeleteAcknowledged] = useState(false);
+  const [usageVideo, setUsageVideo] = useState<VideoLibrary | null>(null);
+
+  // Selection is kept by ID so it survives paging and filtering
+  const [selectedVideos, setSelectedVideos] = useState<
+    Record<string, VideoLibrary>
+  >({});
+  const [bulkAction, setBulkAction] = useState<VideoBulkActionType | null>(
+    null
+  );
+  const selectedList = Object.values(selectedVideos);
+
+  // Filters, paging and view mode live in the URL
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseVideoLibraryFilters(searchParams);
+  const activeFilterCount = countActiveVideoLibraryFilters(filters);
+  const currentPage = filters.page;
+  const pageSize = filters.limit;
+
+  const updateFilters = (patch: Partial<VideoLibraryFilters>) => {
+    // Narrowing the results starts again from the first page
+    const resetsPage = Object.keys(patch).some(
+      (key) => key !== "page" && key !== "view"
+    );
+    setSearchParams(
+      toVideoLibrarySearchParams({
+        ...filters,
+        ...(resetsPage && { page: 1 }),
+        ...patch,
+      }),
+      { replace: true }
+    );
+  };
 
   // Mutations
   const softDeleteMutation = useSoftDeleteVideoLibrary();
   const getPresignedUrlMutation = useGetPresignedVideoUrl();
 
+  // Fetched fresh when the delete dialog opens so the warning is current
+  const {
+    data: deleteUsageData,
+    isLoading: isLoadingDeleteUsage,
+    isError: isDeleteUsageError,
+    refetch: refetchDeleteUsage,
+  } = useVideoUsage(isDeleteDialogOpen ? deleteVideoId : null);
+  const deleteUsageCount = deleteUsageData?.data?.count || 0;
+
   // Query params
   const queryParams = {
-    page: currentPage,
-    limit: pageSize,
-    search: searchTerm || undefined,
-    entityType: entityTypeFilter !== "all" ? entityTypeFilter : undefined,
-    isActive: statusFilter !== "all" ? statusFilter === "active" : undefined,
-    includePresignedUrls: false,
+    ...toVideoLibraryQueryParams(filters),
+    includeUsage: true,
+    // Signs the thumbnail URLs shown in the table
+    includePresignedUrls: true,
   };
 
   const {
@@ -121,13 +184,14 @@ export function VideosLibraryPage() {
       setSelectedVideo(video);
       setIsPreviewDialogOpen(true);
     } catch (error) {
-      toast.error("Failed to load video preview");
+      toast.error(t("toast.videoPreviewFailed"));
     }
   };
 
   const handleSoftDelete = async (video: VideoLibrary) => {
     setDeleteVideoId(video._id);
     setSelectedVideo(video);
+    setDeleteAcknowledged(false);
     setIsDeleteDialogOpen(true);
   };
 
@@ -157,7 +221,7 @@ export function VideosLibraryPage() {
       link.click();
       document.body.removeChild(link);
     } catch (error) {
-      toast.error("Failed to download video");
+      toast.error(t("toast.videoDownloadFailed"));
     }
   };
 
@@ -165,10 +229,189 @@ export function VideosLibraryPage() {
     return <FileVideo className="h-5 w-5 text-blue-500" />;
   };
 
+  const renderThumbnail = (video: VideoLibrary) => (
+    <div className="relative flex h-12 w-20 shrink-0 items-center justify-center overflow-hidden rounded bg-gray-100">
+      {video.thumbnailUrl ? (
+        <img
+          src={video.thumbnailUrl}
+          alt=""
+          loading="lazy"
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        getFileIcon()
+      )}
+      {!!video.duration && (
+        <span className="absolute bottom-0.5 end-0.5 rounded bg-black/70 px-1 text-[10px] text-white tabular-nums">
+          {formatDuration(video.duration)}
+        </span>
+      )}
+    </div>
+  );
+
+  const getVideoDetails = (video: VideoLibrary) =>
+    [
+      video.videoType,
+      video.width && video.height
+        ? formatResolution(video.width, video.height)
+        : null,
+      video.codec,
+    ]
+      .filter(Boolean)
+      .join(" • ");
+
+  const pageVideos = videosData?.data?.docs || [];
+  const isPageSelected =
+    pageVideos.length > 0 &&
+    pageVideos.every((video) => selectedVideos[video._id]);
+  const isPagePartlySelected =
+    !isPageSelected && pageVideos.some((video) => selectedVideos[video._id]);
+
+  const setVideoSelected = (video: VideoLibrary, selected: boolean) => {
+    setSelectedVideos((current) => {
+      const next = { ...current };
+      if (selected) {
+        next[video._id] = video;
+      } else {
+        delete next[video._id];
+      }
+      return next;
+    });
+  };
+
+  const setPageSelected = (selected: boolean) => {
+    setSelectedVideos((current) => {
+      const next = { ...current };
+      pageVideos.forEach((video) => {
+        if (selected) {
+          next[video._id] = video;
+        } else {
+          delete next[video._id];
+        }
+      });
+      return next;
+    });
+  };
+
+  // Failed videos stay selected so the action can be tried again
+  const handleBulkFinished = (failed: VideoLibrary[]) => {
+    setSelectedVideos(
+      Object.fromEntries(failed.map((video) => [video._id, video]))
+    );
+  };
+
+  const renderBulkToolbar = () =>
+    selectedList.length > 0 && (
+      <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 p-2">
+        <span className="px-2 text-sm font-medium">
+          {t("videoLibrary.selected", { count: selectedList.length })}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => setSelectedVideos({})}>
+          <X className="h-4 w-4 mr-2" />
+          {t("common.clear")}
+        </Button>
+        <div className="ms-auto flex flex-wrap items-center gap-2">
+          <Can action="update" resource="video_library">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBulkAction("activate")}
+            >
+              <Power className="h-4 w-4 mr-2" />
+              {t("videoLibrary.activate")}
+            </Button>
+          </Can>
+          <Can action="delete" resource="video_library">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBulkAction("deactivate")}
+            >
+              <PowerOff className="h-4 w-4 mr-2" />
+              {t("videoLibrary.deactivate")}
+            </Button>
+          </Can>
+          <Can action="update" resource="video_library">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBulkAction("setEntityType")}
+            >
+              <Tag className="h-4 w-4 mr-2" />
+              {t("videoLibrary.changeType")}
+            </Button>
+          </Can>
+          <Can action="update" resource="video_library">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBulkAction("rename")}
+            >
+              <PencilLine className="h-4 w-4 mr-2" />
+              {t("videoLibrary.rename")}
+            </Button>
+          </Can>
+          <Can action="delete" resource="video_library">
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-600 hover:text-red-600"
+              onClick={() => setBulkAction("permanentDelete")}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {t("videoLibrary.deleteForever")}
+            </Button>
+          </Can>
+        </div>
+      </div>
+    );
+
+  const renderUsageButton = (video: VideoLibrary) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      title={t("videoLibrary.showUsage")}
+      onClick={() => setUsageVideo(video)}
+    >
+      <Link2 className="h-4 w-4 mr-2" />
+      {video.usageCount === undefined
+        ? t("videoLibrary.view")
+        : video.usageCount === 0
+          ? t("videoLibrary.unused")
+          : video.usageCount === 1
+            ? t("videoLibrary.onePlace")
+            : t("videoLibrary.places", { count: video.usageCount })}
+    </Button>
+  );
+
+  const renderActions = (video: VideoLibrary) => (
+    <>
+      <Button variant="ghost" size="sm" onClick={() => handlePreview(video)}>
+        <Eye className="h-4 w-4 mr-2" />
+        {t("common.preview")}
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => handleDownload(video)}>
+        <Download className="h-4 w-4 mr-2" />
+        {t("common.download")}
+      </Button>
+      <Can action="delete" resource="video_library">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-600 hover:text-red-600"
+          onClick={() => handleSoftDelete(video)}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          {t("common.delete")}
+        </Button>
+      </Can>
+    </>
+  );
+
   const formatDate = (dateString: string | Date) => {
     const date =
       typeof dateString === "string" ? new Date(dateString) : dateString;
-    return date.toLocaleDateString("en-US", {
+    return date.toLocaleDateString(language, {
       year: "numeric",
       month: "short",
       day: "numeric",
@@ -177,7 +420,7 @@ export function VideosLibraryPage() {
     });
   };
 
-  const getEntityTypeBadge = (entityType: string) => {
+  const getEntityTypeBadge = (entityType: VideoLibrary["entityType"]) => {
     const variants = {
       course: "default",
       lesson: "secondary",
@@ -187,32 +430,17 @@ export function VideosLibraryPage() {
       <Badge
         variant={variants[entityType as keyof typeof variants] || "outline"}
       >
-        {entityType}
+        {t(ENTITY_TYPE_LABELS[entityType])}
       </Badge>
     );
   };
 
-  const handleSearch = (value: string) => {
-    setSearchTerm(value);
-    setCurrentPage(1); // Reset to first page when searching
-  };
-
-  const handleFilterChange = (filterType: string, value: string) => {
-    if (filterType === "entityType") {
-      setEntityTypeFilter(value as "all" | "lesson" | "course");
-    } else if (filterType === "status") {
-      setStatusFilter(value as "all" | "active" | "inactive");
-    }
-    setCurrentPage(1); // Reset to first page when filtering
-  };
-
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    updateFilters({ page });
   };
 
   const handlePageSizeChange = (size: string) => {
-    setPageSize(parseInt(size));
-    setCurrentPage(1); // Reset to first page when changing page size
+    updateFilters({ limit: parseInt(size) });
   };
 
   if (isLoading) {
@@ -220,7 +448,7 @@ export function VideosLibraryPage() {
       <div className="space-y-6">
         <div className="text-center py-8">
           <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
-          <p className="text-gray-500">Loading videos...</p>
+          <p className="text-gray-500">{t("videoLibrary.loading")}</p>
         </div>
       </div>
     );
@@ -231,22 +459,26 @@ export function VideosLibraryPage() {
       {/* Header */}
       <div className="flex flex-col lg:flex-row justify-between items-center gap-4">
         <div>
-          <h1 className="text-3xl font-bold">Video Library</h1>
+          <h1 className="text-3xl font-bold">{t("videoLibrary.title")}</h1>
           <p className="text-gray-600">
-            Manage and organize your video files for courses and lessons.
+            {t("videoLibrary.subtitle")}
           </p>
         </div>
-        <Button onClick={() => setIsUploadDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Upload Video
-        </Button>
+        <Can action="create" resource="video_library" mode="disable">
+          <Button onClick={() => setIsUploadDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("videoLibrary.upload")}
+          </Button>
+        </Can>
       </div>
 
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Videos</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("videoLibrary.totalVideos")}
+            </CardTitle>
             <FileVideo className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -258,7 +490,9 @@ export function VideosLibraryPage() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Videos</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("videoLibrary.activeVideos")}
+            </CardTitle>
             <Play className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -271,7 +505,9 @@ export function VideosLibraryPage() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Size</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("videoLibrary.totalSize")}
+            </CardTitle>
             <HardDrive className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -288,7 +524,9 @@ export function VideosLibraryPage() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">This Page</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("videoLibrary.thisPage")}
+            </CardTitle>
             <RefreshCw className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -300,199 +538,224 @@ export function VideosLibraryPage() {
       </div>
 
       {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Filter className="h-5 w-5" />
-            Filters
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-col lg:flex-row gap-4">
-            <div className="flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder="Search videos by name..."
-                  value={searchTerm}
-                  onChange={(e) => handleSearch(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-            </div>
+      <VideoLibraryFilterPanel filters={filters} onChange={updateFilters} />
 
-            <Select
-              value={entityTypeFilter}
-              onValueChange={(value) => handleFilterChange("entityType", value)}
+      {/* Videos */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t("videoLibrary.videos")}</CardTitle>
+            <CardDescription>
+              {t("videoLibrary.videosDescription")}
+            </CardDescription>
+          </div>
+          <div className="flex items-center rounded-md border p-0.5">
+            <Button
+              variant={filters.view === "table" ? "secondary" : "ghost"}
+              size="sm"
+              title={t("videoLibrary.tableView")}
+              aria-pressed={filters.view === "table"}
+              onClick={() => updateFilters({ view: "table" })}
             >
-              <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Entity Type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Types</SelectItem>
-                <SelectItem value="course">Course</SelectItem>
-                <SelectItem value="lesson">Lesson</SelectItem>
-              </SelectContent>
-            </Select>
-
-            <Select
-              value={statusFilter}
-              onValueChange={(value) => handleFilterChange("status", value)}
+              <List className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={filters.view === "grid" ? "secondary" : "ghost"}
+              size="sm"
+              title={t("videoLibrary.gridView")}
+              aria-pressed={filters.view === "grid"}
+              onClick={() => updateFilters({ view: "grid" })}
             >
-              <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="Status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="inactive">Inactive</SelectItem>
-              </SelectContent>
-            </Select>
+              <LayoutGrid className="h-4 w-4" />
+            </Button>
           </div>
-        </CardContent>
-      </Card>
-
-      {/* Videos Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Videos</CardTitle>
-          <CardDescription>Manage your video library files</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {renderBulkToolbar()}
           {videosData?.data?.docs?.length === 0 ? (
             <div className="text-center py-8">
               <FileVideo className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                No videos found
+                {t("videoLibrary.notFound")}
               </h3>
               <p className="text-gray-500 mb-4">
-                {searchTerm ||
-                entityTypeFilter !== "all" ||
-                statusFilter !== "all"
-                  ? "Try adjusting your search or filters."
-                  : "Get started by uploading your first video."}
+                {activeFilterCount > 0
+                  ? t("videoLibrary.adjustFilters")
+                  : t("videoLibrary.getStarted")}
               </p>
-              {!searchTerm &&
-                entityTypeFilter === "all" &&
-                statusFilter === "all" && (
+              {activeFilterCount === 0 && (
+                <Can action="create" resource="video_library">
                   <Button onClick={() => setIsUploadDialogOpen(true)}>
                     <Plus className="h-4 w-4 mr-2" />
-                    Upload Video
+                    {t("videoLibrary.upload")}
                   </Button>
-                )}
+                </Can>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Name</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Entity Type</TableHead>
-                    <TableHead>Size</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Uploaded By</TableHead>
-                    <TableHead>Created</TableHead>
-                    <TableHead className="w-[50px]">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
+              {filters.view === "grid" ? (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
                   {videosData?.data?.docs?.map((video) => (
-                    <TableRow key={video._id}>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          {getFileIcon()}
-                          <div>
-                            <div className="font-medium">{video.name}</div>
-                            <div className="text-sm text-gray-500">
-                              {video.videoType}
+                    <VideoGridCard
+                      key={video._id}
+                      video={video}
+                      onOpen={() => handlePreview(video)}
+                      selected={!!selectedVideos[video._id]}
+                      onSelectedChange={(selected) =>
+                        setVideoSelected(video, selected)
+                      }
+                      details={
+                        <>
+                          <div className="truncate text-sm text-gray-500">
+                            {getVideoDetails(video)}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            {getEntityTypeBadge(video.entityType)}
+                            <Badge
+                              variant={video.isActive ? "default" : "secondary"}
+                            >
+                              {video.isActive
+                                ? t("videoLibrary.active")
+                                : t("videoLibrary.inactive")}
+                            </Badge>
+                            <span className="text-gray-500">
+                              {video.fileSize
+                                ? videoLibraryService.formatBytes(video.fileSize)
+                                : t("common.unknown")}
+                            </span>
+                          </div>
+                          <div className="-ms-3">{renderUsageButton(video)}</div>
+                        </>
+                      }
+                      actions={renderActions(video)}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]">
+                        <Checkbox
+                          aria-label={t("videoLibrary.selectPage")}
+                          checked={
+                            isPageSelected ||
+                            (isPagePartlySelected && "indeterminate")
+                          }
+                          onCheckedChange={(checked) =>
+                            setPageSelected(checked === true)
+                          }
+                        />
+                      </TableHead>
+                      <TableHead>{t("common.name")}</TableHead>
+                      <TableHead>{t("common.type")}</TableHead>
+                      <TableHead>{t("videoLibrary.entityType")}</TableHead>
+                      <TableHead>{t("common.size")}</TableHead>
+                      <TableHead>{t("common.status")}</TableHead>
+                      <TableHead>{t("videoLibrary.usedIn")}</TableHead>
+                      <TableHead>{t("videoLibrary.uploadedBy")}</TableHead>
+                      <TableHead>{t("common.created")}</TableHead>
+                      <TableHead className="w-[50px]">
+                        {t("common.actions")}
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {videosData?.data?.docs?.map((video) => (
+                      <TableRow
+                        key={video._id}
+                        data-state={
+                          selectedVideos[video._id] ? "selected" : undefined
+                        }
+                      >
+                        <TableCell>
+                          <Checkbox
+                            aria-label={t("videoLibrary.selectVideo", {
+                              name: video.name,
+                            })}
+                            checked={!!selectedVideos[video._id]}
+                            onCheckedChange={(checked) =>
+                              setVideoSelected(video, checked === true)
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            {renderThumbnail(video)}
+                            <div>
+                              <div className="font-medium">{video.name}</div>
+                              <div className="text-sm text-gray-500">
+                                {getVideoDetails(video)}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline">
-                          {videoLibraryService.getVideoExtension(
-                            video.videoUrl
-                          )}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {getEntityTypeBadge(video.entityType)}
-                      </TableCell>
-                      <TableCell>
-                        {video.fileSize
-                          ? videoLibraryService.formatBytes(video.fileSize)
-                          : "Unknown"}
-                      </TableCell>
-                      <TableCell>
-                        <Badge
-                          variant={video.isActive ? "default" : "secondary"}
-                        >
-                          {video.isActive ? "Active" : "Inactive"}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <User className="h-4 w-4 text-gray-400" />
-                          <span className="text-sm">
-                            {video.uploadedBy.userName}
-                          </span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4 text-gray-400" />
-                          <span className="text-sm">
-                            {formatDate(video.createdAt)}
-                          </span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handlePreview(video)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {videoLibraryService.getVideoExtension(
+                              video.videoUrl
+                            )}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {getEntityTypeBadge(video.entityType)}
+                        </TableCell>
+                        <TableCell>
+                          {video.fileSize
+                            ? videoLibraryService.formatBytes(video.fileSize)
+                            : t("common.unknown")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={video.isActive ? "default" : "secondary"}
                           >
-                            <Eye className="h-4 w-4 mr-2" />
-                            Preview
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDownload(video)}
-                          >
-                            <Download className="h-4 w-4 mr-2" />
-                            Download
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="text-red-600 hover:text-red-600"
-                            onClick={() => handleSoftDelete(video)}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                            {video.isActive
+                              ? t("videoLibrary.active")
+                              : t("videoLibrary.inactive")}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{renderUsageButton(video)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <User className="h-4 w-4 text-gray-400" />
+                            <span className="text-sm">
+                              {video.uploadedBy.userName}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Calendar className="h-4 w-4 text-gray-400" />
+                            <span className="text-sm">
+                              {formatDate(video.createdAt)}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {renderActions(video)}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
 
               {/* Pagination */}
               {videosData?.data && (
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <span className="text-sm text-gray-700">
-                      Showing {(currentPage - 1) * pageSize + 1} to{" "}
-                      {Math.min(
-                        currentPage * pageSize,
-                        videosData.data.totalDocs
-                      )}{" "}
-                      of {videosData.data.totalDocs} videos
+                      {t("videoLibrary.showingVideos", {
+                        from: (currentPage - 1) * pageSize + 1,
+                        to: Math.min(
+                          currentPage * pageSize,
+                          videosData.data.totalDocs
+                        ),
+                        total: videosData.data.totalDocs,
+                      })}
                     </span>
                     <Select
                       value={pageSize.toString()}
@@ -517,10 +780,13 @@ export function VideosLibraryPage() {
                       onClick={() => handlePageChange(currentPage - 1)}
                       disabled={!videosData.data.hasPrevPage}
                     >
-                      Previous
+                      {t("common.previous")}
                     </Button>
                     <span className="text-sm">
-                      Page {currentPage} of {videosData.data.totalPages}
+                      {t("common.pageOf", {
+                        page: currentPage,
+                        total: videosData.data.totalPages,
+                      })}
                     </span>
                     <Button
                       variant="outline"
@@ -528,7 +794,7 @@ export function VideosLibraryPage() {
                       onClick={() => handlePageChange(currentPage + 1)}
                       disabled={!videosData.data.hasNextPage}
                     >
-                      Next
+                      {t("common.next")}
                     </Button>
                   </div>
                 </div>
@@ -551,37 +817,44 @@ export function VideosLibraryPage() {
           <DialogHeader>
             <DialogTitle>{selectedVideo?.name}</DialogTitle>
             <DialogDescription>
-              Video Preview - {selectedVideo?.videoType}
+              {t("videoLibrary.previewDescription", {
+                type: selectedVideo?.videoType ?? "",
+              })}
             </DialogDescription>
           </DialogHeader>
           {previewUrl && (
             <div className="space-y-4">
               <video
                 src={previewUrl}
+                poster={selectedVideo?.thumbnailUrl}
                 controls
                 className="w-full rounded-lg"
                 style={{ maxHeight: "60vh" }}
               />
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <strong>File Size:</strong>{" "}
+                  <strong>{t("videoLibrary.fileSizeLabel")}</strong>{" "}
                   {selectedVideo?.fileSize
                     ? videoLibraryService.formatBytes(selectedVideo.fileSize)
-                    : "Unknown"}
+                    : t("common.unknown")}
                 </div>
                 <div>
-                  <strong>Entity Type:</strong> {selectedVideo?.entityType}
+                  <strong>{t("videoLibrary.entityTypeLabel")}</strong>{" "}
+                  {selectedVideo &&
+                    t(ENTITY_TYPE_LABELS[selectedVideo.entityType])}
                 </div>
                 <div>
-                  <strong>Created:</strong>{" "}
+                  <strong>{t("videoLibrary.createdLabel")}</strong>{" "}
                   {selectedVideo && formatDate(selectedVideo.createdAt)}
                 </div>
                 <div>
-                  <strong>Status:</strong>{" "}
+                  <strong>{t("videoLibrary.statusLabel")}</strong>{" "}
                   <Badge
                     variant={selectedVideo?.isActive ? "default" : "secondary"}
                   >
-                    {selectedVideo?.isActive ? "Active" : "Inactive"}
+                    {selectedVideo?.isActive
+                      ? t("videoLibrary.active")
+                      : t("videoLibrary.inactive")}
                   </Badge>
                 </div>
               </div>
@@ -590,6 +863,17 @@ export function VideosLibraryPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Bulk Action Dialog */}
+      <BulkVideoActionDialog
+        actionType={bulkAction}
+        videos={selectedList}
+        onClose={() => setBulkAction(null)}
+        onFinished={handleBulkFinished}
+      />
+
+      {/* Usage Panel */}
+      <VideoUsageSheet video={usageVideo} onClose={() => setUsageVideo(null)} />
+
       {/* Delete Video Alert Dialog */}
       <AlertDialog
         open={isDeleteDialogOpen}
@@ -597,19 +881,80 @@ export function VideosLibraryPage() {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Video</AlertDialogTitle>
+            <AlertDialogTitle>{t("videoLibrary.deleteTitle")}</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{selectedVideo?.name}"? This
-              action will mark the video as inactive.
+              {t("videoLibrary.deleteDescription", {
+                name: selectedVideo?.name ?? "",
+              })}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {isLoadingDeleteUsage ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t("videoLibrary.checkingVideoUsage")}
+            </div>
+          ) : isDeleteUsageError ? (
+            // Unknown usage must not read as "not used"
+            <div className="space-y-3 rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-900">
+              <div className="flex gap-2">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                <p>{t("videoLibrary.videoUsageCheckFailed")}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetchDeleteUsage()}
+              >
+                {t("videoLibrary.retryUsageCheck")}
+              </Button>
+            </div>
+          ) : (
+            deleteUsageCount > 0 && (
+              <div className="space-y-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+                <div className="flex gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <p>
+                    {deleteUsageCount === 1
+                      ? t("videoLibrary.videoUsedOnce")
+                      : t("videoLibrary.videoUsed", {
+                          count: deleteUsageCount,
+                        })}{" "}
+                    <button
+                      type="button"
+                      className="font-medium underline"
+                      onClick={() => {
+                        setIsDeleteDialogOpen(false);
+                        setUsageVideo(selectedVideo);
+                      }}
+                    >
+                      {t("videoLibrary.seeWhere")}
+                    </button>
+                  </p>
+                </div>
+                <label className="flex items-center gap-2">
+                  <Checkbox
+                    checked={deleteAcknowledged}
+                    onCheckedChange={(checked) =>
+                      setDeleteAcknowledged(checked === true)
+                    }
+                  />
+                  {t("videoLibrary.deleteAnyway")}
+                </label>
+              </div>
+            )
+          )}
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
             <AlertDialogAction
               onClick={confirmSoftDelete}
+              disabled={
+                isLoadingDeleteUsage ||
+                isDeleteUsageError ||
+                (deleteUsageCount > 0 && !deleteAcknowledged)
+              }
               className="bg-red-600 hover:bg-red-700"
             >
-              Delete
+              {t("common.delete")}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -18,6 +18,47 @@ export const setTokenExpirationHandler = (handler: () => void) => {
   tokenExpirationHandler = handler
 }
 
+// Token refresh handler - resolves with the new token, rejects if refresh failed
+let tokenRefreshHandler: (() => Promise<string>) | null = null
+
+export const setTokenRefreshHandler = (handler: () => Promise<string>) => {
+  tokenRefreshHandler = handler
+}
+
+const REFRESH_ENDPOINT = "/auth/refresh"
+
+// Single-flight refresh state: requests that hit a 401 while a refresh is
+// in progress wait here and are replayed once the new token arrives
+let isRefreshing = false
+let pendingRequests: Array<{
+  resolve: (token: string) => void
+  reject: (error: unknown) => void
+}> = []
+
+const flushPendingRequests = (error: unknown, token: string | null) => {
+  pendingRequests.forEach(({ resolve, reject }) => {
+    if (token) {
+      resolve(token)
+    } else {
+      reject(error)
+    }
+  })
+  pendingRequests = []
+}
+
+const handleSessionExpired = () => {
+  // Token expired or invalid - clear auth state and redirect
+  localStorage.removeItem("admin_token")
+
+  // Call the token expiration handler if set
+  if (tokenExpirationHandler) {
+    tokenExpirationHandler()
+  }
+
+  // Redirect to login page
+  window.location.href = "/login"
+}
+
 // Create axios instance
 const createApiInstance = (): AxiosInstance => {
   const instance = axios.create({
@@ -43,20 +84,54 @@ const createApiInstance = (): AxiosInstance => {
   // Response interceptor for handling errors
   instance.interceptors.response.use(
     (response: any) => response,
-    (error: AxiosError) => {
-      if (error.response?.status === 401) {
-        // Token expired or invalid - clear auth state and redirect
-        localStorage.removeItem("admin_token")
-
-        // Call the token expiration handler if set
-        if (tokenExpirationHandler) {
-          tokenExpirationHandler()
-        }
-
-        // Redirect to login page
-        window.location.href = "/login"
+    async (error: AxiosError) => {
+      const originalRequest: any = error.config
+
+      if (error.response?.status !== 401 || !originalRequest) {
+        return Promise.reject(error)
+      }
+
+      // The refresh call itself failed - the refresh flow below logs out
+      if (originalRequest.url?.endsWith(REFRESH_ENDPOINT)) {
+        return Promise.reject(error)
+      }
+
+      // No session to refresh, or a replayed request was rejected again
+      if (
+        !tokenRefreshHandler ||
+        !localStorage.getItem("admin_token") ||
+        originalRequest._retry
+      ) {
+        handleSessionExpired()
+        return Promise.reject(error)
+      }
+
+      originalRequest._retry = true
+
+      // A refresh is already running - wait for it, then replay
+      if (isRefreshing) {
+        return new Promise((resolve, reject) => {
+          pendingRequests.push({ resolve, reject })
+        }).then((token) => {
+          originalRequest.headers.Authorization = `Bearer ${token}`
+          return instance(originalRequest)
+        })
+      }
+
+      isRefreshing = true
+
+      try {
+        const token = await tokenRefreshHandler()
+        flushPendingRequests(null, token)
+        originalRequest.headers.Authorization = `Bearer ${token}`
+        return instance(originalRequest)
+      } catch (refreshError) {
+        flushPendingRequests(refreshError, null)
+        handleSessionExpired()
+        return Promise.reject(refreshError)
+      } finally {
+        isRefreshing = false
       }
-      return Promise.reject(error)
     }
   )
 
@@ -0,0 +1,25 @@
+import type {
+  ApiResponse,
+  AuditLogEntry,
+  AuditLogQueryParams,
+  CreateAuditLogInput,
+  PaginatedResponse,
+} from '../types/api';
+import { apiGet, apiGetPaginated, apiPost } from './api';
+
+const AUDIT_LOG_BASE_PATH = '/dashboard/audit-logs';
+
+// Get audit log entries with pagination and filters
+export const getAuditLogs = async (params: AuditLogQueryParams = {}): Promise<PaginatedResponse<AuditLogEntry>> => {
+  return apiGetPaginated<AuditLogEntry>(AUDIT_LOG_BASE_PATH, params);
+};
+
+// Get a single audit log entry
+export const getAuditLogById = async (id: string): Promise<ApiResponse<AuditLogEntry>> => {
+  return apiGet<AuditLogEntry>(`${AUDIT_LOG_BASE_PATH}/${id}`);
+};
+
+// Record an audit log entry
+export const createAuditLog = async (data: CreateAuditLogInput): Promise<ApiResponse<AuditLogEntry>> => {
+  return apiPost<AuditLogEntry>(AUDIT_LOG_BASE_PATH, data);
+};
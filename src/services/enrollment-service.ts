@@ -37,6 +37,35 @@ export class EnrollmentService {
     return await apiGet<{ enrollments: Enrollment[]; pagination: any }>(`${this.baseUrl}/all?${searchParams.toString()}`)
   }
 
+  /**
+   * Get every enrollment created within a date range by walking all pages (admin only)
+   */
+  async getEnrollmentsInRange(
+    startDate?: string,
+    endDate?: string,
+    pageSize: number = 100
+  ): Promise<Enrollment[]> {
+    const enrollments: Enrollment[] = []
+    let page = 1
+    let totalPages = 1
+
+    do {
+      const response = await this.getAllEnrollments({ page, limit: pageSize, startDate, endDate })
+      enrollments.push(...(response.data?.enrollments || []))
+      totalPages = response.data?.pagination?.totalPages || 1
+      page++
+    } while (page <= totalPages)
+
+    return enrollments
+  }
+
+  /**
+   * Get a single enrollment (admin only)
+   */
+  async getEnrollmentById(enrollmentId: string): Promise<ApiResponse<Enrollment>> {
+    return await apiGet<Enrollment>(`${this.baseUrl}/${enrollmentId}`)
+  }
+
   /**
    * Get enrollment statistics (admin only)
    */
@@ -0,0 +1,64 @@
+import type { PaginationParams } from '../types/api';
+import { apiGetPaginated } from './api';
+
+export interface ExportPage<T> {
+  items: T[];
+  totalPages: number;
+  totalItems?: number;
+}
+
+// Loads one page of rows for an export
+export type ExportPageFetcher<T> = (page: number, limit: number) => Promise<ExportPage<T>>;
+
+const DEFAULT_EXPORT_PAGE_SIZE = 100;
+
+// Upper bound requested from limit-only endpoints such as leaderboards
+export const FULL_LIST_EXPORT_LIMIT = 1000;
+
+// Page fetcher for any list endpoint served through apiGetPaginated
+export const paginatedSource = <T>(
+  url: string,
+  params: PaginationParams = {}
+): ExportPageFetcher<T> => {
+  return async (page, limit) => {
+    const response = await apiGetPaginated<T>(url, { ...params, page, limit });
+    return {
+      items: response.data?.items || [],
+      totalPages: response.data?.pagination?.totalPages || 1,
+      totalItems: response.data?.pagination?.totalItems,
+    };
+  };
+};
+
+// Page fetcher for endpoints that return the whole list in one response
+export const singlePageSource = <T>(load: () => Promise<T[]>): ExportPageFetcher<T> => {
+  return async () => {
+    const items = await load();
+    return { items, totalPages: 1, totalItems: items.length };
+  };
+};
+
+/**
+ * Walks every page of a list, yielding each page as soon as it arrives
+ * @param fetchPage - Loads a single page
+ * @param options.pageSize - Rows requested per page
+ * @param options.signal - Aborts between pages when the export is cancelled
+ */
+export async function* streamPages<T>(
+  fetchPage: ExportPageFetcher<T>,
+  options: { pageSize?: number; signal?: AbortSignal } = {}
+): AsyncGenerator<ExportPage<T> & { page: number }> {
+  const pageSize = options.pageSize || DEFAULT_EXPORT_PAGE_SIZE;
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    if (options.signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
+    const result = await fetchPage(page, pageSize);
+    totalPages = result.totalPages;
+    yield { ...result, page };
+    page++;
+  } while (page <= totalPages);
+}
@@ -0,0 +1,174 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  isAbortError,
+  MultipartUploadService,
+  type MultipartUploadApi,
+} from "./multipart-upload-service"
+
+const PART_SIZE = 4
+
+const createFile = (size: number) =>
+  new File(["x".repeat(size)], "lecture.mp4", {
+    type: "video/mp4",
+    lastModified: 1,
+  })
+
+const createApi = (
+  overrides: Partial<MultipartUploadApi> = {}
+): MultipartUploadApi => ({
+  initiate: vi.fn(async () => ({ uploadId: "upload-1", key: "videos/lecture.mp4" })),
+  getPartUrls: vi.fn<MultipartUploadApi["getPartUrls"]>(
+    async (_key, _uploadId, partNumbers) =>
+      partNumbers.map((partNumber) => ({ partNumber, url: `url-${partNumber}` }))
+  ),
+  listParts: vi.fn(async () => []),
+  complete: vi.fn<MultipartUploadApi["complete"]>(async (key) => ({ key })),
+  abort: vi.fn(async () => {}),
+  ...overrides,
+})
+
+const uploadOptions = (api: MultipartUploadApi) => ({
+  uploadType: "video" as const,
+  partSize: PART_SIZE,
+  maxRetries: 0,
+  api,
+})
+
+describe("MultipartUploadService.upload", () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("uploads every part and completes them in order", async () => {
+    const api = createApi()
+    vi.spyOn(MultipartUploadService, "uploadPart").mockImplementation(
+      async (url) => `etag-${url}`
+    )
+
+    const result = await MultipartUploadService.upload(
+      createFile(10),
+      uploadOptions(api)
+    )
+
+    expect(result.key).toBe("videos/lecture.mp4")
+    expect(api.complete).toHaveBeenCalledWith("videos/lecture.mp4", "upload-1", [
+      { partNumber: 1, etag: "etag-url-1" },
+      { partNumber: 2, etag: "etag-url-2" },
+      { partNumber: 3, etag: "etag-url-3" },
+    ])
+    expect(MultipartUploadService.getResumableUpload(createFile(10))).toBeNull()
+  })
+
+  it("resumes with the parts the backend already has", async () => {
+    const file = createFile(10)
+    const api = createApi()
+    vi.spyOn(MultipartUploadService, "uploadPart").mockImplementation(
+      async (url) => {
+        if (url === "url-3") throw new Error("Part upload failed")
+        return `etag-${url}`
+      }
+    )
+    await expect(
+      MultipartUploadService.upload(file, uploadOptions(api))
+    ).rejects.toThrow("Part upload failed")
+
+    const uploadPart = vi
+      .spyOn(MultipartUploadService, "uploadPart")
+      .mockImplementation(async (url) => `etag-${url}`)
+    const resumedApi = createApi({
+      listParts: vi.fn(async () => [
+        { partNumber: 1, etag: "etag-url-1" },
+        { partNumber: 2, etag: "etag-url-2" },
+      ]),
+    })
+    await MultipartUploadService.upload(file, uploadOptions(resumedApi))
+
+    expect(resumedApi.initiate).not.toHaveBeenCalled()
+    expect(uploadPart).toHaveBeenCalledTimes(1)
+    expect(uploadPart.mock.calls[0][0]).toBe("url-3")
+  })
+
+  it("stops the other parts when one part fails", async () => {
+    const api = createApi()
+    const signals: AbortSignal[] = []
+    vi.spyOn(MultipartUploadService, "uploadPart").mockImplementation(
+      (url, _body, _onProgress, signal) => {
+        if (url === "url-1") return Promise.reject(new Error("Forbidden"))
+        signals.push(signal!)
+        return new Promise((_resolve, reject) =>
+          signal!.addEventListener("abort", () =>
+            reject(new DOMException("Upload was aborted", "AbortError"))
+          )
+        )
+      }
+    )
+
+    await expect(
+      MultipartUploadService.upload(createFile(10), {
+        ...uploadOptions(api),
+        concurrency: 3,
+      })
+    ).rejects.toThrow("Forbidden")
+    expect(signals).toHaveLength(2)
+    expect(signals.every((signal) => signal.aborted)).toBe(true)
+    expect(api.complete).not.toHaveBeenCalled()
+  })
+
+  it("pauses when the caller aborts and keeps the upload resumable", async () => {
+    const api = createApi()
+    const controller = new AbortController()
+    vi.spyOn(MultipartUploadService, "uploadPart").mockImplementation(
+      async (url) => {
+        if (url === "url-2") controller.abort()
+        return `etag-${url}`
+      }
+    )
+
+    const error = await MultipartUploadService.upload(createFile(10), {
+      ...uploadOptions(api),
+      concurrency: 1,
+      signal: controller.signal,
+    }).catch((error: unknown) => error)
+
+    expect(isAbortError(error)).toBe(true)
+    expect(api.complete).not.toHaveBeenCalled()
+    expect(
+      MultipartUploadService.getResumableUpload(createFile(10))?.uploadedBytes
+    ).toBe(8)
+  })
+
+  it("asks for part URLs again after a failed batch", async () => {
+    const getPartUrls = vi
+      .fn<MultipartUploadApi["getPartUrls"]>()
+      .mockRejectedValueOnce(new Error("Network Error"))
+      .mockImplementation(async (_key, _uploadId, partNumbers) =>
+        partNumbers.map((partNumber) => ({ partNumber, url: `url-${partNumber}` }))
+      )
+    const api = createApi({ getPartUrls })
+    vi.spyOn(MultipartUploadService, "uploadPart").mockImplementation(
+      async (url) => `etag-${url}`
+    )
+    vi.useFakeTimers()
+
+    try {
+      const upload = MultipartUploadService.upload(createFile(10), {
+        ...uploadOptions(api),
+        concurrency: 1,
+        maxRetries: 1,
+      })
+      await vi.runAllTimersAsync()
+      await upload
+    } finally {
+      vi.useRealTimers()
+    }
+
+    expect(getPartUrls).toHaveBeenCalledTimes(2)
+    expect(getPartUrls.mock.calls[1][2]).toEqual([1, 2, 3])
+    expect(api.complete).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,470 @@
+import { t } from "@/i18n"
+import { apiPost } from "./api"
+import type {
+  PresignedUrlRequest,
+  UploadProgress,
+  UploadResult,
+} from "./upload-service"
+
+export interface MultipartUploadPart {
+  partNumber: number
+  etag: string
+}
+
+export interface InitiateMultipartUploadRequest extends PresignedUrlRequest {
+  partSize: number
+  partCount: number
+}
+
+export interface InitiateMultipartUploadResponse {
+  uploadId: string
+  key: string
+}
+
+export interface PresignedPartUrl {
+  partNumber: number
+  url: string
+}
+
+/**
+ * Backend calls used by the uploader. The default implementation talks to
+ * the dashboard API; pass another implementation to point the uploader at a
+ * local S3 mock.
+ */
+export interface MultipartUploadApi {
+  initiate(
+    request: InitiateMultipartUploadRequest
+  ): Promise<InitiateMultipartUploadResponse>
+  getPartUrls(
+    key: string,
+    uploadId: string,
+    partNumbers: number[]
+  ): Promise<PresignedPartUrl[]>
+  listParts(key: string, uploadId: string): Promise<MultipartUploadPart[]>
+  complete(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[]
+  ): Promise<{ key: string }>
+  abort(key: string, uploadId: string): Promise<void>
+}
+
+export const multipartUploadApi: MultipartUploadApi = {
+  async initiate(request) {
+    const response = await apiPost<InitiateMultipartUploadResponse>(
+      "/dashboard/upload/multipart/initiate",
+      request
+    )
+    return response.data!
+  },
+
+  async getPartUrls(key, uploadId, partNumbers) {
+    const response = await apiPost<{ urls: PresignedPartUrl[] }>(
+      "/dashboard/upload/multipart/part-urls",
+      { key, uploadId, partNumbers }
+    )
+    return response.data?.urls || []
+  },
+
+  async listParts(key, uploadId) {
+    const response = await apiPost<{ parts: MultipartUploadPart[] }>(
+      "/dashboard/upload/multipart/parts",
+      { key, uploadId }
+    )
+    return response.data?.parts || []
+  },
+
+  async complete(key, uploadId, parts) {
+    const response = await apiPost<{ key: string }>(
+      "/dashboard/upload/multipart/complete",
+      { key, uploadId, parts }
+    )
+    return response.data || { key }
+  },
+
+  async abort(key, uploadId) {
+    await apiPost("/dashboard/upload/multipart/abort", { key, uploadId })
+  },
+}
+
+// Upload state saved after every finished part so a reload can resume
+export interface PersistedMultipartUpload {
+  fingerprint: string
+  uploadId: string
+  key: string
+  fileName: string
+  fileSize: number
+  partSize: number
+  parts: MultipartUploadPart[]
+  updatedAt: number
+}
+
+export interface ResumableUploadInfo {
+  uploadedBytes: number
+  percentage: number
+}
+
+export interface MultipartUploadOptions {
+  uploadType: PresignedUrlRequest["uploadType"]
+  folder?: string
+  onProgress?: (progress: UploadProgress) => void
+  // Aborting pauses the upload; its state is kept so it can resume later
+  signal?: AbortSignal
+  partSize?: number
+  concurrency?: number
+  maxRetries?: number
+  api?: MultipartUploadApi
+}
+
+// Files at least this large are uploaded in parts
+export const MULTIPART_THRESHOLD = 100 * 1024 * 1024 // 100MB
+
+const STORAGE_KEY = "multipart-uploads"
+// Incomplete S3 uploads are usually cleaned up by a bucket lifecycle rule
+const STATE_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+const MIN_PART_SIZE = 10 * 1024 * 1024 // 10MB (S3 minimum is 5MB)
+const MAX_PARTS = 10000
+const PART_URL_BATCH_SIZE = 20
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_MAX_RETRIES = 3
+
+const createAbortError = () => new DOMException("Upload was aborted", "AbortError")
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError"
+
+const readUploads = (): Record<string, PersistedMultipartUpload> => {
+  try {
+    const uploads = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}")
+    const now = Date.now()
+    return Object.fromEntries(
+      Object.entries(uploads as Record<string, PersistedMultipartUpload>).filter(
+        ([, upload]) => now - upload.updatedAt < STATE_TTL_MS
+      )
+    )
+  } catch {
+    return {}
+  }
+}
+
+const writeUploads = (uploads: Record<string, PersistedMultipartUpload>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads))
+}
+
+const saveUpload = (upload: PersistedMultipartUpload) => {
+  writeUploads({
+    ...readUploads(),
+    [upload.fingerprint]: { ...upload, updatedAt: Date.now() },
+  })
+}
+
+const removeUpload = (fingerprint: string) => {
+  const uploads = readUploads()
+  delete uploads[fingerprint]
+  writeUploads(uploads)
+}
+
+// Identifies the same file picked again after a reload
+const getFileFingerprint = (file: File, folder?: string) =>
+  [folder || "", file.name, file.size, file.lastModified].join(":")
+
+const getPartSize = (fileSize: number) =>
+  Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS))
+
+const getPartBytes = (file: File, partSize: number, partNumber: number) =>
+  Math.min(partSize, file.size - (partNumber - 1) * partSize)
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError())
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+export class MultipartUploadService {
+  /**
+   * Upload one part with a presigned URL and return its ETag
+   */
+  static uploadPart(
+    url: string,
+    body: Blob,
+    onProgress?: (loaded: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError())
+
+      const xhr = new XMLHttpRequest()
+      const onAbort = () => xhr.abort()
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      xhr.upload.addEventListener("progress", (event) => {
+        onProgress?.(event.loaded)
+      })
+
+      xhr.addEventListener("load", () => {
+        signal?.removeEventListener("abort", onAbort)
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(
+            new Error(t("uploads.partStatusError", { status: xhr.status }))
+          )
+          return
+        }
+        // The bucket CORS configuration must expose the ETag header
+        const etag = xhr.getResponseHeader("ETag")
+        if (!etag) {
+          reject(new Error(t("uploads.missingEtag")))
+          return
+        }
+        resolve(etag)
+      })
+
+      xhr.addEventListener("error", () => {
+        signal?.removeEventListener("abort", onAbort)
+        reject(new Error(t("uploads.partNetworkError")))
+      })
+
+      xhr.addEventListener("abort", () => {
+        reject(createAbortError())
+      })
+
+      xhr.open("PUT", url)
+      xhr.send(body)
+    })
+  }
+
+  /**
+   * Upload a file in parts, resuming a previous attempt of the same file
+   * when one was interrupted
+   */
+  static async upload(
+    file: File,
+    options: MultipartUploadOptions
+  ): Promise<UploadResult> {
+    const api = options.api || multipartUploadApi
+    const concurrency = options.concurrency || DEFAULT_CONCURRENCY
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+    const { onProgress } = options
+    const fingerprint = getFileFingerprint(file, options.folder)
+
+    let state: PersistedMultipartUpload | null =
+      readUploads()[fingerprint] || null
+
+    if (state) {
+      // Trust S3 over local state: parts may have been lost or the upload aborted
+      try {
+        const uploadedParts = await api.listParts(state.key, state.uploadId)
+        state = { ...state, parts: uploadedParts }
+      } catch {
+        removeUpload(fingerprint)
+        state = null
+      }
+    }
+
+    if (!state) {
+      const partSize = options.partSize || getPartSize(file.size)
+      const { uploadId, key } = await api.initiate({
+        fileName: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+        uploadType: options.uploadType,
+        folder: options.folder,
+        partSize,
+        partCount: Math.ceil(file.size / partSize),
+      })
+      state = {
+        fingerprint,
+        uploadId,
+        key,
+        fileName: file.name,
+        fileSize: file.size,
+        partSize,
+        parts: [],
+        updatedAt: Date.now(),
+      }
+    }
+    saveUpload(state)
+
+    const upload = state
+    const partCount = Math.ceil(file.size / upload.partSize)
+    const completed = new Map(
+      upload.parts.map((part) => [part.partNumber, part.etag])
+    )
+    const pending: number[] = []
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (!completed.has(partNumber)) pending.push(partNumber)
+    }
+
+    // Progress across finished and in-flight parts
+    const startTime = Date.now()
+    const resumedBytes = upload.parts.reduce(
+      (total, part) =>
+        total + getPartBytes(file, upload.partSize, part.partNumber),
+      0
+    )
+    let completedBytes = resumedBytes
+    const inFlight = new Map<number, number>()
+
+    const reportProgress = () => {
+      let inFlightBytes = 0
+      inFlight.forEach((loaded) => (inFlightBytes += loaded))
+      const uploadedBytes = Math.min(file.size, completedBytes + inFlightBytes)
+      const elapsed = (Date.now() - startTime) / 1000
+      const speed = elapsed > 0 ? (uploadedBytes - resumedBytes) / elapsed : 0
+      onProgress?.({
+        percentage: Math.round((uploadedBytes / file.size) * 100),
+        uploadedBytes,
+        totalBytes: file.size,
+        startTime,
+        estimatedTimeRemaining:
+          speed > 0 ? (file.size - uploadedBytes) / speed : 0,
+        speed,
+      })
+    }
+    reportProgress()
+
+    // Stops the other parts when the caller pauses or one part gives up
+    const controller = new AbortController()
+    const signal = controller.signal
+    const abortParts = () => controller.abort()
+    if (options.signal?.aborted) abortParts()
+    options.signal?.addEventListener("abort", abortParts, { once: true })
+
+    // Part URLs are presigned in batches and refreshed after a failure
+    const partUrls = new Map<number, Promise<string>>()
+    const getPartUrl = (partNumber: number) => {
+      if (!partUrls.has(partNumber)) {
+        const batch = [partNumber, ...pending]
+          .filter((number, index, all) => all.indexOf(number) === index)
+          .filter((number) => number === partNumber || !partUrls.has(number))
+          .slice(0, PART_URL_BATCH_SIZE)
+        const request = api.getPartUrls(upload.key, upload.uploadId, batch)
+        batch.forEach((number) => {
+          const partUrl = request.then((urls) => {
+            const match = urls.find((url) => url.partNumber === number)
+            if (!match) throw new Error(t("uploads.missingPartUrl", { number }))
+            return match.url
+          })
+          // Most parts of a batch are awaited later, if at all; forget a
+          // failed URL right away so it is requested again when needed
+          partUrl.catch(() => {
+            if (partUrls.get(number) === partUrl) partUrls.delete(number)
+          })
+          partUrls.set(number, partUrl)
+        })
+      }
+      return partUrls.get(partNumber)!
+    }
+
+    const uploadPartWithRetry = async (partNumber: number) => {
+      const start = (partNumber - 1) * upload.partSize
+      const body = file.slice(start, start + upload.partSize)
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const url = await getPartUrl(partNumber)
+          const etag = await this.uploadPart(
+            url,
+            body,
+            (loaded) => {
+              inFlight.set(partNumber, loaded)
+              reportProgress()
+            },
+            signal
+          )
+          return etag
+        } catch (error) {
+          inFlight.delete(partNumber)
+          partUrls.delete(partNumber)
+          if (isAbortError(error) || attempt >= maxRetries) throw error
+          await sleep(1000 * 2 ** attempt, signal)
+        }
+      }
+    }
+
+    const worker = async () => {
+      try {
+        while (pending.length > 0) {
+          if (signal.aborted) throw createAbortError()
+          const partNumber = pending.shift()!
+          const etag = await uploadPartWithRetry(partNumber)
+          inFlight.delete(partNumber)
+          completed.set(partNumber, etag)
+          completedBytes += getPartBytes(file, upload.partSize, partNumber)
+          upload.parts = [...upload.parts, { partNumber, etag }]
+          saveUpload(upload)
+          reportProgress()
+        }
+      } catch (error) {
+        abortParts()
+        throw error
+      }
+    }
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, pending.length) }, worker)
+      )
+    } finally {
+      options.signal?.removeEventListener("abort", abortParts)
+    }
+    if (options.signal?.aborted) throw createAbortError()
+
+    const parts = Array.from(completed, ([partNumber, etag]) => ({
+      partNumber,
+      etag,
+    })).sort((a, b) => a.partNumber - b.partNumber)
+    const result = await api.complete(upload.key, upload.uploadId, parts)
+    removeUpload(fingerprint)
+
+    return {
+      downloadUrl: result.key,
+      key: result.key,
+      fileName: file.name,
+    }
+  }
+
+  /**
+   * How much of this file an interrupted upload already sent, if any
+   */
+  static getResumableUpload(
+    file: File,
+    folder?: string
+  ): ResumableUploadInfo | null {
+    const upload = readUploads()[getFileFingerprint(file, folder)]
+    if (!upload || upload.parts.length === 0) return null
+
+    const uploadedBytes = upload.parts.reduce(
+      (total, part) =>
+        total + getPartBytes(file, upload.partSize, part.partNumber),
+      0
+    )
+    return {
+      uploadedBytes,
+      percentage: Math.round((uploadedBytes / file.size) * 100),
+    }
+  }
+
+  /**
+   * Abort an interrupted upload on S3 and forget its local state
+   */
+  static async discard(
+    file: File,
+    folder?: string,
+    api: MultipartUploadApi = multipartUploadApi
+  ): Promise<void> {
+    const fingerprint = getFileFingerprint(file, folder)
+    const upload = readUploads()[fingerprint]
+    removeUpload(fingerprint)
+    if (upload) {
+      await api.abort(upload.key, upload.uploadId)
+    }
+  }
+}
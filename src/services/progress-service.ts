@@ -103,4 +103,22 @@ export const progressService = {
   async getProgressList(params?: ProgressQueryParams): Promise<PaginatedResponse<Progress>> {
     return await apiGetPaginated<Progress>('/dashboard/progress', params);
   },
+
+  // Walk every progress record of a course, handing over one page at a time
+  // so callers can aggregate without holding all of them (admin)
+  async forEachCourseProgressPage(
+    courseId: string,
+    onPage: (records: Progress[]) => void,
+    pageSize: number = 100
+  ): Promise<void> {
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getProgressList({ courseId, page, limit: pageSize });
+      onPage(response.data?.items || []);
+      totalPages = response.data?.pagination?.totalPages || 1;
+      page++;
+    } while (page <= totalPages);
+  },
 };
@@ -1,4 +1,9 @@
+import { t } from "@/i18n"
 import { apiPost } from "./api"
+import {
+  MULTIPART_THRESHOLD,
+  MultipartUploadService,
+} from "./multipart-upload-service"
 
 export interface PresignedUrlRequest {
   fileName: string
@@ -50,10 +55,16 @@ export class UploadService {
   static async uploadFile(
     file: File,
     presignedUrl: string,
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException("Upload was aborted", "AbortError"))
+        return
+      }
       const xhr = new XMLHttpRequest()
+      signal?.addEventListener("abort", () => xhr.abort(), { once: true })
       const startTime = Date.now()
       let lastProgressTime = startTime
       let lastUploadedBytes = 0
@@ -102,16 +113,16 @@ export class UploadService {
             fileName: file.name,
           })
         } else {
-          reject(new Error(`Upload failed with status: ${xhr.status}`))
+          reject(new Error(t("uploads.statusError", { status: xhr.status })))
         }
       })
 
       xhr.addEventListener("error", () => {
-        reject(new Error("Upload failed due to network error"))
+        reject(new Error(t("uploads.networkError")))
       })
 
       xhr.addEventListener("abort", () => {
-        reject(new Error("Upload was aborted"))
+        reject(new DOMException("Upload was aborted", "AbortError"))
       })
 
       xhr.open("PUT", presignedUrl)
@@ -127,7 +138,8 @@ export class UploadService {
     file: File,
     uploadType: "image" | "video" | "document" | "audio" | "general",
     folder?: string,
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
   ): Promise<UploadResult> {
     // Step 1: Get presigned URL
     const presignedUrlRequest: PresignedUrlRequest = {
@@ -144,7 +156,8 @@ export class UploadService {
     const result = await this.uploadFile(
       file,
       presignedUrlResponse.uploadUrl,
-      onProgress
+      onProgress,
+      signal
     )
 
     return {
@@ -154,6 +167,30 @@ export class UploadService {
     }
   }
 
+  /**
+   * Upload a file, switching to a resumable multipart upload for large files
+   */
+  static async upload(
+    file: File,
+    options: {
+      uploadType: PresignedUrlRequest["uploadType"]
+      folder?: string
+      onProgress?: (progress: UploadProgress) => void
+      signal?: AbortSignal
+    }
+  ): Promise<UploadResult> {
+    if (file.size >= MULTIPART_THRESHOLD) {
+      return MultipartUploadService.upload(file, options)
+    }
+    return this.uploadFileWithProgress(
+      file,
+      options.uploadType,
+      options.folder,
+      options.onProgress,
+      options.signal
+    )
+  }
+
   /**
    * Format bytes to human readable string
    */
@@ -211,23 +248,23 @@ export class UploadService {
    */
   static getFileTypeCategory(fileType: string): string {
     if (fileType.startsWith('image/')) {
-      return 'Image';
+      return t('files.typeImage');
     } else if (fileType.startsWith('video/')) {
-      return 'Video';
+      return t('files.typeVideo');
     } else if (fileType.startsWith('audio/')) {
-      return 'Audio';
+      return t('files.typeAudio');
     } else if (fileType.includes('pdf')) {
-      return 'PDF Document';
+      return t('files.typePdf');
     } else if (fileType.includes('word')) {
-      return 'Word Document';
+      return t('files.typeWord');
     } else if (fileType.includes('excel')) {
-      return 'Excel Spreadsheet';
+      return t('files.typeExcel');
     } else if (fileType.includes('powerpoint')) {
-      return 'PowerPoint Presentation';
+      return t('files.typePowerPoint');
     } else if (fileType.includes('text')) {
-      return 'Text File';
+      return t('files.typeText');
     } else {
-      return 'File';
+      return t('files.typeFile');
     }
   }
 }
@@ -1,14 +1,18 @@
+import { t } from '../i18n';
 import { apiGet, apiPost, apiPut, apiDelete } from './api';
 import { UploadService, type UploadProgress } from './upload-service';
+import { isAbortError } from './multipart-upload-service';
 import type { 
   ApiResponse, 
+  LocalizedVideoLibrary,
   VideoLibrary,
   VideoLibraryResponse,
   CreateVideoLibraryInput,
   UpdateVideoLibraryInput,
   VideoLibraryQueryParams,
   VideoLibraryStats,
-  VideoForSelect
+  VideoForSelect,
+  VideoUsage
 } from '../types/api';
 
 // Remove these interfaces as we'll use the UploadService instead
@@ -18,12 +22,19 @@ const VIDEO_LIBRARY_ENDPOINTS = {
   VIDEO_LIBRARY: 'dashboard/video-library',
   VIDEO_LIBRARY_BY_ID: (id: string) => `dashboard/video-library/${id}`,
   PRESIGNED_VIDEO_URL: (id: string) => `dashboard/video-library/${id}/video-url`,
+  VIDEO_USAGE: (id: string) => `dashboard/video-library/${id}/usage`,
   VIDEO_STATS: (entityType: string) => `dashboard/video-library/stats/${entityType}`,
   SEARCH_VIDEOS: 'dashboard/video-library/search',
   VIDEOS_FOR_SELECT: 'dashboard/video-library/select',
   PERMANENT_DELETE: (id: string) => `dashboard/video-library/${id}/permanent`,
 } as const;
 
+// Storage folder for uploaded lesson and course videos
+export const VIDEO_UPLOAD_FOLDER = 'videos';
+
+// Storage folder for poster frames captured before upload
+export const VIDEO_THUMBNAIL_FOLDER = 'video-thumbnails';
+
 // Video Library service functions
 export const videoLibraryService = {
 
@@ -60,6 +71,13 @@ export const videoLibraryService = {
     return apiGet<VideoLibrary>(VIDEO_LIBRARY_ENDPOINTS.VIDEO_LIBRARY_BY_ID(id), { params: queryParams });
   },
 
+  // Get video library by ID with its name in every language
+  async getLocalizedVideoLibraryById(id: string): Promise<ApiResponse<LocalizedVideoLibrary>> {
+    return apiGet<LocalizedVideoLibrary>(VIDEO_LIBRARY_ENDPOINTS.VIDEO_LIBRARY_BY_ID(id), {
+      params: { language: 'all' },
+    });
+  },
+
   // Get presigned video URL for a video
   async getPresignedVideoUrl(
     id: string,
@@ -72,6 +90,11 @@ export const videoLibraryService = {
     );
   },
 
+  // Get the lessons and free-course content items that reference a video
+  async getVideoUsage(id: string): Promise<ApiResponse<VideoUsage>> {
+    return apiGet<VideoUsage>(VIDEO_LIBRARY_ENDPOINTS.VIDEO_USAGE(id));
+  },
+
   // Update video library
   async updateVideoLibrary(
     id: string,
@@ -144,42 +167,35 @@ export const videoLibraryService = {
     return apiGet<VideoForSelect[]>(VIDEO_LIBRARY_ENDPOINTS.VIDEOS_FOR_SELECT, { params });
   },
 
-  // Upload video with progress tracking using the standard UploadService
+  // Upload video with progress tracking. Large files go through a resumable
+  // multipart upload; aborting the signal pauses it so it can resume later
   async uploadVideoWithProgress(
     file: File,
     _entityType: 'lesson' | 'course',
     _entityId?: string,
-    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
   ): Promise<{ downloadUrl: string; key: string }> {
     try {
-      // Use the standard UploadService for video uploads
       const uploadType = UploadService.getUploadType(file.type);
-      const folder = `videos`;
-
-      // Convert progress callback format to match UploadService
-      const uploadProgressCallback = onProgress ? (progress: UploadProgress) => {
-        onProgress({
-          loaded: progress.uploadedBytes,
-          total: progress.totalBytes,
-          percentage: progress.percentage,
-        });
-      } : undefined;
-
-      const result = await UploadService.uploadFileWithProgress(
-        file,
+      const folder = VIDEO_UPLOAD_FOLDER;
+
+      const result = await UploadService.upload(file, {
         uploadType,
         folder,
-        uploadProgressCallback
-      );
+        onProgress,
+        signal,
+      });
 
       return {
         downloadUrl: result.downloadUrl,
         key: result.key,
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error uploading video:', error);
       throw new Error(
-        error instanceof Error ? error.message : 'Failed to upload video'
+        error instanceof Error ? error.message : t('videoLibrary.uploadFailed')
       );
     }
   },
@@ -197,7 +213,8 @@ export const videoLibraryService = {
 
   // Get video extension from filename
   getVideoExtension(filename: string): string {
-    return filename.split('.').pop()?.toLowerCase() || '';
+    // Presigned URLs carry a query string after the extension
+    return filename.split('?')[0].split('.').pop()?.toLowerCase() || '';
   },
 
   // Validate video file type
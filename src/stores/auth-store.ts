@@ -2,7 +2,12 @@ import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import type { Admin } from "../types/api"
 import * as authService from "../services/auth-service"
-import { setTokenExpirationHandler } from "../services/api"
+import {
+  setTokenExpirationHandler,
+  setTokenRefreshHandler,
+} from "../services/api"
+import { broadcastAuthEvent } from "../lib/auth-sync"
+import { LAST_ACTIVITY_KEY } from "../lib/session-config"
 
 interface AuthState {
   admin: Admin | null
@@ -16,7 +21,7 @@ interface AuthState {
     userName?: string
     password: string
   }) => Promise<void>
-  logout: () => void
+  logout: (options?: { broadcast?: boolean }) => void
   setAdmin: (admin: Admin | null) => void
   setToken: (token: string | null) => void
   setLoading: (loading: boolean) => void
@@ -48,6 +53,7 @@ export const useAuthStore = create<AuthState>()(
               isAuthenticated: true,
               isLoading: false,
             })
+            broadcastAuthEvent("login")
           } else {
             throw new Error(response.message || "Login failed")
           }
@@ -57,14 +63,20 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      logout: () => {
+      logout: ({ broadcast = true } = {}) => {
         authService.clearAuth()
+        localStorage.removeItem(LAST_ACTIVITY_KEY)
         set({
           admin: null,
           token: null,
           isAuthenticated: false,
           isLoading: false,
         })
+
+        // Other open tabs share the token, so log them out too
+        if (broadcast) {
+          broadcastAuthEvent("logout")
+        }
       },
 
       setAdmin: (admin) => {
@@ -117,6 +129,17 @@ export const useAuthStore = create<AuthState>()(
             get().logout()
           })
 
+          // Set up silent token refresh used by the API client on 401
+          setTokenRefreshHandler(async () => {
+            const response = await authService.refreshToken()
+            if (!response.success || !response.data?.token) {
+              throw new Error(response.message || "Token refresh failed")
+            }
+            const { admin, token } = response.data
+            set({ token, ...(admin && { admin }) })
+            return token
+          })
+
           if (token) {
             // Verify token and get admin profile
             const response = await authService.getProfile()
@@ -0,0 +1,25 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { Language } from "../i18n"
+
+interface LanguageState {
+  language: Language
+
+  // Actions
+  setLanguage: (language: Language) => void
+}
+
+export const useLanguageStore = create<LanguageState>()(
+  persist(
+    (set) => ({
+      language: "en",
+
+      setLanguage: (language) => {
+        set({ language })
+      },
+    }),
+    {
+      name: "language-store",
+    }
+  )
+)
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { UploadService, type UploadResult } from "../services/upload-service"
+import { useUploadStore } from "./upload-store"
+
+const RESULT = { key: "videos/lecture.mp4" } as UploadResult
+
+const createFile = () =>
+  new File(["video"], "lecture.mp4", { type: "video/mp4", lastModified: 1 })
+
+// An upload that only finishes when the test says so
+const deferUpload = () => {
+  let finish!: (result: UploadResult) => void
+  const upload = vi
+    .spyOn(UploadService, "upload")
+    .mockImplementation(() => new Promise((resolve) => (finish = resolve)))
+  return { upload, finish: (result: UploadResult) => finish(result) }
+}
+
+const getTask = (id: string) =>
+  useUploadStore.getState().tasks.find((task) => task.id === id)!
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("useUploadStore", () => {
+  afterEach(() => {
+    useUploadStore.setState({ tasks: [] })
+    vi.restoreAllMocks()
+  })
+
+  it("completes a task once its upload and onComplete finish", async () => {
+    const { finish } = deferUpload()
+    const onComplete = vi.fn()
+    const id = useUploadStore.getState().enqueue({ file: createFile(), onComplete })
+
+    expect(getTask(id).status).toBe("uploading")
+    finish(RESULT)
+    await flush()
+
+    expect(onComplete).toHaveBeenCalledWith(RESULT)
+    expect(getTask(id).status).toBe("completed")
+  })
+
+  it("stays paused when the upload resolves after the pause", async () => {
+    const { upload, finish } = deferUpload()
+    const onComplete = vi.fn()
+    const id = useUploadStore.getState().enqueue({ file: createFile(), onComplete })
+
+    useUploadStore.getState().pause(id)
+    finish(RESULT)
+    await flush()
+
+    expect(getTask(id).status).toBe("paused")
+    expect(getTask(id).result).toEqual(RESULT)
+    expect(onComplete).not.toHaveBeenCalled()
+
+    useUploadStore.getState().resume(id)
+    await flush()
+
+    expect(upload).toHaveBeenCalledTimes(1)
+    expect(onComplete).toHaveBeenCalledWith(RESULT)
+    expect(getTask(id).status).toBe("completed")
+  })
+
+  it("stays cancelled when the upload resolves after the cancel", async () => {
+    const { finish } = deferUpload()
+    const id = useUploadStore.getState().enqueue({ file: createFile() })
+
+    useUploadStore.getState().cancel(id)
+    finish(RESULT)
+    await flush()
+
+    expect(getTask(id).status).toBe("cancelled")
+  })
+})
@@ -0,0 +1,258 @@
+import { create } from "zustand"
+import { toast } from "sonner"
+import { t } from "../i18n"
+import {
+  UploadService,
+  type PresignedUrlRequest,
+  type UploadProgress,
+  type UploadResult,
+} from "../services/upload-service"
+import {
+  MultipartUploadService,
+  isAbortError,
+} from "../services/multipart-upload-service"
+
+export type UploadTaskStatus =
+  | "queued"
+  | "uploading"
+  | "processing"
+  | "paused"
+  | "completed"
+  | "error"
+  | "cancelled"
+
+export interface UploadTask {
+  id: string
+  file: File
+  label: string
+  uploadType: PresignedUrlRequest["uploadType"]
+  folder?: string
+  status: UploadTaskStatus
+  progress: UploadProgress | null
+  error: string | null
+  // Set once the file is in storage; a retry then only re-runs onComplete
+  result: UploadResult | null
+  createdAt: number
+  // Registers the uploaded file, e.g. creates the video library record
+  onComplete?: (result: UploadResult) => unknown
+}
+
+export interface EnqueueUploadInput {
+  file: File
+  label?: string
+  uploadType?: PresignedUrlRequest["uploadType"]
+  folder?: string
+  onComplete?: (result: UploadResult) => unknown
+}
+
+interface UploadState {
+  tasks: UploadTask[]
+  concurrency: number
+
+  // Actions
+  enqueue: (input: EnqueueUploadInput) => string
+  pause: (id: string) => void
+  resume: (id: string) => void
+  cancel: (id: string) => void
+  retry: (id: string) => void
+  dismiss: (id: string) => void
+  clearFinished: () => void
+  setConcurrency: (concurrency: number) => void
+}
+
+const DEFAULT_CONCURRENCY = 2
+
+const ACTIVE_STATUSES: UploadTaskStatus[] = ["uploading", "processing"]
+const FINISHED_STATUSES: UploadTaskStatus[] = [
+  "completed",
+  "error",
+  "cancelled",
+]
+
+export const isUploadActive = (task: UploadTask) =>
+  ACTIVE_STATUSES.includes(task.status)
+
+export const isUploadFinished = (task: UploadTask) =>
+  FINISHED_STATUSES.includes(task.status)
+
+/**
+ * Resolves with the upload result once the task has completed and rejects if
+ * it fails or is cancelled. Paused tasks keep the promise pending.
+ */
+export const waitForUpload = (id: string) =>
+  new Promise<UploadResult>((resolve, reject) => {
+    const settle = (tasks: UploadTask[]) => {
+      const task = tasks.find((item) => item.id === id)
+      if (!task) {
+        reject(new Error(t("uploads.removed")))
+      } else if (task.status === "completed" && task.result) {
+        resolve(task.result)
+      } else if (task.status === "error") {
+        reject(new Error(task.error || t("uploads.failed")))
+      } else if (task.status === "cancelled") {
+        reject(new Error(t("uploads.wasCancelled")))
+      } else {
+        return false
+      }
+      return true
+    }
+
+    if (settle(useUploadStore.getState().tasks)) return
+    const unsubscribe = useUploadStore.subscribe((state) => {
+      if (settle(state.tasks)) unsubscribe()
+    })
+  })
+
+// Abort controllers of running uploads, kept out of the store state
+const controllers = new Map<string, AbortController>()
+
+let nextTaskId = 0
+
+export const useUploadStore = create<UploadState>()((set, get) => {
+  const updateTask = (id: string, patch: Partial<UploadTask>) =>
+    set((state) => ({
+      tasks: state.tasks.map((task) =>
+        task.id === id ? { ...task, ...patch } : task
+      ),
+    }))
+
+  const getTask = (id: string) => get().tasks.find((task) => task.id === id)
+
+  // A pause or cancel may land while a run is still settling; its status wins
+  const hasStatus = (id: string, ...statuses: UploadTaskStatus[]) => {
+    const status = getTask(id)?.status
+    return !!status && statuses.includes(status)
+  }
+
+  const runTask = async (id: string) => {
+    const task = getTask(id)
+    if (!task) return
+
+    const controller = new AbortController()
+    controllers.set(id, controller)
+    updateTask(id, { status: "uploading", error: null })
+
+    try {
+      const result =
+        task.result ||
+        (await UploadService.upload(task.file, {
+          uploadType: task.uploadType,
+          folder: task.folder,
+          signal: controller.signal,
+          onProgress: (progress) => updateTask(id, { progress }),
+        }))
+
+      if (!hasStatus(id, "uploading")) {
+        // Kept so a resume skips straight to onComplete
+        updateTask(id, { result })
+        return
+      }
+      updateTask(id, { status: "processing", result })
+      await task.onComplete?.(result)
+      if (hasStatus(id, "processing")) updateTask(id, { status: "completed" })
+    } catch (error) {
+      // Paused and cancelled tasks already have their status set
+      if (!isAbortError(error) && hasStatus(id, "uploading", "processing")) {
+        updateTask(id, {
+          status: "error",
+          error: error instanceof Error ? error.message : t("uploads.failed"),
+        })
+      }
+    } finally {
+      // A resume may already have started a new run with its own controller
+      if (controllers.get(id) === controller) controllers.delete(id)
+      processQueue()
+    }
+  }
+
+  const processQueue = () => {
+    const { tasks, concurrency } = get()
+    const running = tasks.filter(isUploadActive).length
+    tasks
+      .filter((task) => task.status === "queued")
+      .slice(0, Math.max(0, concurrency - running))
+      .forEach((task) => void runTask(task.id))
+  }
+
+  return {
+    tasks: [],
+    concurrency: DEFAULT_CONCURRENCY,
+
+    enqueue: ({ file, label, uploadType = "video", folder, onComplete }) => {
+      const id = `upload-${Date.now()}-${nextTaskId++}`
+      set((state) => ({
+        tasks: [
+          ...state.tasks,
+          {
+            id,
+            file,
+            label: label || file.name,
+            uploadType,
+            folder,
+            status: "queued",
+            progress: null,
+            error: null,
+            result: null,
+            createdAt: Date.now(),
+            onComplete,
+          },
+        ],
+      }))
+      processQueue()
+      return id
+    },
+
+    pause: (id) => {
+      const task = getTask(id)
+      if (!task || (task.status !== "queued" && task.status !== "uploading")) {
+        return
+      }
+      updateTask(id, { status: "paused" })
+      controllers.get(id)?.abort()
+    },
+
+    resume: (id) => {
+      if (getTask(id)?.status !== "paused") return
+      updateTask(id, { status: "queued" })
+      processQueue()
+    },
+
+    cancel: (id) => {
+      const task = getTask(id)
+      if (!task || isUploadFinished(task) || task.status === "processing") {
+        return
+      }
+      updateTask(id, { status: "cancelled" })
+      controllers.get(id)?.abort()
+      // Drop any parts a multipart upload already left in storage
+      MultipartUploadService.discard(task.file, task.folder).catch(() =>
+        toast.error(t("toast.uploadDiscardFailed", { name: task.label }))
+      )
+    },
+
+    retry: (id) => {
+      const task = getTask(id)
+      if (!task || (task.status !== "error" && task.status !== "cancelled")) {
+        return
+      }
+      updateTask(id, { status: "queued", error: null })
+      processQueue()
+    },
+
+    dismiss: (id) => {
+      const task = getTask(id)
+      if (!task || !isUploadFinished(task)) return
+      set((state) => ({ tasks: state.tasks.filter((item) => item.id !== id) }))
+    },
+
+    clearFinished: () =>
+      set((state) => ({
+        tasks: state.tasks.filter((task) => !isUploadFinished(task)),
+      })),
+
+    setConcurrency: (concurrency) => {
+      set({ concurrency: Math.max(1, concurrency) })
+      processQueue()
+    },
+  }
+})
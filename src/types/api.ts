@@ -134,7 +134,7 @@ export type UpdatePermissionInput = Partial<
 >
 
 export type PermissionResource =
-  | "admin"
+  | "admins"
   | "roles"
   | "permissions"
   | "users"
@@ -144,6 +144,14 @@ export type PermissionResource =
   | "enrollments"
   | "lessons"
   | "topics"
+  | "quizzes"
+  | "free_courses"
+  | "sections"
+  | "video_library"
+  | "attached_files"
+  | "progress"
+  | "audit_logs"
+  | "translations"
 
 export type PermissionAction =
   | "create"
@@ -153,48 +161,40 @@ export type PermissionAction =
   | "export"
   | "import"
 
+// Permission names as checked against the admin's role, e.g. "create_courses"
+export type PermissionName = `${PermissionAction}_${PermissionResource}`
+
+// Multilingual text as stored by the API. Populated references and older
+// records may carry a plain string instead, so display fields are typed
+// `LocalizedText | string`.
+export interface LocalizedText {
+  en: string
+  ar?: string
+  he?: string
+}
+
 // University Types
 export interface University {
   _id: string
-  name:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string // Support both multilingual and simple string for display
+  name: LocalizedText | string // Support both multilingual and simple string for display
   isActive: boolean
   createdAt: Date
   updatedAt: Date
 }
 
 export interface CreateUniversityInput {
-  name: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name: LocalizedText
 }
 
 export interface UpdateUniversityInput {
-  name?: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name?: LocalizedText
   isActive?: boolean
 }
 
 // Faculty Types
 export interface Faculty {
   _id: string
-  name:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string // Support both multilingual and simple string for display
+  name: LocalizedText | string // Support both multilingual and simple string for display
   universityId: University | string
   no_academic_year: number
   isActive: boolean
@@ -203,21 +203,13 @@ export interface Faculty {
 }
 
 export interface CreateFacultyInput {
-  name: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name: LocalizedText
   universityId: string
   no_academic_year: number
 }
 
 export interface UpdateFacultyInput {
-  name?: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name?: LocalizedText
   universityId?: string
   no_academic_year?: number
   isActive?: boolean
@@ -278,26 +270,10 @@ export interface UpdateUserInput {
 // Course Types
 export interface Course {
   _id: string
-  name:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string
-  aboutCourse:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string
+  name: LocalizedText | string
+  aboutCourse: LocalizedText | string
   whatWillYouLearn:
-  | Array<{
-    en: string
-    ar?: string
-    he?: string
-  }>
+  | Array<LocalizedText>
   | string[]
   numberOfCourseHours: number
   coursePrice: number
@@ -315,21 +291,9 @@ export interface Course {
 }
 
 export interface CreateCourseInput {
-  name: {
-    en: string
-    ar?: string
-    he?: string
-  }
-  aboutCourse: {
-    en: string
-    ar?: string
-    he?: string
-  }
-  whatWillYouLearn: Array<{
-    en: string
-    ar?: string
-    he?: string
-  }>
+  name: LocalizedText
+  aboutCourse: LocalizedText
+  whatWillYouLearn: Array<LocalizedText>
   numberOfCourseHours: number
   coursePrice: number
   discount?: number
@@ -341,21 +305,9 @@ export interface CreateCourseInput {
 }
 
 export interface UpdateCourseInput {
-  name?: {
-    en: string
-    ar?: string
-    he?: string
-  }
-  aboutCourse?: {
-    en: string
-    ar?: string
-    he?: string
-  }
-  whatWillYouLearn?: Array<{
-    en: string
-    ar?: string
-    he?: string
-  }>
+  name?: LocalizedText
+  aboutCourse?: LocalizedText
+  whatWillYouLearn?: Array<LocalizedText>
   numberOfCourseHours?: number
   coursePrice?: number
   discount?: number
@@ -379,13 +331,7 @@ export interface CourseStats {
 // Topic Types
 export interface Topic {
   _id: string
-  name:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string
+  name: LocalizedText | string
   courseId: Course | string
   topicsPrice: number
   discount: number
@@ -400,22 +346,14 @@ export interface Topic {
 }
 
 export interface CreateTopicInput {
-  name: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name: LocalizedText
   courseId: string
   topicsPrice: number
   discount?: number
 }
 
 export interface UpdateTopicInput {
-  name: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name: LocalizedText
   courseId?: string
   topicsPrice?: number
   discount?: number
@@ -442,20 +380,8 @@ export interface ReorderTopicsInput {
 // Lesson Types
 export interface Lesson {
   _id: string
-  name:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string
-  description:
-  | {
-    en: string
-    ar?: string
-    he?: string
-  }
-  | string
+  name: LocalizedText | string
+  description: LocalizedText | string
   topicId: Topic | string
   main_recording_url: string | { id: string; name: string; videoUrl: string }
   recording_gvo_url?: string | { id: string; name: string; videoUrl: string }
@@ -466,16 +392,8 @@ export interface Lesson {
 }
 
 export interface CreateLessonInput {
-  name: {
-    en: string
-    ar?: string
-    he?: string
-  }
-  description?: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name: LocalizedText
+  description?: LocalizedText
   topicId: string
   main_recording_url: string
   recording_gvo_url?: string
@@ -483,16 +401,8 @@ export interface CreateLessonInput {
 }
 
 export interface UpdateLessonInput {
-  name?: {
-    en: string
-    ar?: string
-    he?: string
-  }
-  description?: {
-    en: string
-    ar?: string
-    he?: string
-  }
+  name?: LocalizedText
+  description?: LocalizedText
   topicId?: string
   main_recording_url?: string
   recording_gvo_url?: string
@@ -601,10 +511,17 @@ export interface EnrollmentFilters {
 // Video Library Types
 export interface VideoLibrary {
   _id: string;
-  name: string; // Backend returns string, not multilingual object
+  name: string; // Backend returns the name in the requested language
   videoUrl: string;
   videoType: string;
   fileSize: number;
+  // Read in the browser at upload time; missing on older videos
+  duration?: number; // seconds
+  width?: number;
+  height?: number;
+  codec?: string;
+  thumbnailUrl?: string; // presigned when includePresignedUrls is set
+  usageCount?: number; // returned when includeUsage is set
   entityType: 'lesson' | 'course';
   uploadedBy: {
     _id: string;
@@ -617,6 +534,11 @@ export interface VideoLibrary {
   __v: number;
 }
 
+// A video fetched with language=all, which returns the name in every language
+export interface LocalizedVideoLibrary extends Omit<VideoLibrary, 'name'> {
+  name: LocalizedText;
+}
+
 export interface VideoLibraryResponse {
   success: boolean;
   message: string;
@@ -640,14 +562,15 @@ export interface VideoLibraryResponse {
 }
 
 export interface CreateVideoLibraryInput {
-  name: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  name: LocalizedText;
   videoUrl: string;
   videoType: string;
   fileSize?: number;
+  duration?: number;
+  width?: number;
+  height?: number;
+  codec?: string;
+  thumbnailUrl?: string; // S3 key of the poster frame
   entityType: 'lesson' | 'course';
   uploadedBy?: string;
 }
@@ -658,6 +581,7 @@ export interface UpdateVideoLibraryInput {
     ar?: string;
     he?: string;
   };
+  entityType?: 'lesson' | 'course';
   isActive?: boolean;
 }
 
@@ -671,6 +595,40 @@ export interface VideoLibraryQueryParams extends PaginationParams {
   fileSizeMax?: number;
   language?: 'en' | 'ar' | 'he' | 'all';
   includePresignedUrls?: boolean;
+  includeUsage?: boolean;
+  usage?: 'used' | 'orphaned';
+}
+
+export type LessonVideoField =
+  | 'main_recording_url'
+  | 'recording_gvo_url'
+  | 'recording_vvt_url';
+
+interface UsageEntity {
+  _id: string;
+  name: LocalizedText | string;
+}
+
+// A lesson recording or free-course content item that points at a video
+export type VideoUsageReference =
+  | {
+      type: 'lesson';
+      field: LessonVideoField;
+      lesson: UsageEntity;
+      topic: UsageEntity;
+      course: UsageEntity;
+    }
+  | {
+      type: 'free-course';
+      freeCourse: UsageEntity;
+      section: { _id: string; title: LocalizedText };
+      contentItem: { _id: string; title: LocalizedText };
+    };
+
+export interface VideoUsage {
+  videoId: string;
+  count: number;
+  references: VideoUsageReference[];
 }
 
 export interface VideoLibraryStats {
@@ -713,44 +671,24 @@ export const QuizAttemptStatus = {
 export type QuizAttemptStatus = typeof QuizAttemptStatus[keyof typeof QuizAttemptStatus]
 
 export interface MCQOption {
-  text: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  text: LocalizedText;
   isCorrect: boolean;
   order?: number;
 }
 
 export interface Question {
-  question: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  question: LocalizedText;
   type: QuestionType;
   options: MCQOption[];
-  explanation?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  explanation?: LocalizedText;
   points: number;
   order?: number;
 }
 
 export interface Quiz {
   _id: string;
-  title: {
-    en: string;
-    ar?: string;
-    he?: string;
-  } | string;
-  description?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  } | string;
+  title: LocalizedText | string;
+  description?: LocalizedText | string;
   quizType: QuizType;
   entityId: string;
   questions: Question[];
@@ -767,16 +705,8 @@ export interface Quiz {
 }
 
 export interface CreateQuizInput {
-  title: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  description?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title: LocalizedText;
+  description?: LocalizedText;
   quizType: QuizType;
   entityId: string;
   questions: Question[];
@@ -789,16 +719,8 @@ export interface CreateQuizInput {
 }
 
 export interface UpdateQuizInput {
-  title?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  description?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title?: LocalizedText;
+  description?: LocalizedText;
   questions?: Question[];
   passingScore?: number;
   timeLimit?: number;
@@ -895,11 +817,7 @@ export interface QuizQueryParams extends PaginationParams {
 export interface DuplicateQuizInput {
   entityId: string;
   quizType?: QuizType;
-  newTitle?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  newTitle?: LocalizedText;
 }
 
 // Free Course Types
@@ -914,11 +832,7 @@ export type ContentItemType = typeof ContentItemType[keyof typeof ContentItemTyp
 export interface ContentItem {
   _id: string;
   type: ContentItemType;
-  title: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title: LocalizedText;
   resourceId?: string; // AttachedFile, VideoLibrary, or Quiz ID
   url?: string; // For external videos
   order?: number;
@@ -926,16 +840,8 @@ export interface ContentItem {
 
 export interface Section {
   _id: string;
-  title: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  description?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title: LocalizedText;
+  description?: LocalizedText;
   isVisible: boolean;
   contentItems: ContentItem[];
   order?: number;
@@ -943,16 +849,8 @@ export interface Section {
 
 export interface FreeCourse {
   _id: string;
-  name: {
-    en: string;
-    ar?: string;
-    he?: string;
-  } | string;
-  overview: {
-    en: string;
-    ar?: string;
-    he?: string;
-  } | string;
+  name: LocalizedText | string;
+  overview: LocalizedText | string;
   universityId: University | string;
   facultyId: Faculty | string;
   instructorId: Admin | string;
@@ -966,16 +864,8 @@ export interface FreeCourse {
 }
 
 export interface CreateFreeCourseInput {
-  name: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  overview: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  name: LocalizedText;
+  overview: LocalizedText;
   universityId: string;
   facultyId: string;
   instructorId: string;
@@ -984,16 +874,8 @@ export interface CreateFreeCourseInput {
 }
 
 export interface UpdateFreeCourseInput {
-  name?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  overview?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  name?: LocalizedText;
+  overview?: LocalizedText;
   universityId?: string;
   facultyId?: string;
   instructorId?: string;
@@ -1002,42 +884,22 @@ export interface UpdateFreeCourseInput {
 }
 
 export interface CreateSectionInput {
-  title: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  description?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title: LocalizedText;
+  description?: LocalizedText;
   isVisible?: boolean;
   contentItems?: ContentItem[];
 }
 
 export interface UpdateSectionInput {
-  title?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
-  description?: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title?: LocalizedText;
+  description?: LocalizedText;
   isVisible?: boolean;
   order?: number;
 }
 
 export interface CreateContentItemInput {
   type: ContentItemType;
-  title: {
-    en: string;
-    ar?: string;
-    he?: string;
-  };
+  title: LocalizedText;
   resourceId?: string;
   url?: string;
 }
@@ -1156,11 +1018,7 @@ export interface ProgressWithCourse {
 export interface TopicProgressDetail {
   topicId: {
     _id: string;
-    name: {
-      en: string;
-      ar?: string;
-      he?: string;
-    };
+    name: LocalizedText;
     topicsPrice: number;
     discount: number;
   };
@@ -1174,16 +1032,8 @@ export interface TopicProgressDetail {
   lessonsProgress: Array<{
     lesson: {
       _id: string;
-      name: {
-        en: string;
-        ar?: string;
-        he?: string;
-      };
-      description: {
-        en: string;
-        ar?: string;
-        he?: string;
-      };
+      name: LocalizedText;
+      description: LocalizedText;
       main_recording_url: string;
       recording_gvo_url: string;
       recording_vvt_url: string;
@@ -1283,4 +1133,64 @@ export interface ProgressQueryParams extends PaginationParams {
   courseId?: string;
   userId?: string;
   isCompleted?: boolean;
-}
\ No newline at end of file
+}
+// Audit Log Types
+export const AuditAction = {
+  UPDATE: 'update',
+  DELETE: 'delete',
+  HARD_DELETE: 'hard_delete',
+  REFUND: 'refund',
+  CANCEL: 'cancel',
+  BLOCK: 'block',
+  UNBLOCK: 'unblock',
+  REMOVE_DEVICE: 'remove_device',
+  RESET_PROGRESS: 'reset_progress',
+  DELETE_PROGRESS: 'delete_progress',
+} as const
+
+export type AuditAction = typeof AuditAction[keyof typeof AuditAction]
+
+export const AuditEntityType = {
+  ADMIN: 'admin',
+  ROLE: 'role',
+  USER: 'user',
+  UNIVERSITY: 'university',
+  FACULTY: 'faculty',
+  ENROLLMENT: 'enrollment',
+  PROGRESS: 'progress',
+  VIDEO_LIBRARY: 'videoLibrary',
+} as const
+
+export type AuditEntityType = typeof AuditEntityType[keyof typeof AuditEntityType]
+
+export interface AuditLogEntry {
+  _id: string;
+  actor: {
+    _id: string;
+    userName: string;
+    email?: string;
+  };
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+}
+
+// The actor is taken from the auth token on the server
+export type CreateAuditLogInput = Pick<
+  AuditLogEntry,
+  'action' | 'entityType' | 'entityId' | 'entityLabel' | 'before' | 'after' | 'metadata'
+>
+
+export interface AuditLogQueryParams extends PaginationParams {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  startDate?: string;
+  endDate?: string;
+}
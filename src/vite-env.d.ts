@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string
+  readonly VITE_IDLE_WARNING_SECONDS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}